@@ -5,15 +5,29 @@ import { adminDashboardRoutes } from '../server/routes/admin-dashboard.js';
 import { clientRoutes } from '../server/routes/clients.js';
 import { chatbotsRoutes } from '../server/routes/chatbots.js';
 import { subscriptionRoutes } from '../server/routes/subscriptions.js';
-import { widgetRoutes } from '../server/routes/widgets.js';
+import { isWidgetRequest, widgetRoutes } from '../server/routes/widgets.js';
 import { paymentRoutes } from '../server/routes/payments.js';
 import { clientDashboardRoutes } from '../server/routes/client-dashboard.js';
 import { knowledgeBaseRoutes } from '../server/routes/knowledge-base.js';
 import { emailNotificationRoutes } from '../server/routes/email-notifications.js';
+import { privacyRoutes } from '../server/routes/privacy.js';
+import { jobRoutes } from '../server/routes/jobs.js';
+import { evaluationRoutes } from '../server/routes/evaluations.js';
+import { apiV1Routes } from '../server/routes/api-v1.js';
+import { registerJobs } from '../server/application/jobs.js';
+
+// Uploads and crawls are queued as jobs; an external scheduler runs them via POST /api/admin/jobs/run
+registerJobs();
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+// The Stripe webhook needs the unparsed body to verify its signature; widget routes parse their own
+// bodies after their abuse checks
+const jsonParser = express.json();
+const formParser = express.urlencoded({ extended: false });
+app.use((req, res, next) => {
+  if (req.path === '/api/payment/webhook' || isWidgetRequest(req.path)) return next();
+  jsonParser(req, res, (error?: any) => (error ? next(error) : formParser(req, res, next)));
+});
 
 // Configure auth
 configureAuth(app);
@@ -29,6 +43,10 @@ app.use("/api", paymentRoutes);
 app.use("/api", clientDashboardRoutes);
 app.use("/api", knowledgeBaseRoutes);
 app.use("/api/email-notifications", emailNotificationRoutes);
+app.use("/api", privacyRoutes);
+app.use("/api", jobRoutes);
+app.use("/api", evaluationRoutes);
+app.use("/api/v1", apiV1Routes);
 
 // Export for Vercel
 export default app;
@@ -12,6 +12,8 @@ import ClientDashboard from "@/pages/client-dashboard";
 import WidgetEmbed from "@/pages/widget-embed";
 import WidgetFullpage from "@/pages/widget-fullpage";
 import ChatbotAnalytics from "@/pages/ChatbotAnalytics";
+import ChatbotEvaluations from "@/pages/ChatbotEvaluations";
+import RetrievalPlayground from "@/pages/RetrievalPlayground";
 
 function Router() {
   return (
@@ -21,6 +23,8 @@ function Router() {
       <Route path="/admin">{() => <AdminDashboard />}</Route>
       <Route path="/admin/chatbots/create">{() => <AdminDashboard />}</Route>
       <Route path="/admin/chatbots/:id/analytics">{() => <ChatbotAnalytics />}</Route>
+      <Route path="/admin/chatbots/:id/evaluations">{() => <ChatbotEvaluations />}</Route>
+      <Route path="/admin/chatbots/:id/retrieval">{() => <RetrievalPlayground />}</Route>
       <Route path="/admin/chatbots/:id/edit">{(params) => <AdminDashboard params={params} />}</Route>
       <Route path="/client/login">{() => <ClientLogin />}</Route>
       <Route path="/client/dashboard">{() => <ClientDashboard />}</Route>
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Copy, History, KeyRound, Plus, Trash2 } from "lucide-react";
+import { apiKeyScopeEnum, type ApiKeyScope, type ApiKeySummary, type ApiKeyUsage } from "../../shared/schema";
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "chatbots:read": "Read chatbots",
+  "leads:read": "Read leads",
+  "leads:write": "Update leads",
+  "conversations:read": "Read conversations",
+  "kb:read": "Read knowledge base",
+  "kb:write": "Upload and delete documents",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+// Recent requests made with a key
+function ApiKeyUsageList({ keyId }: { keyId: string }) {
+  const { data: usage, isLoading } = useQuery<ApiKeyUsage[]>({
+    queryKey: [`/api/client/api-keys/${keyId}/usage?limit=20`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading requests...</p>;
+  }
+  if (!usage || usage.length === 0) {
+    return <p className="text-sm text-muted-foreground">No requests yet.</p>;
+  }
+
+  return (
+    <div className="space-y-1" data-testid={`list-api-key-usage-${keyId}`}>
+      {usage.map((entry) => (
+        <div key={entry.id} className="flex items-center gap-3 text-xs font-mono">
+          <span className="text-muted-foreground">{formatDate(entry.createdAt)}</span>
+          <span>{entry.method}</span>
+          <span className="truncate flex-1">{entry.path}</span>
+          <Badge variant={entry.statusCode < 400 ? "secondary" : "destructive"}>{entry.statusCode}</Badge>
+          <span className="text-muted-foreground">{entry.durationMs}ms</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// API keys for the public REST API: create (the key is shown once), revoke and recent usage
+export default function ApiKeysManager() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [usageKeyId, setUsageKeyId] = useState<string | null>(null);
+
+  const { data: apiKeys, isLoading } = useQuery<ApiKeySummary[]>({
+    queryKey: ["/api/client/api-keys"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/client/api-keys", { name: name.trim(), scopes });
+      return response.json() as Promise<{ apiKey: ApiKeySummary; key: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/client/api-keys"] });
+      setCreateOpen(false);
+      setName("");
+      setScopes([]);
+      setCreatedKey(data.key);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: string) => {
+      const response = await apiRequest("DELETE", `/api/client/api-keys/${keyId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/client/api-keys"] });
+      toast({
+        title: "API Key Revoked",
+        description: "Requests made with this key are now refused.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast({ title: "Copied!", description: "API key copied to clipboard" });
+    } catch (err) {
+      toast({ title: "Copy Failed", description: "Please copy the key manually", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card data-testid="card-api-keys">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            API Keys
+          </CardTitle>
+          <CardDescription>
+            Connect your CRM or other tools to the REST API at <code>/api/v1</code>. The OpenAPI description is at{" "}
+            <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">/api/v1/openapi.json</a>.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-create-api-key">
+          <Plus className="w-4 h-4 mr-2" />
+          New Key
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading API keys...</p>
+        ) : !apiKeys || apiKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API keys yet.</p>
+        ) : (
+          apiKeys.map((apiKey) => {
+            const revoked = !!apiKey.revokedAt;
+            const expired = !revoked && !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now();
+            return (
+              <div key={apiKey.id} className="border rounded-lg p-3 space-y-2" data-testid={`api-key-${apiKey.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{apiKey.name}</span>
+                      <code className="text-xs text-muted-foreground">{apiKey.prefix}…</code>
+                      {revoked && <Badge variant="destructive">Revoked</Badge>}
+                      {expired && <Badge variant="outline">Expired</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDate(apiKey.createdAt)} · Last used {formatDate(apiKey.lastUsedAt)}
+                      {apiKey.expiresAt && ` · Expires ${formatDate(apiKey.expiresAt)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setUsageKeyId(usageKeyId === apiKey.id ? null : apiKey.id)}
+                      data-testid={`button-api-key-usage-${apiKey.id}`}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    {!revoked && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" data-testid={`button-revoke-api-key-${apiKey.id}`}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Integrations using "{apiKey.name}" stop working immediately. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => revokeMutation.mutate(apiKey.id)}>Revoke</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                  ))}
+                </div>
+                {usageKeyId === apiKey.id && <ApiKeyUsageList keyId={apiKey.id} />}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Key</DialogTitle>
+            <DialogDescription>Give the key only the permissions your integration needs.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="e.g. CRM sync"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-api-key-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              {apiKeyScopeEnum.options.map((scope) => (
+                <div key={scope} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    data-testid={`checkbox-scope-${scope}`}
+                  />
+                  <Label htmlFor={`scope-${scope}`} className="font-normal">
+                    {SCOPE_LABELS[scope]} <code className="text-xs text-muted-foreground">{scope}</code>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              data-testid="button-submit-api-key"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Key"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your API Key</DialogTitle>
+            <DialogDescription>This is the only time the key is shown. Store it somewhere safe.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={createdKey || ""} className="font-mono text-xs" data-testid="input-created-api-key" />
+            <Button variant="outline" size="sm" onClick={copyKey} data-testid="button-copy-api-key">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
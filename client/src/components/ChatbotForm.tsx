@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useForm, useFormState } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,15 +12,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
-import { insertChatbotSchema } from "../../shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { insertChatbotSchema, chatbotConfigSchema, chatbotStatusEnum } from "../../shared/schema";
 import { Plus, Trash2, AlertCircle, ChevronLeft, ChevronRight } from "lucide-react";
 import BusinessHoursEditor from "./BusinessHoursEditor";
 import AppointmentTypesEditor from "./AppointmentTypesEditor";
+import ExperimentEditor from "./ExperimentEditor";
 import ValidationSummary from "./ValidationSummary";
 import BackgroundImageUpload from "./BackgroundImageUpload";
 import ChatbotPreview from "./ChatbotPreview";
 import KnowledgeBaseManager from "./KnowledgeBaseManager";
 import ChatbotPluginsTab from "./ChatbotPluginsTab";
+import PrivacyManager from "./PrivacyManager";
 import type { InsertChatbot, Client, Chatbot, ChatbotConfig } from "../../shared/schema";
 
 const DEFAULT_CUSTOM_INSTRUCTIONS = `You are a helpful assistant chatbot. Your primary role is to assist users with their questions and provide helpful information based on the available knowledge base and tools.
@@ -31,6 +35,20 @@ When users ask questions:
 - Stay focused on helping users with their queries
 - Be professional and courteous in all interactions`;
 
+// File types visitors can be allowed to attach; documents among them are read for the conversation
+const ATTACHMENT_FILE_TYPES = ["pdf", "doc", "docx", "txt", "csv", "xls", "xlsx", "json", "png", "jpg", "jpeg"];
+
+// The drizzle-zod insert schema infers as an empty object, so the form's fields are typed from the config schema
+const chatbotFormSchema = insertChatbotSchema.extend({
+  clientId: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  status: chatbotStatusEnum,
+  config: chatbotConfigSchema,
+});
+
+type ChatbotFormValues = z.infer<typeof chatbotFormSchema>;
+
 // Component to show which required fields need to be filled
 function RequiredFieldsSummary({ control, formValues }: { control: any, formValues: any }) {
   const { errors, isDirty, isSubmitted, touchedFields } = useFormState({ control });
@@ -115,13 +133,13 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
   console.log('Parsed chatbot:', parsedChatbot);
 
   // Initialize form with default values or existing chatbot data
-  const form = useForm<InsertChatbot>({
-    resolver: zodResolver(insertChatbotSchema),
+  const form = useForm<ChatbotFormValues>({
+    resolver: zodResolver(chatbotFormSchema),
     defaultValues: parsedChatbot ? {
       clientId: parsedChatbot.clientId,
       name: parsedChatbot.name,
       description: parsedChatbot.description || "",
-      status: parsedChatbot.status,
+      status: parsedChatbot.status as ChatbotFormValues["status"],
       config: parsedChatbot.config
     } : {
       clientId: "",
@@ -156,6 +174,7 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
           enableLanguageSwitcher: false,
           supportedLanguages: [{ code: 'en', name: 'English', rtl: false }],
           defaultLanguage: 'en',
+          allowedDomains: [],
         },
         businessHours: {
           enabled: false, // Disabled by default - not all chatbots need business hours
@@ -204,17 +223,32 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
             phone: { enabled: true, required: false, placeholder: "+1 (555) 123-4567" }
           }
         },
+        handoff: {
+          enabled: false,
+          allowVisitorRequest: true,
+          triggerKeywords: ["human", "agent", "real person", "representative"],
+          escalationRules: [
+            "The visitor asks to speak with a person",
+            "The visitor is upset or complains about the service",
+          ],
+          waitingMessage: "I'm connecting you with a member of our team. Someone will be with you shortly.",
+          handBackMessage: "You're chatting with our assistant again. How else can I help?",
+        },
+        experiment: {
+          enabled: false,
+          controlWeight: 50,
+          variants: [],
+        },
         advancedSettings: {
           enableAnalytics: true,
           enableChatHistory: true,
           maxConversationLength: 100,
           sessionTimeout: 30,
           requireEmail: false,
-          gdprCompliant: true,
-          dataRetentionDays: 90,
           allowFileUploads: false,
           maxFileSize: 10,
           allowedFileTypes: ["pdf", "doc", "docx", "txt"],
+          memoryWindow: 10,
         },
       },
     },
@@ -359,8 +393,11 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
                 <TabsTrigger value="knowledge">Knowledge Base</TabsTrigger>
                 <TabsTrigger value="plugins">Plugins</TabsTrigger>
                 <TabsTrigger value="leadCapture">Lead Capture</TabsTrigger>
+                <TabsTrigger value="handoff">Handoff</TabsTrigger>
+                <TabsTrigger value="experiment">A/B Test</TabsTrigger>
                 <TabsTrigger value="hours">Hours</TabsTrigger>
                 <TabsTrigger value="appointments">Appointments</TabsTrigger>
+                <TabsTrigger value="privacy">Privacy</TabsTrigger>
                 <TabsTrigger value="advanced">Advanced</TabsTrigger>
               </TabsList>
             </div>
@@ -1432,6 +1469,199 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
             </Card>
           </TabsContent>
           
+          <TabsContent value="handoff" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="config.handoff.enabled"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Enable Human Handoff</FormLabel>
+                          <FormDescription>
+                            Let conversations be escalated to your team, who can claim them from the client dashboard and reply live
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-handoff-enabled"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {form.watch("config.handoff.enabled") && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="config.handoff.allowVisitorRequest"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                            <div className="space-y-0.5">
+                              <FormLabel>Visitor Can Request a Person</FormLabel>
+                              <FormDescription>
+                                Show a "Talk to a person" action in the widget
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                                data-testid="switch-handoff-visitor-request"
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="config.handoff.triggerKeywords"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Trigger Keywords</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                rows={3}
+                                value={((field.value as string[] | undefined) || []).join("\n")}
+                                onChange={(e) => field.onChange(e.target.value.split("\n").map((k) => k.trim()).filter(Boolean))}
+                                data-testid="input-handoff-keywords"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              One per line. A visitor message containing any of these escalates immediately
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="config.handoff.escalationRules"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Escalation Rules</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                rows={4}
+                                value={(field.value || []).join("\n")}
+                                onChange={(e) => field.onChange(e.target.value.split("\n").map((r) => r.trim()).filter(Boolean))}
+                                data-testid="input-handoff-rules"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              One per line. Situations in which the assistant should hand the conversation to your team
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="config.handoff.waitingMessage"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Waiting Message</FormLabel>
+                            <FormControl>
+                              <Textarea rows={2} {...field} data-testid="input-handoff-waiting-message" />
+                            </FormControl>
+                            <FormDescription>
+                              Shown to the visitor while they wait for a team member
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="config.handoff.handBackMessage"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Hand Back Message</FormLabel>
+                            <FormControl>
+                              <Textarea rows={2} {...field} data-testid="input-handoff-hand-back-message" />
+                            </FormControl>
+                            <FormDescription>
+                              Shown to the visitor when the conversation returns to the assistant
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="experiment" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="config.experiment.enabled"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Run A/B Test</FormLabel>
+                          <FormDescription>
+                            Split widget sessions between the Behavior tab settings (control) and the variants below, and compare lead conversion in the chatbot's analytics
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={!!field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-experiment-enabled"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="config.experiment.controlWeight"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Control Weight</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={field.value ?? 50}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            data-testid="input-experiment-control-weight"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Share of sessions kept on the Behavior tab settings, relative to the variant weights. A visitor keeps their variant for the whole conversation
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <ExperimentEditor
+              control={form.control}
+              name="config.experiment.variants"
+            />
+          </TabsContent>
+
           <TabsContent value="hours" className="space-y-4">
             <Card>
               <CardContent className="pt-6">
@@ -1504,6 +1734,75 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
             )}
           </TabsContent>
           
+          <TabsContent value="privacy" className="space-y-4">
+            <Card>
+              <CardContent className="pt-6">
+                <h4 className="text-sm font-medium mb-4">Data Retention</h4>
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="config.advancedSettings.gdprCompliant"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Enforce Data Retention</FormLabel>
+                          <FormDescription>
+                            Delete inactive conversations and anonymise leads once the retention period has passed
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value ?? false}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-gdpr-compliant"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {form.watch("config.advancedSettings.gdprCompliant") && (
+                    <FormField
+                      control={form.control}
+                      name="config.advancedSettings.dataRetentionDays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Retention Period (days)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              max="365"
+                              placeholder="90"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || undefined)}
+                              data-testid="input-data-retention-days"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Retention starts once a period is saved. Conversations without messages for this long are deleted; older leads are anonymised
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {chatbot?.id && (
+              <PrivacyManager
+                chatbotId={chatbot.id}
+                retentionEnabled={
+                  (chatbot.config as ChatbotConfig)?.advancedSettings?.gdprCompliant === true &&
+                  !!(chatbot.config as ChatbotConfig)?.advancedSettings?.dataRetentionDays
+                }
+              />
+            )}
+          </TabsContent>
+
           <TabsContent value="advanced" className="space-y-4">
             <Card>
               <CardContent className="pt-6">
@@ -1685,6 +1984,278 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="mt-4">
+              <CardContent className="pt-6">
+                <h4 className="text-sm font-medium mb-4">Allowed Websites</h4>
+                <FormField
+                  control={form.control}
+                  name="config.widgetSettings.allowedDomains"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Domains</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={"example.com\n*.example.org"}
+                          rows={3}
+                          value={(field.value || []).join("\n")}
+                          onChange={(e) => field.onChange(e.target.value.split("\n"))}
+                          onBlur={() => {
+                            field.onChange(((field.value as string[] | undefined) || []).map((domain) => domain.trim()).filter(Boolean));
+                            field.onBlur();
+                          }}
+                          data-testid="input-allowed-domains"
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        One per line. The widget only answers on these websites (example.com includes www.example.com, *.example.com includes every subdomain). Leave empty to allow any website.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-4">
+              <CardContent className="pt-6">
+                <h4 className="text-sm font-medium mb-4">Language Model</h4>
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="config.advancedSettings.model.provider"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Provider</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-model-provider">
+                              <SelectValue placeholder="Server default" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="openai">OpenAI</SelectItem>
+                            <SelectItem value="anthropic">Anthropic</SelectItem>
+                            <SelectItem value="azure-openai">Azure OpenAI</SelectItem>
+                            <SelectItem value="local">Local (OpenAI-compatible)</SelectItem>
+                            <SelectItem value="fake">Offline test model</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          API keys are read from the server environment; without a provider the server's LLM_PROVIDER is used
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="config.advancedSettings.model.model"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Model</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Server default"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value.trim() || undefined)}
+                            data-testid="input-model-name"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Model name, or the deployment name for Azure OpenAI
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {form.watch("config.advancedSettings.model.provider") === "local" && (
+                    <FormField
+                      control={form.control}
+                      name="config.advancedSettings.model.baseUrl"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Endpoint URL</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="http://localhost:11434/v1"
+                              {...field}
+                              value={field.value || ""}
+                              data-testid="input-model-base-url"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="config.advancedSettings.model.temperature"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Temperature</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="2"
+                              step="0.1"
+                              placeholder="0.7"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value) || 0)}
+                              data-testid="input-model-temperature"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="config.advancedSettings.model.maxTokens"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max Tokens</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              max="32000"
+                              placeholder="5000"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || undefined)}
+                              data-testid="input-model-max-tokens"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="config.advancedSettings.memoryWindow"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Memory Window</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="2"
+                            max="50"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 10)}
+                            data-testid="input-memory-window"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Recent messages sent to the model word for word; older messages are summarised
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-4">
+              <CardContent className="pt-6">
+                <h4 className="text-sm font-medium mb-4">Visitor File Uploads</h4>
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="config.advancedSettings.allowFileUploads"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Allow File Uploads</FormLabel>
+                          <FormDescription>
+                            Let visitors attach files to their messages; the bot reads documents for that conversation only
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-allow-file-uploads"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {form.watch("config.advancedSettings.allowFileUploads") && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="config.advancedSettings.maxFileSize"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Maximum File Size (MB)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                max="50"
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 10)}
+                                data-testid="input-max-file-size"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="config.advancedSettings.allowedFileTypes"
+                        render={({ field }) => {
+                          const selected: string[] = field.value || [];
+                          return (
+                          <FormItem>
+                            <FormLabel>Allowed File Types</FormLabel>
+                            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                              {ATTACHMENT_FILE_TYPES.map((type) => (
+                                <div key={type} className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id={`file-type-${type}`}
+                                    checked={selected.includes(type)}
+                                    onCheckedChange={(checked) =>
+                                      field.onChange(checked ? [...selected, type] : selected.filter((value) => value !== type))
+                                    }
+                                    data-testid={`checkbox-file-type-${type}`}
+                                  />
+                                  <Label htmlFor={`file-type-${type}`} className="text-sm font-normal">
+                                    .{type}
+                                  </Label>
+                                </div>
+                              ))}
+                            </div>
+                            <FormDescription>
+                              Visitors can attach up to 5 files per message
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                          );
+                        }}
+                      />
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
             </Tabs>
             
@@ -1697,6 +2268,7 @@ export default function ChatbotForm({ chatbot, onSubmit, isSubmitting, validatio
               config={previewConfig}
               companyName={previewCompanyName}
               logoUrl={previewLogoUrl}
+              chatbotId={chatbot?.id}
             />
           </div>
         </div>
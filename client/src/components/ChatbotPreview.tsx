@@ -5,12 +5,14 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { MessageCircle, Send, X, ChevronDown } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
 import type { ChatbotConfig } from "../../shared/schema";
 
 interface ChatbotPreviewProps {
   config: ChatbotConfig;
   companyName?: string;
   logoUrl?: string;
+  chatbotId?: string; // Saved chatbots answer with their draft config; new ones get a placeholder reply
 }
 
 interface PreviewMessage {
@@ -42,8 +44,9 @@ const TypingIndicator = ({ color = "#3B82F6" }: { color?: string }) => (
   </div>
 );
 
-export default function ChatbotPreview({ config, companyName = "Your Company", logoUrl }: ChatbotPreviewProps) {
+export default function ChatbotPreview({ config, companyName = "Your Company", logoUrl, chatbotId }: ChatbotPreviewProps) {
   const [isOpen, setIsOpen] = useState(true);
+  const [isReplying, setIsReplying] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [inputMessage, setInputMessage] = useState("");
   const [messages, setMessages] = useState<PreviewMessage[]>([
@@ -200,8 +203,8 @@ export default function ChatbotPreview({ config, companyName = "Your Company", l
     }
   };
 
-  const handleSendMessage = () => {
-    if (!inputMessage.trim()) return;
+  const handleSendMessage = async () => {
+    if (!inputMessage.trim() || isReplying) return;
     
     const userMsg: PreviewMessage = {
       id: Date.now().toString(),
@@ -211,6 +214,22 @@ export default function ChatbotPreview({ config, companyName = "Your Company", l
     
     setMessages([...messages, userMsg]);
     setInputMessage("");
+
+    if (chatbotId) {
+      // Answered by the server with the saved draft, without reaching the live widget
+      setIsReplying(true);
+      let content: string;
+      try {
+        const response = await apiRequest("POST", `/api/chatbots/${chatbotId}/config/preview`, { message: userMsg.content });
+        content = (await response.json()).message;
+      } catch (error: any) {
+        content = `Preview failed: ${error.message}`;
+      } finally {
+        setIsReplying(false);
+      }
+      setMessages((prev) => [...prev, { id: (Date.now() + 1).toString(), role: "assistant", content }]);
+      return;
+    }
     
     // Simulate bot response
     setTimeout(() => {
@@ -244,7 +263,9 @@ export default function ChatbotPreview({ config, companyName = "Your Company", l
     <div className="sticky top-4">
       <div className="mb-3">
         <h3 className="text-sm font-semibold text-gray-700 mb-1">Live Preview</h3>
-        <p className="text-xs text-muted-foreground">See how your chatbot will look</p>
+        <p className="text-xs text-muted-foreground">
+          {chatbotId ? "See how your chatbot will look; replies use the saved draft" : "See how your chatbot will look"}
+        </p>
       </div>
       
       {/* Floating button preview */}
@@ -378,6 +399,13 @@ export default function ChatbotPreview({ config, companyName = "Your Company", l
                       </div>
                     </div>
                   ))}
+                  {isReplying && (
+                    <div className="text-left">
+                      <div className="inline-block p-2.5" style={getMessageStyle(false)}>
+                        <TypingIndicator color={thinkingDotsColor} />
+                      </div>
+                    </div>
+                  )}
                 </div>
               </ScrollArea>
               
@@ -427,7 +455,7 @@ export default function ChatbotPreview({ config, companyName = "Your Company", l
                   />
                   <Button
                     onClick={handleSendMessage}
-                    disabled={!inputMessage.trim()}
+                    disabled={!inputMessage.trim() || isReplying}
                     size="sm"
                     className="h-9 w-9 p-0"
                     style={{
@@ -7,7 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import EmbedCodeModal from "./EmbedCodeModal";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Code, BarChart2, Power, Plus } from "lucide-react";
+import { Settings, Code, BarChart2, FlaskConical, SearchCode, Power, Plus } from "lucide-react";
 import type { ChatbotWithClient, Chatbot } from "../../shared/schema";
 
 export default function ChatbotsTab() {
@@ -164,6 +164,22 @@ export default function ChatbotsTab() {
                   >
                     <BarChart2 className="w-4 h-4" />
                   </button>
+                  <button 
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg hover:bg-accent transition-colors" 
+                    title="Evaluations"
+                    onClick={() => setLocation(`/admin/chatbots/${chatbot.id}/evaluations`)}
+                    data-testid={`button-evaluations-${chatbot.id}`}
+                  >
+                    <FlaskConical className="w-4 h-4" />
+                  </button>
+                  <button 
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg hover:bg-accent transition-colors" 
+                    title="Retrieval Playground"
+                    onClick={() => setLocation(`/admin/chatbots/${chatbot.id}/retrieval`)}
+                    data-testid={`button-retrieval-${chatbot.id}`}
+                  >
+                    <SearchCode className="w-4 h-4" />
+                  </button>
                   <button 
                     className="p-2 text-muted-foreground hover:text-foreground rounded-lg hover:bg-accent transition-colors" 
                     title={chatbot.status === "active" ? "Deactivate" : "Activate"}
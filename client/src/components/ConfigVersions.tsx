@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronDown, ChevronRight, History, RotateCcw, Upload } from "lucide-react";
+import type { ChatbotConfigHistory, ChatbotConfigVersion, ConfigChange } from "../../shared/schema";
+
+interface ConfigVersionsProps {
+  chatbotId: string;
+  onRollback?: () => void; // The live config changed under the form; reload it
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  baseline: "Initial",
+  draft: "Draft",
+  update: "Applied live",
+  rollback: "Rollback",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+function ChangeList({ changes }: { changes: ConfigChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No changes</p>;
+  }
+  return (
+    <ul className="space-y-1 text-xs">
+      {changes.map((change) => (
+        <li key={change.path} className="break-all">
+          <span className="font-mono">{change.path}</span>:{" "}
+          <span className="text-destructive line-through">{formatValue(change.before)}</span>{" "}
+          <span className="text-green-600">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Config history of a chatbot: publish the draft, or roll the live config back to any version
+export default function ConfigVersions({ chatbotId, onRollback }: ConfigVersionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const historyKey = `/api/chatbots/${chatbotId}/config/versions`;
+
+  const { data: history } = useQuery<ChatbotConfigHistory>({
+    queryKey: [historyKey],
+  });
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: [historyKey] }),
+      queryClient.invalidateQueries({ queryKey: [`/api/chatbots/${chatbotId}`] }),
+      queryClient.invalidateQueries({ queryKey: ["/api/chatbots"] }),
+    ]);
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/chatbots/${chatbotId}/config/publish`, {});
+      return response.json() as Promise<ChatbotConfigVersion>;
+    },
+    onSuccess: (version) => {
+      refresh();
+      toast({ title: "Draft Published", description: `Version ${version.version} is live in the widget.` });
+    },
+    onError: showError("Failed to publish the draft"),
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest("POST", `/api/chatbots/${chatbotId}/config/versions/${versionId}/rollback`, {});
+      return response.json() as Promise<ChatbotConfigVersion>;
+    },
+    onSuccess: async (version) => {
+      await refresh();
+      onRollback?.();
+      toast({ title: "Rolled Back", description: `${version.note}; it is live as version ${version.version}.` });
+    },
+    onError: showError("Failed to roll back"),
+  });
+
+  const draft = history?.draft;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Versions
+          </CardTitle>
+          <CardDescription>
+            Saving stores a draft; the widget keeps the live version until the draft is published
+            {history?.liveVersion ? ` (live: v${history.liveVersion})` : ""}
+          </CardDescription>
+        </div>
+        {draft && (
+          <Button
+            type="button"
+            onClick={() => publishMutation.mutate()}
+            disabled={publishMutation.isPending}
+            data-testid="button-publish-config"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {publishMutation.isPending ? "Publishing..." : `Publish v${draft.version}`}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!history || history.versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions yet. Saving the form creates the first draft.</p>
+        ) : (
+          <div className="divide-y" data-testid="list-config-versions">
+            {history.versions.map((version) => {
+              const isLive = version.version === history.liveVersion;
+              const expanded = expandedId === version.id;
+              return (
+                <div key={version.id} className="py-3">
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      className="flex flex-1 items-center gap-2 text-left text-sm"
+                      onClick={() => setExpandedId(expanded ? null : version.id)}
+                    >
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      <span className="font-medium">v{version.version}</span>
+                      <Badge variant="outline">{ACTION_LABELS[version.action] || version.action}</Badge>
+                      {isLive && <Badge variant="secondary">Live</Badge>}
+                      {version.id === draft?.id && <Badge>Unpublished</Badge>}
+                      <span className="text-muted-foreground">
+                        {version.diff.length} change{version.diff.length === 1 ? "" : "s"} · {version.author || "system"} ·{" "}
+                        {new Date(version.createdAt).toLocaleString()}
+                      </span>
+                    </button>
+                    {!isLive && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button type="button" variant="ghost" size="sm" data-testid={`button-rollback-${version.id}`}>
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            {version.publishedAt ? "Roll back" : "Publish this"}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Make v{version.version} live?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The widget switches to this config right away, saved as a new version.
+                              {draft ? " The unpublished draft stays in the history." : ""}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => rollbackMutation.mutate(version.id)}>Make live</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                  {expanded && (
+                    <div className="mt-2 ml-6 space-y-1">
+                      {version.note && <p className="text-xs text-muted-foreground">{version.note}</p>}
+                      <ChangeList changes={version.diff} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
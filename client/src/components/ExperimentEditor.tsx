@@ -0,0 +1,214 @@
+import { useFieldArray } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Trash2, Plus } from "lucide-react";
+import { nanoid } from "nanoid";
+
+interface ExperimentEditorProps {
+  control: any;
+  name: string;
+}
+
+// Matches the server's limit on config.experiment.variants
+const MAX_VARIANTS = 3;
+
+// Personality select value for "use the behavior settings"
+const KEEP_PERSONALITY = "keep";
+
+// Variants of the behavior settings; blank fields keep the chatbot's own setting
+export default function ExperimentEditor({ control, name }: ExperimentEditorProps) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name,
+  });
+
+  const addVariant = () => {
+    append({
+      id: nanoid(10),
+      name: `Variant ${String.fromCharCode(65 + fields.length)}`,
+      weight: 50,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Variants</h4>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addVariant}
+          disabled={fields.length >= MAX_VARIANTS}
+          data-testid="button-add-variant"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Variant
+        </Button>
+      </div>
+
+      {fields.length === 0 ? (
+        <Card className="p-6 text-center">
+          <p className="text-muted-foreground">
+            No variants yet. Every session uses the Behavior tab settings until a variant is added.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {fields.map((field, index) => (
+            <Card key={field.id} className="p-4">
+              <div className="space-y-4">
+                <div className="flex items-start justify-between">
+                  <h5 className="font-medium">Variant {index + 1}</h5>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(index)}
+                    data-testid={`button-remove-variant-${index}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={control}
+                    name={`${name}.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name *</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="e.g., Short welcome" data-testid={`input-variant-name-${index}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={control}
+                    name={`${name}.${index}.weight`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Weight</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="number"
+                            min={0}
+                            max={100}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            data-testid={`input-variant-weight-${index}`}
+                          />
+                        </FormControl>
+                        <FormDescription>Share of sessions, relative to control and the other variants</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={control}
+                  name={`${name}.${index}.welcomeMessage`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Welcome Message</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={2}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || undefined)}
+                          placeholder="Blank keeps the chatbot's welcome message"
+                          data-testid={`input-variant-welcome-${index}`}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={control}
+                  name={`${name}.${index}.suggestedPrompts`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Suggested Prompts</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          value={((field.value as string[] | undefined) || []).join("\n")}
+                          onChange={(e) => {
+                            const prompts = e.target.value.split("\n").map((p) => p.trim()).filter(Boolean);
+                            field.onChange(prompts.length > 0 ? prompts : undefined);
+                          }}
+                          placeholder="Blank keeps the chatbot's suggested prompts"
+                          data-testid={`input-variant-prompts-${index}`}
+                        />
+                      </FormControl>
+                      <FormDescription>One per line, at most 5</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={control}
+                  name={`${name}.${index}.aiPersonality`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>AI Personality</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === KEEP_PERSONALITY ? undefined : value)}
+                        value={typeof field.value === "string" ? field.value : KEEP_PERSONALITY}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid={`select-variant-personality-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={KEEP_PERSONALITY}>Same as the chatbot</SelectItem>
+                          <SelectItem value="professional">Professional</SelectItem>
+                          <SelectItem value="friendly">Friendly</SelectItem>
+                          <SelectItem value="casual">Casual</SelectItem>
+                          <SelectItem value="formal">Formal</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={control}
+                  name={`${name}.${index}.customInstructions`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Custom Instructions</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={4}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || undefined)}
+                          placeholder="Blank keeps the chatbot's custom instructions"
+                          data-testid={`input-variant-instructions-${index}`}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
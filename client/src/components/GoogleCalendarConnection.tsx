@@ -0,0 +1,119 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "lucide-react";
+
+type CalendarStatus = {
+  configured: boolean;
+  connected: boolean;
+  connectedAt?: string;
+};
+
+// Connect or disconnect the client's Google Calendar used for chatbot bookings
+export default function GoogleCalendarConnection() {
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<CalendarStatus>({
+    queryKey: ["/api/client/calendar/google"],
+  });
+
+  // Result of the OAuth redirect back to the dashboard
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const result = params.get("calendar");
+    if (!result) return;
+
+    toast(result === "connected"
+      ? { title: "Calendar Connected", description: "Appointments booked by your chatbots will appear in Google Calendar." }
+      : { title: "Calendar Error", description: "Google Calendar could not be connected. Please try again.", variant: "destructive" });
+
+    params.delete("calendar");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  }, [toast]);
+
+  const connectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/client/calendar/google/connect", {});
+      return response.json();
+    },
+    onSuccess: (data: { authUrl: string }) => {
+      window.location.href = data.authUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start calendar connection",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/client/calendar/google");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/client/calendar/google"] });
+      toast({
+        title: "Calendar Disconnected",
+        description: "Your chatbots can no longer book appointments in Google Calendar.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to disconnect calendar",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !status?.configured) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-google-calendar">
+      <CardContent className="p-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Calendar className="w-5 h-5 text-muted-foreground" />
+          <div>
+            <p className="font-medium">Google Calendar</p>
+            <p className="text-sm text-muted-foreground">
+              {status.connected
+                ? "Chatbots check your availability and add bookings to your calendar."
+                : "Connect your calendar so chatbots can book real appointments."}
+            </p>
+          </div>
+          {status.connected && <Badge variant="secondary" data-testid="badge-calendar-connected">Connected</Badge>}
+        </div>
+        {status.connected ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => disconnectMutation.mutate()}
+            disabled={disconnectMutation.isPending}
+            data-testid="button-disconnect-calendar"
+          >
+            Disconnect
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            onClick={() => connectMutation.mutate()}
+            disabled={connectMutation.isPending}
+            data-testid="button-connect-calendar"
+          >
+            Connect
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
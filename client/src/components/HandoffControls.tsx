@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Send, UserCheck, Bot, XCircle } from "lucide-react";
+
+export type ConversationStatus = "bot" | "waiting_human" | "human" | "closed";
+
+const statusLabels: Record<ConversationStatus, string> = {
+  bot: "Bot",
+  waiting_human: "Waiting for agent",
+  human: "Live agent",
+  closed: "Closed",
+};
+
+export function ConversationStatusBadge({ status }: { status?: ConversationStatus }) {
+  const current = status || "bot";
+  return (
+    <Badge
+      variant={current === "waiting_human" ? "destructive" : current === "human" ? "default" : "secondary"}
+      data-testid={`badge-conversation-status-${current}`}
+    >
+      {statusLabels[current]}
+    </Badge>
+  );
+}
+
+interface HandoffControlsProps {
+  conversation: {
+    id: string;
+    status?: ConversationStatus;
+    assignedAgent?: string | null;
+    handoffReason?: string | null;
+  };
+  agentName: string; // The signed-in user's name as the server records it (from /api/client/me)
+}
+
+// Claim, reply to, hand back or close a widget conversation
+export default function HandoffControls({ conversation, agentName }: HandoffControlsProps) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+  const status = conversation.status || "bot";
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: "claim" | "messages" | "release" | "close"; body?: Record<string, string> }) => {
+      const response = await apiRequest("POST", `/api/client/chats/${conversation.id}/${action}`, body || {});
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      if (action === "messages") setReply("");
+      queryClient.invalidateQueries({ queryKey: ["/api/client/chats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the conversation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendReply = () => {
+    if (!reply.trim() || actionMutation.isPending) return;
+    actionMutation.mutate({ action: "messages", body: { content: reply.trim() } });
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4 mt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <ConversationStatusBadge status={status} />
+          {status === "human" && conversation.assignedAgent && (
+            <span data-testid="text-assigned-agent">Handled by {conversation.assignedAgent}</span>
+          )}
+          {status === "waiting_human" && conversation.handoffReason && (
+            <span data-testid="text-handoff-reason">{conversation.handoffReason}</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {status !== "human" || conversation.assignedAgent !== agentName ? (
+            <Button
+              size="sm"
+              onClick={() => actionMutation.mutate({ action: "claim" })}
+              disabled={actionMutation.isPending}
+              data-testid="button-claim-conversation"
+            >
+              <UserCheck className="w-4 h-4 mr-2" />
+              Claim
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => actionMutation.mutate({ action: "release" })}
+              disabled={actionMutation.isPending}
+              data-testid="button-release-conversation"
+            >
+              <Bot className="w-4 h-4 mr-2" />
+              Hand back to bot
+            </Button>
+          )}
+          {status !== "closed" && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => actionMutation.mutate({ action: "close" })}
+              disabled={actionMutation.isPending}
+              data-testid="button-close-conversation"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Close
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {status === "human" && conversation.assignedAgent === agentName && (
+        <div className="flex gap-2">
+          <Input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                sendReply();
+              }
+            }}
+            placeholder="Type your reply..."
+            disabled={actionMutation.isPending}
+            data-testid="input-agent-reply"
+          />
+          <Button
+            onClick={sendReply}
+            disabled={actionMutation.isPending || !reply.trim()}
+            data-testid="button-send-agent-reply"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,10 +15,13 @@ import {
   Download,
   FileSpreadsheet,
   FileJson,
-  File
+  File,
+  Globe
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import EmbeddingSettings from "./EmbeddingSettings";
+import UnansweredQuestionsInbox from "./UnansweredQuestionsInbox";
+import WebsiteSourcesManager from "./WebsiteSourcesManager";
 
 interface KnowledgeBaseDocument {
   id: string;
@@ -27,6 +30,7 @@ interface KnowledgeBaseDocument {
   size: number;
   status: "uploaded" | "processing" | "ready" | "error";
   errorMessage?: string | null;
+  sourceUrl?: string | null; // Set for pages crawled from a website source
   createdAt: string;
   updatedAt: string;
 }
@@ -233,6 +237,9 @@ export default function KnowledgeBaseManager({
   const getFileIcon = (contentType: string, filename: string) => {
     const ext = filename.toLowerCase().split('.').pop();
     
+    if (contentType.includes('html')) {
+      return <Globe className="h-4 w-4 text-sky-500" />;
+    }
     if (contentType.includes('json') || ext === 'json') {
       return <FileJson className="h-4 w-4 text-orange-500" />;
     }
@@ -369,6 +376,9 @@ export default function KnowledgeBaseManager({
         </CardContent>
       </Card>
 
+      {/* Website Sources */}
+      <WebsiteSourcesManager chatbotId={chatbotId} form={form} />
+
       {/* Documents List */}
       <Card>
         <CardHeader>
@@ -405,8 +415,11 @@ export default function KnowledgeBaseManager({
                         {getStatusBadge(doc.status)}
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        {formatFileSize(doc.size)} • Uploaded {new Date(doc.createdAt).toLocaleString()}
+                        {formatFileSize(doc.size)} • {doc.sourceUrl ? 'Crawled' : 'Uploaded'} {new Date(doc.createdAt).toLocaleString()}
                       </p>
+                      {doc.sourceUrl && (
+                        <p className="text-xs text-muted-foreground truncate">{doc.sourceUrl}</p>
+                      )}
                       {doc.status === 'error' && doc.errorMessage && (
                         <p className="text-xs text-red-600 mt-1">{doc.errorMessage}</p>
                       )}
@@ -431,6 +444,9 @@ export default function KnowledgeBaseManager({
           )}
         </CardContent>
       </Card>
+
+      {/* Unanswered Questions Inbox */}
+      <UnansweredQuestionsInbox chatbotId={chatbotId} form={form} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,14 +1,32 @@
+import { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
+import type { MessageCitation } from '../../shared/schema';
 
 interface MarkdownMessageProps {
   content: string;
+  citations?: MessageCitation[];
   className?: string;
 }
 
-export function MarkdownMessage({ content, className = '' }: MarkdownMessageProps) {
+const CITATION_HREF_PREFIX = '#cite-';
+
+export function MarkdownMessage({ content, citations, className = '' }: MarkdownMessageProps) {
+  const [expandedCitation, setExpandedCitation] = useState<number | null>(null);
+
   // Detect if content is RTL (Arabic, Hebrew, etc.)
   const isRTL = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/.test(content);
+
+  // Turn [n] citation markers into links the renderer shows as footnote references
+  const citedIndexes = new Set((citations || []).map(citation => citation.index));
+  const markdown = citedIndexes.size > 0
+    ? content.replace(/\[(\d+)\](?![(:])/g, (marker, value: string) =>
+        citedIndexes.has(Number(value)) ? `[${value}](${CITATION_HREF_PREFIX}${value})` : marker)
+    : content;
+
+  const toggleCitation = (index: number) =>
+    setExpandedCitation(current => (current === index ? null : index));
   
   return (
     <div className={className} dir={isRTL ? 'rtl' : 'ltr'} style={{ textAlign: isRTL ? 'right' : 'left' }}>
@@ -53,19 +71,80 @@ export function MarkdownMessage({ content, className = '' }: MarkdownMessageProp
           </blockquote>
         ),
         
-        // Links
-        a: ({ children, href }) => (
-          <a href={href} className="text-blue-600 dark:text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer">
-            {children}
-          </a>
-        ),
+        // Links; citation markers become footnote references
+        a: ({ children, href }) => {
+          if (href?.startsWith(CITATION_HREF_PREFIX)) {
+            const index = Number(href.slice(CITATION_HREF_PREFIX.length));
+            return (
+              <sup>
+                <button
+                  type="button"
+                  onClick={() => toggleCitation(index)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline font-medium px-0.5"
+                  aria-expanded={expandedCitation === index}
+                  data-testid={`citation-ref-${index}`}
+                >
+                  [{index}]
+                </button>
+              </sup>
+            );
+          }
+          return (
+            <a href={href} className="text-blue-600 dark:text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer">
+              {children}
+            </a>
+          );
+        },
         
         // Horizontal rule
         hr: () => <hr className="my-3 border-gray-300 dark:border-gray-600" />,
       }}
       >
-        {content}
+        {markdown}
       </ReactMarkdown>
+
+      {/* Footnotes: each expands to the cited passage */}
+      {citations && citations.length > 0 && (
+        <ol className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 space-y-1 text-xs">
+          {citations.map((citation) => {
+            const expanded = expandedCitation === citation.index;
+            return (
+              <li key={citation.index} data-testid={`citation-${citation.index}`}>
+                <button
+                  type="button"
+                  onClick={() => toggleCitation(citation.index)}
+                  className="flex items-start gap-1 w-full text-start text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                  aria-expanded={expanded}
+                >
+                  {expanded ? <ChevronDown className="h-3 w-3 mt-0.5 shrink-0" /> : <ChevronRight className="h-3 w-3 mt-0.5 shrink-0 rtl:rotate-180" />}
+                  <span>
+                    [{citation.index}] {citation.documentName}
+                    {citation.location && ` · ${citation.location}`}
+                  </span>
+                </button>
+                {expanded && (
+                  <div className="mt-1 ms-4 space-y-1">
+                    <blockquote className="border-s-2 border-gray-300 dark:border-gray-600 ps-2 whitespace-pre-line text-gray-700 dark:text-gray-300">
+                      {citation.passage}
+                    </blockquote>
+                    {citation.sourceUrl && (
+                      <a
+                        href={citation.sourceUrl}
+                        className="inline-flex items-center gap-1 break-all text-blue-600 dark:text-blue-400 hover:underline"
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        {citation.sourceUrl}
+                      </a>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
     </div>
   );
 }
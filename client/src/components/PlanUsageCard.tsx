@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Gauge } from "lucide-react";
+import type { PlanQuota, PlanUsage } from "../../shared/schema";
+
+const QUOTA_LABELS: Record<PlanQuota, string> = {
+  chatbots: "Chatbots",
+  monthlyMessages: "Messages this month",
+  kbDocuments: "Knowledge base documents",
+  plugins: "Plugins per chatbot",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  trial: "secondary",
+  active: "default",
+  payment_due: "destructive",
+  expired: "destructive",
+  cancelled: "outline",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleDateString() : null;
+}
+
+// The client's plan, its renewal or trial end, and how much of each quota is used
+export default function PlanUsageCard() {
+  const { data: plan, isLoading } = useQuery<PlanUsage>({
+    queryKey: ["/api/client/plan"],
+  });
+
+  if (isLoading || !plan) {
+    return null;
+  }
+
+  const renewal = plan.status === "trial"
+    ? formatDate(plan.trialEnd) && `Trial ends ${formatDate(plan.trialEnd)}`
+    : formatDate(plan.paidUntil) && `Paid until ${formatDate(plan.paidUntil)}`;
+
+  return (
+    <Card data-testid="card-plan-usage">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          <span className="capitalize">{plan.type} Plan</span>
+          {plan.status && (
+            <Badge variant={STATUS_VARIANTS[plan.status] || "outline"} className="capitalize" data-testid="badge-plan-status">
+              {plan.status.replace("_", " ")}
+            </Badge>
+          )}
+        </CardTitle>
+        {renewal && <CardDescription>{renewal}</CardDescription>}
+        <CardDescription data-testid="text-plan-llm-tokens">
+          {plan.llmTokens.toLocaleString()} AI tokens used this month
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {(Object.keys(QUOTA_LABELS) as PlanQuota[]).map((quota) => {
+          const limit = plan.limits[quota];
+          const used = plan.usage[quota];
+          return (
+            <div key={quota} className="space-y-1" data-testid={`plan-usage-${quota}`}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{QUOTA_LABELS[quota]}</span>
+                <span className="font-medium">
+                  {used.toLocaleString()} / {limit === null ? "Unlimited" : limit.toLocaleString()}
+                </span>
+              </div>
+              {limit !== null && <Progress value={Math.min(100, (used / Math.max(limit, 1)) * 100)} className="h-2" />}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, History, ShieldCheck, Trash2 } from "lucide-react";
+import type { DataSubjectExport, PrivacyAuditLog, RetentionResult } from "../../shared/schema";
+
+interface PrivacyManagerProps {
+  chatbotId: string;
+  retentionEnabled: boolean; // The saved chatbot has advancedSettings.gdprCompliant on and a dataRetentionDays period
+}
+
+type SubjectType = "session" | "email";
+
+const ACTION_LABELS: Record<string, string> = {
+  retention: "Retention",
+  export: "Export",
+  erasure: "Erasure",
+};
+
+// Data-subject requests (export, erasure), manual retention runs and the privacy audit log of a chatbot
+export default function PrivacyManager({ chatbotId, retentionEnabled }: PrivacyManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [subjectType, setSubjectType] = useState<SubjectType>("session");
+  const [subject, setSubject] = useState("");
+
+  const auditLogKey = [`/api/admin/privacy/audit-log?chatbotId=${encodeURIComponent(chatbotId)}&limit=50`];
+  const { data: auditLog, isLoading } = useQuery<PrivacyAuditLog[]>({
+    queryKey: auditLogKey,
+  });
+
+  const request = () => (subjectType === "session" ? { sessionId: subject.trim() } : { email: subject.trim() });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams(request());
+      const response = await apiRequest('GET', `/api/admin/chatbots/${chatbotId}/privacy/export?${params}`);
+      return response.json() as Promise<DataSubjectExport>;
+    },
+    onSuccess: (data) => {
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `visitor-data-${new Date().toISOString().split("T")[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Export ready",
+        description: `${data.conversations.length} conversations and ${data.leads.length} leads exported.`,
+      });
+      queryClient.invalidateQueries({ queryKey: auditLogKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to export visitor data",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/chatbots/${chatbotId}/privacy/erase`, request());
+      return response.json() as Promise<{ conversationsDeleted: number; messagesDeleted: number; leadsDeleted: number }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Visitor data erased",
+        description: `${data.conversationsDeleted} conversations, ${data.messagesDeleted} messages and ${data.leadsDeleted} leads deleted.`,
+      });
+      setSubject("");
+      queryClient.invalidateQueries({ queryKey: auditLogKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to erase visitor data",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/chatbots/${chatbotId}/privacy/retention/run`, {});
+      return response.json() as Promise<RetentionResult>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Retention applied",
+        description: `${data.conversationsDeleted} conversations deleted and ${data.leadsAnonymized} leads anonymised (older than ${data.retentionDays} days).`,
+      });
+      queryClient.invalidateQueries({ queryKey: auditLogKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to apply retention",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const busy = exportMutation.isPending || eraseMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Data-Subject Requests
+          </CardTitle>
+          <CardDescription>
+            Export or erase everything stored about a visitor: their conversations, messages and leads.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={subjectType} onValueChange={(value) => setSubjectType(value as SubjectType)}>
+              <SelectTrigger className="sm:w-44" data-testid="select-privacy-subject-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="session">Widget session ID</SelectItem>
+                <SelectItem value="email">Lead email</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder={subjectType === "session" ? "session_..." : "visitor@example.com"}
+              data-testid="input-privacy-subject"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => exportMutation.mutate()}
+              disabled={!subject.trim() || busy}
+              data-testid="button-privacy-export"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exportMutation.isPending ? "Exporting..." : "Export"}
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  disabled={!subject.trim() || busy}
+                  data-testid="button-privacy-erase"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {eraseMutation.isPending ? "Erasing..." : "Erase"}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Erase Visitor Data</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All conversations, messages and leads of <strong>{subject.trim()}</strong> will be deleted.
+                    This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel data-testid="button-cancel-privacy-erase">Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => eraseMutation.mutate()}
+                    className="bg-red-600 hover:bg-red-700"
+                    data-testid="button-confirm-privacy-erase"
+                  >
+                    Erase
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Privacy Audit Log
+          </CardTitle>
+          <CardDescription>
+            {retentionEnabled
+              ? "Retention runs daily. Apply it now to delete expired conversations and anonymise old leads immediately."
+              : "Data retention is turned off for this chatbot."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {retentionEnabled && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => retentionMutation.mutate()}
+              disabled={retentionMutation.isPending}
+              data-testid="button-run-retention"
+            >
+              {retentionMutation.isPending ? "Applying..." : "Apply Retention Now"}
+            </Button>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading audit log...</p>
+          ) : !auditLog || auditLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No privacy actions recorded yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {auditLog.map((entry) => (
+                <div key={entry.id} className="p-3 border rounded-lg text-sm" data-testid={`privacy-audit-${entry.id}`}>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="secondary">{ACTION_LABELS[entry.action] || entry.action}</Badge>
+                    {entry.status === "failed" && <Badge variant="destructive">Failed</Badge>}
+                    {entry.subject && <span className="font-mono text-xs">{entry.subject}</span>}
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {new Date(entry.createdAt).toLocaleString()} · {entry.performedBy}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {entry.status === "failed"
+                      ? entry.error
+                      : `${entry.conversationsAffected} conversations, ${entry.messagesAffected} messages, ${entry.leadsAffected} leads`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
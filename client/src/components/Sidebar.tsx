@@ -81,6 +81,15 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
         </svg>
       ),
     },
+    {
+      id: "usage" as TabType,
+      label: "LLM Usage",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6"/>
+        </svg>
+      ),
+    },
   ];
 
   return (
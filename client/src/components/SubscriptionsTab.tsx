@@ -41,11 +41,22 @@ export default function SubscriptionsTab() {
       action: string; 
       data?: any 
     }) => {
-      await apiRequest("PATCH", `/api/subscriptions/${subscriptionId}/${action}`, data);
+      const response = await apiRequest("PATCH", `/api/subscriptions/${subscriptionId}/${action}`, data);
+      return await response.json();
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (result, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+
+      // With Stripe enabled, conversion happens once the client completes Checkout
+      if (result?.checkoutUrl) {
+        window.open(result.checkoutUrl, "_blank", "noopener");
+        toast({
+          title: "Checkout Created",
+          description: "The subscription will activate once payment is completed in Stripe.",
+        });
+        return;
+      }
       
       const actionMessages: Record<string, string> = {
         "convert-to-paid": "Converted to paid subscription",
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { HelpCircle, Check, X } from "lucide-react";
+import type { KBUnansweredQuestion } from "../../shared/schema";
+
+interface UnansweredQuestionsInboxProps {
+  chatbotId: string;
+  form?: any; // React Hook Form instance, kept in sync when a FAQ is added
+}
+
+type AnswerMode = "faq" | "document";
+
+// Knowledge base misses grouped by similarity; admins answer them in place
+export default function UnansweredQuestionsInbox({ chatbotId, form }: UnansweredQuestionsInboxProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [mode, setMode] = useState<AnswerMode>("faq");
+
+  const { data: questions, isLoading } = useQuery<KBUnansweredQuestion[]>({
+    queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'unanswered'],
+    refetchInterval: 30000,
+  });
+
+  const startAnswering = (item: KBUnansweredQuestion) => {
+    setEditingId(item.id);
+    setQuestion(item.question.slice(0, 200));
+    setAnswer("");
+    setMode("faq");
+  };
+
+  const answerMutation = useMutation({
+    mutationFn: async (questionId: string) => {
+      const response = await apiRequest('POST', `/api/admin/chatbots/${chatbotId}/kb/unanswered/${questionId}/answer`, {
+        question,
+        answer,
+        mode,
+      });
+      return response.json();
+    },
+    onSuccess: (data: { faqs?: Array<{ question: string; answer: string }> }) => {
+      if (mode === "faq" && form && data.faqs) {
+        // The server saved the FAQ; keep the unsaved form from overwriting it
+        form.setValue("config.knowledgeBase.faqs", data.faqs);
+      }
+      toast({
+        title: "Question answered",
+        description: mode === "faq"
+          ? "The answer was added to the chatbot's FAQs."
+          : "The answer was added to the knowledge base and is searchable now.",
+      });
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'unanswered'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'documents'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save answer",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (questionId: string) => {
+      const response = await apiRequest('POST', `/api/admin/chatbots/${chatbotId}/kb/unanswered/${questionId}/dismiss`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'unanswered'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to dismiss question",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HelpCircle className="h-5 w-5" />
+          Unanswered Questions ({questions?.length || 0})
+        </CardTitle>
+        <CardDescription>
+          Questions your chatbot could not answer from the knowledge base, grouped by similarity. Answer them to close the gaps.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading questions...</p>
+        ) : !questions || questions.length === 0 ? (
+          <div className="text-center py-8">
+            <Check className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-sm text-muted-foreground">No unanswered questions right now.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {questions.map((item) => (
+              <div key={item.id} className="p-4 border rounded-lg space-y-3" data-testid={`unanswered-${item.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <h4 className="font-medium text-sm">{item.question}</h4>
+                      <Badge variant="secondary" data-testid={`badge-occurrences-${item.id}`}>
+                        Asked {item.occurrences}×
+                      </Badge>
+                      <Badge variant="outline">
+                        {item.lastReason === "low_confidence" ? "Low confidence" : "No results"}
+                      </Badge>
+                    </div>
+                    {item.examples.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        Also asked as: {item.examples.join(" · ")}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Last asked {new Date(item.lastAskedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {editingId !== item.id && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => startAnswering(item)}
+                        data-testid={`button-answer-${item.id}`}
+                      >
+                        Answer
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => dismissMutation.mutate(item.id)}
+                        disabled={dismissMutation.isPending}
+                        data-testid={`button-dismiss-${item.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {editingId === item.id && (
+                  <div className="space-y-3">
+                    <Input
+                      value={question}
+                      onChange={(e) => setQuestion(e.target.value)}
+                      maxLength={200}
+                      placeholder="Question"
+                      data-testid="input-unanswered-question"
+                    />
+                    <Textarea
+                      value={answer}
+                      onChange={(e) => setAnswer(e.target.value)}
+                      maxLength={1000}
+                      rows={4}
+                      placeholder="Write the answer your chatbot should give"
+                      data-testid="textarea-unanswered-answer"
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <Select value={mode} onValueChange={(value) => setMode(value as AnswerMode)}>
+                        <SelectTrigger className="w-56" data-testid="select-answer-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="faq">Add as FAQ entry</SelectItem>
+                          <SelectItem value="document">Add as knowledge base document</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => answerMutation.mutate(item.id)}
+                          disabled={answerMutation.isPending || !question.trim() || !answer.trim()}
+                          data-testid="button-save-answer"
+                        >
+                          {answerMutation.isPending ? "Saving..." : "Save Answer"}
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
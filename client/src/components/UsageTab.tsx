@@ -0,0 +1,173 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ClientUsageReport, UsageReport } from "../../shared/schema";
+
+const OPERATION_LABELS: Record<string, string> = {
+  chat: "Chat",
+  query_expansion: "Query expansion",
+  rerank: "Reranking",
+  summary: "Summaries",
+  embedding: "Embeddings",
+};
+
+function formatUsd(amount: number) {
+  return amount.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount !== 0 && Math.abs(amount) < 1 ? 4 : 2,
+  });
+}
+
+function formatTokens(tokens: number) {
+  return tokens.toLocaleString("en-US");
+}
+
+export default function UsageTab() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [expandedClientId, setExpandedClientId] = useState<string | null>(null);
+
+  const { data: report, isLoading } = useQuery<UsageReport>({
+    queryKey: [`/api/admin/usage?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+
+  const renderBreakdown = (client: ClientUsageReport) => (
+    <div className="grid gap-6 md:grid-cols-3 py-2">
+      <div>
+        <p className="text-sm font-medium mb-2">By chatbot</p>
+        {client.chatbots.map((chatbot) => (
+          <div key={chatbot.chatbotId || "deleted"} className="flex justify-between text-sm text-muted-foreground">
+            <span>{chatbot.chatbotName || "Deleted chatbot"}</span>
+            <span>{formatUsd(chatbot.cost)}</span>
+          </div>
+        ))}
+      </div>
+      <div>
+        <p className="text-sm font-medium mb-2">By operation</p>
+        {client.operations.map((operation) => (
+          <div key={operation.operation} className="flex justify-between text-sm text-muted-foreground">
+            <span>{OPERATION_LABELS[operation.operation] || operation.operation} ({operation.calls})</span>
+            <span>{formatUsd(operation.cost)}</span>
+          </div>
+        ))}
+      </div>
+      <div>
+        <p className="text-sm font-medium mb-2">By model</p>
+        {client.models.map((model) => (
+          <div key={model.model} className="flex justify-between text-sm text-muted-foreground">
+            <span>{model.model}</span>
+            <span>{formatTokens(model.promptTokens + model.completionTokens)} tokens</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">LLM Usage</h3>
+          <p className="text-muted-foreground">Token usage, model cost and margin per client</p>
+        </div>
+        <Input
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="w-44"
+          data-testid="input-usage-month"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {[
+          { label: "LLM Cost", value: report ? formatUsd(report.totals.cost) : "-", testId: "text-usage-cost" },
+          { label: "Revenue", value: report ? formatUsd(report.totals.revenue) : "-", testId: "text-usage-revenue" },
+          { label: "Margin", value: report ? formatUsd(report.totals.margin) : "-", testId: "text-usage-margin" },
+          {
+            label: "Tokens",
+            value: report ? formatTokens(report.totals.promptTokens + report.totals.completionTokens) : "-",
+            testId: "text-usage-tokens",
+          },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground text-sm font-medium">{stat.label}</p>
+              <p className="text-2xl font-bold text-foreground" data-testid={stat.testId}>
+                {isLoading ? "…" : stat.value}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr className="border-b border-border">
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground">Client</th>
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground">Calls</th>
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground">Tokens</th>
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground">Cost</th>
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground">Revenue</th>
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground">Margin</th>
+                <th className="text-left py-4 px-6 font-medium text-muted-foreground"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {report?.clients.length ? (
+                report.clients.map((client) => (
+                  <Fragment key={client.clientId}>
+                    <tr className="border-b border-border hover:bg-muted/30 transition-colors" data-testid={`row-usage-${client.clientId}`}>
+                      <td className="py-4 px-6">
+                        <p className="font-medium">{client.clientName || client.clientId}</p>
+                        <Badge variant="outline" className="capitalize mt-1">{client.plan}</Badge>
+                      </td>
+                      <td className="py-4 px-6">{client.calls.toLocaleString("en-US")}</td>
+                      <td className="py-4 px-6">{formatTokens(client.promptTokens + client.completionTokens)}</td>
+                      <td className="py-4 px-6 font-medium">{formatUsd(client.cost)}</td>
+                      <td className="py-4 px-6">{formatUsd(client.revenue)}</td>
+                      <td className={`py-4 px-6 font-medium ${client.margin < 0 ? "text-red-500" : "text-green-500"}`}>
+                        {formatUsd(client.margin)}
+                        {client.marginPercent !== null && (
+                          <span className="text-xs text-muted-foreground ml-2">{client.marginPercent.toFixed(1)}%</span>
+                        )}
+                      </td>
+                      <td className="py-4 px-6">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedClientId(expandedClientId === client.clientId ? null : client.clientId)}
+                          data-testid={`button-usage-details-${client.clientId}`}
+                        >
+                          {expandedClientId === client.clientId ? "Hide" : "Details"}
+                        </Button>
+                      </td>
+                    </tr>
+                    {expandedClientId === client.clientId && (
+                      <tr className="border-b border-border bg-muted/20">
+                        <td colSpan={7} className="px-6">{renderBreakdown(client)}</td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-muted-foreground">
+                    {isLoading ? "Loading usage…" : "No LLM usage recorded this month"}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
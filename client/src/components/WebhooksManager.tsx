@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Copy, History, Plus, RefreshCw, RotateCw, Trash2, Webhook } from "lucide-react";
+import { webhookEventTypeEnum, type WebhookDelivery, type WebhookEndpointSummary, type WebhookEventType } from "../../shared/schema";
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  "lead.created": "New lead captured",
+  "lead.status_changed": "Lead status changed",
+  "appointment.booked": "Appointment booked",
+  "conversation.ended": "Conversation closed by staff",
+};
+
+const STATUS_VARIANTS: Record<string, "secondary" | "destructive" | "outline"> = {
+  succeeded: "secondary",
+  failed: "destructive",
+  pending: "outline",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+// Recent deliveries to an endpoint, with a resend action
+function WebhookDeliveryList({ endpointId }: { endpointId: string }) {
+  const { toast } = useToast();
+  const deliveriesKey = `/api/client/webhooks/${endpointId}/deliveries?limit=20`;
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesKey],
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const response = await apiRequest("POST", `/api/client/webhooks/deliveries/${deliveryId}/resend`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [deliveriesKey] });
+      toast({ title: "Event Queued", description: "The event will be sent again shortly." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend event",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading deliveries...</p>;
+  }
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No events sent yet.</p>;
+  }
+
+  return (
+    <div className="space-y-1" data-testid={`list-webhook-deliveries-${endpointId}`}>
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="flex items-center gap-3 text-xs font-mono">
+          <span className="text-muted-foreground">{formatDate(delivery.createdAt)}</span>
+          <span>{delivery.eventType}</span>
+          <Badge variant={STATUS_VARIANTS[delivery.status] || "outline"}>{delivery.status}</Badge>
+          <span className="truncate flex-1 text-muted-foreground" title={delivery.error || delivery.responseBody || ""}>
+            {delivery.responseStatus ?? ""} {delivery.error || ""}
+          </span>
+          <span className="text-muted-foreground">
+            {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => resendMutation.mutate(delivery.id)}
+            disabled={resendMutation.isPending}
+            data-testid={`button-resend-webhook-${delivery.id}`}
+          >
+            <RotateCw className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Webhook endpoints: subscribe URLs to events, inspect deliveries and rotate signing secrets
+export default function WebhooksManager() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [deliveriesEndpointId, setDeliveriesEndpointId] = useState<string | null>(null);
+
+  const { data: endpoints, isLoading } = useQuery<WebhookEndpointSummary[]>({
+    queryKey: ["/api/client/webhooks"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/client/webhooks", {
+        url: url.trim(),
+        description: description.trim() || undefined,
+        events,
+      });
+      return response.json() as Promise<{ endpoint: WebhookEndpointSummary; secret: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/client/webhooks"] });
+      setCreateOpen(false);
+      setUrl("");
+      setDescription("");
+      setEvents([]);
+      setSecret(data.secret);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ endpointId, enabled }: { endpointId: string; enabled: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/client/webhooks/${endpointId}`, { enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/client/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (endpointId: string) => {
+      const response = await apiRequest("POST", `/api/client/webhooks/${endpointId}/rotate-secret`);
+      return response.json() as Promise<{ endpoint: WebhookEndpointSummary; secret: string }>;
+    },
+    onSuccess: (data) => {
+      setSecret(data.secret);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rotate secret",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (endpointId: string) => {
+      const response = await apiRequest("DELETE", `/api/client/webhooks/${endpointId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/client/webhooks"] });
+      toast({ title: "Webhook Deleted", description: "No more events are sent to this URL." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)));
+  };
+
+  const copySecret = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ title: "Copied!", description: "Signing secret copied to clipboard" });
+    } catch (err) {
+      toast({ title: "Copy Failed", description: "Please copy the secret manually", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card data-testid="card-webhooks">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="w-5 h-5" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Get a signed POST request when leads, appointments or conversations change. Failed deliveries are retried
+            with increasing delays.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-create-webhook">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Endpoint
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+        ) : !endpoints || endpoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+        ) : (
+          endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="border rounded-lg p-3 space-y-2" data-testid={`webhook-${endpoint.id}`}>
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <code className="text-sm truncate">{endpoint.url}</code>
+                    {!endpoint.enabled && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {endpoint.description ? `${endpoint.description} · ` : ""}Created {formatDate(endpoint.createdAt)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={endpoint.enabled}
+                    onCheckedChange={(enabled) => toggleMutation.mutate({ endpointId: endpoint.id, enabled })}
+                    data-testid={`switch-webhook-enabled-${endpoint.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeliveriesEndpointId(deliveriesEndpointId === endpoint.id ? null : endpoint.id)}
+                    data-testid={`button-webhook-deliveries-${endpoint.id}`}
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" data-testid={`button-rotate-webhook-secret-${endpoint.id}`}>
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Rotate Signing Secret</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Events are signed with the new secret from now on. Update your receiver before the next event.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => rotateMutation.mutate(endpoint.id)}>Rotate</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" data-testid={`button-delete-webhook-${endpoint.id}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Events are no longer sent to {endpoint.url}, and its delivery log is deleted.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteMutation.mutate(endpoint.id)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {endpoint.events.map((event) => (
+                  <Badge key={event} variant="secondary" className="font-mono text-xs">{event}</Badge>
+                ))}
+              </div>
+              {deliveriesEndpointId === endpoint.id && <WebhookDeliveryList endpointId={endpoint.id} />}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook Endpoint</DialogTitle>
+            <DialogDescription>Events are sent as JSON in a POST request to this URL.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/webhooks/automiqa"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="e.g. CRM sync"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-webhook-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {webhookEventTypeEnum.options.map((event) => (
+                <div key={event} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`event-${event}`}
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    data-testid={`checkbox-event-${event}`}
+                  />
+                  <Label htmlFor={`event-${event}`} className="font-normal">
+                    {EVENT_LABELS[event]} <code className="text-xs text-muted-foreground">{event}</code>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!url.trim() || events.length === 0 || createMutation.isPending}
+              data-testid="button-submit-webhook"
+            >
+              {createMutation.isPending ? "Adding..." : "Add Endpoint"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!secret} onOpenChange={(open) => !open && setSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your Signing Secret</DialogTitle>
+            <DialogDescription>
+              Use it to verify the X-Webhook-Signature header. This is the only time the secret is shown.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={secret || ""} className="font-mono text-xs" data-testid="input-webhook-secret" />
+            <Button variant="outline" size="sm" onClick={copySecret} data-testid="button-copy-webhook-secret">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Globe, RefreshCw, Trash2 } from "lucide-react";
+import type { KBSource } from "../../shared/schema";
+
+interface WebsiteSourcesManagerProps {
+  chatbotId: string;
+  form?: any; // React Hook Form instance, holds knowledgeBase.updateFrequency
+}
+
+// Comma or newline separated patterns
+const parsePatterns = (value: string) =>
+  value.split(/[,\n]/).map(pattern => pattern.trim()).filter(Boolean);
+
+// Websites crawled into the knowledge base, one document per page
+export default function WebsiteSourcesManager({ chatbotId, form }: WebsiteSourcesManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const [includePatterns, setIncludePatterns] = useState("");
+  const [excludePatterns, setExcludePatterns] = useState("");
+  const [maxPages, setMaxPages] = useState(50);
+
+  const updateFrequency = form?.watch("config.knowledgeBase.updateFrequency") || "manual";
+
+  const { data: sources } = useQuery<KBSource[]>({
+    queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'sources'],
+    // Poll while a crawl is running
+    refetchInterval: (query) =>
+      query.state.data?.some(source => source.status === 'crawling' || source.status === 'pending') ? 5000 : false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'sources'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/chatbots', chatbotId, 'kb', 'documents'] });
+  };
+
+  const createSourceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/chatbots/${chatbotId}/kb/sources`, {
+        url: url.trim(),
+        includePatterns: parsePatterns(includePatterns),
+        excludePatterns: parsePatterns(excludePatterns),
+        maxPages,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Website added",
+        description: "The crawl has started. Pages appear in the document list as they are processed.",
+      });
+      setUrl("");
+      setIncludePatterns("");
+      setExcludePatterns("");
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add website",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recrawlMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const response = await apiRequest('POST', `/api/admin/chatbots/${chatbotId}/kb/sources/${sourceId}/crawl`, {});
+      return response.json();
+    },
+    onSuccess: (source: KBSource) => {
+      // Show the crawl as running right away so polling starts
+      queryClient.setQueryData<KBSource[]>(
+        ['/api/admin/chatbots', chatbotId, 'kb', 'sources'],
+        (current) => current?.map(item => (item.id === source.id ? source : item))
+      );
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to start crawl",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSourceMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const response = await apiRequest('DELETE', `/api/admin/chatbots/${chatbotId}/kb/sources/${sourceId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Website removed",
+        description: "The website and its crawled pages were removed from the knowledge base.",
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove website",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'ready':
+        return <Badge variant="secondary" className="bg-green-100 text-green-800">Ready</Badge>;
+      case 'crawling':
+      case 'pending':
+        return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Crawling</Badge>;
+      case 'error':
+        return <Badge variant="destructive">Error</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Crawl a Website
+        </CardTitle>
+        <CardDescription>
+          Add pages from a website by its start page or sitemap.xml. Only pages whose content changed are re-processed on later crawls.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="kb-source-url">Start URL or sitemap</Label>
+            <Input
+              id="kb-source-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/docs or https://example.com/sitemap.xml"
+              data-testid="input-source-url"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="kb-source-include">Include paths</Label>
+              <Input
+                id="kb-source-include"
+                value={includePatterns}
+                onChange={(e) => setIncludePatterns(e.target.value)}
+                placeholder="/docs/*, /help/*"
+                data-testid="input-source-include"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kb-source-exclude">Exclude paths</Label>
+              <Input
+                id="kb-source-exclude"
+                value={excludePatterns}
+                onChange={(e) => setExcludePatterns(e.target.value)}
+                placeholder="/blog/*, *?page=*"
+                data-testid="input-source-exclude"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kb-source-max-pages">Page limit</Label>
+              <Input
+                id="kb-source-max-pages"
+                type="number"
+                min={1}
+                max={500}
+                value={maxPages}
+                onChange={(e) => setMaxPages(Math.min(500, Math.max(1, Number(e.target.value) || 1)))}
+                data-testid="input-source-max-pages"
+              />
+            </div>
+          </div>
+          <div className="flex items-end justify-between gap-4">
+            {form ? (
+              <div className="space-y-2">
+                <Label>Re-crawl</Label>
+                <Select
+                  value={updateFrequency}
+                  onValueChange={(value) => form.setValue("config.knowledgeBase.updateFrequency", value, { shouldDirty: true })}
+                >
+                  <SelectTrigger className="w-48" data-testid="select-update-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manually</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : <div />}
+            <Button
+              type="button"
+              onClick={() => createSourceMutation.mutate()}
+              disabled={createSourceMutation.isPending || !url.trim()}
+              data-testid="button-add-source"
+            >
+              {createSourceMutation.isPending ? 'Adding...' : 'Add Website'}
+            </Button>
+          </div>
+        </div>
+
+        {sources && sources.length > 0 && (
+          <div className="space-y-3">
+            {sources.map((source) => (
+              <div
+                key={source.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+                data-testid={`source-${source.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-medium text-sm truncate">{source.url}</h4>
+                    {getStatusBadge(source.status)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {source.pagesCrawled} of max {source.maxPages} pages
+                    {source.lastCrawledAt && ` • Last crawled ${new Date(source.lastCrawledAt).toLocaleString()}`}
+                  </p>
+                  {(source.includePatterns.length > 0 || source.excludePatterns.length > 0) && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {source.includePatterns.length > 0 && `Include: ${source.includePatterns.join(", ")}`}
+                      {source.includePatterns.length > 0 && source.excludePatterns.length > 0 && " • "}
+                      {source.excludePatterns.length > 0 && `Exclude: ${source.excludePatterns.join(", ")}`}
+                    </p>
+                  )}
+                  {source.status === 'error' && source.lastError && (
+                    <p className="text-xs text-red-600 mt-1">{source.lastError}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => recrawlMutation.mutate(source.id)}
+                    disabled={recrawlMutation.isPending || source.status === 'crawling'}
+                    data-testid={`button-recrawl-${source.id}`}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${source.status === 'crawling' ? 'animate-spin' : ''}`} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteSourceMutation.mutate(source.id)}
+                    disabled={deleteSourceMutation.isPending}
+                    data-testid={`button-delete-source-${source.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
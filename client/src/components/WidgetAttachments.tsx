@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { FileText, Paperclip, X } from "lucide-react";
+import { MAX_ATTACHMENTS, type useAttachments } from "@/hooks/use-attachments";
+import type { Translations } from "@/lib/translations";
+
+type Attachments = ReturnType<typeof useAttachments>;
+
+// Paperclip button with its hidden file input; renders nothing when the chatbot does not accept files
+export function AttachButton({ attachments, disabled, t }: { attachments: Attachments; disabled?: boolean; t: Translations }) {
+  if (!attachments.enabled) return null;
+
+  return (
+    <>
+      <input
+        ref={attachments.inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        accept={attachments.accept}
+        onChange={attachments.select}
+        data-testid="input-attachment"
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => attachments.inputRef.current?.click()}
+        disabled={disabled || attachments.files.length >= MAX_ATTACHMENTS}
+        title={t.attachFile}
+        aria-label={t.attachFile}
+        data-testid="button-attach"
+      >
+        <Paperclip className="w-4 h-4" />
+      </Button>
+    </>
+  );
+}
+
+// Selected files waiting to be sent, and the reason the last selection was refused
+export function PendingAttachments({ attachments, t }: { attachments: Attachments; t: Translations }) {
+  return (
+    <>
+      {attachments.files.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2" data-testid="pending-attachments">
+          {attachments.files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              className="inline-flex items-center gap-1 max-w-full rounded-full border px-2 py-0.5 text-xs text-gray-700"
+            >
+              <FileText className="w-3 h-3 shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <button
+                type="button"
+                onClick={() => attachments.remove(index)}
+                title={t.removeFile}
+                aria-label={t.removeFile}
+                data-testid={`button-remove-attachment-${index}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {attachments.error && (
+        <div className="text-xs text-red-600 mb-2" data-testid="text-attachment-error">
+          {attachments.error}
+        </div>
+      )}
+    </>
+  );
+}
+
+// File names shown in a sent visitor message
+export function MessageAttachments({ filenames }: { filenames?: string[] }) {
+  if (!filenames || filenames.length === 0) return null;
+
+  return (
+    <div className="space-y-1 mb-1">
+      {filenames.map((filename, index) => (
+        <div key={`${filename}-${index}`} className="flex items-center gap-1 text-xs opacity-90">
+          <FileText className="w-3 h-3 shrink-0" />
+          <span className="truncate">{filename}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useRef, useState } from "react";
+import type { ChatbotConfig } from "../../shared/schema";
+import type { Translations } from "@/lib/translations";
+
+// Matches the server's per-message limit
+export const MAX_ATTACHMENTS = 5;
+
+function getExtension(filename: string): string {
+  return filename.includes(".") ? filename.split(".").pop()!.toLowerCase() : "";
+}
+
+// Files a widget visitor is about to send, checked against advancedSettings for quick feedback;
+// the server enforces the same settings
+export function useAttachments(config: ChatbotConfig | undefined, t: Translations) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [error, setError] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const settings = config?.advancedSettings;
+  const allowedTypes = (settings?.allowedFileTypes || []).map(type => type.replace(/^\./, "").toLowerCase());
+  const maxSizeMB = settings?.maxFileSize || 10;
+
+  const select = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    let message = "";
+    const accepted = selected.filter((file) => {
+      if (!allowedTypes.includes(getExtension(file.name))) {
+        message = t.fileTypeNotAllowed.replace("{file}", file.name).replace("{types}", allowedTypes.join(", "));
+        return false;
+      }
+      if (file.size > maxSizeMB * 1024 * 1024) {
+        message = t.fileTooLarge.replace("{file}", file.name).replace("{size}", String(maxSizeMB));
+        return false;
+      }
+      return true;
+    });
+
+    const next = [...files, ...accepted];
+    if (next.length > MAX_ATTACHMENTS) {
+      message = t.tooManyFiles.replace("{count}", String(MAX_ATTACHMENTS));
+    }
+    setFiles(next.slice(0, MAX_ATTACHMENTS));
+    setError(message);
+  };
+
+  const remove = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Hand the files over for sending and clear the selection
+  const take = () => {
+    const taken = files;
+    setFiles([]);
+    setError("");
+    return taken;
+  };
+
+  return {
+    enabled: !!settings?.allowFileUploads,
+    accept: allowedTypes.map(type => `.${type}`).join(","),
+    files,
+    error,
+    inputRef,
+    select,
+    remove,
+    take,
+  };
+}
+
+// Widget message body: JSON, or multipart when files are attached
+export function buildMessageBody(message: string, files: File[]) {
+  if (files.length === 0) {
+    return { message };
+  }
+
+  const body = new FormData();
+  body.append("message", message);
+  files.forEach(file => body.append("files", file));
+  return body;
+}
+
+// The server's reason for rejecting a message (an attachment, the plan's message limit, the widget's rate limit or session), from an apiStream error "4xx: {...}"
+export function getRejectionMessage(error: unknown): string | undefined {
+  const match = error instanceof Error ? error.message.match(/^(?:40[0-3]|429): (.*)$/s) : null;
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[1]).response;
+  } catch {
+    return undefined;
+  }
+}
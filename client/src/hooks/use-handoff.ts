@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { withWidgetSession } from "@/lib/widget-guard";
+
+export type HandoffStatus = "bot" | "waiting_human" | "human" | "closed";
+
+export type HandoffMessage = {
+  id: string;
+  role: string;
+  content: string;
+  agentName?: string;
+  createdAt: string;
+};
+
+const POLL_INTERVAL_MS = 3000;
+
+// Track a widget session's handoff status and deliver staff messages while a person is involved
+export function useHandoff(
+  chatbotId: string | undefined,
+  onMessages: (messages: HandoffMessage[]) => void,
+) {
+  const [status, setStatus] = useState<HandoffStatus>("bot");
+  const [assignedAgent, setAssignedAgent] = useState<string | undefined>();
+  const lastSeenRef = useRef<string | undefined>();
+  const seenIdsRef = useRef<Set<string>>(new Set());
+  const onMessagesRef = useRef(onMessages);
+  onMessagesRef.current = onMessages;
+
+  const isActive = status === "waiting_human" || status === "human";
+
+  const poll = useCallback(async () => {
+    if (!chatbotId) return;
+    const params = new URLSearchParams();
+    if (lastSeenRef.current) params.set("after", lastSeenRef.current);
+
+    const response = await withWidgetSession(chatbotId, (headers) =>
+      apiRequest("GET", `/api/widget/${chatbotId}/handoff?${params.toString()}`, undefined, headers)
+    );
+    const data: { status: HandoffStatus; assignedAgent?: string; messages: HandoffMessage[] } = await response.json();
+
+    const fresh = data.messages.filter((m) => !seenIdsRef.current.has(m.id));
+    fresh.forEach((m) => seenIdsRef.current.add(m.id));
+    if (data.messages.length > 0) {
+      lastSeenRef.current = data.messages[data.messages.length - 1].createdAt;
+    }
+    if (fresh.length > 0) onMessagesRef.current(fresh);
+
+    setStatus(data.status);
+    setAssignedAgent(data.assignedAgent);
+  }, [chatbotId]);
+
+  // Apply a status returned with a message reply; polling takes over while a person is involved
+  const updateStatus = useCallback((next?: HandoffStatus | null) => {
+    if (next) setStatus(next);
+  }, []);
+
+  // Pick up where a resumed session left off, so its earlier messages are not delivered again
+  const restore = useCallback((session: { handoffStatus: HandoffStatus; assignedAgent?: string; messages: HandoffMessage[] }) => {
+    session.messages.forEach((m) => seenIdsRef.current.add(m.id));
+    if (session.messages.length > 0) {
+      lastSeenRef.current = session.messages[session.messages.length - 1].createdAt;
+    }
+    setStatus(session.handoffStatus);
+    setAssignedAgent(session.assignedAgent);
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => {
+      poll().catch((error) => console.error("Handoff polling failed:", error));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, poll]);
+
+  const requestHandoff = useCallback(async (reason?: string) => {
+    if (!chatbotId) return undefined;
+    const response = await withWidgetSession(chatbotId, (headers) =>
+      apiRequest("POST", `/api/widget/${chatbotId}/handoff`, { reason }, headers)
+    );
+    const data: { response: string; handoffStatus?: HandoffStatus } = await response.json();
+    updateStatus(data.handoffStatus);
+    return data;
+  }, [chatbotId, updateStatus]);
+
+  return { status, assignedAgent, isActive, updateStatus, restore, requestHandoff };
+}
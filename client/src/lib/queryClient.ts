@@ -14,10 +14,11 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  extraHeaders?: Record<string, string>,
 ): Promise<Response> {
   // Determine if we need to set Content-Type header
   // Don't set it for FormData - browser will set it with boundary
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { ...extraHeaders };
   let body: any = undefined;
   
   // Add Authorization header if token exists
@@ -48,6 +49,72 @@ export async function apiRequest(
   return res;
 }
 
+// POST a JSON (or FormData) body and read the Server-Sent Events response, calling onEvent per event
+export async function apiStream(
+  url: string,
+  data: unknown,
+  onEvent: (event: string, payload: any) => void,
+  extraHeaders?: Record<string, string>,
+): Promise<void> {
+  const headers: Record<string, string> = {
+    ...extraHeaders,
+    Accept: "text/event-stream",
+  };
+  // The browser sets the multipart Content-Type with its boundary
+  if (!(data instanceof FormData)) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const token = localStorage.getItem('access_token');
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch(API_BASE_URL + url, {
+    method: "POST",
+    headers,
+    body: data instanceof FormData ? data : JSON.stringify(data),
+  });
+
+  await throwIfResNotOk(res);
+
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join("\n")));
+      }
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
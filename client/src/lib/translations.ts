@@ -18,6 +18,18 @@ export interface Translations {
   currentlyOffline: string;
   quickQuestions: string;
   
+  // Human handoff
+  talkToPerson: string;
+  waitingForAgent: string;
+  chattingWithAgent: string;
+  
+  // File attachments ({file}, {size}, {types} and {count} are replaced)
+  attachFile: string;
+  removeFile: string;
+  fileTooLarge: string;
+  fileTypeNotAllowed: string;
+  tooManyFiles: string;
+  
   // Lead capture
   shareContact: string;
   submit: string;
@@ -45,6 +57,14 @@ export const translations: Record<string, Translations> = {
     weAreOnline: "We're online - How can we help?",
     currentlyOffline: "Currently offline - Leave us a message",
     quickQuestions: "Quick questions to get started:",
+    talkToPerson: "Talk to a person",
+    waitingForAgent: "Waiting for a team member...",
+    chattingWithAgent: "You are chatting with",
+    attachFile: "Attach a file",
+    removeFile: "Remove",
+    fileTooLarge: "{file} is larger than {size} MB",
+    fileTypeNotAllowed: "{file} can't be attached. Allowed types: {types}",
+    tooManyFiles: "You can attach up to {count} files",
     shareContact: "To help serve you better, would you mind sharing your contact information?",
     submit: "Submit",
     skip: "Skip",
@@ -67,6 +87,14 @@ export const translations: Record<string, Translations> = {
     weAreOnline: "نحن متصلون - كيف يمكننا المساعدة؟",
     currentlyOffline: "غير متصل حاليًا - اترك لنا رسالة",
     quickQuestions: "أسئلة سريعة للبدء:",
+    talkToPerson: "التحدث مع شخص",
+    waitingForAgent: "في انتظار أحد أعضاء الفريق...",
+    chattingWithAgent: "أنت تتحدث مع",
+    attachFile: "إرفاق ملف",
+    removeFile: "إزالة",
+    fileTooLarge: "حجم {file} أكبر من {size} ميغابايت",
+    fileTypeNotAllowed: "لا يمكن إرفاق {file}. الأنواع المسموح بها: {types}",
+    tooManyFiles: "يمكنك إرفاق {count} ملفات كحد أقصى",
     shareContact: "لخدمتك بشكل أفضل، هل تمانع في مشاركة معلومات الاتصال الخاصة بك؟",
     submit: "إرسال",
     skip: "تخطي",
@@ -89,6 +117,14 @@ export const translations: Record<string, Translations> = {
     weAreOnline: "Nous sommes en ligne - Comment pouvons-nous vous aider?",
     currentlyOffline: "Actuellement hors ligne - Laissez-nous un message",
     quickQuestions: "Questions rapides pour commencer:",
+    talkToPerson: "Parler à une personne",
+    waitingForAgent: "En attente d'un membre de l'équipe...",
+    chattingWithAgent: "Vous discutez avec",
+    attachFile: "Joindre un fichier",
+    removeFile: "Retirer",
+    fileTooLarge: "{file} dépasse {size} Mo",
+    fileTypeNotAllowed: "{file} ne peut pas être joint. Types autorisés : {types}",
+    tooManyFiles: "Vous pouvez joindre jusqu'à {count} fichiers",
     shareContact: "Pour mieux vous servir, pourriez-vous partager vos coordonnées?",
     submit: "Soumettre",
     skip: "Passer",
@@ -111,6 +147,14 @@ export const translations: Record<string, Translations> = {
     weAreOnline: "Estamos en línea - ¿Cómo podemos ayudar?",
     currentlyOffline: "Actualmente desconectado - Déjanos un mensaje",
     quickQuestions: "Preguntas rápidas para empezar:",
+    talkToPerson: "Hablar con una persona",
+    waitingForAgent: "Esperando a un miembro del equipo...",
+    chattingWithAgent: "Estás hablando con",
+    attachFile: "Adjuntar un archivo",
+    removeFile: "Quitar",
+    fileTooLarge: "{file} supera los {size} MB",
+    fileTypeNotAllowed: "No se puede adjuntar {file}. Tipos permitidos: {types}",
+    tooManyFiles: "Puedes adjuntar hasta {count} archivos",
     shareContact: "Para servirle mejor, ¿le importaría compartir su información de contacto?",
     submit: "Enviar",
     skip: "Omitir",
@@ -133,6 +177,14 @@ export const translations: Record<string, Translations> = {
     weAreOnline: "Wir sind online - Wie können wir helfen?",
     currentlyOffline: "Derzeit offline - Hinterlassen Sie uns eine Nachricht",
     quickQuestions: "Schnelle Fragen zum Einstieg:",
+    talkToPerson: "Mit einer Person sprechen",
+    waitingForAgent: "Warten auf ein Teammitglied...",
+    chattingWithAgent: "Sie chatten mit",
+    attachFile: "Datei anhängen",
+    removeFile: "Entfernen",
+    fileTooLarge: "{file} ist größer als {size} MB",
+    fileTypeNotAllowed: "{file} kann nicht angehängt werden. Erlaubte Typen: {types}",
+    tooManyFiles: "Sie können bis zu {count} Dateien anhängen",
     shareContact: "Um Ihnen besser zu dienen, würden Sie Ihre Kontaktinformationen teilen?",
     submit: "Einreichen",
     skip: "Überspringen",
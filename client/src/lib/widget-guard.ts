@@ -0,0 +1,193 @@
+// Sessions, headers and challenge handling for the widget's calls to the public widget endpoints
+import { apiRequest } from "./queryClient";
+import type { HandoffMessage, HandoffStatus } from "@/hooks/use-handoff";
+
+export interface WidgetChallenge {
+  type: string;
+  [key: string]: unknown;
+}
+
+type ChallengeSolver = (challenge: WidgetChallenge) => Promise<string>;
+
+// Sent with every request once solved; the server accepts it until it expires, then sends a new challenge
+let challengeSolution: string | null = null;
+
+// The origin of the page embedding the widget, or the widget's own when it is opened directly.
+// "null" when the embedding page hides itself, which fails a chatbot's allowed domains check.
+function getSiteOrigin(): string {
+  if (window.parent === window) {
+    return window.location.origin;
+  }
+
+  const ancestorOrigins = window.location.ancestorOrigins;
+  if (ancestorOrigins && ancestorOrigins.length > 0) {
+    return ancestorOrigins[0];
+  }
+
+  if (document.referrer) {
+    try {
+      return new URL(document.referrer).origin;
+    } catch {
+      // Fall through
+    }
+  }
+  return "null";
+}
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+// Find a nonce so that SHA-256("<token>:<nonce>") starts with `difficulty` zero bits
+async function solveProofOfWork(challenge: WidgetChallenge): Promise<string> {
+  const encoder = new TextEncoder();
+  const difficulty = Number(challenge.difficulty);
+  for (let nonce = 0; ; nonce++) {
+    const solution = `${challenge.token}:${nonce}`;
+    const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(solution)));
+    if (leadingZeroBits(hash) >= difficulty) {
+      return solution;
+    }
+  }
+}
+
+const solvers: Record<string, ChallengeSolver> = {
+  pow: solveProofOfWork,
+};
+
+// Add a solver for a challenge type registered on the server (a captcha widget, for example)
+export function registerChallengeSolver(type: string, solver: ChallengeSolver) {
+  solvers[type] = solver;
+}
+
+export function widgetHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "X-Widget-Origin": getSiteOrigin() };
+  if (challengeSolution) {
+    headers["X-Widget-Challenge"] = challengeSolution;
+  }
+  return headers;
+}
+
+// The challenge of a "429: {...}" error from apiRequest or apiStream
+function getChallenge(error: unknown): WidgetChallenge | undefined {
+  const match = error instanceof Error ? error.message.match(/^429: (.*)$/s) : null;
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[1]).challenge;
+  } catch {
+    return undefined;
+  }
+}
+
+// Send a widget request; when the server answers with a challenge, solve it and send the request once more
+export async function withWidgetChallenge<T>(send: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+  try {
+    return await send(widgetHeaders());
+  } catch (error) {
+    const challenge = getChallenge(error);
+    const solve = challenge && solvers[challenge.type];
+    if (!challenge || !solve) throw error;
+
+    challengeSolution = await solve(challenge);
+    return send(widgetHeaders());
+  }
+}
+
+export interface WidgetSession {
+  token: string;
+  expiresAt: string;
+  resumed: boolean;
+  handoffStatus: HandoffStatus;
+  assignedAgent?: string;
+  // The session's earlier messages when it was resumed
+  messages: HandoffMessage[];
+  // Replaces the chatbot's own when the session takes part in an A/B test
+  behavior?: { welcomeMessage: string; suggestedPrompts: string[] };
+}
+
+type StoredSession = { token: string; expiresAt: string; renewAt: number };
+
+// The current session per chatbot; kept in localStorage too so a reload resumes the conversation
+const sessions = new Map<string, StoredSession>();
+
+function sessionStorageKey(chatbotId: string) {
+  return `chatbot_session_${chatbotId}`;
+}
+
+// Storage can be blocked for third-party iframes; the session then lasts as long as the page
+function loadSession(chatbotId: string): StoredSession | undefined {
+  const session = sessions.get(chatbotId);
+  if (session) return session;
+
+  try {
+    const stored = localStorage.getItem(sessionStorageKey(chatbotId));
+    return stored ? JSON.parse(stored) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function saveSession(chatbotId: string, session: WidgetSession) {
+  // Renewed once half its lifetime has passed, so an active visitor keeps the session
+  const expiresAt = new Date(session.expiresAt).getTime();
+  const stored: StoredSession = {
+    token: session.token,
+    expiresAt: session.expiresAt,
+    renewAt: Date.now() + (expiresAt - Date.now()) / 2,
+  };
+  sessions.set(chatbotId, stored);
+
+  try {
+    localStorage.setItem(sessionStorageKey(chatbotId), JSON.stringify(stored));
+  } catch {
+    // Storage blocked
+  }
+}
+
+// Start a session for the widget, resuming the stored one (with its messages) while it is still valid
+export async function startWidgetSession(chatbotId: string): Promise<WidgetSession> {
+  const stored = loadSession(chatbotId);
+  const response = await withWidgetChallenge((headers) =>
+    apiRequest("POST", `/api/widget/${chatbotId}/session`, { token: stored?.token }, headers)
+  );
+  const session: WidgetSession = await response.json();
+  saveSession(chatbotId, session);
+  return session;
+}
+
+function isSessionExpired(error: unknown) {
+  return error instanceof Error && error.message.startsWith("401: ");
+}
+
+// Send a widget request in the chatbot's session; when the session has expired, start a new one and send the request once more
+export async function withWidgetSession<T>(
+  chatbotId: string,
+  send: (headers: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  let session = loadSession(chatbotId);
+  if (!session || session.renewAt <= Date.now()) {
+    await startWidgetSession(chatbotId);
+    session = sessions.get(chatbotId)!;
+  }
+
+  const sendInSession = (token: string) =>
+    withWidgetChallenge((headers) => send({ ...headers, "X-Widget-Session": token }));
+
+  try {
+    return await sendInSession(session.token);
+  } catch (error) {
+    if (!isSessionExpired(error)) throw error;
+
+    await startWidgetSession(chatbotId);
+    return sendInSession(sessions.get(chatbotId)!.token);
+  }
+}
@@ -1,17 +1,106 @@
+import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, MessageSquare, TrendingUp, Users, Clock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  ArrowLeft,
+  MessageSquare,
+  MessagesSquare,
+  BookOpen,
+  AlertTriangle,
+  UserPlus,
+  Users,
+  CalendarCheck,
+  Clock,
+} from "lucide-react";
+import type { AnalyticsGranularity, ChatbotAnalyticsReport } from "../../shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+const formatUplift = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)} pts`;
+
+const formatPValue = (value: number | null) => (value === null ? "—" : value < 0.001 ? "< 0.001" : value.toFixed(3));
+
+const formatLatency = (ms: number | null) => {
+  if (ms === null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+};
+
+const formatPeriod = (period: string, granularity: AnalyticsGranularity) => {
+  const date = new Date(`${period}T00:00:00Z`);
+  return granularity === "month"
+    ? date.toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+};
+
+const volumeConfig = {
+  conversationsStarted: { label: "Conversations", color: "var(--chart-1)" },
+  messagesReceived: { label: "Messages", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const rateConfig = {
+  kbHitRate: { label: "KB hit rate", color: "var(--chart-1)" },
+  fallbackRate: { label: "Fallback rate", color: "var(--chart-5)" },
+  leadConversionRate: { label: "Lead conversion", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const outcomeConfig = {
+  leadsCaptured: { label: "Leads", color: "var(--chart-4)" },
+  appointmentsBooked: { label: "Appointments", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  avgResponseMs: { label: "Avg response time", color: "var(--chart-2)" },
+} satisfies ChartConfig;
 
 export default function ChatbotAnalytics() {
   const { id } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 29 * DAY_MS)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>("day");
 
-  const { data: chatbot, isLoading } = useQuery({
+  const { data: chatbot, isLoading } = useQuery<any>({
     queryKey: [`/api/chatbots/${id}`],
   });
 
+  const { data: analytics, isLoading: analyticsLoading, error: analyticsError } = useQuery<ChatbotAnalyticsReport>({
+    queryKey: [`/api/chatbots/${id}/analytics`, from, to, granularity],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to, granularity });
+      const response = await fetch(`/api/chatbots/${id}/analytics?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || response.statusText);
+      }
+
+      return await response.json();
+    },
+    enabled: !!chatbot && !!from && !!to,
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -37,6 +126,27 @@ export default function ChatbotAnalytics() {
     );
   }
 
+  const totals = analytics?.totals;
+  // Rates as percentages for the chart axis; empty periods stay as gaps
+  const series = (analytics?.series || []).map(point => ({
+    ...point,
+    label: formatPeriod(point.period, granularity),
+    kbHitRate: point.kbHitRate === null ? null : Math.round(point.kbHitRate * 100),
+    fallbackRate: point.fallbackRate === null ? null : Math.round(point.fallbackRate * 100),
+    leadConversionRate: point.leadConversionRate === null ? null : Math.round(point.leadConversionRate * 100),
+  }));
+
+  const stats = [
+    { title: "Conversations", value: totals?.conversationsStarted ?? 0, description: "Conversations started", icon: MessageSquare },
+    { title: "Messages / Conversation", value: totals ? totals.messagesPerConversation.toFixed(1) : "0", description: `${totals?.messagesReceived ?? 0} visitor messages`, icon: MessagesSquare },
+    { title: "KB Hit Rate", value: formatPercent(totals?.kbHitRate ?? null), description: "Searches with relevant results", icon: BookOpen },
+    { title: "Fallback Rate", value: formatPercent(totals?.fallbackRate ?? null), description: "Replies using the fallback message", icon: AlertTriangle },
+    { title: "Lead Conversion", value: formatPercent(totals?.leadConversionRate ?? null), description: "Conversations that left contact details", icon: UserPlus },
+    { title: "Leads Captured", value: totals?.leadsCaptured ?? 0, description: "New leads in this period", icon: Users },
+    { title: "Appointments", value: totals?.appointmentsBooked ?? 0, description: "Appointments booked", icon: CalendarCheck },
+    { title: "Response Time", value: formatLatency(totals?.avgResponseMs ?? null), description: "Average time to reply", icon: Clock },
+  ];
+
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-7xl mx-auto">
@@ -50,93 +160,204 @@ export default function ChatbotAnalytics() {
             <ArrowLeft className="w-4 h-4 mr-2" />
             Back to Dashboard
           </Button>
-          <h1 className="text-3xl font-bold">{chatbot.name}</h1>
-          <p className="text-muted-foreground">Analytics & Performance</p>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold">{chatbot.name}</h1>
+              <p className="text-muted-foreground">Analytics & Performance</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-40"
+                data-testid="input-analytics-from"
+              />
+              <span className="text-muted-foreground text-sm">to</span>
+              <Input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-40"
+                data-testid="input-analytics-to"
+              />
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as AnalyticsGranularity)}>
+                <SelectTrigger className="w-32" data-testid="select-analytics-granularity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Daily</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
         </div>
 
+        {analyticsError && (
+          <Card className="mb-6 border-destructive">
+            <CardContent className="p-4 text-sm text-destructive" data-testid="text-analytics-error">
+              {(analyticsError as Error).message}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Grid */}
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-6">
+          {stats.map((stat) => (
+            <Card key={stat.title}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">
+                  {stat.title}
+                </CardTitle>
+                <stat.icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{analyticsLoading ? "…" : stat.value}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stat.description}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Charts */}
+        <div className="grid gap-6 lg:grid-cols-2">
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">
-                Messages Today
-              </CardTitle>
-              <MessageSquare className="h-4 w-4 text-muted-foreground" />
+            <CardHeader>
+              <CardTitle>Conversations & Messages</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{chatbot.messageCount || 0}</div>
-              <p className="text-xs text-muted-foreground">
-                Total messages received today
-              </p>
+              <ChartContainer config={volumeConfig} className="aspect-auto h-64 w-full" data-testid="chart-volume">
+                <AreaChart data={series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Area dataKey="messagesReceived" type="monotone" stroke="var(--color-messagesReceived)" fill="var(--color-messagesReceived)" fillOpacity={0.2} />
+                  <Area dataKey="conversationsStarted" type="monotone" stroke="var(--color-conversationsStarted)" fill="var(--color-conversationsStarted)" fillOpacity={0.3} />
+                </AreaChart>
+              </ChartContainer>
             </CardContent>
           </Card>
 
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">
-                Response Rate
-              </CardTitle>
-              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            <CardHeader>
+              <CardTitle>Answer Quality & Conversion (%)</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{chatbot.responseRate || 0}%</div>
-              <p className="text-xs text-muted-foreground">
-                Conversations with responses
-              </p>
+              <ChartContainer config={rateConfig} className="aspect-auto h-64 w-full" data-testid="chart-rates">
+                <LineChart data={series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="kbHitRate" type="monotone" stroke="var(--color-kbHitRate)" strokeWidth={2} dot={false} connectNulls />
+                  <Line dataKey="fallbackRate" type="monotone" stroke="var(--color-fallbackRate)" strokeWidth={2} dot={false} connectNulls />
+                  <Line dataKey="leadConversionRate" type="monotone" stroke="var(--color-leadConversionRate)" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
             </CardContent>
           </Card>
 
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">
-                Status
-              </CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
+            <CardHeader>
+              <CardTitle>Leads & Appointments</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold capitalize">{chatbot.status}</div>
-              <p className="text-xs text-muted-foreground">
-                Current chatbot status
-              </p>
+              <ChartContainer config={outcomeConfig} className="aspect-auto h-64 w-full" data-testid="chart-outcomes">
+                <BarChart data={series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="leadsCaptured" fill="var(--color-leadsCaptured)" radius={4} />
+                  <Bar dataKey="appointmentsBooked" fill="var(--color-appointmentsBooked)" radius={4} />
+                </BarChart>
+              </ChartContainer>
             </CardContent>
           </Card>
 
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">
-                Last Updated
-              </CardTitle>
-              <Clock className="h-4 w-4 text-muted-foreground" />
+            <CardHeader>
+              <CardTitle>Response Time (ms)</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">
-                {chatbot.updatedAt 
-                  ? new Date(chatbot.updatedAt).toLocaleDateString()
-                  : 'Never'}
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Last configuration update
-              </p>
+              <ChartContainer config={latencyConfig} className="aspect-auto h-64 w-full" data-testid="chart-latency">
+                <LineChart data={series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="avgResponseMs" type="monotone" stroke="var(--color-avgResponseMs)" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
             </CardContent>
           </Card>
         </div>
 
-        {/* Coming Soon Section */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Detailed Analytics</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-12">
-              <TrendingUp className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-              <h3 className="text-xl font-semibold mb-2">Coming Soon</h3>
-              <p className="text-muted-foreground max-w-md mx-auto">
-                Detailed analytics including conversation trends, user engagement metrics, 
-                and performance insights will be available here.
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+        {/* A/B test */}
+        {analytics?.experiment && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>A/B Test</CardTitle>
+              <CardDescription>
+                Conversations started in this range, by behavior variant{analytics.experiment.enabled ? "" : " (the test is stopped)"}.
+                Lead conversion is compared with control; differences with p below 0.05 are significant.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table data-testid="table-experiment">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>Conversations</TableHead>
+                    <TableHead>Lead conversion</TableHead>
+                    <TableHead>vs. control</TableHead>
+                    <TableHead>p-value</TableHead>
+                    <TableHead>Handoffs</TableHead>
+                    <TableHead>Fallback rate</TableHead>
+                    <TableHead>Messages / conversation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analytics.experiment.variants.map((variant) => (
+                    <TableRow key={variant.variant} data-testid={`row-variant-${variant.variant}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{variant.name}</span>
+                          {!variant.active && <Badge variant="outline">Ended</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{variant.conversations}</TableCell>
+                      <TableCell>
+                        {formatPercent(variant.leadConversionRate)}
+                        <span className="text-muted-foreground"> ({variant.convertedConversations})</span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {formatUplift(variant.uplift)}
+                          {variant.significant && <Badge variant="secondary">Significant</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatPValue(variant.pValue)}</TableCell>
+                      <TableCell>{formatPercent(variant.handoffRate)}</TableCell>
+                      <TableCell>{formatPercent(variant.fallbackRate)}</TableCell>
+                      <TableCell>{variant.messagesPerConversation.toFixed(1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,636 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowLeft, FlaskConical, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import type { EvalCase, EvalCaseResult, EvalRun, EvalRunSummary, EvalSet, KBDocument } from "../../shared/schema";
+
+const STATUS_VARIANTS: Record<string, "secondary" | "destructive" | "outline" | "default"> = {
+  completed: "secondary",
+  failed: "destructive",
+  running: "default",
+  queued: "outline",
+};
+
+// Scores where higher is better; the fallback rate and latency are better lower
+const SUMMARY_METRICS: Array<{ key: keyof EvalRunSummary; label: string; higherIsBetter: boolean; format: (value: number | null) => string }> = [
+  { key: "recall", label: "Recall@k", higherIsBetter: true, format: (value) => formatPercent(value) },
+  { key: "faithfulness", label: "Faithfulness", higherIsBetter: true, format: (value) => formatPercent(value) },
+  { key: "answerMatch", label: "Answer match", higherIsBetter: true, format: (value) => formatPercent(value) },
+  { key: "fallbackRate", label: "Fallback rate", higherIsBetter: false, format: (value) => formatPercent(value) },
+  { key: "avgLatencyMs", label: "Avg latency", higherIsBetter: false, format: (value) => formatLatency(value) },
+];
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${Math.round(value * 100)}%`;
+
+const formatLatency = (ms: number | null | undefined) => {
+  if (ms === null || ms === undefined) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+};
+
+const formatDate = (value: string | Date | null) => (value ? new Date(value).toLocaleString() : "—");
+
+const runName = (run: EvalRun) => run.label || formatDate(run.createdAt);
+
+function deltaClass(a: number | null | undefined, b: number | null | undefined, higherIsBetter: boolean) {
+  if (a === null || a === undefined || b === null || b === undefined || a === b) return "";
+  return (b > a) === higherIsBetter ? "text-green-500" : "text-destructive";
+}
+
+// Scores of one question in a run, for the comparison table
+function CaseScores({ result }: { result?: EvalCaseResult }) {
+  if (!result) {
+    return <span className="text-xs text-muted-foreground">Not in this run</span>;
+  }
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex flex-wrap gap-2">
+        <span>Recall {formatPercent(result.recall)}</span>
+        <span>Faithful {formatPercent(result.faithfulness)}</span>
+        <span>Match {formatPercent(result.answerMatch)}</span>
+        {result.fallback && <Badge variant="destructive">Fallback</Badge>}
+      </div>
+      <p className="text-muted-foreground line-clamp-3" title={result.error || result.answer}>
+        {result.error ? `Error: ${result.error}` : result.answer}
+      </p>
+    </div>
+  );
+}
+
+// Two completed runs of a set side by side: the summary scores, then every question
+function RunComparison({ runA, runB }: { runA: EvalRun; runB: EvalRun }) {
+  const resultsA = new Map(runA.results.map((result) => [result.caseId, result]));
+  const resultsB = new Map(runB.results.map((result) => [result.caseId, result]));
+  // Questions of either run; the set may have changed between them
+  const caseIds = Array.from(new Set([...resultsA.keys(), ...resultsB.keys()]));
+
+  return (
+    <Card data-testid="card-eval-comparison">
+      <CardHeader>
+        <CardTitle>Comparison</CardTitle>
+        <CardDescription>
+          {runName(runA)} ({runA.settings?.model || runA.llm}) against {runName(runB)} ({runB.settings?.model || runB.llm})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-5">
+          {SUMMARY_METRICS.map((metric) => {
+            const a = runA.summary?.[metric.key] ?? null;
+            const b = runB.summary?.[metric.key] ?? null;
+            return (
+              <div key={metric.key} className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">{metric.label}</p>
+                <p className="text-lg font-semibold">
+                  {metric.format(a)} <span className="text-muted-foreground">→</span>{" "}
+                  <span className={deltaClass(a, b, metric.higherIsBetter)}>{metric.format(b)}</span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-1/3">Question</TableHead>
+              <TableHead>{runName(runA)}</TableHead>
+              <TableHead>{runName(runB)}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {caseIds.map((caseId) => {
+              const a = resultsA.get(caseId);
+              const b = resultsB.get(caseId);
+              return (
+                <TableRow key={caseId}>
+                  <TableCell className="align-top text-sm">{(a || b)?.question}</TableCell>
+                  <TableCell className="align-top"><CaseScores result={a} /></TableCell>
+                  <TableCell className="align-top"><CaseScores result={b} /></TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ChatbotEvaluations() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [selectedSetId, setSelectedSetId] = useState<string | null>(null);
+  const [setName, setSetName] = useState("");
+  const [setDescription, setSetDescription] = useState("");
+  const [editingCaseId, setEditingCaseId] = useState<string | null>(null);
+  const [question, setQuestion] = useState("");
+  const [expectedAnswer, setExpectedAnswer] = useState("");
+  const [expectedDocumentIds, setExpectedDocumentIds] = useState<string[]>([]);
+  const [runLabel, setRunLabel] = useState("");
+  const [stubLLM, setStubLLM] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const setsKey = `/api/admin/chatbots/${id}/evals/sets`;
+  const casesKey = `${setsKey}/${selectedSetId}/cases`;
+  const runsKey = `${setsKey}/${selectedSetId}/runs`;
+
+  const { data: chatbot, isLoading } = useQuery<any>({
+    queryKey: [`/api/chatbots/${id}`],
+  });
+
+  const { data: sets } = useQuery<EvalSet[]>({
+    queryKey: [setsKey],
+    enabled: !!chatbot,
+  });
+
+  const { data: documents } = useQuery<KBDocument[]>({
+    queryKey: [`/api/admin/chatbots/${id}/kb/documents`],
+    enabled: !!chatbot,
+  });
+
+  const { data: cases } = useQuery<EvalCase[]>({
+    queryKey: [casesKey],
+    enabled: !!selectedSetId,
+  });
+
+  // Poll while a run is queued or running
+  const { data: runs } = useQuery<EvalRun[]>({
+    queryKey: [runsKey],
+    enabled: !!selectedSetId,
+    refetchInterval: (query) =>
+      query.state.data?.some((run) => run.status === "queued" || run.status === "running") ? 3000 : false,
+  });
+
+  // Open the first set, and another one when the open set is deleted
+  useEffect(() => {
+    if (sets && !sets.some((set) => set.id === selectedSetId)) {
+      setSelectedSetId(sets[0]?.id ?? null);
+    }
+  }, [sets, selectedSetId]);
+
+  useEffect(() => {
+    setCompareIds([]);
+    resetCaseForm();
+  }, [selectedSetId]);
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  function resetCaseForm() {
+    setEditingCaseId(null);
+    setQuestion("");
+    setExpectedAnswer("");
+    setExpectedDocumentIds([]);
+  }
+
+  const createSetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", setsKey, {
+        name: setName.trim(),
+        description: setDescription.trim() || undefined,
+      });
+      return response.json() as Promise<EvalSet>;
+    },
+    onSuccess: (set) => {
+      queryClient.invalidateQueries({ queryKey: [setsKey] });
+      setSetName("");
+      setSetDescription("");
+      setSelectedSetId(set.id);
+    },
+    onError: showError("Failed to create evaluation set"),
+  });
+
+  const deleteSetMutation = useMutation({
+    mutationFn: async (setId: string) => {
+      const response = await apiRequest("DELETE", `${setsKey}/${setId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [setsKey] });
+      toast({ title: "Set Deleted", description: "The questions and runs of the set were deleted too." });
+    },
+    onError: showError("Failed to delete evaluation set"),
+  });
+
+  const saveCaseMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        question: question.trim(),
+        expectedAnswer: expectedAnswer.trim(),
+        expectedDocumentIds,
+      };
+      const response = editingCaseId
+        ? await apiRequest("PUT", `${setsKey}/${selectedSetId}/cases/${editingCaseId}`, body)
+        : await apiRequest("POST", `${setsKey}/${selectedSetId}/cases`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [casesKey] });
+      resetCaseForm();
+    },
+    onError: showError("Failed to save question"),
+  });
+
+  const deleteCaseMutation = useMutation({
+    mutationFn: async (caseId: string) => {
+      const response = await apiRequest("DELETE", `${setsKey}/${selectedSetId}/cases/${caseId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [casesKey] });
+    },
+    onError: showError("Failed to delete question"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", runsKey, {
+        llm: stubLLM ? "stub" : "chatbot",
+        label: runLabel.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [runsKey] });
+      setRunLabel("");
+      toast({ title: "Run Queued", description: "The questions are asked in the background; scores appear when the run completes." });
+    },
+    onError: showError("Failed to start evaluation run"),
+  });
+
+  const editCase = (evalCase: EvalCase) => {
+    setEditingCaseId(evalCase.id);
+    setQuestion(evalCase.question);
+    setExpectedAnswer(evalCase.expectedAnswer || "");
+    setExpectedDocumentIds(evalCase.expectedDocumentIds);
+  };
+
+  const toggleDocument = (documentId: string, checked: boolean) => {
+    setExpectedDocumentIds((prev) => (checked ? [...prev, documentId] : prev.filter((id) => id !== documentId)));
+  };
+
+  // The two most recently picked runs are compared
+  const toggleCompare = (runId: string, checked: boolean) => {
+    setCompareIds((prev) => (checked ? [...prev.filter((id) => id !== runId), runId].slice(-2) : prev.filter((id) => id !== runId)));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading evaluations...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!chatbot) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <p className="text-xl font-semibold mb-4">Chatbot not found</p>
+          <Button onClick={() => setLocation("/admin")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const documentNames = new Map((documents || []).map((document) => [document.id, document.filename]));
+  const selectedSet = sets?.find((set) => set.id === selectedSetId);
+  // Oldest first, so the comparison reads before → after
+  const compared = (runs || [])
+    .filter((run) => compareIds.includes(run.id) && run.status === "completed")
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => setLocation("/admin")}
+            className="mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-3xl font-bold">{chatbot.name}</h1>
+          <p className="text-muted-foreground">Evaluations: golden questions and answer quality</p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          {/* Golden sets */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Golden Sets</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1" data-testid="list-eval-sets">
+                {(sets || []).map((set) => (
+                  <button
+                    key={set.id}
+                    className={`w-full text-left rounded-lg px-3 py-2 text-sm transition-colors ${
+                      set.id === selectedSetId ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-accent"
+                    }`}
+                    onClick={() => setSelectedSetId(set.id)}
+                    data-testid={`button-eval-set-${set.id}`}
+                  >
+                    {set.name}
+                  </button>
+                ))}
+                {sets && sets.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No golden sets yet.</p>
+                )}
+              </div>
+              <div className="space-y-2 border-t pt-4">
+                <Input
+                  value={setName}
+                  onChange={(e) => setSetName(e.target.value)}
+                  placeholder="New set name"
+                  data-testid="input-eval-set-name"
+                />
+                <Input
+                  value={setDescription}
+                  onChange={(e) => setSetDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  data-testid="input-eval-set-description"
+                />
+                <Button
+                  className="w-full"
+                  onClick={() => createSetMutation.mutate()}
+                  disabled={!setName.trim() || createSetMutation.isPending}
+                  data-testid="button-create-eval-set"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Set
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {selectedSet ? (
+            <div className="space-y-6">
+              {/* Questions */}
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>{selectedSet.name}</CardTitle>
+                    <CardDescription>
+                      {selectedSet.description || "Questions with the answer and the documents they should be answered from"}
+                    </CardDescription>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" data-testid="button-delete-eval-set">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete golden set?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          "{selectedSet.name}", its questions and all of its runs are deleted.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteSetMutation.mutate(selectedSet.id)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Question</TableHead>
+                        <TableHead>Expected answer</TableHead>
+                        <TableHead>Expected documents</TableHead>
+                        <TableHead className="w-20"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(cases || []).map((evalCase) => (
+                        <TableRow key={evalCase.id} data-testid={`row-eval-case-${evalCase.id}`}>
+                          <TableCell className="align-top text-sm">{evalCase.question}</TableCell>
+                          <TableCell className="align-top text-sm text-muted-foreground">
+                            <span className="line-clamp-2">{evalCase.expectedAnswer || "—"}</span>
+                          </TableCell>
+                          <TableCell className="align-top text-xs text-muted-foreground">
+                            {evalCase.expectedDocumentIds.length > 0
+                              ? evalCase.expectedDocumentIds.map((documentId) => documentNames.get(documentId) || documentId).join(", ")
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="align-top">
+                            <div className="flex">
+                              <Button variant="ghost" size="sm" onClick={() => editCase(evalCase)} data-testid={`button-edit-eval-case-${evalCase.id}`}>
+                                <Pencil className="w-3 h-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteCaseMutation.mutate(evalCase.id)}
+                                disabled={deleteCaseMutation.isPending}
+                                data-testid={`button-delete-eval-case-${evalCase.id}`}
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      {cases && cases.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                            Add the questions visitors ask, with the answer you expect.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+
+                  <div className="grid gap-4 border-t pt-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="eval-question">Question</Label>
+                      <Textarea
+                        id="eval-question"
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        rows={2}
+                        data-testid="input-eval-question"
+                      />
+                      <Label htmlFor="eval-expected-answer">Expected answer (optional)</Label>
+                      <Textarea
+                        id="eval-expected-answer"
+                        value={expectedAnswer}
+                        onChange={(e) => setExpectedAnswer(e.target.value)}
+                        rows={3}
+                        data-testid="input-eval-expected-answer"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Expected source documents</Label>
+                      <div className="max-h-44 space-y-2 overflow-y-auto rounded-lg border p-3">
+                        {(documents || []).map((document) => (
+                          <label key={document.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={expectedDocumentIds.includes(document.id)}
+                              onCheckedChange={(checked) => toggleDocument(document.id, checked === true)}
+                              data-testid={`checkbox-eval-document-${document.id}`}
+                            />
+                            <span className="truncate">{document.filename}</span>
+                          </label>
+                        ))}
+                        {documents && documents.length === 0 && (
+                          <p className="text-sm text-muted-foreground">The knowledge base has no documents.</p>
+                        )}
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        {editingCaseId && (
+                          <Button variant="ghost" onClick={resetCaseForm} data-testid="button-cancel-eval-case">
+                            Cancel
+                          </Button>
+                        )}
+                        <Button
+                          onClick={() => saveCaseMutation.mutate()}
+                          disabled={!question.trim() || saveCaseMutation.isPending}
+                          data-testid="button-save-eval-case"
+                        >
+                          {editingCaseId ? "Save Question" : "Add Question"}
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Runs */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Runs</CardTitle>
+                  <CardDescription>
+                    Every question is asked through the chatbot's retrieval and model. Pick two completed runs to compare them.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-4">
+                    <Input
+                      value={runLabel}
+                      onChange={(e) => setRunLabel(e.target.value)}
+                      placeholder="Label (e.g. after FAQ update)"
+                      className="w-64"
+                      data-testid="input-eval-run-label"
+                    />
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="eval-stub-llm"
+                        checked={stubLLM}
+                        onCheckedChange={setStubLLM}
+                        data-testid="switch-eval-stub-llm"
+                      />
+                      <Label htmlFor="eval-stub-llm" className="text-sm">Stubbed LLM (offline, no API cost)</Label>
+                    </div>
+                    <Button
+                      onClick={() => runMutation.mutate()}
+                      disabled={!cases || cases.length === 0 || runMutation.isPending}
+                      data-testid="button-start-eval-run"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Run Evaluation
+                    </Button>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10"></TableHead>
+                        <TableHead>Run</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Model</TableHead>
+                        {SUMMARY_METRICS.map((metric) => (
+                          <TableHead key={metric.key}>{metric.label}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(runs || []).map((run) => (
+                        <TableRow key={run.id} data-testid={`row-eval-run-${run.id}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={compareIds.includes(run.id)}
+                              onCheckedChange={(checked) => toggleCompare(run.id, checked === true)}
+                              disabled={run.status !== "completed"}
+                              data-testid={`checkbox-compare-eval-run-${run.id}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <div>{runName(run)}</div>
+                            {run.label && <div className="text-xs text-muted-foreground">{formatDate(run.createdAt)}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[run.status] || "outline"} title={run.error || undefined}>
+                              {run.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {run.settings ? `${run.settings.provider}/${run.settings.model}` : run.llm}
+                          </TableCell>
+                          {SUMMARY_METRICS.map((metric) => (
+                            <TableCell key={metric.key} className="text-sm">
+                              {metric.format(run.summary?.[metric.key] ?? null)}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                      {runs && runs.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4 + SUMMARY_METRICS.length} className="text-center text-sm text-muted-foreground">
+                            No runs yet.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {compared.length === 2 && <RunComparison runA={compared[0]} runB={compared[1]} />}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <FlaskConical className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground">
+                  Create a golden set of questions to measure how well the chatbot retrieves and answers.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
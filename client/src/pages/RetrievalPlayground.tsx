@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Save, Search } from "lucide-react";
+import type { RetrievalPlaygroundResult, RetrievalSettings } from "../../shared/schema";
+
+const DEFAULT_SETTINGS: RetrievalSettings = {
+  topK: 5,
+  similarityThreshold: 0.3,
+  queryExpansion: false,
+  rerank: false,
+  minRerankScore: 0.3,
+};
+
+const formatScore = (value: number | null | undefined, digits = 3) =>
+  value === null || value === undefined ? "—" : value.toFixed(digits);
+
+const formatRank = (rank: number | null) => (rank === null ? "" : ` (#${rank})`);
+
+export default function RetrievalPlayground() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [query, setQuery] = useState("");
+  const [settings, setSettings] = useState<RetrievalSettings>(DEFAULT_SETTINGS);
+  const [result, setResult] = useState<RetrievalPlaygroundResult | null>(null);
+
+  const chatbotKey = `/api/chatbots/${id}`;
+
+  const { data: chatbot, isLoading } = useQuery<any>({
+    queryKey: [chatbotKey],
+  });
+
+  // Start from the chatbot's saved settings
+  useEffect(() => {
+    if (chatbot) {
+      setSettings({ ...DEFAULT_SETTINGS, ...chatbot.config?.knowledgeBase?.retrieval });
+    }
+  }, [chatbot]);
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const searchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/chatbots/${id}/kb/playground`, {
+        query: query.trim(),
+        settings,
+      });
+      return response.json() as Promise<RetrievalPlaygroundResult>;
+    },
+    onSuccess: setResult,
+    onError: showError("Failed to run retrieval"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/admin/chatbots/${id}/kb/retrieval`, settings);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [chatbotKey] });
+      toast({ title: "Settings Saved", description: "The chatbot now retrieves with these settings." });
+    },
+    onError: showError("Failed to save retrieval settings"),
+  });
+
+  const updateSetting = <K extends keyof RetrievalSettings>(key: K, value: RetrievalSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading chatbot...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!chatbot) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <p className="text-xl font-semibold mb-4">Chatbot not found</p>
+          <Button onClick={() => setLocation("/admin")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const trace = result?.trace;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => setLocation("/admin")}
+            className="mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-3xl font-bold">{chatbot.name}</h1>
+          <p className="text-muted-foreground">Retrieval playground: how questions find knowledge base passages</p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          {/* Settings */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Settings</CardTitle>
+              <CardDescription>Applied to every search here; save them to use them in the widget</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="retrieval-top-k">Top K</Label>
+                <Input
+                  id="retrieval-top-k"
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={settings.topK}
+                  onChange={(e) => updateSetting("topK", Number(e.target.value))}
+                  data-testid="input-retrieval-top-k"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retrieval-threshold">Similarity threshold</Label>
+                <Input
+                  id="retrieval-threshold"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.similarityThreshold}
+                  onChange={(e) => updateSetting("similarityThreshold", Number(e.target.value))}
+                  data-testid="input-retrieval-threshold"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="retrieval-expansion">Query expansion</Label>
+                <Switch
+                  id="retrieval-expansion"
+                  checked={settings.queryExpansion}
+                  onCheckedChange={(checked) => updateSetting("queryExpansion", checked)}
+                  data-testid="switch-retrieval-expansion"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="retrieval-rerank">Rerank</Label>
+                <Switch
+                  id="retrieval-rerank"
+                  checked={settings.rerank}
+                  onCheckedChange={(checked) => updateSetting("rerank", checked)}
+                  data-testid="switch-retrieval-rerank"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retrieval-min-rerank">Minimum rerank score</Label>
+                <Input
+                  id="retrieval-min-rerank"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.minRerankScore}
+                  onChange={(e) => updateSetting("minRerankScore", Number(e.target.value))}
+                  disabled={!settings.rerank}
+                  data-testid="input-retrieval-min-rerank"
+                />
+              </div>
+              <Button
+                className="w-full"
+                variant="outline"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-retrieval"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save to Chatbot
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Query */}
+            <Card>
+              <CardContent className="pt-6">
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    searchMutation.mutate();
+                  }}
+                >
+                  <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Ask a question as a visitor would"
+                    data-testid="input-retrieval-query"
+                  />
+                  <Button type="submit" disabled={!query.trim() || searchMutation.isPending} data-testid="button-retrieval-search">
+                    <Search className="w-4 h-4 mr-2" />
+                    {searchMutation.isPending ? "Searching..." : "Search"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {trace && (
+              <>
+                {/* Candidates */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Candidates</CardTitle>
+                    <CardDescription>
+                      Searched for:{" "}
+                      {trace.variations.map((variation) => (
+                        <Badge key={variation} variant="outline" className="mr-1">{variation}</Badge>
+                      ))}
+                      {result.settings.rerank && !trace.reranked && " — reranking failed, showing the search order"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {trace.candidates.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No chunks matched.</p>
+                    ) : (
+                      <Table data-testid="table-retrieval-candidates">
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Chunk</TableHead>
+                            <TableHead>Vector</TableHead>
+                            <TableHead>Keyword</TableHead>
+                            <TableHead>Fused</TableHead>
+                            <TableHead>Rerank</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {trace.candidates.map((candidate) => (
+                            <TableRow key={candidate.chunkId} className={candidate.selected ? "" : "opacity-60"}>
+                              <TableCell className="max-w-md">
+                                <div className="flex items-center gap-2 mb-1">
+                                  <span className="text-xs font-medium">{candidate.filename}</span>
+                                  {candidate.selected && <Badge variant="secondary">In prompt</Badge>}
+                                </div>
+                                <p className="text-xs text-muted-foreground line-clamp-3" title={candidate.text}>{candidate.text}</p>
+                                {trace.variations.length > 1 && (
+                                  <p className="text-xs text-muted-foreground mt-1">Found by: {candidate.queries.join(", ")}</p>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-xs whitespace-nowrap">
+                                {candidate.vectorRank === null ? "—" : `${formatScore(candidate.similarity)}${formatRank(candidate.vectorRank)}`}
+                              </TableCell>
+                              <TableCell className="text-xs whitespace-nowrap">
+                                {`${formatScore(candidate.keywordScore)}${formatRank(candidate.keywordRank)}`}
+                              </TableCell>
+                              <TableCell className="text-xs whitespace-nowrap">{formatScore(candidate.fusedScore, 4)}</TableCell>
+                              <TableCell className="text-xs max-w-xs">
+                                <span className="font-medium">{formatScore(candidate.rerankScore, 1)}</span>
+                                {candidate.rerankReason && (
+                                  <p className="text-muted-foreground">{candidate.rerankReason}</p>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Prompt */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Prompt</CardTitle>
+                    <CardDescription>Sent to the model for this question, before any conversation history</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {result.prompt.map((message, index) => (
+                      <div key={index} className="space-y-1">
+                        <Badge variant="outline">{message.role}</Badge>
+                        <pre className="text-xs whitespace-pre-wrap bg-muted rounded-lg p-3 max-h-96 overflow-auto" data-testid={`text-prompt-${message.role}`}>
+                          {message.content}
+                        </pre>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,10 +10,11 @@ import SubscriptionsTab from "@/components/SubscriptionsTab";
 import WidgetsTab from "@/components/WidgetsTab";
 import PaymentsTab from "@/components/PaymentsTab";
 import PluginsTab from "@/components/PluginsTab";
+import UsageTab from "@/components/UsageTab";
 import CreateChatbot from "@/pages/create-chatbot";
 import EditChatbot from "@/pages/edit-chatbot";
 
-export type TabType = "dashboard" | "clients" | "chatbots" | "subscriptions" | "widgets" | "payments" | "plugins";
+export type TabType = "dashboard" | "clients" | "chatbots" | "subscriptions" | "widgets" | "payments" | "plugins" | "usage";
 
 export default function AdminDashboard({ params }: { params?: { id?: string } } = {}) {
   // Log the params for debugging
@@ -97,6 +98,10 @@ export default function AdminDashboard({ params }: { params?: { id?: string } }
     plugins: {
       title: "Plugin Manager",
       subtitle: "Create and manage chatbot plugins"
+    },
+    usage: {
+      title: "LLM Usage",
+      subtitle: "Track model costs and margins per client"
     }
   };
 
@@ -131,6 +136,8 @@ export default function AdminDashboard({ params }: { params?: { id?: string } }
         return <PaymentsTab />;
       case "plugins":
         return <PluginsTab />;
+      case "usage":
+        return <UsageTab />;
       default:
         return <DashboardTab />;
     }
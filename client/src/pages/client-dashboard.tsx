@@ -8,8 +8,14 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, MessageCircle, Users, LogOut, ArrowLeft } from "lucide-react";
+import { Calendar, MessageCircle, Users, LogOut, ArrowLeft, Paperclip, KeyRound } from "lucide-react";
 import LeadsTabComponent from "@/components/LeadsTab";
+import GoogleCalendarConnection from "@/components/GoogleCalendarConnection";
+import ApiKeysManager from "@/components/ApiKeysManager";
+import WebhooksManager from "@/components/WebhooksManager";
+import PlanUsageCard from "@/components/PlanUsageCard";
+import HandoffControls, { ConversationStatusBadge, type ConversationStatus } from "@/components/HandoffControls";
+import type { MessageAttachment } from "../../shared/schema";
 
 type ClientUser = {
   id: string;
@@ -21,6 +27,7 @@ type ClientUser = {
   status: string;
   role: string;
   createdAt: string;
+  agentName?: string; // Name the server records for this user's handoff claims and replies
 };
 
 type ClientAuthResponse = {
@@ -45,6 +52,9 @@ type Conversation = {
   sessionId: string;
   startedAt: string;
   lastMessageAt: string;
+  status?: ConversationStatus;
+  assignedAgent?: string | null;
+  handoffReason?: string | null;
   chatbot: {
     id: string;
     name: string;
@@ -54,9 +64,10 @@ type Conversation = {
 
 type Message = {
   id: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "agent" | "system";
   content: string;
   createdAt: string;
+  metadata?: { agentName?: string; attachments?: MessageAttachment[] };
 };
 
 type Lead = {
@@ -94,6 +105,8 @@ export default function ClientDashboard() {
   const { data: conversations = [], isLoading: conversationsLoading } = useQuery<Conversation[]>({
     queryKey: ["/api/client/chats"],
     enabled: !!authData,
+    // Keep an eye out for visitors asking for a person
+    refetchInterval: 15000,
   });
 
   const { data: leads = [], isLoading: leadsLoading } = useQuery<Lead[]>({
@@ -105,6 +118,11 @@ export default function ClientDashboard() {
   const { data: conversationWithMessages, isLoading: messagesLoading } = useQuery<Conversation>({
     queryKey: ["/api/client/chats", selectedConversation, "messages"],
     enabled: !!selectedConversation,
+    // Poll for visitor messages while a person is involved
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "waiting_human" || status === "human" ? 3000 : false;
+    },
   });
 
   useEffect(() => {
@@ -165,6 +183,26 @@ export default function ClientDashboard() {
     });
   };
 
+  // Attachments are private; the server hands out a short-lived link
+  const openAttachment = async (conversationId: string, attachmentId: string) => {
+    try {
+      const response = await apiRequest('GET', `/api/client/chats/${conversationId}/attachments/${attachmentId}`);
+      const { url } = await response.json();
+      window.open(url, '_blank', 'noopener');
+    } catch (error: any) {
+      toast({
+        title: "Failed to open attachment",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'scheduled':
@@ -188,6 +226,7 @@ export default function ClientDashboard() {
   // Appointments Tab Content
   const AppointmentsTab = () => (
     <div className="space-y-4">
+      <GoogleCalendarConnection />
       {appointmentsLoading ? (
         <div className="space-y-4">
           {[...Array(3)].map((_, i) => (
@@ -285,7 +324,15 @@ export default function ClientDashboard() {
               </CardHeader>
               <CardContent className="p-6">
                 <div className="space-y-4 max-h-96 overflow-y-auto">
-                  {conversationWithMessages.messages?.map((message) => (
+                  {conversationWithMessages.messages?.map((message) => message.role === 'system' ? (
+                    <p
+                      key={message.id}
+                      className="text-center text-xs text-muted-foreground"
+                      data-testid={`message-${message.id}`}
+                    >
+                      {message.content} · {formatTime(message.createdAt)}
+                    </p>
+                  ) : (
                     <div 
                       key={message.id} 
                       className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -294,9 +341,27 @@ export default function ClientDashboard() {
                       <div className={`max-w-[70%] p-3 rounded-lg ${
                         message.role === 'user' 
                           ? 'bg-primary text-primary-foreground' 
-                          : 'bg-muted'
+                          : message.role === 'agent'
+                            ? 'bg-secondary border'
+                            : 'bg-muted'
                       }`}>
+                        {message.role === 'agent' && message.metadata?.agentName && (
+                          <p className="text-xs font-semibold mb-1">{message.metadata.agentName}</p>
+                        )}
                         <p data-testid={`text-message-content-${message.id}`}>{message.content}</p>
+                        {message.metadata?.attachments?.map((attachment) => (
+                          <button
+                            key={attachment.id}
+                            type="button"
+                            onClick={() => openAttachment(conversationWithMessages.id, attachment.id)}
+                            className="mt-2 flex items-center gap-1 text-sm underline underline-offset-2"
+                            data-testid={`button-attachment-${attachment.id}`}
+                          >
+                            <Paperclip className="w-3 h-3 shrink-0" />
+                            <span className="truncate">{attachment.filename}</span>
+                            <span className="opacity-70 no-underline">({formatFileSize(attachment.size)})</span>
+                          </button>
+                        ))}
                         <p className={`text-xs mt-1 ${
                           message.role === 'user' 
                             ? 'text-primary-foreground/70' 
@@ -308,6 +373,10 @@ export default function ClientDashboard() {
                     </div>
                   ))}
                 </div>
+                <HandoffControls
+                  conversation={conversationWithMessages}
+                  agentName={authData?.user.agentName || "Agent"}
+                />
               </CardContent>
             </Card>
           ) : (
@@ -352,9 +421,12 @@ export default function ClientDashboard() {
               <CardContent className="p-6">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <h3 className="font-semibold mb-2" data-testid={`text-conversation-chatbot-${conversation.id}`}>
-                      {conversation.chatbot.name}
-                    </h3>
+                    <div className="flex items-center gap-2 mb-2">
+                      <h3 className="font-semibold" data-testid={`text-conversation-chatbot-${conversation.id}`}>
+                        {conversation.chatbot.name}
+                      </h3>
+                      <ConversationStatusBadge status={conversation.status} />
+                    </div>
                     <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                       <span data-testid={`text-conversation-started-${conversation.id}`}>
                         Started: {formatDate(conversation.startedAt)}
@@ -410,9 +482,11 @@ export default function ClientDashboard() {
       </header>
 
       {/* Main Content */}
-      <main className="p-6">
+      <main className="p-6 space-y-6">
+        <PlanUsageCard />
+
         <Tabs defaultValue="appointments" className="w-full" data-testid="tabs-client-dashboard">
-          <TabsList className="grid w-full grid-cols-3" data-testid="tabs-list-client-dashboard">
+          <TabsList className="grid w-full grid-cols-4" data-testid="tabs-list-client-dashboard">
             <TabsTrigger value="appointments" data-testid="tab-trigger-appointments">
               <Calendar className="w-4 h-4 mr-2" />
               Appointments
@@ -425,6 +499,10 @@ export default function ClientDashboard() {
               <Users className="w-4 h-4 mr-2" />
               Leads
             </TabsTrigger>
+            <TabsTrigger value="api" data-testid="tab-trigger-api">
+              <KeyRound className="w-4 h-4 mr-2" />
+              API
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="appointments" className="mt-6" data-testid="tab-content-appointments">
@@ -432,12 +510,17 @@ export default function ClientDashboard() {
           </TabsContent>
           
           <TabsContent value="chats" className="mt-6" data-testid="tab-content-chats">
-            <ChatsTab />
+            {ChatsTab()}
           </TabsContent>
           
           <TabsContent value="leads" className="mt-6" data-testid="tab-content-leads">
             <LeadsTab />
           </TabsContent>
+
+          <TabsContent value="api" className="mt-6 space-y-6" data-testid="tab-content-api">
+            <ApiKeysManager />
+            <WebhooksManager />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -4,9 +4,10 @@ import { useLocation, useParams, useRoute } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import ChatbotForm from "@/components/ChatbotForm";
+import ConfigVersions from "@/components/ConfigVersions";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
-import type { InsertChatbot, Chatbot } from "../../shared/schema";
+import type { InsertChatbot, Chatbot, ChatbotConfigHistory } from "../../shared/schema";
 
 interface EditChatbotPageProps {
   id?: string;
@@ -23,6 +24,8 @@ export default function EditChatbotPage({ id: propId }: EditChatbotPageProps = {
   const [, setLocation] = useLocation();
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [backgroundImageFile, setBackgroundImageFile] = useState<File | null>(null);
+  // Bumped when the config changes outside the form (a rollback), to reload the form from it
+  const [formKey, setFormKey] = useState(0);
   
   // Log the ID for debugging
   console.log('EditChatbotPage - ID:', id, 'PropID:', propId, 'RouteParams:', routeParams);
@@ -47,6 +50,14 @@ export default function EditChatbotPage({ id: propId }: EditChatbotPageProps = {
     retry: false, // Don't retry on error
     // Use onSuccess and onError callbacks instead of directly in the options
   });
+
+  // The form edits the draft when there is one
+  const versionsKey = `/api/chatbots/${id}/config/versions`;
+  const { data: history, isLoading: isLoadingHistory } = useQuery<ChatbotConfigHistory>({
+    queryKey: [versionsKey],
+    enabled: !!id,
+    retry: false,
+  });
   
   // Handle error with useEffect instead
   useEffect(() => {
@@ -104,10 +115,11 @@ export default function EditChatbotPage({ id: propId }: EditChatbotPageProps = {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/chatbots"] });
       queryClient.invalidateQueries({ queryKey: [`/api/chatbots/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       toast({
-        title: "Chatbot Updated",
-        description: "Chatbot has been updated successfully",
+        title: "Draft Saved",
+        description: "Publish the draft to make the changes live in the widget",
       });
       // Don't redirect - stay on the page so user can continue editing
     },
@@ -127,7 +139,7 @@ export default function EditChatbotPage({ id: propId }: EditChatbotPageProps = {
     updateChatbotMutation.mutate(data);
   };
 
-  if (isLoading) {
+  if (isLoading || isLoadingHistory) {
     return (
       <div className="container max-w-6xl py-8">
         <div className="flex items-center justify-center h-64">
@@ -183,7 +195,8 @@ export default function EditChatbotPage({ id: propId }: EditChatbotPageProps = {
 
       <div className="bg-card border rounded-lg shadow-sm p-6">
         <ChatbotForm 
-          chatbot={chatbot}
+          key={formKey}
+          chatbot={history?.draft ? { ...chatbot, config: history.draft.config } : chatbot}
           onSubmit={handleSubmit}
           isSubmitting={updateChatbotMutation.isPending}
           validationErrors={validationErrors}
@@ -202,10 +215,14 @@ export default function EditChatbotPage({ id: propId }: EditChatbotPageProps = {
             disabled={updateChatbotMutation.isPending}
             onClick={() => document.querySelector('form')?.requestSubmit()}
           >
-            {updateChatbotMutation.isPending ? "Saving..." : "Save Changes"}
+            {updateChatbotMutation.isPending ? "Saving..." : "Save Draft"}
           </Button>
         </div>
       </div>
+
+      <div className="mt-6">
+        <ConfigVersions chatbotId={chatbot.id} onRollback={() => setFormKey((key) => key + 1)} />
+      </div>
     </div>
   );
 }
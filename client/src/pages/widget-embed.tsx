@@ -1,26 +1,33 @@
 import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { apiRequest } from "@/lib/queryClient";
-import type { ChatbotWithClient, ChatbotConfig } from "../../shared/schema";
+import { apiRequest, apiStream } from "@/lib/queryClient";
+import { startWidgetSession, withWidgetSession, type WidgetSession } from "@/lib/widget-guard";
+import type { ChatbotWithClient, ChatbotConfig, MessageCitation } from "../../shared/schema";
 import { MessageCircle, Send, X, Clock, ChevronDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { getTranslations } from "@/lib/translations";
 import { MarkdownMessage } from "@/components/MarkdownMessage";
+import { useHandoff, type HandoffMessage } from "@/hooks/use-handoff";
+import { useAttachments, buildMessageBody, getRejectionMessage } from "@/hooks/use-attachments";
+import { AttachButton, MessageAttachments, PendingAttachments } from "@/components/WidgetAttachments";
 
 interface ChatMessage {
   id: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "agent" | "system";
   content: string;
+  agentName?: string;
   timestamp: Date;
   responseOptions?: string[];
   links?: Array<{ title: string, url: string }>;
+  citations?: MessageCitation[];
+  attachments?: string[]; // Names of the files the visitor attached
 }
 
 interface LeadInfo {
@@ -153,6 +160,17 @@ const LeadCaptureForm = ({
   );
 };
 
+// A message of the widget session from the server (resumed history, staff replies)
+function toChatMessage(message: HandoffMessage): ChatMessage {
+  return {
+    id: message.id,
+    role: (["user", "agent", "system"].includes(message.role) ? message.role : "assistant") as ChatMessage["role"],
+    content: message.content,
+    agentName: message.agentName,
+    timestamp: new Date(message.createdAt),
+  };
+}
+
 export default function WidgetEmbed() {
   const { chatbotId } = useParams();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -166,10 +184,8 @@ export default function WidgetEmbed() {
   const [leadCaptured, setLeadCaptured] = useState(false);
   const [capturedLeadInfo, setCapturedLeadInfo] = useState<LeadInfo>({});
   const [messageCount, setMessageCount] = useState(0);
-  const [conversationId] = useState(`conv-${Date.now()}`);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const autoOpenTimeoutRef = useRef<NodeJS.Timeout>();
-  const [sessionId] = useState(`widget-${Date.now()}`);
 
   // Notify parent about open/close state for resizing
   useEffect(() => {
@@ -196,8 +212,16 @@ export default function WidgetEmbed() {
     enabled: !!chatbotId,
   });
 
+  // Welcome message and suggested prompts of the session's A/B test variant, from the session start
+  const [variantBehavior, setVariantBehavior] = useState<WidgetSession["behavior"]>();
+
   // Cast config to ChatbotConfig type for proper typing
-  const config = chatbot?.config as ChatbotConfig | undefined;
+  const config = useMemo(() => {
+    const chatbotConfig = chatbot?.config as ChatbotConfig | undefined;
+    return chatbotConfig && variantBehavior
+      ? { ...chatbotConfig, behavior: { ...chatbotConfig.behavior, ...variantBehavior } }
+      : chatbotConfig;
+  }, [chatbot, variantBehavior]);
   const theme = config?.widgetSettings?.designTheme || 'soft';
 
   // Initialize language from config
@@ -221,6 +245,32 @@ export default function WidgetEmbed() {
 
   // Get translations for current language
   const t = getTranslations(currentLanguage);
+  const attachments = useAttachments(config, t);
+
+  // Staff replies arrive by polling while a person handles the conversation
+  const handoff = useHandoff(chatbotId, (incoming: HandoffMessage[]) => {
+    setMessages((prev) => [...prev, ...incoming.map(toChatMessage)]);
+  });
+  const restoreHandoff = handoff.restore;
+
+  // Start the widget session; after a reload this resumes the conversation, after the welcome message
+  useEffect(() => {
+    if (!chatbotId) return;
+
+    startWidgetSession(chatbotId)
+      .then((session) => {
+        restoreHandoff(session);
+        setVariantBehavior(session.behavior);
+        if (session.messages.length === 0) return;
+        setMessages((prev) => [
+          ...prev.filter((msg) => msg.id === "welcome"),
+          ...session.messages.map(toChatMessage),
+          ...prev.filter((msg) => msg.id !== "welcome"),
+        ]);
+      })
+      .catch((error) => console.error('[Embed] Failed to start widget session:', error));
+  }, [chatbotId, restoreHandoff]);
+  const canRequestHandoff = !!config?.handoff?.enabled && config.handoff.allowVisitorRequest && !handoff.isActive;
 
   // Get theme-specific classes
   const getThemeClasses = () => {
@@ -511,13 +561,14 @@ export default function WidgetEmbed() {
 
     const welcomeMsg = config.behavior?.welcomeMessage || "Welcome to our service. How can I help you today?";
 
-    setMessages([
+    setMessages((prev) => [
       {
         id: "welcome",
         role: "assistant",
         content: welcomeMsg,
         timestamp: new Date(),
       },
+      ...prev.filter((msg) => msg.id !== "welcome"),
     ]);
 
     if (config.widgetSettings?.autoOpen && !isWidgetOpen) {
@@ -594,12 +645,11 @@ export default function WidgetEmbed() {
     if (!chatbotId || !config?.leadCapture?.enabled) return;
 
     try {
-      const response = await apiRequest("POST", `/api/widget/${chatbotId}/capture-lead`, {
+      const response = await withWidgetSession(chatbotId, (headers) => apiRequest("POST", `/api/widget/${chatbotId}/capture-lead`, {
         ...leadInfo,
-        conversationId,
         source: "widget",
         message: leadInfo.message || messages[0]?.content || "No initial message",
-      });
+      }, headers));
 
       if (response.ok) {
         setLeadCaptured(true);
@@ -633,13 +683,15 @@ export default function WidgetEmbed() {
 
   const sendMessage = async (messageText?: string) => {
     const textToSend = messageText || inputMessage;
-    if (!textToSend.trim() || isLoading || !chatbotId) return;
+    if ((!textToSend.trim() && attachments.files.length === 0) || isLoading || !chatbotId) return;
 
+    const files = attachments.take();
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       role: "user",
       content: textToSend,
       timestamp: new Date(),
+      ...(files.length > 0 && { attachments: files.map(file => file.name) }),
     };
 
     setMessages((prev) => [...prev, userMessage]);
@@ -670,24 +722,43 @@ export default function WidgetEmbed() {
       }
     }
 
-    try {
-      const response = await apiRequest("POST", `/api/widget/${chatbotId}/message`, {
-        message: textToSend,
-        sessionId,
-      });
-
-      const data = await response.json();
-
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.response || config?.behavior?.fallbackMessage || "I'm sorry, I couldn't process your request.",
-        timestamp: new Date(),
-        responseOptions: data.responseOptions,
-        links: data.links,
-      };
+    const assistantId = (Date.now() + 1).toString();
+    let hasAssistantMessage = false;
+
+    // Insert the assistant bubble on first use, then update it in place
+    const upsertAssistantMessage = (update: (msg: ChatMessage) => ChatMessage) => {
+      if (!hasAssistantMessage) {
+        hasAssistantMessage = true;
+        setShowTyping(false);
+        setMessages((prev) => [
+          ...prev,
+          update({ id: assistantId, role: "assistant", content: "", timestamp: new Date() }),
+        ]);
+      } else {
+        setMessages((prev) => prev.map(msg => msg.id === assistantId ? update(msg) : msg));
+      }
+    };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+    try {
+      const body = buildMessageBody(textToSend, files);
+      await withWidgetSession(chatbotId, (headers) => apiStream(`/api/widget/${chatbotId}/message`, body, (event, data) => {
+        if (event === "token") {
+          upsertAssistantMessage((msg) => ({ ...msg, content: msg.content + data.token }));
+        } else if (event === "done") {
+          handoff.updateStatus(data.handoffStatus);
+          // Bot replies are suppressed while a person handles the conversation
+          if (!data.response && data.handoffStatus) return;
+          upsertAssistantMessage((msg) => ({
+            ...msg,
+            content: data.response || config?.behavior?.fallbackMessage || "I'm sorry, I couldn't process your request.",
+            responseOptions: data.responseOptions,
+            links: data.links,
+            citations: data.citations,
+          }));
+        } else if (event === "error") {
+          throw new Error(data.response);
+        }
+      }, headers));
 
       // Check if should ask for lead after specified messages
       if (
@@ -700,19 +771,34 @@ export default function WidgetEmbed() {
         setShowLeadForm(true);
       }
     } catch (error) {
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: config?.behavior?.fallbackMessage || "I'm sorry, something went wrong. Please try again.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      upsertAssistantMessage((msg) => ({
+        ...msg,
+        content: getRejectionMessage(error) || config?.behavior?.fallbackMessage || "I'm sorry, something went wrong. Please try again.",
+      }));
     } finally {
       setIsLoading(false);
       setShowTyping(false);
     }
   };
 
+  const handleTalkToPerson = async () => {
+    if (isLoading) return;
+    setIsLoading(true);
+    try {
+      const result = await handoff.requestHandoff();
+      if (result?.response) {
+        setMessages((prev) => [
+          ...prev,
+          { id: Date.now().toString(), role: "assistant", content: result.response, timestamp: new Date() },
+        ]);
+      }
+    } catch (error) {
+      console.error("Failed to request a person:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -754,12 +840,11 @@ export default function WidgetEmbed() {
     sessionStorage.setItem(`chatbot_user_${chatbotId}`, JSON.stringify(userDetails));
 
     // Create lead in background (don't wait for response)
-    apiRequest("POST", `/api/widget/${chatbotId}/capture-lead`, {
+    withWidgetSession(chatbotId, (headers) => apiRequest("POST", `/api/widget/${chatbotId}/capture-lead`, {
       name: userName.trim(),
       phone: userPhone.trim(),
-      conversationId,
       source: 'pre-chat-form'
-    }).catch(error => {
+    }, headers)).catch(error => {
       console.error('Error creating lead from pre-chat form:', error);
       // Continue anyway - don't block the chat
     });
@@ -1071,7 +1156,15 @@ export default function WidgetEmbed() {
                   {/* Messages */}
                   <ScrollArea ref={scrollAreaRef} className="flex-1 p-4">
                     <div className="space-y-4">
-                      {messages.map((message, index) => (
+                      {messages.map((message, index) => message.role === "system" ? (
+                        <div
+                          key={message.id}
+                          className="text-center text-xs text-gray-500 message-enter"
+                          data-testid={`message-system-${index}`}
+                        >
+                          {message.content}
+                        </div>
+                      ) : (
                         <div
                           key={message.id}
                           className={cn(
@@ -1091,7 +1184,13 @@ export default function WidgetEmbed() {
                             }}
                             data-testid={`message-${message.role}-${index}`}
                           >
-                            <MarkdownMessage content={message.content} className="text-sm" />
+                            {message.role === "agent" && message.agentName && (
+                              <div className="text-xs font-semibold mb-1 opacity-75">{message.agentName}</div>
+                            )}
+                            <MessageAttachments filenames={message.attachments} />
+                            {message.content && (
+                              <MarkdownMessage content={message.content} citations={message.citations} className="text-sm" />
+                            )}
                             {/* Response Options */}
                             {message.responseOptions && message.responseOptions.length > 0 && (
                               <div className="mt-3 space-y-2 stagger-enter">
@@ -1209,7 +1308,31 @@ export default function WidgetEmbed() {
                     className="p-4 border-t"
                     style={theme === 'glass' ? getGlassStyle(0.5) : undefined}
                   >
+                    {handoff.isActive && (
+                      <div className="text-xs text-gray-500 mb-2 text-center" data-testid="text-handoff-status">
+                        {handoff.status === "human" && handoff.assignedAgent
+                          ? `${t.chattingWithAgent} ${handoff.assignedAgent}`
+                          : t.waitingForAgent}
+                      </div>
+                    )}
+                    {canRequestHandoff && messages.length > 1 && (
+                      <div className="mb-2 text-center">
+                        <Button
+                          variant="link"
+                          size="sm"
+                          onClick={handleTalkToPerson}
+                          disabled={isLoading}
+                          className="h-auto p-0 text-xs"
+                          style={{ color: primaryColor }}
+                          data-testid="button-talk-to-person"
+                        >
+                          {t.talkToPerson}
+                        </Button>
+                      </div>
+                    )}
+                    <PendingAttachments attachments={attachments} t={t} />
                     <div className="flex gap-2">
+                      <AttachButton attachments={attachments} disabled={isLoading} t={t} />
                       <Input
                         value={inputMessage}
                         onChange={(e) => setInputMessage(e.target.value)}
@@ -1226,7 +1349,7 @@ export default function WidgetEmbed() {
                       />
                       <Button
                         onClick={() => sendMessage()}
-                        disabled={isLoading || !inputMessage.trim()}
+                        disabled={isLoading || (!inputMessage.trim() && attachments.files.length === 0)}
                         size="sm"
                         className="widget-button"
                         style={{
@@ -0,0 +1,11 @@
+-- Rolling conversation memory: older turns are folded into a summary on the conversation row
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS summary TEXT,
+ADD COLUMN IF NOT EXISTS summarized_message_count INTEGER DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN conversations.summary IS 'Rolling summary of messages that fell outside the memory window';
+COMMENT ON COLUMN conversations.summarized_message_count IS 'Number of leading messages already folded into the summary';
+
+-- History is loaded per conversation in message order
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+ON messages (conversation_id, created_at);
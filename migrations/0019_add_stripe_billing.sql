@@ -0,0 +1,21 @@
+-- Stripe billing: link subscriptions and payments to their Stripe objects
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS subscriptions_stripe_subscription_id_idx
+ON subscriptions (stripe_subscription_id)
+WHERE stripe_subscription_id IS NOT NULL;
+
+ALTER TABLE payment_logs
+ADD COLUMN IF NOT EXISTS stripe_invoice_id TEXT;
+
+CREATE INDEX IF NOT EXISTS payment_logs_stripe_invoice_id_idx
+ON payment_logs (stripe_invoice_id);
+
+-- Stripe retries webhook deliveries; processed event ids make handling idempotent
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1,20 @@
+-- Human handoff: conversations can be escalated from the bot to client staff
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'bot' NOT NULL,
+ADD COLUMN IF NOT EXISTS assigned_agent TEXT,
+ADD COLUMN IF NOT EXISTS handoff_reason TEXT,
+ADD COLUMN IF NOT EXISTS handoff_requested_at TIMESTAMP;
+
+ALTER TABLE conversations
+DROP CONSTRAINT IF EXISTS conversations_status_check;
+
+ALTER TABLE conversations
+ADD CONSTRAINT conversations_status_check
+CHECK (status IN ('bot', 'waiting_human', 'human', 'closed'));
+
+COMMENT ON COLUMN conversations.status IS 'bot: AI replies; waiting_human: escalated, unclaimed; human: staff replying live; closed: ended by staff';
+COMMENT ON COLUMN conversations.assigned_agent IS 'Display name of the staff member who claimed the conversation';
+
+-- Client dashboards list the handoff queue
+CREATE INDEX IF NOT EXISTS conversations_status_idx
+ON conversations (status);
@@ -0,0 +1,23 @@
+-- Calendar integrations: per-client OAuth tokens for external calendars
+-- Tokens are encrypted by the application (AES-256-GCM) and never stored in chatbot config
+CREATE TABLE IF NOT EXISTS calendar_integrations (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  provider TEXT DEFAULT 'google' NOT NULL,
+  access_token_encrypted TEXT NOT NULL,
+  refresh_token_encrypted TEXT,
+  token_expires_at TIMESTAMP,
+  scope TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_integrations_client_provider_idx
+ON calendar_integrations (client_id, provider);
+
+COMMENT ON TABLE calendar_integrations IS 'OAuth tokens for client calendars, encrypted with INTEGRATION_ENCRYPTION_KEY';
+
+-- Bookings look up overlapping appointments per chatbot and by external event
+CREATE INDEX IF NOT EXISTS appointments_external_id_idx
+ON appointments (external_id)
+WHERE external_id IS NOT NULL;
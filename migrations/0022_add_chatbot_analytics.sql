@@ -0,0 +1,92 @@
+-- Chatbot analytics: raw events recorded while chatting, rolled up into one row per chatbot and day
+-- Conversations, messages, leads and appointments are counted from their own tables;
+-- analytics_events only holds what is not stored anywhere else (KB lookups, fallbacks, latency)
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id TEXT PRIMARY KEY,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  conversation_id TEXT REFERENCES conversations(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  value DOUBLE PRECISION,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT analytics_events_type_check CHECK (type IN ('kb_hit', 'kb_miss', 'response', 'fallback'))
+);
+
+CREATE INDEX IF NOT EXISTS analytics_events_chatbot_created_idx
+ON analytics_events (chatbot_id, created_at);
+
+COMMENT ON COLUMN analytics_events.type IS 'kb_hit / kb_miss: knowledge base search with / without results; response: bot reply (value = latency in ms); fallback: fallback message sent';
+
+CREATE TABLE IF NOT EXISTS chatbot_analytics_daily (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  conversations_started INTEGER DEFAULT 0 NOT NULL,
+  messages_received INTEGER DEFAULT 0 NOT NULL,
+  bot_responses INTEGER DEFAULT 0 NOT NULL,
+  kb_hits INTEGER DEFAULT 0 NOT NULL,
+  kb_misses INTEGER DEFAULT 0 NOT NULL,
+  fallback_responses INTEGER DEFAULT 0 NOT NULL,
+  leads_captured INTEGER DEFAULT 0 NOT NULL,
+  appointments_booked INTEGER DEFAULT 0 NOT NULL,
+  total_response_ms DOUBLE PRECISION DEFAULT 0 NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS chatbot_analytics_daily_chatbot_date_idx
+ON chatbot_analytics_daily (chatbot_id, date);
+
+COMMENT ON COLUMN chatbot_analytics_daily.updated_at IS 'Rows rolled up before their day ended are recomputed on the next read';
+
+-- Recompute the daily rows of one chatbot for a range of days (UTC)
+CREATE OR REPLACE FUNCTION rollup_chatbot_analytics (
+  p_chatbot_id text,
+  p_from date,
+  p_to date
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO chatbot_analytics_daily (
+    chatbot_id, date, conversations_started, messages_received, bot_responses,
+    kb_hits, kb_misses, fallback_responses, leads_captured, appointments_booked,
+    total_response_ms, updated_at
+  )
+  SELECT
+    p_chatbot_id,
+    d.day::date,
+    (SELECT count(*) FROM conversations c
+      WHERE c.chatbot_id = p_chatbot_id AND c.started_at >= d.day AND c.started_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM messages m JOIN conversations c ON c.id = m.conversation_id
+      WHERE c.chatbot_id = p_chatbot_id AND m.role = 'user' AND m.created_at >= d.day AND m.created_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM analytics_events e
+      WHERE e.chatbot_id = p_chatbot_id AND e.type = 'response' AND e.created_at >= d.day AND e.created_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM analytics_events e
+      WHERE e.chatbot_id = p_chatbot_id AND e.type = 'kb_hit' AND e.created_at >= d.day AND e.created_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM analytics_events e
+      WHERE e.chatbot_id = p_chatbot_id AND e.type = 'kb_miss' AND e.created_at >= d.day AND e.created_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM analytics_events e
+      WHERE e.chatbot_id = p_chatbot_id AND e.type = 'fallback' AND e.created_at >= d.day AND e.created_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM leads l
+      WHERE l.chatbot_id = p_chatbot_id AND l.captured_at >= d.day AND l.captured_at < d.day + interval '1 day'),
+    (SELECT count(*) FROM appointments a
+      WHERE a.chatbot_id = p_chatbot_id AND a.created_at >= d.day AND a.created_at < d.day + interval '1 day'),
+    (SELECT coalesce(sum(e.value), 0) FROM analytics_events e
+      WHERE e.chatbot_id = p_chatbot_id AND e.type = 'response' AND e.created_at >= d.day AND e.created_at < d.day + interval '1 day'),
+    timezone('utc', now())
+  FROM generate_series(p_from::timestamp, p_to::timestamp, interval '1 day') AS d(day)
+  ON CONFLICT (chatbot_id, date) DO UPDATE SET
+    conversations_started = EXCLUDED.conversations_started,
+    messages_received = EXCLUDED.messages_received,
+    bot_responses = EXCLUDED.bot_responses,
+    kb_hits = EXCLUDED.kb_hits,
+    kb_misses = EXCLUDED.kb_misses,
+    fallback_responses = EXCLUDED.fallback_responses,
+    leads_captured = EXCLUDED.leads_captured,
+    appointments_booked = EXCLUDED.appointments_booked,
+    total_response_ms = EXCLUDED.total_response_ms,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION rollup_chatbot_analytics IS 'Upserts chatbot_analytics_daily for one chatbot and every day between p_from and p_to (inclusive)';
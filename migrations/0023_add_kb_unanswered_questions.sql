@@ -0,0 +1,81 @@
+-- Unanswered questions: visitor queries the knowledge base could not answer,
+-- clustered by embedding similarity so admins see each content gap once with its frequency
+CREATE TABLE IF NOT EXISTS kb_unanswered_questions (
+  id TEXT PRIMARY KEY,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  examples JSONB DEFAULT '[]'::jsonb NOT NULL,
+  embedding vector(1536),
+  occurrences INTEGER DEFAULT 1 NOT NULL,
+  last_reason TEXT NOT NULL,
+  last_confidence DOUBLE PRECISION,
+  status TEXT DEFAULT 'open' NOT NULL,
+  answer TEXT,
+  answered_via TEXT,
+  kb_document_id TEXT REFERENCES kb_documents(id) ON DELETE SET NULL,
+  first_asked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  last_asked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  answered_at TIMESTAMP,
+  CONSTRAINT kb_unanswered_questions_status_check CHECK (status IN ('open', 'answered', 'dismissed')),
+  CONSTRAINT kb_unanswered_questions_reason_check CHECK (last_reason IN ('no_results', 'low_confidence')),
+  CONSTRAINT kb_unanswered_questions_answered_via_check CHECK (answered_via IS NULL OR answered_via IN ('faq', 'document'))
+);
+
+CREATE INDEX IF NOT EXISTS kb_unanswered_questions_chatbot_status_idx
+ON kb_unanswered_questions (chatbot_id, status, occurrences DESC);
+
+COMMENT ON COLUMN kb_unanswered_questions.question IS 'First phrasing of the cluster; examples holds up to 5 other phrasings';
+COMMENT ON COLUMN kb_unanswered_questions.last_reason IS 'no_results: nothing retrieved; low_confidence: reranked results scored too low';
+
+-- Add a miss to the closest open cluster of the chatbot, or start a new cluster.
+-- Without an embedding (no embedding provider configured) only identical questions are grouped.
+CREATE OR REPLACE FUNCTION record_unanswered_question (
+  p_id text,
+  p_chatbot_id text,
+  p_question text,
+  p_embedding vector(1536),
+  p_reason text,
+  p_confidence float,
+  match_threshold float
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id text;
+BEGIN
+  SELECT q.id INTO v_id
+  FROM kb_unanswered_questions q
+  WHERE q.chatbot_id = p_chatbot_id
+    AND q.status = 'open'
+    AND (
+      (p_embedding IS NOT NULL AND q.embedding IS NOT NULL AND 1 - (q.embedding <=> p_embedding) >= match_threshold)
+      OR lower(q.question) = lower(p_question)
+    )
+  ORDER BY CASE WHEN p_embedding IS NOT NULL AND q.embedding IS NOT NULL THEN q.embedding <=> p_embedding ELSE 1 END
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_id IS NULL THEN
+    INSERT INTO kb_unanswered_questions (id, chatbot_id, question, embedding, last_reason, last_confidence)
+    VALUES (p_id, p_chatbot_id, p_question, p_embedding, p_reason, p_confidence);
+    RETURN p_id;
+  END IF;
+
+  UPDATE kb_unanswered_questions
+  SET
+    occurrences = occurrences + 1,
+    last_reason = p_reason,
+    last_confidence = p_confidence,
+    last_asked_at = timezone('utc', now()),
+    examples = CASE
+      WHEN lower(question) = lower(p_question) OR examples ? p_question OR jsonb_array_length(examples) >= 5 THEN examples
+      ELSE examples || to_jsonb(p_question)
+    END
+  WHERE id = v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+COMMENT ON FUNCTION record_unanswered_question IS 'Clusters an unanswered question into the most similar open question (cosine similarity >= match_threshold) or inserts a new one; returns the cluster id';
@@ -0,0 +1,34 @@
+-- Knowledge base sources: websites crawled into the knowledge base.
+-- Every crawled page is stored as a kb_documents row pointing back to its source and page URL.
+CREATE TABLE IF NOT EXISTS kb_sources (
+  id TEXT PRIMARY KEY,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  type TEXT DEFAULT 'website' NOT NULL,
+  url TEXT NOT NULL,
+  include_patterns JSONB DEFAULT '[]'::jsonb NOT NULL,
+  exclude_patterns JSONB DEFAULT '[]'::jsonb NOT NULL,
+  max_pages INTEGER DEFAULT 50 NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL,
+  last_error TEXT,
+  pages_crawled INTEGER DEFAULT 0 NOT NULL,
+  last_crawled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT kb_sources_type_check CHECK (type IN ('website')),
+  CONSTRAINT kb_sources_status_check CHECK (status IN ('pending', 'crawling', 'ready', 'error')),
+  CONSTRAINT kb_sources_max_pages_check CHECK (max_pages BETWEEN 1 AND 500)
+);
+
+CREATE INDEX IF NOT EXISTS kb_sources_chatbot_id_idx ON kb_sources (chatbot_id);
+
+COMMENT ON COLUMN kb_sources.url IS 'Start page (links are followed on the same origin) or a sitemap.xml';
+COMMENT ON COLUMN kb_sources.include_patterns IS 'URL path patterns with * wildcards; when set, only matching pages are stored';
+
+-- Crawled pages; storage_path holds the page URL as nothing is uploaded to storage
+ALTER TABLE kb_documents
+ADD COLUMN IF NOT EXISTS source_id TEXT REFERENCES kb_sources(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS source_url TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS kb_documents_source_page_idx
+ON kb_documents (source_id, source_url)
+WHERE source_id IS NOT NULL;
@@ -0,0 +1,121 @@
+-- Citations: search results identify the chunk, its document and the page URL of crawled documents,
+-- so answers can cite the passages they used.
+-- The result columns change, so the functions are dropped and recreated.
+
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, varchar);
+DROP FUNCTION IF EXISTS hybrid_match_documents(vector, text, float, int, varchar, int);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  p_chatbot_id varchar
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  text text,
+  similarity float,
+  filename text,
+  source_url text,
+  metadata jsonb
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id::text,
+    d.id::text,
+    c.text,
+    1 - (c.embedding <=> query_embedding) as similarity,
+    d.filename,
+    d.source_url,
+    CASE
+      WHEN c.metadata IS NULL OR c.metadata = '' THEN '{}'::jsonb
+      ELSE c.metadata::jsonb
+    END as metadata
+  FROM kb_chunks c
+  JOIN kb_documents d ON c.document_id = d.id
+  WHERE
+    c.chatbot_id = p_chatbot_id
+    AND c.embedding IS NOT NULL
+    AND d.status = 'ready'
+    AND 1 - (c.embedding <=> query_embedding) >= match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION match_documents IS 'Searches for similar document chunks using vector similarity (cosine distance). Returns chunks that meet or exceed the similarity threshold, ordered by relevance, with the chunk and document ids for citations.';
+
+CREATE OR REPLACE FUNCTION hybrid_match_documents (
+  query_embedding vector(1536),
+  query_text text,
+  match_threshold float,
+  match_count int,
+  p_chatbot_id varchar,
+  k int DEFAULT 60
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  text text,
+  similarity float,
+  filename text,
+  source_url text,
+  metadata jsonb
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_embedding) as similarity,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) as rank
+    FROM kb_chunks c
+    JOIN kb_documents d ON c.document_id = d.id
+    WHERE
+      c.chatbot_id = p_chatbot_id
+      AND c.embedding IS NOT NULL
+      AND d.status = 'ready'
+      AND 1 - (c.embedding <=> query_embedding) >= match_threshold
+    LIMIT match_count * 2
+  ),
+  text_matches AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY ts_rank_cd(to_tsvector('simple', c.text), plainto_tsquery('simple', query_text)) DESC) as rank
+    FROM kb_chunks c
+    JOIN kb_documents d ON c.document_id = d.id
+    WHERE
+      c.chatbot_id = p_chatbot_id
+      AND d.status = 'ready'
+      AND to_tsvector('simple', c.text) @@ plainto_tsquery('simple', query_text)
+    LIMIT match_count * 2
+  )
+  SELECT
+    c.id::text,
+    d.id::text,
+    c.text,
+    COALESCE(v.similarity, 0.0)::float as similarity,
+    d.filename,
+    d.source_url,
+    CASE
+      WHEN c.metadata IS NULL OR c.metadata = '' THEN '{}'::jsonb
+      ELSE c.metadata::jsonb
+    END as metadata
+  FROM kb_chunks c
+  JOIN kb_documents d ON c.document_id = d.id
+  LEFT JOIN vector_matches v ON c.id = v.id
+  LEFT JOIN text_matches t ON c.id = t.id
+  WHERE (v.id IS NOT NULL OR t.id IS NOT NULL)
+  ORDER BY
+    (COALESCE(1.0 / (k + v.rank), 0.0) + COALESCE(1.0 / (k + t.rank), 0.0)) DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION hybrid_match_documents IS 'Performs hybrid search by combining vector similarity search (cosine distance) and keyword-based full-text search using Reciprocal Rank Fusion (RRF). Returns the chunk and document ids for citations.';
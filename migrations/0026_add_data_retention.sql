@@ -0,0 +1,46 @@
+-- Data retention and data-subject requests (advancedSettings.gdprCompliant / dataRetentionDays)
+
+-- Retention is opt-in. The gdprCompliant / dataRetentionDays values saved with existing chatbots are the
+-- old form defaults and never deleted anything, so they are cleared rather than enforced from now on
+UPDATE chatbots
+SET config = ((config::jsonb) #- '{advancedSettings,gdprCompliant}' #- '{advancedSettings,dataRetentionDays}')::text
+WHERE config IS NOT NULL
+  AND ((config::jsonb) #> '{advancedSettings,gdprCompliant}' IS NOT NULL
+    OR (config::jsonb) #> '{advancedSettings,dataRetentionDays}' IS NOT NULL);
+
+-- Leads past the retention period keep their status for reporting but lose their personal data
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS leads_chatbot_captured_at_idx
+ON leads (chatbot_id, captured_at)
+WHERE anonymized_at IS NULL;
+
+-- Audit log of retention runs, exports and erasures; kept when the chatbot is deleted
+CREATE TABLE IF NOT EXISTS privacy_audit_logs (
+  id TEXT PRIMARY KEY,
+  chatbot_id TEXT REFERENCES chatbots(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  subject_type TEXT,
+  subject TEXT,
+  status TEXT NOT NULL,
+  conversations_affected INTEGER DEFAULT 0 NOT NULL,
+  messages_affected INTEGER DEFAULT 0 NOT NULL,
+  leads_affected INTEGER DEFAULT 0 NOT NULL,
+  details JSONB DEFAULT '{}'::jsonb NOT NULL,
+  error TEXT,
+  performed_by TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT privacy_audit_logs_action_check CHECK (action IN ('retention', 'export', 'erasure')),
+  CONSTRAINT privacy_audit_logs_subject_type_check CHECK (subject_type IS NULL OR subject_type IN ('session', 'email')),
+  CONSTRAINT privacy_audit_logs_status_check CHECK (status IN ('completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS privacy_audit_logs_chatbot_action_idx
+ON privacy_audit_logs (chatbot_id, action, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS privacy_audit_logs_created_at_idx
+ON privacy_audit_logs (created_at DESC);
+
+COMMENT ON COLUMN privacy_audit_logs.subject IS 'Masked session id or email of a data-subject request; the full value is not kept';
+COMMENT ON COLUMN privacy_audit_logs.performed_by IS 'Email of the admin, or scheduler for automatic retention runs';
@@ -0,0 +1,18 @@
+-- Files visitors attach in the chat widget (advancedSettings.allowFileUploads).
+-- The file itself lives in the private chat-attachments storage bucket.
+CREATE TABLE IF NOT EXISTS conversation_attachments (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  storage_path TEXT NOT NULL,
+  extracted_text TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS conversation_attachments_conversation_id_idx ON conversation_attachments (conversation_id);
+
+COMMENT ON COLUMN conversation_attachments.extracted_text IS 'Text of supported document types, given to the model for this conversation only';
@@ -0,0 +1,120 @@
+-- Background job queue: document ingestion, website crawls and scheduled sweeps run in a worker
+-- instead of inside HTTP requests
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload JSONB DEFAULT '{}'::jsonb NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 3 NOT NULL,
+  run_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  dedupe_key TEXT,
+  locked_by TEXT,
+  locked_until TIMESTAMP,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP,
+  CONSTRAINT jobs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS jobs_type_run_at_idx
+ON jobs (type, run_at)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS jobs_status_created_at_idx
+ON jobs (status, created_at DESC);
+
+-- At most one queued or running job per dedupe key; finished jobs do not block new ones
+CREATE UNIQUE INDEX IF NOT EXISTS jobs_dedupe_key_active_idx
+ON jobs (dedupe_key)
+WHERE status IN ('queued', 'running');
+
+COMMENT ON COLUMN jobs.attempts IS 'Attempts started so far, including the running one';
+COMMENT ON COLUMN jobs.locked_until IS 'Lease of the worker running the job; a running job past its lease is picked up again';
+
+-- Queue a job unless one with the same dedupe key is already queued or running.
+-- Returns the id of the new job, or of the existing one.
+CREATE OR REPLACE FUNCTION enqueue_job (
+  p_id text,
+  p_type text,
+  p_payload jsonb,
+  p_run_at timestamp,
+  p_max_attempts int,
+  p_dedupe_key text
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id text;
+BEGIN
+  -- The conflicting job can finish between the insert and the lookup; then insert again
+  LOOP
+    INSERT INTO jobs (id, type, payload, run_at, max_attempts, dedupe_key)
+    VALUES (p_id, p_type, p_payload, COALESCE(p_run_at, timezone('utc', now())), p_max_attempts, p_dedupe_key)
+    ON CONFLICT (dedupe_key) WHERE status IN ('queued', 'running') DO NOTHING
+    RETURNING id INTO v_id;
+    EXIT WHEN v_id IS NOT NULL;
+
+    SELECT j.id INTO v_id
+    FROM jobs j
+    WHERE j.dedupe_key = p_dedupe_key AND j.status IN ('queued', 'running')
+    LIMIT 1;
+    EXIT WHEN v_id IS NOT NULL;
+  END LOOP;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Lease up to p_limit due jobs of a type to a worker. Jobs whose worker stopped (lease expired) are
+-- retried, or failed when they have no attempts left. SKIP LOCKED lets several workers claim at once.
+CREATE OR REPLACE FUNCTION claim_jobs (
+  p_type text,
+  p_worker text,
+  p_limit int,
+  p_lease_seconds int
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE jobs
+  SET
+    status = 'failed',
+    last_error = 'Worker stopped before the job finished',
+    locked_by = NULL,
+    locked_until = NULL,
+    updated_at = timezone('utc', now())
+  WHERE type = p_type
+    AND status = 'running'
+    AND locked_until < timezone('utc', now())
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_by = p_worker,
+    locked_until = timezone('utc', now()) + make_interval(secs => p_lease_seconds),
+    updated_at = timezone('utc', now())
+  WHERE j.id IN (
+    SELECT d.id
+    FROM jobs d
+    WHERE d.type = p_type
+      AND (
+        (d.status = 'queued' AND d.run_at <= timezone('utc', now()))
+        OR (d.status = 'running' AND d.locked_until < timezone('utc', now()))
+      )
+    ORDER BY d.run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_jobs IS 'Marks due jobs of a type as running for p_worker with a lease of p_lease_seconds and returns them';
@@ -0,0 +1,36 @@
+-- API keys clients create for the public REST API (/api/v1). Only a SHA-256 hash of the key is stored;
+-- the key itself is shown once, when it is created.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL,
+  scopes JSONB DEFAULT '[]'::jsonb NOT NULL,
+  last_used_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_keys_key_hash_idx ON api_keys (key_hash);
+CREATE INDEX IF NOT EXISTS api_keys_client_id_idx ON api_keys (client_id);
+
+COMMENT ON COLUMN api_keys.prefix IS 'First characters of the key, shown so clients can tell their keys apart';
+COMMENT ON COLUMN api_keys.scopes IS 'Permissions of the key, e.g. ["leads:read", "kb:write"]';
+
+-- One row per request made with an API key
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  id TEXT PRIMARY KEY,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  ip_address TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS api_key_usage_api_key_created_at_idx ON api_key_usage (api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS api_key_usage_created_at_idx ON api_key_usage (created_at);
@@ -0,0 +1,42 @@
+-- Outbound webhooks: clients subscribe URLs to domain events (new leads, lead status changes,
+-- booked appointments, ended conversations). Deliveries are signed and retried by the job worker.
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  events JSONB DEFAULT '[]'::jsonb NOT NULL,
+  secret TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_client_id_idx ON webhook_endpoints (client_id);
+
+COMMENT ON COLUMN webhook_endpoints.secret IS 'Signing secret, encrypted with INTEGRATION_ENCRYPTION_KEY';
+
+-- One row per event sent to an endpoint; a resend adds a new row for the same event
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  endpoint_id TEXT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  last_attempt_at TIMESTAMP,
+  delivered_at TIMESTAMP,
+  CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'succeeded', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_created_at_idx ON webhook_deliveries (endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_created_at_idx ON webhook_deliveries (created_at);
+
+COMMENT ON COLUMN webhook_deliveries.event_id IS 'Same for every delivery of an event, so receivers can ignore duplicates';
@@ -0,0 +1,64 @@
+-- LLM usage metering: one row per chat completion, query expansion, rerank, conversation summary or
+-- embedding run, with its tokens and cost, for monthly usage and margin reports
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  client_id TEXT NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  chatbot_id TEXT REFERENCES chatbots(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER DEFAULT 0 NOT NULL,
+  completion_tokens INTEGER DEFAULT 0 NOT NULL,
+  cost DOUBLE PRECISION DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT llm_usage_operation_check CHECK (operation IN ('chat', 'query_expansion', 'rerank', 'summary', 'embedding'))
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_client_created_at_idx ON llm_usage (client_id, created_at);
+CREATE INDEX IF NOT EXISTS llm_usage_created_at_idx ON llm_usage (created_at);
+
+COMMENT ON COLUMN llm_usage.chatbot_id IS 'Kept as NULL when the chatbot is deleted, so past months still add up';
+COMMENT ON COLUMN llm_usage.cost IS 'USD, computed from the model price list when the call was made';
+
+-- Usage between two instants (UTC), grouped by client, chatbot, operation and model
+CREATE OR REPLACE FUNCTION summarize_llm_usage (
+  p_from timestamp,
+  p_to timestamp,
+  p_client_id text DEFAULT NULL
+)
+RETURNS TABLE (
+  client_id text,
+  client_name text,
+  chatbot_id text,
+  chatbot_name text,
+  operation text,
+  model text,
+  calls bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    u.client_id,
+    cl.name,
+    u.chatbot_id,
+    cb.name,
+    u.operation,
+    u.model,
+    count(*),
+    coalesce(sum(u.prompt_tokens), 0),
+    coalesce(sum(u.completion_tokens), 0),
+    coalesce(sum(u.cost), 0)
+  FROM llm_usage u
+  LEFT JOIN clients cl ON cl.id = u.client_id
+  LEFT JOIN chatbots cb ON cb.id = u.chatbot_id
+  WHERE u.created_at >= p_from
+    AND u.created_at < p_to
+    AND (p_client_id IS NULL OR u.client_id = p_client_id)
+  GROUP BY u.client_id, cl.name, u.chatbot_id, cb.name, u.operation, u.model;
+$$;
+
+COMMENT ON FUNCTION summarize_llm_usage IS 'Groups llm_usage rows created in [p_from, p_to), optionally for one client';
@@ -0,0 +1,51 @@
+-- Shared token buckets for the public widget endpoints (WIDGET_RATE_LIMIT_STORE=postgres), so every
+-- server instance counts the same requests
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_buckets_updated_at_idx ON rate_limit_buckets (updated_at);
+
+COMMENT ON COLUMN rate_limit_buckets.tokens IS 'Tokens left as of updated_at; refilled on the next take';
+
+-- Refill a bucket for the time since it was last used, then take p_cost tokens if there are enough.
+-- A new key starts full. Returns whether the tokens were taken and how many are left.
+CREATE OR REPLACE FUNCTION take_rate_limit_tokens (
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_second double precision,
+  p_cost double precision DEFAULT 1
+)
+RETURNS TABLE (allowed boolean, tokens double precision)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_now timestamp := timezone('utc', now());
+  v_tokens double precision;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+  VALUES (p_key, p_capacity, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT LEAST(p_capacity, b.tokens + GREATEST(EXTRACT(EPOCH FROM (v_now - b.updated_at)), 0) * p_refill_per_second)
+  INTO v_tokens
+  FROM rate_limit_buckets b
+  WHERE b.key = p_key
+  FOR UPDATE;
+
+  allowed := v_tokens >= p_cost;
+  IF allowed THEN
+    v_tokens := v_tokens - p_cost;
+  END IF;
+
+  UPDATE rate_limit_buckets b
+  SET tokens = v_tokens, updated_at = v_now
+  WHERE b.key = p_key;
+
+  tokens := v_tokens;
+  RETURN NEXT;
+END;
+$$;
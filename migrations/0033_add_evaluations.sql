@@ -0,0 +1,48 @@
+-- Evaluation harness: golden question sets per chatbot, and runs of a set through the chatbot's
+-- retrieval and generation pipeline with their scores (recall@k, faithfulness, fallback rate)
+CREATE TABLE IF NOT EXISTS eval_sets (
+  id TEXT PRIMARY KEY,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS eval_sets_chatbot_id_idx ON eval_sets (chatbot_id);
+
+CREATE TABLE IF NOT EXISTS eval_cases (
+  id TEXT PRIMARY KEY,
+  set_id TEXT NOT NULL REFERENCES eval_sets(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  expected_answer TEXT,
+  expected_document_ids JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS eval_cases_set_id_idx ON eval_cases (set_id);
+
+COMMENT ON COLUMN eval_cases.expected_document_ids IS 'kb_documents ids the answer should be retrieved from';
+
+CREATE TABLE IF NOT EXISTS eval_runs (
+  id TEXT PRIMARY KEY,
+  set_id TEXT NOT NULL REFERENCES eval_sets(id) ON DELETE CASCADE,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  label TEXT,
+  status TEXT DEFAULT 'queued' NOT NULL,
+  llm TEXT DEFAULT 'chatbot' NOT NULL,
+  settings JSONB,
+  summary JSONB,
+  results JSONB DEFAULT '[]'::jsonb NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  CONSTRAINT eval_runs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  CONSTRAINT eval_runs_llm_check CHECK (llm IN ('chatbot', 'stub'))
+);
+
+CREATE INDEX IF NOT EXISTS eval_runs_set_created_at_idx ON eval_runs (set_id, created_at DESC);
+
+COMMENT ON COLUMN eval_runs.results IS 'Per-question scores; questions are copied so later edits to the set do not change past runs';
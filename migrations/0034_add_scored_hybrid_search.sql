@@ -0,0 +1,83 @@
+-- Hybrid search that also returns how each chunk was found, for the retrieval playground and the
+-- chatbot's tunable retrieval settings: the vector similarity and rank, the keyword score and rank,
+-- and the Reciprocal Rank Fusion score the results are ordered by
+CREATE OR REPLACE FUNCTION hybrid_match_documents_scored (
+  query_embedding vector(1536),
+  query_text text,
+  match_threshold float,
+  match_count int,
+  p_chatbot_id varchar,
+  k int DEFAULT 60
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  text text,
+  similarity float,
+  filename text,
+  source_url text,
+  metadata jsonb,
+  vector_rank int,
+  keyword_score float,
+  keyword_rank int,
+  fused_score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_embedding) as similarity,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) as rank
+    FROM kb_chunks c
+    JOIN kb_documents d ON c.document_id = d.id
+    WHERE
+      c.chatbot_id = p_chatbot_id
+      AND c.embedding IS NOT NULL
+      AND d.status = 'ready'
+      AND 1 - (c.embedding <=> query_embedding) >= match_threshold
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count * 2
+  ),
+  text_matches AS (
+    SELECT
+      c.id,
+      ts_rank_cd(to_tsvector('simple', c.text), plainto_tsquery('simple', query_text)) as score,
+      row_number() OVER (ORDER BY ts_rank_cd(to_tsvector('simple', c.text), plainto_tsquery('simple', query_text)) DESC) as rank
+    FROM kb_chunks c
+    JOIN kb_documents d ON c.document_id = d.id
+    WHERE
+      c.chatbot_id = p_chatbot_id
+      AND d.status = 'ready'
+      AND to_tsvector('simple', c.text) @@ plainto_tsquery('simple', query_text)
+    ORDER BY score DESC
+    LIMIT match_count * 2
+  )
+  SELECT
+    c.id::text,
+    d.id::text,
+    c.text,
+    COALESCE(v.similarity, 0.0)::float as similarity,
+    d.filename,
+    d.source_url,
+    CASE
+      WHEN c.metadata IS NULL OR c.metadata = '' THEN '{}'::jsonb
+      ELSE c.metadata::jsonb
+    END as metadata,
+    v.rank::int as vector_rank,
+    t.score::float as keyword_score,
+    t.rank::int as keyword_rank,
+    (COALESCE(1.0 / (k + v.rank), 0.0) + COALESCE(1.0 / (k + t.rank), 0.0))::float as fused_score
+  FROM kb_chunks c
+  JOIN kb_documents d ON c.document_id = d.id
+  LEFT JOIN vector_matches v ON c.id = v.id
+  LEFT JOIN text_matches t ON c.id = t.id
+  WHERE (v.id IS NOT NULL OR t.id IS NOT NULL)
+  ORDER BY fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION hybrid_match_documents_scored IS 'hybrid_match_documents with the vector and keyword scores and ranks of each chunk and its Reciprocal Rank Fusion score.';
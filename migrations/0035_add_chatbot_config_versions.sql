@@ -0,0 +1,22 @@
+-- Chatbot config versioning: every change to a chatbot's config is kept as an immutable version with
+-- its author and diff. Edits from the admin form are saved as a draft that does not reach the widget
+-- until it is published; any earlier version can be published again (rollback)
+CREATE TABLE IF NOT EXISTS chatbot_config_versions (
+  id TEXT PRIMARY KEY,
+  chatbot_id TEXT NOT NULL REFERENCES chatbots(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  config JSONB NOT NULL,
+  diff JSONB DEFAULT '[]'::jsonb NOT NULL,
+  action TEXT NOT NULL,
+  note TEXT,
+  author TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  published_at TIMESTAMP,
+  published_by TEXT,
+  CONSTRAINT chatbot_config_versions_action_check CHECK (action IN ('baseline', 'draft', 'update', 'rollback'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS chatbot_config_versions_chatbot_version_idx ON chatbot_config_versions (chatbot_id, version);
+
+COMMENT ON COLUMN chatbot_config_versions.diff IS 'Changed settings against the previous version: [{ path, before, after }]';
+COMMENT ON COLUMN chatbot_config_versions.published_at IS 'When the version went live; the newest version without it is the draft';
@@ -0,0 +1,41 @@
+-- A/B tests of chatbot behavior: each widget session is assigned to a variant of the behavior settings
+-- (config.experiment), recorded on its conversation so outcomes can be compared per variant
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS variant TEXT;
+
+COMMENT ON COLUMN conversations.variant IS 'A/B test variant of the widget session: an experiment.variants id, or control; null outside experiments';
+
+-- Outcomes of the conversations one chatbot started between two days (UTC, inclusive), per variant
+CREATE OR REPLACE FUNCTION chatbot_variant_outcomes (
+  p_chatbot_id text,
+  p_from date,
+  p_to date
+)
+RETURNS TABLE (
+  variant text,
+  conversations bigint,
+  converted_conversations bigint,
+  handoffs bigint,
+  messages_received bigint,
+  bot_responses bigint,
+  fallback_responses bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.variant,
+    count(*),
+    count(*) FILTER (WHERE EXISTS (SELECT 1 FROM leads l WHERE l.conversation_id = c.id)),
+    count(*) FILTER (WHERE c.handoff_requested_at IS NOT NULL),
+    coalesce(sum((SELECT count(*) FROM messages m WHERE m.conversation_id = c.id AND m.role = 'user')), 0),
+    coalesce(sum((SELECT count(*) FROM analytics_events e WHERE e.conversation_id = c.id AND e.type = 'response')), 0),
+    coalesce(sum((SELECT count(*) FROM analytics_events e WHERE e.conversation_id = c.id AND e.type = 'fallback')), 0)
+  FROM conversations c
+  WHERE c.chatbot_id = p_chatbot_id
+    AND c.variant IS NOT NULL
+    AND c.started_at >= p_from::timestamp
+    AND c.started_at < p_to::timestamp + interval '1 day'
+  GROUP BY c.variant;
+$$;
+
+COMMENT ON FUNCTION chatbot_variant_outcomes IS 'Counts per variant for the conversations started between p_from and p_to (inclusive); conversations outside experiments are left out';
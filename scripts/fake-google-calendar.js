@@ -0,0 +1,178 @@
+// Local stand-in for Google OAuth and the Calendar API, for testing bookings offline
+//
+// Usage:
+//   node scripts/fake-google-calendar.js            # listens on FAKE_CALENDAR_PORT (default 5055)
+//
+// Point the server at it:
+//   GOOGLE_CLIENT_ID=fake GOOGLE_CLIENT_SECRET=fake
+//   GOOGLE_OAUTH_AUTH_URL=http://localhost:5055/o/oauth2/auth
+//   GOOGLE_OAUTH_TOKEN_URL=http://localhost:5055/token
+//   GOOGLE_CALENDAR_API_URL=http://localhost:5055/calendar/v3
+//
+// The consent screen approves immediately. Events live in memory; busy blocks can be
+// added with POST /__busy {"calendarId","start","end"} and everything cleared with POST /__reset.
+import crypto from 'crypto';
+import http from 'http';
+
+const port = parseInt(process.env.FAKE_CALENDAR_PORT || '5055', 10);
+// Short token lifetimes exercise the refresh flow
+const tokenTtlSeconds = parseInt(process.env.FAKE_CALENDAR_TOKEN_TTL || '3600', 10);
+
+let accessTokens = new Map(); // token -> expiry (ms)
+let refreshTokens = new Set();
+let calendars = new Map(); // calendarId -> [{ id, summary, start, end, busyOnly }]
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+
+function getEvents(calendarId) {
+  if (!calendars.has(calendarId)) calendars.set(calendarId, []);
+  return calendars.get(calendarId);
+}
+
+function issueTokens(includeRefresh) {
+  const accessToken = randomId('fake_access');
+  accessTokens.set(accessToken, Date.now() + tokenTtlSeconds * 1000);
+
+  const tokens = {
+    access_token: accessToken,
+    expires_in: tokenTtlSeconds,
+    token_type: 'Bearer',
+    scope: 'https://www.googleapis.com/auth/calendar.freebusy https://www.googleapis.com/auth/calendar.events',
+  };
+  if (includeRefresh) {
+    tokens.refresh_token = randomId('fake_refresh');
+    refreshTokens.add(tokens.refresh_token);
+  }
+  return tokens;
+}
+
+function isAuthorized(req) {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const expiresAt = accessTokens.get(token);
+  return !!expiresAt && expiresAt > Date.now();
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const sendApiError = (res, status, message) => send(res, status, { error: { code: status, message } });
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const path = url.pathname;
+
+  // OAuth consent: approve straight away and redirect back with a code
+  if (req.method === 'GET' && path === '/o/oauth2/auth') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!redirectUri) return send(res, 400, { error: 'invalid_request', error_description: 'Missing redirect_uri' });
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', randomId('fake_code'));
+    target.searchParams.set('state', url.searchParams.get('state') || '');
+    res.writeHead(302, { Location: target.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && path === '/token') {
+    const params = new URLSearchParams(await readBody(req));
+    if (!params.get('client_id') || !params.get('client_secret')) {
+      return send(res, 401, { error: 'invalid_client', error_description: 'Missing client credentials' });
+    }
+    if (params.get('grant_type') === 'authorization_code' && params.get('code')) {
+      return send(res, 200, issueTokens(true));
+    }
+    if (params.get('grant_type') === 'refresh_token' && refreshTokens.has(params.get('refresh_token'))) {
+      return send(res, 200, issueTokens(false));
+    }
+    return send(res, 400, { error: 'invalid_grant', error_description: 'Unknown code or refresh token' });
+  }
+
+  if (req.method === 'POST' && path === '/__reset') {
+    accessTokens = new Map();
+    refreshTokens = new Set();
+    calendars = new Map();
+    return send(res, 200, { reset: true });
+  }
+
+  if (req.method === 'POST' && path === '/__busy') {
+    const { calendarId = 'primary', start, end } = JSON.parse(await readBody(req) || '{}');
+    const event = { id: randomId('busy'), summary: 'Busy', start, end, busyOnly: true };
+    getEvents(calendarId).push(event);
+    return send(res, 200, event);
+  }
+
+  if (!path.startsWith('/calendar/v3/')) {
+    return sendApiError(res, 404, `No route for ${req.method} ${path}`);
+  }
+  if (!isAuthorized(req)) {
+    return sendApiError(res, 401, 'Invalid or expired access token');
+  }
+
+  if (req.method === 'POST' && path === '/calendar/v3/freeBusy') {
+    const { timeMin, timeMax, items = [] } = JSON.parse(await readBody(req) || '{}');
+    const min = new Date(timeMin).getTime();
+    const max = new Date(timeMax).getTime();
+
+    const result = {};
+    for (const { id } of items) {
+      result[id] = {
+        busy: getEvents(id)
+          .filter(event => new Date(event.start).getTime() < max && new Date(event.end).getTime() > min)
+          .map(event => ({ start: event.start, end: event.end })),
+      };
+    }
+    return send(res, 200, { kind: 'calendar#freeBusy', timeMin, timeMax, calendars: result });
+  }
+
+  const eventsMatch = path.match(/^\/calendar\/v3\/calendars\/([^/]+)\/events$/);
+  if (eventsMatch) {
+    const calendarId = decodeURIComponent(eventsMatch[1]);
+
+    if (req.method === 'GET') {
+      return send(res, 200, { kind: 'calendar#events', items: getEvents(calendarId) });
+    }
+
+    if (req.method === 'POST') {
+      const body = JSON.parse(await readBody(req) || '{}');
+      if (!body.start?.dateTime || !body.end?.dateTime) {
+        return sendApiError(res, 400, 'Missing start or end time');
+      }
+
+      const event = {
+        id: randomId('evt'),
+        status: 'confirmed',
+        htmlLink: `http://localhost:${port}/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`,
+        summary: body.summary,
+        description: body.description,
+        attendees: body.attendees,
+        start: body.start.dateTime,
+        end: body.end.dateTime,
+      };
+      getEvents(calendarId).push(event);
+      console.log(`[FakeCalendar] Created event ${event.id} on ${calendarId}: ${event.summary} (${event.start} → ${event.end})`);
+      return send(res, 200, event);
+    }
+  }
+
+  return sendApiError(res, 404, `No route for ${req.method} ${path}`);
+}
+
+http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('[FakeCalendar] Request failed:', error);
+    sendApiError(res, 500, error.message);
+  });
+}).listen(port, () => {
+  console.log(`Fake Google Calendar listening on http://localhost:${port}`);
+});
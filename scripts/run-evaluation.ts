@@ -0,0 +1,80 @@
+// Evaluation run: asks a chatbot's golden questions and fails when the scores drop below thresholds
+//
+// Usage (from server/, runs with tsx):
+//   npm run eval -- --chatbot <id> --set <id> [--stub] [--label <text>]
+//                   [--min-recall 0.8] [--min-faithfulness 0.7] [--max-fallback-rate 0.1]
+//
+// With --stub the answers come from the offline fake model (no API keys or cost), so the run
+// measures retrieval and the prompt rather than the chatbot's model; use it in CI.
+// The run is stored with the set and shows up in the admin evaluations page like any other.
+import { parseArgs } from 'util';
+import { evaluationApplicationService } from '../server/application/evaluationService.js';
+import type { EvalRunSummary } from '../server/shared/schema.js';
+
+const { values } = parseArgs({
+  options: {
+    chatbot: { type: 'string' },
+    set: { type: 'string' },
+    stub: { type: 'boolean', default: false },
+    label: { type: 'string' },
+    'min-recall': { type: 'string' },
+    'min-faithfulness': { type: 'string' },
+    'max-fallback-rate': { type: 'string' },
+  },
+});
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+// A threshold on a score no question could be scored on (null) is not checked
+function checkThresholds(summary: EvalRunSummary): string[] {
+  const failures: string[] = [];
+  const limits: Array<[string | undefined, number | null, 'min' | 'max', string]> = [
+    [values['min-recall'], summary.recall, 'min', 'recall'],
+    [values['min-faithfulness'], summary.faithfulness, 'min', 'faithfulness'],
+    [values['max-fallback-rate'], summary.fallbackRate, 'max', 'fallback rate'],
+  ];
+
+  for (const [limit, value, kind, name] of limits) {
+    if (limit === undefined || value === null) continue;
+    const threshold = Number(limit);
+    if (kind === 'min' ? value < threshold : value > threshold) {
+      failures.push(`${name} ${percent(value)} is ${kind === 'min' ? 'below' : 'above'} ${percent(threshold)}`);
+    }
+  }
+  return failures;
+}
+
+async function run() {
+  if (!values.chatbot || !values.set) {
+    console.error('Usage: npm run eval -- --chatbot <id> --set <id> [--stub] [--min-recall 0.8] ...');
+    process.exit(2);
+  }
+
+  console.log(`Evaluating set ${values.set} of chatbot ${values.chatbot}${values.stub ? ' with the stubbed LLM' : ''}\n`);
+  const evalRun = await evaluationApplicationService.runNow(values.chatbot, values.set, {
+    llm: values.stub ? 'stub' : 'chatbot',
+    label: values.label,
+  });
+
+  for (const result of evalRun.results) {
+    const scores = `recall ${percent(result.recall)}, faithfulness ${percent(result.faithfulness)}`;
+    const flags = [result.fallback && 'fallback', result.error && `error: ${result.error}`].filter(Boolean).join(', ');
+    console.log(`  ${result.question}\n    ${scores}${flags ? ` (${flags})` : ''}`);
+  }
+
+  const summary = evalRun.summary!;
+  console.log(`\n${summary.cases} questions: recall ${percent(summary.recall)}, faithfulness ${percent(summary.faithfulness)}, ` +
+    `answer match ${percent(summary.answerMatch)}, fallback rate ${percent(summary.fallbackRate)}, ` +
+    `avg latency ${summary.avgLatencyMs}ms`);
+
+  const failures = checkThresholds(summary);
+  for (const failure of failures) {
+    console.log(`  ✗ ${failure}`);
+  }
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(`Evaluation failed: ${error.message}`);
+  process.exit(1);
+});
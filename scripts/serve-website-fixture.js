@@ -0,0 +1,59 @@
+// Local static website for testing the knowledge base crawler offline
+//
+// Usage:
+//   node scripts/serve-website-fixture.js          # listens on FIXTURE_SITE_PORT (default 5056)
+//
+// Then add http://localhost:5056/ (link crawl) or http://localhost:5056/sitemap.xml (sitemap crawl)
+// as a website source. The site has navigation chrome, a noindex draft, a page disallowed by
+// robots.txt, an off-site link and a broken PDF link. Files are read on every request, so editing
+// a page under scripts/fixtures/website and re-crawling shows that only changed pages are re-embedded.
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const port = parseInt(process.env.FIXTURE_SITE_PORT || '5056', 10);
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'website');
+
+const contentTypes = {
+  '.html': 'text/html; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// "/" -> index.html, "/docs/pricing" -> docs/pricing.html
+function resolveFile(pathname) {
+  const relative = decodeURIComponent(pathname).replace(/^\/+/, '');
+  const candidates = relative === '' || relative.endsWith('/')
+    ? [path.join(relative, 'index.html')]
+    : [relative, `${relative}.html`];
+
+  for (const candidate of candidates) {
+    const file = path.resolve(root, candidate);
+    if (file.startsWith(root + path.sep) && fs.existsSync(file) && fs.statSync(file).isFile()) {
+      return file;
+    }
+  }
+  return null;
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || `localhost:${port}`}`);
+  const file = resolveFile(url.pathname);
+
+  console.log(`${req.method} ${url.pathname} ${file ? 200 : 404}`);
+
+  if (!file) {
+    res.writeHead(404, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end('<h1>Not found</h1>');
+  }
+
+  // Sitemaps and robots.txt hold {{origin}} so absolute URLs match whatever port is used
+  const body = fs.readFileSync(file, 'utf-8').replaceAll('{{origin}}', url.origin);
+  res.writeHead(200, { 'Content-Type': contentTypes[path.extname(file)] || 'application/octet-stream' });
+  res.end(body);
+});
+
+server.listen(port, () => {
+  console.log(`Website fixture on http://localhost:${port} (sitemap: http://localhost:${port}/sitemap.xml)`);
+});
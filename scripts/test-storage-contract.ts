@@ -0,0 +1,456 @@
+// Storage contract check: runs the same IStorage calls against the configured backend
+//
+// Usage (from server/, runs with tsx):
+//   STORAGE_BACKEND=postgres DATABASE_URL=postgres://... npm run storage:contract
+//   npm run storage:contract            # Supabase backend
+//
+// Creates a throwaway client with a chatbot, conversation, lead, subscription, LLM usage,
+// knowledge base document, API key and evaluation set, checks what comes back, then deletes the client again.
+// Run it against both backends to confirm they return the same shapes.
+// Job checks use a job type of their own; their finished jobs go with the scheduled job cleanup.
+import assert from 'assert/strict';
+import { randomUUID } from 'crypto';
+import config from '../server/config.js';
+import { storage } from '../server/storage.js';
+
+// Unit vector along one axis, so similarity between two of them is 1 or 0
+function axisEmbedding(axis: number): number[] {
+  const embedding = new Array(1536).fill(0);
+  embedding[axis] = 1;
+  return embedding;
+}
+
+const checks: { name: string; fn: () => Promise<void> }[] = [];
+function check(name: string, fn: () => Promise<void>) {
+  checks.push({ name, fn });
+}
+
+// Records created by earlier checks; each check builds on the previous ones
+const state: Record<string, any> = {};
+const runId = randomUUID().slice(0, 8);
+
+check('creates a client', async () => {
+  state.client = await storage.createClient({
+    name: `Contract ${runId}`,
+    contactEmail: `contract-${runId}@example.com`,
+    industry: 'testing',
+  });
+  assert.ok(state.client.id);
+  assert.equal(state.client.name, `Contract ${runId}`);
+  assert.equal((await storage.getClient(state.client.id))?.id, state.client.id);
+});
+
+check('creates a chatbot with its config', async () => {
+  state.chatbot = await storage.createChatbot({
+    clientId: state.client.id,
+    name: 'Contract bot',
+    config: { welcomeMessage: 'Hello' },
+    widgetUrl: `/widget/contract-${runId}`,
+  });
+  const chatbot = await storage.getChatbot(state.chatbot.id);
+  assert.equal(chatbot?.clientId, state.client.id);
+  assert.equal(chatbot?.config.welcomeMessage, 'Hello');
+
+  const widget = await storage.getChatbotForWidget(`contract-${runId}`);
+  assert.equal(widget?.id, state.chatbot.id);
+});
+
+check('updates chatbot details and counts messages', async () => {
+  const updated = await storage.updateChatbotDetails(state.chatbot.id, { name: 'Renamed bot' });
+  assert.equal(updated.name, 'Renamed bot');
+  await storage.incrementMessageCount(state.chatbot.id);
+});
+
+check('manages the subscription lifecycle', async () => {
+  const trialEnd = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  const created = await storage.createSubscription({
+    clientId: state.client.id,
+    chatbotId: state.chatbot.id,
+    type: 'trial',
+    status: 'trial',
+    trialStart: new Date(),
+    trialEnd,
+    monthlyAmount: 0,
+  });
+
+  const extended = await storage.extendTrial(created.id, 7);
+  assert.equal(extended.status, 'trial');
+  assert.ok(new Date(extended.trialEnd).getTime() > trialEnd.getTime());
+
+  assert.equal((await storage.suspendSubscription(created.id)).status, 'cancelled');
+  assert.equal((await storage.reactivateSubscription(created.id)).status, 'active');
+  assert.equal((await storage.getSubscriptionByClientId(state.client.id))?.id, created.id);
+
+  await storage.updateSubscription(created.id, { status: 'trial', trialEnd: new Date(Date.now() - 60 * 1000) });
+  const due = await storage.getSubscriptionsDueForExpiry(new Date(), new Date());
+  assert.ok(due.some(subscription => subscription.id === created.id));
+});
+
+check('keeps conversations per session', async () => {
+  const sessionId = `session-${runId}`;
+  const first = await storage.createOrUpdateConversation({ chatbotId: state.chatbot.id, sessionId });
+  const second = await storage.createOrUpdateConversation({ chatbotId: state.chatbot.id, sessionId });
+  assert.equal(second.id, first.id);
+  state.conversation = first;
+
+  await storage.createMessage({ conversationId: first.id, role: 'user', content: 'Hi' });
+  await storage.createMessage({ conversationId: first.id, role: 'assistant', content: 'Hello!' });
+  const messages = await storage.getMessagesByConversationId(first.id, state.client.id);
+  assert.deepEqual(messages.map(message => message.role), ['user', 'assistant']);
+
+  const conversation = await storage.getConversationById(first.id, state.client.id);
+  assert.equal(conversation?.messages.length, 2);
+
+  // Plan quotas count visitor messages only
+  assert.equal(await storage.countVisitorMessagesByClientId(state.client.id, new Date(Date.now() - 60 * 60 * 1000)), 1);
+  assert.equal(await storage.countChatbotsByClientId(state.client.id), 1);
+});
+
+check('records and summarizes LLM usage', async () => {
+  const from = new Date(Date.now() - 60 * 60 * 1000);
+  for (const promptTokens of [100, 300]) {
+    await storage.recordLLMUsage({
+      clientId: state.client.id,
+      chatbotId: state.chatbot.id,
+      operation: 'chat',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      promptTokens,
+      completionTokens: 50,
+      cost: 0.001,
+    });
+  }
+
+  const [row, ...rest] = await storage.getLLMUsageSummary(from, new Date(Date.now() + 60 * 1000), state.client.id);
+  assert.equal(rest.length, 0);
+  assert.equal(row.chatbotName, state.chatbot.name);
+  assert.equal(row.calls, 2);
+  assert.equal(row.promptTokens, 400);
+  assert.equal(row.completionTokens, 100);
+  assert.ok(Math.abs(row.cost - 0.002) < 1e-9);
+});
+
+check('captures leads once per conversation', async () => {
+  const lead = await storage.createLead({
+    clientId: state.client.id,
+    chatbotId: state.chatbot.id,
+    email: `lead-${runId}@example.com`,
+    conversationId: state.conversation.id,
+  });
+  const existing = await storage.checkExistingLead(state.chatbot.id, state.conversation.id);
+  assert.equal(existing?.id, lead.id);
+
+  const leads = await storage.getLeadsByClientId(state.client.id);
+  assert.equal(leads.length, 1);
+
+  const updated = await storage.updateLeadStatus(lead.id, 'contacted');
+  assert.equal(updated.status, 'contacted');
+  assert.equal(updated.chatbotId, state.chatbot.id);
+});
+
+check('counts outcomes per A/B test variant', async () => {
+  const today = new Date().toISOString().slice(0, 10);
+  await storage.createOrUpdateConversation({ chatbotId: state.chatbot.id, sessionId: `session-${runId}-control`, variant: 'control' });
+  const converted = await storage.createOrUpdateConversation({ chatbotId: state.chatbot.id, sessionId: `session-${runId}-short`, variant: 'short' });
+  // A session keeps the variant it started with
+  const again = await storage.createOrUpdateConversation({ chatbotId: state.chatbot.id, sessionId: `session-${runId}-short`, variant: 'control' });
+  assert.equal(again.variant, 'short');
+
+  await storage.createMessage({ conversationId: converted.id, role: 'user', content: 'Can I get a quote?' });
+  await storage.createLead({
+    clientId: state.client.id,
+    chatbotId: state.chatbot.id,
+    email: `variant-${runId}@example.com`,
+    conversationId: converted.id,
+  });
+
+  // Conversations outside experiments are left out
+  const outcomes = await storage.getVariantOutcomes(state.chatbot.id, today, today);
+  const byVariant = new Map(outcomes.map(outcome => [outcome.variant, outcome]));
+  assert.equal(outcomes.length, 2);
+  assert.equal(byVariant.get('control')?.conversations, 1);
+  assert.equal(byVariant.get('control')?.convertedConversations, 0);
+  assert.equal(byVariant.get('short')?.convertedConversations, 1);
+  assert.equal(byVariant.get('short')?.messagesReceived, 1);
+});
+
+check('searches the knowledge base', async () => {
+  const documentId = randomUUID();
+  await storage.createKBDocument({
+    id: documentId,
+    chatbotId: state.chatbot.id,
+    filename: 'contract.txt',
+    contentType: 'text/plain',
+    size: 100,
+    storagePath: `contract/${runId}.txt`,
+    status: 'processing',
+    checksum: `checksum-${runId}`,
+  });
+  await storage.createKBChunk({
+    id: randomUUID(),
+    documentId,
+    chatbotId: state.chatbot.id,
+    chunkIndex: 0,
+    text: 'Our opening hours are nine to five.',
+    tokenCount: 8,
+    embedding: axisEmbedding(0),
+    metadata: {},
+  });
+  await storage.updateKBDocumentProgress(documentId, 1, 1);
+  await storage.updateKBDocumentStatus(documentId, 'ready');
+
+  state.documentId = documentId;
+  const document = await storage.getKBDocument(documentId);
+  assert.equal(document?.status, 'ready');
+  assert.equal(document?.processingProgress, 100);
+
+  const vectorResults = await storage.searchKBChunks(state.chatbot.id, axisEmbedding(0), 5);
+  assert.equal(vectorResults[0]?.documentId, documentId);
+  assert.ok(vectorResults[0].similarity > 0.99);
+
+  // Keyword matches are found even when the embedding is unrelated
+  const hybridResults = await storage.searchKBChunks(state.chatbot.id, axisEmbedding(1), 5, 'opening hours');
+  assert.equal(hybridResults[0]?.filename, 'contract.txt');
+
+  // The scored search tells how each chunk was found
+  const [scored] = await storage.searchKBChunksScored(state.chatbot.id, axisEmbedding(1), 'opening hours', { limit: 5, threshold: 0.3 });
+  assert.equal(scored?.documentId, documentId);
+  assert.equal(scored.vectorRank, null);
+  assert.equal(scored.keywordRank, 1);
+  assert.ok(scored.keywordScore! > 0);
+  assert.ok(scored.fusedScore > 0);
+});
+
+check('queues, claims and finishes jobs', async () => {
+  const type = `contract.${runId}`;
+  const first = await storage.enqueueJob({ type, payload: { n: 1 }, maxAttempts: 2, dedupeKey: type });
+  const duplicate = await storage.enqueueJob({ type, payload: { n: 2 }, maxAttempts: 2, dedupeKey: type });
+  assert.ok(first.created);
+  assert.deepEqual(duplicate, { id: first.id, created: false });
+
+  const [claimed] = await storage.claimJobs(type, 'contract', 5, 60);
+  assert.equal(claimed.id, first.id);
+  assert.equal(claimed.status, 'running');
+  assert.equal(claimed.attempts, 1);
+  assert.deepEqual(claimed.payload, { n: 1 });
+  assert.equal((await storage.claimJobs(type, 'contract', 5, 60)).length, 0);
+
+  await storage.failJob(first.id, 'contract', 'boom', new Date(Date.now() - 1000));
+  const [retried] = await storage.claimJobs(type, 'contract', 5, 60);
+  assert.equal(retried.attempts, 2);
+  assert.equal(retried.lastError, 'boom');
+
+  await storage.completeJob(first.id, 'contract', { ok: true });
+  const job = await storage.getJob(first.id);
+  assert.equal(job?.status, 'completed');
+  assert.deepEqual(job?.result, { ok: true });
+
+  // A finished job no longer blocks its dedupe key
+  const next = await storage.enqueueJob({ type, payload: {}, maxAttempts: 1, dedupeKey: type });
+  assert.ok(next.created);
+  await storage.claimJobs(type, 'contract', 5, 60);
+  await storage.completeJob(next.id, 'contract', null);
+});
+
+check('takes rate limit tokens', async () => {
+  // The bucket is left behind for the daily rate-limits.cleanup job
+  const key = `contract:${runId}`;
+  const first = await storage.takeRateLimitTokens(key, 2, 0.001, 1);
+  assert.equal(first.allowed, true);
+  assert.ok(Math.abs(first.tokens - 1) < 0.01);
+
+  assert.equal((await storage.takeRateLimitTokens(key, 2, 0.001, 1)).allowed, true);
+  const empty = await storage.takeRateLimitTokens(key, 2, 0.001, 1);
+  assert.equal(empty.allowed, false);
+  assert.ok(empty.tokens < 1);
+});
+
+check('manages API keys and their usage', async () => {
+  const apiKey = await storage.createApiKey({
+    id: randomUUID(),
+    clientId: state.client.id,
+    name: 'Contract',
+    prefix: 'aqk_contract',
+    keyHash: `hash-${runId}`,
+    scopes: ['leads:read'],
+    expiresAt: null,
+  });
+  assert.deepEqual(apiKey.scopes, ['leads:read']);
+  assert.equal((await storage.getApiKeyByHash(`hash-${runId}`))?.id, apiKey.id);
+
+  await storage.recordApiKeyUsage({
+    apiKeyId: apiKey.id,
+    clientId: state.client.id,
+    method: 'GET',
+    path: '/api/v1/leads',
+    statusCode: 200,
+    durationMs: 12,
+    ipAddress: null,
+  });
+  const usage = await storage.getApiKeyUsage(apiKey.id, 10);
+  assert.equal(usage[0]?.path, '/api/v1/leads');
+  const [listed] = await storage.getApiKeysByClientId(state.client.id);
+  assert.ok(listed.lastUsedAt);
+
+  assert.ok((await storage.revokeApiKey(apiKey.id, state.client.id))?.revokedAt);
+  assert.equal(await storage.revokeApiKey(apiKey.id, state.client.id), undefined);
+});
+
+check('logs webhook deliveries', async () => {
+  const endpoint = await storage.createWebhookEndpoint({
+    id: randomUUID(),
+    clientId: state.client.id,
+    url: 'https://example.com/hook',
+    description: null,
+    events: ['lead.created'],
+    secret: 'encrypted',
+    enabled: true,
+  });
+  assert.deepEqual((await storage.getWebhookEndpoints(state.client.id)).map(e => e.id), [endpoint.id]);
+  assert.equal((await storage.updateWebhookEndpoint(endpoint.id, { enabled: false })).enabled, false);
+
+  const delivery = await storage.createWebhookDelivery({
+    id: randomUUID(),
+    endpointId: endpoint.id,
+    clientId: state.client.id,
+    eventId: `evt_${runId}`,
+    eventType: 'lead.created',
+    payload: { id: `evt_${runId}`, type: 'lead.created', createdAt: new Date().toISOString(), data: {} },
+  });
+  assert.equal(delivery.status, 'pending');
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status: 'succeeded',
+    attempts: 1,
+    responseStatus: 200,
+    deliveredAt: new Date(),
+  });
+  assert.equal(updated.status, 'succeeded');
+  assert.ok(updated.deliveredAt);
+  assert.equal((await storage.getWebhookDeliveries(endpoint.id, 10))[0]?.payload.id, `evt_${runId}`);
+
+  await storage.deleteWebhookEndpoint(endpoint.id);
+  assert.equal(await storage.getWebhookDelivery(delivery.id), undefined);
+});
+
+check('stores evaluation sets and runs', async () => {
+  const set = await storage.createEvalSet({
+    id: randomUUID(),
+    chatbotId: state.chatbot.id,
+    name: 'Contract set',
+    description: null,
+  });
+  assert.equal((await storage.getEvalSets(state.chatbot.id))[0]?.id, set.id);
+  assert.equal((await storage.updateEvalSet(set.id, { name: 'Renamed set' })).name, 'Renamed set');
+
+  const evalCase = await storage.createEvalCase({
+    id: randomUUID(),
+    setId: set.id,
+    question: 'When are you open?',
+    expectedAnswer: 'Nine to five.',
+    expectedDocumentIds: [state.documentId],
+  });
+  assert.deepEqual((await storage.getEvalCase(evalCase.id))?.expectedDocumentIds, [state.documentId]);
+  const updatedCase = await storage.updateEvalCase(evalCase.id, { expectedAnswer: null });
+  assert.equal(updatedCase.expectedAnswer, null);
+  assert.equal(updatedCase.question, 'When are you open?');
+
+  const run = await storage.createEvalRun({
+    id: randomUUID(),
+    setId: set.id,
+    chatbotId: state.chatbot.id,
+    label: null,
+    llm: 'stub',
+  });
+  assert.equal(run.status, 'queued');
+  assert.deepEqual(run.results, []);
+  const completed = await storage.updateEvalRun(run.id, {
+    status: 'completed',
+    settings: { provider: 'fake', model: 'fake', k: 5 },
+    summary: { cases: 0, recall: null, faithfulness: null, answerMatch: null, fallbackRate: 0, avgLatencyMs: 0 },
+    completedAt: new Date(),
+  });
+  assert.equal(completed.status, 'completed');
+  assert.equal(completed.settings?.k, 5);
+  assert.ok(completed.completedAt);
+  assert.equal((await storage.getEvalRuns(set.id, 10))[0]?.id, run.id);
+
+  await storage.deleteEvalSet(set.id);
+  assert.equal(await storage.getEvalRun(run.id), undefined);
+  assert.equal((await storage.getEvalCases(set.id)).length, 0);
+});
+
+check('stores config versions', async () => {
+  const baseline = await storage.createChatbotConfigVersion({
+    id: randomUUID(),
+    chatbotId: state.chatbot.id,
+    version: 1,
+    config: { behavior: { welcomeMessage: 'Hi' } },
+    diff: [],
+    action: 'baseline',
+    note: null,
+    author: null,
+    publishedAt: new Date(),
+    publishedBy: null,
+  });
+  const draft = await storage.createChatbotConfigVersion({
+    id: randomUUID(),
+    chatbotId: state.chatbot.id,
+    version: 2,
+    config: { behavior: { welcomeMessage: 'Hello' } },
+    diff: [{ path: 'behavior.welcomeMessage', before: 'Hi', after: 'Hello' }],
+    action: 'draft',
+    note: null,
+    author: 'admin@example.com',
+    publishedAt: null,
+    publishedBy: null,
+  });
+  assert.deepEqual((await storage.getChatbotConfigVersions(state.chatbot.id, 10)).map(v => v.version), [2, 1]);
+  assert.equal((await storage.getLatestChatbotConfigVersion(state.chatbot.id))?.id, draft.id);
+  assert.equal((await storage.getLatestChatbotConfigVersion(state.chatbot.id, true))?.id, baseline.id);
+  assert.equal((await storage.getChatbotConfigVersion(draft.id))?.diff[0]?.after, 'Hello');
+
+  const published = await storage.publishChatbotConfigVersion(draft.id, 'admin@example.com');
+  assert.ok(published.publishedAt);
+  assert.equal(published.publishedBy, 'admin@example.com');
+  assert.equal((await storage.getLatestChatbotConfigVersion(state.chatbot.id, true))?.id, draft.id);
+});
+
+check('rolls up analytics', async () => {
+  const today = new Date().toISOString().split('T')[0];
+  await storage.recordAnalyticsEvent({ chatbotId: state.chatbot.id, type: 'response', value: 1200 });
+  await storage.rollupChatbotAnalytics(state.chatbot.id, today, today);
+  const daily = await storage.getChatbotAnalyticsDaily(state.chatbot.id, today, today);
+  assert.equal(daily.length, 1);
+});
+
+check('deletes the client with its records', async () => {
+  await storage.deleteClient(state.client.id);
+  assert.equal(await storage.getClient(state.client.id), undefined);
+  assert.equal(await storage.getChatbot(state.chatbot.id), undefined);
+});
+
+async function run() {
+  console.log(`Storage contract against the ${config.storageBackend} backend\n`);
+  let passed = 0;
+
+  for (const { name, fn } of checks) {
+    try {
+      await fn();
+      passed++;
+      console.log(`  ✓ ${name}`);
+    } catch (error: any) {
+      console.log(`  ✗ ${name}\n    ${error.message}`);
+      break;
+    }
+  }
+
+  // Leave nothing behind if a check failed halfway
+  if (passed < checks.length && state.client) {
+    await storage.deleteClient(state.client.id).catch(() => {});
+  }
+
+  console.log(`\n${passed}/${checks.length} checks passed`);
+  process.exit(passed < checks.length ? 1 : 0);
+}
+
+run();
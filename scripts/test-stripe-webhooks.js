@@ -0,0 +1,119 @@
+// Replay signed Stripe webhook fixtures against a running server
+//
+// Usage:
+//   STRIPE_WEBHOOK_SECRET=whsec_test STRIPE_TEST_SUBSCRIPTION_ID=<subscription id> \
+//     node scripts/test-stripe-webhooks.js [fixture-name-filter]
+//
+// The server must run with the same STRIPE_WEBHOOK_SECRET. Fixtures live in
+// scripts/fixtures/stripe and are sent in file-name order; __SUBSCRIPTION_ID__
+// and __CLIENT_ID__ placeholders are replaced before signing.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const fixturesDir = path.join(__dirname, 'fixtures', 'stripe');
+
+const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+const webhookUrl = `${baseUrl}/api/payment/webhook`;
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+const subscriptionId = process.env.STRIPE_TEST_SUBSCRIPTION_ID || 'sub_local_test';
+const clientId = process.env.STRIPE_TEST_CLIENT_ID || 'client_local_test';
+const filter = process.argv[2];
+
+// Same scheme as Stripe: HMAC-SHA256 over "<timestamp>.<payload>"
+function signPayload(payload, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`, 'utf8')
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function loadFixtures() {
+  // Unique event ids per run so the idempotency check does not skip reruns
+  const runId = Date.now().toString(36);
+
+  return fs.readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.json') && (!filter || file.includes(filter)))
+    .sort()
+    .map(file => {
+      const raw = fs.readFileSync(path.join(fixturesDir, file), 'utf8')
+        .replaceAll('__SUBSCRIPTION_ID__', subscriptionId)
+        .replaceAll('__CLIENT_ID__', clientId);
+      const event = JSON.parse(raw);
+      event.id = `${event.id}_${runId}`;
+      return { file, payload: JSON.stringify(event, null, 2) };
+    });
+}
+
+async function sendWebhook(payload, signature) {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(signature ? { 'Stripe-Signature': signature } : {}),
+    },
+    body: payload,
+  });
+  const text = await response.text();
+  let body;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = text;
+  }
+  return { status: response.status, body };
+}
+
+async function testStripeWebhooks() {
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is required (use the same value as the server)');
+    process.exit(1);
+  }
+
+  const fixtures = loadFixtures();
+  if (fixtures.length === 0) {
+    console.error(`No fixtures matched in ${fixturesDir}`);
+    process.exit(1);
+  }
+
+  console.log(`Replaying ${fixtures.length} Stripe fixture(s) to ${webhookUrl}`);
+  console.log(`Subscription: ${subscriptionId}, client: ${clientId}\n`);
+
+  let failures = 0;
+  const check = (label, ok, details) => {
+    console.log(`${ok ? '✅' : '❌'} ${label}`, ok ? '' : JSON.stringify(details));
+    if (!ok) failures++;
+  };
+
+  for (const { file, payload } of fixtures) {
+    const result = await sendWebhook(payload, signPayload(payload));
+    check(`${file} → ${result.status}`, result.status === 200 && result.body?.received === true, result);
+  }
+
+  // Redelivery of an already processed event must be acknowledged without reapplying it
+  const first = fixtures[0];
+  const replay = await sendWebhook(first.payload, signPayload(first.payload));
+  check(`redelivered ${first.file} is skipped`, replay.status === 200 && replay.body?.duplicate === true, replay);
+
+  // Tampered body: signature no longer matches
+  const tampered = await sendWebhook(first.payload.replace('"livemode": false', '"livemode": true'), signPayload(first.payload));
+  check('tampered payload is rejected', tampered.status === 400, tampered);
+
+  // Stale timestamp: outside Stripe's default 5 minute tolerance
+  const stale = await sendWebhook(first.payload, signPayload(first.payload, Math.floor(Date.now() / 1000) - 3600));
+  check('stale signature is rejected', stale.status === 400, stale);
+
+  const unsigned = await sendWebhook(first.payload);
+  check('missing signature is rejected', unsigned.status === 400, unsigned);
+
+  console.log(failures === 0 ? '\nAll Stripe webhook checks passed' : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+testStripeWebhooks().catch(error => {
+  console.error('Stripe webhook replay failed:', error);
+  process.exit(1);
+});
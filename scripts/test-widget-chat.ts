@@ -0,0 +1,156 @@
+// Widget chat check: sends widget messages through the real routes with storage stubbed out
+//
+// Usage (from server/, runs with tsx):
+//   npm run widget:check
+//
+// Needs no database, API keys or network: storage calls are replaced with in-memory answers and
+// the chatbot uses the offline fake LLM provider. Server modules build Supabase clients on import,
+// so the npm script sets placeholder Supabase settings and a session secret, which nothing connects
+// to. Checks the responses visitors get when the client's plan is used up or its subscription has
+// ended, and that the bot still answers when the model keeps calling plugins.
+import assert from 'assert/strict';
+import { createRequire } from 'module';
+import type { AddressInfo } from 'net';
+import { storage } from '../server/storage.js';
+import { widgetApplicationService } from '../server/application/widgetService.js';
+import { widgetRoutes } from '../server/routes/widgets.js';
+import { FakeLLMProvider } from '../server/services/llm-provider.js';
+import { pluginManagerService } from '../server/services/plugin-manager.js';
+
+// express and LangChain are dependencies of server/, not of this directory
+const serverRequire = createRequire(new URL('../server/package.json', import.meta.url));
+const express = serverRequire('express');
+const { AIMessageChunk } = serverRequire('@langchain/core/messages');
+
+const checks: { name: string; fn: () => Promise<void> }[] = [];
+function check(name: string, fn: () => Promise<void>) {
+  checks.push({ name, fn });
+}
+
+const CHATBOT_ID = 'widget-check-bot';
+const CLIENT_ID = 'widget-check-client';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What the stubbed storage answers; checks change it before sending messages
+const state = {
+  subscription: { id: 'sub', clientId: CLIENT_ID, type: 'trial', status: 'trial', trialEnd: new Date(Date.now() + DAY_MS) } as any,
+  messagesThisMonth: 0,
+  pluginRuns: 0,
+};
+
+const stubs: Record<string, (...args: any[]) => Promise<any>> = {
+  getChatbotForWidget: async () => ({
+    id: CHATBOT_ID,
+    clientId: CLIENT_ID,
+    name: 'Widget check bot',
+    status: 'active',
+    config: { advancedSettings: { model: { provider: 'fake', model: 'fake' } } },
+  }),
+  getSubscriptionByClientId: async () => state.subscription,
+  countVisitorMessagesByClientId: async () => state.messagesThisMonth,
+  createOrUpdateConversation: async () => {
+    throw new Error('No conversations in the widget check');
+  },
+  trackWidgetInteraction: async () => undefined,
+  incrementMessageCount: async () => undefined,
+};
+Object.assign(storage, stubs);
+
+// One enabled plugin, which always succeeds
+pluginManagerService.getEnabledPluginsForChatbot = async () => [{
+  id: 'widget-check-plugin',
+  pluginTemplate: { name: 'Order status', description: 'Look up an order', is_active: true, input_schema: {}, output_schema: {} },
+}] as any;
+pluginManagerService.executePlugin = async () => {
+  state.pluginRuns++;
+  return { success: true, data: { status: 'shipped' } } as any;
+};
+
+// With tools bound the fake model says it is checking and calls the first one every time; without
+// tools it answers in text
+const fakeChatModel = FakeLLMProvider.prototype.getChatModel;
+FakeLLMProvider.prototype.getChatModel = function (this: FakeLLMProvider, options) {
+  const model = fakeChatModel.call(this, options);
+  model.bindTools = ((tools: { name: string }[]) => ({
+    invoke: async () => new AIMessageChunk({ content: 'Let me check that order.', tool_calls: [{ id: `call_${state.pluginRuns}`, name: tools[0].name, args: {} }] }),
+  })) as any;
+  return model;
+};
+
+// Sessions and allowed domains have checks of their own
+widgetApplicationService.verifySession = () => 'widget-check-session';
+widgetApplicationService.isSiteAllowed = async () => true;
+
+// Widget routes parse their own bodies, like in the app
+const app = express();
+app.use('/api', widgetRoutes);
+const server = app.listen(0);
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/widget/${CHATBOT_ID}`;
+
+function sendMessage(stream = false) {
+  return fetch(`${baseUrl}/message${stream ? '?stream=1' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Widget-Session': 'token' },
+    body: JSON.stringify({ message: 'Hello' }),
+  });
+}
+
+// The "error" event of an SSE response, if any
+async function streamedError(response: Response): Promise<any> {
+  const match = (await response.text()).match(/event: error\ndata: (.*)\n/);
+  return match ? JSON.parse(match[1]) : undefined;
+}
+
+check('answers with 402 when the plan has no messages left', async () => {
+  state.messagesThisMonth = 1_000_000;
+  const response = await sendMessage();
+  assert.equal(response.status, 402);
+  const body = await response.json();
+  assert.equal(body.quotaExceeded, true);
+  assert.match(body.response, /message limit/);
+});
+
+check('streams a quotaExceeded error when the plan has no messages left', async () => {
+  state.messagesThisMonth = 1_000_000;
+  const error = await streamedError(await sendMessage(true));
+  assert.equal(error?.quotaExceeded, true);
+});
+
+check('answers in text when the model keeps calling plugins', async () => {
+  state.messagesThisMonth = 0;
+  state.pluginRuns = 0;
+  const response = await sendMessage();
+  assert.equal(response.status, 200);
+  // What the model said in each plugin round, then the answer, each as its own paragraph
+  assert.match((await response.json()).response, /^(Let me check that order\.\n\n){3}\S/);
+  assert.equal(state.pluginRuns, 3);
+});
+
+check('answers with 403 when the subscription has ended', async () => {
+  state.messagesThisMonth = 0;
+  state.subscription = { ...state.subscription, trialEnd: new Date(Date.now() - DAY_MS) };
+  const response = await sendMessage();
+  assert.equal(response.status, 403);
+  assert.equal((await response.json()).response, 'Chatbot unavailable');
+});
+
+async function run() {
+  console.log('Widget chat checks\n');
+  let passed = 0;
+
+  for (const { name, fn } of checks) {
+    try {
+      await fn();
+      passed++;
+      console.log(`  ✓ ${name}`);
+    } catch (error: any) {
+      console.log(`  ✗ ${name}\n    ${error.message}`);
+    }
+  }
+
+  server.close();
+  console.log(`\n${passed}/${checks.length} checks passed`);
+  process.exit(passed < checks.length ? 1 : 0);
+}
+
+run();
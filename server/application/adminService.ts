@@ -1,4 +1,4 @@
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
 
 export class AdminService {
   /**
@@ -0,0 +1,118 @@
+import { createHash, randomBytes } from "crypto";
+import { nanoid } from "nanoid";
+import { storage } from "../storage.js";
+import type { ApiKey, ApiKeySummary, ApiKeyUsage, CreateApiKey } from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Marks the string as an Automiqa API key, e.g. in secret scanners
+const KEY_PREFIX = 'aqk_';
+// Characters of the key kept in clear to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+// Request log kept per key
+export const API_KEY_USAGE_DAYS = 30;
+// Keys a client can have that are not revoked
+const MAX_ACTIVE_KEYS = 20;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function summarize(apiKey: ApiKey): ApiKeySummary {
+  const { keyHash: _keyHash, ...summary } = apiKey;
+  return summary;
+}
+
+/**
+ * API Key Service
+ * Keys clients create for the public REST API. Only a hash is stored; the key itself is returned once,
+ * when it is created.
+ */
+export class ApiKeyService {
+  /**
+   * Create a key; the returned key is not stored and cannot be shown again
+   */
+  async createKey(clientId: string, data: CreateApiKey): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const existing = await storage.getApiKeysByClientId(clientId);
+    if (existing.filter(apiKey => !apiKey.revokedAt).length >= MAX_ACTIVE_KEYS) {
+      throw new Error(`API key limit reached (${MAX_ACTIVE_KEYS} active keys)`);
+    }
+
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const apiKey = await storage.createApiKey({
+      id: nanoid(),
+      clientId,
+      name: data.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      scopes: [...new Set(data.scopes)],
+      expiresAt: data.expiresAt || null,
+    });
+
+    return { apiKey: summarize(apiKey), key };
+  }
+
+  async getKeys(clientId: string): Promise<ApiKeySummary[]> {
+    const keys = await storage.getApiKeysByClientId(clientId);
+    return keys.map(summarize);
+  }
+
+  /**
+   * Revoke a key; requests made with it are refused from now on
+   */
+  async revokeKey(clientId: string, id: string): Promise<ApiKeySummary> {
+    const revoked = await storage.revokeApiKey(id, clientId);
+    if (!revoked) {
+      throw new Error("API key not found");
+    }
+    return summarize(revoked);
+  }
+
+  /**
+   * Latest requests made with one of the client's keys
+   */
+  async getUsage(clientId: string, id: string, limit = 100): Promise<ApiKeyUsage[]> {
+    const keys = await storage.getApiKeysByClientId(clientId);
+    if (!keys.some(apiKey => apiKey.id === id)) {
+      throw new Error("API key not found");
+    }
+    return storage.getApiKeyUsage(id, limit);
+  }
+
+  /**
+   * The key a request was made with; throws when it is unknown, revoked, expired or its client is not active
+   */
+  async authenticate(key: string): Promise<ApiKey> {
+    const apiKey = key.startsWith(KEY_PREFIX) ? await storage.getApiKeyByHash(hashKey(key)) : undefined;
+    if (!apiKey) {
+      throw new Error("Invalid API key");
+    }
+    if (apiKey.revokedAt) {
+      throw new Error("API key has been revoked");
+    }
+    if (apiKey.expiresAt && parseUtc(apiKey.expiresAt) <= Date.now()) {
+      throw new Error("API key has expired");
+    }
+
+    const client = await storage.getClient(apiKey.clientId);
+    if (!client || client.status !== 'active') {
+      throw new Error("Client account is not active");
+    }
+
+    return apiKey;
+  }
+
+  async recordUsage(usage: Omit<ApiKeyUsage, 'id' | 'createdAt'>): Promise<void> {
+    await storage.recordApiKeyUsage(usage);
+  }
+
+  /**
+   * Drop request log entries older than API_KEY_USAGE_DAYS
+   */
+  async deleteOldUsage(): Promise<{ deleted: number }> {
+    const deleted = await storage.deleteApiKeyUsage(new Date(Date.now() - API_KEY_USAGE_DAYS * DAY_MS));
+    return { deleted };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
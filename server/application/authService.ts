@@ -1,5 +1,5 @@
 import bcrypt from "bcrypt";
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
 
 export class AuthService {
   /**
@@ -0,0 +1,219 @@
+import { nanoid } from "nanoid";
+import { storage } from "../storage.js";
+import { simpleChatService } from "../services/simple-chat.js";
+import {
+  chatbotConfigSchema,
+  type Chatbot,
+  type ChatbotConfigHistory,
+  type ChatbotConfigVersion,
+  type ConfigChange,
+  type ConfigVersionAction,
+} from "../shared/schema.js";
+
+// Versions listed per chatbot, newest first
+const VERSION_HISTORY_LIMIT = 50;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Changed settings between two configs, by dotted path. Objects are compared key by key; arrays and
+ * other values as a whole. A setting set to undefined counts as missing (it is dropped from the JSON).
+ */
+function diffConfigs(before: unknown, after: unknown, path = ''): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.flatMap(key => diffConfigs(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+  const change: ConfigChange = { path: path || '(config)' };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  return [change];
+}
+
+type ConfigUpdate = (config: Record<string, any>) => Record<string, any>;
+
+interface NewVersion {
+  config: Record<string, any>;
+  replaces?: Record<string, any>; // Config the diff is taken against; the previous version's by default
+  action: ConfigVersionAction;
+  note?: string | null;
+  author: string | null;
+  publish: boolean;
+}
+
+/**
+ * Chatbot Config Service
+ * Every change to a chatbot's config is stored as an immutable version with its author and diff.
+ * Edits from the admin form are saved as a draft that the widget does not see until it is published;
+ * rolling back publishes an earlier version again as a new version. chatbots.config stays the live
+ * config the widget reads.
+ */
+export class ChatbotConfigService {
+  private async getExistingChatbot(chatbotId: string): Promise<Chatbot> {
+    const chatbot = await storage.getChatbot(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+    return chatbot;
+  }
+
+  /**
+   * The newest version; chatbots configured before versioning get their live config as version 1
+   */
+  private async getLatestVersion(chatbot: Chatbot): Promise<ChatbotConfigVersion> {
+    const latest = await storage.getLatestChatbotConfigVersion(chatbot.id);
+    if (latest) return latest;
+
+    return this.recordBaseline(chatbot, "Config before versioning");
+  }
+
+  private async addVersion(chatbotId: string, previous: ChatbotConfigVersion | undefined, version: NewVersion) {
+    return storage.createChatbotConfigVersion({
+      id: nanoid(),
+      chatbotId,
+      version: (previous?.version ?? 0) + 1,
+      config: version.config,
+      diff: diffConfigs(version.replaces ?? previous?.config ?? {}, version.config),
+      action: version.action,
+      note: version.note ?? null,
+      author: version.author,
+      publishedAt: version.publish ? new Date() : null,
+      publishedBy: version.publish ? version.author : null,
+    });
+  }
+
+  /**
+   * Record a chatbot's current config as its first, published version
+   */
+  async recordBaseline(chatbot: Chatbot, note: string, author: string | null = null): Promise<ChatbotConfigVersion> {
+    return this.addVersion(chatbot.id, undefined, {
+      config: (chatbot.config || {}) as Record<string, any>,
+      action: 'baseline',
+      note,
+      author,
+      publish: true,
+    });
+  }
+
+  async getHistory(chatbotId: string): Promise<ChatbotConfigHistory> {
+    await this.getExistingChatbot(chatbotId);
+
+    const [versions, live] = await Promise.all([
+      storage.getChatbotConfigVersions(chatbotId, VERSION_HISTORY_LIMIT),
+      storage.getLatestChatbotConfigVersion(chatbotId, true),
+    ]);
+    const draft = versions[0] && !versions[0].publishedAt ? versions[0] : null;
+    return { liveVersion: live?.version ?? null, draft, versions };
+  }
+
+  /**
+   * The config being edited: the draft, or the live config when there is no draft
+   */
+  private async getDraftConfig(chatbot: Chatbot): Promise<Record<string, any>> {
+    const latest = await storage.getLatestChatbotConfigVersion(chatbot.id);
+    return latest && !latest.publishedAt ? latest.config : (chatbot.config || {}) as Record<string, any>;
+  }
+
+  /**
+   * Save an edited config as the draft; the live config is unchanged until the draft is published.
+   * Saving the same config again adds no version.
+   */
+  async saveDraft(chatbotId: string, config: Record<string, any>, author: string | null): Promise<ChatbotConfigVersion> {
+    const chatbot = await this.getExistingChatbot(chatbotId);
+    const latest = await this.getLatestVersion(chatbot);
+    if (diffConfigs(latest.config, config).length === 0) {
+      return latest;
+    }
+
+    const draft = await this.addVersion(chatbotId, latest, { config, action: 'draft', author, publish: false });
+    console.log(`[ChatbotConfig] Draft v${draft.version} saved for chatbot ${chatbotId}`);
+    return draft;
+  }
+
+  async publishDraft(chatbotId: string, author: string | null): Promise<ChatbotConfigVersion> {
+    await this.getExistingChatbot(chatbotId);
+    const latest = await storage.getLatestChatbotConfigVersion(chatbotId);
+    if (!latest || latest.publishedAt) {
+      throw new Error("No draft to publish");
+    }
+
+    await storage.updateChatbotConfig(chatbotId, latest.config);
+    const published = await storage.publishChatbotConfigVersion(latest.id, author);
+    console.log(`[ChatbotConfig] Published v${published.version} of chatbot ${chatbotId}`);
+    return published;
+  }
+
+  /**
+   * Make an earlier version live again. It is copied as a new published version, so the history
+   * stays linear; an open draft stays in the history but is no longer the draft.
+   */
+  async rollback(chatbotId: string, versionId: string, author: string | null): Promise<ChatbotConfigVersion> {
+    const chatbot = await this.getExistingChatbot(chatbotId);
+    const target = await storage.getChatbotConfigVersion(versionId);
+    if (!target || target.chatbotId !== chatbotId) {
+      throw new Error("Version not found");
+    }
+
+    const latest = await this.getLatestVersion(chatbot);
+    const version = await this.addVersion(chatbotId, latest, {
+      config: target.config,
+      replaces: (chatbot.config || {}) as Record<string, any>,
+      action: 'rollback',
+      note: `Rolled back to v${target.version}`,
+      author,
+      publish: true,
+    });
+    await storage.updateChatbotConfig(chatbotId, target.config);
+    console.log(`[ChatbotConfig] Chatbot ${chatbotId} rolled back to v${target.version} as v${version.version}`);
+    return version;
+  }
+
+  /**
+   * Apply a change to the live config at once (uploaded logos, FAQ answers, retrieval settings) as a
+   * published version. An open draft gets the same change, so publishing it later keeps the change.
+   * Returns the config being edited after the change: the draft's, or the live one.
+   */
+  async updateLiveConfig(chatbotId: string, update: ConfigUpdate, note: string, author: string | null = null): Promise<Record<string, any>> {
+    const chatbot = await this.getExistingChatbot(chatbotId);
+    const latest = await this.getLatestVersion(chatbot);
+    const draft = latest.publishedAt ? null : latest;
+
+    const live = (chatbot.config || {}) as Record<string, any>;
+    const config = update(live);
+    await storage.updateChatbotConfig(chatbotId, config);
+    const version = await this.addVersion(chatbotId, latest, { config, replaces: live, action: 'update', note, author, publish: true });
+
+    if (!draft) return config;
+
+    const carried = await this.addVersion(chatbotId, version, {
+      config: update(draft.config),
+      action: 'draft',
+      note: `Draft v${draft.version} with: ${note}`,
+      author: draft.author,
+      publish: false,
+    });
+    return carried.config;
+  }
+
+  /**
+   * Answer a message with the draft config, without touching the live widget, analytics or
+   * unanswered questions
+   */
+  async previewDraft(chatbotId: string, message: string) {
+    const chatbot = await this.getExistingChatbot(chatbotId);
+    const config = chatbotConfigSchema.parse(await this.getDraftConfig(chatbot));
+
+    const { message: reply, citations } = await simpleChatService.processMessage(message, config, {
+      chatbotId,
+      clientId: chatbot.clientId,
+      sessionId: `preview_${nanoid()}`,
+      sandbox: true,
+    });
+    return { message: reply, citations };
+  }
+}
+
+export const chatbotConfigService = new ChatbotConfigService();
@@ -1,7 +1,13 @@
-import { supabaseStorage as storage } from "../storage-supabase.js";
-import { insertChatbotSchema } from "../shared/schema.js";
+import { storage } from "../storage.js";
+import { insertChatbotSchema, type AnalyticsGranularity } from "../shared/schema.js";
 import { widgetService } from "../services/widget.js";
 import { supabaseService } from "../services/supabase.js";
+import { analyticsService, MAX_ANALYTICS_DAYS } from "../services/analytics.js";
+import { experimentService } from "../services/experiments.js";
+import { subscriptionService } from "./subscriptionService.js";
+import { chatbotConfigService } from "./chatbotConfigService.js";
+
+const DEFAULT_ANALYTICS_DAYS = 30;
 
 export class ChatbotService {
   /**
@@ -29,15 +35,17 @@ export class ChatbotService {
   /**
    * Create a new chatbot
    */
-  async createChatbot(data: any) {
+  async createChatbot(data: any, author: string | null = null) {
     try {
       const validatedData = insertChatbotSchema.parse(data);
+      await subscriptionService.assertWithinLimit(data.clientId, 'chatbots');
       const widgetUrl = widgetService.generateWidgetUrl();
       
       const chatbot = await storage.createChatbot({
         ...validatedData,
         widgetUrl,
       });
+      await chatbotConfigService.recordBaseline(chatbot, "Chatbot created", author);
 
       return chatbot;
     } catch (error) {
@@ -56,17 +64,6 @@ export class ChatbotService {
     }
   }
 
-  /**
-   * Update chatbot configuration
-   */
-  async updateChatbotConfig(id: string, config: any) {
-    try {
-      return await storage.updateChatbotConfig(id, config);
-    } catch (error) {
-      throw error;
-    }
-  }
-  
   /**
    * Update chatbot details (name and description)
    */
@@ -82,7 +79,7 @@ export class ChatbotService {
   /**
    * Upload logo for chatbot
    */
-  async uploadLogo(chatbotId: string, file: Express.Multer.File) {
+  async uploadLogo(chatbotId: string, file: Express.Multer.File, author: string | null = null) {
     try {
       // Check if chatbot exists
       const chatbot = await storage.getChatbot(chatbotId);
@@ -94,14 +91,13 @@ export class ChatbotService {
       if (!supabaseService.isAvailable()) {
         // Fallback: Store as base64 in the config (not recommended for production)
         const base64Logo = `data:${file.mimetype};base64,${file.buffer.toString('base64')}`;
-        const updatedConfig = {
-          ...(chatbot.config as any || {}),
+        await chatbotConfigService.updateLiveConfig(chatbotId, current => ({
+          ...current,
           branding: {
-            ...((chatbot.config as any)?.branding || {}),
+            ...(current.branding || {}),
             logoUrl: base64Logo,
           },
-        };
-        await storage.updateChatbotConfig(chatbotId, updatedConfig);
+        }), "Logo uploaded", author);
         return { 
           logoUrl: base64Logo,
           warning: "Logo stored as base64. Configure Supabase for better performance.",
@@ -126,15 +122,13 @@ export class ChatbotService {
       );
 
       // Update chatbot config with new logo URL
-      const updatedConfig = {
-        ...(config || {}),
+      await chatbotConfigService.updateLiveConfig(chatbotId, current => ({
+        ...current,
         branding: {
-          ...(config?.branding || {}),
+          ...(current.branding || {}),
           logoUrl,
         },
-      };
-
-      await storage.updateChatbotConfig(chatbotId, updatedConfig);
+      }), "Logo uploaded", author);
 
       return { 
         logoUrl,
@@ -148,7 +142,7 @@ export class ChatbotService {
   /**
    * Delete logo for chatbot
    */
-  async deleteLogo(chatbotId: string) {
+  async deleteLogo(chatbotId: string, author: string | null = null) {
     try {
       // Check if chatbot exists
       const chatbot = await storage.getChatbot(chatbotId);
@@ -172,15 +166,13 @@ export class ChatbotService {
       }
 
       // Update chatbot config to remove logo URL
-      const updatedConfig = {
-        ...(config || {}),
+      await chatbotConfigService.updateLiveConfig(chatbotId, current => ({
+        ...current,
         branding: {
-          ...(config?.branding || {}),
+          ...(current.branding || {}),
           logoUrl: undefined,
         },
-      };
-
-      await storage.updateChatbotConfig(chatbotId, updatedConfig);
+      }), "Logo removed", author);
 
       return { 
         message: "Logo deleted successfully",
@@ -193,7 +185,7 @@ export class ChatbotService {
   /**
    * Upload background image for chatbot
    */
-  async uploadBackgroundImage(chatbotId: string, file: Express.Multer.File) {
+  async uploadBackgroundImage(chatbotId: string, file: Express.Multer.File, author: string | null = null) {
     try {
       // Check if chatbot exists
       const chatbot = await storage.getChatbot(chatbotId);
@@ -224,15 +216,13 @@ export class ChatbotService {
       );
 
       // Update chatbot config with new background image URL
-      const updatedConfig = {
-        ...(config || {}),
+      await chatbotConfigService.updateLiveConfig(chatbotId, current => ({
+        ...current,
         branding: {
-          ...(config?.branding || {}),
+          ...(current.branding || {}),
           backgroundImageUrl,
         },
-      };
-
-      await storage.updateChatbotConfig(chatbotId, updatedConfig);
+      }), "Background image uploaded", author);
 
       return { 
         backgroundImageUrl,
@@ -246,7 +236,7 @@ export class ChatbotService {
   /**
    * Delete background image for chatbot
    */
-  async deleteBackgroundImage(chatbotId: string) {
+  async deleteBackgroundImage(chatbotId: string, author: string | null = null) {
     try {
       // Check if chatbot exists
       const chatbot = await storage.getChatbot(chatbotId);
@@ -270,15 +260,13 @@ export class ChatbotService {
       }
 
       // Update chatbot config to remove background image URL
-      const updatedConfig = {
-        ...(config || {}),
+      await chatbotConfigService.updateLiveConfig(chatbotId, current => ({
+        ...current,
         branding: {
-          ...(config?.branding || {}),
+          ...(current.branding || {}),
           backgroundImageUrl: undefined,
         },
-      };
-
-      await storage.updateChatbotConfig(chatbotId, updatedConfig);
+      }), "Background image removed", author);
 
       return { 
         message: "Background image deleted successfully",
@@ -287,6 +275,46 @@ export class ChatbotService {
       throw error;
     }
   }
+
+  /**
+   * Conversation analytics for a chatbot; defaults to the last 30 days by day
+   */
+  async getChatbotAnalytics(id: string, query: { from?: string; to?: string; granularity?: AnalyticsGranularity }) {
+    try {
+      const chatbot = await storage.getChatbot(id);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const to = query.to || new Date().toISOString().slice(0, 10);
+      const from = query.from || new Date(Date.parse(`${to}T00:00:00Z`) - (DEFAULT_ANALYTICS_DAYS - 1) * 86400000).toISOString().slice(0, 10);
+
+      // Date.parse rolls impossible days (e.g. 02-30) over, so compare the round trip too
+      const parseDay = (date: string) => {
+        const time = Date.parse(`${date}T00:00:00Z`);
+        return !Number.isNaN(time) && new Date(time).toISOString().startsWith(date) ? time : NaN;
+      };
+
+      const days = (parseDay(to) - parseDay(from)) / 86400000 + 1;
+      if (Number.isNaN(days)) {
+        throw new Error("Invalid date range");
+      }
+      if (days < 1) {
+        throw new Error("from must not be after to");
+      }
+      if (days > MAX_ANALYTICS_DAYS) {
+        throw new Error(`Date range cannot exceed ${MAX_ANALYTICS_DAYS} days`);
+      }
+
+      const [report, experiment] = await Promise.all([
+        analyticsService.getChatbotAnalytics(id, from, to, query.granularity || 'day'),
+        experimentService.getReport(id, (chatbot.config as any)?.experiment, from, to),
+      ]);
+      return { ...report, experiment };
+    } catch (error) {
+      throw error;
+    }
+  }
 }
 
 export const chatbotService = new ChatbotService();
\ No newline at end of file
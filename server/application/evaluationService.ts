@@ -0,0 +1,218 @@
+import { nanoid } from "nanoid";
+import { storage } from "../storage.js";
+import { jobQueue, JOB_TYPES } from "../services/job-queue.js";
+import { evaluationService } from "../services/evaluation.js";
+import {
+  chatbotConfigSchema,
+  type EvalCase,
+  type EvalCaseInput,
+  type EvalCaseResult,
+  type EvalRun,
+  type EvalRunRequest,
+  type EvalSet,
+  type EvalSetInput,
+} from "../shared/schema.js";
+
+// Runs listed per golden set, newest first
+const RUN_HISTORY_LIMIT = 20;
+
+/**
+ * Evaluation Application Service
+ * Golden question sets per chatbot, and runs of a set through the chatbot's pipeline in the job worker
+ */
+export class EvaluationApplicationService {
+  private async getChatbotSet(chatbotId: string, setId: string): Promise<EvalSet> {
+    const set = await storage.getEvalSet(setId);
+    if (!set || set.chatbotId !== chatbotId) {
+      throw new Error("Evaluation set not found");
+    }
+    return set;
+  }
+
+  private async getSetCase(setId: string, caseId: string): Promise<EvalCase> {
+    const evalCase = await storage.getEvalCase(caseId);
+    if (!evalCase || evalCase.setId !== setId) {
+      throw new Error("Evaluation case not found");
+    }
+    return evalCase;
+  }
+
+  // Expected documents have to be in the chatbot's knowledge base
+  private async checkDocuments(chatbotId: string, documentIds: string[] | undefined): Promise<void> {
+    if (!documentIds || documentIds.length === 0) return;
+
+    const documents = new Set((await storage.getKBDocuments(chatbotId)).map(document => document.id));
+    if (documentIds.some(id => !documents.has(id))) {
+      throw new Error("Document does not belong to this chatbot");
+    }
+  }
+
+  async getSets(chatbotId: string): Promise<EvalSet[]> {
+    const chatbot = await storage.getChatbot(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+    return storage.getEvalSets(chatbotId);
+  }
+
+  async createSet(chatbotId: string, data: EvalSetInput): Promise<EvalSet> {
+    const chatbot = await storage.getChatbot(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+
+    return storage.createEvalSet({
+      id: nanoid(),
+      chatbotId,
+      name: data.name,
+      description: data.description || null,
+    });
+  }
+
+  async updateSet(chatbotId: string, setId: string, data: Partial<EvalSetInput>): Promise<EvalSet> {
+    await this.getChatbotSet(chatbotId, setId);
+    return storage.updateEvalSet(setId, {
+      name: data.name,
+      description: data.description === undefined ? undefined : data.description || null,
+    });
+  }
+
+  // Deletes the set's cases and runs with it
+  async deleteSet(chatbotId: string, setId: string): Promise<void> {
+    await this.getChatbotSet(chatbotId, setId);
+    await storage.deleteEvalSet(setId);
+  }
+
+  async getCases(chatbotId: string, setId: string): Promise<EvalCase[]> {
+    await this.getChatbotSet(chatbotId, setId);
+    return storage.getEvalCases(setId);
+  }
+
+  async createCase(chatbotId: string, setId: string, data: EvalCaseInput): Promise<EvalCase> {
+    await this.getChatbotSet(chatbotId, setId);
+    await this.checkDocuments(chatbotId, data.expectedDocumentIds);
+
+    return storage.createEvalCase({
+      id: nanoid(),
+      setId,
+      question: data.question,
+      expectedAnswer: data.expectedAnswer || null,
+      expectedDocumentIds: [...new Set(data.expectedDocumentIds)],
+    });
+  }
+
+  async updateCase(chatbotId: string, setId: string, caseId: string, data: Partial<EvalCaseInput>): Promise<EvalCase> {
+    await this.getChatbotSet(chatbotId, setId);
+    await this.getSetCase(setId, caseId);
+    await this.checkDocuments(chatbotId, data.expectedDocumentIds);
+
+    return storage.updateEvalCase(caseId, {
+      question: data.question,
+      expectedAnswer: data.expectedAnswer === undefined ? undefined : data.expectedAnswer || null,
+      expectedDocumentIds: data.expectedDocumentIds && [...new Set(data.expectedDocumentIds)],
+    });
+  }
+
+  async deleteCase(chatbotId: string, setId: string, caseId: string): Promise<void> {
+    await this.getChatbotSet(chatbotId, setId);
+    await this.getSetCase(setId, caseId);
+    await storage.deleteEvalCase(caseId);
+  }
+
+  private async createRun(chatbotId: string, setId: string, request: EvalRunRequest): Promise<EvalRun> {
+    await this.getChatbotSet(chatbotId, setId);
+    const cases = await storage.getEvalCases(setId);
+    if (cases.length === 0) {
+      throw new Error("Evaluation set has no cases");
+    }
+
+    return storage.createEvalRun({
+      id: nanoid(),
+      setId,
+      chatbotId,
+      label: request.label || null,
+      llm: request.llm,
+    });
+  }
+
+  /**
+   * Queue a run of the set; the job worker asks every question and stores the scores on the run
+   */
+  async startRun(chatbotId: string, setId: string, request: EvalRunRequest): Promise<EvalRun> {
+    const run = await this.createRun(chatbotId, setId, request);
+    await jobQueue.enqueue(JOB_TYPES.runEvaluation, { runId: run.id }, { dedupeKey: `${JOB_TYPES.runEvaluation}:${run.id}` });
+    return run;
+  }
+
+  /**
+   * Run the set right away instead of in the job worker (the evaluation script in CI)
+   */
+  async runNow(chatbotId: string, setId: string, request: EvalRunRequest): Promise<EvalRun> {
+    const run = await this.createRun(chatbotId, setId, request);
+    return this.executeRun(run.id);
+  }
+
+  async getRuns(chatbotId: string, setId: string): Promise<EvalRun[]> {
+    await this.getChatbotSet(chatbotId, setId);
+    return storage.getEvalRuns(setId, RUN_HISTORY_LIMIT);
+  }
+
+  async getRun(chatbotId: string, runId: string): Promise<EvalRun> {
+    const run = await storage.getEvalRun(runId);
+    if (!run || run.chatbotId !== chatbotId) {
+      throw new Error("Evaluation run not found");
+    }
+    return run;
+  }
+
+  /**
+   * Ask every question of the run's set, one at a time, and store the scores; a failed run is marked
+   * failed and the error rethrown
+   */
+  async executeRun(runId: string): Promise<EvalRun> {
+    const run = await storage.getEvalRun(runId);
+    if (!run) {
+      throw new Error("Evaluation run not found");
+    }
+
+    try {
+      const chatbot = await storage.getChatbot(run.chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const chatbotConfig = chatbotConfigSchema.parse(chatbot.config);
+      const config = run.llm === 'stub' ? evaluationService.withStubLLM(chatbotConfig) : chatbotConfig;
+      await storage.updateEvalRun(runId, {
+        status: 'running',
+        settings: evaluationService.getRunSettings(config),
+        startedAt: new Date(),
+      });
+
+      const cases = await storage.getEvalCases(run.setId);
+      const results: EvalCaseResult[] = [];
+      for (const evalCase of cases) {
+        results.push(await evaluationService.evaluateCase(evalCase, config, { id: chatbot.id, clientId: chatbot.clientId }));
+      }
+
+      const completed = await storage.updateEvalRun(runId, {
+        status: 'completed',
+        results,
+        summary: evaluationService.summarize(results),
+        completedAt: new Date(),
+      });
+      console.log(`[Evaluation] Run ${runId} of set ${run.setId} completed (${results.length} cases)`);
+      return completed;
+    } catch (error: any) {
+      console.error(`[Evaluation] Run ${runId} failed:`, error);
+      await storage.updateEvalRun(runId, {
+        status: 'failed',
+        error: error.message || String(error),
+        completedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+}
+
+export const evaluationApplicationService = new EvaluationApplicationService();
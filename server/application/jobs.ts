@@ -0,0 +1,121 @@
+import { storage } from "../storage.js";
+import { jobQueue, JOB_TYPES } from "../services/job-queue.js";
+import { notificationService } from "../services/notifications.js";
+import { webhookService } from "../services/webhooks.js";
+import { knowledgeBaseService } from "./knowledgeBaseService.js";
+import { privacyService } from "./privacyService.js";
+import { apiKeyService } from "./apiKeyService.js";
+import { subscriptionService } from "./subscriptionService.js";
+import { evaluationApplicationService } from "./evaluationService.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Completed and failed jobs stay listed this long
+const JOB_HISTORY_DAYS = 7;
+
+let registered = false;
+
+/**
+ * Register the job types with the queue; needed wherever jobs are queued or run
+ */
+export function registerJobs() {
+  if (registered) return;
+  registered = true;
+
+  // Extract, chunk and embed an uploaded knowledge base document
+  jobQueue.register(JOB_TYPES.processDocument, {
+    handler: (payload, job) => knowledgeBaseService.processQueuedDocument(payload.documentId, job.attempts >= job.maxAttempts),
+    concurrency: 2,
+    maxAttempts: 3,
+    backoffSeconds: 30,
+    timeoutSeconds: 30 * 60,
+  });
+
+  // Crawl a website source and sync its pages
+  jobQueue.register(JOB_TYPES.crawlSource, {
+    handler: (payload) => knowledgeBaseService.crawlSource(payload.sourceId),
+    concurrency: 1,
+    maxAttempts: 3,
+    backoffSeconds: 5 * 60,
+    timeoutSeconds: 60 * 60,
+  });
+
+  // POST a webhook event to an endpoint; the last failed attempt marks the delivery failed
+  jobQueue.register(JOB_TYPES.deliverWebhook, {
+    handler: (payload, job) => webhookService.deliver(payload.deliveryId, job.attempts >= job.maxAttempts),
+    concurrency: 4,
+    maxAttempts: 6,
+    backoffSeconds: 60,
+    timeoutSeconds: 60,
+  });
+
+  // Ask a golden set's questions and score the answers; a failed run is kept as failed, not retried
+  jobQueue.register(JOB_TYPES.runEvaluation, {
+    handler: async (payload) => {
+      const run = await evaluationApplicationService.executeRun(payload.runId);
+      return { summary: run.summary };
+    },
+    concurrency: 1,
+    maxAttempts: 1,
+    timeoutSeconds: 60 * 60,
+  });
+
+  // Scheduled sweeps; each runs again at its next interval, so failures are not retried
+  jobQueue.register(JOB_TYPES.crawlDueSources, {
+    handler: () => knowledgeBaseService.crawlDueSources(),
+    maxAttempts: 1,
+    intervalMs: HOUR_MS,
+  });
+
+  jobQueue.register(JOB_TYPES.retentionDue, {
+    handler: () => privacyService.runDueRetention(),
+    maxAttempts: 1,
+    timeoutSeconds: 60 * 60,
+    intervalMs: HOUR_MS,
+  });
+
+  jobQueue.register(JOB_TYPES.expireSubscriptions, {
+    handler: () => subscriptionService.expireDue(),
+    maxAttempts: 1,
+    intervalMs: HOUR_MS,
+  });
+
+  jobQueue.register(JOB_TYPES.processNotifications, {
+    handler: async () => {
+      const { processed, sent, skipped, errors } = await notificationService.processAllNotifications();
+      return { processed, sent, skipped, errors };
+    },
+    maxAttempts: 1,
+    intervalMs: HOUR_MS,
+  });
+
+  jobQueue.register(JOB_TYPES.cleanupJobs, {
+    handler: async () => {
+      const deleted = await storage.deleteFinishedJobs(new Date(Date.now() - JOB_HISTORY_DAYS * 24 * HOUR_MS));
+      return { deleted };
+    },
+    maxAttempts: 1,
+    intervalMs: 24 * HOUR_MS,
+  });
+
+  jobQueue.register(JOB_TYPES.cleanupApiKeyUsage, {
+    handler: () => apiKeyService.deleteOldUsage(),
+    maxAttempts: 1,
+    intervalMs: 24 * HOUR_MS,
+  });
+
+  jobQueue.register(JOB_TYPES.cleanupWebhookDeliveries, {
+    handler: () => webhookService.deleteOldDeliveries(),
+    maxAttempts: 1,
+    intervalMs: 24 * HOUR_MS,
+  });
+
+  // Buckets untouched for a day have refilled; dropping them changes nothing
+  jobQueue.register(JOB_TYPES.cleanupRateLimitBuckets, {
+    handler: async () => {
+      const deleted = await storage.deleteStaleRateLimitBuckets(new Date(Date.now() - 24 * HOUR_MS));
+      return { deleted };
+    },
+    maxAttempts: 1,
+    intervalMs: 24 * HOUR_MS,
+  });
+}
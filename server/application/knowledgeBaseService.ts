@@ -1,10 +1,37 @@
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
 import { kbService, type ChunkingStrategy } from "../services/knowledge-base.js";
 import { supabaseService } from "../services/supabase.js";
 import { openaiService } from "../services/openai.js";
-import { embeddingService, type EmbeddingConfig } from "../services/embedding-service.js";
+import { type EmbeddingConfig } from "../services/embedding-service.js";
+import { getLLMProvider } from "../services/llm-provider.js";
+import { retrievalService } from "../services/retrieval.js";
+import { simpleChatService } from "../services/simple-chat.js";
+import { websiteCrawler, type CrawledPage } from "../services/website-crawler.js";
+import { jobQueue, JOB_TYPES } from "../services/job-queue.js";
+import { subscriptionService } from "./subscriptionService.js";
+import { chatbotConfigService } from "./chatbotConfigService.js";
 import { nanoid } from "nanoid";
-import type { ChatbotConfig } from "../shared/schema.js";
+import {
+  chatbotConfigSchema,
+  type AnswerUnansweredQuestion,
+  type ChatbotConfig,
+  type CreateKBSource,
+  type KBDocument,
+  type KBSearchResult,
+  type KBSource,
+  type RetrievalPlaygroundRequest,
+  type RetrievalPlaygroundResult,
+  type RetrievalSettings,
+} from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
+
+const MAX_FAQS = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Re-crawl interval per knowledgeBase.updateFrequency; manual sources are only crawled on request
+const RECRAWL_INTERVAL_MS: Record<string, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
 
 export class KnowledgeBaseService {
   /**
@@ -26,6 +53,10 @@ export class KnowledgeBaseService {
 
       // Check if document already exists - if so, delete it first (override behavior)
       const existingDoc = await storage.getDocumentByChecksum(chatbotId, checksum);
+      // A replaced document does not count against the plan again
+      if (!existingDoc) {
+        await subscriptionService.assertWithinLimit(chatbot.clientId, 'kbDocuments');
+      }
       if (existingDoc) {
         console.log(`Document with same checksum exists (${existingDoc.id}), deleting old version...`);
         try {
@@ -60,17 +91,8 @@ export class KnowledgeBaseService {
         status: "processing"
       });
 
-      // Get chatbot config for embedding and chunking settings
-      const config = chatbot.config as ChatbotConfig;
-
-      // Process document asynchronously with config-based settings
-      this.processDocumentAsync(
-        document.id,
-        file.buffer,
-        file.mimetype,
-        file.originalname,
-        config
-      );
+      // Extraction and embedding run in the job worker; progress goes to the document record
+      await jobQueue.enqueue(JOB_TYPES.processDocument, { documentId: document.id }, { dedupeKey: `${JOB_TYPES.processDocument}:${document.id}` });
 
       return {
         id: document.id,
@@ -85,8 +107,72 @@ export class KnowledgeBaseService {
   }
 
   /**
-   * Process document asynchronously - extract text, chunk, and create embeddings
-   * Now uses file-type-specific processing and configurable embedding models
+   * Create a small text document and embed it before returning, so it is searchable at once
+   */
+  async createTextDocument(chatbotId: string, filename: string, content: string) {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const buffer = Buffer.from(content, 'utf-8');
+      const storagePath = await supabaseService.uploadKBDocument(chatbotId, buffer, filename, 'text/plain');
+
+      const document = await storage.createKBDocument({
+        id: nanoid(),
+        chatbotId,
+        filename,
+        contentType: 'text/plain',
+        size: buffer.length,
+        storagePath,
+        checksum: kbService.calculateChecksum(buffer),
+        status: "processing"
+      });
+
+      await this.processDocumentAsync(document.id, buffer, 'text/plain', filename, chatbot.config as ChatbotConfig);
+
+      const processed = await storage.getKBDocument(document.id);
+      if (processed?.status === 'error') {
+        throw new Error(`Failed to embed document: ${processed.errorMessage || 'unknown error'}`);
+      }
+      return processed!;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Job handler: process an uploaded document from storage. Chunks of an earlier attempt are dropped
+   * first; the document is marked as failed only when no attempts are left.
+   */
+  async processQueuedDocument(documentId: string, finalAttempt: boolean) {
+    const document = await storage.getKBDocument(documentId);
+    if (!document) {
+      // Deleted while queued
+      return { skipped: true };
+    }
+
+    const chatbot = await storage.getChatbot(document.chatbotId);
+    if (!chatbot) {
+      return { skipped: true };
+    }
+
+    try {
+      const buffer = await supabaseService.downloadKBDocument(document.storagePath);
+      await storage.deleteKBChunks(documentId);
+      await this.embedDocument(documentId, buffer, document.contentType, document.filename, chatbot.config as ChatbotConfig);
+      return { documentId };
+    } catch (error: any) {
+      if (finalAttempt) {
+        await storage.updateKBDocumentStatus(documentId, "error", error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Process a document in place, recording failures on the document instead of throwing
    */
   private async processDocumentAsync(
     documentId: string,
@@ -96,135 +182,149 @@ export class KnowledgeBaseService {
     chatbotConfig?: ChatbotConfig
   ) {
     try {
-      // Get document to update
-      const document = await storage.getKBDocument(documentId);
-      if (!document) {
-        throw new Error("Document not found during processing");
-      }
+      await this.embedDocument(documentId, buffer, contentType, filename, chatbotConfig);
+    } catch (error: any) {
+      console.error(`[KnowledgeBase] Failed to process document ${documentId}:`, error);
 
-      // Extract chunking strategy from config
-      const chunkingStrategy = chatbotConfig?.knowledgeBase?.chunkingStrategy as ChunkingStrategy | undefined;
+      // Update document status to error
+      await storage.updateKBDocumentStatus(documentId, "error", error.message);
+    }
+  }
 
-      // Extract embedding config from chatbot settings
-      const embeddingConfig: EmbeddingConfig = {
-        model: (chatbotConfig?.knowledgeBase?.embeddingModel as any) || "text-embedding-3-large",
-        dimensions: chatbotConfig?.knowledgeBase?.embeddingDimensions || 1536,
-      };
+  /**
+   * Extract text, chunk, and create embeddings
+   * Now uses file-type-specific processing and configurable embedding models
+   */
+  private async embedDocument(
+    documentId: string,
+    buffer: Buffer,
+    contentType: string,
+    filename: string,
+    chatbotConfig?: ChatbotConfig
+  ) {
+    // Get document to update
+    const document = await storage.getKBDocument(documentId);
+    if (!document) {
+      throw new Error("Document not found during processing");
+    }
 
-      console.log(`[KnowledgeBase] Processing ${filename} with:`);
-      console.log(`  - Embedding model: ${embeddingConfig.model}`);
-      console.log(`  - Dimensions: ${embeddingConfig.dimensions}`);
-      console.log(`  - Content type: ${contentType}`);
+    // Extract chunking strategy from config
+    const chunkingStrategy = chatbotConfig?.knowledgeBase?.chunkingStrategy as ChunkingStrategy | undefined;
+
+    // Extract embedding config from chatbot settings
+    const embeddingConfig: EmbeddingConfig = {
+      model: (chatbotConfig?.knowledgeBase?.embeddingModel as any) || "text-embedding-3-large",
+      dimensions: chatbotConfig?.knowledgeBase?.embeddingDimensions || 1536,
+    };
+
+    // Embed with the chatbot's provider so indexing matches chat-time queries
+    const llm = getLLMProvider(chatbotConfig, { chatbotId: document.chatbotId });
+
+    console.log(`[KnowledgeBase] Processing ${filename} with:`);
+    console.log(`  - Embedding model: ${embeddingConfig.model}`);
+    console.log(`  - Dimensions: ${embeddingConfig.dimensions}`);
+    console.log(`  - Content type: ${contentType}`);
+
+    // Use the new file-type-specific document processor
+    const processingResult = await kbService.processDocument(
+      buffer,
+      contentType,
+      filename,
+      chunkingStrategy
+    );
+
+    const chunks = processingResult.chunks;
+    const totalChunks = chunks.length;
+    let processedChunks = 0;
+
+    // Process chunks in batches to avoid overwhelming the database and API
+    const BATCH_SIZE = 5;
+    const DELAY_BETWEEN_BATCHES = 1000;
+
+    console.log(`[KnowledgeBase] Processing ${totalChunks} chunks (${processingResult.fileType}) in batches of ${BATCH_SIZE}...`);
+
+    // Update document with total chunks count
+    await storage.updateKBDocumentProgress(documentId, 0, totalChunks);
+
+    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+      const batch = chunks.slice(i, i + BATCH_SIZE);
+      const batchPromises = batch.map(async (chunk, batchIndex) => {
+        const index = i + batchIndex;
+        let retries = 3;
+
+        while (retries > 0) {
+          try {
+            // Enrich text with context (Filename) to improve retrieval quality
+            const contextText = `[Doc: ${filename}] ${chunk.text}`;
+
+            // Create embedding using the configured model
+            const [embedding] = await llm.embed([contextText], embeddingConfig);
+
+            // Store chunk with embedding and enhanced metadata
+            await storage.createKBChunk({
+              id: nanoid(),
+              documentId,
+              chatbotId: document.chatbotId,
+              chunkIndex: index,
+              text: chunk.text,
+              tokenCount: kbService.countTokens(chunk.text),
+              embedding: embedding,
+              metadata: {
+                filename,
+                contentType,
+                fileType: processingResult.fileType,
+                embeddingModel: embeddingConfig.model,
+                embeddingDimensions: embeddingConfig.dimensions,
+                extractedAt: new Date().toISOString(),
+                // Include chunk-specific metadata from processor
+                ...chunk.metadata,
+              }
+            });
 
-      // Use the new file-type-specific document processor
-      const processingResult = await kbService.processDocument(
-        buffer,
-        contentType,
-        filename,
-        chunkingStrategy
-      );
+            processedChunks++;
 
-      const chunks = processingResult.chunks;
-      const totalChunks = chunks.length;
-      let processedChunks = 0;
-
-      // Process chunks in batches to avoid overwhelming the database and API
-      const BATCH_SIZE = 5;
-      const DELAY_BETWEEN_BATCHES = 1000;
-
-      console.log(`[KnowledgeBase] Processing ${totalChunks} chunks (${processingResult.fileType}) in batches of ${BATCH_SIZE}...`);
-
-      // Update document with total chunks count
-      await storage.updateKBDocumentProgress(documentId, 0, totalChunks);
-
-      for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-        const batch = chunks.slice(i, i + BATCH_SIZE);
-        const batchPromises = batch.map(async (chunk, batchIndex) => {
-          const index = i + batchIndex;
-          let retries = 3;
-
-          while (retries > 0) {
-            try {
-              // Enrich text with context (Filename) to improve retrieval quality
-              const contextText = `[Doc: ${filename}] ${chunk.text}`;
-
-              // Create embedding using the configured model
-              const embedding = await embeddingService.createEmbedding(
-                contextText,
-                embeddingConfig
-              );
-
-              // Store chunk with embedding and enhanced metadata
-              await storage.createKBChunk({
-                id: nanoid(),
-                documentId,
-                chatbotId: document.chatbotId,
-                chunkIndex: index,
-                text: chunk.text,
-                tokenCount: kbService.countTokens(chunk.text),
-                embedding: embedding,
-                metadata: {
-                  filename,
-                  contentType,
-                  fileType: processingResult.fileType,
-                  embeddingModel: embeddingConfig.model,
-                  embeddingDimensions: embeddingConfig.dimensions,
-                  extractedAt: new Date().toISOString(),
-                  // Include chunk-specific metadata from processor
-                  ...chunk.metadata,
-                }
-              });
-
-              processedChunks++;
-
-              // Update progress every batch
-              if (processedChunks % BATCH_SIZE === 0 || processedChunks === totalChunks) {
-                await storage.updateKBDocumentProgress(documentId, processedChunks, totalChunks);
-                console.log(`[KnowledgeBase] Progress: ${processedChunks}/${totalChunks} chunks (${Math.round(processedChunks / totalChunks * 100)}%)`);
-              }
+            // Update progress every batch
+            if (processedChunks % BATCH_SIZE === 0 || processedChunks === totalChunks) {
+              await storage.updateKBDocumentProgress(documentId, processedChunks, totalChunks);
+              console.log(`[KnowledgeBase] Progress: ${processedChunks}/${totalChunks} chunks (${Math.round(processedChunks / totalChunks * 100)}%)`);
+            }
 
-              break; // Success, exit retry loop
-            } catch (error: any) {
-              retries--;
-
-              // Check for rate limit or network errors
-              const isRateLimitError = error.status === 429 || error.status === 403;
-              const isFetchError = error.message?.includes('fetch failed');
-
-              if ((isRateLimitError || isFetchError) && retries > 0) {
-                const waitTime = (4 - retries) * 5000;
-                console.log(`[KnowledgeBase] Rate limit for chunk ${index}, retrying in ${waitTime / 1000}s... (${retries} retries left)`);
-                await new Promise(resolve => setTimeout(resolve, waitTime));
-              } else {
-                console.error(`[KnowledgeBase] Failed to process chunk ${index}:`, error);
-                throw error;
-              }
+            break; // Success, exit retry loop
+          } catch (error: any) {
+            retries--;
+
+            // Check for rate limit or network errors
+            const isRateLimitError = error.status === 429 || error.status === 403;
+            const isFetchError = error.message?.includes('fetch failed');
+
+            if ((isRateLimitError || isFetchError) && retries > 0) {
+              const waitTime = (4 - retries) * 5000;
+              console.log(`[KnowledgeBase] Rate limit for chunk ${index}, retrying in ${waitTime / 1000}s... (${retries} retries left)`);
+              await new Promise(resolve => setTimeout(resolve, waitTime));
+            } else {
+              console.error(`[KnowledgeBase] Failed to process chunk ${index}:`, error);
+              throw error;
             }
           }
-        });
+        }
+      });
 
-        // Wait for current batch to complete before starting next batch
-        await Promise.all(batchPromises);
+      // Wait for current batch to complete before starting next batch
+      await Promise.all(batchPromises);
 
-        // Add delay between batches to avoid rate limits
-        if (i + BATCH_SIZE < chunks.length) {
-          await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_BATCHES));
-        }
+      // Add delay between batches to avoid rate limits
+      if (i + BATCH_SIZE < chunks.length) {
+        await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_BATCHES));
       }
+    }
 
-      console.log(`[KnowledgeBase] Document ${documentId} processed successfully:`);
-      console.log(`  - ${totalChunks} chunks created`);
-      console.log(`  - ~${processingResult.totalTokens} tokens`);
-      console.log(`  - File type: ${processingResult.fileType}`);
-
-      // Update document status to ready
-      await storage.updateKBDocumentStatus(documentId, "ready");
-    } catch (error: any) {
-      console.error(`[KnowledgeBase] Failed to process document ${documentId}:`, error);
+    console.log(`[KnowledgeBase] Document ${documentId} processed successfully:`);
+    console.log(`  - ${totalChunks} chunks created`);
+    console.log(`  - ~${processingResult.totalTokens} tokens`);
+    console.log(`  - File type: ${processingResult.fileType}`);
 
-      // Update document status to error
-      await storage.updateKBDocumentStatus(documentId, "error", error.message);
-    }
+    // Update document status to ready
+    await storage.updateKBDocumentStatus(documentId, "ready");
   }
 
   /**
@@ -296,8 +396,8 @@ export class KnowledgeBaseService {
         throw new Error("Document does not belong to this chatbot");
       }
 
-      // Delete from Supabase storage
-      if (supabaseService.isAvailable()) {
+      // Delete from Supabase storage (crawled pages were never uploaded)
+      if (supabaseService.isAvailable() && !document.sourceId) {
         try {
           await supabaseService.deleteKBDocument(document.storagePath);
         } catch (error) {
@@ -323,19 +423,14 @@ export class KnowledgeBaseService {
     query: string,
     limit = 5,
     embeddingConfig?: EmbeddingConfig
-  ): Promise<Array<{
-    text: string;
-    similarity: number;
-    filename: string;
-    metadata: any;
-  }>> {
+  ): Promise<KBSearchResult[]> {
     try {
       // If no config provided, try to get it from chatbot
       let config = embeddingConfig;
+      const chatbot = await storage.getChatbot(chatbotId);
+      const chatbotConfig = chatbot?.config as ChatbotConfig;
       if (!config) {
-        const chatbot = await storage.getChatbot(chatbotId);
         if (chatbot) {
-          const chatbotConfig = chatbot.config as ChatbotConfig;
           config = {
             model: (chatbotConfig?.knowledgeBase?.embeddingModel as any) || "text-embedding-3-large",
             dimensions: chatbotConfig?.knowledgeBase?.embeddingDimensions || 1536,
@@ -344,10 +439,7 @@ export class KnowledgeBaseService {
       }
 
       // Create embedding for the search query using the same model
-      const queryEmbedding = await embeddingService.createEmbedding(
-        query,
-        config
-      );
+      const [queryEmbedding] = await getLLMProvider(chatbotConfig, { chatbotId }).embed([query], config);
 
       // Search for similar chunks with hybrid search (passing query text)
       const results = await storage.searchKBChunks(chatbotId, queryEmbedding, limit, query);
@@ -359,6 +451,368 @@ export class KnowledgeBaseService {
     }
   }
 
+  /**
+   * Retrieval playground: run a query through the chatbot's retrieval with unsaved settings and
+   * return every step (query variations, search and rerank scores) and the prompt the model would get
+   */
+  async runRetrievalPlayground(chatbotId: string, request: RetrievalPlaygroundRequest): Promise<RetrievalPlaygroundResult> {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const config = chatbotConfigSchema.parse(chatbot.config);
+      const llm = getLLMProvider(config, { chatbotId, clientId: chatbot.clientId });
+      const { trace } = await retrievalService.retrieve(chatbotId, request.query, config, llm, request.settings);
+
+      return {
+        settings: retrievalService.getSettings(config, request.settings),
+        trace,
+        prompt: simpleChatService.buildMessages(request.query, config, { sources: trace.results }),
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Save retrieval settings tuned in the playground to the chatbot config
+   */
+  async saveRetrievalSettings(chatbotId: string, retrieval: RetrievalSettings, author: string | null = null) {
+    try {
+      await chatbotConfigService.updateLiveConfig(chatbotId, config => ({
+        ...config,
+        knowledgeBase: { ...config.knowledgeBase, retrieval },
+      }), "Retrieval settings saved", author);
+
+      console.log(`[KnowledgeBase] Retrieval settings saved for chatbot ${chatbotId}`);
+      return retrieval;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Unanswered questions inbox, most frequent first
+   */
+  async getUnansweredQuestions(chatbotId: string, status = 'open') {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      return await storage.getUnansweredQuestions(chatbotId, status);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Answer an unanswered question as a FAQ entry (chatbot config) or as an embedded KB document
+   */
+  async answerUnansweredQuestion(
+    chatbotId: string,
+    questionId: string,
+    data: AnswerUnansweredQuestion,
+    author: string | null = null
+  ) {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const unanswered = await this.getOpenQuestion(chatbotId, questionId);
+      const config = (chatbot.config || {}) as ChatbotConfig;
+      let faqs = config.knowledgeBase?.faqs;
+      let kbDocumentId: string | null = null;
+
+      if (data.mode === 'faq') {
+        const faq = { question: data.question, answer: data.answer };
+        faqs = [...(faqs || []), faq];
+        if (faqs.length > MAX_FAQS) {
+          throw new Error(`FAQ limit reached (${MAX_FAQS}); answer with a document instead`);
+        }
+        // The FAQs of the draft when there is one, which is what the admin form is editing
+        const edited = await chatbotConfigService.updateLiveConfig(chatbotId, current => ({
+          ...current,
+          knowledgeBase: { ...current.knowledgeBase, faqs: [...(current.knowledgeBase?.faqs || []), faq] },
+        }), "FAQ added from an unanswered question", author);
+        faqs = edited.knowledgeBase.faqs;
+      } else {
+        const title = data.question.replace(/[\\/:*?"<>|\s]+/g, ' ').trim().slice(0, 60);
+        const document = await this.createTextDocument(
+          chatbotId,
+          `FAQ - ${title}.txt`,
+          `Question: ${data.question}\nAnswer: ${data.answer}\n`
+        );
+        kbDocumentId = document.id;
+      }
+
+      const question = await storage.updateUnansweredQuestion(unanswered.id, {
+        status: 'answered',
+        answer: data.answer,
+        answeredVia: data.mode,
+        kbDocumentId,
+        answeredAt: new Date(),
+      });
+
+      console.log(`[KnowledgeBase] Unanswered question ${questionId} answered via ${data.mode}`);
+      return { question, faqs };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Drop an unanswered question from the inbox (noise, off-topic, spam)
+   */
+  async dismissUnansweredQuestion(chatbotId: string, questionId: string) {
+    try {
+      const unanswered = await this.getOpenQuestion(chatbotId, questionId);
+      return await storage.updateUnansweredQuestion(unanswered.id, { status: 'dismissed' });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private async getOpenQuestion(chatbotId: string, questionId: string) {
+    const unanswered = await storage.getUnansweredQuestion(questionId);
+    if (!unanswered || unanswered.chatbotId !== chatbotId) {
+      throw new Error("Question not found");
+    }
+    if (unanswered.status !== 'open') {
+      throw new Error(`Question is already ${unanswered.status}`);
+    }
+    return unanswered;
+  }
+
+  /**
+   * Add a website to crawl into the knowledge base; the first crawl runs in the job worker
+   */
+  async createSource(chatbotId: string, data: CreateKBSource) {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const source = await storage.createKBSource({ ...data, chatbotId });
+      await this.queueCrawl(source.id);
+      return source;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Website sources of a chatbot
+   */
+  async getSources(chatbotId: string) {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      return await storage.getKBSources(chatbotId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Crawl a source again now; only pages whose content changed are re-embedded
+   */
+  async recrawlSource(chatbotId: string, sourceId: string) {
+    try {
+      const chatbot = await storage.getChatbot(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const source = await this.getChatbotSource(chatbotId, sourceId);
+      if (!(await this.queueCrawl(source.id))) {
+        throw new Error("Source is already being crawled");
+      }
+
+      return { ...source, status: 'crawling' };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a source together with its crawled pages
+   */
+  async deleteSource(chatbotId: string, sourceId: string) {
+    try {
+      const source = await this.getChatbotSource(chatbotId, sourceId);
+      await storage.deleteKBSource(source.id);
+      return { success: true };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a crawl of the sources that are due according to their chatbot's knowledgeBase.updateFrequency.
+   * Crawl jobs run one at a time per worker to keep the embedding load steady.
+   */
+  async crawlDueSources(): Promise<{ queued: number }> {
+    const sources = await storage.getKBSources();
+    const configs = new Map<string, ChatbotConfig | undefined>();
+    const now = Date.now();
+    let queued = 0;
+
+    for (const source of sources) {
+      if (!configs.has(source.chatbotId)) {
+        const chatbot = await storage.getChatbot(source.chatbotId);
+        configs.set(source.chatbotId, chatbot?.config as ChatbotConfig | undefined);
+      }
+      const config = configs.get(source.chatbotId);
+      const interval = RECRAWL_INTERVAL_MS[config?.knowledgeBase?.updateFrequency || 'manual'];
+      if (!config || !interval) continue;
+      if (source.lastCrawledAt && now - parseUtc(source.lastCrawledAt) < interval) continue;
+
+      if (await this.queueCrawl(source.id)) queued++;
+    }
+
+    return { queued };
+  }
+
+  /**
+   * Job handler: crawl a source. A failed crawl is stored on the source and thrown, so the job is retried.
+   */
+  async crawlSource(sourceId: string) {
+    const source = await storage.getKBSource(sourceId);
+    if (!source) {
+      // Deleted while queued
+      return { skipped: true };
+    }
+
+    const chatbot = await storage.getChatbot(source.chatbotId);
+    if (!chatbot) {
+      return { skipped: true };
+    }
+
+    const { status, error } = await this.runCrawl(source, chatbot.config as ChatbotConfig);
+    if (status === 'error') {
+      throw new Error(error);
+    }
+    return { sourceId };
+  }
+
+  // Queue a crawl of a source; false when one is already queued or running
+  private async queueCrawl(sourceId: string): Promise<boolean> {
+    const { created } = await jobQueue.enqueue(JOB_TYPES.crawlSource, { sourceId }, { dedupeKey: `${JOB_TYPES.crawlSource}:${sourceId}` });
+    return created;
+  }
+
+  // Crawl a source and sync its pages; never throws, the outcome is stored on the source
+  private async runCrawl(source: KBSource, config: ChatbotConfig): Promise<{ status: 'ready' | 'error'; error?: string }> {
+    try {
+      await storage.updateKBSource(source.id, { status: 'crawling', lastError: null });
+
+      const existing = new Map<string, KBDocument>();
+      for (const doc of await storage.getKBSourceDocuments(source.id)) {
+        existing.set(doc.sourceUrl!, doc);
+      }
+
+      const crawled = new Set<string>();
+      const counts = { created: 0, updated: 0, unchanged: 0, failed: 0 };
+
+      const result = await websiteCrawler.crawl(source.url, source, async (page) => {
+        crawled.add(page.url);
+        try {
+          counts[await this.syncCrawledPage(source, page, existing.get(page.url), config)]++;
+        } catch (error: any) {
+          counts.failed++;
+          console.error(`[KnowledgeBase] Failed to store crawled page ${page.url}:`, error.message);
+        }
+      });
+
+      // Pages that are gone from the site or now fall outside the patterns; a failed fetch keeps the old copy
+      for (const [url, doc] of existing) {
+        if (!crawled.has(url) && !result.failed.includes(url)) {
+          await storage.deleteKBDocument(doc.id);
+        }
+      }
+
+      await storage.updateKBSource(source.id, {
+        status: 'ready',
+        pagesCrawled: result.pages,
+        lastCrawledAt: new Date(),
+      });
+
+      console.log(`[KnowledgeBase] Crawled source ${source.id}: ${counts.created} new, ${counts.updated} changed, ${counts.unchanged} unchanged, ${counts.failed} failed`);
+      return { status: 'ready' };
+    } catch (error: any) {
+      console.error(`[KnowledgeBase] Failed to crawl source ${source.id}:`, error);
+      await storage.updateKBSource(source.id, {
+        status: 'error',
+        lastError: error.message,
+        lastCrawledAt: new Date(),
+      }).catch(updateError => console.error(`[KnowledgeBase] Failed to update source ${source.id}:`, updateError));
+      return { status: 'error', error: error.message };
+    }
+  }
+
+  // Store a crawled page as a document; unchanged pages (same text checksum) keep their embeddings
+  private async syncCrawledPage(
+    source: KBSource,
+    page: CrawledPage,
+    existing: KBDocument | undefined,
+    config: ChatbotConfig
+  ): Promise<'created' | 'updated' | 'unchanged'> {
+    const checksum = kbService.calculateChecksum(Buffer.from(page.text, 'utf-8'));
+    if (existing && existing.checksum === checksum && existing.status === 'ready') {
+      return 'unchanged';
+    }
+
+    const buffer = Buffer.from(page.html, 'utf-8');
+    const filename = page.title.slice(0, 200) || page.url;
+    let documentId: string;
+
+    if (existing) {
+      await storage.deleteKBChunks(existing.id);
+      await storage.updateKBDocumentContent(existing.id, {
+        filename,
+        size: buffer.length,
+        checksum,
+        version: existing.version + 1,
+      });
+      documentId = existing.id;
+    } else {
+      const document = await storage.createKBDocument({
+        id: nanoid(),
+        chatbotId: source.chatbotId,
+        filename,
+        contentType: 'text/html',
+        size: buffer.length,
+        storagePath: page.url,
+        checksum,
+        status: "processing",
+        sourceId: source.id,
+        sourceUrl: page.url,
+      });
+      documentId = document.id;
+    }
+
+    await this.processDocumentAsync(documentId, buffer, 'text/html', filename, config);
+    return existing ? 'updated' : 'created';
+  }
+
+  private async getChatbotSource(chatbotId: string, sourceId: string) {
+    const source = await storage.getKBSource(sourceId);
+    if (!source || source.chatbotId !== chatbotId) {
+      throw new Error("Source not found");
+    }
+    return source;
+  }
+
   /**
    * Get supported file types for knowledge base
    */
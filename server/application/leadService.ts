@@ -1,4 +1,5 @@
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
+import { webhookService } from "../services/webhooks.js";
 
 export class LeadService {
   /**
@@ -32,7 +33,7 @@ export class LeadService {
   /**
    * Update lead status with client validation
    */
-  async updateLeadStatus(leadId: string, status: string, notes: string, clientId: string) {
+  async updateLeadStatus(leadId: string, status: string, notes: string | undefined, clientId: string) {
     try {
       // Verify lead belongs to client
       const leads = await storage.getLeadsByClientId(clientId);
@@ -41,7 +42,11 @@ export class LeadService {
         throw new Error("Forbidden: Lead does not belong to this client");
       }
       
-      return await storage.updateLeadStatus(leadId, status, notes);
+      const updated = await storage.updateLeadStatus(leadId, status, notes);
+      if (updated.status !== lead.status) {
+        await webhookService.leadStatusChanged(updated, lead.status);
+      }
+      return updated;
     } catch (error) {
       throw error;
     }
@@ -1,4 +1,8 @@
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import type Stripe from "stripe";
+import { storage } from "../storage.js";
+import { stripeService } from "../services/stripe.js";
+import { subscriptionService } from "./subscriptionService.js";
+import type { InsertPaymentLog } from "../shared/schema.js";
 
 export class PaymentService {
   /**
@@ -33,68 +37,174 @@ export class PaymentService {
         throw new Error("Payment not found");
       }
 
-      // Mock payment retry (no actual payment processing)
-      const result = { 
-        status: "pending",
-        paymentId: `payment_${Date.now()}`
-      };
-      
-      // Update payment status
-      await storage.updatePaymentStatus(paymentId, result.status);
-      
-      return { message: "Payment retry initiated" };
+      if (!payment.stripeInvoiceId || !stripeService.isConfigured()) {
+        // No Stripe invoice to collect; mark for manual follow-up
+        await storage.updatePaymentStatus(paymentId, "pending");
+        return { message: "Payment retry initiated" };
+      }
+
+      try {
+        const invoice = await stripeService.payInvoice(payment.stripeInvoiceId);
+        const status = invoice.status === "paid" ? "success" : "pending";
+        await storage.updatePaymentStatus(paymentId, status, null);
+        return { message: status === "success" ? "Payment collected" : "Payment retry initiated" };
+      } catch (error: any) {
+        await storage.updatePaymentStatus(paymentId, "failed", error.message);
+        return { message: `Payment retry failed: ${error.message}` };
+      }
     } catch (error) {
       throw error;
     }
   }
 
   /**
-   * Process payment webhook
+   * Verify and process a Stripe webhook delivered with its raw body
    */
-  async processPaymentWebhook(webhookBody: any) {
+  async processPaymentWebhook(rawBody: Buffer | string, signature: string | undefined) {
     try {
-      // Mock webhook event processing (no payment integration)
-      const event = {
-        type: 'payment_completed',
-        data: { 
-          object: { 
-            metadata: { paymentLogId: '' },
-            amount: 0,
-            status: 'completed'
-          }
-        }
-      };
-
-      console.log('Mock payment webhook received:', event.type);
-      
+      const event = stripeService.constructEvent(rawBody, signature);
+
+      // Stripe redelivers events until it gets a 2xx; skip ones already applied
+      if (await storage.isStripeEventProcessed(event.id)) {
+        console.log(`[Stripe] Skipping already processed event ${event.id}`);
+        return { received: true, duplicate: true };
+      }
+
+      console.log(`[Stripe] Webhook received: ${event.type} (${event.id})`);
+
       switch (event.type) {
-        case 'payment_completed':
-          // Handle successful payment
-          if (event.data.object.metadata?.paymentLogId) {
-            await storage.updatePaymentStatus(
-              event.data.object.metadata.paymentLogId, 
-              'success'
-            );
-          }
+        case 'invoice.paid':
+          await this.handleInvoicePaid(event.data.object);
+          break;
+        case 'invoice.payment_failed':
+          await this.handleInvoicePaymentFailed(event.data.object);
           break;
-        case 'payment_failed':
-          // Handle failed payment
-          if (event.data.object.metadata?.paymentLogId) {
-            await storage.updatePaymentStatus(
-              event.data.object.metadata.paymentLogId, 
-              'failed'
-            );
-          }
+        case 'customer.subscription.created':
+        case 'customer.subscription.updated':
+        case 'customer.subscription.deleted':
+        case 'customer.subscription.paused':
+        case 'customer.subscription.resumed':
+          await this.handleSubscriptionChange(event.data.object, event.type === 'customer.subscription.deleted');
           break;
         default:
-          console.log(`Unhandled webhook event type: ${event.type}`);
+          console.log(`[Stripe] Unhandled webhook event type: ${event.type}`);
       }
-      
+
+      await storage.markStripeEventProcessed(event.id, event.type);
       return { received: true };
     } catch (error) {
       throw error;
     }
   }
+
+  /**
+   * Record a successful invoice payment and extend the paid period
+   */
+  private async handleInvoicePaid(invoice: Stripe.Invoice) {
+    const subscription = await this.findSubscriptionForInvoice(invoice);
+    if (!subscription) return;
+
+    const existing = invoice.id ? await storage.getPaymentLogByStripeInvoiceId(invoice.id) : undefined;
+    if (existing) {
+      await storage.updatePaymentStatus(existing.id, 'success', null);
+    } else {
+      await storage.createPaymentLog({
+        clientId: subscription.clientId,
+        subscriptionId: subscription.id,
+        amount: invoice.amount_paid,
+        currency: invoice.currency,
+        status: 'success',
+        stripeInvoiceId: invoice.id,
+      } as InsertPaymentLog);
+    }
+
+    const periodEnd = invoice.lines?.data?.[0]?.period?.end;
+    await subscriptionService.applyProviderUpdate(subscription, 'active', {
+      ...(periodEnd ? { paidUntil: new Date(periodEnd * 1000) } : {}),
+    });
+  }
+
+  /**
+   * Record a failed invoice payment and flag the subscription as payment due
+   */
+  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
+    const subscription = await this.findSubscriptionForInvoice(invoice);
+    if (!subscription) return;
+
+    const failureReason = invoice.last_finalization_error?.message || 'Payment failed';
+    const existing = invoice.id ? await storage.getPaymentLogByStripeInvoiceId(invoice.id) : undefined;
+    if (existing) {
+      await storage.updatePaymentStatus(existing.id, 'failed', failureReason);
+    } else {
+      await storage.createPaymentLog({
+        clientId: subscription.clientId,
+        subscriptionId: subscription.id,
+        amount: invoice.amount_due,
+        currency: invoice.currency,
+        status: 'failed',
+        failureReason,
+        stripeInvoiceId: invoice.id,
+      } as InsertPaymentLog);
+    }
+
+    await subscriptionService.applyProviderUpdate(subscription, 'payment_due');
+  }
+
+  /**
+   * Mirror a Stripe subscription's state onto our subscription row
+   */
+  private async handleSubscriptionChange(stripeSubscription: Stripe.Subscription, deleted: boolean) {
+    const subscription = await this.findSubscription(
+      stripeSubscription.id,
+      stripeSubscription.metadata?.subscriptionId
+    );
+    if (!subscription) return;
+
+    const customerId = typeof stripeSubscription.customer === 'string'
+      ? stripeSubscription.customer
+      : stripeSubscription.customer?.id;
+    const unitAmount = stripeSubscription.items?.data?.[0]?.price?.unit_amount;
+
+    const status = deleted ? 'cancelled' : stripeService.mapSubscriptionStatus(stripeSubscription.status);
+    await subscriptionService.applyProviderUpdate(subscription, status, {
+      stripeSubscriptionId: stripeSubscription.id,
+      stripeCustomerId: customerId || null,
+      ...(stripeSubscription.metadata?.type ? { type: stripeSubscription.metadata.type } : {}),
+      ...(typeof unitAmount === 'number' ? { monthlyAmount: unitAmount } : {}),
+      ...(!deleted && stripeSubscription.current_period_end
+        ? { paidUntil: new Date(stripeSubscription.current_period_end * 1000) }
+        : {}),
+    });
+  }
+
+  /**
+   * Resolve the subscription an invoice belongs to
+   */
+  private async findSubscriptionForInvoice(invoice: Stripe.Invoice) {
+    const stripeSubscriptionId = typeof invoice.subscription === 'string'
+      ? invoice.subscription
+      : invoice.subscription?.id;
+
+    return this.findSubscription(
+      stripeSubscriptionId,
+      invoice.subscription_details?.metadata?.subscriptionId
+    );
+  }
+
+  /**
+   * Look up our subscription by the id stored in Stripe metadata, falling back to the Stripe id
+   */
+  private async findSubscription(stripeSubscriptionId?: string | null, subscriptionId?: string) {
+    let subscription = subscriptionId ? await storage.getSubscription(subscriptionId) : undefined;
+    if (!subscription && stripeSubscriptionId) {
+      subscription = await storage.getSubscriptionByStripeId(stripeSubscriptionId);
+    }
+
+    if (!subscription) {
+      console.warn(`[Stripe] No subscription found for Stripe subscription ${stripeSubscriptionId || 'unknown'}`);
+    }
+    return subscription;
+  }
 }
 
 export const paymentService = new PaymentService();
\ No newline at end of file
@@ -0,0 +1,289 @@
+import { storage } from "../storage.js";
+import { analyticsService } from "../services/analytics.js";
+import { attachmentService } from "../services/attachments.js";
+import type {
+  ChatbotConfig,
+  DataSubjectExport,
+  DataSubjectRequest,
+  PrivacyAction,
+  PrivacyAuditLog,
+  RetentionResult,
+} from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Scheduled retention runs at most once a day per chatbot
+const RETENTION_INTERVAL_MS = DAY_MS;
+// Conversations deleted per statement, to keep id lists short
+const DELETE_BATCH_SIZE = 200;
+
+// UTC calendar date (YYYY-MM-DD) of an instant
+function toDate(instant: number): string {
+  return new Date(instant).toISOString().slice(0, 10);
+}
+
+// Retention period of a chatbot in days, or null unless retention was turned on with a period
+// (gdprCompliant: true and dataRetentionDays set); chatbots without these settings keep all their data
+function getRetentionDays(config: ChatbotConfig | undefined): number | null {
+  const settings = config?.advancedSettings;
+  if (settings?.gdprCompliant !== true || !settings.dataRetentionDays) return null;
+  return settings.dataRetentionDays;
+}
+
+// Audit entries keep enough of the subject to recognise a request, not the value itself
+function maskSubject(request: DataSubjectRequest): string {
+  if (request.email) {
+    const [local, domain] = request.email.split('@');
+    return `${local.charAt(0)}***@${domain}`;
+  }
+  const sessionId = request.sessionId!;
+  return sessionId.length > 8 ? `${sessionId.slice(0, 4)}…${sessionId.slice(-4)}` : '***';
+}
+
+/**
+ * Privacy Service
+ * Enforces advancedSettings.dataRetentionDays where a chatbot opted in, and answers data-subject
+ * requests (export, erasure) for widget visitors. Every run is written to the privacy audit log.
+ */
+export class PrivacyService {
+  // Set while this instance runs scheduled retention
+  private runningDue = false;
+
+  /**
+   * Apply a chatbot's retention period now: conversations (with their messages) inactive for longer
+   * are deleted, and leads captured before it are anonymised
+   */
+  async applyRetention(chatbotId: string, performedBy: string): Promise<RetentionResult> {
+    const chatbot = await storage.getChatbot(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+
+    const retentionDays = getRetentionDays(chatbot.config as ChatbotConfig);
+    if (retentionDays === null) {
+      throw new Error("Data retention is disabled for this chatbot");
+    }
+
+    return this.runRetention(chatbotId, retentionDays, performedBy);
+  }
+
+  /**
+   * Apply retention to every chatbot not processed in the last day; for the scheduler and
+   * external schedulers on serverless deployments
+   */
+  async runDueRetention(): Promise<{ processed: number; failed: number }> {
+    if (this.runningDue) return { processed: 0, failed: 0 };
+    this.runningDue = true;
+
+    let processed = 0;
+    let failed = 0;
+    try {
+      const chatbots = await storage.getChatbotsWithClients();
+      const now = Date.now();
+
+      for (const chatbot of chatbots) {
+        const retentionDays = getRetentionDays(chatbot.config as ChatbotConfig);
+        if (retentionDays === null) continue;
+
+        const [lastRun] = await storage.getPrivacyAuditLogs({ chatbotId: chatbot.id, action: 'retention', limit: 1 });
+        if (lastRun && now - parseUtc(lastRun.createdAt) < RETENTION_INTERVAL_MS) continue;
+
+        try {
+          await this.runRetention(chatbot.id, retentionDays, 'scheduler');
+          processed++;
+        } catch (error) {
+          console.error(`[Privacy] Retention failed for chatbot ${chatbot.id}:`, error);
+          failed++;
+        }
+      }
+    } finally {
+      this.runningDue = false;
+    }
+
+    return { processed, failed };
+  }
+
+  /**
+   * Everything stored about a visitor of a chatbot: their conversations with messages, and their leads
+   */
+  async exportVisitorData(chatbotId: string, request: DataSubjectRequest, performedBy: string): Promise<DataSubjectExport> {
+    await this.requireChatbot(chatbotId);
+
+    try {
+      const { conversations, leads } = await this.findVisitorData(chatbotId, request);
+      const attachments = await storage.getConversationAttachments(conversations.map(conversation => conversation.id));
+      const messageCount = conversations.reduce((sum, conversation) => sum + conversation.messages.length, 0);
+
+      await storage.createPrivacyAuditLog({
+        chatbotId,
+        action: 'export',
+        ...this.describeSubject(request),
+        status: 'completed',
+        conversationsAffected: conversations.length,
+        messagesAffected: messageCount,
+        leadsAffected: leads.length,
+        performedBy,
+      });
+
+      return {
+        chatbotId,
+        subject: request,
+        exportedAt: new Date().toISOString(),
+        conversations,
+        attachments: attachments.map(({ storagePath, ...attachment }) => attachment),
+        leads,
+      };
+    } catch (error) {
+      await this.recordFailure({ chatbotId, action: 'export', ...this.describeSubject(request), performedBy }, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a visitor's conversations (with their messages) and leads
+   */
+  async eraseVisitorData(
+    chatbotId: string,
+    request: DataSubjectRequest,
+    performedBy: string
+  ): Promise<{ conversationsDeleted: number; messagesDeleted: number; leadsDeleted: number }> {
+    await this.requireChatbot(chatbotId);
+
+    try {
+      const { conversations, leads } = await this.findVisitorData(chatbotId, request);
+
+      // Leads first: deleting a conversation only unlinks its leads
+      const conversationIds = conversations.map(conversation => conversation.id);
+      const leadsDeleted = await storage.deleteLeads(leads.map(lead => lead.id));
+      await attachmentService.deleteFiles(conversationIds);
+      const deleted = await storage.deleteConversations(conversationIds);
+
+      await storage.createPrivacyAuditLog({
+        chatbotId,
+        action: 'erasure',
+        ...this.describeSubject(request),
+        status: 'completed',
+        conversationsAffected: deleted.conversations,
+        messagesAffected: deleted.messages,
+        leadsAffected: leadsDeleted,
+        performedBy,
+      });
+
+      return {
+        conversationsDeleted: deleted.conversations,
+        messagesDeleted: deleted.messages,
+        leadsDeleted,
+      };
+    } catch (error) {
+      await this.recordFailure({ chatbotId, action: 'erasure', ...this.describeSubject(request), performedBy }, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Audit log entries, newest first
+   */
+  async getAuditLog(filters: { chatbotId?: string; action?: PrivacyAction; limit?: number }): Promise<PrivacyAuditLog[]> {
+    return storage.getPrivacyAuditLogs(filters);
+  }
+
+  private async runRetention(chatbotId: string, retentionDays: number, performedBy: string): Promise<RetentionResult> {
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+    const details = { retentionDays, cutoff: cutoff.toISOString() };
+
+    try {
+      const expired = await storage.getInactiveConversations(chatbotId, cutoff);
+
+      let conversationsDeleted = 0;
+      let messagesDeleted = 0;
+      if (expired.length > 0) {
+        // Keep the analytics of the affected days: roll them up before their conversations are gone
+        const firstDay = Math.min(...expired.map(conversation => parseUtc(conversation.startedAt)));
+        await analyticsService.freezeRollups(chatbotId, toDate(firstDay), toDate(cutoff.getTime()));
+
+        for (let i = 0; i < expired.length; i += DELETE_BATCH_SIZE) {
+          const batch = expired.slice(i, i + DELETE_BATCH_SIZE).map(conversation => conversation.id);
+          await attachmentService.deleteFiles(batch);
+          const deleted = await storage.deleteConversations(batch);
+          conversationsDeleted += deleted.conversations;
+          messagesDeleted += deleted.messages;
+        }
+      }
+
+      const leadsAnonymized = await storage.anonymizeLeads(chatbotId, cutoff);
+
+      await storage.createPrivacyAuditLog({
+        chatbotId,
+        action: 'retention',
+        status: 'completed',
+        conversationsAffected: conversationsDeleted,
+        messagesAffected: messagesDeleted,
+        leadsAffected: leadsAnonymized,
+        details,
+        performedBy,
+      });
+
+      return {
+        chatbotId,
+        retentionDays,
+        cutoff: details.cutoff,
+        conversationsDeleted,
+        messagesDeleted,
+        leadsAnonymized,
+      };
+    } catch (error) {
+      await this.recordFailure({ chatbotId, action: 'retention', details, performedBy }, error);
+      throw error;
+    }
+  }
+
+  // A visitor is found by widget session, or by the email of their leads and the conversations those came from
+  private async findVisitorData(chatbotId: string, request: DataSubjectRequest) {
+    if (request.sessionId) {
+      const conversations = await storage.getVisitorConversations(chatbotId, { sessionId: request.sessionId });
+      const leads = await storage.getVisitorLeads(chatbotId, {
+        conversationIds: conversations.map(conversation => conversation.id),
+      });
+      return { conversations, leads };
+    }
+
+    const leads = await storage.getVisitorLeads(chatbotId, { email: request.email });
+    const conversationIds = Array.from(new Set(
+      leads.map(lead => lead.conversationId).filter((id): id is string => !!id)
+    ));
+    const conversations = await storage.getVisitorConversations(chatbotId, { conversationIds });
+    return { conversations, leads };
+  }
+
+  private describeSubject(request: DataSubjectRequest): Pick<PrivacyAuditLog, 'subjectType' | 'subject'> {
+    return {
+      subjectType: request.email ? 'email' : 'session',
+      subject: maskSubject(request),
+    };
+  }
+
+  private async requireChatbot(chatbotId: string): Promise<void> {
+    const chatbot = await storage.getChatbot(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+  }
+
+  // Failed runs are audited too; a failing audit write must not hide the original error
+  private async recordFailure(
+    entry: Pick<PrivacyAuditLog, 'action' | 'performedBy'> & Partial<Pick<PrivacyAuditLog, 'chatbotId' | 'subjectType' | 'subject' | 'details'>>,
+    error: unknown
+  ): Promise<void> {
+    try {
+      await storage.createPrivacyAuditLog({
+        ...entry,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } catch (auditError) {
+      console.error(`[Privacy] Failed to audit ${entry.action} failure:`, auditError);
+    }
+  }
+}
+
+export const privacyService = new PrivacyService();
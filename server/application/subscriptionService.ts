@@ -1,5 +1,64 @@
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
+import { stripeService } from "../services/stripe.js";
+import { pluginManagerService } from "../services/plugin-manager.js";
+import { usageMeteringService } from "../services/usage-metering.js";
+import {
+  PLAN_LIMITS,
+  subscriptionStatusEnum,
+  subscriptionTypeEnum,
+  type PlanLimits,
+  type PlanQuota,
+  type PlanUsage,
+  type Subscription,
+  type SubscriptionStatus,
+  type SubscriptionType,
+} from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Paid subscriptions stay usable this long after paidUntil, for renewals that arrive late
+export const PAYMENT_GRACE_DAYS = 3;
+
+/**
+ * Statuses a subscription can move to from each status. Staying in a status (a renewal, a trial
+ * extension, another failed payment) is always allowed.
+ */
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  trial: ['active', 'payment_due', 'expired', 'cancelled'],
+  active: ['payment_due', 'expired', 'cancelled'],
+  payment_due: ['active', 'expired', 'cancelled'],
+  expired: ['trial', 'active', 'cancelled'],
+  cancelled: ['active'],
+};
+
+// Statuses in which chatbots answer visitors; payment_due keeps working while payment is retried
+const SERVING_STATUSES: SubscriptionStatus[] = ['trial', 'active', 'payment_due'];
+
+const QUOTA_LABELS: Record<PlanQuota, (limit: number) => string> = {
+  chatbots: limit => `${limit} ${limit === 1 ? 'chatbot' : 'chatbots'}`,
+  monthlyMessages: limit => `${limit} messages per month`,
+  kbDocuments: limit => `${limit} knowledge base documents`,
+  plugins: limit => `${limit} enabled ${limit === 1 ? 'plugin' : 'plugins'} per chatbot`,
+};
+
+// Adding one more of a quota's items would exceed the client's plan; routes answer with 402
+export class PlanLimitError extends Error {
+  constructor(readonly quota: PlanQuota, message: string) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+}
+
+function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Subscription Service
+ * Owns the subscription lifecycle: every status change goes through the transition table, and trials
+ * and paid periods expire once trialEnd/paidUntil has passed. Each plan carries quotas (PLAN_LIMITS)
+ * checked before chatbots, messages, documents and plugins are added.
+ */
 export class SubscriptionService {
   /**
    * Get subscriptions with clients, optionally filtered by status
@@ -23,48 +82,66 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Whether the lifecycle allows moving from one status to another; a subscription in a status
+   * outside the enum (legacy rows) can move anywhere, so it can be repaired
+   */
+  canTransition(from: string, to: SubscriptionStatus): boolean {
+    const parsed = subscriptionStatusEnum.safeParse(from);
+    return !parsed.success || from === to || SUBSCRIPTION_TRANSITIONS[parsed.data].includes(to);
+  }
+
   /**
    * Convert trial to paid subscription
    */
   async convertTrialToPaid(subscriptionId: string, data: any) {
-    try {
+    const subscription = await this.getTransitionable(subscriptionId, 'active');
+    if (!subscriptionTypeEnum.safeParse(data?.type).success || data.type === 'trial') {
+      throw new Error("Invalid subscription type");
+    }
+
+    // Without Stripe the conversion is recorded directly (manual invoicing)
+    if (!stripeService.isConfigured()) {
       return await storage.convertTrialToPaid(subscriptionId, data);
-    } catch (error) {
-      throw error;
     }
+
+    const client = await storage.getClient(subscription.clientId);
+
+    // The subscription is activated by the customer.subscription.* and invoice.paid webhooks
+    const session = await stripeService.createCheckoutSession({
+      subscriptionId: subscription.id,
+      clientId: subscription.clientId,
+      type: data.type,
+      monthlyAmount: data.monthlyAmount,
+      customerId: subscription.stripeCustomerId,
+      customerEmail: client?.contactEmail,
+    });
+
+    return { checkoutUrl: session.url, sessionId: session.id };
   }
 
   /**
-   * Extend trial period
+   * Extend trial period; an expired trial is reopened
    */
   async extendTrial(subscriptionId: string, days: number = 7) {
-    try {
-      return await storage.extendTrial(subscriptionId, days);
-    } catch (error) {
-      throw error;
-    }
+    await this.getTransitionable(subscriptionId, 'trial');
+    return await storage.extendTrial(subscriptionId, days);
   }
 
   /**
    * Suspend subscription
    */
   async suspendSubscription(subscriptionId: string) {
-    try {
-      return await storage.suspendSubscription(subscriptionId);
-    } catch (error) {
-      throw error;
-    }
+    await this.getTransitionable(subscriptionId, 'cancelled');
+    return await storage.suspendSubscription(subscriptionId);
   }
 
   /**
    * Reactivate subscription
    */
   async reactivateSubscription(subscriptionId: string) {
-    try {
-      return await storage.reactivateSubscription(subscriptionId);
-    } catch (error) {
-      throw error;
-    }
+    await this.getTransitionable(subscriptionId, 'active');
+    return await storage.reactivateSubscription(subscriptionId);
   }
 
   /**
@@ -84,6 +161,157 @@ export class SubscriptionService {
         throw new Error("Invalid action");
     }
   }
+
+  /**
+   * Apply a status reported by the payment provider, with the other fields it reports. A status
+   * the lifecycle does not allow from the current one is ignored (e.g. a late past_due event for a
+   * cancelled subscription); the other fields are still saved.
+   */
+  async applyProviderUpdate(subscription: Subscription, status: SubscriptionStatus, updates: Partial<Subscription> = {}) {
+    if (!this.canTransition(subscription.status, status)) {
+      console.warn(`[Subscriptions] Ignoring ${subscription.status} -> ${status} for subscription ${subscription.id}`);
+      return await storage.updateSubscription(subscription.id, updates);
+    }
+    return await storage.updateSubscription(subscription.id, { ...updates, status });
+  }
+
+  /**
+   * Status taking trialEnd and paidUntil into account, for subscriptions the expiry sweep has not
+   * reached yet
+   */
+  getEffectiveStatus(subscription: Subscription, now = Date.now()): string {
+    const status = subscription.status;
+    if (status === 'trial' && subscription.trialEnd && parseUtc(subscription.trialEnd) < now) {
+      return 'expired';
+    }
+    if ((status === 'active' || status === 'payment_due') && subscription.paidUntil
+      && parseUtc(subscription.paidUntil) + PAYMENT_GRACE_DAYS * DAY_MS < now) {
+      return 'expired';
+    }
+    return status;
+  }
+
+  /**
+   * Expire trials past trialEnd and paid subscriptions past paidUntil (plus the grace period)
+   */
+  async expireDue(): Promise<{ expired: number }> {
+    const now = Date.now();
+    const due = await storage.getSubscriptionsDueForExpiry(new Date(now), new Date(now - PAYMENT_GRACE_DAYS * DAY_MS));
+
+    let expired = 0;
+    for (const subscription of due) {
+      try {
+        await storage.updateSubscription(subscription.id, { status: 'expired' });
+        expired++;
+        console.log(`[Subscriptions] Subscription ${subscription.id} (${subscription.status}) expired`);
+      } catch (error) {
+        console.error(`[Subscriptions] Failed to expire subscription ${subscription.id}:`, error);
+      }
+    }
+    return { expired };
+  }
+
+  /**
+   * The client's current plan; clients without a subscription get the trial plan's limits
+   */
+  async getPlan(clientId: string): Promise<{ subscription?: Subscription; type: SubscriptionType; status: string | null; limits: PlanLimits }> {
+    const subscription = await storage.getSubscriptionByClientId(clientId);
+    const parsedType = subscriptionTypeEnum.safeParse(subscription?.type);
+    const type = parsedType.success ? parsedType.data : 'trial';
+
+    return {
+      subscription,
+      type,
+      status: subscription ? this.getEffectiveStatus(subscription) : null,
+      limits: PLAN_LIMITS[type],
+    };
+  }
+
+  /**
+   * Throw "Chatbot unavailable" unless the client's subscription lets chatbots answer visitors
+   */
+  async assertServing(clientId: string): Promise<void> {
+    const { status } = await this.getPlan(clientId);
+    if (status && !SERVING_STATUSES.includes(status as SubscriptionStatus)) {
+      throw new Error("Chatbot unavailable");
+    }
+  }
+
+  /**
+   * Throw a PlanLimitError ("Plan limit reached: ...") when adding one more of the quota's items would
+   * exceed the client's plan. For plugins, pass the chatbot and, when enabling an existing plugin, its id.
+   */
+  async assertWithinLimit(
+    clientId: string,
+    quota: PlanQuota,
+    options: { chatbotId?: string; pluginId?: string } = {}
+  ): Promise<void> {
+    const { type, limits } = await this.getPlan(clientId);
+    const limit = limits[quota];
+    if (limit === null) return;
+
+    const used = await this.countUsage(clientId, quota, options);
+    if (used >= limit) {
+      throw new PlanLimitError(quota, `Plan limit reached: the ${type} plan includes ${QUOTA_LABELS[quota](limit)}`);
+    }
+  }
+
+  /**
+   * The client's plan, its limits and what has been used, for the client dashboard
+   */
+  async getUsage(clientId: string): Promise<PlanUsage> {
+    const { subscription, type, status, limits } = await this.getPlan(clientId);
+
+    const chatbots = (await storage.getChatbotsWithClients()).filter(chatbot => chatbot.clientId === clientId);
+    const pluginCounts = await Promise.all(chatbots.map(chatbot => this.countUsage(clientId, 'plugins', { chatbotId: chatbot.id })));
+    const [messages, documents, llm] = await Promise.all([
+      this.countUsage(clientId, 'monthlyMessages'),
+      this.countUsage(clientId, 'kbDocuments'),
+      usageMeteringService.getTotals(clientId, startOfMonth(), new Date()),
+    ]);
+
+    return {
+      type,
+      status,
+      trialEnd: subscription?.trialEnd ?? null,
+      paidUntil: subscription?.paidUntil ?? null,
+      limits,
+      usage: {
+        chatbots: chatbots.length,
+        monthlyMessages: messages,
+        kbDocuments: documents,
+        plugins: Math.max(0, ...pluginCounts),
+      },
+      llmTokens: llm.promptTokens + llm.completionTokens,
+    };
+  }
+
+  private async countUsage(clientId: string, quota: PlanQuota, options: { chatbotId?: string; pluginId?: string } = {}): Promise<number> {
+    switch (quota) {
+      case 'chatbots':
+        return storage.countChatbotsByClientId(clientId);
+      case 'monthlyMessages':
+        return storage.countVisitorMessagesByClientId(clientId, startOfMonth());
+      case 'kbDocuments':
+        return storage.countUploadedKBDocumentsByClientId(clientId);
+      case 'plugins': {
+        if (!options.chatbotId) return 0;
+        const enabled = await pluginManagerService.getEnabledPluginsForChatbot(options.chatbotId);
+        return enabled.filter(plugin => plugin.id !== options.pluginId).length;
+      }
+    }
+  }
+
+  private async getTransitionable(subscriptionId: string, to: SubscriptionStatus): Promise<Subscription> {
+    const subscription = await storage.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error("Subscription not found");
+    }
+    if (!this.canTransition(subscription.status, to)) {
+      throw new Error(`Invalid subscription transition: ${subscription.status} -> ${to}`);
+    }
+    return subscription;
+  }
 }
 
-export const subscriptionService = new SubscriptionService();
\ No newline at end of file
+export const subscriptionService = new SubscriptionService();
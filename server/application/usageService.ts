@@ -0,0 +1,125 @@
+import { storage } from "../storage.js";
+import { subscriptionService } from "./subscriptionService.js";
+import type {
+  ClientUsageReport,
+  LLMUsageSummaryRow,
+  LLMUsageTotals,
+  UsageReport,
+} from "../shared/schema.js";
+
+const EMPTY_TOTALS: LLMUsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+
+// Plans that bring in their monthly amount
+const BILLED_STATUSES = ['active', 'payment_due'];
+
+function addTotals(totals: LLMUsageTotals, row: LLMUsageTotals): LLMUsageTotals {
+  return {
+    calls: totals.calls + row.calls,
+    promptTokens: totals.promptTokens + row.promptTokens,
+    completionTokens: totals.completionTokens + row.completionTokens,
+    cost: totals.cost + row.cost,
+  };
+}
+
+// Add up the rows describing the same thing (a chatbot, an operation, a model), most expensive first
+function groupTotals<T extends object>(
+  rows: LLMUsageSummaryRow[],
+  describe: (row: LLMUsageSummaryRow) => T
+): Array<LLMUsageTotals & T> {
+  const groups = new Map<string, LLMUsageTotals & T>();
+  for (const row of rows) {
+    const description = describe(row);
+    const key = JSON.stringify(description);
+    const group = groups.get(key) || { ...EMPTY_TOTALS, ...description };
+    groups.set(key, { ...group, ...addTotals(group, row) });
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * First instant of a UTC month (YYYY-MM) and of the month after it
+ */
+function monthRange(month: string): { from: Date; to: Date } {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) {
+    throw new Error("Invalid month");
+  }
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  return {
+    from: new Date(Date.UTC(year, monthIndex, 1)),
+    to: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+export function currentMonth(now = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Usage Service
+ * Monthly LLM usage per client and chatbot from llm_usage, set against subscription revenue
+ */
+export class UsageService {
+  /**
+   * Usage and margin of every client with metered calls in the month, highest cost first. Revenue is
+   * the client's current subscription amount, so past months show today's plan.
+   */
+  async getMonthlyReport(month: string = currentMonth()): Promise<UsageReport> {
+    const { from, to } = monthRange(month);
+    const rows = await storage.getLLMUsageSummary(from, to);
+
+    const rowsByClient = new Map<string, LLMUsageSummaryRow[]>();
+    for (const row of rows) {
+      rowsByClient.set(row.clientId, [...(rowsByClient.get(row.clientId) || []), row]);
+    }
+
+    const clients = await Promise.all(
+      [...rowsByClient.entries()].map(([clientId, clientRows]) => this.buildClientReport(clientId, clientRows))
+    );
+    clients.sort((a, b) => b.cost - a.cost);
+
+    const totals = clients.reduce(addTotals, EMPTY_TOTALS);
+    const revenue = clients.reduce((sum, client) => sum + client.revenue, 0);
+
+    return {
+      month,
+      totals: { ...totals, revenue, margin: revenue - totals.cost },
+      clients,
+    };
+  }
+
+  /**
+   * One client's usage for a month
+   */
+  async getClientReport(clientId: string, month: string = currentMonth()): Promise<ClientUsageReport> {
+    const { from, to } = monthRange(month);
+    const rows = await storage.getLLMUsageSummary(from, to, clientId);
+    return this.buildClientReport(clientId, rows);
+  }
+
+  private async buildClientReport(clientId: string, rows: LLMUsageSummaryRow[]): Promise<ClientUsageReport> {
+    const { subscription, type, status } = await subscriptionService.getPlan(clientId);
+    const revenue = subscription && type !== 'trial' && status && BILLED_STATUSES.includes(status)
+      ? subscription.monthlyAmount / 100
+      : 0;
+
+    const totals = rows.reduce(addTotals, EMPTY_TOTALS);
+    const clientName = rows[0]?.clientName ?? (await storage.getClient(clientId))?.name ?? null;
+
+    return {
+      clientId,
+      clientName,
+      plan: type,
+      ...totals,
+      revenue,
+      margin: revenue - totals.cost,
+      marginPercent: revenue > 0 ? ((revenue - totals.cost) / revenue) * 100 : null,
+      chatbots: groupTotals(rows, row => ({ chatbotId: row.chatbotId, chatbotName: row.chatbotName })),
+      operations: groupTotals(rows, row => ({ operation: row.operation })),
+      models: groupTotals(rows, row => ({ model: row.model })),
+    };
+  }
+}
+
+export const usageService = new UsageService();
@@ -1,17 +1,86 @@
 import express from "express";
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { randomUUID } from "crypto";
+import { storage } from "../storage.js";
+import { createToken, verifyToken } from "../utils/jwt.js";
 import { widgetService as originalWidgetService } from "../services/widget.js";
 import { openaiService } from "../services/openai.js";
 import { mcpService } from "../services/mcp.js";
+import { webhookService } from "../services/webhooks.js";
 import { langchainAgentService } from "../services/langchain-agent.js";
 import { chatbotConfigSchema } from "../shared/schema.js";
-import type { InsertLead } from "../shared/schema.js";
+import type { InsertLead, MessageCitation } from "../shared/schema.js";
 import { simpleChatService } from "../services/simple-chat.js";
+import { handoffService, HANDOFF_MARKER } from "../services/handoff.js";
+import { analyticsService } from "../services/analytics.js";
+import { attachmentService } from "../services/attachments.js";
+import { experimentService } from "../services/experiments.js";
+import { PlanLimitError, subscriptionService } from "./subscriptionService.js";
 
 interface ChatResponse {
   message: string;
   responseOptions?: any;
   links?: Array<{ title: string, url: string }>;
+  citations?: MessageCitation[];
+}
+
+// Widget session tokens are JWTs of this type, signed with SESSION_SECRET
+const WIDGET_SESSION_TOKEN_TYPE = 'widget_session';
+// advancedSettings.sessionTimeout default, in minutes
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+
+/**
+ * Whether a hostname is one of the allowed domains: "example.com" also covers www.example.com,
+ * "*.example.com" covers example.com and all its subdomains. Entries may include a scheme or path.
+ */
+function matchesAllowedDomain(hostname: string, allowedDomain: string): boolean {
+  const domain = allowedDomain.trim().toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/[/:?#].*$/, '');
+  if (domain.startsWith('*.')) {
+    const base = domain.slice(2);
+    return hostname === base || hostname.endsWith(`.${base}`);
+  }
+  return hostname === domain || hostname === `www.${domain}`;
+}
+
+// Markers the model appends for the server to parse; never streamed to the visitor
+const STREAM_MARKERS = ['__RESPONSE_OPTIONS__', '__LINKS__', '---SUGGESTED_PROMPTS---', HANDOFF_MARKER];
+
+/**
+ * Wrap a token callback so trailing markers are held back while streaming
+ */
+function createMarkerFilter(onToken: (token: string) => void) {
+  let pending = '';
+  let stopped = false;
+
+  return (token: string) => {
+    if (stopped) return;
+    pending += token;
+
+    // Once a marker starts, everything after it is server-side data
+    const markerIndexes = STREAM_MARKERS.map(m => pending.indexOf(m)).filter(i => i !== -1);
+    if (markerIndexes.length > 0) {
+      const markerIndex = Math.min(...markerIndexes);
+      if (markerIndex > 0) onToken(pending.slice(0, markerIndex));
+      pending = '';
+      stopped = true;
+      return;
+    }
+
+    // Keep back a tail that could be the beginning of a marker
+    let holdFrom = pending.length;
+    for (const marker of STREAM_MARKERS) {
+      for (let len = Math.min(marker.length - 1, pending.length); len > 0; len--) {
+        if (pending.endsWith(marker.slice(0, len))) {
+          holdFrom = Math.min(holdFrom, pending.length - len);
+          break;
+        }
+      }
+    }
+
+    if (holdFrom > 0) {
+      onToken(pending.slice(0, holdFrom));
+      pending = pending.slice(holdFrom);
+    }
+  };
 }
 
 export class WidgetApplicationService {
@@ -55,10 +124,11 @@ export class WidgetApplicationService {
       console.log(`WidgetApplicationService: Found chatbot ${chatbot.id} (${chatbot.name})`);
 
       // Check if subscription is active
-      if (chatbot.subscription?.status === "expired" || chatbot.status !== "active") {
-        console.log(`WidgetApplicationService: Chatbot unavailable - status: ${chatbot.status}, subscription: ${chatbot.subscription?.status}`);
+      if (chatbot.status !== "active") {
+        console.log(`WidgetApplicationService: Chatbot unavailable - status: ${chatbot.status}`);
         throw new Error("Chatbot unavailable");
       }
+      await subscriptionService.assertServing(chatbot.clientId || chatbot.client?.id);
 
       // Track widget view
       await storage.trackWidgetView(chatbotId);
@@ -126,11 +196,11 @@ export class WidgetApplicationService {
   }
 
   /**
-   * Capture lead from widget
+   * Capture lead from widget; the lead is linked to the widget session's conversation
    */
-  async captureLead(chatbotId: string, leadData: any) {
+  async captureLead(chatbotId: string, sessionId: string, leadData: any) {
     try {
-      const { name, email, phone, message, conversationId, source } = leadData;
+      const { name, email, phone, message, source } = leadData;
 
       // Validate chatbot exists
       const chatbot = await storage.getChatbot(chatbotId);
@@ -138,6 +208,15 @@ export class WidgetApplicationService {
         throw new Error("Chatbot not found");
       }
 
+      // A pre-chat form is sent before the first message, so the conversation may not exist yet
+      const conversation = await storage.createOrUpdateConversation({
+        sessionId,
+        chatbotId,
+        clientId: chatbot.clientId || (chatbot as any).client_id,
+        variant: this.getSessionVariant(chatbot.config, sessionId),
+      } as any);
+      const conversationId = conversation.id;
+
       // Check if lead already exists for this conversation or email
       const existingLead = await storage.checkExistingLead(chatbotId, conversationId, email);
       if (existingLead) {
@@ -167,6 +246,7 @@ export class WidgetApplicationService {
         source: source || "widget",
         status: "new",
       });
+      await webhookService.leadCreated(lead);
 
       return { lead, isNew: true };
     } catch (error) {
@@ -175,9 +255,104 @@ export class WidgetApplicationService {
   }
 
   /**
-   * Process widget message
+   * Check visitor attachments against the chatbot's upload settings before the message is processed
    */
-  async processMessage(chatbotId: string, message: string, sessionId?: string) {
+  async validateAttachments(chatbotId: string, files: Express.Multer.File[]) {
+    if (files.length === 0) return;
+
+    const chatbot = await storage.getChatbotForWidget(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+
+    attachmentService.validate(files, chatbotConfigSchema.parse(chatbot.config));
+  }
+
+  /**
+   * Start a widget session, or resume the session of a still valid token for the same chatbot and
+   * website (after a page reload) with its messages. The token lasts advancedSettings.sessionTimeout
+   * minutes; the widget renews it by starting the session again with it.
+   */
+  async startSession(chatbotId: string, siteOrigin: string | null, token?: string) {
+    const chatbot = await storage.getChatbotForWidget(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+
+    const timeoutMinutes = (chatbot.config as any)?.advancedSettings?.sessionTimeout || DEFAULT_SESSION_TIMEOUT_MINUTES;
+    const resumedSessionId = token ? this.readSessionToken(token, chatbotId, siteOrigin) : null;
+    const sessionId = resumedSessionId || `session_${randomUUID()}`;
+    const history = resumedSessionId
+      ? await handoffService.getSessionHistory(chatbotId, sessionId)
+      : { status: 'bot' as const, assignedAgent: undefined, messages: [] };
+
+    // The widget shows the welcome message and suggested prompts of the session's A/B test variant
+    let behavior: { welcomeMessage: string; suggestedPrompts: string[] } | undefined;
+    const parsedConfig = chatbotConfigSchema.safeParse(chatbot.config);
+    if (parsedConfig.success) {
+      const recordedVariant = resumedSessionId ? (await storage.getConversationBySession(chatbotId, sessionId))?.variant : null;
+      const variant = experimentService.assignVariant(parsedConfig.data, sessionId, recordedVariant);
+      if (variant) {
+        const { welcomeMessage, suggestedPrompts } = experimentService.applyVariant(parsedConfig.data, variant).behavior;
+        behavior = { welcomeMessage, suggestedPrompts };
+      }
+    }
+
+    return {
+      token: createToken({ typ: WIDGET_SESSION_TOKEN_TYPE, chatbotId, sessionId, origin: siteOrigin }, timeoutMinutes * 60),
+      expiresAt: new Date(Date.now() + timeoutMinutes * 60 * 1000).toISOString(),
+      resumed: !!resumedSessionId,
+      handoffStatus: history.status,
+      assignedAgent: history.assignedAgent,
+      messages: history.messages,
+      behavior,
+    };
+  }
+
+  /**
+   * The session ID of a widget session token issued for this chatbot and website
+   */
+  verifySession(token: string | undefined, chatbotId: string, siteOrigin: string | null): string {
+    const sessionId = token ? this.readSessionToken(token, chatbotId, siteOrigin) : null;
+    if (!sessionId) {
+      throw new Error("Invalid widget session");
+    }
+    return sessionId;
+  }
+
+  /**
+   * Whether the website at siteOrigin may use the chatbot; any website may when
+   * widgetSettings.allowedDomains is empty
+   */
+  async isSiteAllowed(chatbotId: string, siteOrigin: string | null): Promise<boolean> {
+    const chatbot = await storage.getChatbotForWidget(chatbotId);
+    if (!chatbot) {
+      throw new Error("Chatbot not found");
+    }
+
+    const allowedDomains: string[] = (chatbot.config as any)?.widgetSettings?.allowedDomains || [];
+    if (allowedDomains.length === 0) return true;
+
+    let hostname: string;
+    try {
+      hostname = new URL(siteOrigin || '').hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+    return allowedDomains.some(domain => matchesAllowedDomain(hostname, domain));
+  }
+
+  /**
+   * Process widget message, optionally streaming tokens through onToken
+   */
+  async processMessage(
+    chatbotId: string,
+    message: string,
+    sessionId: string,
+    onToken?: (token: string) => void,
+    files: Express.Multer.File[] = []
+  ) {
+    const receivedAt = Date.now();
     try {
       const chatbot = await storage.getChatbotForWidget(chatbotId);
 
@@ -185,18 +360,21 @@ export class WidgetApplicationService {
         throw new Error("Chatbot not found");
       }
 
-      // Check if subscription is active
-      if (chatbot.subscription?.status === "expired" || chatbot.status !== "active") {
+      // Check if subscription is active and the plan has messages left this month
+      if (chatbot.status !== "active") {
         throw new Error("Chatbot unavailable");
       }
+      await subscriptionService.assertServing(chatbot.clientId || chatbot.client?.id);
+      await subscriptionService.assertWithinLimit(chatbot.clientId || chatbot.client?.id, 'monthlyMessages');
 
       // Persist conversation - find or create conversation for this session
       let conversation;
       try {
         conversation = await storage.createOrUpdateConversation({
-          sessionId: sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          sessionId,
           chatbotId: chatbotId,
-          clientId: chatbot.clientId || chatbot.client?.id || 'unknown_client'
+          clientId: chatbot.clientId || chatbot.client?.id || 'unknown_client',
+          variant: this.getSessionVariant(chatbot.config, sessionId),
         });
       } catch (convError: any) {
         console.error(`Conversation persistence error for chatbot ${chatbotId}:`, convError);
@@ -204,38 +382,100 @@ export class WidgetApplicationService {
         conversation = null;
       }
 
-      // Store user message
+      // A message may consist of attachments only
+      if (!message?.trim() && files.length > 0) {
+        message = `Attached: ${files.map(file => file.originalname).join(', ')}`;
+      }
+
+      // Attachments are stored with the conversation, so they cannot be accepted without one
+      let pendingAttachments: Awaited<ReturnType<typeof attachmentService.upload>> = [];
+      if (files.length > 0) {
+        if (!conversation) {
+          throw new Error("Attachments need a conversation");
+        }
+        pendingAttachments = await attachmentService.upload(chatbotId, conversation.id, files);
+      }
+
+      // Store user message, with its attachments
       if (conversation) {
         try {
-          await storage.createMessage({
+          const userMessage = await storage.createMessage({
             conversationId: conversation.id,
             content: message,
-            role: "user"
+            role: "user",
+            ...(pendingAttachments.length > 0 && {
+              metadata: { attachments: pendingAttachments.map(attachment => attachmentService.describe(attachment)) }
+            })
           });
+          if (pendingAttachments.length > 0) {
+            await attachmentService.save(pendingAttachments, userMessage.id);
+          }
         } catch (msgError: any) {
           console.error(`User message persistence error for conversation ${conversation.id}:`, msgError);
           // Continue processing - don't break chat flow
         }
       }
 
+      // A staff member is (or will be) replying; the bot stays quiet until handed back
+      if (conversation && handoffService.isBotSuppressed(conversation)) {
+        console.log(`[Widget] Conversation ${conversation.id} is in handoff (${conversation.status}), bot reply suppressed`);
+        return { response: "", responseOptions: undefined, links: undefined, handoffStatus: conversation.status };
+      }
+
+      // A visitor message after staff closed the conversation starts over with the bot
+      if (conversation?.status === 'closed') {
+        try {
+          await storage.updateConversationStatus(conversation.id, { status: 'bot' });
+        } catch (statusError: any) {
+          console.error(`Failed to reopen conversation ${conversation.id}:`, statusError);
+        }
+      }
+
+      // Visitor keywords escalate without asking the model
+      const parsedConfig = chatbotConfigSchema.safeParse(chatbot.config);
+      const triggerKeyword = conversation && parsedConfig.success
+        ? handoffService.matchTriggerKeyword(message, parsedConfig.data)
+        : undefined;
+      if (conversation && triggerKeyword && parsedConfig.success) {
+        return await this.escalate(
+          chatbotId,
+          conversation.id,
+          `Visitor message matched "${triggerKeyword}"`,
+          parsedConfig.data.handoff.waitingMessage
+        );
+      }
+
       // Validate and process message with LangChain agent
       let responseText: string;
+      let citations: MessageCitation[] | undefined;
+      let usedFallbackProcessing = false;
 
       try {
-        // Validate chatbot configuration using Zod schema
-        const validatedConfig = chatbotConfigSchema.parse(chatbot.config);
+        // Validate chatbot configuration using Zod schema, with the behavior of the session's A/B test variant
+        const chatbotConfig = chatbotConfigSchema.parse(chatbot.config);
+        const validatedConfig = experimentService.applyVariant(
+          chatbotConfig,
+          experimentService.assignVariant(chatbotConfig, sessionId, conversation?.variant)
+        );
 
         // Create context for the agent
         const agentContext = {
           clientId: chatbot.clientId || chatbot.client?.id || 'unknown_client',
           chatbotId: chatbotId,
-          sessionId: sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          sessionId,
           conversationId: conversation?.id
         };
 
         // Use simple chat service (bypasses LangChain complexity)
         console.log(`[Widget] Processing message with Simple Chat for chatbot ${chatbotId}`);
-        responseText = await simpleChatService.processMessage(message, validatedConfig, agentContext);
+        const result = await simpleChatService.processMessage(
+          message,
+          validatedConfig,
+          agentContext,
+          onToken ? createMarkerFilter(onToken) : undefined
+        );
+        responseText = result.message;
+        citations = result.citations.length > 0 ? result.citations : undefined;
 
       } catch (configError: any) {
         console.error(`Agent processing error for chatbot ${chatbotId}:`, configError);
@@ -250,8 +490,11 @@ export class WidgetApplicationService {
             systemPrompt: "You are a helpful assistant."
           }
         };
-        const fallbackResponse = await openaiService.processMessage(message, fallbackConfig);
+        const fallbackResponse = await openaiService.processMessage(message, fallbackConfig, {
+          usage: { chatbotId, clientId: chatbot.clientId || chatbot.client?.id },
+        });
         responseText = fallbackResponse.message;
+        usedFallbackProcessing = true;
       }
 
       // Extract response options if present (from simple chat service)
@@ -280,6 +523,14 @@ export class WidgetApplicationService {
         }
       }
 
+      // The bot asked to hand the conversation over
+      let handoffReason: string | undefined;
+      const handoffMatch = responseText.match(new RegExp(`${HANDOFF_MARKER}(.*)`));
+      if (handoffMatch) {
+        handoffReason = handoffMatch[1].trim() || 'Escalated by the assistant';
+        responseText = responseText.slice(0, handoffMatch.index).trim();
+      }
+
       // Fallback: detect response options from the text
       // Only use auto-detection if no explicit options were provided via __RESPONSE_OPTIONS__
       // This prevents duplicates when the AI includes numbered lists in the response
@@ -287,15 +538,16 @@ export class WidgetApplicationService {
         responseOptions = openaiService.detectResponseOptions(responseText);
       }
 
-      const response: ChatResponse = { message: responseText, responseOptions, links };
+      const response: ChatResponse = { message: responseText, responseOptions, links, citations };
 
-      // Store AI response
+      // Store AI response, with its citations so they can be shown again in the transcript
       if (conversation) {
         try {
           await storage.createMessage({
             conversationId: conversation.id,
             content: response.message,
-            role: "assistant"
+            role: "assistant",
+            ...(citations && { metadata: { citations } })
           });
         } catch (msgError: any) {
           console.error(`AI response persistence error for conversation ${conversation.id}:`, msgError);
@@ -307,16 +559,131 @@ export class WidgetApplicationService {
       await storage.trackWidgetInteraction(chatbotId);
       await storage.incrementMessageCount(chatbotId);
 
+      // Reply latency and fallback replies (the model is told to answer with the fallback message verbatim)
+      const fallbackMessage = parsedConfig.success ? parsedConfig.data.behavior.fallbackMessage?.trim() : undefined;
+      analyticsService.record({ chatbotId, conversationId: conversation?.id, type: 'response', value: Date.now() - receivedAt });
+      if (usedFallbackProcessing || (fallbackMessage && response.message.includes(fallbackMessage))) {
+        analyticsService.record({ chatbotId, conversationId: conversation?.id, type: 'fallback' });
+      }
+
+      let handoffStatus: string | undefined;
+      if (handoffReason && conversation && parsedConfig.success && parsedConfig.data.handoff.enabled) {
+        try {
+          const escalated = await handoffService.requestHandoff(conversation.id, handoffReason);
+          handoffStatus = escalated?.status;
+        } catch (handoffError: any) {
+          console.error(`Handoff request error for conversation ${conversation.id}:`, handoffError);
+        }
+      }
+
       return {
         response: response.message,
-        responseOptions: response.responseOptions
+        responseOptions: response.responseOptions,
+        links: response.links,
+        citations: response.citations,
+        handoffStatus
       };
     } catch (error: any) {
+      // The route answers an unavailable chatbot with 403 and a used-up plan with 402
+      if (error instanceof PlanLimitError || error?.message === "Chatbot unavailable") {
+        throw error;
+      }
       console.error(`Widget message processing error for chatbot ${chatbotId}:`, error);
 
       throw new Error("I'm sorry, I'm having trouble processing your request right now. Please try again later.");
     }
   }
+
+  /**
+   * Visitor asked to talk to a person from the widget
+   */
+  async requestHandoff(chatbotId: string, sessionId: string, reason?: string) {
+    try {
+      const chatbot = await storage.getChatbotForWidget(chatbotId);
+      if (!chatbot) {
+        throw new Error("Chatbot not found");
+      }
+
+      const config = chatbotConfigSchema.parse(chatbot.config);
+      if (!config.handoff.enabled || !config.handoff.allowVisitorRequest) {
+        throw new Error("Handoff not available");
+      }
+
+      const conversation = await storage.createOrUpdateConversation({
+        sessionId,
+        chatbotId,
+        clientId: chatbot.clientId || chatbot.client?.id,
+        variant: experimentService.assignVariant(config, sessionId),
+      } as any);
+
+      if (handoffService.isBotSuppressed(conversation)) {
+        return { response: "", responseOptions: undefined, links: undefined, handoffStatus: conversation.status };
+      }
+
+      return await this.escalate(
+        chatbotId,
+        conversation.id,
+        reason || 'Visitor requested a person',
+        config.handoff.waitingMessage
+      );
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Handoff status and staff messages for a widget session
+   */
+  async getHandoffUpdates(chatbotId: string, sessionId: string, after?: string) {
+    try {
+      return await handoffService.getSessionUpdates(chatbotId, sessionId, after);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * The A/B test variant a new conversation of the session is recorded with
+   */
+  private getSessionVariant(config: unknown, sessionId: string): string | null {
+    const parsed = chatbotConfigSchema.safeParse(config);
+    return parsed.success ? experimentService.assignVariant(parsed.data, sessionId) : null;
+  }
+
+  private readSessionToken(token: string, chatbotId: string, siteOrigin: string | null): string | null {
+    const payload = verifyToken(token);
+    if (
+      !payload ||
+      payload.typ !== WIDGET_SESSION_TOKEN_TYPE ||
+      payload.chatbotId !== chatbotId ||
+      payload.origin !== siteOrigin ||
+      typeof payload.sessionId !== 'string'
+    ) {
+      return null;
+    }
+    return payload.sessionId;
+  }
+
+  /**
+   * Escalate and reply to the visitor with the waiting message
+   */
+  private async escalate(chatbotId: string, conversationId: string, reason: string, waitingMessage: string) {
+    const conversation = await handoffService.requestHandoff(conversationId, reason);
+
+    await storage.createMessage({
+      conversationId,
+      content: waitingMessage,
+      role: "assistant"
+    });
+    await storage.trackWidgetInteraction(chatbotId);
+
+    return {
+      response: waitingMessage,
+      responseOptions: undefined,
+      links: undefined,
+      handoffStatus: conversation?.status
+    };
+  }
 }
 
 export const widgetApplicationService = new WidgetApplicationService();
\ No newline at end of file
@@ -12,6 +12,9 @@ config({ path: path.resolve(__dirname, '../.env') });
 // Validate required environment variables
 export function validateEnv() {
   const requiredVars = ['SESSION_SECRET'];
+  if (process.env.STORAGE_BACKEND === 'postgres') {
+    requiredVars.push('DATABASE_URL');
+  }
   
   for (const varName of requiredVars) {
     if (!process.env[varName]) {
@@ -27,9 +30,34 @@ export default {
   port: parseInt(process.env.PORT || '5000', 10),
   sessionSecret: process.env.SESSION_SECRET,
   databaseUrl: process.env.DATABASE_URL,
+  // supabase (default) or postgres: Drizzle over node-postgres, connecting to DATABASE_URL
+  storageBackend: process.env.STORAGE_BACKEND === 'postgres' ? 'postgres' as const : 'supabase' as const,
   openaiApiKey: process.env.OPENAI_API_KEY,
   supabaseUrl: process.env.SUPABASE_URL,
   supabaseAnonKey: process.env.SUPABASE_ANON_KEY,
   supabaseServiceKey: process.env.SUPABASE_SERVICE_KEY,
   baseUrl: process.env.BASE_URL || 'http://localhost:5000',
+  // Requests per minute allowed for each public API key
+  apiRateLimitPerMinute: parseInt(process.env.API_RATE_LIMIT_PER_MINUTE || '120', 10),
+  // Origins of the admin/client app and hosted widget pages: allowed by CORS and always allowed to use a widget
+  appOrigins: (process.env.APP_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000,https://automiqa-chat-bot-ve-3z7o.vercel.app,http://automiqa-chat-bot-ve-3z7o.vercel.app')
+    .split(',').map(origin => origin.trim()).filter(Boolean),
+  // Proxy hops in front of the server (Express "trust proxy"), so req.ip is the visitor's address
+  trustProxy: parseInt(process.env.TRUST_PROXY || '0', 10),
+  // Public widget endpoints: token buckets of `burst` requests, refilled at `perMinute`
+  widgetRateLimits: {
+    ip: { burst: parseInt(process.env.WIDGET_RATE_LIMIT_IP_BURST || '20', 10), perMinute: parseInt(process.env.WIDGET_RATE_LIMIT_IP_PER_MINUTE || '10', 10) },
+    session: { burst: parseInt(process.env.WIDGET_RATE_LIMIT_SESSION_BURST || '10', 10), perMinute: parseInt(process.env.WIDGET_RATE_LIMIT_SESSION_PER_MINUTE || '6', 10) },
+    chatbot: { burst: parseInt(process.env.WIDGET_RATE_LIMIT_CHATBOT_BURST || '200', 10), perMinute: parseInt(process.env.WIDGET_RATE_LIMIT_CHATBOT_PER_MINUTE || '120', 10) },
+    // Handoff polling, every 3 seconds per open widget while a person is involved
+    poll: { burst: parseInt(process.env.WIDGET_RATE_LIMIT_POLL_BURST || '30', 10), perMinute: parseInt(process.env.WIDGET_RATE_LIMIT_POLL_PER_MINUTE || '60', 10) },
+  },
+  // memory (per server instance) or postgres (shared through the rate_limit_buckets table)
+  widgetRateLimitStore: process.env.WIDGET_RATE_LIMIT_STORE === 'postgres' ? 'postgres' as const : 'memory' as const,
+  // Challenge visitors whose IP was rate limited this many times within an hour; 'none' turns challenges off
+  widgetChallenge: process.env.WIDGET_CHALLENGE || 'pow',
+  widgetChallengeThreshold: parseInt(process.env.WIDGET_CHALLENGE_THRESHOLD || '5', 10),
+  widgetChallengeDifficulty: parseInt(process.env.WIDGET_CHALLENGE_DIFFICULTY || '16', 10), // Leading zero bits
+  // Let webhook endpoints on localhost and private networks receive deliveries (local development only)
+  webhookAllowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
 };
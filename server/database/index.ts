@@ -1,9 +1,17 @@
-import { supabase, supabaseAdmin } from './supabase.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase as typedSupabase, supabaseAdmin as typedSupabaseAdmin } from './supabase.js';
 import { nanoid } from 'nanoid';
+import { sql, type SQL } from 'drizzle-orm';
+import config from '../config.js';
+import { getDb } from './postgres.js';
+
+// Table names are only known at runtime here, so the generic service uses the clients untyped
+const supabase = typedSupabase as unknown as SupabaseClient;
+const supabaseAdmin = typedSupabaseAdmin as unknown as SupabaseClient;
 
 // Generic database service with common CRUD operations
 export class DatabaseService<T> {
-  constructor(private tableName: string) {}
+  constructor(protected tableName: string) {}
 
   // Create a new record
   async create(data: any): Promise<T> {
@@ -133,21 +141,118 @@ export class DatabaseService<T> {
   }
 }
 
+// Column values as node-postgres expects them; JSON columns are stored as text
+function toColumnValue(value: any): any {
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+// The same CRUD operations over the Postgres storage backend (STORAGE_BACKEND=postgres)
+export class PostgresDatabaseService<T> extends DatabaseService<T> {
+  private get table(): SQL {
+    return sql.identifier(this.tableName) as unknown as SQL;
+  }
+
+  private assignments(data: Record<string, any>): SQL {
+    return sql.join(
+      Object.entries(data)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => sql`${sql.identifier(key)} = ${toColumnValue(value)}`),
+      sql`, `
+    );
+  }
+
+  private async execute(action: string, statement: SQL): Promise<T[]> {
+    try {
+      const result = await getDb().execute(statement);
+      return result.rows as T[];
+    } catch (error: any) {
+      console.error(`Error ${action} ${this.tableName}:`, error);
+      throw new Error(`Failed to ${action} ${this.tableName}: ${error.message}`);
+    }
+  }
+
+  async create(data: any): Promise<T> {
+    const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+    const columns = sql.join(entries.map(([key]) => sql.identifier(key)), sql`, `);
+    const values = sql.join(entries.map(([, value]) => sql`${toColumnValue(value)}`), sql`, `);
+
+    const [result] = await this.execute('create', sql`insert into ${this.table} (${columns}) values (${values}) returning *`);
+    return result;
+  }
+
+  async getById(id: string): Promise<T | null> {
+    const [result] = await this.execute('fetch', sql`select * from ${this.table} where id = ${id} limit 1`);
+    return result ?? null;
+  }
+
+  async getAll(): Promise<T[]> {
+    return this.execute('fetch', sql`select * from ${this.table}`);
+  }
+
+  async update(id: string, data: Partial<T>): Promise<T> {
+    const [result] = await this.execute('update', sql`update ${this.table} set ${this.assignments(data)} where id = ${id} returning *`);
+    if (!result) {
+      throw new Error(`Failed to update ${this.tableName}: record not found`);
+    }
+    return result;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.execute('delete', sql`delete from ${this.table} where id = ${id}`);
+  }
+
+  async query(filters: Record<string, any>, options: {
+    limit?: number;
+    offset?: number;
+    orderBy?: string;
+    orderDirection?: 'asc' | 'desc';
+  } = {}): Promise<T[]> {
+    const conditions = Object.entries(filters)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => sql`${sql.identifier(key)} = ${toColumnValue(value)}`);
+
+    const statement = sql`select * from ${this.table}`;
+    if (conditions.length > 0) {
+      statement.append(sql` where ${sql.join(conditions, sql` and `)}`);
+    }
+    if (options.orderBy) {
+      const direction = options.orderDirection === 'desc' ? sql`desc` : sql`asc`;
+      statement.append(sql` order by ${sql.identifier(options.orderBy)} ${direction}`);
+    }
+    if (options.limit || options.offset) {
+      statement.append(sql` limit ${options.limit || 10}`);
+    }
+    if (options.offset) {
+      statement.append(sql` offset ${options.offset}`);
+    }
+
+    return this.execute('query', statement);
+  }
+}
+
+function createDatabaseService<T = unknown>(tableName: string): DatabaseService<T> {
+  return config.storageBackend === 'postgres'
+    ? new PostgresDatabaseService<T>(tableName)
+    : new DatabaseService<T>(tableName);
+}
+
 // Export specific database services for each table
-export const adminService = new DatabaseService('admins');
-export const clientService = new DatabaseService('clients');
-export const chatbotService = new DatabaseService('chatbots');
-export const subscriptionService = new DatabaseService('subscriptions');
-export const paymentLogService = new DatabaseService('payment_logs');
-export const widgetAnalyticsService = new DatabaseService('widget_analytics');
-export const appointmentService = new DatabaseService('appointments');
-export const leadService = new DatabaseService('leads');
-export const conversationService = new DatabaseService('conversations');
-export const messageService = new DatabaseService('messages');
-export const kbDocumentService = new DatabaseService('kb_documents');
-export const kbChunkService = new DatabaseService('kb_chunks');
-export const emailSettingsService = new DatabaseService('email_settings');
-export const emailNotificationService = new DatabaseService('email_notifications');
-export const pluginTemplateService = new DatabaseService('plugin_templates');
-export const chatbotPluginService = new DatabaseService('chatbot_plugins');
-export const pluginExecutionLogService = new DatabaseService('plugin_execution_logs');
+export const adminService = createDatabaseService('admins');
+export const clientService = createDatabaseService('clients');
+export const chatbotService = createDatabaseService('chatbots');
+export const subscriptionService = createDatabaseService('subscriptions');
+export const paymentLogService = createDatabaseService('payment_logs');
+export const widgetAnalyticsService = createDatabaseService('widget_analytics');
+export const appointmentService = createDatabaseService('appointments');
+export const leadService = createDatabaseService('leads');
+export const conversationService = createDatabaseService('conversations');
+export const messageService = createDatabaseService('messages');
+export const kbDocumentService = createDatabaseService('kb_documents');
+export const kbChunkService = createDatabaseService('kb_chunks');
+export const emailSettingsService = createDatabaseService('email_settings');
+export const emailNotificationService = createDatabaseService('email_notifications');
+export const pluginTemplateService = createDatabaseService('plugin_templates');
+export const chatbotPluginService = createDatabaseService('chatbot_plugins');
+export const pluginExecutionLogService = createDatabaseService('plugin_execution_logs');
@@ -0,0 +1,494 @@
+// Row mappers shared by the storage backends, so both return records of the same shape.
+// Rows use the database column names (snake_case); the mapped records add camelCase fields.
+import type {
+  ApiKey,
+  ApiKeyUsage,
+  Appointment,
+  CalendarIntegration,
+  ChatbotAnalyticsDaily,
+  ChatbotConfigVersion,
+  Client,
+  Conversation,
+  ConversationAttachment,
+  EvalCase,
+  EvalRun,
+  EvalSet,
+  Job,
+  KBDocument,
+  KBSearchResult,
+  KBScoredSearchResult,
+  KBSource,
+  KBUnansweredQuestion,
+  Lead,
+  LLMUsageSummaryRow,
+  Message,
+  PaymentLog,
+  PrivacyAuditLog,
+  Subscription,
+  VariantOutcomeRow,
+  WebhookDelivery,
+  WebhookEndpoint
+} from '../shared/schema.js';
+
+// Chatbot config is stored as text; older rows may hold it in character index form
+export function parseConfig(config: any): any {
+  if (!config) return {};
+
+  if (typeof config === 'string') {
+    try {
+      return JSON.parse(config);
+    } catch (e) {
+      console.error('Error parsing config string:', e);
+    }
+  } else if (typeof config === 'object' && Object.keys(config).every(key => !isNaN(Number(key)))) {
+    // Handle character index format
+    const configStr = Object.values(config).join('');
+    try {
+      return JSON.parse(configStr);
+    } catch (e) {
+      console.error('Error parsing config from character indices:', e);
+    }
+  }
+
+  return config;
+}
+
+export function mapClient(data: unknown): Client {
+  const row = data as any;
+  return {
+    ...row,
+    contactEmail: row.contact_email,
+    authEmail: row.auth_email,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at,
+  } as Client;
+}
+
+export function mapKBDocument(data: unknown): KBDocument {
+  const row = data as any;
+  return {
+    ...row,
+    chatbotId: row.chatbot_id,
+    contentType: row.content_type,
+    storagePath: row.storage_path,
+    errorMessage: row.error_message,
+    sourceId: row.source_id,
+    sourceUrl: row.source_url,
+    processingProgress: row.processing_progress,
+    processedChunks: row.processed_chunks,
+    totalChunks: row.total_chunks,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  } as KBDocument;
+}
+
+export function mapSubscription(data: unknown): Subscription {
+  const row = data as any;
+  return {
+    ...row,
+    clientId: row.client_id,
+    chatbotId: row.chatbot_id,
+    trialStart: row.trial_start,
+    trialEnd: row.trial_end,
+    paidUntil: row.paid_until,
+    monthlyAmount: row.monthly_amount,
+    stripeCustomerId: row.stripe_customer_id,
+    stripeSubscriptionId: row.stripe_subscription_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  } as Subscription;
+}
+
+export function mapPaymentLog(data: unknown): PaymentLog {
+  const row = data as any;
+  return {
+    ...row,
+    clientId: row.client_id,
+    subscriptionId: row.subscription_id,
+    failureReason: row.failure_reason,
+    stripeInvoiceId: row.stripe_invoice_id,
+    createdAt: row.created_at,
+  } as PaymentLog;
+}
+
+export function mapAppointment(data: unknown): Appointment {
+  const row = data as any;
+  return {
+    ...row,
+    clientId: row.client_id,
+    chatbotId: row.chatbot_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    externalId: row.external_id,
+    createdAt: row.created_at,
+  } as Appointment;
+}
+
+export function mapCalendarIntegration(data: unknown): CalendarIntegration {
+  const row = data as any;
+  return {
+    ...row,
+    clientId: row.client_id,
+    accessTokenEncrypted: row.access_token_encrypted,
+    refreshTokenEncrypted: row.refresh_token_encrypted,
+    tokenExpiresAt: row.token_expires_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  } as CalendarIntegration;
+}
+
+export function mapConversation(data: unknown): Conversation {
+  const row = data as any;
+  return {
+    ...row,
+    clientId: row.client_id,
+    chatbotId: row.chatbot_id,
+    sessionId: row.session_id,
+    startedAt: row.started_at,
+    lastMessageAt: row.last_message_at,
+    summarizedMessageCount: row.summarized_message_count || 0,
+    status: row.status || 'bot',
+    assignedAgent: row.assigned_agent,
+    handoffReason: row.handoff_reason,
+    handoffRequestedAt: row.handoff_requested_at,
+    variant: row.variant ?? null,
+  } as Conversation;
+}
+
+export function mapKBSource(data: unknown): KBSource {
+  const row = data as any;
+  return {
+    id: row.id,
+    chatbotId: row.chatbot_id,
+    type: row.type,
+    url: row.url,
+    includePatterns: row.include_patterns || [],
+    excludePatterns: row.exclude_patterns || [],
+    maxPages: row.max_pages,
+    status: row.status,
+    lastError: row.last_error,
+    pagesCrawled: row.pages_crawled,
+    lastCrawledAt: row.last_crawled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function mapKBSearchResult(data: unknown): KBSearchResult {
+  const row = data as any;
+  return {
+    chunkId: row.chunk_id,
+    documentId: row.document_id,
+    text: row.text,
+    similarity: row.similarity,
+    filename: row.filename,
+    sourceUrl: row.source_url ?? null,
+    metadata: row.metadata || {},
+  };
+}
+
+export function mapKBScoredSearchResult(data: unknown): KBScoredSearchResult {
+  const row = data as any;
+  return {
+    ...mapKBSearchResult(row),
+    vectorRank: row.vector_rank ?? null,
+    keywordScore: row.keyword_score ?? null,
+    keywordRank: row.keyword_rank ?? null,
+    fusedScore: row.fused_score,
+  };
+}
+
+export function mapUnansweredQuestion(data: unknown): KBUnansweredQuestion {
+  const row = data as any;
+  return {
+    id: row.id,
+    chatbotId: row.chatbot_id,
+    question: row.question,
+    examples: row.examples || [],
+    occurrences: row.occurrences,
+    lastReason: row.last_reason,
+    lastConfidence: row.last_confidence,
+    status: row.status,
+    answer: row.answer,
+    answeredVia: row.answered_via,
+    kbDocumentId: row.kb_document_id,
+    firstAskedAt: row.first_asked_at,
+    lastAskedAt: row.last_asked_at,
+    answeredAt: row.answered_at,
+  };
+}
+
+export function mapChatbotAnalyticsDaily(data: unknown): ChatbotAnalyticsDaily {
+  const row = data as any;
+  return {
+    id: row.id,
+    chatbotId: row.chatbot_id,
+    date: row.date,
+    conversationsStarted: row.conversations_started,
+    messagesReceived: row.messages_received,
+    botResponses: row.bot_responses,
+    kbHits: row.kb_hits,
+    kbMisses: row.kb_misses,
+    fallbackResponses: row.fallback_responses,
+    leadsCaptured: row.leads_captured,
+    appointmentsBooked: row.appointments_booked,
+    totalResponseMs: Number(row.total_response_ms),
+    updatedAt: row.updated_at,
+  };
+}
+
+export function mapLead(data: unknown): Lead {
+  const row = data as any;
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    chatbotId: row.chatbot_id,
+    conversationId: row.conversation_id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    message: row.message,
+    notes: row.notes,
+    source: row.source,
+    status: row.status,
+    capturedAt: row.captured_at,
+    updatedAt: row.updated_at,
+    anonymizedAt: row.anonymized_at,
+  };
+}
+
+export function mapMessage(data: unknown): Message {
+  const row = data as any;
+  let metadata = row.metadata;
+  // Stored as text; the Postgres backend parses it already
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      metadata = {};
+    }
+  }
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    metadata: metadata || {},
+    createdAt: row.created_at,
+  };
+}
+
+export function mapPrivacyAuditLog(data: unknown): PrivacyAuditLog {
+  const row = data as any;
+  return {
+    id: row.id,
+    chatbotId: row.chatbot_id,
+    action: row.action,
+    subjectType: row.subject_type,
+    subject: row.subject,
+    status: row.status,
+    conversationsAffected: row.conversations_affected,
+    messagesAffected: row.messages_affected,
+    leadsAffected: row.leads_affected,
+    details: row.details || {},
+    error: row.error,
+    performedBy: row.performed_by,
+    createdAt: row.created_at,
+  };
+}
+
+export function mapConversationAttachment(data: unknown): ConversationAttachment {
+  const row = data as any;
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    messageId: row.message_id,
+    chatbotId: row.chatbot_id,
+    filename: row.filename,
+    contentType: row.content_type,
+    size: row.size,
+    storagePath: row.storage_path,
+    extractedText: row.extracted_text,
+    createdAt: row.created_at,
+  };
+}
+
+export function mapJob(data: unknown): Job {
+  const row = data as any;
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload || {},
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    dedupeKey: row.dedupe_key,
+    lockedBy: row.locked_by,
+    lockedUntil: row.locked_until,
+    lastError: row.last_error,
+    result: row.result,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export function mapApiKey(data: unknown): ApiKey {
+  const row = data as any;
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    prefix: row.prefix,
+    keyHash: row.key_hash,
+    scopes: row.scopes || [],
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function mapApiKeyUsage(data: unknown): ApiKeyUsage {
+  const row = data as any;
+  return {
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    clientId: row.client_id,
+    method: row.method,
+    path: row.path,
+    statusCode: row.status_code,
+    durationMs: row.duration_ms,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at,
+  };
+}
+
+export function mapWebhookEndpoint(data: unknown): WebhookEndpoint {
+  const row = data as any;
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    url: row.url,
+    description: row.description,
+    events: row.events || [],
+    secret: row.secret,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function mapWebhookDelivery(data: unknown): WebhookDelivery {
+  const row = data as any;
+  return {
+    id: row.id,
+    endpointId: row.endpoint_id,
+    clientId: row.client_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    responseBody: row.response_body,
+    error: row.error,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at,
+    lastAttemptAt: row.last_attempt_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+// Rows of summarize_llm_usage; bigint sums come back as strings
+export function mapLLMUsageSummaryRow(data: unknown): LLMUsageSummaryRow {
+  const row = data as any;
+  return {
+    clientId: row.client_id,
+    clientName: row.client_name,
+    chatbotId: row.chatbot_id,
+    chatbotName: row.chatbot_name,
+    operation: row.operation,
+    model: row.model,
+    calls: Number(row.calls),
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+    cost: Number(row.cost),
+  };
+}
+
+// Rows of chatbot_variant_outcomes; bigint counts come back as strings
+export function mapVariantOutcomeRow(data: unknown): VariantOutcomeRow {
+  const row = data as any;
+  return {
+    variant: row.variant,
+    conversations: Number(row.conversations),
+    convertedConversations: Number(row.converted_conversations),
+    handoffs: Number(row.handoffs),
+    messagesReceived: Number(row.messages_received),
+    botResponses: Number(row.bot_responses),
+    fallbackResponses: Number(row.fallback_responses),
+  };
+}
+
+export function mapEvalSet(data: unknown): EvalSet {
+  const row = data as any;
+  return {
+    id: row.id,
+    chatbotId: row.chatbot_id,
+    name: row.name,
+    description: row.description,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function mapEvalCase(data: unknown): EvalCase {
+  const row = data as any;
+  return {
+    id: row.id,
+    setId: row.set_id,
+    question: row.question,
+    expectedAnswer: row.expected_answer,
+    expectedDocumentIds: row.expected_document_ids || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function mapEvalRun(data: unknown): EvalRun {
+  const row = data as any;
+  return {
+    id: row.id,
+    setId: row.set_id,
+    chatbotId: row.chatbot_id,
+    label: row.label,
+    status: row.status,
+    llm: row.llm,
+    settings: row.settings,
+    summary: row.summary,
+    results: row.results || [],
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export function mapChatbotConfigVersion(data: unknown): ChatbotConfigVersion {
+  const row = data as any;
+  return {
+    id: row.id,
+    chatbotId: row.chatbot_id,
+    version: row.version,
+    config: row.config || {},
+    diff: row.diff || [],
+    action: row.action,
+    note: row.note,
+    author: row.author,
+    createdAt: row.created_at,
+    publishedAt: row.published_at,
+    publishedBy: row.published_by,
+  };
+}
@@ -0,0 +1,37 @@
+import pg from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import config from '../config.js';
+import * as schema from '../shared/schema.js';
+
+// Connection pool for the Postgres storage backend (STORAGE_BACKEND=postgres).
+// Created lazily so the Supabase backend never opens a connection.
+let pool: pg.Pool | null = null;
+let database: ReturnType<typeof drizzle<typeof schema>> | null = null;
+
+export function getPool(): pg.Pool {
+  if (!pool) {
+    if (!config.databaseUrl) {
+      throw new Error('DATABASE_URL is required for the Postgres storage backend');
+    }
+    pool = new pg.Pool({ connectionString: config.databaseUrl });
+    pool.on('error', (error) => {
+      console.error('Postgres pool error:', error);
+    });
+  }
+  return pool;
+}
+
+export function getDb() {
+  if (!database) {
+    database = drizzle(getPool(), { schema });
+  }
+  return database;
+}
+
+export async function closePool(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+    database = null;
+  }
+}
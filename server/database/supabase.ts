@@ -7,14 +7,24 @@ const supabaseUrl = config.supabaseUrl || '';
 const supabaseAnonKey = config.supabaseAnonKey || '';
 const supabaseServiceKey = config.supabaseServiceKey || '';
 
+// The Postgres storage backend does not use these clients, so Supabase may be left unconfigured
+const supabaseOptional = config.storageBackend === 'postgres';
+
 if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('Missing Supabase configuration. Please check your environment variables.');
+  if (supabaseOptional) {
+    console.warn('Supabase not configured. Using Postgres storage without Supabase.');
+  } else {
+    console.error('Missing Supabase configuration. Please check your environment variables.');
+  }
 }
 
+// createClient rejects an empty URL; unconfigured clients are never called with the Postgres backend
+const clientUrl = supabaseUrl || (supabaseOptional ? 'http://localhost' : '');
+
 // Create client with anonymous key for public operations
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient<Database>(clientUrl, supabaseAnonKey || (supabaseOptional ? 'unused' : ''));
 
 // Create admin client with service role key for privileged operations
-export const supabaseAdmin = createClient<Database>(supabaseUrl, supabaseServiceKey);
+export const supabaseAdmin = createClient<Database>(clientUrl, supabaseServiceKey || (supabaseOptional ? 'unused' : ''));
 
 export default supabase;
@@ -31,6 +31,7 @@ export interface Database {
           password?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       clients: {
         Row: {
@@ -66,6 +67,7 @@ export interface Database {
           status?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       chatbots: {
         Row: {
@@ -107,6 +109,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       subscriptions: {
         Row: {
@@ -119,6 +122,8 @@ export interface Database {
           trial_end: string | null;
           paid_until: string | null;
           monthly_amount: number;
+          stripe_customer_id: string | null;
+          stripe_subscription_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -132,6 +137,8 @@ export interface Database {
           trial_end?: string | null;
           paid_until?: string | null;
           monthly_amount?: number;
+          stripe_customer_id?: string | null;
+          stripe_subscription_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -145,9 +152,12 @@ export interface Database {
           trial_end?: string | null;
           paid_until?: string | null;
           monthly_amount?: number;
+          stripe_customer_id?: string | null;
+          stripe_subscription_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       payment_logs: {
         Row: {
@@ -158,6 +168,7 @@ export interface Database {
           currency: string;
           status: string;
           failure_reason: string | null;
+          stripe_invoice_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -168,6 +179,7 @@ export interface Database {
           currency?: string;
           status: string;
           failure_reason?: string | null;
+          stripe_invoice_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -178,8 +190,28 @@ export interface Database {
           currency?: string;
           status?: string;
           failure_reason?: string | null;
+          stripe_invoice_id?: string | null;
           created_at?: string;
         };
+        Relationships: [];
+      };
+      stripe_events: {
+        Row: {
+          id: string;
+          type: string;
+          processed_at: string;
+        };
+        Insert: {
+          id: string;
+          type: string;
+          processed_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          processed_at?: string;
+        };
+        Relationships: [];
       };
       widget_analytics: {
         Row: {
@@ -203,6 +235,82 @@ export interface Database {
           interactions?: number;
           date?: string;
         };
+        Relationships: [];
+      };
+      analytics_events: {
+        Row: {
+          id: string;
+          chatbot_id: string;
+          conversation_id: string | null;
+          type: string;
+          value: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          chatbot_id: string;
+          conversation_id?: string | null;
+          type: string;
+          value?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string;
+          conversation_id?: string | null;
+          type?: string;
+          value?: number | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      chatbot_analytics_daily: {
+        Row: {
+          id: string;
+          chatbot_id: string;
+          date: string;
+          conversations_started: number;
+          messages_received: number;
+          bot_responses: number;
+          kb_hits: number;
+          kb_misses: number;
+          fallback_responses: number;
+          leads_captured: number;
+          appointments_booked: number;
+          total_response_ms: number;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          chatbot_id: string;
+          date: string;
+          conversations_started?: number;
+          messages_received?: number;
+          bot_responses?: number;
+          kb_hits?: number;
+          kb_misses?: number;
+          fallback_responses?: number;
+          leads_captured?: number;
+          appointments_booked?: number;
+          total_response_ms?: number;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string;
+          date?: string;
+          conversations_started?: number;
+          messages_received?: number;
+          bot_responses?: number;
+          kb_hits?: number;
+          kb_misses?: number;
+          fallback_responses?: number;
+          leads_captured?: number;
+          appointments_booked?: number;
+          total_response_ms?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       appointments: {
         Row: {
@@ -241,6 +349,43 @@ export interface Database {
           external_id?: string | null;
           created_at?: string;
         };
+        Relationships: [];
+      };
+      calendar_integrations: {
+        Row: {
+          id: string;
+          client_id: string;
+          provider: string;
+          access_token_encrypted: string;
+          refresh_token_encrypted: string | null;
+          token_expires_at: string | null;
+          scope: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          provider?: string;
+          access_token_encrypted: string;
+          refresh_token_encrypted?: string | null;
+          token_expires_at?: string | null;
+          scope?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          client_id?: string;
+          provider?: string;
+          access_token_encrypted?: string;
+          refresh_token_encrypted?: string | null;
+          token_expires_at?: string | null;
+          scope?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       leads: {
         Row: {
@@ -257,6 +402,7 @@ export interface Database {
           status: string;
           captured_at: string;
           updated_at: string;
+          anonymized_at: string | null;
         };
         Insert: {
           id?: string;
@@ -272,6 +418,7 @@ export interface Database {
           status?: string;
           captured_at?: string;
           updated_at?: string;
+          anonymized_at?: string | null;
         };
         Update: {
           id?: string;
@@ -287,7 +434,9 @@ export interface Database {
           status?: string;
           captured_at?: string;
           updated_at?: string;
+          anonymized_at?: string | null;
         };
+        Relationships: [];
       };
       conversations: {
         Row: {
@@ -297,6 +446,12 @@ export interface Database {
           session_id: string;
           started_at: string;
           last_message_at: string;
+          summary: string | null;
+          summarized_message_count: number;
+          status: string;
+          assigned_agent: string | null;
+          handoff_reason: string | null;
+          handoff_requested_at: string | null;
         };
         Insert: {
           id?: string;
@@ -305,6 +460,12 @@ export interface Database {
           session_id: string;
           started_at?: string;
           last_message_at?: string;
+          summary?: string | null;
+          summarized_message_count?: number;
+          status?: string;
+          assigned_agent?: string | null;
+          handoff_reason?: string | null;
+          handoff_requested_at?: string | null;
         };
         Update: {
           id?: string;
@@ -313,7 +474,14 @@ export interface Database {
           session_id?: string;
           started_at?: string;
           last_message_at?: string;
+          summary?: string | null;
+          summarized_message_count?: number;
+          status?: string;
+          assigned_agent?: string | null;
+          handoff_reason?: string | null;
+          handoff_requested_at?: string | null;
         };
+        Relationships: [];
       };
       messages: {
         Row: {
@@ -340,6 +508,55 @@ export interface Database {
           metadata?: Json;
           created_at?: string;
         };
+        Relationships: [];
+      };
+      kb_sources: {
+        Row: {
+          id: string;
+          chatbot_id: string;
+          type: string;
+          url: string;
+          include_patterns: string[];
+          exclude_patterns: string[];
+          max_pages: number;
+          status: string;
+          last_error: string | null;
+          pages_crawled: number;
+          last_crawled_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          chatbot_id: string;
+          type?: string;
+          url: string;
+          include_patterns?: string[];
+          exclude_patterns?: string[];
+          max_pages?: number;
+          status?: string;
+          last_error?: string | null;
+          pages_crawled?: number;
+          last_crawled_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string;
+          type?: string;
+          url?: string;
+          include_patterns?: string[];
+          exclude_patterns?: string[];
+          max_pages?: number;
+          status?: string;
+          last_error?: string | null;
+          pages_crawled?: number;
+          last_crawled_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       kb_documents: {
         Row: {
@@ -353,6 +570,8 @@ export interface Database {
           checksum: string;
           version: number;
           error_message: string | null;
+          source_id: string | null;
+          source_url: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -367,6 +586,8 @@ export interface Database {
           checksum: string;
           version?: number;
           error_message?: string | null;
+          source_id?: string | null;
+          source_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -381,9 +602,12 @@ export interface Database {
           checksum?: string;
           version?: number;
           error_message?: string | null;
+          source_id?: string | null;
+          source_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       kb_chunks: {
         Row: {
@@ -419,6 +643,529 @@ export interface Database {
           metadata?: Json;
           created_at?: string;
         };
+        Relationships: [];
+      };
+      kb_unanswered_questions: {
+        Row: {
+          id: string;
+          chatbot_id: string;
+          question: string;
+          examples: Json;
+          embedding: number[] | null;
+          occurrences: number;
+          last_reason: string;
+          last_confidence: number | null;
+          status: string;
+          answer: string | null;
+          answered_via: string | null;
+          kb_document_id: string | null;
+          first_asked_at: string;
+          last_asked_at: string;
+          answered_at: string | null;
+        };
+        Insert: {
+          id: string;
+          chatbot_id: string;
+          question: string;
+          examples?: Json;
+          embedding?: number[] | null;
+          occurrences?: number;
+          last_reason: string;
+          last_confidence?: number | null;
+          status?: string;
+          answer?: string | null;
+          answered_via?: string | null;
+          kb_document_id?: string | null;
+          first_asked_at?: string;
+          last_asked_at?: string;
+          answered_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string;
+          question?: string;
+          examples?: Json;
+          embedding?: number[] | null;
+          occurrences?: number;
+          last_reason?: string;
+          last_confidence?: number | null;
+          status?: string;
+          answer?: string | null;
+          answered_via?: string | null;
+          kb_document_id?: string | null;
+          first_asked_at?: string;
+          last_asked_at?: string;
+          answered_at?: string | null;
+        };
+        Relationships: [];
+      };
+      conversation_attachments: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          message_id: string | null;
+          chatbot_id: string;
+          filename: string;
+          content_type: string;
+          size: number;
+          storage_path: string;
+          extracted_text: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          conversation_id: string;
+          message_id?: string | null;
+          chatbot_id: string;
+          filename: string;
+          content_type: string;
+          size: number;
+          storage_path: string;
+          extracted_text?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          conversation_id?: string;
+          message_id?: string | null;
+          chatbot_id?: string;
+          filename?: string;
+          content_type?: string;
+          size?: number;
+          storage_path?: string;
+          extracted_text?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      privacy_audit_logs: {
+        Row: {
+          id: string;
+          chatbot_id: string | null;
+          action: string;
+          subject_type: string | null;
+          subject: string | null;
+          status: string;
+          conversations_affected: number;
+          messages_affected: number;
+          leads_affected: number;
+          details: Json;
+          error: string | null;
+          performed_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          chatbot_id?: string | null;
+          action: string;
+          subject_type?: string | null;
+          subject?: string | null;
+          status: string;
+          conversations_affected?: number;
+          messages_affected?: number;
+          leads_affected?: number;
+          details?: Json;
+          error?: string | null;
+          performed_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string | null;
+          action?: string;
+          subject_type?: string | null;
+          subject?: string | null;
+          status?: string;
+          conversations_affected?: number;
+          messages_affected?: number;
+          leads_affected?: number;
+          details?: Json;
+          error?: string | null;
+          performed_by?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      jobs: {
+        Row: {
+          id: string;
+          type: string;
+          payload: Json;
+          status: string;
+          attempts: number;
+          max_attempts: number;
+          run_at: string;
+          dedupe_key: string | null;
+          locked_by: string | null;
+          locked_until: string | null;
+          last_error: string | null;
+          result: Json | null;
+          created_at: string;
+          updated_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id: string;
+          type: string;
+          payload?: Json;
+          status?: string;
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          dedupe_key?: string | null;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          last_error?: string | null;
+          result?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          payload?: Json;
+          status?: string;
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          dedupe_key?: string | null;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          last_error?: string | null;
+          result?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          client_id: string;
+          name: string;
+          prefix: string;
+          key_hash: string;
+          scopes: Json;
+          last_used_at: string | null;
+          expires_at: string | null;
+          revoked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          client_id: string;
+          name: string;
+          prefix: string;
+          key_hash: string;
+          scopes?: Json;
+          last_used_at?: string | null;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          client_id?: string;
+          name?: string;
+          prefix?: string;
+          key_hash?: string;
+          scopes?: Json;
+          last_used_at?: string | null;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      api_key_usage: {
+        Row: {
+          id: string;
+          api_key_id: string;
+          client_id: string;
+          method: string;
+          path: string;
+          status_code: number;
+          duration_ms: number;
+          ip_address: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          api_key_id: string;
+          client_id: string;
+          method: string;
+          path: string;
+          status_code: number;
+          duration_ms: number;
+          ip_address?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          api_key_id?: string;
+          client_id?: string;
+          method?: string;
+          path?: string;
+          status_code?: number;
+          duration_ms?: number;
+          ip_address?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_endpoints: {
+        Row: {
+          id: string;
+          client_id: string;
+          url: string;
+          description: string | null;
+          events: Json;
+          secret: string;
+          enabled: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          client_id: string;
+          url: string;
+          description?: string | null;
+          events?: Json;
+          secret: string;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          client_id?: string;
+          url?: string;
+          description?: string | null;
+          events?: Json;
+          secret?: string;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          endpoint_id: string;
+          client_id: string;
+          event_id: string;
+          event_type: string;
+          payload: Json;
+          status: string;
+          attempts: number;
+          response_status: number | null;
+          response_body: string | null;
+          error: string | null;
+          duration_ms: number | null;
+          created_at: string;
+          last_attempt_at: string | null;
+          delivered_at: string | null;
+        };
+        Insert: {
+          id: string;
+          endpoint_id: string;
+          client_id: string;
+          event_id: string;
+          event_type: string;
+          payload: Json;
+          status?: string;
+          attempts?: number;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          duration_ms?: number | null;
+          created_at?: string;
+          last_attempt_at?: string | null;
+          delivered_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          endpoint_id?: string;
+          client_id?: string;
+          event_id?: string;
+          event_type?: string;
+          payload?: Json;
+          status?: string;
+          attempts?: number;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          duration_ms?: number | null;
+          created_at?: string;
+          last_attempt_at?: string | null;
+          delivered_at?: string | null;
+        };
+        Relationships: [];
+      };
+      llm_usage: {
+        Row: {
+          id: string;
+          client_id: string;
+          chatbot_id: string | null;
+          operation: string;
+          provider: string;
+          model: string;
+          prompt_tokens: number;
+          completion_tokens: number;
+          cost: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          chatbot_id?: string | null;
+          operation: string;
+          provider: string;
+          model: string;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          cost?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          client_id?: string;
+          chatbot_id?: string | null;
+          operation?: string;
+          provider?: string;
+          model?: string;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          cost?: number;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      rate_limit_buckets: {
+        Row: {
+          key: string;
+          tokens: number;
+          updated_at: string;
+        };
+        Insert: {
+          key: string;
+          tokens: number;
+          updated_at?: string;
+        };
+        Update: {
+          key?: string;
+          tokens?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      eval_sets: {
+        Row: {
+          id: string;
+          chatbot_id: string;
+          name: string;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          chatbot_id: string;
+          name: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string;
+          name?: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      eval_cases: {
+        Row: {
+          id: string;
+          set_id: string;
+          question: string;
+          expected_answer: string | null;
+          expected_document_ids: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          set_id: string;
+          question: string;
+          expected_answer?: string | null;
+          expected_document_ids?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          set_id?: string;
+          question?: string;
+          expected_answer?: string | null;
+          expected_document_ids?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      eval_runs: {
+        Row: {
+          id: string;
+          set_id: string;
+          chatbot_id: string;
+          label: string | null;
+          status: string;
+          llm: string;
+          settings: Json | null;
+          summary: Json | null;
+          results: Json;
+          error: string | null;
+          created_at: string;
+          started_at: string | null;
+          completed_at: string | null;
+        };
+        Insert: {
+          id: string;
+          set_id: string;
+          chatbot_id: string;
+          label?: string | null;
+          status?: string;
+          llm?: string;
+          settings?: Json | null;
+          summary?: Json | null;
+          results?: Json;
+          error?: string | null;
+          created_at?: string;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          set_id?: string;
+          chatbot_id?: string;
+          label?: string | null;
+          status?: string;
+          llm?: string;
+          settings?: Json | null;
+          summary?: Json | null;
+          results?: Json;
+          error?: string | null;
+          created_at?: string;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Relationships: [];
       };
       email_settings: {
         Row: {
@@ -454,6 +1201,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       email_notifications: {
         Row: {
@@ -507,6 +1255,49 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      chatbot_config_versions: {
+        Row: {
+          id: string;
+          chatbot_id: string;
+          version: number;
+          config: Json;
+          diff: Json;
+          action: string;
+          note: string | null;
+          author: string | null;
+          created_at: string;
+          published_at: string | null;
+          published_by: string | null;
+        };
+        Insert: {
+          id: string;
+          chatbot_id: string;
+          version: number;
+          config: Json;
+          diff?: Json;
+          action: string;
+          note?: string | null;
+          author?: string | null;
+          created_at?: string;
+          published_at?: string | null;
+          published_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          chatbot_id?: string;
+          version?: number;
+          config?: Json;
+          diff?: Json;
+          action?: string;
+          note?: string | null;
+          author?: string | null;
+          created_at?: string;
+          published_at?: string | null;
+          published_by?: string | null;
+        };
+        Relationships: [];
       };
     };
     Views: {
@@ -526,6 +1317,7 @@ export interface Database {
           storage_path: string;
           document_status: string;
         };
+        Relationships: [];
       };
     };
     Functions: {
@@ -533,6 +1325,152 @@ export interface Database {
         Args: Record<string, never>;
         Returns: unknown;
       };
+      record_unanswered_question: {
+        Args: {
+          p_id: string;
+          p_chatbot_id: string;
+          p_question: string;
+          p_embedding: number[] | null;
+          p_reason: string;
+          p_confidence: number | null;
+          match_threshold: number;
+        };
+        Returns: string;
+      };
+      rollup_chatbot_analytics: {
+        Args: {
+          p_chatbot_id: string;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: undefined;
+      };
+      enqueue_job: {
+        Args: {
+          p_id: string;
+          p_type: string;
+          p_payload: Json;
+          p_run_at: string | null;
+          p_max_attempts: number;
+          p_dedupe_key: string | null;
+        };
+        Returns: string;
+      };
+      claim_jobs: {
+        Args: {
+          p_type: string;
+          p_worker: string;
+          p_limit: number;
+          p_lease_seconds: number;
+        };
+        Returns: Database['public']['Tables']['jobs']['Row'][];
+      };
+      take_rate_limit_tokens: {
+        Args: {
+          p_key: string;
+          p_capacity: number;
+          p_refill_per_second: number;
+          p_cost?: number;
+        };
+        Returns: {
+          allowed: boolean;
+          tokens: number;
+        }[];
+      };
+      summarize_llm_usage: {
+        Args: {
+          p_from: string;
+          p_to: string;
+          p_client_id?: string | null;
+        };
+        Returns: {
+          client_id: string;
+          client_name: string | null;
+          chatbot_id: string | null;
+          chatbot_name: string | null;
+          operation: string;
+          model: string;
+          calls: number;
+          prompt_tokens: number;
+          completion_tokens: number;
+          cost: number;
+        }[];
+      };
+      match_documents: {
+        Args: {
+          query_embedding: number[];
+          match_threshold: number;
+          match_count: number;
+          p_chatbot_id: string;
+        };
+        Returns: {
+          chunk_id: string;
+          document_id: string;
+          text: string;
+          similarity: number;
+          filename: string;
+          source_url: string | null;
+          metadata: Json;
+        }[];
+      };
+      hybrid_match_documents: {
+        Args: {
+          query_embedding: number[];
+          query_text: string;
+          match_threshold: number;
+          match_count: number;
+          p_chatbot_id: string;
+          k?: number;
+        };
+        Returns: {
+          chunk_id: string;
+          document_id: string;
+          text: string;
+          similarity: number;
+          filename: string;
+          source_url: string | null;
+          metadata: Json;
+        }[];
+      };
+      hybrid_match_documents_scored: {
+        Args: {
+          query_embedding: number[];
+          query_text: string;
+          match_threshold: number;
+          match_count: number;
+          p_chatbot_id: string;
+          k?: number;
+        };
+        Returns: {
+          chunk_id: string;
+          document_id: string;
+          text: string;
+          similarity: number;
+          filename: string;
+          source_url: string | null;
+          metadata: Json;
+          vector_rank: number | null;
+          keyword_score: number | null;
+          keyword_rank: number | null;
+          fused_score: number;
+        }[];
+      };
+      chatbot_variant_outcomes: {
+        Args: {
+          p_chatbot_id: string;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: {
+          variant: string;
+          conversations: number;
+          converted_conversations: number;
+          handoffs: number;
+          messages_received: number;
+          bot_responses: number;
+          fallback_responses: number;
+        }[];
+      };
     };
   };
 }
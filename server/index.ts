@@ -1,18 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { createServer } from "http";
 import config, { validateEnv } from "./config.js";
-import { supabaseStorage as storage } from "./storage-supabase.js";
+import { storage } from "./storage.js";
 import { supabaseAuthRoutes } from "./routes/supabase-auth.js";
 import { adminDashboardRoutes } from "./routes/admin-dashboard.js";
 import { clientRoutes } from "./routes/clients.js";
 import { chatbotsRoutes } from "./routes/chatbots.js";
 import { subscriptionRoutes } from "./routes/subscriptions.js";
-import { widgetRoutes } from "./routes/widgets.js";
+import { isWidgetRequest, widgetRoutes } from "./routes/widgets.js";
 import { paymentRoutes } from "./routes/payments.js";
 import { clientDashboardRoutes } from "./routes/client-dashboard.js";
 import { knowledgeBaseRoutes } from "./routes/knowledge-base.js";
 import { emailNotificationRoutes } from "./routes/email-notifications.js";
 import { pluginManagerRoutes } from "./routes/plugin-manager.js";
+import { privacyRoutes } from "./routes/privacy.js";
+import { jobRoutes } from "./routes/jobs.js";
+import { apiV1Routes } from "./routes/api-v1.js";
+import { evaluationRoutes } from "./routes/evaluations.js";
+import { registerJobs } from "./application/jobs.js";
+import { jobQueue } from "./services/job-queue.js";
 
 // Simple logger
 const log = (message: string) => {
@@ -21,25 +27,23 @@ const log = (message: string) => {
 };
 // Validate environment variables
 validateEnv();
+registerJobs();
 
 const app = express();
+if (config.trustProxy > 0) {
+  app.set('trust proxy', config.trustProxy);
+}
 
 app.use((req, res, next) => {
   const origin = req.headers.origin;
-  const allowedOrigins = [
-    'http://localhost:3000',
-    'http://127.0.0.1:3000',
-    'https://automiqa-chat-bot-ve-3z7o.vercel.app',
-    'http://automiqa-chat-bot-ve-3z7o.vercel.app'
-  ];
-
-  if (origin && allowedOrigins.includes(origin)) {
+
+  if (origin && config.appOrigins.includes(origin)) {
     res.header('Access-Control-Allow-Origin', origin);
     res.header('Access-Control-Allow-Credentials', 'true');
   }
 
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Cookie');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Cookie, X-Widget-Origin, X-Widget-Challenge, X-Widget-Session');
   res.header('Access-Control-Expose-Headers', 'Set-Cookie');
 
   if (req.method === 'OPTIONS') {
@@ -48,8 +52,14 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
+// The Stripe webhook needs the unparsed body to verify its signature; widget routes parse their own
+// bodies after their abuse checks
+const jsonParser = express.json({ limit: '50mb' });
+const formParser = express.urlencoded({ extended: false, limit: '50mb' });
+app.use((req, res, next) => {
+  if (req.path === '/api/payment/webhook' || isWidgetRequest(req.path)) return next();
+  jsonParser(req, res, (error?: any) => (error ? next(error) : formParser(req, res, next)));
+});
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -105,6 +115,10 @@ export async function setupApp() {
   app.use("/api", knowledgeBaseRoutes);
   app.use("/api/email-notifications", emailNotificationRoutes);
   app.use("/api", pluginManagerRoutes);
+  app.use("/api", privacyRoutes);
+  app.use("/api", jobRoutes);
+  app.use("/api", evaluationRoutes);
+  app.use("/api/v1", apiV1Routes);
 
   // Error handling middleware
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -131,4 +145,10 @@ if (!process.env.VERCEL) {
   server.listen(port, () => {
     log(`API server running on http://localhost:${port}`);
   });
+
+  // Background jobs (document processing, crawls, scheduled sweeps) run in this process unless a
+  // separate worker (npm run worker) handles them; serverless deployments call POST /api/admin/jobs/run
+  if (process.env.JOB_WORKER !== 'external') {
+    jobQueue.start();
+  }
 }
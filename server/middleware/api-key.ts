@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction } from "express";
+import config from "../config.js";
+import { apiKeyService } from "../application/apiKeyService.js";
+import { RateLimiter } from "../services/rate-limiter.js";
+import type { ApiKey, ApiKeyScope } from "../shared/schema.js";
+
+const rateLimiter = new RateLimiter(config.apiRateLimitPerMinute, 60 * 1000);
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// The key from X-API-Key, or from an Authorization: Bearer header
+function readApiKey(req: Request): string | undefined {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header.trim();
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Require a valid API key with the given scope. Requests are rate limited per key and logged to the
+ * key's usage once the response is sent.
+ */
+export function requireApiKey(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = readApiKey(req);
+    if (!key) {
+      return res.status(401).json({ message: "API key required" });
+    }
+
+    let apiKey: ApiKey;
+    try {
+      apiKey = await apiKeyService.authenticate(key);
+    } catch (error: any) {
+      if (error.message === "Client account is not active") {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error.message === "Invalid API key" || error.message.startsWith("API key has")) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error('API key verification error:', error);
+      return res.status(500).json({ message: "Failed to verify API key" });
+    }
+
+    const start = Date.now();
+    res.on('finish', () => {
+      apiKeyService.recordUsage({
+        apiKeyId: apiKey.id,
+        clientId: apiKey.clientId,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: res.statusCode,
+        durationMs: Date.now() - start,
+        ipAddress: req.ip || null,
+      }).catch(error => console.error(`Failed to record usage of API key ${apiKey.id}:`, error));
+    });
+
+    if (!apiKey.scopes.includes(scope)) {
+      return res.status(403).json({ message: `API key is missing the ${scope} scope` });
+    }
+
+    const limit = rateLimiter.hit(apiKey.id);
+    res.setHeader('X-RateLimit-Limit', limit.limit);
+    res.setHeader('X-RateLimit-Remaining', limit.remaining);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(limit.resetAt / 1000));
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', Math.max(Math.ceil((limit.resetAt - Date.now()) / 1000), 1));
+      return res.status(429).json({ message: "Rate limit exceeded" });
+    }
+
+    req.apiKey = apiKey;
+    next();
+  };
+}
@@ -1,6 +1,7 @@
 // Re-export Supabase auth middleware
 export { 
   requireAdminAuth, 
+  getAdminEmail,
   requireClientAuth, 
   verifySupabaseAuth as requireAuth,
   optionalSupabaseAuth as optionalAuth 
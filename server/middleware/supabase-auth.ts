@@ -73,6 +73,11 @@ export async function optionalSupabaseAuth(req: Request, res: Response, next: Ne
   }
 }
 
+// Email of the signed-in admin, recorded as the author of config changes
+export function getAdminEmail(req: Request): string | null {
+  return req.user?.email ?? null;
+}
+
 /**
  * Require admin role from Supabase user metadata
  */
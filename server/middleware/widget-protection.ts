@@ -0,0 +1,140 @@
+import type { Request, Response, NextFunction } from "express";
+import config from "../config.js";
+import { widgetApplicationService } from "../application/widgetService.js";
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  TokenBucketLimiter,
+  type TokenBucketPolicy,
+} from "../services/rate-limiter.js";
+import { getChallengeProvider } from "../services/widget-challenge.js";
+
+const HOUR_SECONDS = 60 * 60;
+
+// Shown to visitors in the widget, like the other widget errors
+const RATE_LIMITED_RESPONSE = "You're sending messages too quickly. Please wait a moment and try again.";
+const CHALLENGE_RESPONSE = "Please wait a moment while we check your connection.";
+const SITE_NOT_ALLOWED_RESPONSE = "This chat is not available on this website.";
+
+const limiter = new TokenBucketLimiter(
+  config.widgetRateLimitStore === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore()
+);
+
+function bucketPolicy(limit: { burst: number; perMinute: number }): TokenBucketPolicy {
+  return { capacity: limit.burst, refillPerSecond: limit.perMinute / 60 };
+}
+
+const POLICIES = {
+  ip: bucketPolicy(config.widgetRateLimits.ip),
+  session: bucketPolicy(config.widgetRateLimits.session),
+  chatbot: bucketPolicy(config.widgetRateLimits.chatbot),
+  poll: bucketPolicy(config.widgetRateLimits.poll),
+};
+
+// Every rate limited request of an IP takes a token; once they are gone the IP has to solve
+// challenges until the bucket refills over the hour
+const ABUSE_POLICY: TokenBucketPolicy = {
+  capacity: config.widgetChallengeThreshold,
+  refillPerSecond: config.widgetChallengeThreshold / HOUR_SECONDS,
+};
+
+function getBrowserOrigin(req: Request): string | null {
+  const origin = req.get('origin');
+  if (origin) return origin;
+
+  const referer = req.get('referer');
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The website the widget runs on: the Origin (then Referer) the browser sent. Only the app's own
+ * widget page, which runs in an iframe, says which page embeds it, in X-Widget-Origin ("null" when
+ * it cannot tell); any other page's X-Widget-Origin is ignored. Callers without a browser origin
+ * are taken at their X-Widget-Origin.
+ */
+export function getSiteOrigin(req: Request): string | null {
+  const browserOrigin = getBrowserOrigin(req);
+  if (browserOrigin && !config.appOrigins.includes(browserOrigin)) return browserOrigin;
+  return req.get('x-widget-origin') || browserOrigin;
+}
+
+async function isSiteAllowed(chatbotId: string, siteOrigin: string | null): Promise<boolean> {
+  // The app's own pages (full-page widget link, dashboard preview) always work
+  if (siteOrigin && config.appOrigins.includes(siteOrigin)) return true;
+  return widgetApplicationService.isSiteAllowed(chatbotId, siteOrigin);
+}
+
+/**
+ * Guard a public widget endpoint: the chatbot's allowed domains, then a challenge for IPs that keep
+ * hitting the limits, then token buckets per IP, per widget session and per chatbot (polling
+ * endpoints take from a per-IP polling bucket instead). If the rate limit store fails, requests are
+ * let through rather than breaking every widget.
+ * Runs after requireWidgetSession, when there is a session, and before the body is parsed.
+ */
+function protectWidget({ chargeChatbot, polling = false }: { chargeChatbot: boolean; polling?: boolean }) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const { chatbotId } = req.params;
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+
+    try {
+      if (!(await isSiteAllowed(chatbotId, getSiteOrigin(req)))) {
+        return res.status(403).json({ response: SITE_NOT_ALLOWED_RESPONSE });
+      }
+    } catch (error: any) {
+      if (error.message === "Chatbot not found") {
+        return res.status(404).json({ response: error.message });
+      }
+      console.error(`Widget site check failed for chatbot ${chatbotId}:`, error);
+      return res.status(500).json({ response: "Failed to load chatbot" });
+    }
+
+    try {
+      const challengeProvider = getChallengeProvider();
+      if (challengeProvider) {
+        const abuse = await limiter.take(`abuse:${ip}`, ABUSE_POLICY, 0);
+        const solution = req.get('x-widget-challenge');
+        if (abuse.remaining < 1 && !(solution && await challengeProvider.verify(ip, solution))) {
+          return res.status(429).json({
+            response: CHALLENGE_RESPONSE,
+            challenge: await challengeProvider.issue(ip),
+          });
+        }
+      }
+
+      const checks = polling
+        ? [limiter.take(`poll:${ip}`, POLICIES.poll)]
+        : [limiter.take(`ip:${ip}`, POLICIES.ip)];
+      if (chargeChatbot) {
+        checks.push(limiter.take(`chatbot:${chatbotId}`, POLICIES.chatbot));
+      }
+      if (req.widgetSessionId && !polling) {
+        checks.push(limiter.take(`session:${chatbotId}:${req.widgetSessionId}`, POLICIES.session));
+      }
+      const limited = (await Promise.all(checks)).filter(result => !result.allowed);
+
+      if (limited.length > 0) {
+        await limiter.take(`abuse:${ip}`, ABUSE_POLICY);
+        const retryAfterMs = Math.max(...limited.map(result => result.retryAfterMs));
+        res.setHeader('Retry-After', Math.max(Math.ceil(retryAfterMs / 1000), 1));
+        return res.status(429).json({ response: RATE_LIMITED_RESPONSE });
+      }
+    } catch (error) {
+      console.error(`Widget rate limiting failed for chatbot ${chatbotId} (${req.method} ${req.originalUrl} from ${ip}); request let through:`, error);
+    }
+
+    next();
+  };
+}
+
+export const protectWidgetEndpoint = protectWidget({ chargeChatbot: true });
+
+// Starting a session happens on every page view, so it counts against the visitor but not the chatbot
+export const protectWidgetSessionStart = protectWidget({ chargeChatbot: false });
+
+// Handoff polling runs every few seconds, far more often than visitors send messages
+export const protectWidgetPolling = protectWidget({ chargeChatbot: false, polling: true });
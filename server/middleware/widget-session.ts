@@ -0,0 +1,31 @@
+import type { Request, Response, NextFunction } from "express";
+import { widgetApplicationService } from "../application/widgetService.js";
+import { getSiteOrigin } from "./widget-protection.js";
+
+// Shown to visitors in the widget, like the other widget errors
+const SESSION_EXPIRED_RESPONSE = "Your chat session has expired. Please reload the page.";
+
+declare global {
+  namespace Express {
+    interface Request {
+      widgetSessionId?: string;
+    }
+  }
+}
+
+/**
+ * Require the widget session token from POST /widget/:chatbotId/session in X-Widget-Session, issued
+ * for this chatbot and the website the widget runs on
+ */
+export function requireWidgetSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.widgetSessionId = widgetApplicationService.verifySession(
+      req.get('x-widget-session'),
+      req.params.chatbotId,
+      getSiteOrigin(req)
+    );
+  } catch {
+    return res.status(401).json({ response: SESSION_EXPIRED_RESPONSE });
+  }
+  next();
+}
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { requireAdminAuth } from "../middleware/auth.js";
 import { adminService } from "../application/adminService.js";
+import { usageService } from "../application/usageService.js";
 
 const router = Router();
 
@@ -34,4 +35,32 @@ router.get("/dashboard/subscription-status", requireAdminAuth, async (req, res)
   }
 });
 
+// Monthly LLM usage and margin per client; month is YYYY-MM (UTC), defaulting to the current month
+router.get("/admin/usage", requireAdminAuth, async (req, res) => {
+  try {
+    const month = typeof req.query.month === 'string' ? req.query.month : undefined;
+    const report = await usageService.getMonthlyReport(month);
+    res.json(report);
+  } catch (error: any) {
+    if (error.message === "Invalid month") {
+      return res.status(400).json({ message: "month must be YYYY-MM" });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// One client's LLM usage for a month, by chatbot, operation and model
+router.get("/admin/usage/:clientId", requireAdminAuth, async (req, res) => {
+  try {
+    const month = typeof req.query.month === 'string' ? req.query.month : undefined;
+    const report = await usageService.getClientReport(req.params.clientId, month);
+    res.json(report);
+  } catch (error: any) {
+    if (error.message === "Invalid month") {
+      return res.status(400).json({ message: "month must be YYYY-MM" });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
 export { router as adminDashboardRoutes };
\ No newline at end of file
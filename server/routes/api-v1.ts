@@ -0,0 +1,215 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import express from "express";
+import multer from "multer";
+import { requireApiKey } from "../middleware/api-key.js";
+import { leadService } from "../application/leadService.js";
+import { knowledgeBaseService } from "../application/knowledgeBaseService.js";
+import { PlanLimitError } from "../application/subscriptionService.js";
+import { storage } from "../storage.js";
+import { getOpenApiDocument } from "../services/openapi.js";
+import { present } from "../utils/api-records.js";
+import {
+  apiChatbotSchema,
+  apiConversationSchema,
+  apiConversationsQuerySchema,
+  apiKBDocumentSchema,
+  apiLeadSchema,
+  apiLeadsQuerySchema,
+  apiMessageSchema,
+  apiUpdateLeadSchema,
+} from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
+
+// Public REST API, authenticated with client API keys (see services/openapi.ts for the document)
+const router = Router();
+
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit, as for dashboard uploads
+  },
+}).single('document');
+
+// Documents are multipart, with the file in "document"
+function receiveDocument(req: Request, res: Response, next: NextFunction) {
+  documentUpload(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({ message: error.message || "Invalid upload" });
+    }
+    next();
+  });
+}
+
+// Chatbots of the key's client; other clients' chatbots are reported as not found
+async function findChatbot(req: Request, res: Response) {
+  const chatbot = await storage.getChatbot(req.params.chatbotId);
+  if (!chatbot || chatbot.clientId !== req.apiKey!.clientId) {
+    res.status(404).json({ message: "Chatbot not found" });
+    return undefined;
+  }
+  return chatbot;
+}
+
+router.get("/openapi.json", (_req, res) => {
+  res.json(getOpenApiDocument());
+});
+
+router.get("/chatbots", requireApiKey('chatbots:read'), async (req, res) => {
+  try {
+    const chatbots = await storage.getChatbotsWithClients();
+    res.json(chatbots
+      .filter(chatbot => chatbot.clientId === req.apiKey!.clientId)
+      .map(chatbot => present(apiChatbotSchema, chatbot)));
+  } catch (error: any) {
+    console.error("API chatbots error:", error);
+    res.status(500).json({ message: "Failed to fetch chatbots" });
+  }
+});
+
+router.get("/leads", requireApiKey('leads:read'), async (req, res) => {
+  const query = apiLeadsQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: query.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, status, since, limit } = query.data;
+    const leads = await leadService.getLeadsByClientId(req.apiKey!.clientId);
+    res.json(leads
+      .filter(lead => (!chatbotId || lead.chatbotId === chatbotId)
+        && (!status || lead.status === status)
+        && (!since || parseUtc(lead.capturedAt) >= since.getTime()))
+      .sort((a, b) => parseUtc(b.capturedAt) - parseUtc(a.capturedAt))
+      .slice(0, limit)
+      .map(lead => present(apiLeadSchema, lead)));
+  } catch (error: any) {
+    console.error("API leads error:", error);
+    res.status(500).json({ message: "Failed to fetch leads" });
+  }
+});
+
+router.patch("/leads/:leadId", requireApiKey('leads:write'), express.json(), async (req, res) => {
+  const body = apiUpdateLeadSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const lead = await leadService.updateLeadStatus(req.params.leadId, body.data.status, body.data.notes, req.apiKey!.clientId);
+    res.json(present(apiLeadSchema, lead));
+  } catch (error: any) {
+    if (error.message.startsWith("Forbidden:")) {
+      return res.status(404).json({ message: "Lead not found" });
+    }
+    console.error("API lead update error:", error);
+    res.status(500).json({ message: "Failed to update lead" });
+  }
+});
+
+router.get("/conversations", requireApiKey('conversations:read'), async (req, res) => {
+  const query = apiConversationsQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: query.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, status, since, limit } = query.data;
+    const conversations = await storage.getConversationsByClientId(req.apiKey!.clientId);
+    res.json(conversations
+      .filter(conversation => (!chatbotId || conversation.chatbotId === chatbotId)
+        && (!status || conversation.status === status)
+        && (!since || parseUtc(conversation.lastMessageAt) >= since.getTime()))
+      .sort((a, b) => parseUtc(b.lastMessageAt) - parseUtc(a.lastMessageAt))
+      .slice(0, limit)
+      .map(conversation => present(apiConversationSchema, conversation)));
+  } catch (error: any) {
+    console.error("API conversations error:", error);
+    res.status(500).json({ message: "Failed to fetch conversations" });
+  }
+});
+
+router.get("/conversations/:conversationId", requireApiKey('conversations:read'), async (req, res) => {
+  try {
+    const conversation = await storage.getConversationById(req.params.conversationId, req.apiKey!.clientId);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    res.json({
+      ...present(apiConversationSchema, conversation),
+      messages: conversation.messages.map(message => present(apiMessageSchema, message)),
+    });
+  } catch (error: any) {
+    console.error("API conversation error:", error);
+    res.status(500).json({ message: "Failed to fetch conversation" });
+  }
+});
+
+router.get("/chatbots/:chatbotId/kb/documents", requireApiKey('kb:read'), async (req, res) => {
+  try {
+    if (!await findChatbot(req, res)) return;
+
+    const documents = await knowledgeBaseService.getDocuments(req.params.chatbotId);
+    res.json(documents.map(document => present(apiKBDocumentSchema, document)));
+  } catch (error: any) {
+    console.error("API documents error:", error);
+    res.status(500).json({ message: "Failed to fetch documents" });
+  }
+});
+
+// Upload a document; extraction and embedding run in the job worker, poll the document for progress
+router.post("/chatbots/:chatbotId/kb/documents", requireApiKey('kb:write'), receiveDocument, async (req, res) => {
+  try {
+    if (!await findChatbot(req, res)) return;
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    const result = await knowledgeBaseService.uploadDocument(req.params.chatbotId, req.file);
+    res.json(result);
+  } catch (error: any) {
+    if (error.message.startsWith("Unsupported file type") || error.message.startsWith("File size exceeds")) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof PlanLimitError) {
+      return res.status(402).json({ message: error.message });
+    }
+    console.error("API document upload error:", error);
+    res.status(500).json({ message: "Failed to upload document" });
+  }
+});
+
+router.get("/chatbots/:chatbotId/kb/documents/:documentId", requireApiKey('kb:read'), async (req, res) => {
+  try {
+    if (!await findChatbot(req, res)) return;
+
+    const document = await knowledgeBaseService.getDocumentStatus(req.params.chatbotId, req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    res.json(present(apiKBDocumentSchema, document));
+  } catch (error: any) {
+    if (error.message === "Document does not belong to this chatbot") {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    console.error("API document error:", error);
+    res.status(500).json({ message: "Failed to fetch document" });
+  }
+});
+
+router.delete("/chatbots/:chatbotId/kb/documents/:documentId", requireApiKey('kb:write'), async (req, res) => {
+  try {
+    if (!await findChatbot(req, res)) return;
+
+    await knowledgeBaseService.deleteDocument(req.params.chatbotId, req.params.documentId);
+    res.status(204).end();
+  } catch (error: any) {
+    if (error.message === "Document not found" || error.message === "Document does not belong to this chatbot") {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    console.error("API document delete error:", error);
+    res.status(500).json({ message: "Failed to delete document" });
+  }
+});
+
+export { router as apiV1Routes };
@@ -1,7 +1,10 @@
 import { Router } from "express";
 import multer from "multer";
-import { requireAdminAuth } from "../middleware/auth.js";
+import { getAdminEmail, requireAdminAuth } from "../middleware/auth.js";
 import { chatbotService } from "../application/chatbotService.js";
+import { chatbotConfigService } from "../application/chatbotConfigService.js";
+import { PlanLimitError } from "../application/subscriptionService.js";
+import { chatbotAnalyticsQuerySchema, configPreviewSchema } from "../shared/schema.js";
 
 const router = Router();
 
@@ -45,12 +48,36 @@ router.get("/chatbots/:id", requireAdminAuth, async (req, res) => {
   }
 });
 
+// Conversation analytics: ?from=YYYY-MM-DD&to=YYYY-MM-DD&granularity=day|week|month
+router.get("/chatbots/:id/analytics", requireAdminAuth, async (req, res) => {
+  const query = chatbotAnalyticsQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: query.error.errors[0].message });
+  }
+
+  try {
+    const analytics = await chatbotService.getChatbotAnalytics(req.params.id, query.data);
+    res.json(analytics);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: `Chatbot with ID ${req.params.id} not found` });
+    }
+    if (error.message.includes("range") || error.message.includes("after")) {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
 // Create a new chatbot
 router.post("/chatbots", requireAdminAuth, async (req, res) => {
   try {
-    const chatbot = await chatbotService.createChatbot(req.body);
+    const chatbot = await chatbotService.createChatbot(req.body, getAdminEmail(req));
     res.json(chatbot);
   } catch (error: any) {
+    if (error instanceof PlanLimitError) {
+      return res.status(402).json({ message: error.message });
+    }
     res.status(500).json({ message: error.message });
   }
 });
@@ -66,17 +93,84 @@ router.patch("/chatbots/:id/status", requireAdminAuth, async (req, res) => {
   }
 });
 
-// Update chatbot configuration
+// Save chatbot configuration as the draft; the widget keeps the live config until it is published
 router.patch("/chatbots/:id/config", requireAdminAuth, async (req, res) => {
   try {
     const { config } = req.body;
-    const chatbot = await chatbotService.updateChatbotConfig(req.params.id, config);
-    res.json(chatbot);
+    if (!config || typeof config !== 'object') {
+      return res.status(400).json({ message: "config is required" });
+    }
+
+    const draft = await chatbotConfigService.saveDraft(req.params.id, config, getAdminEmail(req));
+    res.json(draft);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: `Chatbot with ID ${req.params.id} not found` });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Config versions, newest first, with the live version number and the draft
+router.get("/chatbots/:id/config/versions", requireAdminAuth, async (req, res) => {
+  try {
+    const history = await chatbotConfigService.getHistory(req.params.id);
+    res.json(history);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: `Chatbot with ID ${req.params.id} not found` });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Publish the draft to the live widget
+router.post("/chatbots/:id/config/publish", requireAdminAuth, async (req, res) => {
+  try {
+    const version = await chatbotConfigService.publishDraft(req.params.id, getAdminEmail(req));
+    res.json(version);
   } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: `Chatbot with ID ${req.params.id} not found` });
+    }
+    if (error.message === "No draft to publish") {
+      return res.status(409).json({ message: error.message });
+    }
     res.status(500).json({ message: error.message });
   }
 });
 
+// Roll the live config back to an earlier version
+router.post("/chatbots/:id/config/versions/:versionId/rollback", requireAdminAuth, async (req, res) => {
+  try {
+    const version = await chatbotConfigService.rollback(req.params.id, req.params.versionId, getAdminEmail(req));
+    res.json(version);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found" || error.message === "Version not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Answer a message with the draft config (the form's preview); nothing is stored
+router.post("/chatbots/:id/config/preview", requireAdminAuth, async (req, res) => {
+  const body = configPreviewSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const reply = await chatbotConfigService.previewDraft(req.params.id, body.data.message);
+    res.json(reply);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: `Chatbot with ID ${req.params.id} not found` });
+    }
+    res.status(500).json({ message: error.message || "Failed to preview the draft" });
+  }
+});
+
 // Update entire chatbot
 router.put("/chatbots/:id", requireAdminAuth, async (req, res) => {
   try {
@@ -96,9 +190,9 @@ router.put("/chatbots/:id", requireAdminAuth, async (req, res) => {
       await chatbotService.updateChatbotDetails(req.params.id, { name, description });
     }
     
-    // Update config if provided
+    // A changed config is saved as the draft, to be published separately
     if (config) {
-      await chatbotService.updateChatbotConfig(req.params.id, config);
+      await chatbotConfigService.saveDraft(req.params.id, config, getAdminEmail(req));
     }
     
     // Get the updated chatbot
@@ -118,7 +212,7 @@ router.post("/chatbots/:chatbotId/logo", requireAdminAuth, upload.single('logo')
       return res.status(400).json({ message: "No file uploaded" });
     }
 
-    const result = await chatbotService.uploadLogo(chatbotId, req.file);
+    const result = await chatbotService.uploadLogo(chatbotId, req.file, getAdminEmail(req));
     res.json(result);
   } catch (error: any) {
     console.error("Logo upload error:", error);
@@ -132,7 +226,7 @@ router.post("/chatbots/:chatbotId/logo", requireAdminAuth, upload.single('logo')
 router.delete("/chatbots/:chatbotId/logo", requireAdminAuth, async (req, res) => {
   try {
     const { chatbotId } = req.params;
-    const result = await chatbotService.deleteLogo(chatbotId);
+    const result = await chatbotService.deleteLogo(chatbotId, getAdminEmail(req));
     res.json(result);
   } catch (error: any) {
     console.error("Logo delete error:", error);
@@ -151,7 +245,7 @@ router.post("/chatbots/:chatbotId/background", requireAdminAuth, upload.single('
       return res.status(400).json({ message: "No file uploaded" });
     }
 
-    const result = await chatbotService.uploadBackgroundImage(chatbotId, req.file);
+    const result = await chatbotService.uploadBackgroundImage(chatbotId, req.file, getAdminEmail(req));
     res.json(result);
   } catch (error: any) {
     console.error("Background image upload error:", error);
@@ -165,7 +259,7 @@ router.post("/chatbots/:chatbotId/background", requireAdminAuth, upload.single('
 router.delete("/chatbots/:chatbotId/background", requireAdminAuth, async (req, res) => {
   try {
     const { chatbotId } = req.params;
-    const result = await chatbotService.deleteBackgroundImage(chatbotId);
+    const result = await chatbotService.deleteBackgroundImage(chatbotId, getAdminEmail(req));
     res.json(result);
   } catch (error: any) {
     console.error("Background image delete error:", error);
@@ -1,8 +1,16 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import express from "express";
 import { requireClientAuth } from "../middleware/auth.js";
 import { leadService } from "../application/leadService.js";
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { apiKeyService } from "../application/apiKeyService.js";
+import { subscriptionService } from "../application/subscriptionService.js";
+import { storage } from "../storage.js";
+import { handoffService } from "../services/handoff.js";
+import { attachmentService } from "../services/attachments.js";
+import { googleCalendarService } from "../services/google-calendar.js";
+import { webhookService } from "../services/webhooks.js";
+import config from "../config.js";
+import { createApiKeySchema, webhookEndpointSchema } from "../shared/schema.js";
 
 const router = Router();
 
@@ -18,6 +26,61 @@ router.get("/client/appointments", requireClientAuth, async (req, res) => {
   }
 });
 
+// Google Calendar connection status
+router.get("/client/calendar/google", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    res.json(await googleCalendarService.getStatus(user.id));
+  } catch (error: any) {
+    console.error(`Error fetching calendar status for client ${(req.user as any)?.id}:`, error);
+    res.status(500).json({ message: "Failed to fetch calendar status" });
+  }
+});
+
+// Start the Google OAuth flow; the client is sent to the returned URL
+router.post("/client/calendar/google/connect", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    res.json({ authUrl: googleCalendarService.getAuthUrl(user.id) });
+  } catch (error: any) {
+    console.error(`Error starting calendar connection for client ${(req.user as any)?.id}:`, error);
+    if (error.message.startsWith("Missing required Google OAuth credentials")) {
+      return res.status(503).json({ message: "Google Calendar is not available" });
+    }
+    res.status(500).json({ message: "Failed to start calendar connection" });
+  }
+});
+
+// OAuth redirect target; the signed state identifies the client
+router.get("/calendar/google/callback", async (req, res) => {
+  const { code, state, error } = req.query;
+  const dashboardUrl = `${config.baseUrl}/client/dashboard`;
+
+  if (error || typeof code !== 'string' || typeof state !== 'string') {
+    console.error("Google Calendar authorization was not completed:", error);
+    return res.redirect(`${dashboardUrl}?calendar=error`);
+  }
+
+  try {
+    await googleCalendarService.handleCallback(code, state);
+    res.redirect(`${dashboardUrl}?calendar=connected`);
+  } catch (callbackError: any) {
+    console.error("Error completing Google Calendar connection:", callbackError);
+    res.redirect(`${dashboardUrl}?calendar=error`);
+  }
+});
+
+router.delete("/client/calendar/google", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    await googleCalendarService.disconnect(user.id);
+    res.json({ message: "Google Calendar disconnected" });
+  } catch (error: any) {
+    console.error(`Error disconnecting calendar for client ${(req.user as any)?.id}:`, error);
+    res.status(500).json({ message: "Failed to disconnect calendar" });
+  }
+});
+
 // Get client's conversations/chats
 router.get("/client/chats", requireClientAuth, async (req, res) => {
   try {
@@ -58,6 +121,94 @@ router.get("/client/chats/:conversationId/messages", requireClientAuth, async (r
   }
 });
 
+// Short-lived download link for a file the visitor attached
+router.get("/client/chats/:conversationId/attachments/:attachmentId", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const { conversationId, attachmentId } = req.params;
+    const url = await attachmentService.getDownloadUrl(conversationId, attachmentId, user.id);
+    res.json({ url });
+  } catch (error: any) {
+    console.error(`Error fetching attachment ${req.params.attachmentId}:`, error);
+    if (error.message === "Attachment not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: "Failed to fetch attachment" });
+  }
+});
+
+// Map handoff errors to HTTP status codes
+function sendHandoffError(res: Response, error: any) {
+  if (error.message === "Conversation not found") {
+    return res.status(404).json({ message: error.message });
+  }
+  if (error.message.startsWith("Forbidden:")) {
+    return res.status(403).json({ message: error.message });
+  }
+  if (error.message.startsWith("Conversation already claimed") || error.message === "Conversation must be claimed before replying") {
+    return res.status(409).json({ message: error.message });
+  }
+  res.status(500).json({ message: error.message });
+}
+
+// Claim a conversation to reply live (bot replies stay suppressed until it is handed back)
+router.post("/client/chats/:conversationId/claim", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const conversation = await handoffService.claim(req.params.conversationId, user.id, handoffService.agentNameFor(user));
+    res.json(conversation);
+  } catch (error: any) {
+    console.error(`Error claiming conversation ${req.params.conversationId}:`, error);
+    sendHandoffError(res, error);
+  }
+});
+
+// Send a live reply to the visitor
+router.post("/client/chats/:conversationId/messages", requireClientAuth, express.json(), async (req, res) => {
+  try {
+    const user = req.user as any;
+    const { content } = req.body;
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ message: "Message content is required" });
+    }
+
+    const message = await handoffService.sendAgentMessage(
+      req.params.conversationId,
+      user.id,
+      handoffService.agentNameFor(user),
+      content.trim()
+    );
+    res.json(message);
+  } catch (error: any) {
+    console.error(`Error sending agent message for conversation ${req.params.conversationId}:`, error);
+    sendHandoffError(res, error);
+  }
+});
+
+// Hand the conversation back to the bot
+router.post("/client/chats/:conversationId/release", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const conversation = await handoffService.handBack(req.params.conversationId, user.id);
+    res.json(conversation);
+  } catch (error: any) {
+    console.error(`Error releasing conversation ${req.params.conversationId}:`, error);
+    sendHandoffError(res, error);
+  }
+});
+
+// Close the conversation
+router.post("/client/chats/:conversationId/close", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const conversation = await handoffService.close(req.params.conversationId, user.id);
+    res.json(conversation);
+  } catch (error: any) {
+    console.error(`Error closing conversation ${req.params.conversationId}:`, error);
+    sendHandoffError(res, error);
+  }
+});
+
 // Get client's chatbots
 router.get("/client/chatbots", requireClientAuth, async (req, res) => {
   try {
@@ -72,6 +223,18 @@ router.get("/client/chatbots", requireClientAuth, async (req, res) => {
   }
 });
 
+// Get client's plan, its limits and this month's usage
+router.get("/client/plan", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const usage = await subscriptionService.getUsage(user.id);
+    res.json(usage);
+  } catch (error: any) {
+    console.error(`Error fetching plan usage for client ${(req.user as any)?.id}:`, error);
+    res.status(500).json({ message: "Failed to fetch plan usage" });
+  }
+});
+
 // Get client's leads (saved information)
 router.get("/client/leads", requireClientAuth, async (req, res) => {
   try {
@@ -119,4 +282,177 @@ router.patch("/client/leads/:leadId", requireClientAuth, express.json(), async (
   }
 });
 
+// API keys for the public REST API (/api/v1)
+router.get("/client/api-keys", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    res.json(await apiKeyService.getKeys(user.id));
+  } catch (error: any) {
+    console.error(`Error fetching API keys for client ${(req.user as any)?.id}:`, error);
+    res.status(500).json({ message: "Failed to fetch API keys" });
+  }
+});
+
+// Create a key; the response holds the key itself, which is not shown again
+router.post("/client/api-keys", requireClientAuth, express.json(), async (req, res) => {
+  const body = createApiKeySchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const user = req.user as any;
+    const result = await apiKeyService.createKey(user.id, body.data);
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error creating API key:", error);
+    if (error.message.startsWith("API key limit reached")) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: "Failed to create API key" });
+  }
+});
+
+router.delete("/client/api-keys/:keyId", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const apiKey = await apiKeyService.revokeKey(user.id, req.params.keyId);
+    res.json(apiKey);
+  } catch (error: any) {
+    console.error("Error revoking API key:", error);
+    if (error.message === "API key not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: "Failed to revoke API key" });
+  }
+});
+
+// Latest requests made with a key
+router.get("/client/api-keys/:keyId/usage", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    res.json(await apiKeyService.getUsage(user.id, req.params.keyId, limit));
+  } catch (error: any) {
+    if (error.message === "API key not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error("Error fetching API key usage:", error);
+    res.status(500).json({ message: "Failed to fetch API key usage" });
+  }
+});
+
+router.get("/client/webhooks", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    res.json(await webhookService.getEndpoints(user.id));
+  } catch (error: any) {
+    console.error(`Error fetching webhooks for client ${(req.user as any)?.id}:`, error);
+    res.status(500).json({ message: "Failed to fetch webhooks" });
+  }
+});
+
+// Register an endpoint; the response holds the signing secret, which is not shown again
+router.post("/client/webhooks", requireClientAuth, express.json(), async (req, res) => {
+  const body = webhookEndpointSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const user = req.user as any;
+    const result = await webhookService.createEndpoint(user.id, body.data);
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error creating webhook:", error);
+    if (error.message.startsWith("Webhook endpoint limit reached")) {
+      return res.status(409).json({ message: error.message });
+    }
+    if (error.message === "Webhook URL must be publicly reachable") {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: "Failed to create webhook" });
+  }
+});
+
+router.patch("/client/webhooks/:endpointId", requireClientAuth, express.json(), async (req, res) => {
+  const body = webhookEndpointSchema.partial().safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const user = req.user as any;
+    res.json(await webhookService.updateEndpoint(user.id, req.params.endpointId, body.data));
+  } catch (error: any) {
+    if (error.message === "Webhook endpoint not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Webhook URL must be publicly reachable") {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error updating webhook:", error);
+    res.status(500).json({ message: "Failed to update webhook" });
+  }
+});
+
+router.delete("/client/webhooks/:endpointId", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    await webhookService.deleteEndpoint(user.id, req.params.endpointId);
+    res.json({ message: "Webhook deleted" });
+  } catch (error: any) {
+    if (error.message === "Webhook endpoint not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error("Error deleting webhook:", error);
+    res.status(500).json({ message: "Failed to delete webhook" });
+  }
+});
+
+router.post("/client/webhooks/:endpointId/rotate-secret", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    res.json(await webhookService.rotateSecret(user.id, req.params.endpointId));
+  } catch (error: any) {
+    if (error.message === "Webhook endpoint not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error("Error rotating webhook secret:", error);
+    res.status(500).json({ message: "Failed to rotate webhook secret" });
+  }
+});
+
+// Latest deliveries to an endpoint
+router.get("/client/webhooks/:endpointId/deliveries", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    res.json(await webhookService.getDeliveries(user.id, req.params.endpointId, limit));
+  } catch (error: any) {
+    if (error.message === "Webhook endpoint not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error("Error fetching webhook deliveries:", error);
+    res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+  }
+});
+
+// Send a delivery's event again
+router.post("/client/webhooks/deliveries/:deliveryId/resend", requireClientAuth, async (req, res) => {
+  try {
+    const user = req.user as any;
+    res.status(201).json(await webhookService.resend(user.id, req.params.deliveryId));
+  } catch (error: any) {
+    if (error.message === "Webhook delivery not found" || error.message === "Webhook endpoint not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Webhook endpoint is disabled") {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error("Error resending webhook:", error);
+    res.status(500).json({ message: "Failed to resend webhook" });
+  }
+});
+
 export { router as clientDashboardRoutes };
\ No newline at end of file
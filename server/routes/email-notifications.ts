@@ -1,7 +1,7 @@
 // Email notification API routes
 import { Router } from "express";
 import { z } from "zod";
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
 import { notificationService } from "../services/notifications.js";
 import { emailService } from "../services/email.js";
 import { insertEmailSettingsSchema, insertEmailNotificationSchema } from "../shared/schema.js";
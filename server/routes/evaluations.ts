@@ -0,0 +1,198 @@
+import { Router } from "express";
+import { requireAdminAuth } from "../middleware/auth.js";
+import { evaluationApplicationService } from "../application/evaluationService.js";
+import { evalCaseSchema, evalRunRequestSchema, evalSetSchema } from "../shared/schema.js";
+
+const router = Router();
+
+const NOT_FOUND_ERRORS = [
+  "Chatbot not found",
+  "Evaluation set not found",
+  "Evaluation case not found",
+  "Evaluation run not found",
+];
+
+// Golden question sets of a chatbot
+router.get("/admin/chatbots/:chatbotId/evals/sets", requireAdminAuth, async (req, res) => {
+  try {
+    const sets = await evaluationApplicationService.getSets(req.params.chatbotId);
+    res.json(sets);
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+router.post("/admin/chatbots/:chatbotId/evals/sets", requireAdminAuth, async (req, res) => {
+  const body = evalSetSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const set = await evaluationApplicationService.createSet(req.params.chatbotId, body.data);
+    res.status(201).json(set);
+  } catch (error: any) {
+    console.error("Create evaluation set error:", error);
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to create evaluation set" });
+  }
+});
+
+router.put("/admin/chatbots/:chatbotId/evals/sets/:setId", requireAdminAuth, async (req, res) => {
+  const body = evalSetSchema.partial().safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, setId } = req.params;
+    const set = await evaluationApplicationService.updateSet(chatbotId, setId, body.data);
+    res.json(set);
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to update evaluation set" });
+  }
+});
+
+// Deletes the set's questions and runs too
+router.delete("/admin/chatbots/:chatbotId/evals/sets/:setId", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, setId } = req.params;
+    await evaluationApplicationService.deleteSet(chatbotId, setId);
+    res.json({ message: "Evaluation set deleted successfully" });
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Questions of a set, with the expected answer and the knowledge base documents it should come from
+router.get("/admin/chatbots/:chatbotId/evals/sets/:setId/cases", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, setId } = req.params;
+    const cases = await evaluationApplicationService.getCases(chatbotId, setId);
+    res.json(cases);
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+router.post("/admin/chatbots/:chatbotId/evals/sets/:setId/cases", requireAdminAuth, async (req, res) => {
+  const body = evalCaseSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, setId } = req.params;
+    const evalCase = await evaluationApplicationService.createCase(chatbotId, setId, body.data);
+    res.status(201).json(evalCase);
+  } catch (error: any) {
+    console.error("Create evaluation case error:", error);
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Document does not belong to this chatbot") {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to add question" });
+  }
+});
+
+router.put("/admin/chatbots/:chatbotId/evals/sets/:setId/cases/:caseId", requireAdminAuth, async (req, res) => {
+  const body = evalCaseSchema.partial().safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, setId, caseId } = req.params;
+    const evalCase = await evaluationApplicationService.updateCase(chatbotId, setId, caseId, body.data);
+    res.json(evalCase);
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Document does not belong to this chatbot") {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to update question" });
+  }
+});
+
+router.delete("/admin/chatbots/:chatbotId/evals/sets/:setId/cases/:caseId", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, setId, caseId } = req.params;
+    await evaluationApplicationService.deleteCase(chatbotId, setId, caseId);
+    res.json({ message: "Question deleted successfully" });
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Queue a run of the set; with llm "stub" the answers come from the offline fake model
+router.post("/admin/chatbots/:chatbotId/evals/sets/:setId/runs", requireAdminAuth, async (req, res) => {
+  const body = evalRunRequestSchema.safeParse(req.body ?? {});
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, setId } = req.params;
+    const run = await evaluationApplicationService.startRun(chatbotId, setId, body.data);
+    res.status(202).json(run);
+  } catch (error: any) {
+    console.error("Start evaluation run error:", error);
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Evaluation set has no cases") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to start evaluation run" });
+  }
+});
+
+// Runs of a set, newest first
+router.get("/admin/chatbots/:chatbotId/evals/sets/:setId/runs", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, setId } = req.params;
+    const runs = await evaluationApplicationService.getRuns(chatbotId, setId);
+    res.json(runs);
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+router.get("/admin/chatbots/:chatbotId/evals/runs/:runId", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, runId } = req.params;
+    const run = await evaluationApplicationService.getRun(chatbotId, runId);
+    res.json(run);
+  } catch (error: any) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+export { router as evaluationRoutes };
@@ -10,7 +10,6 @@ import { paymentRoutes } from "./payments.js";
 import { clientDashboardRoutes } from "./client-dashboard.js";
 import { knowledgeBaseRoutes } from "./knowledge-base.js";
 import { emailNotificationRoutes } from "./email-notifications.js";
-import { debugRoutes } from "./debug.js";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure authentication and session middleware first
@@ -26,7 +25,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api", paymentRoutes);
   app.use("/api", clientDashboardRoutes);
   app.use("/api", knowledgeBaseRoutes);
-  app.use("/api", debugRoutes);
   app.use("/api/email-notifications", emailNotificationRoutes);
 
 
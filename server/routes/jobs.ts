@@ -0,0 +1,71 @@
+import { Router } from "express";
+import { requireAdminAuth } from "../middleware/auth.js";
+import { jobQueue } from "../services/job-queue.js";
+import type { JobStatus } from "../shared/schema.js";
+
+const router = Router();
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed'];
+// Longest a run-due request keeps claiming jobs
+const MAX_RUN_SECONDS = 600;
+
+// Background jobs, newest first
+router.get("/admin/jobs", requireAdminAuth, async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return res.status(400).json({ message: `status must be one of ${JOB_STATUSES.join(', ')}` });
+    }
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+
+    const jobs = await jobQueue.getJobs({ status: status as JobStatus | undefined, type, limit });
+    res.json(jobs);
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+router.get("/admin/jobs/:id", requireAdminAuth, async (req, res) => {
+  try {
+    const job = await jobQueue.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Queue a failed job again
+router.post("/admin/jobs/:id/retry", requireAdminAuth, async (req, res) => {
+  try {
+    const result = await jobQueue.retry(req.params.id);
+    res.json(result);
+  } catch (error: any) {
+    console.error("Job retry error:", error);
+    if (error.message === "Job not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Only failed jobs can be retried") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to retry job" });
+  }
+});
+
+// Queue scheduled jobs and run due jobs for up to maxSeconds (default 50); for external schedulers
+// on serverless deployments, where no worker process runs
+router.post("/admin/jobs/run", requireAdminAuth, async (req, res) => {
+  try {
+    const maxSeconds = Math.min(Math.max(Number(req.body?.maxSeconds) || 50, 1), MAX_RUN_SECONDS);
+    const result = await jobQueue.runDue(Date.now() + maxSeconds * 1000);
+    res.json(result);
+  } catch (error: any) {
+    console.error("Job run error:", error);
+    res.status(500).json({ message: error.message || "Failed to run jobs" });
+  }
+});
+
+export { router as jobRoutes };
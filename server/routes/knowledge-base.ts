@@ -1,7 +1,14 @@
 import { Router } from "express";
 import multer from "multer";
-import { requireAdminAuth } from "../middleware/auth.js";
+import { getAdminEmail, requireAdminAuth } from "../middleware/auth.js";
 import { knowledgeBaseService } from "../application/knowledgeBaseService.js";
+import { PlanLimitError } from "../application/subscriptionService.js";
+import {
+  answerUnansweredQuestionSchema,
+  createKBSourceSchema,
+  retrievalPlaygroundSchema,
+  retrievalSettingsSchema,
+} from "../shared/schema.js";
 
 const router = Router();
 
@@ -49,6 +56,9 @@ router.post("/admin/chatbots/:chatbotId/kb/upload", requireAdminAuth, upload.sin
     if (error.message === "Chatbot not found") {
       return res.status(404).json({ message: error.message });
     }
+    if (error instanceof PlanLimitError) {
+      return res.status(402).json({ message: error.message });
+    }
     res.status(500).json({
       message: error.message || "Failed to upload document",
     });
@@ -102,4 +112,174 @@ router.delete("/admin/chatbots/:chatbotId/kb/documents/:documentId", requireAdmi
   }
 });
 
+// Retrieval playground: query variations, vector/keyword/fused and rerank scores, and the final prompt
+router.post("/admin/chatbots/:chatbotId/kb/playground", requireAdminAuth, async (req, res) => {
+  const body = retrievalPlaygroundSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const result = await knowledgeBaseService.runRetrievalPlayground(req.params.chatbotId, body.data);
+    res.json(result);
+  } catch (error: any) {
+    console.error("Retrieval playground error:", error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to run retrieval" });
+  }
+});
+
+// Save retrieval settings (topK, thresholds, query expansion, reranking) to the chatbot config
+router.put("/admin/chatbots/:chatbotId/kb/retrieval", requireAdminAuth, async (req, res) => {
+  const body = retrievalSettingsSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const retrieval = await knowledgeBaseService.saveRetrievalSettings(req.params.chatbotId, body.data, getAdminEmail(req));
+    res.json(retrieval);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to save retrieval settings" });
+  }
+});
+
+// Unanswered questions inbox (knowledge base misses), most frequent first
+router.get("/admin/chatbots/:chatbotId/kb/unanswered", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId } = req.params;
+    const status = typeof req.query.status === 'string' ? req.query.status : 'open';
+    if (!['open', 'answered', 'dismissed'].includes(status)) {
+      return res.status(400).json({ message: "status must be open, answered or dismissed" });
+    }
+
+    const questions = await knowledgeBaseService.getUnansweredQuestions(chatbotId, status);
+    res.json(questions);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Answer an unanswered question as a FAQ entry or a KB document
+router.post("/admin/chatbots/:chatbotId/kb/unanswered/:questionId/answer", requireAdminAuth, async (req, res) => {
+  const body = answerUnansweredQuestionSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId, questionId } = req.params;
+    const result = await knowledgeBaseService.answerUnansweredQuestion(chatbotId, questionId, body.data, getAdminEmail(req));
+    res.json(result);
+  } catch (error: any) {
+    console.error("Answer unanswered question error:", error);
+    if (error.message === "Chatbot not found" || error.message === "Question not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message.startsWith("Question is already") || error.message.startsWith("FAQ limit")) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to answer question" });
+  }
+});
+
+// Dismiss an unanswered question
+router.post("/admin/chatbots/:chatbotId/kb/unanswered/:questionId/dismiss", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, questionId } = req.params;
+    const question = await knowledgeBaseService.dismissUnansweredQuestion(chatbotId, questionId);
+    res.json(question);
+  } catch (error: any) {
+    if (error.message === "Question not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message.startsWith("Question is already")) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Website sources: crawl a site (start page or sitemap.xml) into the knowledge base
+router.get("/admin/chatbots/:chatbotId/kb/sources", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId } = req.params;
+    const sources = await knowledgeBaseService.getSources(chatbotId);
+    res.json(sources);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+router.post("/admin/chatbots/:chatbotId/kb/sources", requireAdminAuth, async (req, res) => {
+  const body = createKBSourceSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId } = req.params;
+    const source = await knowledgeBaseService.createSource(chatbotId, body.data);
+    res.status(201).json(source);
+  } catch (error: any) {
+    console.error("Create KB source error:", error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to add website" });
+  }
+});
+
+// Re-crawl a source now; unchanged pages keep their embeddings
+router.post("/admin/chatbots/:chatbotId/kb/sources/:sourceId/crawl", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, sourceId } = req.params;
+    const source = await knowledgeBaseService.recrawlSource(chatbotId, sourceId);
+    res.json(source);
+  } catch (error: any) {
+    if (error.message === "Chatbot not found" || error.message === "Source not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Source is already being crawled") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+router.delete("/admin/chatbots/:chatbotId/kb/sources/:sourceId", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId, sourceId } = req.params;
+    await knowledgeBaseService.deleteSource(chatbotId, sourceId);
+    res.json({ message: "Source deleted successfully" });
+  } catch (error: any) {
+    if (error.message === "Source not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Queue the re-crawls that are due (knowledgeBase.updateFrequency); the job worker runs them
+router.post("/admin/kb/sources/crawl-due", requireAdminAuth, async (req, res) => {
+  try {
+    const result = await knowledgeBaseService.crawlDueSources();
+    res.json(result);
+  } catch (error: any) {
+    console.error("Scheduled crawl error:", error);
+    res.status(500).json({ message: error.message || "Failed to run scheduled crawls" });
+  }
+});
+
 export { router as knowledgeBaseRoutes };
\ No newline at end of file
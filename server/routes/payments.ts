@@ -40,14 +40,19 @@ router.post("/admin/payments/:id/retry", requireAdminAuth, async (req, res) => {
   }
 });
 
-// Payment webhook endpoint
+// Stripe webhook endpoint; the signature is computed over the raw body, so the
+// global JSON parser skips this path (see index.ts)
 router.post("/payment/webhook", express.raw({ type: 'application/json' }), async (req, res) => {
   try {
-    const result = await paymentService.processPaymentWebhook(req.body);
+    const result = await paymentService.processPaymentWebhook(req.body, req.get('stripe-signature'));
     res.json(result);
   } catch (error: any) {
     console.error('Webhook error:', error);
-    res.status(400).json({ message: 'Webhook processing failed' });
+    if (error.type === 'StripeSignatureVerificationError' || error.message === 'Missing Stripe-Signature header') {
+      return res.status(400).json({ message: 'Invalid webhook signature' });
+    }
+    // A 5xx makes Stripe retry the delivery later
+    res.status(500).json({ message: 'Webhook processing failed' });
   }
 });
 
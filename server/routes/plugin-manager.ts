@@ -2,6 +2,8 @@ import { Router } from "express";
 import { requireAdminAuth } from "../middleware/auth.js";
 import { requireClientAuth } from "../middleware/auth.js";
 import { pluginManagerService } from "../services/plugin-manager.js";
+import { PlanLimitError, subscriptionService } from "../application/subscriptionService.js";
+import { storage } from "../storage.js";
 import { 
   insertPluginTemplateSchema, 
   insertChatbotPluginSchema,
@@ -10,6 +12,16 @@ import {
 
 const router = Router();
 
+// Enabling a plugin counts against the plan of the chatbot's client
+async function assertPluginAllowed(chatbotId: string, data: Record<string, any>, pluginId?: string) {
+  if (!data.isEnabled && !data.is_enabled) return;
+
+  const chatbot = await storage.getChatbot(chatbotId);
+  if (chatbot) {
+    await subscriptionService.assertWithinLimit(chatbot.clientId, 'plugins', { chatbotId, pluginId });
+  }
+}
+
 // ============= ADMIN PLUGIN TEMPLATE MANAGEMENT =============
 
 // Get all plugin templates (admin)
@@ -171,6 +183,7 @@ router.post("/chatbots/:chatbotId/plugins", requireClientAuth, async (req, res)
       ...req.body,
       chatbotId
     });
+    await assertPluginAllowed(chatbotId, validatedData);
     
     const plugin = await pluginManagerService.addPluginToChatbot(
       validatedData,
@@ -186,6 +199,9 @@ router.post("/chatbots/:chatbotId/plugins", requireClientAuth, async (req, res)
         errors: error.errors 
       });
     }
+    if (error instanceof PlanLimitError) {
+      return res.status(402).json({ message: error.message });
+    }
     res.status(500).json({ message: error.message });
   }
 });
@@ -193,8 +209,9 @@ router.post("/chatbots/:chatbotId/plugins", requireClientAuth, async (req, res)
 // Update chatbot plugin configuration (client)
 router.put("/chatbots/:chatbotId/plugins/:pluginId", requireClientAuth, async (req, res) => {
   try {
-    const { pluginId } = req.params;
+    const { chatbotId, pluginId } = req.params;
     const validatedData = insertChatbotPluginSchema.partial().parse(req.body);
+    await assertPluginAllowed(chatbotId, validatedData, pluginId);
     
     const plugin = await pluginManagerService.updateChatbotPlugin(pluginId, validatedData);
     res.json(plugin);
@@ -206,6 +223,9 @@ router.put("/chatbots/:chatbotId/plugins/:pluginId", requireClientAuth, async (r
         errors: error.errors 
       });
     }
+    if (error instanceof PlanLimitError) {
+      return res.status(402).json({ message: error.message });
+    }
     res.status(500).json({ message: error.message });
   }
 });
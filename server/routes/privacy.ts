@@ -0,0 +1,102 @@
+import { Router } from "express";
+import { getAdminEmail, requireAdminAuth } from "../middleware/auth.js";
+import { privacyService } from "../application/privacyService.js";
+import { dataSubjectRequestSchema } from "../shared/schema.js";
+
+const router = Router();
+
+// Export everything stored about a visitor (by widget session or lead email) as a JSON download
+router.get("/admin/chatbots/:chatbotId/privacy/export", requireAdminAuth, async (req, res) => {
+  const request = dataSubjectRequestSchema.safeParse({
+    sessionId: typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined,
+    email: typeof req.query.email === 'string' ? req.query.email : undefined,
+  });
+  if (!request.success) {
+    return res.status(400).json({ message: request.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId } = req.params;
+    const data = await privacyService.exportVisitorData(chatbotId, request.data, getAdminEmail(req) ?? 'admin');
+    res.setHeader('Content-Disposition', `attachment; filename="visitor-data-${chatbotId}.json"`);
+    res.json(data);
+  } catch (error: any) {
+    console.error("Visitor data export error:", error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to export visitor data" });
+  }
+});
+
+// Erase a visitor's conversations, messages and leads
+router.post("/admin/chatbots/:chatbotId/privacy/erase", requireAdminAuth, async (req, res) => {
+  const request = dataSubjectRequestSchema.safeParse(req.body);
+  if (!request.success) {
+    return res.status(400).json({ message: request.error.errors[0].message });
+  }
+
+  try {
+    const { chatbotId } = req.params;
+    const result = await privacyService.eraseVisitorData(chatbotId, request.data, getAdminEmail(req) ?? 'admin');
+    res.json(result);
+  } catch (error: any) {
+    console.error("Visitor data erasure error:", error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to erase visitor data" });
+  }
+});
+
+// Apply a chatbot's retention period now
+router.post("/admin/chatbots/:chatbotId/privacy/retention/run", requireAdminAuth, async (req, res) => {
+  try {
+    const { chatbotId } = req.params;
+    const result = await privacyService.applyRetention(chatbotId, getAdminEmail(req) ?? 'admin');
+    res.json(result);
+  } catch (error: any) {
+    console.error("Data retention error:", error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Data retention is disabled for this chatbot") {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message || "Failed to apply data retention" });
+  }
+});
+
+// Apply retention to all chatbots not processed today (also run hourly as a background job)
+router.post("/admin/privacy/retention/run-due", requireAdminAuth, async (req, res) => {
+  try {
+    const result = await privacyService.runDueRetention();
+    res.json(result);
+  } catch (error: any) {
+    console.error("Scheduled data retention error:", error);
+    res.status(500).json({ message: error.message || "Failed to run data retention" });
+  }
+});
+
+// Privacy audit log, newest first
+router.get("/admin/privacy/audit-log", requireAdminAuth, async (req, res) => {
+  try {
+    const chatbotId = typeof req.query.chatbotId === 'string' ? req.query.chatbotId : undefined;
+    const action = typeof req.query.action === 'string' ? req.query.action : undefined;
+    if (action && !['retention', 'export', 'erasure'].includes(action)) {
+      return res.status(400).json({ message: "action must be retention, export or erasure" });
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+
+    const entries = await privacyService.getAuditLog({
+      chatbotId,
+      action: action as 'retention' | 'export' | 'erasure' | undefined,
+      limit,
+    });
+    res.json(entries);
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+export { router as privacyRoutes };
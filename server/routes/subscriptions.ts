@@ -51,6 +51,15 @@ router.patch("/subscriptions/:id/:action", requireAdminAuth, async (req, res) =>
     
     res.json(result);
   } catch (error: any) {
+    if (error.message === "Subscription not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Invalid action" || error.message === "Invalid subscription type") {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error.message.startsWith("Invalid subscription transition")) {
+      return res.status(409).json({ message: error.message });
+    }
     res.status(500).json({ message: error.message });
   }
 });
@@ -2,6 +2,7 @@ import { Router } from "express";
 import { requireAdminAuth, requireClientAuth } from "../middleware/supabase-auth.js";
 import { createClient } from "@supabase/supabase-js";
 import config from "../config.js";
+import { handoffService } from "../services/handoff.js";
 
 const router = Router();
 
@@ -251,6 +252,8 @@ router.get("/client/me", requireClientAuth, async (req, res) => {
         email: client.authEmail,
         companyName: client.companyName,
         role: 'client',
+        // Name the user claims and answers handed-off conversations under
+        agentName: handoffService.agentNameFor(supabaseUser),
       }
     });
   } catch (error: any) {
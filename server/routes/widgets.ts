@@ -1,10 +1,48 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import express from "express";
+import multer from "multer";
 import { requireAdminAuth } from "../middleware/auth.js";
+import { getSiteOrigin, protectWidgetEndpoint, protectWidgetPolling, protectWidgetSessionStart } from "../middleware/widget-protection.js";
+import { requireWidgetSession } from "../middleware/widget-session.js";
 import { widgetApplicationService } from "../application/widgetService.js";
+import { PlanLimitError } from "../application/subscriptionService.js";
+import { MAX_ATTACHMENTS_PER_MESSAGE } from "../services/attachments.js";
 
 const router = Router();
 
+// Shown to visitors when the client's plan has no messages left this month; the plan details stay private
+const MESSAGE_LIMIT_RESPONSE = "This assistant has reached its message limit for this month. Please try again later or contact us another way.";
+
+// Visitor attachments; each chatbot's own size and type limits are checked before the message is processed
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // Highest advancedSettings.maxFileSize
+    files: MAX_ATTACHMENTS_PER_MESSAGE,
+  },
+}).array('files');
+
+// Public widget requests skip the app's body parsers (see isWidgetRequest), so nothing is read
+// from an anonymous caller before the session and abuse checks pass
+const parseWidgetJson = express.json({ limit: '100kb' });
+
+/**
+ * Whether a request goes to the public widget endpoints, whose bodies are parsed by the routes here
+ */
+export function isWidgetRequest(path: string): boolean {
+  return /^(\/api)?\/widget\//.test(path);
+}
+
+// Messages are JSON, or multipart with the text in "message" and files in "files"
+function receiveAttachments(req: Request, res: Response, next: express.NextFunction) {
+  attachmentUpload(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({ response: error.message || "Invalid attachment" });
+    }
+    next();
+  });
+}
+
 // Admin widget management routes
 router.get("/admin/widgets", requireAdminAuth, async (req, res) => {
   try {
@@ -84,11 +122,26 @@ router.get("/widget/:chatbotId/embed-code", async (req, res) => {
   }
 });
 
+// Start a widget session when the widget loads, or resume/renew it with the token it already has
+router.post("/widget/:chatbotId/session", protectWidgetSessionStart, parseWidgetJson, async (req, res) => {
+  try {
+    const token = typeof req.body?.token === 'string' ? req.body.token : undefined;
+    const session = await widgetApplicationService.startSession(req.params.chatbotId, getSiteOrigin(req), token);
+    res.json(session);
+  } catch (error: any) {
+    console.error(`Widget session error for chatbot ${req.params.chatbotId}:`, error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ response: error.message });
+    }
+    res.status(500).json({ response: "Failed to start chat session" });
+  }
+});
+
 // Lead capture endpoint for widgets
-router.post("/widget/:chatbotId/capture-lead", express.json(), async (req, res) => {
+router.post("/widget/:chatbotId/capture-lead", requireWidgetSession, protectWidgetEndpoint, parseWidgetJson, async (req, res) => {
   try {
     const { chatbotId } = req.params;
-    const result = await widgetApplicationService.captureLead(chatbotId, req.body);
+    const result = await widgetApplicationService.captureLead(chatbotId, req.widgetSessionId!, req.body);
     res.json(result);
   } catch (error: any) {
     console.error("Error capturing lead:", error);
@@ -100,21 +153,109 @@ router.post("/widget/:chatbotId/capture-lead", express.json(), async (req, res)
 });
 
 // Widget message processing
-router.post("/widget/:chatbotId/message", async (req, res) => {
+router.post("/widget/:chatbotId/message", requireWidgetSession, protectWidgetEndpoint, parseWidgetJson, receiveAttachments, async (req, res) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  try {
+    await widgetApplicationService.validateAttachments(req.params.chatbotId, files);
+  } catch (error: any) {
+    return res.status(error.message === "Chatbot not found" ? 404 : 400).json({ response: error.message });
+  }
+
+  // Clients opt into Server-Sent Events with Accept: text/event-stream or ?stream=1
+  const wantsStream = (req.get('accept') || '').includes('text/event-stream') || req.query.stream === '1';
+  if (wantsStream) {
+    return streamWidgetMessage(req, res, files);
+  }
+
   try {
-    const { message, sessionId } = req.body;
-    const result = await widgetApplicationService.processMessage(req.params.chatbotId, message, sessionId);
+    const result = await widgetApplicationService.processMessage(req.params.chatbotId, req.body.message, req.widgetSessionId!, undefined, files);
     res.json(result);
   } catch (error: any) {
     console.error(`Widget message processing error for chatbot ${req.params.chatbotId}:`, error);
+    if (error instanceof PlanLimitError) {
+      return res.status(402).json({ response: MESSAGE_LIMIT_RESPONSE, responseOptions: undefined, quotaExceeded: true });
+    }
+    if (error?.message === "Chatbot unavailable") {
+      return res.status(403).json({ response: error.message, responseOptions: undefined });
+    }
 
     res.status(500).json({
-      response: error.message || "I'm sorry, I'm having trouble processing your request right now. Please try again later.",
+      response: error?.message || "I'm sorry, I'm having trouble processing your request right now. Please try again later.",
       responseOptions: undefined
     });
   }
 });
 
+// Visitor asks to talk to a person
+router.post("/widget/:chatbotId/handoff", requireWidgetSession, protectWidgetEndpoint, parseWidgetJson, async (req, res) => {
+  try {
+    const result = await widgetApplicationService.requestHandoff(req.params.chatbotId, req.widgetSessionId!, req.body.reason);
+    res.json(result);
+  } catch (error: any) {
+    console.error(`Handoff request error for chatbot ${req.params.chatbotId}:`, error);
+    if (error.message === "Chatbot not found") {
+      return res.status(404).json({ message: error.message });
+    }
+    if (error.message === "Handoff not available") {
+      return res.status(403).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Poll handoff status and staff replies for a widget session
+router.get("/widget/:chatbotId/handoff", requireWidgetSession, protectWidgetPolling, async (req, res) => {
+  try {
+    const { after } = req.query;
+    const updates = await widgetApplicationService.getHandoffUpdates(
+      req.params.chatbotId,
+      req.widgetSessionId!,
+      typeof after === 'string' ? after : undefined
+    );
+    res.json(updates);
+  } catch (error: any) {
+    console.error(`Handoff polling error for chatbot ${req.params.chatbotId}:`, error);
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Stream a widget reply as SSE: "token" events, then one "done" (or "error") event
+async function streamWidgetMessage(req: Request, res: Response, files: Express.Multer.File[]) {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const result = await widgetApplicationService.processMessage(
+      req.params.chatbotId,
+      req.body.message,
+      req.widgetSessionId!,
+      (token) => sendEvent('token', { token }),
+      files
+    );
+    sendEvent('done', result);
+  } catch (error: any) {
+    console.error(`Widget message streaming error for chatbot ${req.params.chatbotId}:`, error);
+    if (error instanceof PlanLimitError) {
+      sendEvent('error', { response: MESSAGE_LIMIT_RESPONSE, quotaExceeded: true });
+      return;
+    }
+    sendEvent('error', {
+      response: error?.message || "I'm sorry, I'm having trouble processing your request right now. Please try again later."
+    });
+  } finally {
+    res.end();
+  }
+}
+
 // Serve the widget loader script
 router.get("/widget-embed.js", (req, res) => {
   const protocol = req.secure ? 'https' : 'http';
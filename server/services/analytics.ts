@@ -0,0 +1,154 @@
+import { storage } from "../storage.js";
+import type {
+  AnalyticsEventType,
+  AnalyticsGranularity,
+  ChatbotAnalyticsDaily,
+  ChatbotAnalyticsPoint,
+  ChatbotAnalyticsReport,
+} from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_ANALYTICS_DAYS = 366;
+
+type DailyCounts = Omit<ChatbotAnalyticsDaily, 'id' | 'chatbotId' | 'date' | 'updatedAt'>;
+
+const EMPTY_COUNTS: DailyCounts = {
+  conversationsStarted: 0,
+  messagesReceived: 0,
+  botResponses: 0,
+  kbHits: 0,
+  kbMisses: 0,
+  fallbackResponses: 0,
+  leadsCaptured: 0,
+  appointmentsBooked: 0,
+  totalResponseMs: 0,
+};
+
+// UTC calendar date (YYYY-MM-DD) of an instant
+function toDate(instant: Date): string {
+  return instant.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return toDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+}
+
+// First day of the bucket a date falls in; weeks start on Monday
+function bucketStart(date: string, granularity: AnalyticsGranularity): string {
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+  if (granularity === 'week') {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return addDays(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+function toPoint(period: string, counts: DailyCounts): ChatbotAnalyticsPoint {
+  return {
+    period,
+    conversationsStarted: counts.conversationsStarted,
+    messagesReceived: counts.messagesReceived,
+    botResponses: counts.botResponses,
+    leadsCaptured: counts.leadsCaptured,
+    appointmentsBooked: counts.appointmentsBooked,
+    messagesPerConversation: ratio(counts.messagesReceived, counts.conversationsStarted) ?? 0,
+    kbHitRate: ratio(counts.kbHits, counts.kbHits + counts.kbMisses),
+    fallbackRate: ratio(counts.fallbackResponses, counts.botResponses),
+    leadConversionRate: ratio(counts.leadsCaptured, counts.conversationsStarted),
+    avgResponseMs: counts.botResponses > 0 ? Math.round(counts.totalResponseMs / counts.botResponses) : null,
+  };
+}
+
+function addCounts(total: DailyCounts, row: DailyCounts): DailyCounts {
+  const sum = { ...total };
+  for (const key of Object.keys(EMPTY_COUNTS) as Array<keyof DailyCounts>) {
+    sum[key] += row[key];
+  }
+  return sum;
+}
+
+/**
+ * Analytics Service
+ * Records chat events and serves per-chatbot metrics from the daily rollups.
+ * Rollups are refreshed on read: days never rolled up, or rolled up before they ended, are recomputed.
+ */
+export class AnalyticsService {
+  /**
+   * Record an event without holding up the chat; failures are only logged
+   */
+  record(event: { chatbotId: string; conversationId?: string | null; type: AnalyticsEventType; value?: number | null }): void {
+    storage.recordAnalyticsEvent(event).catch(error => {
+      console.error(`[Analytics] Failed to record ${event.type} for chatbot ${event.chatbotId}:`, error);
+    });
+  }
+
+  /**
+   * Totals and a time series for a chatbot between two UTC dates (inclusive); the A/B test results
+   * come from the experiment service
+   */
+  async getChatbotAnalytics(
+    chatbotId: string,
+    from: string,
+    to: string,
+    granularity: AnalyticsGranularity
+  ): Promise<Omit<ChatbotAnalyticsReport, 'experiment'>> {
+    const rows = await this.getFreshRollups(chatbotId, from, to);
+
+    const buckets = new Map<string, DailyCounts>();
+    for (let date = bucketStart(from, granularity); date <= to; date = addDays(date, 1)) {
+      buckets.set(bucketStart(date, granularity), EMPTY_COUNTS);
+    }
+
+    let totals = EMPTY_COUNTS;
+    for (const row of rows) {
+      const period = bucketStart(row.date, granularity);
+      buckets.set(period, addCounts(buckets.get(period) || EMPTY_COUNTS, row));
+      totals = addCounts(totals, row);
+    }
+
+    return {
+      chatbotId,
+      from,
+      to,
+      granularity,
+      totals: toPoint(from, totals),
+      series: Array.from(buckets, ([period, counts]) => toPoint(period, counts)),
+    };
+  }
+
+  /**
+   * Roll up the finished days of a range that are missing or were still in progress, so their
+   * counts survive the deletion of the conversations and messages they were computed from
+   */
+  async freezeRollups(chatbotId: string, from: string, to: string): Promise<void> {
+    await this.getFreshRollups(chatbotId, from, to);
+  }
+
+  // Daily rows for the range, rolling up the days that are missing or were still in progress
+  private async getFreshRollups(chatbotId: string, from: string, to: string): Promise<ChatbotAnalyticsDaily[]> {
+    const today = toDate(new Date());
+    const lastDay = to < today ? to : today;
+    if (lastDay < from) return [];
+
+    const rows = await storage.getChatbotAnalyticsDaily(chatbotId, from, lastDay);
+    const byDate = new Map(rows.map(row => [row.date, row]));
+
+    const stale: string[] = [];
+    for (let date = from; date <= lastDay; date = addDays(date, 1)) {
+      const row = byDate.get(date);
+      const dayEnd = Date.parse(`${addDays(date, 1)}T00:00:00Z`);
+      if (!row || parseUtc(row.updatedAt) < dayEnd) {
+        stale.push(date);
+      }
+    }
+    if (stale.length === 0) return rows;
+
+    await storage.rollupChatbotAnalytics(chatbotId, stale[0], stale[stale.length - 1]);
+    return storage.getChatbotAnalyticsDaily(chatbotId, from, lastDay);
+  }
+}
+
+export const analyticsService = new AnalyticsService();
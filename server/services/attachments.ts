@@ -0,0 +1,190 @@
+import { nanoid } from "nanoid";
+import { storage } from "../storage.js";
+import { supabaseService } from "./supabase.js";
+import { documentProcessor, type ChunkingStrategy } from "./document-processor.js";
+import type { ChatbotConfig, ConversationAttachment, MessageAttachment } from "../shared/schema.js";
+
+// Files a visitor can attach to one message
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+// Extracted text kept per file
+const MAX_EXTRACTED_CHARS = 20000;
+// Attachment text added to the prompt; the newest files are kept when there is more
+const MAX_CONTEXT_CHARS = 30000;
+
+// Content types DocumentProcessor reads, by extension; browsers report these types inconsistently
+const DOCUMENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  json: 'application/json',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  html: 'text/html',
+  htm: 'text/html',
+};
+
+// The text is read whole, so chunks must not overlap; CSV headers are given once
+const EXTRACTION_STRATEGY: ChunkingStrategy = {
+  csv: { rowsPerChunk: 1000, includeHeaders: true, columnSeparator: ", " },
+  pdf: { chunkSize: 4000, overlap: 0, preserveParagraphs: true },
+  text: { chunkSize: 4000, overlap: 0, respectSentences: true },
+};
+
+// An uploaded attachment waiting for the message it belongs to
+export type PendingAttachment = Omit<ConversationAttachment, 'createdAt' | 'messageId'>;
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Attachment Service
+ * Checks visitor uploads against advancedSettings, stores them per conversation and gives the model
+ * the text of the documents shared in a conversation
+ */
+export class AttachmentService {
+  /**
+   * Reject files the chatbot does not accept: uploads disabled, too many, too large or a type not allowed
+   */
+  validate(files: Express.Multer.File[], config: ChatbotConfig): void {
+    if (files.length === 0) return;
+
+    const settings = config.advancedSettings;
+    if (!settings?.allowFileUploads) {
+      throw new Error("File uploads are not enabled for this chatbot");
+    }
+    if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new Error(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+    }
+
+    const maxSizeMB = settings.maxFileSize || 10;
+    const allowedTypes = (settings.allowedFileTypes || []).map(type => type.replace(/^\./, '').toLowerCase());
+    for (const file of files) {
+      if (file.size > maxSizeMB * 1024 * 1024) {
+        throw new Error(`"${file.originalname}" is larger than ${maxSizeMB} MB`);
+      }
+      if (!allowedTypes.includes(getExtension(file.originalname))) {
+        throw new Error(`"${file.originalname}" is not an allowed file type (allowed: ${allowedTypes.join(', ')})`);
+      }
+    }
+  }
+
+  /**
+   * Upload files to the conversation's storage and extract the text of supported documents
+   */
+  async upload(chatbotId: string, conversationId: string, files: Express.Multer.File[]): Promise<PendingAttachment[]> {
+    const pending: PendingAttachment[] = [];
+
+    for (const file of files) {
+      const storagePath = await supabaseService.uploadAttachment(conversationId, file.buffer, file.originalname, file.mimetype);
+      pending.push({
+        id: nanoid(),
+        conversationId,
+        chatbotId,
+        filename: file.originalname,
+        contentType: file.mimetype,
+        size: file.size,
+        storagePath,
+        extractedText: await this.extractText(file),
+      });
+    }
+
+    return pending;
+  }
+
+  /**
+   * Record uploaded attachments against the visitor message they were sent with
+   */
+  async save(pending: PendingAttachment[], messageId: string): Promise<ConversationAttachment[]> {
+    const saved: ConversationAttachment[] = [];
+    for (const attachment of pending) {
+      saved.push(await storage.createConversationAttachment({ ...attachment, messageId }));
+    }
+    return saved;
+  }
+
+  /**
+   * Attachment summary for messages.metadata
+   */
+  describe(attachment: PendingAttachment | ConversationAttachment): MessageAttachment {
+    return {
+      id: attachment.id,
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      size: attachment.size,
+    };
+  }
+
+  /**
+   * Prompt section with the files shared in a conversation; empty when there are none
+   */
+  async buildContext(conversationId?: string): Promise<string> {
+    if (!conversationId) return '';
+
+    const attachments = await storage.getConversationAttachments([conversationId]);
+    if (attachments.length === 0) return '';
+
+    let remaining = MAX_CONTEXT_CHARS;
+    const sections: string[] = [];
+    for (const attachment of [...attachments].reverse()) {
+      if (!attachment.extractedText) {
+        sections.unshift(`[${attachment.filename}] (content not readable)`);
+        continue;
+      }
+      if (remaining <= 0) break;
+
+      const text = attachment.extractedText.slice(0, remaining);
+      remaining -= text.length;
+      sections.unshift(`[${attachment.filename}]\n${text}`);
+    }
+
+    return `\n\nFILES SHARED BY THE VISITOR IN THIS CONVERSATION:\n${sections.join('\n\n')}\nUse these files to answer questions about them.`;
+  }
+
+  /**
+   * Short-lived download link for an attachment in one of the client's conversations
+   */
+  async getDownloadUrl(conversationId: string, attachmentId: string, clientId: string): Promise<string> {
+    const attachment = await storage.getConversationAttachment(attachmentId);
+    if (!attachment || attachment.conversationId !== conversationId) {
+      throw new Error("Attachment not found");
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation || conversation.clientId !== clientId) {
+      throw new Error("Attachment not found");
+    }
+
+    return supabaseService.getAttachmentUrl(attachment.storagePath, attachment.filename);
+  }
+
+  /**
+   * Remove the stored files of conversations about to be deleted; their rows go with the conversations
+   */
+  async deleteFiles(conversationIds: string[]): Promise<number> {
+    const attachments = await storage.getConversationAttachments(conversationIds);
+    if (attachments.length > 0 && supabaseService.isAvailable()) {
+      await supabaseService.deleteAttachments(attachments.map(attachment => attachment.storagePath));
+    }
+    return attachments.length;
+  }
+
+  private async extractText(file: Express.Multer.File): Promise<string | null> {
+    const contentType = DOCUMENT_TYPES[getExtension(file.originalname)];
+    if (!contentType) return null;
+
+    try {
+      const result = await documentProcessor.processDocument(file.buffer, contentType, file.originalname, EXTRACTION_STRATEGY);
+      const text = result.chunks.map(chunk => chunk.text).join('\n\n').trim();
+      return text ? text.slice(0, MAX_EXTRACTED_CHARS) : null;
+    } catch (error) {
+      console.error(`[Attachments] Failed to extract text from ${file.originalname}:`, error);
+      return null;
+    }
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,277 @@
+import { storage } from "../storage.js";
+import { googleCalendarService, type BusyInterval, type CalendarEvent } from "./google-calendar.js";
+import { webhookService } from "./webhooks.js";
+import type { Appointment, ChatbotConfig } from "../shared/schema.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DURATION_MINUTES = 60;
+// Slots start every 30 minutes (or every appointment length, if shorter)
+const SLOT_STEP_MINUTES = 30;
+const MAX_SLOTS = 50;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export interface BookingContext {
+  clientId: string;
+  chatbotId: string;
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface BookingRequest {
+  start: Date;
+  appointmentTypeId?: string;
+  title?: string;
+  description?: string;
+  customerName?: string;
+  customerEmail?: string;
+}
+
+export interface BookingResult {
+  appointment: Appointment;
+  event: CalendarEvent;
+  timezone: string;
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant at which a local date (YYYY-MM-DD) and time (HH:MM) occur in a time zone
+function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Apply the offset twice so times next to a DST change resolve correctly
+  const guess = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffset(new Date(guess), timezone));
+}
+
+// Local calendar date (YYYY-MM-DD) of an instant in a time zone
+function toLocalDate(instant: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function overlaps(slot: TimeSlot, busy: BusyInterval[]): boolean {
+  return busy.some(interval => slot.start < interval.end && slot.end > interval.start);
+}
+
+/**
+ * Calendar Booking Service
+ * Availability = business hours ∩ booking window − (calendar free/busy + booked appointments),
+ * sliced into slots of the appointment type's duration. Bookings create the calendar event
+ * and the matching appointments row.
+ */
+export class CalendarBookingService {
+  /**
+   * Open slots between two instants for an appointment type
+   */
+  async getAvailableSlots(
+    context: BookingContext,
+    config: ChatbotConfig,
+    range: { start: Date; end: Date; appointmentTypeId?: string }
+  ): Promise<{ slots: TimeSlot[]; duration: number; timezone: string }> {
+    const calendarId = this.getCalendarId(config);
+    const duration = this.getDuration(config, range.appointmentTypeId);
+    const timezone = this.getTimezone(config);
+
+    const window = this.getBookingWindow(config);
+    const start = new Date(Math.max(range.start.getTime(), window.start.getTime()));
+    const end = new Date(Math.min(range.end.getTime(), window.end.getTime()));
+    if (end <= start) {
+      return { slots: [], duration, timezone };
+    }
+
+    const busy = await this.getBusy(context, calendarId, start, end);
+    const stepMs = Math.min(duration, SLOT_STEP_MINUTES) * 60 * 1000;
+    const slots: TimeSlot[] = [];
+
+    const lastDate = toLocalDate(end, timezone);
+    for (let date = toLocalDate(start, timezone); date <= lastDate && slots.length < MAX_SLOTS; date = addDays(date, 1)) {
+      const hours = this.getOpeningHours(config, date, timezone);
+      if (!hours) continue;
+
+      for (let slotStart = hours.start.getTime(); slotStart + duration * 60000 <= hours.end.getTime(); slotStart += stepMs) {
+        const slot = { start: new Date(slotStart), end: new Date(slotStart + duration * 60000) };
+        if (slot.start < start || slot.end > end || overlaps(slot, busy)) continue;
+
+        slots.push(slot);
+        if (slots.length >= MAX_SLOTS) break;
+      }
+    }
+
+    return { slots, duration, timezone };
+  }
+
+  /**
+   * Book a slot: checks it is still free, then writes the calendar event and the appointment
+   */
+  async bookAppointment(context: BookingContext, config: ChatbotConfig, request: BookingRequest): Promise<BookingResult> {
+    const calendarId = this.getCalendarId(config);
+    if (!config.mcpTools?.googleCalendar?.allowBooking) {
+      throw new Error("Online booking is disabled for this chatbot");
+    }
+
+    const appointmentType = this.getAppointmentType(config, request.appointmentTypeId);
+    const duration = appointmentType?.duration || DEFAULT_DURATION_MINUTES;
+    const timezone = this.getTimezone(config);
+    const slot = { start: request.start, end: new Date(request.start.getTime() + duration * 60000) };
+
+    const window = this.getBookingWindow(config);
+    if (slot.start < window.start) {
+      throw new Error(`Appointments must be booked at least ${config.mcpTools.googleCalendar!.bookingLeadTime} day(s) in advance`);
+    }
+    if (slot.end > window.end) {
+      throw new Error(`Appointments can only be booked up to ${config.mcpTools.googleCalendar!.maxBookingDays} days ahead`);
+    }
+
+    const hours = this.getOpeningHours(config, toLocalDate(slot.start, timezone), timezone);
+    if (!hours || slot.start < hours.start || slot.end > hours.end) {
+      throw new Error("The requested time is outside business hours");
+    }
+
+    const busy = await this.getBusy(context, calendarId, slot.start, slot.end);
+    if (overlaps(slot, busy)) {
+      throw new Error("This time slot is no longer available");
+    }
+
+    const title = request.title || [appointmentType?.name || 'Appointment', request.customerName].filter(Boolean).join(' - ');
+    const description = [
+      request.description,
+      request.customerName && `Name: ${request.customerName}`,
+      request.customerEmail && `Email: ${request.customerEmail}`,
+    ].filter(Boolean).join('\n') || undefined;
+
+    const event = await googleCalendarService.createEvent(context.clientId, calendarId, {
+      summary: title,
+      description,
+      start: slot.start,
+      end: slot.end,
+      timezone,
+      attendeeEmail: request.customerEmail,
+    });
+
+    const appointment = await storage.createAppointment({
+      clientId: context.clientId,
+      chatbotId: context.chatbotId,
+      title,
+      description: description || null,
+      startTime: slot.start,
+      endTime: slot.end,
+      status: 'scheduled',
+      externalId: event.id,
+    });
+    await webhookService.appointmentBooked(appointment);
+
+    console.log(`[Calendar] Booked appointment ${appointment.id} (event ${event.id}) for chatbot ${context.chatbotId}`);
+    return { appointment, event, timezone };
+  }
+
+  /**
+   * Time zone for booking: business hours when they apply, otherwise the calendar's
+   */
+  getTimezone(config: ChatbotConfig): string {
+    if (config.businessHours?.enabled && config.businessHours.timezone) {
+      return config.businessHours.timezone;
+    }
+    return config.mcpTools?.googleCalendar?.timezone || 'UTC';
+  }
+
+  /**
+   * Parse a local date (YYYY-MM-DD) and time (HH:MM) in the booking time zone
+   */
+  parseLocalDateTime(config: ChatbotConfig, date: string, time: string): Date {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^([01]?\d|2[0-3]):[0-5]\d$/.test(time)) {
+      throw new Error("Invalid date/time format");
+    }
+    return zonedTimeToUtc(date, time, this.getTimezone(config));
+  }
+
+  private getCalendarId(config: ChatbotConfig): string {
+    const calendar = config.mcpTools?.googleCalendar;
+    if (!calendar?.enabled) {
+      throw new Error("Google Calendar integration not enabled for this chatbot");
+    }
+    return calendar.calendarId || 'primary';
+  }
+
+  private getAppointmentType(config: ChatbotConfig, appointmentTypeId?: string) {
+    const types = config.appointments?.enabled ? config.appointments.types : [];
+    if (!appointmentTypeId) return types[0];
+
+    const wanted = appointmentTypeId.toLowerCase();
+    const type = types.find(t => t.id.toLowerCase() === wanted || t.name.toLowerCase() === wanted);
+    if (!type) {
+      throw new Error(`Unknown appointment type: ${appointmentTypeId}`);
+    }
+    return type;
+  }
+
+  private getDuration(config: ChatbotConfig, appointmentTypeId?: string): number {
+    return this.getAppointmentType(config, appointmentTypeId)?.duration || DEFAULT_DURATION_MINUTES;
+  }
+
+  // Earliest and latest bookable instants from bookingLeadTime and maxBookingDays
+  private getBookingWindow(config: ChatbotConfig) {
+    const calendar = config.mcpTools?.googleCalendar;
+    const now = Date.now();
+    return {
+      start: new Date(now + (calendar?.bookingLeadTime ?? 1) * DAY_MS),
+      end: new Date(now + (calendar?.maxBookingDays ?? 30) * DAY_MS),
+    };
+  }
+
+  // Opening hours on a local date; like the widget, disabled business hours mean open all day
+  private getOpeningHours(config: ChatbotConfig, date: string, timezone: string): TimeSlot | null {
+    if (!config.businessHours?.enabled) {
+      return {
+        start: zonedTimeToUtc(date, '00:00', timezone),
+        end: zonedTimeToUtc(addDays(date, 1), '00:00', timezone),
+      };
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+    const schedule = config.businessHours.schedule?.[weekday];
+    if (!schedule || schedule.closed) return null;
+
+    return {
+      start: zonedTimeToUtc(date, schedule.open, timezone),
+      end: zonedTimeToUtc(date, schedule.close, timezone),
+    };
+  }
+
+  // Calendar free/busy plus appointments already booked through the chatbot
+  private async getBusy(context: BookingContext, calendarId: string, start: Date, end: Date): Promise<BusyInterval[]> {
+    const [calendarBusy, appointments] = await Promise.all([
+      googleCalendarService.getBusyIntervals(context.clientId, calendarId, start, end),
+      storage.getAppointmentsInRange(context.chatbotId, start, end),
+    ]);
+
+    return [
+      ...calendarBusy,
+      ...appointments.map(appointment => ({
+        start: new Date(appointment.startTime),
+        end: new Date(appointment.endTime),
+      })),
+    ];
+  }
+}
+
+export const calendarBookingService = new CalendarBookingService();
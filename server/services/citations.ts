@@ -0,0 +1,100 @@
+import type { KBSearchResult, MessageCitation } from "../shared/schema.js";
+
+// Cited passages are shown in full up to this length
+const MAX_PASSAGE_LENGTH = 1000;
+
+// [n] markers, not markdown links
+const CITATION_MARKER = /( ?)\[(\d{1,2})\](?!\()/g;
+
+/**
+ * Where a chunk sits in its document, from the metadata the document processor stored
+ */
+export function describeChunkLocation(metadata: any): string | null {
+  if (!metadata || typeof metadata !== 'object') return null;
+
+  if (metadata.pageStart) {
+    return metadata.pageEnd && metadata.pageEnd !== metadata.pageStart
+      ? `Pages ${metadata.pageStart}–${metadata.pageEnd}`
+      : `Page ${metadata.pageStart}`;
+  }
+
+  const rows = metadata.startRow
+    ? metadata.endRow && metadata.endRow !== metadata.startRow
+      ? `rows ${metadata.startRow}–${metadata.endRow}`
+      : `row ${metadata.startRow}`
+    : null;
+  if (metadata.sheetName) {
+    return rows ? `Sheet ${metadata.sheetName}, ${rows}` : `Sheet ${metadata.sheetName}`;
+  }
+  if (rows) {
+    return rows.charAt(0).toUpperCase() + rows.slice(1);
+  }
+
+  if (metadata.path) return `Path ${metadata.path}`;
+
+  return null;
+}
+
+/**
+ * Citation Service
+ * Numbers knowledge base passages for the prompt and turns the [n] markers of an answer into citations
+ */
+export class CitationService {
+  /**
+   * Knowledge base context for the system prompt, one numbered passage per search result
+   */
+  buildContext(results: KBSearchResult[]): string {
+    let context = '\n\nRELEVANT INFORMATION FROM KNOWLEDGE BASE:\n';
+    results.forEach((chunk, idx) => {
+      const location = describeChunkLocation(chunk.metadata);
+      const source = location ? `${chunk.filename}, ${location}` : chunk.filename;
+      context += `\n[${idx + 1}] (Source: ${source}; Relevance: ${(chunk.similarity * 100).toFixed(1)}%)\n${chunk.text}\n`;
+    });
+    context += `
+CITATION RULES:
+- Answer from the passages above when they are relevant, and keep your response concise and conversational
+- After each statement taken from a passage, cite it with its number in square brackets, e.g. [1] or [1][3]
+- Only cite passages you actually used, and never invent citation numbers
+- Do not add a list of sources; the citations are shown to the user as footnotes`;
+    return context;
+  }
+
+  /**
+   * Citations for the passages an answer cites. Markers are renumbered in order of first use so the
+   * footnotes read 1, 2, 3; markers that do not match a passage are removed.
+   */
+  extract(answer: string, results: KBSearchResult[]): { message: string; citations: MessageCitation[] } {
+    const citations: MessageCitation[] = [];
+    const numbers = new Map<number, number>();
+
+    const message = answer
+      .replace(CITATION_MARKER, (_marker, space: string, value: string) => {
+        const resultIndex = Number(value) - 1;
+        const result = results[resultIndex];
+        if (!result) return '';
+
+        if (!numbers.has(resultIndex)) {
+          const index = citations.length + 1;
+          numbers.set(resultIndex, index);
+          citations.push({
+            index,
+            chunkId: result.chunkId,
+            documentId: result.documentId,
+            documentName: result.filename,
+            location: describeChunkLocation(result.metadata),
+            sourceUrl: result.sourceUrl,
+            passage: result.text.length > MAX_PASSAGE_LENGTH
+              ? `${result.text.slice(0, MAX_PASSAGE_LENGTH).trimEnd()}…`
+              : result.text,
+          });
+        }
+        return `${space}[${numbers.get(resultIndex)}]`;
+      })
+      // Citing the same passage twice in a row reads as noise
+      .replace(/(\[\d+\])(?:\s*\1)+/g, '$1');
+
+    return { message, citations };
+  }
+}
+
+export const citationService = new CitationService();
@@ -0,0 +1,112 @@
+import { storage } from "../storage.js";
+import type { ChatbotConfig } from "../shared/schema.js";
+import type { LLMProvider } from "./llm-provider.js";
+
+export interface MemoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationMemory {
+  summary?: string;
+  history: MemoryMessage[];
+}
+
+const DEFAULT_MEMORY_WINDOW = 10;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a website visitor and an assistant.
+Merge the new messages into the existing summary.
+Keep names, contact details, dates, products or services asked about, decisions made and open questions.
+Drop greetings and small talk. Write at most 150 words, in the language of the conversation.
+Return only the updated summary.`;
+
+/**
+ * Conversation Memory Service
+ * Loads chat context from the messages table so history survives restarts and
+ * is shared across instances. Turns older than the memory window are folded
+ * into a rolling summary stored on the conversation row.
+ */
+export class ConversationMemoryService {
+  /**
+   * Load the summary and recent history for a conversation
+   */
+  async load(
+    conversationId: string | undefined,
+    clientId: string,
+    config: ChatbotConfig,
+    llm: LLMProvider,
+    currentMessage?: string
+  ): Promise<ConversationMemory> {
+    if (!conversationId) {
+      return { history: [] };
+    }
+
+    try {
+      const [conversation, messages] = await Promise.all([
+        storage.getConversation(conversationId),
+        storage.getMessagesByConversationId(conversationId, clientId),
+      ]);
+
+      // Staff replies from a handoff read as assistant turns once the bot takes over again
+      const turns: MemoryMessage[] = messages
+        .filter(m => m.role === 'user' || m.role === 'assistant' || m.role === 'agent')
+        .map(m => ({ role: m.role === 'user' ? 'user' : 'assistant', content: m.content }));
+
+      // The widget stores the incoming message before replying; it is sent separately
+      const last = turns[turns.length - 1];
+      if (currentMessage && last?.role === 'user' && last.content === currentMessage) {
+        turns.pop();
+      }
+
+      const window = config.advancedSettings?.memoryWindow || DEFAULT_MEMORY_WINDOW;
+      let summary = conversation?.summary || undefined;
+      let summarizedCount = Math.min(conversation?.summarizedMessageCount || 0, turns.length);
+
+      // Summarise in batches so the model is not called on every turn
+      const batchSize = Math.max(2, Math.floor(window / 2));
+      const unsummarized = turns.length - summarizedCount;
+      if (unsummarized > window + batchSize && llm.isConfigured()) {
+        const foldUntil = turns.length - window;
+        try {
+          summary = await this.summarize(summary, turns.slice(summarizedCount, foldUntil), llm);
+          summarizedCount = foldUntil;
+          await storage.updateConversationSummary(conversationId, summary, summarizedCount);
+          console.log(`[Memory] Summarised ${foldUntil} messages for conversation ${conversationId}`);
+        } catch (error) {
+          // Keep the unsummarised turns in the history rather than losing them
+          console.error('[Memory] Summarisation failed:', error);
+        }
+      }
+
+      return { summary, history: turns.slice(summarizedCount) };
+    } catch (error) {
+      console.error(`[Memory] Failed to load history for conversation ${conversationId}:`, error);
+      return { history: [] };
+    }
+  }
+
+  /**
+   * Merge messages into the existing rolling summary
+   */
+  private async summarize(
+    previousSummary: string | undefined,
+    messages: MemoryMessage[],
+    llm: LLMProvider
+  ): Promise<string> {
+    const transcript = messages
+      .map(m => `${m.role === 'user' ? 'Visitor' : 'Assistant'}: ${m.content}`)
+      .join('\n');
+
+    const summary = await llm.chat([
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `EXISTING SUMMARY:\n${previousSummary || '(none)'}\n\nNEW MESSAGES:\n${transcript}`
+      }
+    ], { temperature: 0, maxTokens: 400, operation: 'summary' });
+
+    return summary.trim();
+  }
+}
+
+export const conversationMemoryService = new ConversationMemoryService();
@@ -1,6 +1,7 @@
 import * as crypto from 'crypto';
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { encodingForModel } from 'js-tiktoken';
+import { extractMainContent } from '../utils/html.js';
 
 /**
  * Chunking configuration types matching the schema
@@ -118,6 +119,10 @@ export class DocumentProcessor {
         result = await this.processWord(buffer, mergedStrategy.text!);
         break;
 
+      case 'text/html':
+        result = await this.processHTML(buffer, filename, mergedStrategy.text!);
+        break;
+
       default:
         throw new Error(`Unsupported file type: ${contentType}`);
     }
@@ -505,11 +510,33 @@ export class DocumentProcessor {
     // Dynamic import for pdf-parse
     const pdfParse = (await import('pdf-parse')).default;
     
-    const pdfData = await pdfParse(buffer);
-    let text = pdfData.text;
+    // Same text extraction as pdf-parse's default renderer, keeping each page's text
+    const pageTexts: string[] = [];
+    const pdfData = await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        let lastY: number | undefined;
+        let pageText = '';
+        for (const item of content.items) {
+          pageText += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+          lastY = item.transform[5];
+        }
+        pageTexts.push(pageText);
+        return pageText;
+      },
+    });
 
-    // Clean up PDF text
-    text = this.cleanPDFText(text, config.preserveParagraphs);
+    // Clean up PDF text page by page, remembering where each page starts
+    const pageStarts: Array<{ page: number; offset: number }> = [];
+    const separator = config.preserveParagraphs ? '\n\n' : ' ';
+    let text = '';
+    pageTexts.forEach((pageText, idx) => {
+      const cleaned = this.cleanPDFText(pageText, config.preserveParagraphs);
+      if (!cleaned) return;
+      if (text) text += separator;
+      pageStarts.push({ page: idx + 1, offset: text.length });
+      text += cleaned;
+    });
 
     const chunks = await this.chunkTextWithConfig(text, {
       chunkSize: config.chunkSize,
@@ -517,15 +544,36 @@ export class DocumentProcessor {
       respectSentences: true,
     });
 
+    const pageAt = (offset: number) => {
+      let page = pageStarts[0]?.page;
+      for (const start of pageStarts) {
+        if (start.offset > offset) break;
+        page = start.page;
+      }
+      return page;
+    };
+
+    // Chunks come back in order; overlapping chunks start after the previous one
+    let searchFrom = 0;
     return {
-      chunks: chunks.map((chunk, idx) => ({
-        text: chunk,
-        metadata: { 
-          type: 'pdf', 
-          chunkIndex: idx,
-          pageCount: pdfData.numpages,
-        },
-      })),
+      chunks: chunks.map((chunk, idx) => {
+        let start = text.indexOf(chunk, searchFrom);
+        if (start === -1) start = text.indexOf(chunk);
+        if (start !== -1) searchFrom = start + 1;
+
+        return {
+          text: chunk,
+          metadata: {
+            type: 'pdf',
+            chunkIndex: idx,
+            pageCount: pdfData.numpages,
+            ...(start !== -1 && {
+              pageStart: pageAt(start),
+              pageEnd: pageAt(start + chunk.length - 1),
+            }),
+          },
+        };
+      }),
       totalTokens: this.countTokens(text),
       fileType: 'pdf',
     };
@@ -574,6 +622,28 @@ export class DocumentProcessor {
     };
   }
 
+  // ============ HTML Processing ============
+  /**
+   * Web pages (website crawler): chunk the main content, without navigation and page chrome
+   */
+  private async processHTML(
+    buffer: Buffer,
+    filename: string,
+    config: NonNullable<ChunkingStrategy['text']>
+  ): Promise<ProcessingResult> {
+    const page = extractMainContent(buffer.toString('utf-8'));
+    const chunks = await this.chunkTextWithConfig(page.text, config);
+
+    return {
+      chunks: chunks.map((chunk, idx) => ({
+        text: chunk,
+        metadata: { type: 'html', chunkIndex: idx, title: page.title || filename },
+      })),
+      totalTokens: this.countTokens(page.text),
+      fileType: 'html',
+    };
+  }
+
   // ============ Text Chunking ============
   /**
    * Chunk text using LangChain splitter with configuration
@@ -71,6 +71,13 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Get the configuration used when a call does not pass one
+   */
+  getDefaultConfig(): EmbeddingConfig {
+    return { ...this.defaultConfig };
+  }
+
   /**
    * Get model info for a specific model
    */
@@ -0,0 +1,178 @@
+import { getLLMProvider } from "./llm-provider.js";
+import { simpleChatService } from "./simple-chat.js";
+import { retrievalService } from "./retrieval.js";
+import type {
+  ChatbotConfig,
+  EvalCase,
+  EvalCaseResult,
+  EvalRunSettings,
+  EvalRunSummary,
+  KBSearchResult,
+  MessageCitation,
+} from "../shared/schema.js";
+
+// A sentence counts as supported when this share of its words appears in the passages it cites
+const SUPPORTED_SENTENCE_OVERLAP = 0.6;
+// Shorter sentences ("Sure!", "Hope this helps") say nothing that needs support
+const MIN_SCORED_SENTENCE_WORDS = 3;
+
+const CITATION_MARKER = /\[\d{1,2}\]/g;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1);
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function average(values: Array<number | null>): number | null {
+  const scored = values.filter((value): value is number => value !== null);
+  if (scored.length === 0) return null;
+  return round(scored.reduce((sum, value) => sum + value, 0) / scored.length);
+}
+
+function uniqueDocumentIds(results: Array<{ documentId: string }>): string[] {
+  return Array.from(new Set(results.map(result => result.documentId)));
+}
+
+/**
+ * Share of the expected documents found among the documents of the retrieved chunks
+ */
+export function scoreRecall(expectedDocumentIds: string[], retrievedDocumentIds: string[]): number | null {
+  if (expectedDocumentIds.length === 0) return null;
+  const retrieved = new Set(retrievedDocumentIds);
+  const found = expectedDocumentIds.filter(id => retrieved.has(id)).length;
+  return round(found / expectedDocumentIds.length);
+}
+
+/**
+ * Share of the answer's sentences whose words mostly appear in the chunks the answer cites.
+ * An answer citing nothing is unsupported (0); null when there is nothing to score.
+ */
+export function scoreFaithfulness(answer: string, citedPassages: string[]): number | null {
+  const sentences = answer
+    .replace(CITATION_MARKER, '')
+    .split(/(?<=[.!?؟])\s+|\n+/)
+    .map(tokenize)
+    .filter(words => words.length >= MIN_SCORED_SENTENCE_WORDS);
+  if (sentences.length === 0) return null;
+  if (citedPassages.length === 0) return 0;
+
+  const passageWords = new Set(citedPassages.flatMap(tokenize));
+  const supported = sentences.filter(words => {
+    const found = words.filter(word => passageWords.has(word)).length;
+    return found / words.length >= SUPPORTED_SENTENCE_OVERLAP;
+  }).length;
+  return round(supported / sentences.length);
+}
+
+/**
+ * Word overlap (F1) between the answer and the expected answer
+ */
+export function scoreAnswerMatch(answer: string, expectedAnswer: string | null): number | null {
+  if (!expectedAnswer) return null;
+  const answerWords = new Set(tokenize(answer.replace(CITATION_MARKER, '')));
+  const expectedWords = new Set(tokenize(expectedAnswer));
+  if (answerWords.size === 0 || expectedWords.size === 0) return 0;
+
+  let shared = 0;
+  expectedWords.forEach(word => { if (answerWords.has(word)) shared++; });
+  if (shared === 0) return 0;
+
+  const precision = shared / answerWords.size;
+  const recall = shared / expectedWords.size;
+  return round((2 * precision * recall) / (precision + recall));
+}
+
+function citedPassages(citations: MessageCitation[], sources: KBSearchResult[]): string[] {
+  const cited = new Set(citations.map(citation => citation.chunkId));
+  return sources.filter(source => cited.has(source.chunkId)).map(source => source.text);
+}
+
+/**
+ * Evaluation Service
+ * Runs golden questions through the chatbot's retrieval and generation pipeline and scores the
+ * answers: recall@k of the expected documents, faithfulness to the cited chunks, and fallbacks.
+ */
+export class EvaluationService {
+  /**
+   * The chatbot's config with its model swapped for the offline fake provider, so a run needs no API keys
+   */
+  withStubLLM(config: ChatbotConfig): ChatbotConfig {
+    return {
+      ...config,
+      advancedSettings: {
+        ...config.advancedSettings,
+        model: { ...config.advancedSettings.model, provider: 'fake', model: 'fake' },
+      },
+    };
+  }
+
+  getRunSettings(config: ChatbotConfig): EvalRunSettings {
+    const llm = getLLMProvider(config);
+    return { provider: llm.name, model: llm.settings.model, k: retrievalService.getSettings(config).topK };
+  }
+
+  /**
+   * Ask one golden question in a fresh conversation and score the answer
+   */
+  async evaluateCase(
+    evalCase: EvalCase,
+    config: ChatbotConfig,
+    chatbot: { id: string; clientId: string }
+  ): Promise<EvalCaseResult> {
+    const result: EvalCaseResult = {
+      caseId: evalCase.id,
+      question: evalCase.question,
+      expectedAnswer: evalCase.expectedAnswer,
+      expectedDocumentIds: evalCase.expectedDocumentIds,
+      answer: '',
+      retrievedDocumentIds: [],
+      citedDocumentIds: [],
+      recall: null,
+      faithfulness: null,
+      answerMatch: null,
+      fallback: false,
+      latencyMs: 0,
+    };
+
+    const startedAt = Date.now();
+    try {
+      const { message, citations, sources } = await simpleChatService.processMessage(evalCase.question, config, {
+        chatbotId: chatbot.id,
+        clientId: chatbot.clientId,
+        sessionId: `eval_${evalCase.id}`,
+        sandbox: true,
+      });
+      result.latencyMs = Date.now() - startedAt;
+
+      const fallbackMessage = config.behavior?.fallbackMessage?.trim();
+      result.answer = message;
+      result.retrievedDocumentIds = uniqueDocumentIds(sources);
+      result.citedDocumentIds = uniqueDocumentIds(citations);
+      result.fallback = !!fallbackMessage && message.includes(fallbackMessage);
+      result.recall = scoreRecall(evalCase.expectedDocumentIds, result.retrievedDocumentIds);
+      if (!result.fallback) {
+        result.faithfulness = scoreFaithfulness(message, citedPassages(citations, sources));
+        result.answerMatch = scoreAnswerMatch(message, evalCase.expectedAnswer);
+      }
+    } catch (error: any) {
+      result.latencyMs = Date.now() - startedAt;
+      result.error = error.message || String(error);
+    }
+
+    return result;
+  }
+
+  summarize(results: EvalCaseResult[]): EvalRunSummary {
+    const cases = results.length;
+    return {
+      cases,
+      recall: average(results.map(result => result.recall)),
+      faithfulness: average(results.map(result => result.faithfulness)),
+      answerMatch: average(results.map(result => result.answerMatch)),
+      fallbackRate: cases > 0 ? round(results.filter(result => result.fallback).length / cases) : 0,
+      avgLatencyMs: cases > 0 ? Math.round(results.reduce((sum, result) => sum + result.latencyMs, 0) / cases) : 0,
+    };
+  }
+}
+
+export const evaluationService = new EvaluationService();
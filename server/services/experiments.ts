@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { storage } from "../storage.js";
+import {
+  CONTROL_VARIANT_ID,
+  type BehaviorVariant,
+  type ChatbotConfig,
+  type ExperimentReport,
+  type ExperimentVariantResult,
+  type VariantOutcomeRow,
+} from "../shared/schema.js";
+
+type ExperimentSettings = ChatbotConfig['experiment'];
+
+// Variants whose lead conversion differs from control's with a lower p-value are reported as significant
+const SIGNIFICANCE_LEVEL = 0.05;
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+// Standard normal distribution function (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided two-proportion z-test of a variant's lead conversion against control's
+ */
+function compareConversion(variant: VariantOutcomeRow, control: VariantOutcomeRow): { uplift: number | null; pValue: number | null } {
+  if (variant.conversations === 0 || control.conversations === 0) {
+    return { uplift: null, pValue: null };
+  }
+
+  const rate = variant.convertedConversations / variant.conversations;
+  const controlRate = control.convertedConversations / control.conversations;
+  const pooled = (variant.convertedConversations + control.convertedConversations) / (variant.conversations + control.conversations);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / variant.conversations + 1 / control.conversations));
+
+  // Both sides converted none or all of their conversations: nothing tells them apart
+  const pValue = standardError === 0 ? 1 : 2 * (1 - normalCdf(Math.abs(rate - controlRate) / standardError));
+  return { uplift: rate - controlRate, pValue };
+}
+
+const emptyOutcome = (variant: string): VariantOutcomeRow => ({
+  variant,
+  conversations: 0,
+  convertedConversations: 0,
+  handoffs: 0,
+  messagesReceived: 0,
+  botResponses: 0,
+  fallbackResponses: 0,
+});
+
+/**
+ * Experiment Service
+ * A/B tests of a chatbot's behavior settings. Widget sessions are assigned to control or one of the
+ * config's experiment variants by a hash of the session ID, so a session keeps its variant; the
+ * variant is recorded on the conversation and lead conversion is compared per variant.
+ */
+export class ExperimentService {
+  /**
+   * The variant for a widget session, or null when the chatbot runs no experiment. A variant already
+   * recorded on the session's conversation is kept, even after the weights change.
+   */
+  assignVariant(config: ChatbotConfig, sessionId: string, recordedVariant?: string | null): string | null {
+    const { enabled, controlWeight, variants } = config.experiment;
+    if (!enabled || variants.length === 0) return null;
+    if (recordedVariant) return recordedVariant;
+
+    const total = controlWeight + variants.reduce((sum, variant) => sum + variant.weight, 0);
+    if (total === 0) return CONTROL_VARIANT_ID;
+
+    // First 32 bits of the hash, as a point in [0, total)
+    const point = createHash('sha256').update(sessionId).digest().readUInt32BE(0) / 2 ** 32 * total;
+    let upper = controlWeight;
+    if (point < upper) return CONTROL_VARIANT_ID;
+    for (const variant of variants) {
+      upper += variant.weight;
+      if (point < upper) return variant.id;
+    }
+    return variants[variants.length - 1].id;
+  }
+
+  /**
+   * The config with a variant's behavior settings; control, unknown variants and stopped experiments
+   * keep the chatbot's own
+   */
+  applyVariant(config: ChatbotConfig, variantId: string | null): ChatbotConfig {
+    const variant = this.getVariant(config, variantId);
+    if (!variant) return config;
+
+    const { welcomeMessage, suggestedPrompts, aiPersonality, customInstructions } = variant;
+    return {
+      ...config,
+      behavior: {
+        ...config.behavior,
+        ...(welcomeMessage !== undefined && { welcomeMessage }),
+        ...(suggestedPrompts !== undefined && { suggestedPrompts }),
+        ...(aiPersonality !== undefined && { aiPersonality }),
+        ...(customInstructions !== undefined && { customInstructions }),
+      },
+    };
+  }
+
+  /**
+   * Conversion per variant of the conversations started between two UTC dates (inclusive), control
+   * first; null when none of them was part of an experiment and none is running
+   */
+  async getReport(chatbotId: string, experiment: ExperimentSettings | undefined, from: string, to: string): Promise<ExperimentReport | null> {
+    const rows = await storage.getVariantOutcomes(chatbotId, from, to);
+    if (rows.length === 0 && !experiment?.enabled) return null;
+
+    const configured = experiment?.variants || [];
+    const names = new Map<string, string>([
+      [CONTROL_VARIANT_ID, 'Control'],
+      ...configured.map(variant => [variant.id, variant.name] as [string, string]),
+    ]);
+    // Variants removed from the config still have their conversations
+    const ids = Array.from(new Set([...names.keys(), ...rows.map(row => row.variant)]));
+
+    const outcomes = new Map(rows.map(row => [row.variant, row]));
+    const control = outcomes.get(CONTROL_VARIANT_ID) || emptyOutcome(CONTROL_VARIANT_ID);
+
+    const variants = ids.map((id): ExperimentVariantResult => {
+      const outcome = outcomes.get(id) || emptyOutcome(id);
+      const { uplift, pValue } = id === CONTROL_VARIANT_ID
+        ? { uplift: null, pValue: null }
+        : compareConversion(outcome, control);
+
+      return {
+        ...outcome,
+        name: names.get(id) || id,
+        active: !!experiment?.enabled && (id === CONTROL_VARIANT_ID || configured.some(variant => variant.id === id)),
+        leadConversionRate: ratio(outcome.convertedConversations, outcome.conversations),
+        handoffRate: ratio(outcome.handoffs, outcome.conversations),
+        fallbackRate: ratio(outcome.fallbackResponses, outcome.botResponses),
+        messagesPerConversation: ratio(outcome.messagesReceived, outcome.conversations) ?? 0,
+        uplift,
+        pValue,
+        significant: pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+      };
+    });
+
+    return { enabled: !!experiment?.enabled, variants };
+  }
+
+  private getVariant(config: ChatbotConfig, variantId: string | null): BehaviorVariant | undefined {
+    if (!variantId || !config.experiment.enabled) return undefined;
+    return config.experiment.variants.find(variant => variant.id === variantId);
+  }
+}
+
+export const experimentService = new ExperimentService();
@@ -0,0 +1,260 @@
+import crypto from "crypto";
+import config from "../config.js";
+import { storage } from "../storage.js";
+import { encryptSecret, decryptSecret } from "../utils/encryption.js";
+
+const PROVIDER = 'google';
+const SCOPES = [
+  'https://www.googleapis.com/auth/calendar.freebusy',
+  'https://www.googleapis.com/auth/calendar.events',
+];
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Refresh access tokens this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Endpoints are overridable so a local fake calendar server can stand in for Google
+const getEndpoints = () => ({
+  auth: process.env.GOOGLE_OAUTH_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+  token: process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+  api: (process.env.GOOGLE_CALENDAR_API_URL || 'https://www.googleapis.com/calendar/v3').replace(/\/$/, ''),
+  redirect: process.env.GOOGLE_OAUTH_REDIRECT_URI || `${config.baseUrl}/api/calendar/google/callback`,
+});
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface CalendarEventInput {
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  timezone: string;
+  attendeeEmail?: string;
+}
+
+export interface CalendarEvent {
+  id: string;
+  htmlLink?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Google Calendar Service
+ * Per-client OAuth connection (tokens encrypted at rest), free/busy lookups
+ * and event creation through the Calendar REST API.
+ */
+export class GoogleCalendarService {
+  /**
+   * Whether OAuth client credentials are set
+   */
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_CLIENT_ID && !!process.env.GOOGLE_CLIENT_SECRET;
+  }
+
+  /**
+   * Consent screen URL for a client; the signed state ties the callback back to them
+   */
+  getAuthUrl(clientId: string): string {
+    this.assertConfigured();
+    const endpoints = getEndpoints();
+
+    const params = new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID!,
+      redirect_uri: endpoints.redirect,
+      response_type: 'code',
+      scope: SCOPES.join(' '),
+      access_type: 'offline',
+      prompt: 'consent',
+      state: this.signState(clientId),
+    });
+
+    return `${endpoints.auth}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange the authorization code and store the client's tokens.
+   * Returns the client id the connection belongs to.
+   */
+  async handleCallback(code: string, state: string): Promise<string> {
+    this.assertConfigured();
+    const clientId = this.verifyState(state);
+
+    const tokens = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getEndpoints().redirect,
+    });
+
+    await this.saveTokens(clientId, tokens);
+    console.log(`[Calendar] Google Calendar connected for client ${clientId}`);
+    return clientId;
+  }
+
+  async getStatus(clientId: string) {
+    const integration = await storage.getCalendarIntegration(clientId, PROVIDER);
+    return {
+      configured: this.isConfigured(),
+      connected: !!integration,
+      connectedAt: integration?.createdAt,
+    };
+  }
+
+  async disconnect(clientId: string): Promise<void> {
+    await storage.deleteCalendarIntegration(clientId, PROVIDER);
+    console.log(`[Calendar] Google Calendar disconnected for client ${clientId}`);
+  }
+
+  /**
+   * Busy intervals for a calendar between two instants
+   */
+  async getBusyIntervals(clientId: string, calendarId: string, start: Date, end: Date): Promise<BusyInterval[]> {
+    const data = await this.apiRequest(clientId, 'POST', '/freeBusy', {
+      timeMin: start.toISOString(),
+      timeMax: end.toISOString(),
+      items: [{ id: calendarId }],
+    });
+
+    const calendar = data.calendars?.[calendarId];
+    if (calendar?.errors?.length) {
+      throw new Error(`Calendar ${calendarId} is not accessible: ${calendar.errors[0].reason}`);
+    }
+
+    return (calendar?.busy || []).map((interval: { start: string; end: string }) => ({
+      start: new Date(interval.start),
+      end: new Date(interval.end),
+    }));
+  }
+
+  async createEvent(clientId: string, calendarId: string, event: CalendarEventInput): Promise<CalendarEvent> {
+    const data = await this.apiRequest(clientId, 'POST', `/calendars/${encodeURIComponent(calendarId)}/events`, {
+      summary: event.summary,
+      description: event.description,
+      start: { dateTime: event.start.toISOString(), timeZone: event.timezone },
+      end: { dateTime: event.end.toISOString(), timeZone: event.timezone },
+      attendees: event.attendeeEmail ? [{ email: event.attendeeEmail }] : undefined,
+    });
+
+    return { id: data.id, htmlLink: data.htmlLink };
+  }
+
+  private async apiRequest(clientId: string, method: string, path: string, body?: unknown): Promise<any> {
+    const accessToken = await this.getAccessToken(clientId);
+
+    const response = await fetch(`${getEndpoints().api}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Google Calendar API error (${response.status}): ${data.error?.message || response.statusText}`);
+    }
+    return data;
+  }
+
+  /**
+   * Decrypted access token for a client, refreshed when close to expiry
+   */
+  private async getAccessToken(clientId: string): Promise<string> {
+    const integration = await storage.getCalendarIntegration(clientId, PROVIDER);
+    if (!integration) {
+      throw new Error("Google Calendar is not connected for this client");
+    }
+
+    const expiresAt = integration.tokenExpiresAt ? new Date(integration.tokenExpiresAt).getTime() : Infinity;
+    if (expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return decryptSecret(integration.accessTokenEncrypted);
+    }
+
+    if (!integration.refreshTokenEncrypted) {
+      throw new Error("Google Calendar access expired; reconnect the calendar");
+    }
+
+    console.log(`[Calendar] Refreshing Google access token for client ${clientId}`);
+    const tokens = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: decryptSecret(integration.refreshTokenEncrypted),
+    });
+    await this.saveTokens(clientId, tokens);
+    return tokens.access_token;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<TokenResponse> {
+    const response = await fetch(getEndpoints().token, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        ...params,
+      }).toString(),
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok || !data.access_token) {
+      throw new Error(`Google token request failed: ${data.error_description || data.error || response.statusText}`);
+    }
+    return data as TokenResponse;
+  }
+
+  private async saveTokens(clientId: string, tokens: TokenResponse) {
+    await storage.saveCalendarIntegration({
+      clientId,
+      provider: PROVIDER,
+      accessTokenEncrypted: encryptSecret(tokens.access_token),
+      refreshTokenEncrypted: tokens.refresh_token ? encryptSecret(tokens.refresh_token) : null,
+      tokenExpiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null,
+      scope: tokens.scope || null,
+    });
+  }
+
+  private signState(clientId: string): string {
+    const payload = `${Buffer.from(clientId).toString('base64url')}.${Date.now() + STATE_TTL_MS}`;
+    return `${payload}.${this.stateSignature(payload)}`;
+  }
+
+  private verifyState(state: string): string {
+    const [encodedClientId, expires, signature] = state.split('.');
+    const payload = `${encodedClientId}.${expires}`;
+    const expected = this.stateSignature(payload);
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid OAuth state");
+    }
+    if (Number(expires) < Date.now()) {
+      throw new Error("OAuth state expired");
+    }
+    return Buffer.from(encodedClientId, 'base64url').toString();
+  }
+
+  private stateSignature(payload: string): string {
+    return crypto
+      .createHmac('sha256', config.sessionSecret || 'default-secret')
+      .update(payload)
+      .digest('base64url');
+  }
+
+  private assertConfigured() {
+    if (!this.isConfigured()) {
+      throw new Error('Missing required Google OAuth credentials: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET');
+    }
+  }
+}
+
+export const googleCalendarService = new GoogleCalendarService();
@@ -0,0 +1,256 @@
+import { storage } from "../storage.js";
+import { webhookService } from "./webhooks.js";
+import type { ChatbotConfig, Conversation } from "../shared/schema.js";
+
+export type ConversationStatus = 'bot' | 'waiting_human' | 'human' | 'closed';
+
+export interface HandoffMessage {
+  id: string;
+  role: string;
+  content: string;
+  agentName?: string;
+  createdAt: string;
+}
+
+// Marker the bot appends (followed by a short reason) to escalate a conversation
+export const HANDOFF_MARKER = '__HANDOFF__';
+
+/**
+ * Handoff Service
+ * Moves widget conversations between the bot and client staff:
+ * bot → waiting_human (escalated) → human (claimed) → bot (handed back) or closed.
+ */
+export class HandoffService {
+  /**
+   * Name a signed-in client user replies under, shown to the visitor: their profile name, else the company name
+   */
+  agentNameFor(user: any): string {
+    return user?.user_metadata?.name || user?.name || user?.user_metadata?.company_name || 'Agent';
+  }
+
+  /**
+   * Whether bot replies are suppressed for this conversation
+   */
+  isBotSuppressed(conversation?: Pick<Conversation, 'status'> | null): boolean {
+    return conversation?.status === 'waiting_human' || conversation?.status === 'human';
+  }
+
+  /**
+   * Return the configured trigger keyword found in a visitor message, if any
+   */
+  matchTriggerKeyword(message: string, config: ChatbotConfig): string | undefined {
+    if (!config.handoff?.enabled) return undefined;
+
+    const text = message.toLowerCase();
+    return config.handoff.triggerKeywords.find(keyword => {
+      const normalized = keyword.trim().toLowerCase();
+      if (!normalized) return false;
+      // Whole-word match so short keywords do not fire inside longer words
+      const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+    });
+  }
+
+  /**
+   * System prompt instructions telling the bot when to escalate
+   */
+  buildPromptInstructions(config: ChatbotConfig): string {
+    if (!config.handoff?.enabled || config.handoff.escalationRules.length === 0) return '';
+
+    return `\n\n**HUMAN HANDOFF:**
+A member of the team can take over this conversation. Hand over when any of these applies:
+${config.handoff.escalationRules.map(rule => `- ${rule}`).join('\n')}
+To hand over, write a short reply telling the visitor you are connecting them with the team, then add a final line:
+${HANDOFF_MARKER}<one sentence reason for the team>`;
+  }
+
+  /**
+   * Escalate a conversation to client staff (no-op if already escalated).
+   * The caller replies to the visitor, e.g. with config.handoff.waitingMessage.
+   */
+  async requestHandoff(conversationId: string, reason: string): Promise<Conversation | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return undefined;
+
+    if (this.isBotSuppressed(conversation)) {
+      return conversation;
+    }
+
+    console.log(`[Handoff] Conversation ${conversationId} escalated: ${reason}`);
+    const updated = await storage.updateConversationStatus(conversationId, {
+      status: 'waiting_human',
+      assignedAgent: null,
+      handoffReason: reason.substring(0, 500),
+      handoffRequestedAt: new Date(),
+    });
+
+    return updated;
+  }
+
+  /**
+   * Claim a conversation so a staff member can reply live
+   */
+  async claim(conversationId: string, clientId: string, agentName: string): Promise<Conversation> {
+    const conversation = await this.getOwnedConversation(conversationId, clientId);
+
+    if (conversation.status === 'human' && conversation.assignedAgent && conversation.assignedAgent !== agentName) {
+      throw new Error(`Conversation already claimed by ${conversation.assignedAgent}`);
+    }
+
+    const updated = await storage.updateConversationStatus(conversationId, {
+      status: 'human',
+      assignedAgent: agentName,
+    });
+
+    await storage.createMessage({
+      conversationId,
+      role: 'system',
+      content: `${agentName} joined the conversation`,
+      metadata: { handoff: true, agentName },
+    } as any);
+
+    return updated;
+  }
+
+  /**
+   * Send a live reply from the staff member handling the conversation
+   */
+  async sendAgentMessage(conversationId: string, clientId: string, agentName: string, content: string) {
+    const conversation = await this.getOwnedConversation(conversationId, clientId);
+
+    if (conversation.status !== 'human') {
+      throw new Error("Conversation must be claimed before replying");
+    }
+
+    const message = await storage.createMessage({
+      conversationId,
+      role: 'agent',
+      content,
+      metadata: { agentName },
+    } as any);
+
+    // Bumps last_message_at so the conversation stays at the top of the list
+    await storage.createOrUpdateConversation({
+      chatbotId: conversation.chatbotId,
+      sessionId: conversation.sessionId,
+    } as any);
+
+    const { isHandoff, ...reply } = this.toHandoffMessage(message);
+    return reply;
+  }
+
+  /**
+   * Hand the conversation back to the bot
+   */
+  async handBack(conversationId: string, clientId: string): Promise<Conversation> {
+    const conversation = await this.getOwnedConversation(conversationId, clientId);
+    const chatbot = await storage.getChatbot(conversation.chatbotId);
+    const handBackMessage = (chatbot?.config as any)?.handoff?.handBackMessage;
+
+    const updated = await storage.updateConversationStatus(conversationId, {
+      status: 'bot',
+      assignedAgent: null,
+    });
+
+    if (handBackMessage) {
+      await storage.createMessage({
+        conversationId,
+        role: 'assistant',
+        content: handBackMessage,
+        metadata: { handoff: true },
+      } as any);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Close the conversation; a new visitor message reopens it with the bot
+   */
+  async close(conversationId: string, clientId: string): Promise<Conversation> {
+    await this.getOwnedConversation(conversationId, clientId);
+
+    const updated = await storage.updateConversationStatus(conversationId, { status: 'closed' });
+
+    await storage.createMessage({
+      conversationId,
+      role: 'system',
+      content: 'Conversation closed',
+      metadata: { handoff: true },
+    } as any);
+    await webhookService.conversationEnded(updated);
+
+    return updated;
+  }
+
+  /**
+   * Status and handoff messages for a widget session, for the visitor to poll
+   */
+  async getSessionUpdates(chatbotId: string, sessionId: string, after?: string) {
+    const conversation = await storage.getConversationBySession(chatbotId, sessionId);
+    if (!conversation) {
+      return { status: 'bot' as ConversationStatus, messages: [] as HandoffMessage[] };
+    }
+
+    const since = after ? new Date(after).getTime() : 0;
+    const messages = (await storage.getMessagesByConversationId(conversation.id, conversation.clientId))
+      .map(message => this.toHandoffMessage(message))
+      .filter(message => new Date(message.createdAt).getTime() > since)
+      .filter(message => message.role === 'agent' || message.role === 'system' || message.isHandoff)
+      .map(({ isHandoff, ...message }) => message);
+
+    return {
+      status: conversation.status as ConversationStatus,
+      assignedAgent: conversation.assignedAgent || undefined,
+      messages,
+    };
+  }
+
+  /**
+   * Every message of a widget session, for a widget resuming its conversation after a reload
+   */
+  async getSessionHistory(chatbotId: string, sessionId: string) {
+    const conversation = await storage.getConversationBySession(chatbotId, sessionId);
+    if (!conversation) {
+      return { status: 'bot' as ConversationStatus, messages: [] as HandoffMessage[] };
+    }
+
+    const messages = (await storage.getMessagesByConversationId(conversation.id, conversation.clientId))
+      .map(message => this.toHandoffMessage(message))
+      .map(({ isHandoff, ...message }) => message);
+
+    return {
+      status: conversation.status as ConversationStatus,
+      assignedAgent: conversation.assignedAgent || undefined,
+      messages,
+    };
+  }
+
+  /**
+   * Load a conversation and check it belongs to the client
+   */
+  private async getOwnedConversation(conversationId: string, clientId: string): Promise<Conversation> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+    if (conversation.clientId !== clientId) {
+      throw new Error("Forbidden: Conversation does not belong to this client");
+    }
+    return conversation;
+  }
+
+  private toHandoffMessage(message: any): HandoffMessage & { isHandoff: boolean } {
+    const metadata = message.metadata || {};
+    return {
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      agentName: metadata.agentName,
+      createdAt: message.created_at || message.createdAt,
+      isHandoff: !!metadata.handoff,
+    };
+  }
+}
+
+export const handoffService = new HandoffService();
@@ -0,0 +1,228 @@
+import os from "os";
+import { nanoid } from "nanoid";
+import { storage } from "../storage.js";
+import type { Job, JobStatus } from "../shared/schema.js";
+import { parseUtc } from "../utils/time.js";
+
+// How often an idle worker looks for due jobs
+const POLL_INTERVAL_MS = 2000;
+// How often the worker checks whether scheduled jobs are due
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+// Longest wait before a failed job is retried
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Job types and the work they run (registered in application/jobs.ts)
+export const JOB_TYPES = {
+  processDocument: 'kb.process-document',
+  crawlSource: 'kb.crawl-source',
+  crawlDueSources: 'kb.crawl-due',
+  retentionDue: 'privacy.retention-due',
+  expireSubscriptions: 'subscriptions.expire-due',
+  processNotifications: 'notifications.process',
+  cleanupJobs: 'jobs.cleanup',
+  cleanupApiKeyUsage: 'api-keys.cleanup-usage',
+  deliverWebhook: 'webhooks.deliver',
+  cleanupWebhookDeliveries: 'webhooks.cleanup-deliveries',
+  cleanupRateLimitBuckets: 'rate-limits.cleanup',
+  runEvaluation: 'evals.run',
+} as const;
+
+export interface JobDefinition {
+  handler: (payload: any, job: Job) => Promise<Record<string, any> | void>;
+  concurrency?: number; // Jobs of this type one worker runs at once (default 1)
+  maxAttempts?: number; // Default 3
+  backoffSeconds?: number; // Wait before the first retry, doubled for every further attempt (default 30)
+  timeoutSeconds?: number; // Lease; a job running longer is treated as stalled and picked up again (default 600)
+  intervalMs?: number; // Scheduled jobs are queued again once this long has passed since the last one
+}
+
+/**
+ * Job Queue
+ * Persistent queue in the jobs table. Workers lease due jobs per type (up to the type's concurrency),
+ * retry failures with exponential backoff and queue scheduled jobs when their interval has passed.
+ */
+export class JobQueue {
+  readonly workerId = `${os.hostname()}-${process.pid}-${nanoid(6)}`;
+  private definitions = new Map<string, JobDefinition>();
+  // Jobs of each type this worker is running
+  private running = new Map<string, number>();
+  private active = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private lastScheduleCheck = 0;
+  private started = false;
+
+  register(type: string, definition: JobDefinition): void {
+    this.definitions.set(type, definition);
+  }
+
+  /**
+   * Queue a job; with a dedupe key, an identical queued or running job is reused instead
+   */
+  async enqueue(
+    type: string,
+    payload: Record<string, any> = {},
+    options: { runAt?: Date; dedupeKey?: string } = {}
+  ): Promise<{ id: string; created: boolean }> {
+    const definition = this.getDefinition(type);
+    return storage.enqueueJob({
+      type,
+      payload,
+      runAt: options.runAt,
+      maxAttempts: definition.maxAttempts || 3,
+      dedupeKey: options.dedupeKey,
+    });
+  }
+
+  /**
+   * Poll for jobs until stop() is called
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    console.log(`[Jobs] Worker ${this.workerId} started (${[...this.definitions.keys()].join(', ')})`);
+
+    const tick = async () => {
+      try {
+        await this.scheduleDue();
+        await this.poll();
+      } catch (error) {
+        console.error("[Jobs] Polling failed:", error);
+      }
+      if (this.started) {
+        this.timer = setTimeout(tick, POLL_INTERVAL_MS);
+      }
+    };
+    tick();
+  }
+
+  /**
+   * Stop polling and wait for running jobs; jobs still running after the timeout are picked up
+   * again by another worker once their lease expires
+   */
+  async stop(timeoutMs = 30000): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.race([
+      Promise.allSettled([...this.active]),
+      new Promise(resolve => setTimeout(resolve, timeoutMs).unref()),
+    ]);
+  }
+
+  /**
+   * Run due jobs until none are left or the deadline passes; for serverless deployments without a worker
+   */
+  async runDue(deadline: number): Promise<{ processed: number }> {
+    await this.scheduleDue(true);
+
+    let processed = 0;
+    while (Date.now() < deadline) {
+      const claimed = await this.poll();
+      if (claimed === 0 && this.active.size === 0) break;
+
+      processed += claimed;
+      // Wait for a slot to free up before claiming more
+      if (this.active.size > 0) {
+        await Promise.race(this.active);
+      }
+    }
+
+    await Promise.allSettled([...this.active]);
+    return { processed };
+  }
+
+  /**
+   * Queue a failed job again with fresh attempts
+   */
+  async retry(id: string): Promise<{ id: string; created: boolean }> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    if (job.status !== 'failed') {
+      throw new Error("Only failed jobs can be retried");
+    }
+
+    return this.enqueue(job.type, job.payload, { dedupeKey: job.dedupeKey || undefined });
+  }
+
+  async getJobs(filters: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<Job[]> {
+    return storage.getJobs(filters);
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return storage.getJob(id);
+  }
+
+  // Queue the scheduled jobs whose interval has passed since their last run
+  private async scheduleDue(force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - this.lastScheduleCheck < SCHEDULE_CHECK_INTERVAL_MS) return;
+    this.lastScheduleCheck = now;
+
+    for (const [type, definition] of this.definitions) {
+      if (!definition.intervalMs) continue;
+
+      const [latest] = await storage.getJobs({ type, limit: 1 });
+      if (latest && now - parseUtc(latest.createdAt) < definition.intervalMs) continue;
+
+      await this.enqueue(type, {}, { dedupeKey: type });
+    }
+  }
+
+  // Claim due jobs for every type with a free slot and start them; returns how many were claimed
+  private async poll(): Promise<number> {
+    let claimed = 0;
+
+    for (const [type, definition] of this.definitions) {
+      const free = (definition.concurrency || 1) - (this.running.get(type) || 0);
+      if (free <= 0) continue;
+
+      const jobs = await storage.claimJobs(type, this.workerId, free, definition.timeoutSeconds || 600);
+      for (const job of jobs) {
+        const execution = this.execute(job, definition);
+        this.active.add(execution);
+        execution.finally(() => this.active.delete(execution));
+      }
+      claimed += jobs.length;
+    }
+
+    return claimed;
+  }
+
+  // Run a job and record the outcome; never throws
+  private async execute(job: Job, definition: JobDefinition): Promise<void> {
+    this.running.set(job.type, (this.running.get(job.type) || 0) + 1);
+    const start = Date.now();
+
+    try {
+      const result = await definition.handler(job.payload, job);
+      await storage.completeJob(job.id, this.workerId, result || null);
+      console.log(`[Jobs] ${job.type} ${job.id} completed in ${Date.now() - start}ms`);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const retryAt = job.attempts < job.maxAttempts
+        ? new Date(Date.now() + Math.min((definition.backoffSeconds || 30) * 1000 * 2 ** (job.attempts - 1), MAX_BACKOFF_MS))
+        : null;
+
+      console.error(`[Jobs] ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+      await storage.failJob(job.id, this.workerId, message, retryAt)
+        .catch(updateError => console.error(`[Jobs] Failed to record failure of ${job.id}:`, updateError));
+    } finally {
+      this.running.set(job.type, (this.running.get(job.type) || 1) - 1);
+    }
+  }
+
+  private getDefinition(type: string): JobDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+    return definition;
+  }
+}
+
+export const jobQueue = new JobQueue();
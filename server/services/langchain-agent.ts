@@ -1,13 +1,18 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate, MessagesPlaceholder } from "@langchain/core/prompts";
-import { AgentExecutor, createOpenAIFunctionsAgent } from "langchain/agents";
+import { AgentExecutor, createToolCallingAgent } from "langchain/agents";
 import { BufferMemory, ChatMessageHistory } from "langchain/memory";
 import { DynamicStructuredTool } from "@langchain/core/tools";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
 import { z } from "zod";
-import { supabaseStorage as storage } from "../storage-supabase.js";
+import { storage } from "../storage.js";
 import { openaiService } from "./openai.js";
 import { mcpService } from "./mcp.js";
 import { rerankService } from "./rerank-service.js";
+import { getLLMProvider, type LLMProvider } from "./llm-provider.js";
+import { conversationMemoryService, type ConversationMemory } from "./conversation-memory.js";
+import { handoffService } from "./handoff.js";
+import { unansweredQuestionsService } from "./unanswered-questions.js";
+import { webhookService } from "./webhooks.js";
 import type { ChatbotConfig } from "../shared/schema.js";
 
 interface ConversationContext {
@@ -22,17 +27,16 @@ interface ConversationContext {
  * Creates intelligent agents with:
  * - Vector store retrieval from knowledge base
  * - MCP tools integration
- * - Conversation memory
+ * - Conversation memory loaded from the database
  * - Dynamic tool creation
  */
 export class LangChainAgentService {
   private agents: Map<string, AgentExecutor> = new Map();
-  private memories: Map<string, BufferMemory> = new Map();
 
   /**
    * Create a vector store retrieval tool for knowledge base search
    */
-  private createKnowledgeBaseTool(chatbotId: string) {
+  private createKnowledgeBaseTool(chatbotId: string, llm: LLMProvider) {
     return new DynamicStructuredTool({
       name: "search_knowledge_base",
       description: "Search the knowledge base for information about administrative procedures, documents, requirements, legal references, processing times, or any specific information the user is asking about. ALWAYS use this tool when the user asks questions about procedures, services, requirements, or any factual information. This is your PRIMARY source of information. If results are not relevant, ask clarifying questions to refine the search.",
@@ -44,12 +48,12 @@ export class LangChainAgentService {
           console.log(`[KB Tool] Advanced RAG Pipeline started for: "${query}"`);
 
           // 1. Query Expansion - Generate variations to broaden coverage
-          const queryVariations = await openaiService.generateQueryVariations(query);
+          const queryVariations = await openaiService.generateQueryVariations(query, llm);
           console.log(`[KB Tool] Expanded query into: ${queryVariations.join(", ")}`);
 
           // 2. Parallel Retrieval - Search for each variation
           const retrievalPromises = queryVariations.map(async (v) => {
-            const embedding = await openaiService.createEmbedding(v);
+            const embedding = await openaiService.createEmbedding(v, llm);
             return storage.searchKBChunks(chatbotId, embedding, 10, v);
           });
 
@@ -61,14 +65,16 @@ export class LangChainAgentService {
 
           if (uniqueResults.length === 0) {
             console.log('[KB Tool] No results found after expansion');
+            unansweredQuestionsService.record(chatbotId, query, 'no_results', { llm });
             return "NO_RESULTS: No relevant information found in the knowledge base for this query. ASK the user for more details to help refine the search.";
           }
 
           // 4. Rerank results for maximum precision (Top 20 candidates -> Top 5)
-          const results = await rerankService.rerankChunks(query, uniqueResults.slice(0, 20), 5);
+          const results = await rerankService.rerankChunks(query, uniqueResults.slice(0, 20), 5, llm);
 
           if (results.length === 0) {
             console.log('[KB Tool] All results filtered after reranking');
+            unansweredQuestionsService.record(chatbotId, query, 'no_results', { llm });
             return "NO_RESULTS: Found some information but it was not directly relevant to your specific question. Could you please provide more context or clarify what you're looking for?";
           }
 
@@ -76,6 +82,7 @@ export class LangChainAgentService {
           const avgScore = results.reduce((sum, r) => sum + (r.rerankScore || 0), 0) / results.length;
           if (avgScore < 0.4) {
             console.log(`[KB Tool] Low relevance results after rerank (avg: ${avgScore.toFixed(2)})`);
+            unansweredQuestionsService.record(chatbotId, query, 'low_confidence', { confidence: avgScore, llm });
             return `LOW_CONFIDENCE_RESULTS: Found some information but it may not be exactly what you need (confidence: ${(avgScore * 100).toFixed(0)}%). Here's what I found, but please clarify if you need something more specific:\n\n${results.map((r, i) => `${i + 1}. ${r.text.substring(0, 200)}...`).join('\n\n')}`;
           }
 
@@ -104,18 +111,80 @@ export class LangChainAgentService {
   private async createMCPTools(config: ChatbotConfig, context: ConversationContext) {
     const tools: DynamicStructuredTool[] = [];
 
+    // Human handoff tool (available whenever handoff is enabled, independent of the other MCP tools)
+    if (config.handoff?.enabled && context.conversationId) {
+      const conversationId = context.conversationId;
+      const rules = config.handoff.escalationRules.map(rule => `- ${rule}`).join('\n');
+
+      tools.push(new DynamicStructuredTool({
+        name: "request_human_agent",
+        description: `Transfer the conversation to a member of the team, who will reply live. Use this when any of the following applies:\n${rules}`,
+        schema: z.object({
+          reason: z.string().describe("One sentence explaining to the team why the visitor needs a person"),
+        }),
+        func: async ({ reason }) => {
+          try {
+            console.log(`[MCP Tool] Requesting human handoff: ${reason}`);
+            await handoffService.requestHandoff(conversationId, reason);
+            return `HANDOFF_REQUESTED: Tell the visitor: "${config.handoff.waitingMessage}" Do not answer further questions yourself.`;
+          } catch (error: any) {
+            console.error('[MCP Tool] Handoff request error:', error);
+            return `Could not reach the team right now. Apologise and keep helping the visitor yourself.`;
+          }
+        },
+      }));
+    }
+
     // Only add MCP tools if enabled
     if (!config.mcpTools?.enabled) {
       return tools;
     }
 
-    // Appointment booking tool (only if appointments are enabled)
-    if (config.appointments?.enabled && config.appointments.types && config.appointments.types.length > 0) {
+    // Calendar tools (only if appointments and the Google Calendar integration are enabled)
+    if (config.appointments?.enabled && config.appointments.types && config.appointments.types.length > 0 && config.mcpTools.googleCalendar?.enabled) {
+      const appointmentTypes = config.appointments.types.map(type => `${type.name} (${type.duration} min)`).join(', ');
+
+      tools.push(new DynamicStructuredTool({
+        name: "check_availability",
+        description: `List open appointment slots. Always check availability before booking. Appointment types: ${appointmentTypes}`,
+        schema: z.object({
+          appointmentType: z.string().optional().describe("Name of the appointment type"),
+          fromDate: z.string().describe("First date to check in YYYY-MM-DD format"),
+          toDate: z.string().describe("Last date to check in YYYY-MM-DD format"),
+        }),
+        func: async (input) => {
+          try {
+            console.log('[MCP Tool] Checking availability:', input);
+
+            const result = await mcpService.findAvailableSlots({
+              chatbotId: context.chatbotId,
+              clientId: context.clientId,
+              config,
+              ...input,
+            });
+
+            if (result.availableSlots.length === 0) {
+              return `No open slots between ${input.fromDate} and ${input.toDate}.`;
+            }
+            const slots = result.availableSlots.slice(0, 10).map((slot: { dateTime: string }) =>
+              new Date(slot.dateTime).toLocaleString('en-US', {
+                timeZone: result.timezone,
+                weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+              })
+            );
+            return `Open slots (${result.timezone}): ${slots.join('; ')}`;
+          } catch (error: any) {
+            console.error('[MCP Tool] Availability check error:', error);
+            return `Failed to check availability: ${error.message}`;
+          }
+        },
+      }));
+
       tools.push(new DynamicStructuredTool({
         name: "book_appointment",
-        description: "Book an appointment for the customer. Use this when a customer wants to schedule a meeting or appointment.",
+        description: `Book an appointment for the customer. Use this when a customer wants to schedule a meeting or appointment. Appointment types: ${appointmentTypes}`,
         schema: z.object({
-          appointmentType: z.string().describe("Type of appointment (e.g., consultation, follow-up)"),
+          appointmentType: z.string().describe("Name of the appointment type"),
           customerName: z.string().describe("Customer's full name"),
           customerEmail: z.string().email().describe("Customer's email address"),
           preferredDate: z.string().describe("Preferred date in YYYY-MM-DD format"),
@@ -130,6 +199,7 @@ export class LangChainAgentService {
             const result = await mcpService.bookAppointment({
               chatbotId: context.chatbotId,
               clientId: context.clientId,
+              config,
               ...input,
             });
 
@@ -168,6 +238,7 @@ export class LangChainAgentService {
               source: 'widget',
               status: 'new',
             });
+            await webhookService.leadCreated(result);
 
             return `Contact information saved successfully. Thank you!`;
           } catch (error: any) {
@@ -182,27 +253,20 @@ export class LangChainAgentService {
   }
 
   /**
-   * Get or create memory for a conversation
+   * Build agent memory from the persisted conversation history
    */
-  private getMemory(sessionId: string): BufferMemory {
-    if (!this.memories.has(sessionId)) {
-      const memory = new BufferMemory({
-        returnMessages: true,
-        memoryKey: "chat_history",
-        inputKey: "input",
-        outputKey: "output",
-      });
-      this.memories.set(sessionId, memory);
-    }
-    return this.memories.get(sessionId)!;
-  }
+  private buildMemory(conversationMemory: ConversationMemory): BufferMemory {
+    const messages = conversationMemory.history.map(m =>
+      m.role === 'user' ? new HumanMessage(m.content) : new AIMessage(m.content)
+    );
 
-  /**
-   * Clear memory for a session (useful when resetting conversation)
-   */
-  clearMemory(sessionId: string): void {
-    this.memories.delete(sessionId);
-    console.log(`[Agent] Cleared memory for session: ${sessionId}`);
+    return new BufferMemory({
+      chatHistory: new ChatMessageHistory(messages),
+      returnMessages: true,
+      memoryKey: "chat_history",
+      inputKey: "input",
+      outputKey: "output",
+    });
   }
 
   /**
@@ -210,7 +274,8 @@ export class LangChainAgentService {
    */
   async getAgent(
     config: ChatbotConfig,
-    context: ConversationContext
+    context: ConversationContext,
+    conversationMemory: ConversationMemory = { history: [] }
   ): Promise<AgentExecutor> {
     const agentKey = `${context.chatbotId}_${context.sessionId}`;
 
@@ -225,19 +290,15 @@ export class LangChainAgentService {
 
     console.log(`[Agent] Creating new agent for chatbot ${context.chatbotId}`);
 
-    // Initialize OpenAI model with optimized settings
-    const model = new ChatOpenAI({
-      modelName: "gpt-4o",
-      temperature: 0.9, // Higher for more natural, conversational responses
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      maxTokens: 2000, // Allow longer responses for detailed conversations
-    });
+    // Initialize the chatbot's configured model, metered to this chatbot
+    const llm = getLLMProvider(config, { chatbotId: context.chatbotId, clientId: context.clientId });
+    const model = llm.getChatModel();
 
     // Create tools
     const tools: DynamicStructuredTool[] = [];
 
     // Add knowledge base tool
-    tools.push(this.createKnowledgeBaseTool(context.chatbotId));
+    tools.push(this.createKnowledgeBaseTool(context.chatbotId, llm));
 
     // Add MCP tools
     const mcpTools = await this.createMCPTools(config, context);
@@ -273,6 +334,13 @@ DO NOT SKIP THE TOOL. DO NOT ANSWER WITHOUT CALLING IT FIRST.
 - Always offer to help with follow-up questions or related topics
 - Show that you're actively trying to help them find what they need`;
 
+    if (conversationMemory.summary) {
+      systemPrompt += `\n\n**SUMMARY OF THE EARLIER CONVERSATION:**\n${conversationMemory.summary}`;
+    }
+
+    // Escape braces so conversation text is not read as template variables
+    systemPrompt = systemPrompt.replace(/{/g, '{{').replace(/}/g, '}}');
+
     const prompt = ChatPromptTemplate.fromMessages([
       ["system", systemPrompt],
       new MessagesPlaceholder("chat_history"),
@@ -280,11 +348,11 @@ DO NOT SKIP THE TOOL. DO NOT ANSWER WITHOUT CALLING IT FIRST.
       new MessagesPlaceholder("agent_scratchpad"),
     ]);
 
-    // Get or create memory
-    const memory = this.getMemory(context.sessionId);
+    // Seed memory with the conversation so far
+    const memory = this.buildMemory(conversationMemory);
 
-    // Create agent
-    const agent = await createOpenAIFunctionsAgent({
+    // Create agent (tool calling works across OpenAI, Azure, Anthropic and local models)
+    const agent = await createToolCallingAgent({
       llm: model,
       tools,
       prompt,
@@ -318,8 +386,15 @@ DO NOT SKIP THE TOOL. DO NOT ANSWER WITHOUT CALLING IT FIRST.
     try {
       console.log(`[Agent] Processing message for chatbot ${context.chatbotId}: "${message.substring(0, 50)}..."`);
 
-      // Get or create agent
-      const agent = await this.getAgent(config, context);
+      // Load history from the database, then build the agent
+      const conversationMemory = await conversationMemoryService.load(
+        context.conversationId,
+        context.clientId,
+        config,
+        getLLMProvider(config, { chatbotId: context.chatbotId, clientId: context.clientId }),
+        message
+      );
+      const agent = await this.getAgent(config, context, conversationMemory);
 
       // Invoke agent with timeout protection
       const result = await Promise.race([
@@ -355,21 +430,19 @@ DO NOT SKIP THE TOOL. DO NOT ANSWER WITHOUT CALLING IT FIRST.
   }
 
   /**
-   * Clear agent and memory for a session
+   * Clear cached agent for a session
    */
   clearSession(chatbotId: string, sessionId: string) {
     const agentKey = `${chatbotId}_${sessionId}`;
     this.agents.delete(agentKey);
-    this.memories.delete(sessionId);
     console.log(`[Agent] Cleared session ${sessionId}`);
   }
 
   /**
-   * Clear all agents and memories (for cleanup)
+   * Clear all cached agents (for cleanup)
    */
   clearAll() {
     this.agents.clear();
-    this.memories.clear();
     console.log('[Agent] Cleared all sessions');
   }
 }
@@ -0,0 +1,426 @@
+import { createHash } from "crypto";
+import { ChatOpenAI, AzureChatOpenAI, OpenAIEmbeddings, AzureOpenAIEmbeddings } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { BaseChatModel, SimpleChatModel, type BaseChatModelCallOptions } from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import type { Runnable } from "@langchain/core/runnables";
+import type { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import type { ChatbotConfig, LLMUsageOperation } from "../shared/schema.js";
+import { embeddingService, type EmbeddingConfig } from "./embedding-service.js";
+import { usageMeteringService, type LLMUsageContext } from "./usage-metering.js";
+
+export type LLMProviderName = "openai" | "anthropic" | "azure-openai" | "local" | "fake";
+
+export interface LLMModelSettings {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Per-call overrides; anything left out falls back to the chatbot's model settings
+ */
+export interface LLMCallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  operation?: LLMUsageOperation; // Recorded with the call's usage; defaults to chat
+  callbacks?: BaseCallbackHandler[];
+}
+
+export interface RerankScore {
+  index: number;
+  score: number; // 0-10
+  reason: string;
+}
+
+/**
+ * A single entry point for chat completions, embeddings and reranking
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly settings: LLMModelSettings;
+  isConfigured(): boolean;
+  getChatModel(options?: LLMCallOptions): BaseChatModel;
+  chat(messages: LLMMessage[], options?: LLMCallOptions): Promise<string>;
+  embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]>;
+  getEmbeddingModel(config?: Partial<EmbeddingConfig>): string;
+  rerank(query: string, documents: string[], options?: LLMCallOptions): Promise<RerankScore[]>;
+}
+
+const DEFAULT_MODEL_SETTINGS: LLMModelSettings = {
+  provider: (process.env.LLM_PROVIDER as LLMProviderName) || "openai",
+  model: process.env.LLM_MODEL || "gpt-4o",
+  temperature: 0.7,
+  maxTokens: 5000,
+};
+
+// For chatbots that pick a provider other than LLM_PROVIDER without naming a model; LLM_MODEL is LLM_PROVIDER's
+const PROVIDER_DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4o",
+  anthropic: "claude-3-5-sonnet-latest",
+  "azure-openai": "gpt-4o", // The chat deployment name
+  local: "llama3.1",
+  fake: "fake",
+};
+
+const rerankParser = StructuredOutputParser.fromZodSchema(
+  z.object({
+    rankedIndices: z.array(
+      z.object({
+        index: z.number().describe("The 0-based index of the chunk"),
+        score: z.number().describe("Relevance score from 0 to 10"),
+        reason: z.string().describe("Brief reason for the score"),
+      })
+    ).describe("List of ranked chunks by relevance"),
+  })
+);
+
+const rerankPrompt = new PromptTemplate({
+  template: `You are an expert information retrieval system.
+Your task is to rerank a list of document chunks based on their relevance to a user query.
+
+USER QUERY: {query}
+
+DOCUMENT CHUNKS:
+{chunks_formatted}
+
+INSTRUCTIONS:
+1. Carefully analyze each chunk and determine how well it answers or provides context for the user query.
+2. Assign a relevance score from 0 to 10 (10 being perfectly relevant).
+3. Return the indices and scores in order of relevance.
+4. Be strict: if a chunk is not relevant, give it a low score.
+
+{format_instructions}`,
+  inputVariables: ["query", "chunks_formatted"],
+  partialVariables: { format_instructions: rerankParser.getFormatInstructions() },
+});
+
+/**
+ * Shared chat and rerank behaviour for providers backed by a LangChain chat model
+ */
+abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  constructor(readonly settings: LLMModelSettings) {}
+
+  abstract isConfigured(): boolean;
+  abstract getChatModel(options?: LLMCallOptions): BaseChatModel;
+  abstract embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]>;
+  abstract getEmbeddingModel(config?: Partial<EmbeddingConfig>): string;
+
+  protected resolveOptions(options: LLMCallOptions = {}) {
+    return {
+      temperature: options.temperature ?? this.settings.temperature,
+      maxTokens: options.maxTokens ?? this.settings.maxTokens,
+      callbacks: options.callbacks,
+    };
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMCallOptions): Promise<string> {
+    const response = await this.getChatModel(options).invoke(
+      messages.map(m => [m.role, m.content] as [string, string])
+    );
+    return response.content.toString();
+  }
+
+  async rerank(query: string, documents: string[], options?: LLMCallOptions): Promise<RerankScore[]> {
+    const input = await rerankPrompt.format({
+      query,
+      chunks_formatted: documents.map((d, i) => `[Chunk ${i}]:\n${d}`).join("\n\n---\n\n"),
+    });
+
+    const response = await this.getChatModel({ ...options, temperature: 0 }).invoke(input);
+    const output = await rerankParser.parse(response.content.toString());
+    return output.rankedIndices as RerankScore[];
+  }
+}
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = "openai" as const;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  getChatModel(options?: LLMCallOptions): BaseChatModel {
+    return new ChatOpenAI({
+      modelName: this.settings.model,
+      openAIApiKey: process.env.OPENAI_API_KEY,
+      ...this.resolveOptions(options),
+    });
+  }
+
+  async embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]> {
+    return embeddingService.createEmbeddings(texts, config);
+  }
+
+  getEmbeddingModel(config?: Partial<EmbeddingConfig>): string {
+    return config?.model || embeddingService.getDefaultConfig().model;
+  }
+}
+
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name = "anthropic" as const;
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  getChatModel(options?: LLMCallOptions): BaseChatModel {
+    return new ChatAnthropic({
+      model: this.settings.model,
+      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+      ...this.resolveOptions(options),
+    });
+  }
+
+  // Anthropic has no embeddings API, so vectors still come from OpenAI
+  async embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]> {
+    return embeddingService.createEmbeddings(texts, config);
+  }
+
+  getEmbeddingModel(config?: Partial<EmbeddingConfig>): string {
+    return config?.model || embeddingService.getDefaultConfig().model;
+  }
+}
+
+export class AzureOpenAIProvider extends BaseLLMProvider {
+  readonly name = "azure-openai" as const;
+
+  isConfigured(): boolean {
+    return !!process.env.AZURE_OPENAI_API_KEY && !!process.env.AZURE_OPENAI_ENDPOINT;
+  }
+
+  getChatModel(options?: LLMCallOptions): BaseChatModel {
+    return new AzureChatOpenAI({
+      azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
+      azureOpenAIEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      azureOpenAIApiDeploymentName: this.settings.model,
+      azureOpenAIApiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+      ...this.resolveOptions(options),
+    });
+  }
+
+  async embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]> {
+    const embeddings = new AzureOpenAIEmbeddings({
+      azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
+      azureOpenAIEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      azureOpenAIApiEmbeddingsDeploymentName: this.getEmbeddingModel(config),
+      azureOpenAIApiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+      dimensions: config?.dimensions || 1536,
+    });
+    return embeddings.embedDocuments(texts);
+  }
+
+  // The deployment name; priced when it matches an EMBEDDING_MODELS name
+  getEmbeddingModel(config?: Partial<EmbeddingConfig>): string {
+    return process.env.AZURE_OPENAI_EMBEDDINGS_DEPLOYMENT || config?.model || embeddingService.getDefaultConfig().model;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI HTTP API (Ollama, vLLM, LM Studio, llama.cpp)
+ */
+export class LocalOpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = "local" as const;
+
+  private get baseUrl(): string | undefined {
+    return this.settings.baseUrl || process.env.LOCAL_LLM_BASE_URL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  getChatModel(options?: LLMCallOptions): BaseChatModel {
+    return new ChatOpenAI({
+      modelName: this.settings.model,
+      openAIApiKey: process.env.LOCAL_LLM_API_KEY || "not-needed",
+      configuration: { baseURL: this.baseUrl },
+      ...this.resolveOptions(options),
+    });
+  }
+
+  // The embedding model must return vectors matching the kb_chunks column (1536)
+  async embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]> {
+    const embeddings = new OpenAIEmbeddings({
+      model: this.getEmbeddingModel(),
+      openAIApiKey: process.env.LOCAL_LLM_API_KEY || "not-needed",
+      configuration: { baseURL: this.baseUrl },
+      dimensions: config?.dimensions,
+    });
+    return embeddings.embedDocuments(texts);
+  }
+
+  getEmbeddingModel(): string {
+    return process.env.LOCAL_LLM_EMBEDDING_MODEL || "nomic-embed-text";
+  }
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1);
+
+const overlapScore = (query: string, text: string): number => {
+  const queryTokens = new Set(tokenize(query));
+  if (queryTokens.size === 0) return 0;
+  const textTokens = new Set(tokenize(text));
+  let hits = 0;
+  queryTokens.forEach(t => { if (textTokens.has(t)) hits++; });
+  return hits / queryTokens.size;
+};
+
+/**
+ * Chat model that answers without any network call. It replies with the
+ * line of its system prompt that best overlaps the user's question, so the
+ * same input always produces the same grounded answer. A line taken from a
+ * numbered knowledge base passage is cited with the passage's number.
+ */
+class FakeChatModel extends SimpleChatModel {
+  _llmType(): string {
+    return "fake";
+  }
+
+  // Tool calling is accepted but never used, so agents finish in one step
+  bindTools(): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    return this;
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const text = (m: BaseMessage) => typeof m.content === "string" ? m.content : JSON.stringify(m.content);
+    const question = [...messages].reverse().find(m => m._getType() === "human");
+    const query = question ? text(question) : "";
+
+    const context: { line: string; passage?: number }[] = [];
+    for (const message of messages.filter(m => m._getType() === "system")) {
+      let passage: number | undefined;
+      for (const raw of text(message).split("\n")) {
+        const line = raw.trim();
+        const header = line.match(/^\[(\d+)\] \(Source:/);
+        if (header) {
+          passage = Number(header[1]);
+          continue;
+        }
+        if (line === "CITATION RULES:") passage = undefined;
+        if (line.length > 20) context.push({ line, passage });
+      }
+    }
+
+    let best: { line: string; passage?: number } | undefined;
+    let bestScore = 0;
+    for (const candidate of context) {
+      const score = overlapScore(query, candidate.line);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (!best) return `You asked: "${query}"`;
+    return best.passage ? `${best.line} [${best.passage}]` : best.line;
+  }
+}
+
+/**
+ * Deterministic provider for running the chat pipeline offline (tests, CI, demos)
+ */
+export class FakeLLMProvider extends BaseLLMProvider {
+  readonly name = "fake" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getChatModel(options?: LLMCallOptions): BaseChatModel {
+    return new FakeChatModel({ callbacks: options?.callbacks });
+  }
+
+  // Hashed bag-of-words vectors: texts sharing words land close together
+  async embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]> {
+    const dimensions = config?.dimensions || 1536;
+    return texts.map(text => {
+      const vector = Array(dimensions).fill(0);
+      for (const token of tokenize(text)) {
+        const hash = createHash("md5").update(token).digest();
+        vector[hash.readUInt32BE(0) % dimensions] += hash[4] & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map(v => v / norm);
+    });
+  }
+
+  getEmbeddingModel(): string {
+    return "fake";
+  }
+
+  async rerank(query: string, documents: string[]): Promise<RerankScore[]> {
+    return documents
+      .map((doc, index) => {
+        const overlap = overlapScore(query, doc);
+        return {
+          index,
+          score: Math.round(overlap * 100) / 10,
+          reason: `${Math.round(overlap * 100)}% of query terms present`,
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+  }
+}
+
+const providerCache: Map<string, LLMProvider> = new Map();
+
+/**
+ * Resolve the provider for a chatbot from advancedSettings.model,
+ * falling back to LLM_PROVIDER / LLM_MODEL for settings the chatbot leaves unset
+ * (LLM_MODEL only while the chatbot stays on LLM_PROVIDER).
+ * With a usage context, every call is metered to that chatbot.
+ */
+export function getLLMProvider(config?: Partial<ChatbotConfig> | null, usage?: LLMUsageContext): LLMProvider {
+  const chatbotSettings: Partial<LLMModelSettings> = Object.fromEntries(
+    Object.entries(config?.advancedSettings?.model || {}).filter(([, value]) => value !== undefined && value !== "")
+  );
+  const providerName = chatbotSettings.provider || DEFAULT_MODEL_SETTINGS.provider;
+  const settings: LLMModelSettings = {
+    ...DEFAULT_MODEL_SETTINGS,
+    model: providerName === DEFAULT_MODEL_SETTINGS.provider ? DEFAULT_MODEL_SETTINGS.model : PROVIDER_DEFAULT_MODELS[providerName],
+    ...chatbotSettings,
+  };
+
+  const cacheKey = JSON.stringify(settings);
+  const cached = providerCache.get(cacheKey);
+  if (cached) return usage ? usageMeteringService.meter(cached, usage) : cached;
+
+  let provider: LLMProvider;
+  switch (settings.provider) {
+    case "anthropic":
+      provider = new AnthropicProvider(settings);
+      break;
+    case "azure-openai":
+      provider = new AzureOpenAIProvider(settings);
+      break;
+    case "local":
+      provider = new LocalOpenAICompatibleProvider(settings);
+      break;
+    case "fake":
+      provider = new FakeLLMProvider(settings);
+      break;
+    case "openai":
+      provider = new OpenAIProvider(settings);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${settings.provider}`);
+  }
+
+  providerCache.set(cacheKey, provider);
+  return usage ? usageMeteringService.meter(provider, usage) : provider;
+}
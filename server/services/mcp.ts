@@ -1,15 +1,17 @@
 import { chatbotConfigSchema, type ChatbotConfig } from "../shared/schema.js";
+import { calendarBookingService } from "./calendar-booking.js";
 
 /**
  * SAFE MCP IMPLEMENTATION
  * 
  * This is a secure implementation that replaces the dangerous npx-based approach.
- * It provides mock implementations for MVP demonstration without security risks.
+ * Calendar tools use the client's connected Google Calendar (see google-calendar.ts);
+ * the Sheets tool is still a mock implementation.
  * 
  * SECURITY NOTES:
  * - No external process spawning
  * - No arbitrary code execution  
- * - No credentials stored in configuration
+ * - No credentials stored in configuration (OAuth tokens are encrypted per client)
  * - Per-chatbot isolated functionality
  * - Input validation and sanitization
  * 
@@ -28,8 +30,9 @@ interface MCPTool {
 interface AppointmentData {
   title: string;
   dateTime: string;
-  duration: number; // minutes
+  appointmentTypeId?: string; // duration comes from the appointment type
   description?: string;
+  attendeeName?: string;
   attendeeEmail?: string;
 }
 
@@ -54,27 +57,29 @@ class SafeMCPManager {
   private availableTools: Record<string, MCPTool> = {
     'calendar-schedule': {
       name: 'calendar-schedule',
-      description: 'Schedule appointments (demo implementation)',
+      description: 'Book an appointment in the connected Google Calendar',
       inputSchema: {
         type: 'object',
         properties: {
           title: { type: 'string', maxLength: 100 },
           dateTime: { type: 'string' },
-          duration: { type: 'number', minimum: 15, maximum: 480 },
+          appointmentTypeId: { type: 'string', maxLength: 100 },
           description: { type: 'string', maxLength: 500 },
+          attendeeName: { type: 'string', maxLength: 100 },
           attendeeEmail: { type: 'string', format: 'email' }
         },
-        required: ['title', 'dateTime', 'duration']
+        required: ['title', 'dateTime']
       }
     },
     'calendar-availability': {
       name: 'calendar-availability',
-      description: 'Check calendar availability (demo implementation)',
+      description: 'Find open appointment slots from calendar free/busy and business hours',
       inputSchema: {
         type: 'object',
         properties: {
           startDate: { type: 'string' },
-          endDate: { type: 'string' }
+          endDate: { type: 'string' },
+          appointmentTypeId: { type: 'string', maxLength: 100 }
         },
         required: ['startDate', 'endDate']
       }
@@ -177,6 +182,14 @@ class SafeMCPManager {
       };
     }
 
+    if (!context?.clientId || !context?.chatbotId) {
+      return {
+        success: false,
+        message: 'Booking requires a chatbot context',
+        error: 'MISSING_CONTEXT'
+      };
+    }
+
     // Validate date/time
     const appointmentDate = new Date(args.dateTime);
     if (isNaN(appointmentDate.getTime())) {
@@ -195,36 +208,39 @@ class SafeMCPManager {
       };
     }
 
-    // Mock appointment scheduling (in production, integrate with real calendar API via Replit integrations)
-    const appointmentId = `appt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Simulate realistic response delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
+    try {
+      const { appointment, event, timezone } = await calendarBookingService.bookAppointment(context, config, {
+        start: appointmentDate,
+        appointmentTypeId: args.appointmentTypeId,
+        title: args.title,
+        description: args.description,
+        customerName: args.attendeeName,
+        customerEmail: args.attendeeEmail,
+      });
 
-    // Mock success/failure (90% success rate for demo realism)
-    if (Math.random() < 0.1) {
+      return {
+        success: true,
+        data: {
+          appointmentId: appointment.id,
+          externalId: event.id,
+          title: appointment.title,
+          dateTime: new Date(appointment.startTime).toISOString(),
+          endTime: new Date(appointment.endTime).toISOString(),
+          calendarUrl: event.htmlLink,
+          timezone
+        },
+        message: `Appointment "${appointment.title}" scheduled successfully for ${appointmentDate.toLocaleString('en-US', { timeZone: timezone })}`
+      };
+    } catch (error: any) {
       return {
         success: false,
-        message: 'Calendar conflict detected - this time slot is already booked',
-        error: 'SCHEDULING_CONFLICT'
+        message: error.message,
+        error: error.message === 'This time slot is no longer available' ? 'SCHEDULING_CONFLICT' : 'BOOKING_FAILED'
       };
     }
-
-    return {
-      success: true,
-      data: {
-        appointmentId,
-        title: args.title,
-        dateTime: args.dateTime,
-        duration: args.duration,
-        calendarUrl: `https://calendar.google.com/calendar/event?eid=${appointmentId}`,
-        timezone: config.mcpTools.googleCalendar.timezone || 'UTC'
-      },
-      message: `Appointment "${args.title}" scheduled successfully for ${appointmentDate.toLocaleString()}`
-    };
   }
 
-  private async checkAvailability(args: { startDate: string; endDate: string }, config: ChatbotConfig, context?: MCPContext): Promise<MCPResult> {
+  private async checkAvailability(args: { startDate: string; endDate: string; appointmentTypeId?: string }, config: ChatbotConfig, context?: MCPContext): Promise<MCPResult> {
     if (!config.mcpTools?.googleCalendar?.enabled) {
       return {
         success: false,
@@ -233,6 +249,14 @@ class SafeMCPManager {
       };
     }
 
+    if (!context?.clientId || !context?.chatbotId) {
+      return {
+        success: false,
+        message: 'Availability requires a chatbot context',
+        error: 'MISSING_CONTEXT'
+      };
+    }
+
     // Validate dates
     const startDate = new Date(args.startDate);
     const endDate = new Date(args.endDate);
@@ -253,63 +277,30 @@ class SafeMCPManager {
       };
     }
 
-    await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 500));
-
-    // Generate realistic mock availability data
-    const mockSlots = this.generateMockAvailability(startDate, endDate);
+    const { slots, duration, timezone } = await calendarBookingService.getAvailableSlots(context, config, {
+      start: startDate,
+      end: endDate,
+      appointmentTypeId: args.appointmentTypeId,
+    });
 
     return {
       success: true,
       data: {
-        availableSlots: mockSlots,
-        timezone: config.mcpTools.googleCalendar.timezone || 'UTC',
+        availableSlots: slots.map(slot => ({
+          dateTime: slot.start.toISOString(),
+          duration,
+          available: true
+        })),
+        timezone,
         dateRange: {
           start: args.startDate,
           end: args.endDate
         }
       },
-      message: `Found ${mockSlots.length} available time slots`
+      message: `Found ${slots.length} available time slots`
     };
   }
 
-  private generateMockAvailability(startDate: Date, endDate: Date) {
-    const slots = [];
-    const current = new Date(startDate);
-    
-    while (current <= endDate && slots.length < 20) {
-      // Skip weekends for business hours demo
-      if (current.getDay() !== 0 && current.getDay() !== 6) {
-        // Generate morning and afternoon slots
-        const morningSlot = new Date(current);
-        morningSlot.setHours(9, 0, 0, 0);
-        
-        const afternoonSlot = new Date(current);
-        afternoonSlot.setHours(14, 0, 0, 0);
-        
-        // Randomly make some slots unavailable for realism
-        if (Math.random() > 0.3) {
-          slots.push({
-            dateTime: morningSlot.toISOString(),
-            duration: 60,
-            available: true
-          });
-        }
-        
-        if (Math.random() > 0.4) {
-          slots.push({
-            dateTime: afternoonSlot.toISOString(),
-            duration: 60,
-            available: true
-          });
-        }
-      }
-      
-      current.setDate(current.getDate() + 1);
-    }
-    
-    return slots;
-  }
-
   private async saveClientData(args: Partial<ClientContactData>, config: ChatbotConfig, context?: MCPContext): Promise<MCPResult> {
     if (!config.mcpTools?.googleSheets?.enabled) {
       return {
@@ -461,8 +452,9 @@ export const mcpService = {
         // Persist lead data to database
         if (context?.clientId && context?.chatbotId && clientInfo.name && clientInfo.email) {
           try {
-            const { storage } = await import('../storage-supabase.js');
-            await storage.createLead({
+            const { storage } = await import('../storage.js');
+            const { webhookService } = await import('./webhooks.js');
+            const lead = await storage.createLead({
               clientId: context.clientId,
               chatbotId: context.chatbotId,
               name: clientInfo.name,
@@ -472,6 +464,7 @@ export const mcpService = {
               source: 'chat_widget',
               status: 'new'
             });
+            await webhookService.leadCreated(lead);
             console.log(`Lead data persisted for client ${context.clientId}`);
           } catch (dbError: any) {
             console.error(`Lead persistence error for client ${context.clientId}:`, dbError);
@@ -496,28 +489,6 @@ export const mcpService = {
       const result = await safeMcpManager.callTool('calendar-schedule', appointmentDetails, config, context);
       
       if (result.success) {
-        // Persist appointment data to database
-        if (context?.clientId && context?.chatbotId && result.data) {
-          try {
-            const { storage } = await import('../storage-supabase.js');
-            const startTime = new Date(appointmentDetails.dateTime);
-            const endTime = new Date(startTime.getTime() + appointmentDetails.duration * 60000); // Add duration in milliseconds
-            
-            await storage.createAppointment({
-              clientId: context.clientId,
-              chatbotId: context.chatbotId,
-              title: appointmentDetails.title,
-              startTime: startTime,
-              endTime: endTime,
-              description: appointmentDetails.description || null,
-              status: 'scheduled'
-            });
-            console.log(`Appointment persisted for client ${context.clientId}`);
-          } catch (dbError: any) {
-            console.error(`Appointment persistence error for client ${context.clientId}:`, dbError);
-            // Continue processing - don't break chat flow
-          }
-        }
         return result.message;
       } else {
         return `I had trouble scheduling that appointment: ${result.message}. Could you please provide more specific details like the date and time?`;
@@ -550,7 +521,8 @@ export const mcpService = {
               month: 'short', 
               day: 'numeric',
               hour: 'numeric',
-              minute: '2-digit'
+              minute: '2-digit',
+              timeZone: result.data.timezone
             })
           ).join(', ');
           
@@ -576,11 +548,65 @@ export const mcpService = {
     return {
       title: "Client Appointment",
       dateTime: tomorrow.toISOString(),
-      duration: 60, // Default 1 hour
       description: "Appointment scheduled via chatbot"
     };
   },
 
+  /**
+   * Book from structured agent input (date and time are local to the booking time zone)
+   */
+  async bookAppointment(input: {
+    chatbotId: string;
+    clientId: string;
+    config: ChatbotConfig;
+    appointmentType: string;
+    customerName: string;
+    customerEmail: string;
+    preferredDate: string;
+    preferredTime: string;
+    notes?: string;
+  }) {
+    const start = calendarBookingService.parseLocalDateTime(input.config, input.preferredDate, input.preferredTime);
+
+    const result = await safeMcpManager.callTool('calendar-schedule', {
+      title: input.appointmentType,
+      dateTime: start.toISOString(),
+      appointmentTypeId: input.appointmentType,
+      description: input.notes,
+      attendeeName: input.customerName,
+      attendeeEmail: input.customerEmail,
+    }, input.config, { clientId: input.clientId, chatbotId: input.chatbotId });
+
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+    return result.data;
+  },
+
+  /**
+   * Open slots between two local dates (inclusive), for agent tools
+   */
+  async findAvailableSlots(input: {
+    chatbotId: string;
+    clientId: string;
+    config: ChatbotConfig;
+    fromDate: string;
+    toDate: string;
+    appointmentType?: string;
+  }) {
+    const result = await safeMcpManager.callTool('calendar-availability', {
+      startDate: calendarBookingService.parseLocalDateTime(input.config, input.fromDate, '00:00').toISOString(),
+      endDate: calendarBookingService.parseLocalDateTime(input.config, input.toDate, '23:59').toISOString(),
+      appointmentTypeId: input.appointmentType,
+    }, input.config, { clientId: input.clientId, chatbotId: input.chatbotId });
+
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+    return result.data;
+  },
+
+
   extractClientInfo(message: string): Partial<ClientContactData> {
     // Basic extraction - in production, use NLP or AI to extract structured data
     const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/;
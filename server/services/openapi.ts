@@ -0,0 +1,168 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ZodOptional, type AnyZodObject, type ZodTypeAny } from "zod";
+import config from "../config.js";
+import {
+  apiChatbotSchema,
+  apiConversationSchema,
+  apiConversationWithMessagesSchema,
+  apiConversationsQuerySchema,
+  apiErrorSchema,
+  apiKBDocumentSchema,
+  apiKBUploadResultSchema,
+  apiLeadSchema,
+  apiLeadsQuerySchema,
+  apiMessageSchema,
+  apiUpdateLeadSchema,
+  type ApiKeyScope,
+} from "../shared/schema.js";
+
+// Record schemas, published under components.schemas
+const COMPONENTS: Record<string, ZodTypeAny> = {
+  Chatbot: apiChatbotSchema,
+  Lead: apiLeadSchema,
+  Conversation: apiConversationSchema,
+  ChatMessage: apiMessageSchema,
+  ConversationWithMessages: apiConversationWithMessagesSchema,
+  KBDocument: apiKBDocumentSchema,
+  KBUploadResult: apiKBUploadResultSchema,
+  Error: apiErrorSchema,
+};
+
+interface Operation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string; // Relative to /api/v1, with {param} placeholders
+  summary: string;
+  scope: ApiKeyScope;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  upload?: boolean; // multipart/form-data with a "document" file
+  response?: keyof typeof COMPONENTS; // Omitted for 204 responses
+  list?: boolean; // The response is an array of the component
+}
+
+// Keep in sync with routes/api-v1.ts
+const OPERATIONS: Operation[] = [
+  { method: 'get', path: '/chatbots', summary: "List your chatbots", scope: 'chatbots:read', response: 'Chatbot', list: true },
+  { method: 'get', path: '/leads', summary: "List leads, newest first", scope: 'leads:read', query: apiLeadsQuerySchema, response: 'Lead', list: true },
+  { method: 'patch', path: '/leads/{leadId}', summary: "Update the status and notes of a lead", scope: 'leads:write', body: apiUpdateLeadSchema, response: 'Lead' },
+  { method: 'get', path: '/conversations', summary: "List conversations, most recently active first", scope: 'conversations:read', query: apiConversationsQuerySchema, response: 'Conversation', list: true },
+  { method: 'get', path: '/conversations/{conversationId}', summary: "Get a conversation with its messages", scope: 'conversations:read', response: 'ConversationWithMessages' },
+  { method: 'get', path: '/chatbots/{chatbotId}/kb/documents', summary: "List the knowledge base documents of a chatbot", scope: 'kb:read', response: 'KBDocument', list: true },
+  { method: 'post', path: '/chatbots/{chatbotId}/kb/documents', summary: "Upload a document; it is processed in the background", scope: 'kb:write', upload: true, response: 'KBUploadResult' },
+  { method: 'get', path: '/chatbots/{chatbotId}/kb/documents/{documentId}', summary: "Get a document and its processing progress", scope: 'kb:read', response: 'KBDocument' },
+  { method: 'delete', path: '/chatbots/{chatbotId}/kb/documents/{documentId}', summary: "Delete a document and its chunks", scope: 'kb:write' },
+];
+
+let document: Record<string, any> | null = null;
+
+function toJsonSchema(schema: ZodTypeAny): Record<string, any> {
+  const { $schema: _schema, ...json } = zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as Record<string, any>;
+  return json;
+}
+
+function ref(name: string) {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { 'application/json': { schema: ref('Error') } } };
+}
+
+function buildOperation(operation: Operation): Record<string, any> {
+  const pathParameters = [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+  const queryParameters = Object.entries(operation.query?.shape || {}).map(([name, field]) => ({
+    name,
+    in: 'query',
+    required: !(field as ZodTypeAny).isOptional(),
+    schema: toJsonSchema(field instanceof ZodOptional ? field.unwrap() : field as ZodTypeAny),
+  }));
+
+  const responses: Record<string, any> = operation.response
+    ? {
+        200: {
+          description: "OK",
+          content: {
+            'application/json': {
+              schema: operation.list ? { type: 'array', items: ref(operation.response) } : ref(operation.response),
+            },
+          },
+        },
+      }
+    : { 204: { description: "No Content" } };
+  if (operation.query || operation.body || operation.upload) {
+    responses[400] = errorResponse("Invalid request");
+  }
+  responses[401] = errorResponse("Missing, invalid, revoked or expired API key");
+  responses[403] = errorResponse(`API key is missing the ${operation.scope} scope, or the account is not active`);
+  if (pathParameters.length > 0) {
+    responses[404] = errorResponse("Not found");
+  }
+  responses[429] = errorResponse("Rate limit exceeded; retry after the Retry-After header's seconds");
+
+  const result: Record<string, any> = {
+    summary: operation.summary,
+    description: `Requires the \`${operation.scope}\` scope.`,
+    parameters: [...pathParameters, ...queryParameters],
+    responses,
+  };
+
+  if (operation.body) {
+    result.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: toJsonSchema(operation.body) } },
+    };
+  } else if (operation.upload) {
+    result.requestBody = {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { document: { type: 'string', format: 'binary' } },
+            required: ['document'],
+          },
+        },
+      },
+    };
+  }
+
+  return result;
+}
+
+/**
+ * OpenAPI 3 document of the public REST API, generated from the zod schemas in shared/schema.ts
+ */
+export function getOpenApiDocument(): Record<string, any> {
+  if (document) return document;
+
+  const paths: Record<string, Record<string, any>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+  }
+
+  document = {
+    openapi: '3.0.3',
+    info: {
+      title: "Automiqa Chatbot API",
+      version: '1.0.0',
+      description: "Access the leads, conversations and knowledge base documents of your chatbots. Authenticate with an API key "
+        + "from the client dashboard, sent as X-API-Key or as a Bearer token.",
+    },
+    servers: [{ url: `${config.baseUrl}/api/v1` }],
+    security: [{ apiKeyHeader: [] }, { bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+      schemas: Object.fromEntries(Object.entries(COMPONENTS).map(([name, schema]) => [name, toJsonSchema(schema)])),
+    },
+  };
+  return document;
+}
@@ -33,6 +33,9 @@ export interface ConversationData {
   chatbotConfig: Record<string, any>;
 }
 
+// What a plugin is called with: the conversation, or the arguments of a tool call from the model
+export type PluginInput = ConversationData | Record<string, any>;
+
 export class PluginManagerService {
   
   // Plugin Template Management (Admin)
@@ -270,7 +273,7 @@ export class PluginManagerService {
   
   async executePlugin(
     pluginId: string, 
-    conversationData: ConversationData,
+    input: PluginInput,
     conversationId?: string
   ): Promise<PluginExecutionResult> {
     const startTime = Date.now();
@@ -296,7 +299,7 @@ export class PluginManagerService {
         id: nanoid(),
         chatbot_plugin_id: pluginId,
         conversation_id: conversationId || null,
-        input_data: conversationData,
+        input_data: input,
         output_data: {},
         status: 'pending',
         started_at: new Date(),
@@ -308,13 +311,13 @@ export class PluginManagerService {
       
       switch ((template as PluginTemplate).type) {
         case 'n8n':
-          result = await this.executeN8nPlugin(plugin as ChatbotPlugin, template as PluginTemplate, conversationData);
+          result = await this.executeN8nPlugin(plugin as ChatbotPlugin, template as PluginTemplate, input);
           break;
         case 'webhook':
-          result = await this.executeWebhookPlugin(plugin as ChatbotPlugin, template as PluginTemplate, conversationData);
+          result = await this.executeWebhookPlugin(plugin as ChatbotPlugin, template as PluginTemplate, input);
           break;
         case 'api':
-          result = await this.executeApiPlugin(plugin as ChatbotPlugin, template as PluginTemplate, conversationData);
+          result = await this.executeApiPlugin(plugin as ChatbotPlugin, template as PluginTemplate, input);
           break;
         default:
           throw new Error(`Unsupported plugin type: ${(template as PluginTemplate).type}`);
@@ -357,7 +360,7 @@ export class PluginManagerService {
   private async executeN8nPlugin(
     plugin: ChatbotPlugin, 
     template: PluginTemplate, 
-    conversationData: ConversationData
+    input: PluginInput
   ): Promise<PluginExecutionResult> {
     try {
       const config = plugin.config;
@@ -385,7 +388,7 @@ export class PluginManagerService {
       const response = await fetch(webhookUrl, {
         method: 'POST',
         headers,
-        body: JSON.stringify(conversationData),
+        body: JSON.stringify(input),
         signal: AbortSignal.timeout(config.timeout || 10000)
       });
 
@@ -411,20 +414,20 @@ export class PluginManagerService {
   private async executeWebhookPlugin(
     plugin: ChatbotPlugin, 
     template: PluginTemplate, 
-    conversationData: ConversationData
+    input: PluginInput
   ): Promise<PluginExecutionResult> {
     // Similar to n8n plugin but with generic webhook handling
-    return this.executeN8nPlugin(plugin, template, conversationData);
+    return this.executeN8nPlugin(plugin, template, input);
   }
 
   private async executeApiPlugin(
     plugin: ChatbotPlugin, 
     template: PluginTemplate, 
-    conversationData: ConversationData
+    input: PluginInput
   ): Promise<PluginExecutionResult> {
     // Custom API execution logic can be implemented here
     // For now, delegate to webhook execution
-    return this.executeN8nPlugin(plugin, template, conversationData);
+    return this.executeN8nPlugin(plugin, template, input);
   }
 
   // Trigger Rules Evaluation
@@ -0,0 +1,118 @@
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import { ToolMessage, type ToolCall } from "@langchain/core/messages/tool";
+import type { JSONSchema } from "@langchain/core/utils/json_schema";
+import { pluginManagerService } from "./plugin-manager.js";
+import type { ChatbotPluginWithTemplate } from "../shared/schema.js";
+
+// Longest plugin result handed back to the model, in characters
+const MAX_RESULT_LENGTH = 4000;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Function name for a plugin: its template name in snake case, made unique among the chatbot's tools
+ */
+function toolName(templateName: string, taken: Set<string>): string {
+  const base = templateName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'plugin';
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}_${suffix}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * The template's input_schema as the JSON schema of a function's arguments, which must be an object
+ */
+function toInputSchema(schema: unknown): JSONSchema {
+  const base = isPlainObject(schema) ? schema : {};
+  return {
+    ...base,
+    type: 'object',
+    properties: isPlainObject(base.properties) ? base.properties : {},
+  } as JSONSchema;
+}
+
+/**
+ * Keep only the fields an output_schema declares, recursively; a schema without properties or
+ * items keeps the value as it is
+ */
+function shapeOutput(value: unknown, schema: unknown): unknown {
+  if (!isPlainObject(schema) || value === null || value === undefined) return value;
+
+  if (Array.isArray(value)) {
+    return schema.items ? value.map(item => shapeOutput(item, schema.items)) : value;
+  }
+  if (isPlainObject(value) && isPlainObject(schema.properties)) {
+    return Object.fromEntries(
+      Object.entries(schema.properties)
+        .filter(([key]) => key in value)
+        .map(([key, property]) => [key, shapeOutput(value[key], property)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Plugin Tool Service
+ * Offers a chatbot's enabled plugins to the model as function-calling tools. The arguments the model
+ * passes are validated against the template's input_schema before the plugin runs, and the result is
+ * cut down to the template's output_schema before the model sees it. Every run is logged to
+ * plugin_execution_logs with the conversation it belongs to.
+ */
+export class PluginToolService {
+  async getTools(chatbotId: string, conversationId?: string): Promise<DynamicStructuredTool[]> {
+    const plugins = await pluginManagerService.getEnabledPluginsForChatbot(chatbotId);
+    const taken = new Set<string>();
+
+    return plugins
+      .filter(plugin => plugin.pluginTemplate.is_active)
+      .map(plugin => this.createTool(plugin, toolName(plugin.pluginTemplate.name, taken), conversationId));
+  }
+
+  private createTool(plugin: ChatbotPluginWithTemplate, name: string, conversationId?: string) {
+    const template = plugin.pluginTemplate;
+
+    return new DynamicStructuredTool({
+      name,
+      description: template.description || template.name,
+      schema: toInputSchema(template.input_schema),
+      verboseParsingErrors: true,
+      func: async (args: Record<string, any>) => {
+        console.log(`[Plugin Tool] Running ${template.name} (${plugin.id})`);
+        const result = await pluginManagerService.executePlugin(plugin.id, args, conversationId);
+        if (!result.success) {
+          return `ERROR: ${template.name} failed (${result.error}). Tell the visitor this could not be done right now.`;
+        }
+
+        const output = JSON.stringify(shapeOutput(result.data, template.output_schema) ?? {});
+        return output.length > MAX_RESULT_LENGTH ? `${output.slice(0, MAX_RESULT_LENGTH)}…` : output;
+      },
+    });
+  }
+
+  /**
+   * Run a tool call from the model. Arguments that do not match the input schema are not run; the
+   * model is told what was wrong so it can ask the visitor or call again.
+   */
+  async runToolCall(tools: DynamicStructuredTool[], toolCall: ToolCall): Promise<ToolMessage> {
+    const reply = (content: string) => new ToolMessage({ content, name: toolCall.name, tool_call_id: toolCall.id || '' });
+
+    const tool = tools.find(candidate => candidate.name === toolCall.name);
+    if (!tool) {
+      return reply(`ERROR: There is no tool named ${toolCall.name}.`);
+    }
+
+    try {
+      const output = await tool.invoke(toolCall.args);
+      return reply(typeof output === 'string' ? output : JSON.stringify(output));
+    } catch (error: any) {
+      console.error(`[Plugin Tool] ${toolCall.name} rejected:`, error.message);
+      return reply(`INVALID_ARGUMENTS: ${error.message}`);
+    }
+  }
+}
+
+export const pluginToolService = new PluginToolService();
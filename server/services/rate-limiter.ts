@@ -0,0 +1,138 @@
+import { storage } from "../storage.js";
+
+// Expired windows (and full buckets) are swept once this many keys are tracked
+const SWEEP_THRESHOLD = 10000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch ms when the current window ends, or when a token bucket is full again
+}
+
+/**
+ * Rate Limiter
+ * Fixed-window request counter per key, kept in memory; each server instance counts its own requests
+ */
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /**
+   * Count a request for the key and tell whether it is within the limit
+   */
+  hit(key: string): RateLimitResult {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      if (this.windows.size >= SWEEP_THRESHOLD) {
+        this.sweep(now);
+      }
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= this.limit,
+      limit: this.limit,
+      remaining: Math.max(this.limit - window.count, 0),
+      resetAt: window.resetAt,
+    };
+  }
+
+  private sweep(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+export interface TokenBucketPolicy {
+  capacity: number; // Burst size; a new bucket starts full
+  refillPerSecond: number;
+}
+
+export interface TokenBucketResult extends RateLimitResult {
+  retryAfterMs: number; // Until enough tokens are back for the request; 0 when allowed
+}
+
+/**
+ * Where token buckets are kept. Taking tokens refills the bucket for the time since it was last
+ * used and must be atomic, so concurrent requests never both get the last token.
+ */
+export interface RateLimitStore {
+  take(key: string, policy: TokenBucketPolicy, cost: number): Promise<{ allowed: boolean; tokens: number }>;
+}
+
+/**
+ * Buckets kept in memory; each server instance counts its own requests
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; capacity: number; refillPerSecond: number }>();
+
+  async take(key: string, policy: TokenBucketPolicy, cost: number): Promise<{ allowed: boolean; tokens: number }> {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= SWEEP_THRESHOLD) {
+        this.sweep(now);
+      }
+      bucket = { tokens: policy.capacity, updatedAt: now, ...policy };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.tokens = Math.min(policy.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * policy.refillPerSecond);
+    bucket.updatedAt = now;
+    const allowed = bucket.tokens >= cost;
+    if (allowed) {
+      bucket.tokens -= cost;
+    }
+    return { allowed, tokens: bucket.tokens };
+  }
+
+  // A bucket that has refilled completely is the same as no bucket
+  private sweep(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      const tokens = bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.refillPerSecond;
+      if (tokens >= bucket.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Buckets kept in the rate_limit_buckets table, shared by every server instance
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  take(key: string, policy: TokenBucketPolicy, cost: number): Promise<{ allowed: boolean; tokens: number }> {
+    return storage.takeRateLimitTokens(key, policy.capacity, policy.refillPerSecond, cost);
+  }
+}
+
+/**
+ * Token Bucket Limiter
+ * Allows bursts up to a bucket's capacity, then a steady rate; the buckets live in a pluggable store
+ */
+export class TokenBucketLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  /**
+   * Take tokens for a request (cost 0 only looks at the bucket)
+   */
+  async take(key: string, policy: TokenBucketPolicy, cost = 1): Promise<TokenBucketResult> {
+    const { allowed, tokens } = await this.store.take(key, policy, cost);
+    const now = Date.now();
+    return {
+      allowed,
+      limit: policy.capacity,
+      remaining: Math.max(Math.floor(tokens), 0),
+      resetAt: now + Math.ceil(((policy.capacity - tokens) / policy.refillPerSecond) * 1000),
+      retryAfterMs: allowed ? 0 : Math.ceil(((cost - tokens) / policy.refillPerSecond) * 1000),
+    };
+  }
+}
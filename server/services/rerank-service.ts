@@ -1,7 +1,7 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { z } from "zod";
-import { StructuredOutputParser } from "langchain/output_parsers";
-import { PromptTemplate } from "@langchain/core/prompts";
+import { getLLMProvider, type LLMProvider } from "./llm-provider.js";
+
+// Chunks scoring below this (out of 1) are dropped by default
+const DEFAULT_MIN_RERANK_SCORE = 0.3;
 
 export interface RerankedChunk {
     text: string;
@@ -9,6 +9,7 @@ export interface RerankedChunk {
     filename: string;
     metadata: any;
     rerankScore: number;
+    rerankReason?: string;
 }
 
 /**
@@ -18,14 +19,27 @@ export interface RerankedChunk {
  * This significantly improves precision by filtering out irrelevant context.
  */
 export class RerankService {
-    private model: ChatOpenAI;
-
-    constructor() {
-        this.model = new ChatOpenAI({
-            modelName: "gpt-4o",
-            temperature: 0,
-            openAIApiKey: process.env.OPENAI_API_KEY,
-        });
+    /**
+     * Score every chunk against the query (0-1) with the model's reason, best first; throws when the model fails
+     */
+    async scoreChunks<T extends { text: string }>(
+        query: string,
+        chunks: T[],
+        provider: LLMProvider = getLLMProvider()
+    ): Promise<Array<T & { rerankScore: number; rerankReason: string }>> {
+        console.log(`[RerankService] Reranking ${chunks.length} chunks for query: "${query}"`);
+
+        const rankedIndices = await provider.rerank(query, chunks.map(c => c.text));
+
+        // Map back to original chunks with scores
+        return rankedIndices
+            .filter(item => chunks[item.index])
+            .map(item => ({
+                ...chunks[item.index],
+                rerankScore: item.score / 10,
+                rerankReason: item.reason,
+            }))
+            .sort((a, b) => b.rerankScore - a.rerankScore);
     }
 
     /**
@@ -34,7 +48,9 @@ export class RerankService {
     async rerankChunks(
         query: string,
         chunks: any[],
-        topK = 5
+        topK = 5,
+        provider: LLMProvider = getLLMProvider(),
+        minScore = DEFAULT_MIN_RERANK_SCORE
     ): Promise<RerankedChunk[]> {
         if (chunks.length === 0) return [];
         if (chunks.length === 1) {
@@ -42,66 +58,9 @@ export class RerankService {
         }
 
         try {
-            console.log(`[RerankService] Reranking ${chunks.length} chunks for query: "${query}"`);
-
-            // Define internal schema for reranking
-            const parser = StructuredOutputParser.fromZodSchema(
-                z.object({
-                    rankedIndices: z.array(
-                        z.object({
-                            index: z.number().describe("The 0-based index of the chunk"),
-                            score: z.number().describe("Relevance score from 0 to 10"),
-                            reason: z.string().describe("Brief reason for the score"),
-                        })
-                    ).describe("List of ranked chunks by relevance"),
-                })
-            );
-
-            const prompt = new PromptTemplate({
-                template: `You are an expert information retrieval system. 
-Your task is to rerank a list of document chunks based on their relevance to a user query.
-
-USER QUERY: {query}
-
-DOCUMENT CHUNKS:
-{chunks_formatted}
-
-INSTRUCTIONS:
-1. Carefully analyze each chunk and determine how well it answers or provides context for the user query.
-2. Assign a relevance score from 0 to 10 (10 being perfectly relevant).
-3. Return the indices and scores in order of relevance.
-4. Be strict: if a chunk is not relevant, give it a low score.
-
-{format_instructions}`,
-                inputVariables: ["query", "chunks_formatted"],
-                partialVariables: { format_instructions: parser.getFormatInstructions() },
-            });
-
-            // Format chunks for the prompt
-            const chunksFormatted = chunks.map((c, i) => `[Chunk ${i}]:\n${c.text}`).join("\n\n---\n\n");
-
-            const input = await prompt.format({
-                query,
-                chunks_formatted: chunksFormatted,
-            });
-
-            const response = await this.model.invoke(input);
-            const output = await parser.parse(response.content.toString());
-
-            // Map back to original chunks with scores
-            const reranked = output.rankedIndices
-                .map(item => {
-                    const chunk = chunks[item.index];
-                    if (!chunk) return null;
-                    return {
-                        ...chunk,
-                        rerankScore: item.score / 10,
-                    };
-                })
-                .filter((c): c is RerankedChunk => c !== null)
+            const reranked = (await this.scoreChunks(query, chunks, provider))
                 // Filter out low relevance scores (e.g., < 3/10)
-                .filter(c => c.rerankScore >= 0.3)
-                .sort((a, b) => b.rerankScore - a.rerankScore)
+                .filter(c => c.rerankScore >= minScore)
                 .slice(0, topK);
 
             console.log(`[RerankService] Reranking complete. Selected top ${reranked.length} chunks.`);
@@ -0,0 +1,114 @@
+import { storage } from "../storage.js";
+import { openaiService } from "./openai.js";
+import { rerankService } from "./rerank-service.js";
+import type { LLMProvider } from "./llm-provider.js";
+import {
+  retrievalSettingsSchema,
+  type ChatbotConfig,
+  type KBSearchResult,
+  type RetrievalCandidate,
+  type RetrievalSettings,
+  type RetrievalTrace,
+} from "../shared/schema.js";
+
+// The reranker reads every candidate in full, so it gets at most this many
+const MAX_RERANK_CANDIDATES = 20;
+
+export interface RetrievalResult {
+  results: KBSearchResult[];
+  embedding: number[]; // Of the question; reused to cluster unanswered questions
+  topRerankScore: number | null; // Best reranked passage, also when every passage scored below the minimum
+  trace: RetrievalTrace;
+}
+
+function toSearchResult(candidate: RetrievalCandidate): KBSearchResult {
+  const { chunkId, documentId, text, similarity, filename, sourceUrl, metadata } = candidate;
+  return { chunkId, documentId, text, similarity, filename, sourceUrl, metadata };
+}
+
+/**
+ * Retrieval Service
+ * Finds the knowledge base passages for a question with the chatbot's retrieval settings: hybrid
+ * search of the question (and its rephrasings with query expansion), then optional reranking.
+ * Every step is kept in a trace for the retrieval playground.
+ */
+export class RetrievalService {
+  /**
+   * The chatbot's retrieval settings, with unsaved overrides from the playground
+   */
+  getSettings(config: Partial<ChatbotConfig>, overrides: Partial<RetrievalSettings> = {}): RetrievalSettings {
+    return retrievalSettingsSchema.parse({ ...config.knowledgeBase?.retrieval, ...overrides });
+  }
+
+  async retrieve(
+    chatbotId: string,
+    question: string,
+    config: ChatbotConfig,
+    llm: LLMProvider,
+    overrides?: Partial<RetrievalSettings>
+  ): Promise<RetrievalResult> {
+    const settings = this.getSettings(config, overrides);
+    const variations = settings.queryExpansion
+      ? await openaiService.generateQueryVariations(question, llm)
+      : [question];
+    // Reranking needs more candidates than it keeps
+    const limit = settings.rerank ? Math.min(settings.topK * 3, MAX_RERANK_CANDIDATES) : settings.topK;
+
+    const searches = await Promise.all(variations.map(async (query) => {
+      const embedding = await openaiService.createEmbedding(query, llm);
+      const results = await storage.searchKBChunksScored(chatbotId, embedding, query, {
+        limit,
+        threshold: settings.similarityThreshold,
+      });
+      return { query, embedding, results };
+    }));
+
+    // A chunk found by several queries keeps the scores of the first and adds up the fused scores
+    const candidates = new Map<string, RetrievalCandidate>();
+    for (const { query, results } of searches) {
+      for (const result of results) {
+        const candidate = candidates.get(result.chunkId);
+        if (candidate) {
+          candidate.fusedScore += result.fusedScore;
+          candidate.queries.push(query);
+        } else {
+          candidates.set(result.chunkId, { ...result, queries: [query], rerankScore: null, rerankReason: null, selected: false });
+        }
+      }
+    }
+    const ordered = Array.from(candidates.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+
+    let selected = ordered.slice(0, settings.topK);
+    let reranked = false;
+    let topRerankScore: number | null = null;
+    if (settings.rerank && ordered.length > 0) {
+      try {
+        const scored = await rerankService.scoreChunks(question, ordered.slice(0, MAX_RERANK_CANDIDATES), llm);
+        for (const { chunkId, rerankScore, rerankReason } of scored) {
+          const candidate = candidates.get(chunkId)!;
+          candidate.rerankScore = rerankScore;
+          candidate.rerankReason = rerankReason;
+        }
+        selected = scored
+          .filter(chunk => chunk.rerankScore >= settings.minRerankScore)
+          .slice(0, settings.topK)
+          .map(chunk => candidates.get(chunk.chunkId)!);
+        topRerankScore = scored[0]?.rerankScore ?? null;
+        reranked = true;
+      } catch (error) {
+        console.error('[Retrieval] Reranking failed; keeping the search order:', error);
+      }
+    }
+    selected.forEach(candidate => { candidate.selected = true; });
+
+    const results = selected.map(toSearchResult);
+    return {
+      results,
+      embedding: searches[0].embedding,
+      topRerankScore,
+      trace: { variations, candidates: ordered, reranked, results },
+    };
+  }
+}
+
+export const retrievalService = new RetrievalService();
@@ -1,18 +1,49 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { supabaseStorage as storage } from "../storage-supabase.js";
 import { openaiService } from "./openai.js";
-import type { ChatbotConfig } from "../shared/schema.js";
+import { getLLMProvider } from "./llm-provider.js";
+import { conversationMemoryService } from "./conversation-memory.js";
+import { handoffService } from "./handoff.js";
+import { analyticsService } from "./analytics.js";
+import { unansweredQuestionsService } from "./unanswered-questions.js";
+import { citationService } from "./citations.js";
+import { attachmentService } from "./attachments.js";
+import { retrievalService } from "./retrieval.js";
+import { pluginToolService } from "./plugin-tools.js";
+import type { AIMessageChunk, BaseMessageLike, MessageContent } from "@langchain/core/messages";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { Runnable } from "@langchain/core/runnables";
+import type { ChatbotConfig, KBSearchResult, MessageCitation } from "../shared/schema.js";
 
 interface ConversationContext {
   chatbotId: string;
   sessionId: string;
   conversationId?: string;
   clientId: string;
+  // Evaluation runs and draft previews leave the chatbot's analytics, unanswered questions and usage alone,
+  // and never run its plugins
+  sandbox?: boolean;
 }
 
-interface ChatMessage {
+type ChatMessage = {
   role: 'system' | 'user' | 'assistant';
   content: string;
+};
+
+type ChatRunnable = Runnable<BaseLanguageModelInput, AIMessageChunk>;
+
+// Rounds of plugin calls the model may make before it has to answer
+const MAX_TOOL_ROUNDS = 3;
+
+// Text of a reply; with tool calls some providers return a list of content blocks
+const textOf = (content: MessageContent): string =>
+  typeof content === 'string'
+    ? content
+    : content.map(part => (part.type === 'text' && typeof part.text === 'string' ? part.text : '')).join('');
+
+export interface SimpleChatResult {
+  message: string;
+  citations: MessageCitation[];
+  // The chunks retrieved for the message, in the order they were given to the model
+  sources: KBSearchResult[];
 }
 
 /**
@@ -20,7 +51,50 @@ interface ChatMessage {
  * This bypasses the complex agent logic and directly searches the KB
  */
 export class SimpleChatService {
-  private conversations: Map<string, ChatMessage[]> = new Map();
+  /**
+   * The messages sent to the model: the system prompt with the summary of the earlier conversation,
+   * shared documents and knowledge base passages, then the recent history and the message
+   */
+  buildMessages(
+    message: string,
+    config: ChatbotConfig,
+    context: { sources: KBSearchResult[]; summary?: string | null; attachmentContext?: string; history?: ChatMessage[] }
+  ): ChatMessage[] {
+    const summaryContext = context.summary
+      ? `\n\nSUMMARY OF THE EARLIER CONVERSATION:\n${context.summary}`
+      : '';
+    const kbResults = context.sources.length > 0 ? citationService.buildContext(context.sources) : '';
+
+    return [
+      {
+        role: 'system',
+        content: openaiService.buildSystemPrompt(config) + handoffService.buildPromptInstructions(config) + summaryContext + (context.attachmentContext || '') + kbResults
+      },
+      ...(context.history || []),
+      {
+        role: 'user',
+        content: message
+      }
+    ];
+  }
+
+  /**
+   * One reply from the model, streamed to the caller when onToken is given
+   */
+  private async generate(model: ChatRunnable, messages: BaseMessageLike[], onToken?: (token: string) => void): Promise<AIMessageChunk> {
+    if (!onToken) {
+      return model.invoke(messages);
+    }
+
+    let reply: AIMessageChunk | undefined;
+    for await (const chunk of await model.stream(messages)) {
+      const token = textOf(chunk.content);
+      if (token) onToken(token);
+      reply = reply ? reply.concat(chunk) : chunk;
+    }
+    if (!reply) throw new Error('The model returned an empty stream');
+    return reply;
+  }
 
   /**
    * Process a message with direct KB search
@@ -29,48 +103,55 @@ export class SimpleChatService {
     message: string,
     config: ChatbotConfig,
     context: ConversationContext,
-    chatHistory: Array<{ role: string; content: string }> = []
-  ): Promise<string> {
+    onToken?: (token: string) => void
+  ): Promise<SimpleChatResult> {
     try {
       console.log(`[SimpleChat] Processing message for chatbot ${context.chatbotId}: "${message.substring(0, 50)}..."`);
 
-      // Get or create conversation history
-      const conversationKey = `${context.chatbotId}_${context.sessionId}`;
-      if (!this.conversations.has(conversationKey)) {
-        this.conversations.set(conversationKey, []);
-      }
-      const history = this.conversations.get(conversationKey)!;
+      // Resolve the chatbot's configured LLM provider, metered to this chatbot outside the sandbox
+      const llm = getLLMProvider(config, context.sandbox ? undefined : { chatbotId: context.chatbotId, clientId: context.clientId });
+
+      // Load conversation history from the database
+      const memory = await conversationMemoryService.load(
+        context.conversationId,
+        context.clientId,
+        config,
+        llm,
+        message
+      );
+
+      // Documents the visitor shared in this conversation
+      const attachmentContext = await attachmentService.buildContext(context.conversationId).catch(error => {
+        console.error('[SimpleChat] Attachment context error:', error);
+        return '';
+      });
 
       // Step 1: Search knowledge base if available
-      let kbResults = '';
+      let searchResults: KBSearchResult[] = [];
       if (config.knowledgeBase) {
         console.log('[SimpleChat] Searching knowledge base...');
 
         try {
-          // Create embedding for the query
-          const queryEmbedding = await openaiService.createEmbedding(message);
-
-          // Search for similar chunks (using hybrid search)
-          const results = await storage.searchKBChunks(context.chatbotId, queryEmbedding, 5, message);
+          // Hybrid search with the chatbot's retrieval settings (query expansion, reranking)
+          const { results, embedding, topRerankScore } = await retrievalService.retrieve(context.chatbotId, message, config, llm);
+          if (!context.sandbox) {
+            analyticsService.record({
+              chatbotId: context.chatbotId,
+              conversationId: context.conversationId,
+              type: results.length > 0 ? 'kb_hit' : 'kb_miss',
+            });
+          }
 
           if (results.length > 0) {
             console.log(`[SimpleChat] Found ${results.length} relevant chunks`);
-            kbResults = '\n\nRELEVANT INFORMATION FROM KNOWLEDGE BASE:\n';
-            results.forEach((chunk, idx) => {
-              kbResults += `\n[${idx + 1}] (Relevance: ${(chunk.similarity * 100).toFixed(1)}%)\n${chunk.text}\n`;
-            });
-            kbResults += `\n\n**KNOWLEDGE BASE RESULTS:**
-Found ${results.length} relevant items. 
-
-Ask the user which specific item they want to learn more about
-Keep your response concise and conversational
-
-CRITICAL RULES:
-- Use actual names from the search results
-- These will be shown as clickable buttons
-- DO NOT include a numbered list in your message text`;
+            searchResults = results;
           } else {
             console.log('[SimpleChat] No relevant chunks found');
+            if (!context.sandbox) {
+              // Passages the reranker dropped mean the knowledge base only loosely covers the question
+              const reason = topRerankScore !== null ? 'low_confidence' : 'no_results';
+              unansweredQuestionsService.record(context.chatbotId, message, reason, { embedding, confidence: topRerankScore });
+            }
           }
         } catch (error) {
           console.error('[SimpleChat] KB search error:', error);
@@ -78,29 +159,43 @@ CRITICAL RULES:
       }
 
       // Step 2: Build messages for GPT
-      const messages: ChatMessage[] = [
-        {
-          role: 'system',
-          content: openaiService.buildSystemPrompt(config) + kbResults
-        },
-        ...history,
-        {
-          role: 'user',
-          content: message
-        }
-      ];
-
-      // Step 3: Call GPT-4 directly
-      console.log('[SimpleChat] Calling GPT-4...');
-      const model = new ChatOpenAI({
-        modelName: "gpt-4o",
-        temperature: 0.7,
-        openAIApiKey: process.env.OPENAI_API_KEY,
-        maxTokens: 5000, // Increased to prevent truncation
+      const messages = this.buildMessages(message, config, {
+        sources: searchResults,
+        summary: memory.summary,
+        attachmentContext,
+        history: memory.history,
       });
 
-      const response = await model.invoke(messages);
-      let responseText = response.content.toString();
+      // Step 3: Call the model, with the chatbot's enabled plugins as tools it may call before answering
+      const tools = context.sandbox ? [] : await pluginToolService.getTools(context.chatbotId, context.conversationId).catch(error => {
+        console.error('[SimpleChat] Plugin tools error:', error);
+        return [];
+      });
+      console.log(`[SimpleChat] Calling ${llm.name}/${llm.settings.model} with ${tools.length} plugin tools...`);
+      const chatModel = llm.getChatModel();
+      const model: ChatRunnable = tools.length > 0 && chatModel.bindTools ? chatModel.bindTools(tools) : chatModel;
+
+      const conversation: BaseMessageLike[] = [...messages];
+      let responseText = '';
+      for (let round = 1; ; round++) {
+        // After the last round of plugin calls the model gets no tools, so it answers with what it has
+        const answerRound = round > MAX_TOOL_ROUNDS;
+        // Each round's text, including what the model says alongside plugin calls, is its own paragraph
+        const separator = responseText ? '\n\n' : '';
+        let streamed = false;
+        const reply = await this.generate(answerRound ? chatModel : model, conversation, onToken && (token => {
+          onToken(streamed ? token : separator + token);
+          streamed = true;
+        }));
+        const text = textOf(reply.content);
+        if (text) responseText += separator + text;
+
+        const toolCalls = reply.tool_calls || [];
+        if (toolCalls.length === 0 || answerRound) break;
+
+        const results = await Promise.all(toolCalls.map(toolCall => pluginToolService.runToolCall(tools, toolCall)));
+        conversation.push(reply, ...results);
+      }
 
       // Extract suggested prompts if present
       const promptMatch = responseText.match(/---SUGGESTED_PROMPTS---([\s\S]*?)---END_PROMPTS---/);
@@ -115,32 +210,20 @@ CRITICAL RULES:
         responseText = responseText.replace(/---SUGGESTED_PROMPTS---[\s\S]*?---END_PROMPTS---/, '').trim();
       }
 
-      // Step 4: Update conversation history
-      history.push({ role: 'user', content: message });
-      history.push({ role: 'assistant', content: responseText });
-
-      // Keep only last 10 messages
-      if (history.length > 10) {
-        history.splice(0, history.length - 10);
-      }
+      const { message: answer, citations } = citationService.extract(responseText, searchResults);
 
-      console.log(`[SimpleChat] Response generated (${responseText.length} chars)`);
-      return responseText;
+      console.log(`[SimpleChat] Response generated (${answer.length} chars, ${citations.length} citations)`);
+      return { message: answer, citations, sources: searchResults };
 
     } catch (error: any) {
       console.error('[SimpleChat] Error:', error);
-      return config.behavior?.fallbackMessage || 'عذراً، حدث خطأ. يرجى المحاولة مرة أخرى.';
+      return {
+        message: config.behavior?.fallbackMessage || 'عذراً، حدث خطأ. يرجى المحاولة مرة أخرى.',
+        citations: [],
+        sources: [],
+      };
     }
   }
-
-  /**
-   * Clear conversation history
-   */
-  clearHistory(chatbotId: string, sessionId: string): void {
-    const conversationKey = `${chatbotId}_${sessionId}`;
-    this.conversations.delete(conversationKey);
-    console.log(`[SimpleChat] Cleared history for ${conversationKey}`);
-  }
 }
 
 export const simpleChatService = new SimpleChatService();
@@ -0,0 +1,127 @@
+import Stripe from "stripe";
+import config from "../config.js";
+import type { SubscriptionStatus } from "../shared/schema.js";
+
+// Lazy initialization of Stripe client
+let stripeClient: Stripe | null = null;
+
+const getStripeClient = (): Stripe => {
+  if (!stripeClient) {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('Missing required Stripe secret key: STRIPE_SECRET_KEY');
+    }
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY);
+  }
+  return stripeClient;
+};
+
+export interface CheckoutSessionOptions {
+  subscriptionId: string;
+  clientId: string;
+  type: string;
+  monthlyAmount: number; // in cents
+  customerId?: string | null;
+  customerEmail?: string | null;
+}
+
+/**
+ * Stripe Service
+ * Thin wrapper around the Stripe SDK: webhook verification, Checkout sessions
+ * and mapping Stripe states onto our subscription statuses.
+ */
+export class StripeService {
+  /**
+   * Whether a secret key is set; without one subscriptions are converted directly
+   */
+  isConfigured(): boolean {
+    return !!process.env.STRIPE_SECRET_KEY;
+  }
+
+  /**
+   * Verify the Stripe-Signature header against the raw request body
+   */
+  constructEvent(rawBody: Buffer | string, signature: string | undefined): Stripe.Event {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('Missing required Stripe webhook secret: STRIPE_WEBHOOK_SECRET');
+    }
+    if (!signature) {
+      throw new Error('Missing Stripe-Signature header');
+    }
+
+    // Signature checks are pure HMAC, so they work without a secret key (e.g. when replaying fixtures)
+    return Stripe.webhooks.constructEvent(rawBody, signature, secret);
+  }
+
+  /**
+   * Create a subscription Checkout session for a trial being converted to paid
+   */
+  async createCheckoutSession(options: CheckoutSessionOptions): Promise<Stripe.Checkout.Session> {
+    const stripe = getStripeClient();
+
+    // A configured price (STRIPE_PRICE_BASIC, STRIPE_PRICE_PROFESSIONAL, ...) wins over the inline amount
+    const priceId = process.env[`STRIPE_PRICE_${options.type.toUpperCase()}`];
+    const lineItem: Stripe.Checkout.SessionCreateParams.LineItem = priceId
+      ? { price: priceId, quantity: 1 }
+      : {
+          quantity: 1,
+          price_data: {
+            currency: process.env.STRIPE_CURRENCY || 'usd',
+            unit_amount: options.monthlyAmount,
+            recurring: { interval: 'month' },
+            product_data: { name: `Chatbot subscription (${options.type})` },
+          },
+        };
+
+    const metadata = {
+      subscriptionId: options.subscriptionId,
+      clientId: options.clientId,
+      type: options.type,
+    };
+
+    return stripe.checkout.sessions.create({
+      mode: 'subscription',
+      line_items: [lineItem],
+      client_reference_id: options.subscriptionId,
+      ...(options.customerId
+        ? { customer: options.customerId }
+        : options.customerEmail ? { customer_email: options.customerEmail } : {}),
+      metadata,
+      // Copied onto the Stripe subscription so customer.subscription.* events can be matched
+      subscription_data: { metadata },
+      success_url: `${config.baseUrl}/admin?checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${config.baseUrl}/admin?checkout=cancelled`,
+    });
+  }
+
+  /**
+   * Attempt to collect an open invoice again
+   */
+  async payInvoice(invoiceId: string): Promise<Stripe.Invoice> {
+    return getStripeClient().invoices.pay(invoiceId);
+  }
+
+  /**
+   * Map a Stripe subscription status onto our subscription statuses
+   */
+  mapSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+    switch (status) {
+      case 'active':
+        return 'active';
+      case 'trialing':
+        return 'trial';
+      case 'canceled':
+        return 'cancelled';
+      case 'incomplete_expired':
+        return 'expired';
+      case 'past_due':
+      case 'unpaid':
+      case 'incomplete':
+      case 'paused':
+      default:
+        return 'payment_due';
+    }
+  }
+}
+
+export const stripeService = new StripeService();
@@ -5,6 +5,7 @@ class SupabaseService {
   private client: SupabaseClient | null = null;
   private bucketName = 'chatbot-logos';
   private kbBucketName = 'kb-docs';
+  private attachmentBucketName = 'chat-attachments';
   private isConfigured = false;
 
   constructor() {
@@ -140,6 +141,7 @@ class SupabaseService {
 
       const bucketExists = buckets?.some(bucket => bucket.name === this.bucketName);
       const kbBucketExists = buckets?.some(bucket => bucket.name === this.kbBucketName);
+      const attachmentBucketExists = buckets?.some(bucket => bucket.name === this.attachmentBucketName);
 
       if (!bucketExists) {
         // Create bucket with public access
@@ -176,6 +178,20 @@ class SupabaseService {
           console.log(`Created Supabase storage bucket: ${this.kbBucketName}`);
         }
       }
+
+      // Create visitor attachments bucket if it doesn't exist; file types and sizes are checked per chatbot
+      if (!attachmentBucketExists) {
+        const { error: createError } = await this.client.storage.createBucket(this.attachmentBucketName, {
+          public: false,
+          fileSizeLimit: 50 * 1024 * 1024, // Highest advancedSettings.maxFileSize
+        });
+
+        if (createError) {
+          console.error('Failed to create attachments bucket:', createError);
+        } else {
+          console.log(`Created Supabase storage bucket: ${this.attachmentBucketName}`);
+        }
+      }
     } catch (error) {
       console.error('Error ensuring buckets exist:', error);
     }
@@ -275,6 +291,63 @@ class SupabaseService {
       throw new Error(`KB document deletion failed: ${error.message}`);
     }
   }
+
+  // Visitor attachment methods
+  async uploadAttachment(conversationId: string, file: Buffer, filename: string, contentType: string): Promise<string> {
+    if (!this.client) {
+      throw new Error('Supabase client not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_KEY environment variables.');
+    }
+
+    const fileExtension = filename.split('.').pop() || 'bin';
+    const fileName = `${conversationId}/${Date.now()}-${randomUUID()}.${fileExtension}`;
+
+    const { error } = await this.client.storage
+      .from(this.attachmentBucketName)
+      .upload(fileName, file, {
+        contentType,
+        upsert: false,
+      });
+
+    if (error) {
+      console.error('Supabase attachment upload error:', error);
+      throw new Error(`Failed to upload attachment: ${error.message}`);
+    }
+
+    return fileName;
+  }
+
+  async getAttachmentUrl(storagePath: string, filename: string): Promise<string> {
+    if (!this.client) {
+      throw new Error('Supabase client not configured.');
+    }
+
+    const { data, error } = await this.client.storage
+      .from(this.attachmentBucketName)
+      .createSignedUrl(storagePath, 300, { download: filename }); // 5 minutes
+
+    if (error) {
+      throw new Error(`Failed to get attachment URL: ${error.message}`);
+    }
+
+    return data.signedUrl;
+  }
+
+  async deleteAttachments(storagePaths: string[]): Promise<void> {
+    if (!this.client) {
+      console.warn('Supabase client not configured. Skipping attachment deletion.');
+      return;
+    }
+    if (storagePaths.length === 0) return;
+
+    const { error } = await this.client.storage
+      .from(this.attachmentBucketName)
+      .remove(storagePaths);
+
+    if (error) {
+      console.error('Supabase attachment delete error:', error);
+      throw new Error(`Failed to delete attachments: ${error.message}`);
+    }
+  }
 }
 
 // Export singleton instance
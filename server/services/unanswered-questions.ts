@@ -0,0 +1,57 @@
+import { storage } from "../storage.js";
+import { openaiService } from "./openai.js";
+import type { LLMProvider } from "./llm-provider.js";
+import type { UnansweredQuestionReason } from "../shared/schema.js";
+
+// Misses at least this similar (cosine) to an open question count towards it
+const CLUSTER_SIMILARITY_THRESHOLD = 0.85;
+// Greetings and one-word replies are not content gaps
+const MIN_QUESTION_LENGTH = 8;
+const MAX_QUESTION_LENGTH = 500;
+
+/**
+ * Unanswered Questions Service
+ * Collects knowledge base misses (no results, or low-confidence results after reranking)
+ * into per-chatbot clusters that admins answer from the knowledge base inbox.
+ */
+export class UnansweredQuestionsService {
+  /**
+   * Record a miss without holding up the chat; reuses the query embedding when the caller has one
+   */
+  record(
+    chatbotId: string,
+    question: string,
+    reason: UnansweredQuestionReason,
+    options: { embedding?: number[]; confidence?: number; llm?: LLMProvider } = {}
+  ): void {
+    const normalized = question.trim().replace(/\s+/g, ' ').slice(0, MAX_QUESTION_LENGTH);
+    if (normalized.length < MIN_QUESTION_LENGTH) return;
+
+    this.store(chatbotId, normalized, reason, options).catch(error => {
+      console.error(`[Unanswered] Failed to record question for chatbot ${chatbotId}:`, error);
+    });
+  }
+
+  private async store(
+    chatbotId: string,
+    question: string,
+    reason: UnansweredQuestionReason,
+    options: { embedding?: number[]; confidence?: number; llm?: LLMProvider }
+  ) {
+    const embedding = options.embedding || await openaiService.createEmbedding(question, options.llm);
+    // A zero vector means no embedding provider is configured; cluster by exact text instead
+    const usable = embedding.some(value => value !== 0) ? embedding : null;
+
+    const id = await storage.recordUnansweredQuestion({
+      chatbotId,
+      question,
+      embedding: usable,
+      reason,
+      confidence: options.confidence ?? null,
+    }, CLUSTER_SIMILARITY_THRESHOLD);
+
+    console.log(`[Unanswered] Recorded ${reason} for chatbot ${chatbotId} in cluster ${id}`);
+  }
+}
+
+export const unansweredQuestionsService = new UnansweredQuestionsService();
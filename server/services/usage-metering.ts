@@ -0,0 +1,272 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { AIMessage, BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { storage } from "../storage.js";
+import { EMBEDDING_MODELS, embeddingService, type EmbeddingConfig, type EmbeddingModelName } from "./embedding-service.js";
+import type { LLMCallOptions, LLMMessage, LLMProvider, LLMProviderName, LLMModelSettings, RerankScore } from "./llm-provider.js";
+import type { LLMUsageOperation, LLMUsageTotals } from "../shared/schema.js";
+
+interface ChatModelPrice {
+  promptPer1kTokens: number;
+  completionPer1kTokens: number;
+}
+
+/**
+ * USD per 1k tokens for chat models. A model uses the price of the longest key it starts with, so
+ * dated versions (claude-3-5-sonnet-20241022) share their family's price. Unlisted models cost nothing.
+ */
+export const CHAT_MODEL_PRICING: Record<string, ChatModelPrice> = {
+  "gpt-4o": { promptPer1kTokens: 0.0025, completionPer1kTokens: 0.01 },
+  "gpt-4o-mini": { promptPer1kTokens: 0.00015, completionPer1kTokens: 0.0006 },
+  "gpt-4.1": { promptPer1kTokens: 0.002, completionPer1kTokens: 0.008 },
+  "gpt-4.1-mini": { promptPer1kTokens: 0.0004, completionPer1kTokens: 0.0016 },
+  "gpt-4.1-nano": { promptPer1kTokens: 0.0001, completionPer1kTokens: 0.0004 },
+  "gpt-4-turbo": { promptPer1kTokens: 0.01, completionPer1kTokens: 0.03 },
+  "gpt-3.5-turbo": { promptPer1kTokens: 0.0005, completionPer1kTokens: 0.0015 },
+  "o3-mini": { promptPer1kTokens: 0.0011, completionPer1kTokens: 0.0044 },
+  "claude-3-haiku": { promptPer1kTokens: 0.00025, completionPer1kTokens: 0.00125 },
+  "claude-3-5-haiku": { promptPer1kTokens: 0.0008, completionPer1kTokens: 0.004 },
+  "claude-3-5-sonnet": { promptPer1kTokens: 0.003, completionPer1kTokens: 0.015 },
+  "claude-3-7-sonnet": { promptPer1kTokens: 0.003, completionPer1kTokens: 0.015 },
+  "claude-sonnet-4": { promptPer1kTokens: 0.003, completionPer1kTokens: 0.015 },
+  "claude-3-opus": { promptPer1kTokens: 0.015, completionPer1kTokens: 0.075 },
+  "claude-opus-4": { promptPer1kTokens: 0.015, completionPer1kTokens: 0.075 },
+};
+
+// Self-hosted models and the offline provider are not billed per token
+const FREE_PROVIDERS: LLMProviderName[] = ["local", "fake"];
+
+/**
+ * Who a metered call is billed to
+ */
+export interface LLMUsageContext {
+  chatbotId: string;
+  clientId?: string; // Looked up from the chatbot when left out
+}
+
+export interface LLMUsageEntry {
+  operation: LLMUsageOperation;
+  provider: LLMProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+function findChatModelPrice(model: string): ChatModelPrice | undefined {
+  const key = Object.keys(CHAT_MODEL_PRICING)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? CHAT_MODEL_PRICING[key] : undefined;
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+}
+
+/**
+ * Records the tokens of every chat model run it is attached to. Providers that do not report usage
+ * (some local servers) are estimated from the text, like embeddings.
+ */
+class UsageCallbackHandler extends BaseCallbackHandler {
+  name = "llm_usage";
+  private promptTokens: Map<string, number> = new Map();
+
+  constructor(private readonly onUsage: (promptTokens: number, completionTokens: number) => void) {
+    super();
+  }
+
+  handleChatModelStart(_llm: Serialized, messages: BaseMessage[][], runId: string) {
+    const text = messages.flat().map(messageText).join("\n");
+    this.promptTokens.set(runId, embeddingService.estimateTokens(text));
+  }
+
+  handleLLMStart(_llm: Serialized, prompts: string[], runId: string) {
+    this.promptTokens.set(runId, embeddingService.estimateTokens(prompts.join("\n")));
+  }
+
+  handleLLMError(_error: Error, runId: string) {
+    this.promptTokens.delete(runId);
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const estimatedPrompt = this.promptTokens.get(runId) || 0;
+    this.promptTokens.delete(runId);
+
+    const generations = output.generations.flat() as ChatGeneration[];
+    const reported = generations.map(generation => (generation.message as AIMessage | undefined)?.usage_metadata).filter(Boolean);
+    if (reported.length > 0) {
+      this.onUsage(
+        reported.reduce((sum, usage) => sum + (usage?.input_tokens || 0), 0),
+        reported.reduce((sum, usage) => sum + (usage?.output_tokens || 0), 0)
+      );
+      return;
+    }
+
+    const tokenUsage = output.llmOutput?.tokenUsage;
+    if (tokenUsage) {
+      this.onUsage(tokenUsage.promptTokens || 0, tokenUsage.completionTokens || 0);
+      return;
+    }
+
+    const completion = generations.map(generation => generation.text || "").join("\n");
+    this.onUsage(estimatedPrompt, embeddingService.estimateTokens(completion));
+  }
+}
+
+/**
+ * Bills every call of a provider to one chatbot
+ */
+class MeteredLLMProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly context: LLMUsageContext,
+    private readonly meter: UsageMeteringService
+  ) {}
+
+  get name(): LLMProviderName {
+    return this.inner.name;
+  }
+
+  get settings(): LLMModelSettings {
+    return this.inner.settings;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  getChatModel(options?: LLMCallOptions): BaseChatModel {
+    return this.inner.getChatModel(this.withUsage(options, "chat"));
+  }
+
+  chat(messages: LLMMessage[], options?: LLMCallOptions): Promise<string> {
+    return this.inner.chat(messages, this.withUsage(options, "chat"));
+  }
+
+  rerank(query: string, documents: string[], options?: LLMCallOptions): Promise<RerankScore[]> {
+    return this.inner.rerank(query, documents, this.withUsage(options, "rerank"));
+  }
+
+  getEmbeddingModel(config?: Partial<EmbeddingConfig>): string {
+    return this.inner.getEmbeddingModel(config);
+  }
+
+  // Embedding APIs are billed on input only; the tokens are estimated from the text
+  async embed(texts: string[], config?: Partial<EmbeddingConfig>): Promise<number[][]> {
+    const embeddings = await this.inner.embed(texts, config);
+    this.meter.record(this.context, {
+      operation: "embedding",
+      provider: this.name,
+      model: this.getEmbeddingModel(config),
+      promptTokens: texts.reduce((sum, text) => sum + embeddingService.estimateTokens(text), 0),
+      completionTokens: 0,
+    });
+    return embeddings;
+  }
+
+  private withUsage(options: LLMCallOptions = {}, operation: LLMUsageOperation): LLMCallOptions {
+    const handler = new UsageCallbackHandler((promptTokens, completionTokens) => {
+      this.meter.record(this.context, {
+        operation: options.operation || operation,
+        provider: this.name,
+        model: this.settings.model,
+        promptTokens,
+        completionTokens,
+      });
+    });
+    return { ...options, callbacks: [...(options.callbacks || []), handler] };
+  }
+}
+
+/**
+ * Usage Metering Service
+ * Records the tokens and cost of LLM calls per chatbot and client in llm_usage. Providers resolved with
+ * a usage context (getLLMProvider(config, { chatbotId })) are metered; recording never fails the call.
+ */
+export class UsageMeteringService {
+  private clientIds: Map<string, string> = new Map();
+
+  /**
+   * Wrap a provider so its calls are billed to the chatbot
+   */
+  meter(provider: LLMProvider, context: LLMUsageContext): LLMProvider {
+    return new MeteredLLMProvider(provider, context, this);
+  }
+
+  /**
+   * USD cost of a call, from CHAT_MODEL_PRICING or, for embeddings, EMBEDDING_MODELS
+   */
+  computeCost(entry: LLMUsageEntry): number {
+    if (FREE_PROVIDERS.includes(entry.provider)) return 0;
+
+    if (entry.operation === "embedding") {
+      const info = EMBEDDING_MODELS[entry.model as EmbeddingModelName];
+      return info ? (entry.promptTokens / 1000) * info.costPer1kTokens : 0;
+    }
+
+    const price = findChatModelPrice(entry.model);
+    if (!price) return 0;
+    return (entry.promptTokens / 1000) * price.promptPer1kTokens
+      + (entry.completionTokens / 1000) * price.completionPer1kTokens;
+  }
+
+  /**
+   * Save a metered call in the background
+   */
+  record(context: LLMUsageContext, entry: LLMUsageEntry): void {
+    if (entry.promptTokens + entry.completionTokens === 0) return;
+
+    this.save(context, entry).catch(error => {
+      console.error(`[Usage] Failed to record ${entry.operation} usage for chatbot ${context.chatbotId}:`, error);
+    });
+  }
+
+  /**
+   * Calls, tokens and cost of a client between two instants
+   */
+  async getTotals(clientId: string, from: Date, to: Date): Promise<LLMUsageTotals> {
+    const rows = await storage.getLLMUsageSummary(from, to, clientId);
+    return rows.reduce<LLMUsageTotals>((totals, row) => ({
+      calls: totals.calls + row.calls,
+      promptTokens: totals.promptTokens + row.promptTokens,
+      completionTokens: totals.completionTokens + row.completionTokens,
+      cost: totals.cost + row.cost,
+    }), { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 });
+  }
+
+  private async save(context: LLMUsageContext, entry: LLMUsageEntry): Promise<void> {
+    const clientId = context.clientId || await this.resolveClientId(context.chatbotId);
+    if (!clientId) {
+      console.warn(`[Usage] No client for chatbot ${context.chatbotId}; ${entry.operation} usage not recorded`);
+      return;
+    }
+
+    await storage.recordLLMUsage({
+      clientId,
+      chatbotId: context.chatbotId,
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: entry.promptTokens,
+      completionTokens: entry.completionTokens,
+      cost: this.computeCost(entry),
+    });
+  }
+
+  private async resolveClientId(chatbotId: string): Promise<string | undefined> {
+    const cached = this.clientIds.get(chatbotId);
+    if (cached) return cached;
+
+    // getChatbot returns the raw row on Supabase
+    const chatbot = await storage.getChatbot(chatbotId) as any;
+    const clientId = chatbot?.clientId || chatbot?.client_id;
+    if (clientId) {
+      this.clientIds.set(chatbotId, clientId);
+    }
+    return clientId;
+  }
+}
+
+export const usageMeteringService = new UsageMeteringService();
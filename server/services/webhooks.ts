@@ -0,0 +1,293 @@
+import { createHmac, randomBytes } from "crypto";
+import { nanoid } from "nanoid";
+import config from "../config.js";
+import { storage } from "../storage.js";
+import { jobQueue, JOB_TYPES } from "./job-queue.js";
+import { encryptSecret, decryptSecret } from "../utils/encryption.js";
+import { present } from "../utils/api-records.js";
+import { assertPublicUrl, postToUrl } from "../utils/network.js";
+import { apiAppointmentSchema, apiConversationSchema, apiLeadSchema } from "../shared/schema.js";
+import type {
+  Appointment,
+  Conversation,
+  Lead,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEndpointSummary,
+  WebhookEvent,
+  WebhookEventType,
+} from "../shared/schema.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Delivery log kept per endpoint
+export const WEBHOOK_DELIVERY_DAYS = 30;
+// Endpoints a client can register
+const MAX_ENDPOINTS = 10;
+const DELIVERY_TIMEOUT_MS = 10000;
+// Characters of the receiver's response kept in the delivery log
+const MAX_RESPONSE_BODY = 1000;
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 of "<timestamp>.<body>" with the endpoint's secret
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Refuse URLs whose host resolves to localhost or a private network, so endpoints cannot reach the
+ * internal network. Deliveries check the address again when they connect.
+ */
+async function assertDeliverable(url: string) {
+  if (config.webhookAllowPrivateUrls) return;
+  try {
+    await assertPublicUrl(url);
+  } catch {
+    throw new Error("Webhook URL must be publicly reachable");
+  }
+}
+
+function summarize(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  const { secret: _secret, ...summary } = endpoint;
+  return summary;
+}
+
+/**
+ * Webhook Service
+ * Clients subscribe URLs to events. Each event becomes a delivery per subscribed endpoint, sent by the
+ * job worker with retries; the delivery log lets clients inspect and resend them.
+ */
+export class WebhookService {
+  /**
+   * Queue an event for the client's subscribed endpoints. Never throws: webhooks must not break the
+   * action that raised the event.
+   */
+  async emit(clientId: string, type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    try {
+      const endpoints = (await storage.getWebhookEndpoints(clientId))
+        .filter(endpoint => endpoint.enabled && endpoint.events.includes(type));
+      if (endpoints.length === 0) return;
+
+      const event: WebhookEvent = {
+        id: `evt_${nanoid()}`,
+        type,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      for (const endpoint of endpoints) {
+        const delivery = await storage.createWebhookDelivery({
+          id: nanoid(),
+          endpointId: endpoint.id,
+          clientId,
+          eventId: event.id,
+          eventType: type,
+          payload: event,
+        });
+        await jobQueue.enqueue(JOB_TYPES.deliverWebhook, { deliveryId: delivery.id });
+      }
+    } catch (error) {
+      console.error(`Failed to queue ${type} webhook for client ${clientId}:`, error);
+    }
+  }
+
+  // Event payloads use the REST API's record formats
+
+  leadCreated(lead: Lead): Promise<void> {
+    return this.emit(lead.clientId, 'lead.created', { lead: present(apiLeadSchema, lead) });
+  }
+
+  leadStatusChanged(lead: Lead, previousStatus: string): Promise<void> {
+    return this.emit(lead.clientId, 'lead.status_changed', { lead: present(apiLeadSchema, lead), previousStatus });
+  }
+
+  appointmentBooked(appointment: Appointment): Promise<void> {
+    return this.emit(appointment.clientId, 'appointment.booked', { appointment: present(apiAppointmentSchema, appointment) });
+  }
+
+  // Only staff close conversations (from the live chat inbox); conversations left with the bot never end
+  conversationEnded(conversation: Conversation): Promise<void> {
+    return this.emit(conversation.clientId, 'conversation.ended', { conversation: present(apiConversationSchema, conversation) });
+  }
+
+  /**
+   * Send a delivery; throws on network errors and non-2xx responses so the job is retried
+   */
+  async deliver(deliveryId: string, finalAttempt: boolean): Promise<Record<string, any> | void> {
+    const delivery = await storage.getWebhookDelivery(deliveryId);
+    if (!delivery || delivery.status === 'succeeded') return;
+
+    const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+    if (!endpoint || !endpoint.enabled) {
+      await storage.updateWebhookDelivery(deliveryId, { status: 'failed', error: "Endpoint is disabled" });
+      return { skipped: true };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const start = Date.now();
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let failure: string | null = null;
+
+    try {
+      // The host's address is checked when connecting: the DNS answer may have changed since the
+      // endpoint was saved
+      const response = await postToUrl(endpoint.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Automiqa-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signPayload(decryptSecret(endpoint.secret), timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        maxBodyLength: MAX_RESPONSE_BODY,
+        allowInternal: config.webhookAllowPrivateUrls,
+      });
+      responseStatus = response.status;
+      responseBody = response.body;
+      if (response.status < 200 || response.status >= 300) {
+        failure = `Endpoint responded with ${response.status}`;
+      }
+    } catch (error: any) {
+      failure = error.name === 'AbortError' || error.name === 'TimeoutError'
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : error.message || "Request failed";
+    }
+
+    const now = new Date();
+    await storage.updateWebhookDelivery(deliveryId, {
+      status: failure ? (finalAttempt ? 'failed' : 'pending') : 'succeeded',
+      attempts,
+      responseStatus,
+      responseBody,
+      error: failure,
+      durationMs: Date.now() - start,
+      lastAttemptAt: now,
+      deliveredAt: failure ? undefined : now,
+    });
+
+    if (failure) {
+      throw new Error(failure);
+    }
+    return { status: responseStatus };
+  }
+
+  async getEndpoints(clientId: string): Promise<WebhookEndpointSummary[]> {
+    const endpoints = await storage.getWebhookEndpoints(clientId);
+    return endpoints.map(summarize);
+  }
+
+  /**
+   * Register an endpoint; the signing secret is returned here and when rotated, not when listed
+   */
+  async createEndpoint(clientId: string, data: WebhookEndpointInput): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+    const existing = await storage.getWebhookEndpoints(clientId);
+    if (existing.length >= MAX_ENDPOINTS) {
+      throw new Error(`Webhook endpoint limit reached (${MAX_ENDPOINTS} endpoints)`);
+    }
+
+    await assertDeliverable(data.url);
+
+    const secret = generateSecret();
+    const endpoint = await storage.createWebhookEndpoint({
+      id: nanoid(),
+      clientId,
+      url: data.url,
+      description: data.description || null,
+      events: [...new Set(data.events)],
+      secret: encryptSecret(secret),
+      enabled: data.enabled,
+    });
+
+    return { endpoint: summarize(endpoint), secret };
+  }
+
+  async updateEndpoint(clientId: string, id: string, data: Partial<WebhookEndpointInput>): Promise<WebhookEndpointSummary> {
+    await this.getOwnedEndpoint(clientId, id);
+    if (data.url) {
+      await assertDeliverable(data.url);
+    }
+
+    const updated = await storage.updateWebhookEndpoint(id, {
+      url: data.url,
+      description: data.description,
+      events: data.events ? [...new Set(data.events)] : undefined,
+      enabled: data.enabled,
+    });
+    return summarize(updated);
+  }
+
+  async deleteEndpoint(clientId: string, id: string): Promise<void> {
+    await this.getOwnedEndpoint(clientId, id);
+    await storage.deleteWebhookEndpoint(id);
+  }
+
+  /**
+   * Replace the signing secret; deliveries sent from now on use the new one
+   */
+  async rotateSecret(clientId: string, id: string): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+    await this.getOwnedEndpoint(clientId, id);
+
+    const secret = generateSecret();
+    const updated = await storage.updateWebhookEndpoint(id, { secret: encryptSecret(secret) });
+    return { endpoint: summarize(updated), secret };
+  }
+
+  /**
+   * Latest deliveries to one of the client's endpoints
+   */
+  async getDeliveries(clientId: string, id: string, limit = 50): Promise<WebhookDelivery[]> {
+    await this.getOwnedEndpoint(clientId, id);
+    return storage.getWebhookDeliveries(id, Math.min(Math.max(limit, 1), 200));
+  }
+
+  /**
+   * Send an event again, as a new delivery with the same event id
+   */
+  async resend(clientId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await storage.getWebhookDelivery(deliveryId);
+    if (!delivery || delivery.clientId !== clientId) {
+      throw new Error("Webhook delivery not found");
+    }
+    const endpoint = await this.getOwnedEndpoint(clientId, delivery.endpointId);
+    if (!endpoint.enabled) {
+      throw new Error("Webhook endpoint is disabled");
+    }
+
+    const resent = await storage.createWebhookDelivery({
+      id: nanoid(),
+      endpointId: delivery.endpointId,
+      clientId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+    });
+    await jobQueue.enqueue(JOB_TYPES.deliverWebhook, { deliveryId: resent.id });
+    return resent;
+  }
+
+  async deleteOldDeliveries(): Promise<{ deleted: number }> {
+    const deleted = await storage.deleteWebhookDeliveries(new Date(Date.now() - WEBHOOK_DELIVERY_DAYS * DAY_MS));
+    return { deleted };
+  }
+
+  private async getOwnedEndpoint(clientId: string, id: string): Promise<WebhookEndpoint> {
+    const endpoint = await storage.getWebhookEndpoint(id);
+    if (!endpoint || endpoint.clientId !== clientId) {
+      throw new Error("Webhook endpoint not found");
+    }
+    return endpoint;
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,235 @@
+import { extractMainContent, parseSitemap } from "../utils/html.js";
+
+const USER_AGENT = "AutomiqaBot/1.0 (+knowledge base crawler)";
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const REQUEST_DELAY_MS = 250;
+// Hub pages that fail the include patterns are fetched only to find links, up to this multiple of maxPages
+const FETCH_BUDGET_FACTOR = 3;
+const MAX_SITEMAPS = 20;
+// Pages with less text than this are navigation shells, not content
+const MIN_PAGE_TEXT_LENGTH = 50;
+
+export interface CrawlOptions {
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxPages: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  title: string;
+  text: string;
+  html: string;
+}
+
+export interface CrawlResult {
+  pages: number;
+  fetched: number;
+  failed: string[]; // URLs that could not be fetched
+}
+
+// URL path patterns with * wildcards; patterns starting with http match the full URL
+function matchesPattern(url: URL, pattern: string): boolean {
+  const target = /^https?:\/\//i.test(pattern) ? url.href : url.pathname + url.search;
+  const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(target);
+}
+
+function isSitemapUrl(url: URL): boolean {
+  return url.pathname.toLowerCase().endsWith('.xml');
+}
+
+function normalizeUrl(href: string): string {
+  const url = new URL(href);
+  url.hash = '';
+  return url.href;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Website Crawler
+ * Walks a site from a start page (same-origin links, breadth first) or from a sitemap.xml and
+ * hands the readable content of each page to the caller. Honors robots.txt and robots meta tags.
+ */
+export class WebsiteCrawler {
+  async crawl(
+    startUrl: string,
+    options: CrawlOptions,
+    onPage: (page: CrawledPage) => Promise<void>
+  ): Promise<CrawlResult> {
+    const start = new URL(startUrl);
+    const disallowed = await this.getDisallowedPaths(start.origin);
+
+    const isAllowed = (url: URL) =>
+      url.origin === start.origin &&
+      !disallowed.some(path => url.pathname.startsWith(path)) &&
+      !options.excludePatterns.some(pattern => matchesPattern(url, pattern));
+    const isIncluded = (url: URL) =>
+      options.includePatterns.length === 0 || options.includePatterns.some(pattern => matchesPattern(url, pattern));
+
+    const fromSitemap = isSitemapUrl(start);
+    const queue = fromSitemap ? await this.readSitemaps(start.href) : [start.href];
+    if (fromSitemap && queue.length === 0) {
+      throw new Error(`No pages listed in sitemap ${start.href}`);
+    }
+
+    const seen = new Set(queue.map(normalizeUrl));
+    const contentSeen = new Set<string>();
+    const fetchBudget = options.maxPages * FETCH_BUDGET_FACTOR;
+    const result: CrawlResult = { pages: 0, fetched: 0, failed: [] };
+    let firstError: string | undefined;
+
+    while (queue.length > 0 && result.pages < options.maxPages && result.fetched < fetchBudget) {
+      const url = new URL(queue.shift()!);
+      if (!isAllowed(url)) continue;
+      // Sitemap listings are final; without links to follow, pages outside the include patterns are skipped
+      if (fromSitemap && !isIncluded(url)) continue;
+
+      if (result.fetched > 0) await delay(REQUEST_DELAY_MS);
+      result.fetched++;
+
+      let fetched: { url: URL; html: string } | null;
+      try {
+        fetched = await this.fetchPage(url);
+      } catch (error: any) {
+        result.failed.push(url.href);
+        firstError = firstError || `${url.href}: ${error.message}`;
+        console.warn(`[Crawler] Failed to fetch ${url.href}: ${error.message}`);
+        continue;
+      }
+      if (!fetched) continue;
+
+      // Redirects may lead off the site or to a page that was already crawled
+      const pageUrl = fetched.url;
+      if (pageUrl.origin !== start.origin) continue;
+      if (pageUrl.href !== url.href) {
+        if (seen.has(pageUrl.href)) continue;
+        seen.add(pageUrl.href);
+      }
+
+      const page = extractMainContent(fetched.html, pageUrl.href);
+
+      if (!fromSitemap && !page.nofollow) {
+        for (const link of page.links) {
+          if (!seen.has(link) && isAllowed(new URL(link))) {
+            seen.add(link);
+            queue.push(link);
+          }
+        }
+      }
+
+      if (page.noindex || !isIncluded(pageUrl) || !isAllowed(pageUrl)) continue;
+      if (page.text.length < MIN_PAGE_TEXT_LENGTH || contentSeen.has(page.text)) continue;
+      contentSeen.add(page.text);
+
+      await onPage({ url: pageUrl.href, title: page.title, text: page.text, html: fetched.html });
+      result.pages++;
+    }
+
+    if (result.fetched > 0 && result.failed.length === result.fetched) {
+      throw new Error(`Could not fetch any page (${firstError})`);
+    }
+
+    console.log(`[Crawler] ${start.href}: ${result.pages} pages from ${result.fetched} requests (${result.failed.length} failed)`);
+    return result;
+  }
+
+  // HTML body of a page, or null when the URL is not (or no longer) an HTML page
+  private async fetchPage(url: URL): Promise<{ url: URL; html: string } | null> {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    // Gone pages are dropped from the knowledge base; other failures keep the stored copy
+    if (response.status === 404 || response.status === 410) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (Number(response.headers.get('content-length') || 0) > MAX_PAGE_BYTES) {
+      await response.body?.cancel();
+      throw new Error('Page too large');
+    }
+
+    const html = await response.text();
+    if (html.length > MAX_PAGE_BYTES) {
+      throw new Error('Page too large');
+    }
+
+    return { url: new URL(normalizeUrl(response.url || url.href)), html };
+  }
+
+  // Page URLs of a sitemap, following sitemap indexes
+  private async readSitemaps(sitemapUrl: string): Promise<string[]> {
+    const pending = [sitemapUrl];
+    const visited = new Set<string>();
+    const urls: string[] = [];
+
+    while (pending.length > 0 && visited.size < MAX_SITEMAPS) {
+      const current = pending.shift()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+
+      const response = await fetch(current, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sitemap ${current}: HTTP ${response.status}`);
+      }
+
+      const sitemap = parseSitemap(await response.text());
+      urls.push(...sitemap.urls);
+      pending.push(...sitemap.sitemaps);
+    }
+
+    return Array.from(new Set(urls.map(normalizeUrl)));
+  }
+
+  // Disallow rules of robots.txt that apply to every crawler; a missing robots.txt allows everything
+  private async getDisallowedPaths(origin: string): Promise<string[]> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) return [];
+
+      const disallowed: string[] = [];
+      let appliesToUs = false;
+      let readingAgents = false;
+      for (const rawLine of (await response.text()).split('\n')) {
+        const line = rawLine.replace(/#.*/, '').trim();
+        const [field, ...rest] = line.split(':');
+        const value = rest.join(':').trim();
+        if (/^user-agent$/i.test(field)) {
+          // Consecutive User-agent lines share one group of rules
+          appliesToUs = (readingAgents && appliesToUs) || value === '*' || /automiqabot/i.test(value);
+          readingAgents = true;
+          continue;
+        }
+        readingAgents = false;
+        if (appliesToUs && /^disallow$/i.test(field) && value) {
+          disallowed.push(value.replace(/\*.*$/, ''));
+        }
+      }
+      return disallowed;
+    } catch {
+      return [];
+    }
+  }
+}
+
+export const websiteCrawler = new WebsiteCrawler();
@@ -0,0 +1,109 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import config from "../config.js";
+
+// A solved challenge is accepted this long, so the visitor solves one per session rather than per message
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Sent to the widget with a 429 when it has to prove it is a real visitor; the widget solves it and
+ * repeats the request with the solution in X-Widget-Challenge
+ */
+export interface WidgetChallenge {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A kind of challenge: proof of work (built in), or a captcha-style check registered with
+ * registerChallengeProvider and selected with WIDGET_CHALLENGE. The subject is who has to solve it
+ * (the visitor's IP), so a solution cannot be passed around.
+ */
+export interface ChallengeProvider {
+  readonly type: string;
+  issue(subject: string): WidgetChallenge | Promise<WidgetChallenge>;
+  verify(subject: string, solution: string): boolean | Promise<boolean>;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', config.sessionSecret || 'default-secret').update(payload).digest('base64url');
+}
+
+function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Proof of work: find a nonce so that SHA-256("<token>:<nonce>") starts with `difficulty` zero bits.
+ * Costs a browser a second or two and a script the same for every request it wants to make.
+ * The token is signed for the subject and expires, so no state is kept.
+ */
+export class ProofOfWorkChallenge implements ChallengeProvider {
+  readonly type = 'pow';
+
+  constructor(private difficulty: number) {}
+
+  issue(subject: string): WidgetChallenge {
+    const payload = `${randomBytes(12).toString('base64url')}.${Date.now() + CHALLENGE_TTL_MS}.${this.difficulty}`;
+    return {
+      type: this.type,
+      algorithm: 'sha256',
+      token: `${payload}.${sign(`${subject}.${payload}`)}`,
+      difficulty: this.difficulty,
+    };
+  }
+
+  verify(subject: string, solution: string): boolean {
+    const separator = solution.lastIndexOf(':');
+    if (separator === -1) return false;
+
+    const token = solution.slice(0, separator);
+    const [nonce, expires, difficulty, signature] = token.split('.');
+    const expected = sign(`${subject}.${nonce}.${expires}.${difficulty}`);
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return false;
+    }
+    if (Number(expires) < Date.now()) {
+      return false;
+    }
+
+    return leadingZeroBits(createHash('sha256').update(solution).digest()) >= Number(difficulty);
+  }
+}
+
+const providers = new Map<string, ChallengeProvider>();
+let warnedUnknownProvider = false;
+
+/**
+ * Make a challenge type available to WIDGET_CHALLENGE
+ */
+export function registerChallengeProvider(provider: ChallengeProvider): void {
+  providers.set(provider.type, provider);
+}
+
+/**
+ * The challenge selected with WIDGET_CHALLENGE, or undefined when challenges are off
+ */
+export function getChallengeProvider(): ChallengeProvider | undefined {
+  if (config.widgetChallenge === 'none') return undefined;
+
+  const provider = providers.get(config.widgetChallenge);
+  if (!provider && !warnedUnknownProvider) {
+    warnedUnknownProvider = true;
+    console.warn(`[Widget] Unknown WIDGET_CHALLENGE "${config.widgetChallenge}"; visitors are not challenged`);
+  }
+  return provider;
+}
+
+registerChallengeProvider(new ProofOfWorkChallenge(config.widgetChallengeDifficulty));
@@ -1,6 +1,6 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, uniqueIndex, index, customType } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, varchar, timestamp, date, boolean, integer, doublePrecision, jsonb, uniqueIndex, index, customType } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 
@@ -15,6 +15,48 @@ When users ask questions:
 - Be professional and courteous in all interactions`;
 
 // Chatbot configuration schemas with proper validation
+// Knowledge base search of a chatbot; tuned in the retrieval playground
+export const retrievalSettingsSchema = z.object({
+  topK: z.number().int().min(1).max(20).default(5), // Passages given to the model
+  similarityThreshold: z.number().min(0).max(1).default(0.3), // Vector matches below this are left out; keyword matches are kept
+  queryExpansion: z.boolean().default(false), // Also search 2-3 rephrasings of the question written by the model
+  rerank: z.boolean().default(false), // Have the model score the candidates and keep the best
+  minRerankScore: z.number().min(0).max(1).default(0.3), // Reranked passages scoring below this (0-1) are dropped
+});
+
+const aiPersonalitySchema = z.union([
+  z.enum(["professional", "friendly", "casual", "formal"]),
+  z.object({
+    type: z.literal("custom"),
+    description: z.string().max(500, "Custom personality description too long"),
+  }),
+]);
+
+// Sessions assigned to the "control" variant keep the chatbot's own behavior settings
+export const CONTROL_VARIANT_ID = "control";
+
+// A/B test variant: replaces some behavior settings for the widget sessions assigned to it
+export const behaviorVariantSchema = z.object({
+  id: z.string()
+    .min(1, "Variant ID cannot be empty")
+    .max(50, "Variant ID too long")
+    .regex(/^[a-z0-9_-]+$/i, "Variant ID may only contain letters, digits, - and _"),
+  name: z.string().min(1, "Variant name cannot be empty").max(100, "Variant name too long"),
+  weight: z.number().int().min(0).max(100).default(50), // Share of sessions, relative to the other weights
+  welcomeMessage: z.string()
+    .min(1, "Welcome message cannot be empty")
+    .max(500, "Welcome message too long")
+    .optional(),
+  suggestedPrompts: z.array(
+    z.string().min(1, "Prompt cannot be empty").max(100, "Prompt too long")
+  ).max(5, "Maximum 5 suggested prompts allowed").optional(),
+  aiPersonality: aiPersonalitySchema.optional(),
+  customInstructions: z.string()
+    .min(1, "Custom instructions cannot be empty")
+    .max(10000, "Custom instructions too long")
+    .optional(),
+});
+
 export const chatbotConfigSchema = z.object({
   // Branding configuration
   branding: z.object({
@@ -54,13 +96,7 @@ export const chatbotConfigSchema = z.object({
       .min(1, "Fallback message cannot be empty")
       .max(500, "Fallback message too long")
       .default("Apologies, I do not have that information. Please contact our support team for further assistance."),
-    aiPersonality: z.union([
-      z.enum(["professional", "friendly", "casual", "formal"]),
-      z.object({
-        type: z.literal("custom"),
-        description: z.string().max(500, "Custom personality description too long"),
-      }),
-    ]).default("professional"),
+    aiPersonality: aiPersonalitySchema.default("professional"),
     customInstructions: z.string()
       .min(1, "Custom instructions cannot be empty")
       .max(10000, "Custom instructions too long")
@@ -107,6 +143,8 @@ export const chatbotConfigSchema = z.object({
       { code: 'en', name: 'English', rtl: false }
     ]),
     defaultLanguage: z.string().min(2).max(10).default('en'),
+    // Websites allowed to use the widget (example.com, *.example.com); empty allows any website
+    allowedDomains: z.array(z.string().min(1).max(253)).max(50).default([]),
   }).default({
     mode: "floating",
     tooltipText: "Chat with us!",
@@ -118,6 +156,7 @@ export const chatbotConfigSchema = z.object({
     enableLanguageSwitcher: false,
     supportedLanguages: [{ code: 'en', name: 'English', rtl: false }],
     defaultLanguage: 'en',
+    allowedDomains: [],
   }),
   
   // Business hours configuration (optional - not all chatbots need business hours)
@@ -254,6 +293,8 @@ export const chatbotConfigSchema = z.object({
       pdf: { chunkSize: 1000, overlap: 200, preserveParagraphs: true },
       text: { chunkSize: 1000, overlap: 200, respectSentences: true },
     }),
+
+    retrieval: retrievalSettingsSchema.default({ topK: 5, similarityThreshold: 0.3, queryExpansion: false, rerank: false, minRerankScore: 0.3 }),
   }).default({
     autoLearn: false,
     updateFrequency: "manual",
@@ -266,6 +307,7 @@ export const chatbotConfigSchema = z.object({
       pdf: { chunkSize: 1000, overlap: 200, preserveParagraphs: true },
       text: { chunkSize: 1000, overlap: 200, respectSentences: true },
     },
+    retrieval: { topK: 5, similarityThreshold: 0.3, queryExpansion: false, rerank: false, minRerankScore: 0.3 },
   }),
   
   // MCP Tools integration configuration
@@ -344,6 +386,50 @@ export const chatbotConfigSchema = z.object({
     thankYouMessage: "Thank you for sharing your information! How can I help you today?",
     detectFromMessages: true,
   }),
+
+  // Human handoff: escalate a conversation from the bot to client staff
+  handoff: z.object({
+    enabled: z.boolean().default(false),
+    allowVisitorRequest: z.boolean().default(true), // Show a "talk to a person" action in the widget
+    triggerKeywords: z.array(z.string()).default(["human", "agent", "real person", "representative"]),
+    escalationRules: z.array(z.string()).default([
+      "The visitor asks to speak with a person",
+      "The visitor is upset or complains about the service",
+    ]), // Situations in which the bot should hand over
+    waitingMessage: z.string()
+      .max(300, "Waiting message too long")
+      .default("I'm connecting you with a member of our team. Someone will be with you shortly."),
+    handBackMessage: z.string()
+      .max(300, "Hand back message too long")
+      .default("You're chatting with our assistant again. How else can I help?"),
+  }).default({
+    enabled: false,
+    allowVisitorRequest: true,
+    triggerKeywords: ["human", "agent", "real person", "representative"],
+    escalationRules: [
+      "The visitor asks to speak with a person",
+      "The visitor is upset or complains about the service",
+    ],
+    waitingMessage: "I'm connecting you with a member of our team. Someone will be with you shortly.",
+    handBackMessage: "You're chatting with our assistant again. How else can I help?",
+  }),
+
+  // A/B test: widget sessions are split between the behavior settings above ("control") and the variants
+  experiment: z.object({
+    enabled: z.boolean().default(false),
+    controlWeight: z.number().int().min(0).max(100).default(50), // Share of sessions kept on the behavior settings
+    variants: z.array(behaviorVariantSchema)
+      .max(3, "Maximum 3 variants allowed")
+      .refine(
+        variants => new Set([CONTROL_VARIANT_ID, ...variants.map(variant => variant.id)]).size === variants.length + 1,
+        `Variant IDs must be unique and not "${CONTROL_VARIANT_ID}"`
+      )
+      .default([]),
+  }).default({
+    enabled: false,
+    controlWeight: 50,
+    variants: [],
+  }),
   
   // Advanced settings
   advancedSettings: z.object({
@@ -353,22 +439,31 @@ export const chatbotConfigSchema = z.object({
     sessionTimeout: z.number().min(5).max(120).default(30), // Minutes
     requireEmail: z.boolean().default(false),
     emailCollectionMessage: z.string().max(200).optional(),
-    gdprCompliant: z.boolean().default(true),
-    dataRetentionDays: z.number().min(1).max(365).default(90),
+    // Data retention is opt-in: enforced only when gdprCompliant is true and dataRetentionDays is set
+    gdprCompliant: z.boolean().optional(),
+    dataRetentionDays: z.number().min(1).max(365).optional(),
     allowFileUploads: z.boolean().default(false),
     maxFileSize: z.number().min(1).max(50).default(10), // MB
     allowedFileTypes: z.array(z.string()).default(["pdf", "doc", "docx", "txt"]),
+    memoryWindow: z.number().min(2).max(50).default(10), // Recent messages sent verbatim; older ones are summarised
+    // Unset fields fall back to the server's LLM_PROVIDER / LLM_MODEL and its default temperature and max tokens
+    model: z.object({
+      provider: z.enum(["openai", "anthropic", "azure-openai", "local", "fake"]).optional(),
+      model: z.string().min(1).optional(), // Model name, or deployment name for Azure
+      temperature: z.number().min(0).max(2).optional(),
+      maxTokens: z.number().min(1).max(32000).optional(),
+      baseUrl: z.string().url().optional(), // OpenAI-compatible endpoint for the local provider
+    }).optional(),
   }).default({
     enableAnalytics: true,
     enableChatHistory: true,
     maxConversationLength: 100,
     sessionTimeout: 30,
     requireEmail: false,
-    gdprCompliant: true,
-    dataRetentionDays: 90,
     allowFileUploads: false,
     maxFileSize: 10,
     allowedFileTypes: ["pdf", "doc", "docx", "txt"],
+    memoryWindow: 10,
   }),
 }).default({
   branding: {
@@ -428,6 +523,7 @@ export const chatbotConfigSchema = z.object({
       pdf: { chunkSize: 1000, overlap: 200, preserveParagraphs: true },
       text: { chunkSize: 1000, overlap: 200, respectSentences: true },
     },
+    retrieval: { topK: 5, similarityThreshold: 0.3, queryExpansion: false, rerank: false, minRerankScore: 0.3 },
   },
   mcpTools: {
     enabled: false,
@@ -445,24 +541,40 @@ export const chatbotConfigSchema = z.object({
     thankYouMessage: "Thank you for sharing your information! How can I help you today?",
     detectFromMessages: true,
   },
+  handoff: {
+    enabled: false,
+    allowVisitorRequest: true,
+    triggerKeywords: ["human", "agent", "real person", "representative"],
+    escalationRules: [
+      "The visitor asks to speak with a person",
+      "The visitor is upset or complains about the service",
+    ],
+    waitingMessage: "I'm connecting you with a member of our team. Someone will be with you shortly.",
+    handBackMessage: "You're chatting with our assistant again. How else can I help?",
+  },
+  experiment: {
+    enabled: false,
+    controlWeight: 50,
+    variants: [],
+  },
   advancedSettings: {
     enableAnalytics: true,
     enableChatHistory: true,
     maxConversationLength: 100,
     sessionTimeout: 30,
     requireEmail: false,
-    gdprCompliant: true,
-    dataRetentionDays: 90,
     allowFileUploads: false,
     maxFileSize: 10,
     allowedFileTypes: ["pdf", "doc", "docx", "txt"],
+    memoryWindow: 10,
   },
 });
 
 export type ChatbotConfig = z.infer<typeof chatbotConfigSchema>;
 
 // Validation enums for database fields
-export const messageRoleEnum = z.enum(["user", "assistant", "tool"]);
+export const messageRoleEnum = z.enum(["user", "assistant", "agent", "system", "tool"]);
+export const conversationStatusEnum = z.enum(["bot", "waiting_human", "human", "closed"]);
 export const appointmentStatusEnum = z.enum(["scheduled", "completed", "cancelled"]);
 export const leadStatusEnum = z.enum(["new", "contacted", "qualified", "converted", "lost"]);
 export const clientStatusEnum = z.enum(["active", "suspended", "inactive"]);
@@ -470,6 +582,12 @@ export const chatbotStatusEnum = z.enum(["active", "inactive", "suspended"]);
 export const subscriptionTypeEnum = z.enum(["trial", "basic", "professional", "enterprise"]);
 export const subscriptionStatusEnum = z.enum(["active", "trial", "expired", "cancelled", "payment_due"]);
 export const paymentStatusEnum = z.enum(["success", "failed", "pending", "refunded"]);
+export const apiKeyScopeEnum = z.enum(["chatbots:read", "leads:read", "leads:write", "conversations:read", "kb:read", "kb:write"]);
+export const webhookEventTypeEnum = z.enum(["lead.created", "lead.status_changed", "appointment.booked", "conversation.ended"]);
+export const llmUsageOperationEnum = z.enum(["chat", "query_expansion", "rerank", "summary", "embedding"]);
+export const evalRunStatusEnum = z.enum(["queued", "running", "completed", "failed"]);
+export const evalLLMModeEnum = z.enum(["chatbot", "stub"]);
+export const configVersionActionEnum = z.enum(["baseline", "draft", "update", "rollback"]);
 export const emailNotificationTypeEnum = z.enum([
   "trial-expiring-7days", 
   "trial-expiring-3days", 
@@ -542,6 +660,8 @@ export const subscriptions = pgTable("subscriptions", {
   trialEnd: timestamp("trial_end"),
   paidUntil: timestamp("paid_until"),
   monthlyAmount: integer("monthly_amount").default(0).notNull(), // in cents
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
@@ -561,6 +681,7 @@ export const paymentLogs = pgTable("payment_logs", {
   currency: text("currency").default("usd").notNull(),
   status: text("status").notNull(), // success, failed, pending, refunded
   failureReason: text("failure_reason"),
+  stripeInvoiceId: text("stripe_invoice_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
   return {
@@ -571,6 +692,13 @@ export const paymentLogs = pgTable("payment_logs", {
   };
 });
 
+// Processed Stripe webhook events - Stripe retries deliveries, so handling must be idempotent
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event id
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
 // Widget analytics table
 export const widgetAnalytics = pgTable("widget_analytics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -585,6 +713,41 @@ export const widgetAnalytics = pgTable("widget_analytics", {
   };
 });
 
+// Analytics events - what the source tables don't record (KB lookups, fallbacks, reply latency)
+export const analyticsEvents = pgTable("analytics_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // kb_hit, kb_miss, response, fallback
+  value: doublePrecision("value"), // response latency in ms
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    chatbotCreatedIdx: index("analytics_events_chatbot_created_idx").on(table.chatbotId, table.createdAt),
+  };
+});
+
+// Daily analytics rollups per chatbot (UTC days), recomputed by rollup_chatbot_analytics()
+export const chatbotAnalyticsDaily = pgTable("chatbot_analytics_daily", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  date: date("date", { mode: "string" }).notNull(),
+  conversationsStarted: integer("conversations_started").default(0).notNull(),
+  messagesReceived: integer("messages_received").default(0).notNull(),
+  botResponses: integer("bot_responses").default(0).notNull(),
+  kbHits: integer("kb_hits").default(0).notNull(),
+  kbMisses: integer("kb_misses").default(0).notNull(),
+  fallbackResponses: integer("fallback_responses").default(0).notNull(),
+  leadsCaptured: integer("leads_captured").default(0).notNull(),
+  appointmentsBooked: integer("appointments_booked").default(0).notNull(),
+  totalResponseMs: doublePrecision("total_response_ms").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    chatbotDateIdx: uniqueIndex("chatbot_analytics_daily_chatbot_date_idx").on(table.chatbotId, table.date),
+  };
+});
+
 // Appointments table - store appointment data from MCP Calendar integration
 export const appointments = pgTable("appointments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -606,6 +769,23 @@ export const appointments = pgTable("appointments", {
   };
 });
 
+// Calendar integrations table - per-client OAuth tokens (encrypted), kept out of chatbot config
+export const calendarIntegrations = pgTable("calendar_integrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  provider: text("provider").default("google").notNull(), // google
+  accessTokenEncrypted: text("access_token_encrypted").notNull(),
+  refreshTokenEncrypted: text("refresh_token_encrypted"),
+  tokenExpiresAt: timestamp("token_expires_at"),
+  scope: text("scope"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    clientProviderIdx: uniqueIndex("calendar_integrations_client_provider_idx").on(table.clientId, table.provider),
+  };
+});
+
 // Leads table - store captured visitor information from chatbot interactions
 export const leads = pgTable("leads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -621,6 +801,7 @@ export const leads = pgTable("leads", {
   status: text("status").default("new").notNull(), // new, contacted, qualified, converted, lost
   capturedAt: timestamp("captured_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  anonymizedAt: timestamp("anonymized_at"), // Personal data removed after the retention period
 }, (table) => {
   return {
     clientIdIdx: index("leads_client_id_idx").on(table.clientId),
@@ -640,11 +821,19 @@ export const conversations = pgTable("conversations", {
   sessionId: text("session_id").notNull(), // Unique identifier for widget sessions (unique per chatbot)
   startedAt: timestamp("started_at").defaultNow().notNull(),
   lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  summary: text("summary"), // Rolling summary of turns older than the memory window
+  summarizedMessageCount: integer("summarized_message_count").default(0).notNull(),
+  status: text("status").default("bot").notNull(), // bot, waiting_human, human, closed
+  assignedAgent: text("assigned_agent"), // Display name of the staff member handling the conversation
+  handoffReason: text("handoff_reason"),
+  handoffRequestedAt: timestamp("handoff_requested_at"),
+  variant: text("variant"), // A/B test variant of the widget session: an experiment.variants id, or "control"
 }, (table) => {
   return {
     clientIdIdx: index("conversations_client_id_idx").on(table.clientId),
     chatbotIdIdx: index("conversations_chatbot_id_idx").on(table.chatbotId),
     lastMessageAtIdx: index("conversations_last_message_at_idx").on(table.lastMessageAt),
+    statusIdx: index("conversations_status_idx").on(table.status),
     // Composite unique constraint: sessionId must be unique per chatbot
     sessionUniqueIdx: uniqueIndex("conversations_session_unique_idx").on(table.chatbotId, table.sessionId),
   };
@@ -654,7 +843,7 @@ export const conversations = pgTable("conversations", {
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
-  role: text("role").notNull(), // user, assistant, tool
+  role: text("role").notNull(), // user, assistant, agent, system, tool
   content: text("content").notNull(),
   metadata: jsonb("metadata").default({}), // For storing additional message data
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -666,6 +855,249 @@ export const messages = pgTable("messages", {
   };
 });
 
+// Files visitors attached to widget messages
+export const conversationAttachments = pgTable("conversation_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  storagePath: text("storage_path").notNull(), // Path in the chat-attachments bucket
+  extractedText: text("extracted_text"), // Document text for the model; null for unsupported types
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    conversationIdIdx: index("conversation_attachments_conversation_id_idx").on(table.conversationId),
+  };
+});
+
+// Privacy audit log - data retention runs and data-subject exports/erasures
+export const privacyAuditLogs = pgTable("privacy_audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "set null" }), // Kept when the chatbot is deleted
+  action: text("action").notNull(), // retention, export, erasure
+  subjectType: text("subject_type"), // session, email (data-subject requests)
+  subject: text("subject"), // Masked session id or email
+  status: text("status").notNull(), // completed, failed
+  conversationsAffected: integer("conversations_affected").default(0).notNull(),
+  messagesAffected: integer("messages_affected").default(0).notNull(),
+  leadsAffected: integer("leads_affected").default(0).notNull(),
+  details: jsonb("details").$type<Record<string, any>>().default({}).notNull(),
+  error: text("error"),
+  performedBy: text("performed_by").notNull(), // Admin email, or scheduler
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    chatbotActionIdx: index("privacy_audit_logs_chatbot_action_idx").on(table.chatbotId, table.action, table.createdAt),
+    createdAtIdx: index("privacy_audit_logs_created_at_idx").on(table.createdAt),
+  };
+});
+
+// Background jobs run by the worker (document ingestion, crawls, scheduled sweeps)
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // e.g. kb.process-document, kb.crawl-source
+  payload: jsonb("payload").$type<Record<string, any>>().default({}).notNull(),
+  status: text("status").default("queued").notNull(), // queued, running, completed, failed
+  attempts: integer("attempts").default(0).notNull(), // Including the running attempt
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Not picked up before this time (backoff)
+  dedupeKey: text("dedupe_key"), // One queued or running job per key
+  lockedBy: text("locked_by"), // Worker running the job
+  lockedUntil: timestamp("locked_until"), // Lease; an expired lease means the worker stopped
+  lastError: text("last_error"),
+  result: jsonb("result").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return {
+    typeRunAtIdx: index("jobs_type_run_at_idx").on(table.type, table.runAt).where(sql`status IN ('queued', 'running')`),
+    statusCreatedAtIdx: index("jobs_status_created_at_idx").on(table.status, table.createdAt),
+    dedupeKeyActiveIdx: uniqueIndex("jobs_dedupe_key_active_idx").on(table.dedupeKey).where(sql`status IN ('queued', 'running')`),
+  };
+});
+
+// API keys clients create for the public REST API (/api/v1); only a hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // First characters of the key, shown to tell keys apart
+  keyHash: text("key_hash").notNull(), // SHA-256 of the key
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().default([]).notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    keyHashIdx: uniqueIndex("api_keys_key_hash_idx").on(table.keyHash),
+    clientIdIdx: index("api_keys_client_id_idx").on(table.clientId),
+  };
+});
+
+// Requests made with an API key
+export const apiKeyUsage = pgTable("api_key_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  apiKeyId: varchar("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    apiKeyCreatedAtIdx: index("api_key_usage_api_key_created_at_idx").on(table.apiKeyId, table.createdAt),
+    createdAtIdx: index("api_key_usage_created_at_idx").on(table.createdAt),
+  };
+});
+
+// Client URLs notified of domain events
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<WebhookEventType[]>().default([]).notNull(),
+  secret: text("secret").notNull(), // Signing secret, encrypted
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    clientIdIdx: index("webhook_endpoints_client_id_idx").on(table.clientId),
+  };
+});
+
+// Events sent to webhook endpoints, with the outcome of the latest attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: varchar("endpoint_id").references(() => webhookEndpoints.id, { onDelete: "cascade" }).notNull(),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  eventId: text("event_id").notNull(), // Shared by resends of the same event
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").$type<WebhookEvent>().notNull(),
+  status: text("status").default("pending").notNull(), // pending, succeeded, failed
+  attempts: integer("attempts").default(0).notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Start of the response body
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => {
+  return {
+    endpointCreatedAtIdx: index("webhook_deliveries_endpoint_created_at_idx").on(table.endpointId, table.createdAt),
+    createdAtIdx: index("webhook_deliveries_created_at_idx").on(table.createdAt),
+  };
+});
+
+// One metered LLM call: a chat completion, query expansion, rerank, summary or embedding run
+export const llmUsage = pgTable("llm_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "set null" }),
+  operation: text("operation").notNull(), // chat, query_expansion, rerank, summary, embedding
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").default(0).notNull(),
+  completionTokens: integer("completion_tokens").default(0).notNull(),
+  cost: doublePrecision("cost").default(0).notNull(), // USD
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    clientCreatedAtIdx: index("llm_usage_client_created_at_idx").on(table.clientId, table.createdAt),
+    createdAtIdx: index("llm_usage_created_at_idx").on(table.createdAt),
+  };
+});
+
+// Token buckets of the shared widget rate limit store, one per limited key (ip:, session:, chatbot:, abuse:)
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    updatedAtIdx: index("rate_limit_buckets_updated_at_idx").on(table.updatedAt),
+  };
+});
+
+// Golden question sets for measuring a chatbot's answers
+export const evalSets = pgTable("eval_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    chatbotIdIdx: index("eval_sets_chatbot_id_idx").on(table.chatbotId),
+  };
+});
+
+// A question of a golden set with the answer and knowledge base documents it should get
+export const evalCases = pgTable("eval_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  setId: varchar("set_id").references(() => evalSets.id, { onDelete: "cascade" }).notNull(),
+  question: text("question").notNull(),
+  expectedAnswer: text("expected_answer"),
+  expectedDocumentIds: jsonb("expected_document_ids").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    setIdIdx: index("eval_cases_set_id_idx").on(table.setId),
+  };
+});
+
+// A golden set run through the chatbot's pipeline, with the scores of every question
+export const evalRuns = pgTable("eval_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  setId: varchar("set_id").references(() => evalSets.id, { onDelete: "cascade" }).notNull(),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  label: text("label"), // What changed since the previous run, e.g. "chunk size 500"
+  status: text("status").default("queued").notNull(), // queued, running, completed, failed
+  llm: text("llm").default("chatbot").notNull(), // chatbot: the chatbot's model; stub: the offline fake provider
+  settings: jsonb("settings").$type<EvalRunSettings>(),
+  summary: jsonb("summary").$type<EvalRunSummary>(),
+  results: jsonb("results").$type<EvalCaseResult[]>().default([]).notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return {
+    setCreatedAtIdx: index("eval_runs_set_created_at_idx").on(table.setId, table.createdAt),
+  };
+});
+
+// Every change to a chatbot's config, kept as it was saved. chatbots.config is the live config; the
+// newest version, when it was never published, is the draft
+export const chatbotConfigVersions = pgTable("chatbot_config_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(), // 1, 2, ... per chatbot
+  config: jsonb("config").$type<Record<string, any>>().notNull(),
+  diff: jsonb("diff").$type<ConfigChange[]>().default([]).notNull(), // Against the config it replaced (live config or previous draft)
+  action: text("action").notNull(), // baseline, draft, update (applied live), rollback
+  note: text("note"),
+  author: text("author"), // Admin email; null for changes made by the system
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at"),
+  publishedBy: text("published_by"),
+}, (table) => {
+  return {
+    chatbotVersionIdx: uniqueIndex("chatbot_config_versions_chatbot_version_idx").on(table.chatbotId, table.version),
+  };
+});
+
 // Custom type for vector embeddings (pgvector)
 const vector = customType<{
   data: number[];
@@ -682,6 +1114,27 @@ const vector = customType<{
   }
 });
 
+// Knowledge base sources - websites crawled into kb_documents, one document per page
+export const kbSources = pgTable("kb_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull().default("website"), // website
+  url: text("url").notNull(), // Start page or sitemap.xml
+  includePatterns: jsonb("include_patterns").$type<string[]>().default([]).notNull(),
+  excludePatterns: jsonb("exclude_patterns").$type<string[]>().default([]).notNull(),
+  maxPages: integer("max_pages").notNull().default(50),
+  status: text("status").notNull().default("pending"), // pending|crawling|ready|error
+  lastError: text("last_error"),
+  pagesCrawled: integer("pages_crawled").notNull().default(0),
+  lastCrawledAt: timestamp("last_crawled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    chatbotIdIdx: index("kb_sources_chatbot_id_idx").on(table.chatbotId),
+  };
+});
+
 // Knowledge base documents table
 export const kbDocuments = pgTable("kb_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -694,11 +1147,17 @@ export const kbDocuments = pgTable("kb_documents", {
   checksum: text("checksum").notNull(), // SHA256 hash
   version: integer("version").notNull().default(1),
   errorMessage: text("error_message"),
+  sourceId: varchar("source_id").references(() => kbSources.id, { onDelete: "cascade" }), // Set for crawled pages
+  sourceUrl: text("source_url"), // Page URL of a crawled page
+  processingProgress: integer("processing_progress").default(0), // percentage
+  processedChunks: integer("processed_chunks").default(0),
+  totalChunks: integer("total_chunks").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
   return {
     chatbotIdIdx: index("kb_documents_chatbot_id_idx").on(table.chatbotId),
+    sourcePageIdx: uniqueIndex("kb_documents_source_page_idx").on(table.sourceId, table.sourceUrl),
     statusIdx: index("kb_documents_status_idx").on(table.status),
     checksumIdx: index("kb_documents_checksum_idx").on(table.checksum),
     // Unique constraint: same file (checksum) can't be uploaded twice for same chatbot
@@ -727,6 +1186,29 @@ export const kbChunks = pgTable("kb_chunks", {
   };
 });
 
+// Unanswered questions - knowledge base misses clustered by embedding similarity
+export const kbUnansweredQuestions = pgTable("kb_unanswered_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: varchar("chatbot_id").references(() => chatbots.id, { onDelete: "cascade" }).notNull(),
+  question: text("question").notNull(), // First phrasing of the cluster
+  examples: jsonb("examples").$type<string[]>().default([]).notNull(), // Up to 5 other phrasings
+  embedding: vector("embedding"),
+  occurrences: integer("occurrences").default(1).notNull(),
+  lastReason: text("last_reason").notNull(), // no_results, low_confidence
+  lastConfidence: doublePrecision("last_confidence"),
+  status: text("status").default("open").notNull(), // open, answered, dismissed
+  answer: text("answer"),
+  answeredVia: text("answered_via"), // faq, document
+  kbDocumentId: varchar("kb_document_id").references(() => kbDocuments.id, { onDelete: "set null" }),
+  firstAskedAt: timestamp("first_asked_at").defaultNow().notNull(),
+  lastAskedAt: timestamp("last_asked_at").defaultNow().notNull(),
+  answeredAt: timestamp("answered_at"),
+}, (table) => {
+  return {
+    chatbotStatusIdx: index("kb_unanswered_questions_chatbot_status_idx").on(table.chatbotId, table.status, table.occurrences),
+  };
+});
+
 // Email settings table - store admin configuration for email notifications
 export const emailSettings = pgTable("email_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -871,15 +1353,116 @@ export type InsertChatbot = z.infer<typeof insertChatbotSchema>;
 
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type SubscriptionType = z.infer<typeof subscriptionTypeEnum>;
+export type SubscriptionStatus = z.infer<typeof subscriptionStatusEnum>;
+
+// Quotas of a plan; null means unlimited
+export interface PlanLimits {
+  chatbots: number | null;
+  monthlyMessages: number | null; // Visitor messages per calendar month (UTC), across all chatbots
+  kbDocuments: number | null; // Uploaded documents across all chatbots; crawled pages are not counted
+  plugins: number | null; // Enabled plugins per chatbot
+}
+export type PlanQuota = keyof PlanLimits;
+
+export const PLAN_LIMITS: Record<SubscriptionType, PlanLimits> = {
+  trial: { chatbots: 1, monthlyMessages: 500, kbDocuments: 10, plugins: 1 },
+  basic: { chatbots: 1, monthlyMessages: 2000, kbDocuments: 50, plugins: 2 },
+  professional: { chatbots: 5, monthlyMessages: 20000, kbDocuments: 500, plugins: 10 },
+  enterprise: { chatbots: null, monthlyMessages: null, kbDocuments: null, plugins: null },
+};
+
+// A client's plan with what it has used, for the client dashboard
+export interface PlanUsage {
+  type: SubscriptionType;
+  status: string | null; // As effective now: a trial past its end reads expired
+  trialEnd: Date | string | null;
+  paidUntil: Date | string | null;
+  limits: PlanLimits;
+  usage: Record<PlanQuota, number>; // plugins: the most enabled on one chatbot
+  llmTokens: number; // Prompt and completion tokens used this month
+}
 
 export type PaymentLog = typeof paymentLogs.$inferSelect;
 export type InsertPaymentLog = z.infer<typeof insertPaymentLogSchema>;
 
 export type WidgetAnalytics = typeof widgetAnalytics.$inferSelect;
 
+export type AnalyticsEventType = 'kb_hit' | 'kb_miss' | 'response' | 'fallback';
+export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
+export type ChatbotAnalyticsDaily = typeof chatbotAnalyticsDaily.$inferSelect;
+
+export const analyticsGranularityEnum = z.enum(['day', 'week', 'month']);
+export type AnalyticsGranularity = z.infer<typeof analyticsGranularityEnum>;
+
+// Query of GET /api/chatbots/:id/analytics; dates are UTC days (YYYY-MM-DD), both inclusive
+export const chatbotAnalyticsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "from must be a date (YYYY-MM-DD)").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "to must be a date (YYYY-MM-DD)").optional(),
+  granularity: analyticsGranularityEnum.default('day'),
+});
+
+// Counts and derived rates for one period (a bucket of the series, or the whole range)
+export interface ChatbotAnalyticsPoint {
+  period: string; // first day of the bucket (YYYY-MM-DD)
+  conversationsStarted: number;
+  messagesReceived: number;
+  botResponses: number;
+  leadsCaptured: number;
+  appointmentsBooked: number;
+  messagesPerConversation: number;
+  kbHitRate: number | null; // 0-1, null when the knowledge base was never searched
+  fallbackRate: number | null; // 0-1 of bot responses
+  leadConversionRate: number | null; // 0-1 of conversations started
+  avgResponseMs: number | null;
+}
+
+export interface ChatbotAnalyticsReport {
+  chatbotId: string;
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  totals: ChatbotAnalyticsPoint;
+  series: ChatbotAnalyticsPoint[];
+  experiment: ExperimentReport | null; // Null when no conversation in the range was part of an A/B test
+}
+
+export type BehaviorVariant = z.infer<typeof behaviorVariantSchema>;
+
+// Outcomes of the conversations started in a range, per A/B test variant
+export interface VariantOutcomeRow {
+  variant: string;
+  conversations: number;
+  convertedConversations: number; // With at least one captured lead
+  handoffs: number; // Conversations handed to staff
+  messagesReceived: number;
+  botResponses: number;
+  fallbackResponses: number;
+}
+
+export interface ExperimentVariantResult extends VariantOutcomeRow {
+  name: string;
+  active: boolean; // Still a variant of the experiment, so new sessions are assigned to it
+  leadConversionRate: number | null; // 0-1 of conversations
+  handoffRate: number | null;
+  fallbackRate: number | null; // 0-1 of bot responses
+  messagesPerConversation: number;
+  // Lead conversion against control (two-proportion z-test); null for control, or without conversations on either side
+  uplift: number | null; // Difference in conversion rate
+  pValue: number | null;
+  significant: boolean; // pValue below 0.05
+}
+
+export interface ExperimentReport {
+  enabled: boolean;
+  variants: ExperimentVariantResult[]; // Control first
+}
+
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 
+export type CalendarIntegration = typeof calendarIntegrations.$inferSelect;
+
 export type Lead = typeof leads.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 
@@ -889,12 +1472,339 @@ export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+export type ConversationAttachment = typeof conversationAttachments.$inferSelect;
+
+export type PrivacyAction = 'retention' | 'export' | 'erasure';
+export type PrivacyAuditLog = typeof privacyAuditLogs.$inferSelect;
+
+// A data-subject request identifies the visitor by widget session or by the email they left as a lead
+export const dataSubjectRequestSchema = z.object({
+  sessionId: z.string().trim().min(1).max(200).optional(),
+  email: z.string().trim().email("Enter a valid email").max(320).optional(),
+}).refine(request => !!request.sessionId !== !!request.email, "Provide either a sessionId or an email");
+export type DataSubjectRequest = z.infer<typeof dataSubjectRequestSchema>;
+
+// Everything stored about a visitor, as returned by the data-subject export
+export interface DataSubjectExport {
+  chatbotId: string;
+  subject: DataSubjectRequest;
+  exportedAt: string;
+  conversations: (Conversation & { messages: Message[] })[];
+  attachments: Omit<ConversationAttachment, 'storagePath'>[]; // Files the visitor attached, with their extracted text
+  leads: Lead[];
+}
+
+// Outcome of one retention run for a chatbot
+export interface RetentionResult {
+  chatbotId: string;
+  retentionDays: number;
+  cutoff: string;
+  conversationsDeleted: number;
+  messagesDeleted: number;
+  leadsAnonymized: number;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type Job = typeof jobs.$inferSelect;
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeEnum>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+// An API key as listed to its client; the hash never leaves the server
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+// Create an API key from the client dashboard
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name too long"),
+  scopes: z.array(apiKeyScopeEnum).min(1, "Select at least one scope"),
+  expiresAt: z.coerce.date().refine(date => date.getTime() > Date.now(), "Expiry must be in the future").optional(),
+});
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+
+export type WebhookEventType = z.infer<typeof webhookEventTypeEnum>;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+// A webhook endpoint as listed to its client; the signing secret is only returned when it is created or rotated
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>;
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// Body POSTed to webhook endpoints
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export const webhookEndpointSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").refine(url => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  description: z.string().trim().max(200, "Description too long").optional(),
+  events: z.array(webhookEventTypeEnum).min(1, "Select at least one event"),
+  enabled: z.boolean().default(true),
+});
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+
+export type LLMUsageOperation = z.infer<typeof llmUsageOperationEnum>;
+export type LLMUsage = typeof llmUsage.$inferSelect;
+
+// Metered calls added up, for one group of llm_usage rows
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+}
+
+// llm_usage grouped by client, chatbot, operation and model
+export interface LLMUsageSummaryRow extends LLMUsageTotals {
+  clientId: string;
+  clientName: string | null;
+  chatbotId: string | null; // Null once the chatbot is deleted
+  chatbotName: string | null;
+  operation: LLMUsageOperation;
+  model: string;
+}
+
+// One client's LLM cost for a month against what its plan brings in
+export interface ClientUsageReport extends LLMUsageTotals {
+  clientId: string;
+  clientName: string | null;
+  plan: SubscriptionType;
+  revenue: number; // USD, the subscription's monthly amount; nothing for trials and lapsed plans
+  margin: number; // revenue - cost
+  marginPercent: number | null; // Null without revenue
+  chatbots: Array<LLMUsageTotals & { chatbotId: string | null; chatbotName: string | null }>;
+  operations: Array<LLMUsageTotals & { operation: LLMUsageOperation }>;
+  models: Array<LLMUsageTotals & { model: string }>;
+}
+
+export interface UsageReport {
+  month: string; // YYYY-MM (UTC)
+  totals: LLMUsageTotals & { revenue: number; margin: number };
+  clients: ClientUsageReport[];
+}
+
+export type EvalRunStatus = z.infer<typeof evalRunStatusEnum>;
+export type EvalLLMMode = z.infer<typeof evalLLMModeEnum>;
+export type EvalSet = typeof evalSets.$inferSelect;
+export type EvalCase = typeof evalCases.$inferSelect;
+export type EvalRun = typeof evalRuns.$inferSelect;
+
+// What a run was measured with, so runs can be told apart when compared
+export interface EvalRunSettings {
+  provider: string;
+  model: string;
+  k: number; // Retrieved chunks recall is measured over
+}
+
+// Scores of one golden question; null when the case has nothing to score it against
+export interface EvalCaseResult {
+  caseId: string;
+  question: string;
+  expectedAnswer: string | null;
+  expectedDocumentIds: string[];
+  answer: string;
+  retrievedDocumentIds: string[]; // Documents of the top k chunks, best first
+  citedDocumentIds: string[];
+  recall: number | null; // Share of the expected documents among the retrieved ones
+  faithfulness: number | null; // Share of the answer's sentences supported by the chunks it cites
+  answerMatch: number | null; // Word overlap (F1) with the expected answer
+  fallback: boolean; // Answered with the fallback message
+  latencyMs: number;
+  error?: string;
+}
+
+// Averages over a run's questions; null when no question could be scored
+export interface EvalRunSummary {
+  cases: number;
+  recall: number | null;
+  faithfulness: number | null;
+  answerMatch: number | null;
+  fallbackRate: number;
+  avgLatencyMs: number;
+}
+
+export const evalSetSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name too long"),
+  description: z.string().trim().max(500, "Description too long").optional(),
+});
+export type EvalSetInput = z.infer<typeof evalSetSchema>;
+
+export const evalCaseSchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(2000, "Question too long"),
+  expectedAnswer: z.string().trim().max(5000, "Expected answer too long").optional(),
+  expectedDocumentIds: z.array(z.string()).max(20, "Too many documents").default([]),
+});
+export type EvalCaseInput = z.infer<typeof evalCaseSchema>;
+
+export const evalRunRequestSchema = z.object({
+  llm: evalLLMModeEnum.default("chatbot"),
+  label: z.string().trim().max(100, "Label too long").optional(),
+});
+export type EvalRunRequest = z.infer<typeof evalRunRequestSchema>;
+
+export type ConfigVersionAction = z.infer<typeof configVersionActionEnum>;
+export type ChatbotConfigVersion = typeof chatbotConfigVersions.$inferSelect;
+
+// One changed setting, by dotted path (e.g. "branding.primaryColor"); arrays are compared whole
+export interface ConfigChange {
+  path: string;
+  before?: unknown; // Missing when the setting was added
+  after?: unknown; // Missing when the setting was removed
+}
+
+export interface ChatbotConfigHistory {
+  liveVersion: number | null; // null until the config is first versioned
+  draft: ChatbotConfigVersion | null;
+  versions: ChatbotConfigVersion[]; // Newest first
+}
+
+export const configPreviewSchema = z.object({
+  message: z.string().trim().min(1, "Message is required").max(2000, "Message too long"),
+});
+export type ConfigPreviewRequest = z.infer<typeof configPreviewSchema>;
+
+// Public REST API (v1). The query and body schemas validate requests; together with the record schemas
+// they make up the OpenAPI document served at /api/v1/openapi.json
+export const apiListQuerySchema = z.object({
+  chatbotId: z.string().optional(),
+  since: z.coerce.date().optional(), // Records created or active at or after this time
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+export const apiLeadsQuerySchema = apiListQuerySchema.extend({
+  status: leadStatusEnum.optional(),
+});
+export const apiConversationsQuerySchema = apiListQuerySchema.extend({
+  status: conversationStatusEnum.optional(),
+});
+export const apiUpdateLeadSchema = z.object({
+  status: leadStatusEnum,
+  notes: z.string().max(5000, "Notes too long").optional(),
+});
+
+export const apiChatbotSchema = createSelectSchema(chatbots).pick({
+  id: true,
+  name: true,
+  description: true,
+  status: true,
+  widgetUrl: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const apiLeadSchema = createSelectSchema(leads);
+export const apiAppointmentSchema = createSelectSchema(appointments);
+export const apiConversationSchema = createSelectSchema(conversations);
+export const apiMessageSchema = createSelectSchema(messages);
+export const apiConversationWithMessagesSchema = apiConversationSchema.extend({
+  messages: z.array(apiMessageSchema),
+});
+export const apiKBDocumentSchema = createSelectSchema(kbDocuments).omit({ storagePath: true });
+export const apiKBUploadResultSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  size: z.number().int(),
+  status: z.string(),
+  message: z.string(),
+});
+export const apiErrorSchema = z.object({ message: z.string() });
+
 export type KBDocument = typeof kbDocuments.$inferSelect;
 export type InsertKBDocument = z.infer<typeof insertKBDocumentSchema>;
 
 export type KBChunk = typeof kbChunks.$inferSelect;
 export type InsertKBChunk = z.infer<typeof insertKBChunkSchema>;
 
+// A knowledge base chunk returned by search
+export interface KBSearchResult {
+  chunkId: string;
+  documentId: string;
+  text: string;
+  similarity: number;
+  filename: string;
+  sourceUrl: string | null;
+  metadata: any;
+}
+
+// A hybrid search result with both halves of its score; results are ordered by the fused (reciprocal rank) score
+export interface KBScoredSearchResult extends KBSearchResult {
+  vectorRank: number | null; // similarity is 0 for keyword-only matches
+  keywordScore: number | null;
+  keywordRank: number | null;
+  fusedScore: number;
+}
+
+export type RetrievalSettings = z.infer<typeof retrievalSettingsSchema>;
+
+// A passage found for a question, with the searched queries that found it and the model's rerank score
+export interface RetrievalCandidate extends KBScoredSearchResult {
+  queries: string[];
+  rerankScore: number | null; // 0-1
+  rerankReason: string | null;
+  selected: boolean; // Given to the model
+}
+
+// Every step of a knowledge base search, for the retrieval playground
+export interface RetrievalTrace {
+  variations: string[]; // Searched queries, the question first
+  candidates: RetrievalCandidate[]; // Best fused score first
+  reranked: boolean; // False when reranking is off or failed
+  results: KBSearchResult[]; // Passages given to the model, in prompt order
+}
+
+export interface RetrievalPlaygroundResult {
+  settings: RetrievalSettings;
+  trace: RetrievalTrace;
+  prompt: Array<{ role: 'system' | 'assistant' | 'user'; content: string }>; // The messages sent to the model
+}
+
+export const retrievalPlaygroundSchema = z.object({
+  query: z.string().trim().min(1, "Query is required").max(2000, "Query too long"),
+  settings: retrievalSettingsSchema.partial().optional(), // Unsaved settings to try; the rest come from the chatbot
+});
+export type RetrievalPlaygroundRequest = z.infer<typeof retrievalPlaygroundSchema>;
+
+// A knowledge base passage cited by a bot answer; index matches the [n] marker in the answer text
+export interface MessageCitation {
+  index: number;
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  location: string | null; // e.g. "Page 4" or "Sheet Prices, rows 11-20"
+  sourceUrl: string | null;
+  passage: string;
+}
+
+// A file a visitor attached to a message; kept in messages.metadata.attachments for the transcript
+export interface MessageAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export type KBSource = typeof kbSources.$inferSelect;
+export type KBSourceStatus = 'pending' | 'crawling' | 'ready' | 'error';
+
+// Crawl a website into the knowledge base; patterns are URL paths with * wildcards (e.g. /docs/*)
+export const createKBSourceSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").refine(url => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  includePatterns: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+  excludePatterns: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+  maxPages: z.number().int().min(1).max(500).default(50),
+});
+export type CreateKBSource = z.infer<typeof createKBSourceSchema>;
+
+export type UnansweredQuestionReason = 'no_results' | 'low_confidence';
+export type KBUnansweredQuestion = Omit<typeof kbUnansweredQuestions.$inferSelect, 'embedding'>;
+
+// Answer an unanswered question in place: as a FAQ entry in the chatbot config, or as a KB document
+export const answerUnansweredQuestionSchema = z.object({
+  question: z.string().trim().min(1, "Question cannot be empty").max(200, "Question too long"),
+  answer: z.string().trim().min(1, "Answer cannot be empty").max(1000, "Answer too long"),
+  mode: z.enum(['faq', 'document']),
+});
+export type AnswerUnansweredQuestion = z.infer<typeof answerUnansweredQuestionSchema>;
+
 export type EmailSettings = typeof emailSettings.$inferSelect;
 export type InsertEmailSettings = z.infer<typeof insertEmailSettingsSchema>;
 
@@ -0,0 +1,2492 @@
+import bcrypt from 'bcrypt';
+import { nanoid } from 'nanoid';
+import { and, asc, count, cosineDistance, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, or, sql, sum, getTableColumns } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { getDb } from './database/postgres.js';
+import { supabaseService } from './services/supabase.js';
+import {
+  admins,
+  clients,
+  chatbots,
+  subscriptions,
+  paymentLogs,
+  stripeEvents,
+  widgetAnalytics,
+  analyticsEvents,
+  chatbotAnalyticsDaily,
+  appointments,
+  calendarIntegrations,
+  leads,
+  conversations,
+  messages,
+  conversationAttachments,
+  kbSources,
+  kbDocuments,
+  kbChunks,
+  kbUnansweredQuestions,
+  privacyAuditLogs,
+  jobs,
+  apiKeys,
+  apiKeyUsage,
+  webhookEndpoints,
+  webhookDeliveries,
+  llmUsage,
+  rateLimitBuckets,
+  evalSets,
+  evalCases,
+  evalRuns,
+  chatbotConfigVersions
+} from './shared/schema.js';
+import type {
+  Admin,
+  InsertAdmin,
+  Client,
+  InsertClient,
+  Chatbot,
+  InsertChatbot,
+  Subscription,
+  InsertSubscription,
+  PaymentLog,
+  InsertPaymentLog,
+  Appointment,
+  InsertAppointment,
+  CalendarIntegration,
+  AnalyticsEventType,
+  ChatbotAnalyticsDaily,
+  Lead,
+  InsertLead,
+  Conversation,
+  InsertConversation,
+  ConversationAttachment,
+  Message,
+  InsertMessage,
+  KBDocument,
+  InsertKBDocument,
+  KBChunk,
+  InsertKBChunk,
+  KBUnansweredQuestion,
+  UnansweredQuestionReason,
+  KBSource,
+  CreateKBSource,
+  KBSearchResult,
+  KBScoredSearchResult,
+  EmailSettings,
+  InsertEmailSettings,
+  EmailNotification,
+  InsertEmailNotification,
+  ClientWithChatbots,
+  ChatbotWithClient,
+  SubscriptionWithClient,
+  ConversationWithMessages,
+  LeadWithClient,
+  AppointmentWithClient,
+  PrivacyAction,
+  PrivacyAuditLog,
+  Job,
+  JobStatus,
+  ApiKey,
+  ApiKeyUsage,
+  WebhookEndpoint,
+  WebhookDelivery,
+  LLMUsage,
+  LLMUsageSummaryRow,
+  EvalSet,
+  EvalCase,
+  EvalRun,
+  ChatbotConfigVersion,
+  VariantOutcomeRow
+} from './shared/schema.js';
+import type { IStorage, WebhookDeliveryUpdate, EvalRunUpdate } from './storage-supabase.js';
+import {
+  parseConfig,
+  mapClient,
+  mapKBDocument,
+  mapSubscription,
+  mapPaymentLog,
+  mapAppointment,
+  mapCalendarIntegration,
+  mapConversation,
+  mapConversationAttachment,
+  mapKBSource,
+  mapKBSearchResult,
+  mapKBScoredSearchResult,
+  mapUnansweredQuestion,
+  mapChatbotAnalyticsDaily,
+  mapLead,
+  mapMessage,
+  mapPrivacyAuditLog,
+  mapJob,
+  mapApiKey,
+  mapApiKeyUsage,
+  mapWebhookEndpoint,
+  mapWebhookDelivery,
+  mapLLMUsageSummaryRow,
+  mapEvalSet,
+  mapEvalCase,
+  mapEvalRun,
+  mapChatbotConfigVersion,
+  mapVariantOutcomeRow
+} from './database/mappers.js';
+
+// Reciprocal Rank Fusion constant, as in hybrid_match_documents
+const RRF_K = 60;
+
+// Embeddings are only needed for clustering in the database
+const { embedding: _embedding, ...unansweredQuestionColumns } = getTableColumns(kbUnansweredQuestions);
+
+// Result columns of match_documents and hybrid_match_documents
+const searchResultColumns = {
+  chunk_id: kbChunks.id,
+  document_id: kbDocuments.id,
+  text: kbChunks.text,
+  filename: kbDocuments.filename,
+  source_url: kbDocuments.sourceUrl,
+  metadata: kbChunks.metadata,
+};
+
+type Row = Record<string, any>;
+
+// Records in the shape the Supabase backend returns: column names as keys, timestamps as ISO strings
+function toRow(table: PgTable, record: Record<string, unknown>): Row {
+  const columns = getTableColumns(table);
+  const row: Row = {};
+  for (const [key, value] of Object.entries(record)) {
+    row[columns[key]?.name ?? key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return row;
+}
+
+// Callers pass timestamps as ISO strings or Dates; Drizzle needs Dates
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string | number | Date) : null;
+}
+
+// The shared Insert* types infer as {} with the installed drizzle-zod, so inputs are also typed by the table's columns
+type ColumnsOf<T extends PgTable> = Partial<T['$inferSelect']>;
+
+// Database errors surface with the same messages as the Supabase backend
+async function run<T>(action: string, query: PromiseLike<T>): Promise<T> {
+  try {
+    return await query;
+  } catch (error: any) {
+    throw new Error(`Failed to ${action}: ${error.message}`);
+  }
+}
+
+async function single<T>(action: string, query: PromiseLike<T[]>): Promise<T> {
+  const rows = await run(action, query);
+  if (!rows[0]) throw new Error(`Failed to ${action}: record not found`);
+  return rows[0];
+}
+
+/**
+ * Postgres Storage
+ * IStorage on Drizzle over node-postgres (STORAGE_BACKEND=postgres), for deployments without Supabase.
+ * Returns records of the same shape as SupabaseStorage; knowledge base search runs the queries of the
+ * match_documents/hybrid_match_documents functions in Drizzle.
+ */
+export class PostgresStorage implements IStorage {
+  private get db() {
+    return getDb();
+  }
+
+  private async count(table: PgTable, where?: ReturnType<typeof and>): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(table).where(where);
+    return result?.value ?? 0;
+  }
+
+  private async getChatbotRow(where: ReturnType<typeof eq>): Promise<Row | undefined> {
+    const [row] = await this.db
+      .select({ chatbot: chatbots, client: clients })
+      .from(chatbots)
+      .leftJoin(clients, eq(chatbots.clientId, clients.id))
+      .where(where)
+      .limit(1);
+
+    if (!row) return undefined;
+    return {
+      ...toRow(chatbots, row.chatbot),
+      client: row.client ? toRow(clients, row.client) : null
+    };
+  }
+
+  private async getClientSubscription(clientId: string): Promise<Row | null> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.clientId, clientId))
+      .limit(1);
+
+    return subscription ? toRow(subscriptions, subscription) : null;
+  }
+
+  private withParsedConfig(chatbot: Row): Chatbot {
+    if (chatbot.config) {
+      chatbot.config = parseConfig(chatbot.config);
+    }
+    return chatbot as Chatbot;
+  }
+
+  // Admin management
+  async getAdmin(id: string): Promise<Admin | undefined> {
+    const [admin] = await this.db.select().from(admins).where(eq(admins.id, id)).limit(1);
+    return admin ? toRow(admins, admin) as Admin : undefined;
+  }
+
+  async getAdminByUsername(username: string): Promise<Admin | undefined> {
+    const [admin] = await this.db.select().from(admins).where(eq(admins.username, username)).limit(1);
+    return admin ? toRow(admins, admin) as Admin : undefined;
+  }
+
+  async createAdmin(insertAdmin: InsertAdmin & ColumnsOf<typeof admins>): Promise<Admin> {
+    const hashedPassword = await bcrypt.hash(insertAdmin.password, 10);
+
+    const admin = await single('create admin', this.db
+      .insert(admins)
+      .values({
+        id: nanoid(),
+        username: insertAdmin.username,
+        email: insertAdmin.email,
+        password: hashedPassword
+      } as any)
+      .returning());
+
+    return toRow(admins, admin) as Admin;
+  }
+
+  // Client management
+  async getClient(id: string): Promise<Client | undefined> {
+    const [client] = await this.db.select().from(clients).where(eq(clients.id, id)).limit(1);
+    return client ? mapClient(toRow(clients, client)) : undefined;
+  }
+
+  async getClientsWithChatbots(): Promise<ClientWithChatbots[]> {
+    const [clientRows, chatbotRows, subscriptionRows] = await run('fetch clients', Promise.all([
+      this.db.select().from(clients),
+      this.db.select().from(chatbots),
+      this.db.select().from(subscriptions),
+    ]));
+
+    return clientRows.map(client => ({
+      ...toRow(clients, client),
+      chatbots: chatbotRows.filter(chatbot => chatbot.clientId === client.id).map(chatbot => toRow(chatbots, chatbot)),
+      subscription: (() => {
+        const subscription = subscriptionRows.find(row => row.clientId === client.id);
+        return subscription ? toRow(subscriptions, subscription) : null;
+      })()
+    })) as ClientWithChatbots[];
+  }
+
+  async createClient(insertClient: InsertClient & ColumnsOf<typeof clients>): Promise<Client> {
+    const client = await single('create client', this.db
+      .insert(clients)
+      .values({
+        id: nanoid(),
+        name: insertClient.name,
+        contactEmail: insertClient.contactEmail,
+        industry: insertClient.industry || null,
+        description: insertClient.description || null,
+        status: 'active',
+        authEmail: null,
+        passwordHash: null
+      } as any)
+      .returning());
+
+    return toRow(clients, client) as Client;
+  }
+
+  async updateClient(id: string, updateData: Partial<InsertClient & ColumnsOf<typeof clients>>): Promise<Client> {
+    const updates: Record<string, any> = {};
+    if (updateData.name !== undefined) updates.name = updateData.name;
+    if (updateData.contactEmail !== undefined) updates.contactEmail = updateData.contactEmail;
+    if (updateData.industry !== undefined) updates.industry = updateData.industry;
+    if (updateData.description !== undefined) updates.description = updateData.description;
+
+    const client = await single('update client', this.db
+      .update(clients)
+      .set(updates)
+      .where(eq(clients.id, id))
+      .returning());
+
+    return toRow(clients, client) as Client;
+  }
+
+  async deleteClient(id: string): Promise<void> {
+    // Related records are removed by the cascading foreign keys
+    await run('delete client', this.db.delete(clients).where(eq(clients.id, id)));
+  }
+
+  // Chatbot management
+  async getChatbot(id: string): Promise<Chatbot | undefined> {
+    const [chatbot] = await this.db.select().from(chatbots).where(eq(chatbots.id, id)).limit(1);
+    if (!chatbot) return undefined;
+
+    const row = toRow(chatbots, chatbot);
+    // Map snake_case to camelCase for compatibility
+    row.clientId = row.client_id;
+    return this.withParsedConfig(row);
+  }
+
+  async getChatbotsWithClients(): Promise<ChatbotWithClient[]> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const rows = await run('fetch chatbots with clients', this.db
+      .select({ chatbot: chatbots, client: clients })
+      .from(chatbots)
+      .leftJoin(clients, eq(chatbots.clientId, clients.id)));
+
+    // Messages are linked to chatbots through their conversation
+    const [subscriptionRows, messagesToday, conversationTotals, conversationsWithResponses] = await Promise.all([
+      this.db.select().from(subscriptions),
+      this.db
+        .select({ chatbotId: conversations.chatbotId, value: count() })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(gte(messages.createdAt, today))
+        .groupBy(conversations.chatbotId),
+      this.db
+        .select({ chatbotId: conversations.chatbotId, value: count() })
+        .from(conversations)
+        .groupBy(conversations.chatbotId),
+      this.db
+        .select({ chatbotId: conversations.chatbotId, value: sql<number>`count(distinct ${messages.conversationId})`.mapWith(Number) })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(eq(messages.role, 'assistant'))
+        .groupBy(conversations.chatbotId),
+    ]);
+
+    const countFor = (counts: { chatbotId: string; value: number }[], chatbotId: string) =>
+      counts.find(entry => entry.chatbotId === chatbotId)?.value || 0;
+
+    return rows.map(({ chatbot, client }) => {
+      const messageCount = countFor(messagesToday, chatbot.id);
+      const totalConversations = countFor(conversationTotals, chatbot.id);
+      const withResponses = countFor(conversationsWithResponses, chatbot.id);
+      const responseRate = totalConversations > 0
+        ? Math.round((withResponses / totalConversations) * 100)
+        : 0;
+      const subscription = subscriptionRows.find(row => row.clientId === chatbot.clientId);
+
+      return {
+        ...this.withParsedConfig(toRow(chatbots, chatbot)),
+        client: client ? toRow(clients, client) : null,
+        subscription: subscription ? toRow(subscriptions, subscription) : null,
+        messageCount,
+        responseRate
+      } as ChatbotWithClient;
+    });
+  }
+
+  async getChatbotForWidget(id: string): Promise<ChatbotWithClient | undefined> {
+    // First try to find the chatbot by ID, then by widget URL
+    const data = await this.getChatbotRow(eq(chatbots.id, id))
+      ?? await this.getChatbotRow(sql`${chatbots.widgetUrl} ilike ${`%${id}%`}`);
+
+    if (!data) return undefined;
+
+    return {
+      ...this.withParsedConfig(data),
+      client: data.client,
+      subscription: await this.getClientSubscription(data.client_id)
+    } as ChatbotWithClient;
+  }
+
+  async createChatbot(insertChatbot: InsertChatbot & ColumnsOf<typeof chatbots> & { widgetUrl: string }): Promise<Chatbot> {
+    const chatbot = await single('create chatbot', this.db
+      .insert(chatbots)
+      .values({
+        id: nanoid(),
+        clientId: insertChatbot.clientId,
+        name: insertChatbot.name,
+        description: insertChatbot.description || null,
+        config: parseConfig(insertChatbot.config || {}),
+        widgetUrl: insertChatbot.widgetUrl,
+        status: 'active',
+        messageCount: 0,
+        responseRate: 0
+      } as any)
+      .returning());
+
+    return this.withParsedConfig(toRow(chatbots, chatbot));
+  }
+
+  private async updateChatbot(id: string, action: string, updates: Record<string, any>): Promise<Chatbot> {
+    const chatbot = await single(action, this.db
+      .update(chatbots)
+      .set(updates)
+      .where(eq(chatbots.id, id))
+      .returning());
+
+    return this.withParsedConfig(toRow(chatbots, chatbot));
+  }
+
+  async updateChatbotStatus(id: string, status: string): Promise<Chatbot> {
+    return this.updateChatbot(id, 'update chatbot status', { status });
+  }
+
+  async updateChatbotConfig(id: string, config: any): Promise<Chatbot> {
+    return this.updateChatbot(id, 'update chatbot config', { config: parseConfig(config) });
+  }
+
+  async updateChatbotWidgetUrl(id: string, widgetUrl: string): Promise<Chatbot> {
+    return this.updateChatbot(id, 'update chatbot widget URL', { widgetUrl });
+  }
+
+  async updateChatbotDetails(id: string, details: { name?: string; description?: string }): Promise<Chatbot> {
+    const updates: Record<string, any> = {};
+    if (details.name !== undefined) updates.name = details.name;
+    if (details.description !== undefined) updates.description = details.description;
+
+    return this.updateChatbot(id, 'update chatbot details', updates);
+  }
+
+  async incrementMessageCount(id: string): Promise<void> {
+    try {
+      await this.db
+        .update(chatbots)
+        .set({ messageCount: sql`${chatbots.messageCount} + 1`, updatedAt: new Date() } as any)
+        .where(eq(chatbots.id, id));
+    } catch (error) {
+      console.error(`Error in incrementMessageCount:`, error);
+      // Don't throw error - this is a non-critical operation
+    }
+  }
+
+  // Knowledge Base management
+  async createKBDocument(document: InsertKBDocument & Partial<KBDocument> & { id: string }): Promise<KBDocument> {
+    const created = await single('create KB document', this.db
+      .insert(kbDocuments)
+      .values({
+        id: document.id,
+        chatbotId: document.chatbotId,
+        filename: document.filename,
+        contentType: document.contentType,
+        size: document.size,
+        storagePath: document.storagePath,
+        status: document.status,
+        checksum: document.checksum,
+        version: 1,
+        errorMessage: null,
+        sourceId: document.sourceId ?? null,
+        sourceUrl: document.sourceUrl ?? null
+      } as any)
+      .returning());
+
+    return toRow(kbDocuments, created) as KBDocument;
+  }
+
+  async getKBDocument(id: string): Promise<KBDocument | undefined> {
+    const [document] = await this.db.select().from(kbDocuments).where(eq(kbDocuments.id, id)).limit(1);
+    return document ? mapKBDocument(toRow(kbDocuments, document)) : undefined;
+  }
+
+  async getKBDocuments(chatbotId: string): Promise<KBDocument[]> {
+    const documents = await run('fetch KB documents', this.db
+      .select()
+      .from(kbDocuments)
+      .where(eq(kbDocuments.chatbotId, chatbotId))
+      .orderBy(desc(kbDocuments.createdAt)));
+
+    return documents.map(document => mapKBDocument(toRow(kbDocuments, document)));
+  }
+
+  async getDocumentByChecksum(chatbotId: string, checksum: string): Promise<KBDocument | undefined> {
+    const [document] = await this.db
+      .select()
+      .from(kbDocuments)
+      .where(and(eq(kbDocuments.chatbotId, chatbotId), eq(kbDocuments.checksum, checksum)))
+      .limit(1);
+
+    return document ? mapKBDocument(toRow(kbDocuments, document)) : undefined;
+  }
+
+  async updateKBDocumentStatus(id: string, status: string, errorMessage?: string): Promise<KBDocument> {
+    const updates: Record<string, any> = { status, updatedAt: new Date() };
+    if (errorMessage) {
+      updates.errorMessage = errorMessage;
+    }
+
+    const document = await single('update KB document status', this.db
+      .update(kbDocuments)
+      .set(updates)
+      .where(eq(kbDocuments.id, id))
+      .returning());
+
+    return toRow(kbDocuments, document) as KBDocument;
+  }
+
+  async updateKBDocumentProgress(id: string, processedChunks: number, totalChunks: number): Promise<void> {
+    try {
+      await this.db
+        .update(kbDocuments)
+        .set({
+          processingProgress: Math.round((processedChunks / totalChunks) * 100),
+          processedChunks,
+          totalChunks,
+          updatedAt: new Date()
+        } as any)
+        .where(eq(kbDocuments.id, id));
+    } catch (error: any) {
+      // Progress updates shouldn't break the flow
+      console.error(`Failed to update KB document progress: ${error.message}`);
+    }
+  }
+
+  async updateKBDocumentContent(
+    id: string,
+    content: { filename: string; size: number; checksum: string; version: number }
+  ): Promise<KBDocument> {
+    const document = await single('update KB document content', this.db
+      .update(kbDocuments)
+      .set({
+        filename: content.filename,
+        size: content.size,
+        checksum: content.checksum,
+        version: content.version,
+        status: 'processing',
+        errorMessage: null,
+        updatedAt: new Date()
+      } as any)
+      .where(eq(kbDocuments.id, id))
+      .returning());
+
+    return toRow(kbDocuments, document) as KBDocument;
+  }
+
+  async deleteKBDocument(id: string): Promise<void> {
+    // Cascades to chunks; the stored file is removed by the knowledge base service
+    await run('delete KB document', this.db.delete(kbDocuments).where(eq(kbDocuments.id, id)));
+  }
+
+  // Knowledge Base chunks
+  async createKBChunk(chunk: InsertKBChunk & Partial<KBChunk> & { id: string }): Promise<KBChunk> {
+    const created = await single('create KB chunk', this.db
+      .insert(kbChunks)
+      .values({
+        id: chunk.id,
+        documentId: chunk.documentId,
+        chatbotId: chunk.chatbotId,
+        chunkIndex: chunk.chunkIndex,
+        text: chunk.text,
+        tokenCount: chunk.tokenCount,
+        embedding: chunk.embedding,
+        metadata: chunk.metadata || {}
+      } as any)
+      .returning());
+
+    return toRow(kbChunks, created) as KBChunk;
+  }
+
+  async getKBChunks(documentId: string): Promise<KBChunk[]> {
+    const chunks = await run('fetch KB chunks', this.db
+      .select()
+      .from(kbChunks)
+      .where(eq(kbChunks.documentId, documentId))
+      .orderBy(asc(kbChunks.chunkIndex)));
+
+    return chunks.map(chunk => toRow(kbChunks, chunk) as KBChunk);
+  }
+
+  // Chunks of ready documents by cosine similarity, as in match_documents
+  private async vectorSearch(chatbotId: string, queryEmbedding: number[], threshold: number, limit: number): Promise<Row[]> {
+    const distance = cosineDistance(kbChunks.embedding, queryEmbedding);
+    const similarity = sql<number>`1 - (${distance})`.mapWith(Number);
+
+    return this.db
+      .select({ ...searchResultColumns, similarity })
+      .from(kbChunks)
+      .innerJoin(kbDocuments, eq(kbChunks.documentId, kbDocuments.id))
+      .where(and(
+        eq(kbChunks.chatbotId, chatbotId),
+        isNotNull(kbChunks.embedding),
+        eq(kbDocuments.status, 'ready'),
+        gte(similarity, threshold)
+      ))
+      .orderBy(distance)
+      .limit(limit);
+  }
+
+  // Chunks of ready documents matching the query keywords, best ranked first
+  private async keywordSearch(chatbotId: string, queryText: string, limit: number): Promise<Row[]> {
+    const document = sql`to_tsvector('simple', ${kbChunks.text})`;
+    const query = sql`plainto_tsquery('simple', ${queryText})`;
+
+    const score = sql<number>`ts_rank_cd(${document}, ${query})`.mapWith(Number);
+
+    return this.db
+      .select({ ...searchResultColumns, keyword_score: score })
+      .from(kbChunks)
+      .innerJoin(kbDocuments, eq(kbChunks.documentId, kbDocuments.id))
+      .where(and(
+        eq(kbChunks.chatbotId, chatbotId),
+        eq(kbDocuments.status, 'ready'),
+        sql`${document} @@ ${query}`
+      ))
+      .orderBy(desc(score))
+      .limit(limit);
+  }
+
+  // Reciprocal Rank Fusion of the vector and keyword matches; keyword-only matches have no similarity
+  private async hybridSearch(
+    chatbotId: string,
+    queryEmbedding: number[],
+    queryText: string,
+    threshold: number,
+    limit: number
+  ): Promise<Row[]> {
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      this.vectorSearch(chatbotId, queryEmbedding, threshold, limit * 2),
+      this.keywordSearch(chatbotId, queryText, limit * 2),
+    ]);
+
+    const fused = new Map<string, Row>();
+    vectorMatches.forEach((row, index) => {
+      fused.set(row.chunk_id, { ...row, vector_rank: index + 1, fused_score: 1 / (RRF_K + index + 1) });
+    });
+    keywordMatches.forEach((row, index) => {
+      const entry = fused.get(row.chunk_id) ?? { ...row, similarity: 0, fused_score: 0 };
+      entry.keyword_score = row.keyword_score;
+      entry.keyword_rank = index + 1;
+      entry.fused_score += 1 / (RRF_K + index + 1);
+      fused.set(row.chunk_id, entry);
+    });
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.fused_score - a.fused_score)
+      .slice(0, limit);
+  }
+
+  async searchKBChunks(chatbotId: string, queryEmbedding: number[], limit: number, queryText?: string): Promise<KBSearchResult[]> {
+    try {
+      // Use hybrid search if query text is provided, otherwise fallback to vector search
+      if (queryText) {
+        console.log(`[PostgresStorage] Performing hybrid search for: "${queryText}"`);
+        try {
+          // Lower threshold for hybrid to capture more candidates
+          const rows = await this.hybridSearch(chatbotId, queryEmbedding, queryText, 0.3, limit);
+          return rows.map(row => mapKBSearchResult(row));
+        } catch (error) {
+          console.error('Error in hybrid search:', error);
+          // Fallback to vector search on error
+        }
+      }
+
+      const rows = await this.vectorSearch(chatbotId, queryEmbedding, 0.5, limit);
+      return rows.map(row => mapKBSearchResult(row));
+    } catch (error) {
+      console.error('Error in searchKBChunks:', error);
+      return [];
+    }
+  }
+
+  async searchKBChunksScored(
+    chatbotId: string,
+    queryEmbedding: number[],
+    queryText: string,
+    options: { limit: number; threshold: number }
+  ): Promise<KBScoredSearchResult[]> {
+    const rows = await run('search knowledge base',
+      this.hybridSearch(chatbotId, queryEmbedding, queryText, options.threshold, options.limit));
+    return rows.map(row => mapKBScoredSearchResult(row));
+  }
+
+  async deleteKBChunks(documentId: string): Promise<void> {
+    await run('delete KB chunks', this.db.delete(kbChunks).where(eq(kbChunks.documentId, documentId)));
+  }
+
+  // Knowledge Base sources
+  async createKBSource(source: CreateKBSource & { chatbotId: string }): Promise<KBSource> {
+    const created = await single('create KB source', this.db
+      .insert(kbSources)
+      .values({
+        id: nanoid(),
+        chatbotId: source.chatbotId,
+        type: 'website',
+        url: source.url,
+        includePatterns: source.includePatterns || [],
+        excludePatterns: source.excludePatterns || [],
+        maxPages: source.maxPages,
+        status: 'pending',
+      } as any)
+      .returning());
+
+    return mapKBSource(toRow(kbSources, created));
+  }
+
+  async getKBSource(id: string): Promise<KBSource | undefined> {
+    const [source] = await run('get KB source', this.db.select().from(kbSources).where(eq(kbSources.id, id)).limit(1));
+    return source ? mapKBSource(toRow(kbSources, source)) : undefined;
+  }
+
+  async getKBSources(chatbotId?: string): Promise<KBSource[]> {
+    const sources = await run('get KB sources', this.db
+      .select()
+      .from(kbSources)
+      .where(chatbotId ? eq(kbSources.chatbotId, chatbotId) : undefined)
+      .orderBy(desc(kbSources.createdAt)));
+
+    return sources.map(source => mapKBSource(toRow(kbSources, source)));
+  }
+
+  async updateKBSource(
+    id: string,
+    updates: Partial<Pick<KBSource, 'status' | 'lastError' | 'pagesCrawled' | 'lastCrawledAt'>>
+  ): Promise<KBSource> {
+    const updateData: Record<string, any> = { updatedAt: new Date() };
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.lastError !== undefined) updateData.lastError = updates.lastError;
+    if (updates.pagesCrawled !== undefined) updateData.pagesCrawled = updates.pagesCrawled;
+    if (updates.lastCrawledAt !== undefined) updateData.lastCrawledAt = toDate(updates.lastCrawledAt);
+
+    const source = await single('update KB source', this.db
+      .update(kbSources)
+      .set(updateData)
+      .where(eq(kbSources.id, id))
+      .returning());
+
+    return mapKBSource(toRow(kbSources, source));
+  }
+
+  async deleteKBSource(id: string): Promise<void> {
+    // Cascades to the crawled page documents and their chunks
+    await run('delete KB source', this.db.delete(kbSources).where(eq(kbSources.id, id)));
+  }
+
+  async getKBSourceDocuments(sourceId: string): Promise<KBDocument[]> {
+    const documents = await run('fetch KB source documents', this.db
+      .select()
+      .from(kbDocuments)
+      .where(eq(kbDocuments.sourceId, sourceId)));
+
+    return documents.map(document => mapKBDocument(toRow(kbDocuments, document)));
+  }
+
+  // Unanswered questions
+  async recordUnansweredQuestion(
+    miss: { chatbotId: string; question: string; embedding: number[] | null; reason: UnansweredQuestionReason; confidence?: number | null },
+    matchThreshold: number
+  ): Promise<string> {
+    const embedding = miss.embedding ? JSON.stringify(miss.embedding) : null;
+    const result = await run('record unanswered question', this.db.execute<{ id: string }>(sql`
+      select record_unanswered_question(
+        ${nanoid()}, ${miss.chatbotId}, ${miss.question}, ${embedding}::vector,
+        ${miss.reason}, ${miss.confidence ?? null}::float, ${matchThreshold}::float
+      ) as id
+    `));
+
+    return result.rows[0].id;
+  }
+
+  async getUnansweredQuestions(chatbotId: string, status = 'open'): Promise<KBUnansweredQuestion[]> {
+    const questions = await run('get unanswered questions', this.db
+      .select(unansweredQuestionColumns)
+      .from(kbUnansweredQuestions)
+      .where(and(eq(kbUnansweredQuestions.chatbotId, chatbotId), eq(kbUnansweredQuestions.status, status)))
+      .orderBy(desc(kbUnansweredQuestions.occurrences), desc(kbUnansweredQuestions.lastAskedAt)));
+
+    return questions.map(question => mapUnansweredQuestion(toRow(kbUnansweredQuestions, question)));
+  }
+
+  async getUnansweredQuestion(id: string): Promise<KBUnansweredQuestion | undefined> {
+    const [question] = await run('get unanswered question', this.db
+      .select(unansweredQuestionColumns)
+      .from(kbUnansweredQuestions)
+      .where(eq(kbUnansweredQuestions.id, id))
+      .limit(1));
+
+    return question ? mapUnansweredQuestion(toRow(kbUnansweredQuestions, question)) : undefined;
+  }
+
+  async updateUnansweredQuestion(
+    id: string,
+    updates: Partial<Pick<KBUnansweredQuestion, 'status' | 'answer' | 'answeredVia' | 'kbDocumentId' | 'answeredAt'>>
+  ): Promise<KBUnansweredQuestion> {
+    const updateData: Record<string, any> = {};
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.answer !== undefined) updateData.answer = updates.answer;
+    if (updates.answeredVia !== undefined) updateData.answeredVia = updates.answeredVia;
+    if (updates.kbDocumentId !== undefined) updateData.kbDocumentId = updates.kbDocumentId;
+    if (updates.answeredAt !== undefined) updateData.answeredAt = toDate(updates.answeredAt);
+
+    const question = await single('update unanswered question', this.db
+      .update(kbUnansweredQuestions)
+      .set(updateData)
+      .where(eq(kbUnansweredQuestions.id, id))
+      .returning(unansweredQuestionColumns));
+
+    return mapUnansweredQuestion(toRow(kbUnansweredQuestions, question));
+  }
+
+  // Subscription management
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.select().from(subscriptions).where(eq(subscriptions.id, id)).limit(1);
+    return subscription ? mapSubscription(toRow(subscriptions, subscription)) : undefined;
+  }
+
+  async getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId))
+      .limit(1);
+
+    return subscription ? mapSubscription(toRow(subscriptions, subscription)) : undefined;
+  }
+
+  async getSubscriptionsWithClients(statusFilter?: string): Promise<SubscriptionWithClient[]> {
+    const rows = await run('fetch subscriptions', this.db
+      .select({ subscription: subscriptions, client: clients, chatbot: chatbots })
+      .from(subscriptions)
+      .leftJoin(clients, eq(subscriptions.clientId, clients.id))
+      .leftJoin(chatbots, eq(subscriptions.chatbotId, chatbots.id))
+      .where(statusFilter && statusFilter !== 'all' ? eq(subscriptions.status, statusFilter) : undefined));
+
+    return rows.map(({ subscription, client, chatbot }) => ({
+      ...toRow(subscriptions, subscription),
+      client: client ? toRow(clients, client) : null,
+      chatbot: chatbot ? toRow(chatbots, chatbot) : null
+    })) as SubscriptionWithClient[];
+  }
+
+  async createSubscription(insertSubscription: InsertSubscription & ColumnsOf<typeof subscriptions>): Promise<Subscription> {
+    const subscription = await single('create subscription', this.db
+      .insert(subscriptions)
+      .values({
+        id: nanoid(),
+        clientId: insertSubscription.clientId,
+        chatbotId: insertSubscription.chatbotId || null,
+        type: insertSubscription.type,
+        status: insertSubscription.status,
+        trialStart: toDate(insertSubscription.trialStart),
+        trialEnd: toDate(insertSubscription.trialEnd),
+        paidUntil: toDate(insertSubscription.paidUntil),
+        monthlyAmount: insertSubscription.monthlyAmount || 0
+      } as any)
+      .returning());
+
+    return toRow(subscriptions, subscription) as Subscription;
+  }
+
+  async updateSubscription(id: string, updates: Partial<Subscription>): Promise<Subscription> {
+    const dbUpdates: Record<string, any> = { updatedAt: new Date() };
+    if (updates.type !== undefined) dbUpdates.type = updates.type;
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.trialStart !== undefined) dbUpdates.trialStart = toDate(updates.trialStart);
+    if (updates.trialEnd !== undefined) dbUpdates.trialEnd = toDate(updates.trialEnd);
+    if (updates.paidUntil !== undefined) dbUpdates.paidUntil = toDate(updates.paidUntil);
+    if (updates.monthlyAmount !== undefined) dbUpdates.monthlyAmount = updates.monthlyAmount;
+    if (updates.stripeCustomerId !== undefined) dbUpdates.stripeCustomerId = updates.stripeCustomerId;
+    if (updates.stripeSubscriptionId !== undefined) dbUpdates.stripeSubscriptionId = updates.stripeSubscriptionId;
+
+    const subscription = await single('update subscription', this.db
+      .update(subscriptions)
+      .set(dbUpdates)
+      .where(eq(subscriptions.id, id))
+      .returning());
+
+    return mapSubscription(toRow(subscriptions, subscription));
+  }
+
+  async convertTrialToPaid(id: string, data: { type: string; monthlyAmount: number }): Promise<Subscription> {
+    const paidUntil = new Date();
+    paidUntil.setMonth(paidUntil.getMonth() + 1);
+
+    return this.updateSubscription(id, {
+      type: data.type,
+      status: 'active',
+      monthlyAmount: data.monthlyAmount,
+      paidUntil,
+    });
+  }
+
+  async extendTrial(id: string, days: number): Promise<Subscription> {
+    const subscription = await this.getSubscription(id);
+    if (!subscription) throw new Error('Subscription not found');
+
+    // Extend from the current trial end, or from now once the trial has ended
+    const currentEnd = subscription.trialEnd ? new Date(subscription.trialEnd).getTime() : 0;
+    const trialEnd = new Date(Math.max(currentEnd, Date.now()));
+    trialEnd.setDate(trialEnd.getDate() + days);
+
+    return this.updateSubscription(id, { status: 'trial', trialEnd });
+  }
+
+  async suspendSubscription(id: string): Promise<Subscription> {
+    return this.updateSubscription(id, { status: 'cancelled' });
+  }
+
+  async reactivateSubscription(id: string): Promise<Subscription> {
+    return this.updateSubscription(id, { status: 'active' });
+  }
+
+  async getSubscriptionByClientId(clientId: string): Promise<Subscription | undefined> {
+    const [subscription] = await run('get subscription', this.db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.clientId, clientId))
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1));
+
+    return subscription ? mapSubscription(toRow(subscriptions, subscription)) : undefined;
+  }
+
+  async getSubscriptionsDueForExpiry(trialEndBefore: Date, paidUntilBefore: Date): Promise<Subscription[]> {
+    const rows = await run('get subscriptions due for expiry', this.db
+      .select()
+      .from(subscriptions)
+      .where(or(
+        and(eq(subscriptions.status, 'trial'), lt(subscriptions.trialEnd, trialEndBefore)),
+        and(inArray(subscriptions.status, ['active', 'payment_due']), lt(subscriptions.paidUntil, paidUntilBefore))
+      )));
+
+    return rows.map(row => mapSubscription(toRow(subscriptions, row)));
+  }
+
+  // Plan usage
+  async countChatbotsByClientId(clientId: string): Promise<number> {
+    return run('count chatbots', this.count(chatbots, eq(chatbots.clientId, clientId)));
+  }
+
+  async countVisitorMessagesByClientId(clientId: string, since: Date): Promise<number> {
+    const [result] = await run('count messages', this.db
+      .select({ value: count() })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.clientId, clientId),
+        eq(messages.role, 'user'),
+        gte(messages.createdAt, since)
+      )));
+
+    return result?.value ?? 0;
+  }
+
+  async countUploadedKBDocumentsByClientId(clientId: string): Promise<number> {
+    const [result] = await run('count documents', this.db
+      .select({ value: count() })
+      .from(kbDocuments)
+      .innerJoin(chatbots, eq(kbDocuments.chatbotId, chatbots.id))
+      .where(and(eq(chatbots.clientId, clientId), isNull(kbDocuments.sourceId))));
+
+    return result?.value ?? 0;
+  }
+
+  // Payment management
+  async getPaymentLog(id: string): Promise<PaymentLog | undefined> {
+    const [payment] = await this.db.select().from(paymentLogs).where(eq(paymentLogs.id, id)).limit(1);
+    return payment ? mapPaymentLog(toRow(paymentLogs, payment)) : undefined;
+  }
+
+  async getPaymentLogByStripeInvoiceId(stripeInvoiceId: string): Promise<PaymentLog | undefined> {
+    const [payment] = await this.db
+      .select()
+      .from(paymentLogs)
+      .where(eq(paymentLogs.stripeInvoiceId, stripeInvoiceId))
+      .limit(1);
+
+    return payment ? mapPaymentLog(toRow(paymentLogs, payment)) : undefined;
+  }
+
+  async getPaymentsWithClients(statusFilter?: string, dateFilter?: string): Promise<any[]> {
+    const rows = await run('get payments', this.db
+      .select({
+        payment: paymentLogs,
+        subscriptionId: subscriptions.id,
+        clientId: clients.id,
+        clientName: clients.name
+      })
+      .from(paymentLogs)
+      .leftJoin(subscriptions, eq(paymentLogs.subscriptionId, subscriptions.id))
+      .leftJoin(clients, eq(subscriptions.clientId, clients.id))
+      .where(and(
+        statusFilter ? eq(paymentLogs.status, statusFilter) : undefined,
+        dateFilter ? gte(paymentLogs.createdAt, new Date(dateFilter)) : undefined
+      ))
+      .orderBy(desc(paymentLogs.createdAt)));
+
+    return rows.map(row => ({
+      ...toRow(paymentLogs, row.payment),
+      subscription: row.subscriptionId
+        ? { id: row.subscriptionId, client: row.clientId ? { id: row.clientId, name: row.clientName } : null }
+        : null
+    }));
+  }
+
+  async createPaymentLog(payment: InsertPaymentLog): Promise<PaymentLog> {
+    const log = payment as Partial<PaymentLog>;
+    const created = await single('create payment log', this.db
+      .insert(paymentLogs)
+      .values({
+        id: nanoid(),
+        clientId: log.clientId!,
+        subscriptionId: log.subscriptionId || null,
+        amount: log.amount || 0,
+        currency: log.currency || 'usd',
+        status: log.status || 'pending',
+        failureReason: log.failureReason || null,
+        stripeInvoiceId: log.stripeInvoiceId || null
+      } as any)
+      .returning());
+
+    return mapPaymentLog(toRow(paymentLogs, created));
+  }
+
+  async updatePaymentStatus(id: string, status: string, failureReason?: string | null): Promise<PaymentLog> {
+    const updates: Record<string, any> = { status };
+    if (failureReason !== undefined) updates.failureReason = failureReason;
+
+    const payment = await single('update payment status', this.db
+      .update(paymentLogs)
+      .set(updates)
+      .where(eq(paymentLogs.id, id))
+      .returning());
+
+    return mapPaymentLog(toRow(paymentLogs, payment));
+  }
+
+  // Stripe webhook idempotency
+  async isStripeEventProcessed(eventId: string): Promise<boolean> {
+    const [event] = await run('check Stripe event', this.db
+      .select({ id: stripeEvents.id })
+      .from(stripeEvents)
+      .where(eq(stripeEvents.id, eventId))
+      .limit(1));
+
+    return !!event;
+  }
+
+  async markStripeEventProcessed(eventId: string, type: string): Promise<void> {
+    await run('record Stripe event', this.db
+      .insert(stripeEvents)
+      .values({ id: eventId, type })
+      .onConflictDoNothing({ target: stripeEvents.id }));
+  }
+
+  // Analytics and dashboard
+  async getDashboardStats(): Promise<{ totalClients: number; activeChatbots: number; monthlyRevenue: number; trialConversionRate: number; }> {
+    const [totalClients, activeChatbots, revenue, totalTrials, convertedTrials] = await Promise.all([
+      this.count(clients),
+      this.count(chatbots, eq(chatbots.status, 'active')),
+      this.db
+        .select({ value: sum(subscriptions.monthlyAmount).mapWith(Number) })
+        .from(subscriptions)
+        .where(eq(subscriptions.status, 'active')),
+      this.count(subscriptions, eq(subscriptions.type, 'trial')),
+      this.count(subscriptions, and(ne(subscriptions.type, 'trial'), isNotNull(subscriptions.trialEnd))),
+    ]);
+
+    const trialConversionRate = totalTrials > 0
+      ? (convertedTrials / totalTrials) * 100
+      : 0;
+
+    return {
+      totalClients,
+      activeChatbots,
+      monthlyRevenue: revenue[0]?.value || 0,
+      trialConversionRate
+    };
+  }
+
+  async getRecentActivities(): Promise<{ id: string; message: string; timestamp: string; type: "success" | "info" | "warning" | "error"; }[]> {
+    const limit = 10;
+
+    const [clientRows, paymentRows, leadRows, appointmentRows] = await run('get recent activities', Promise.all([
+      this.db
+        .select({ id: clients.id, name: clients.name, createdAt: clients.createdAt })
+        .from(clients)
+        .orderBy(desc(clients.createdAt))
+        .limit(limit),
+      this.db
+        .select({
+          id: paymentLogs.id,
+          amount: paymentLogs.amount,
+          currency: paymentLogs.currency,
+          status: paymentLogs.status,
+          createdAt: paymentLogs.createdAt,
+          clientName: clients.name
+        })
+        .from(paymentLogs)
+        .leftJoin(clients, eq(paymentLogs.clientId, clients.id))
+        .orderBy(desc(paymentLogs.createdAt))
+        .limit(limit),
+      this.db
+        .select({ id: leads.id, name: leads.name, email: leads.email, capturedAt: leads.capturedAt, chatbotName: chatbots.name })
+        .from(leads)
+        .leftJoin(chatbots, eq(leads.chatbotId, chatbots.id))
+        .orderBy(desc(leads.capturedAt))
+        .limit(limit),
+      this.db
+        .select({ id: appointments.id, title: appointments.title, createdAt: appointments.createdAt, chatbotName: chatbots.name })
+        .from(appointments)
+        .leftJoin(chatbots, eq(appointments.chatbotId, chatbots.id))
+        .orderBy(desc(appointments.createdAt))
+        .limit(limit),
+    ]));
+
+    const activities: { id: string; message: string; timestamp: string; type: "success" | "info" | "warning" | "error"; }[] = [
+      ...clientRows.map(client => ({
+        id: `client-${client.id}`,
+        message: `New client ${client.name} onboarded`,
+        timestamp: client.createdAt.toISOString(),
+        type: 'info' as const,
+      })),
+      ...paymentRows.map(payment => ({
+        id: `payment-${payment.id}`,
+        message: `Payment of ${payment.amount} ${payment.currency.toUpperCase()} ${payment.status} for ${payment.clientName || 'unknown client'}`,
+        timestamp: payment.createdAt.toISOString(),
+        type: payment.status === 'failed' ? 'error' as const : payment.status === 'completed' ? 'success' as const : 'info' as const,
+      })),
+      ...leadRows.map(lead => ({
+        id: `lead-${lead.id}`,
+        message: `Lead ${lead.name || lead.email || 'captured'} via ${lead.chatbotName || 'chatbot'}`,
+        timestamp: lead.capturedAt.toISOString(),
+        type: 'success' as const,
+      })),
+      ...appointmentRows.map(appointment => ({
+        id: `appointment-${appointment.id}`,
+        message: `Appointment "${appointment.title}" booked via ${appointment.chatbotName || 'chatbot'}`,
+        timestamp: appointment.createdAt.toISOString(),
+        type: 'success' as const,
+      })),
+    ];
+
+    return activities
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+  }
+
+  async getSubscriptionStatus(): Promise<{ activePaid: number; freeTrial: number; paymentDue: number; expired: number; }> {
+    const [activePaid, freeTrial, paymentDue, expired] = await Promise.all([
+      this.count(subscriptions, and(eq(subscriptions.status, 'active'), ne(subscriptions.type, 'trial'))),
+      this.count(subscriptions, eq(subscriptions.status, 'trial')),
+      this.count(subscriptions, eq(subscriptions.status, 'payment_due')),
+      this.count(subscriptions, eq(subscriptions.status, 'expired')),
+    ]);
+
+    return { activePaid, freeTrial, paymentDue, expired };
+  }
+
+  async getPaymentStats(): Promise<{ totalRevenue: number; failedPayments: number; successRate: number; }> {
+    const payments = await this.db
+      .select({ amount: paymentLogs.amount, status: paymentLogs.status })
+      .from(paymentLogs);
+
+    const totalRevenue = payments
+      .filter(p => p.status === 'completed')
+      .reduce((sum, p) => sum + (p.amount || 0), 0);
+
+    const failedPayments = payments.filter(p => p.status === 'failed').length;
+    const totalPayments = payments.length;
+    const successRate = totalPayments > 0
+      ? ((totalPayments - failedPayments) / totalPayments) * 100
+      : 0;
+
+    return {
+      totalRevenue,
+      failedPayments,
+      successRate
+    };
+  }
+
+  async getWidgetsWithAnalytics(): Promise<any[]> {
+    const [rows, totals] = await run('get widgets with analytics', Promise.all([
+      this.db
+        .select({ chatbot: chatbots, clientId: clients.id, clientName: clients.name })
+        .from(chatbots)
+        .leftJoin(clients, eq(chatbots.clientId, clients.id))
+        .orderBy(desc(chatbots.createdAt)),
+      this.db
+        .select({
+          chatbotId: widgetAnalytics.chatbotId,
+          views: sum(widgetAnalytics.views).mapWith(Number),
+          interactions: sum(widgetAnalytics.interactions).mapWith(Number)
+        })
+        .from(widgetAnalytics)
+        .groupBy(widgetAnalytics.chatbotId),
+    ]));
+
+    return rows.map(row => {
+      const analytics = totals.find(total => total.chatbotId === row.chatbot.id);
+      return {
+        ...this.withParsedConfig(toRow(chatbots, row.chatbot)),
+        client: row.clientId ? { id: row.clientId, name: row.clientName } : null,
+        analytics: analytics ? { views: analytics.views, interactions: analytics.interactions } : null
+      };
+    });
+  }
+
+  // Widget analytics (one row per chatbot and UTC day)
+  private async trackWidget(chatbotId: string, interaction: boolean): Promise<void> {
+    const today = new Date(new Date().toISOString().split('T')[0]);
+    const where = and(eq(widgetAnalytics.chatbotId, chatbotId), eq(widgetAnalytics.date, today));
+
+    const [existing] = await this.db.select({ id: widgetAnalytics.id }).from(widgetAnalytics).where(where).limit(1);
+
+    if (existing) {
+      await this.db
+        .update(widgetAnalytics)
+        .set((interaction
+          ? { interactions: sql`${widgetAnalytics.interactions} + 1` }
+          : { views: sql`${widgetAnalytics.views} + 1` }) as any)
+        .where(eq(widgetAnalytics.id, existing.id));
+    } else {
+      await this.db.insert(widgetAnalytics).values({
+        id: nanoid(),
+        chatbotId,
+        views: 1, // An interaction counts as a view too
+        interactions: interaction ? 1 : 0,
+        date: today
+      } as any);
+    }
+  }
+
+  async trackWidgetView(chatbotId: string): Promise<void> {
+    try {
+      await this.trackWidget(chatbotId, false);
+    } catch (error) {
+      console.error(`Error tracking widget view:`, error);
+      // Don't throw error - this is a non-critical operation
+    }
+  }
+
+  async trackWidgetInteraction(chatbotId: string): Promise<void> {
+    try {
+      await this.trackWidget(chatbotId, true);
+    } catch (error) {
+      console.error(`Error tracking widget interaction:`, error);
+      // Don't throw error - this is a non-critical operation
+    }
+  }
+
+  // Chatbot analytics
+  async recordAnalyticsEvent(event: { chatbotId: string; conversationId?: string | null; type: AnalyticsEventType; value?: number | null }): Promise<void> {
+    await run('record analytics event', this.db.insert(analyticsEvents).values({
+      id: nanoid(),
+      chatbotId: event.chatbotId,
+      conversationId: event.conversationId || null,
+      type: event.type,
+      value: event.value ?? null,
+    } as any));
+  }
+
+  async rollupChatbotAnalytics(chatbotId: string, from: string, to: string): Promise<void> {
+    await run('roll up chatbot analytics', this.db.execute(
+      sql`select rollup_chatbot_analytics(${chatbotId}, ${from}::date, ${to}::date)`
+    ));
+  }
+
+  async getChatbotAnalyticsDaily(chatbotId: string, from: string, to: string): Promise<ChatbotAnalyticsDaily[]> {
+    const rows = await run('get chatbot analytics', this.db
+      .select()
+      .from(chatbotAnalyticsDaily)
+      .where(and(
+        eq(chatbotAnalyticsDaily.chatbotId, chatbotId),
+        gte(chatbotAnalyticsDaily.date, from),
+        lte(chatbotAnalyticsDaily.date, to)
+      ))
+      .orderBy(asc(chatbotAnalyticsDaily.date)));
+
+    return rows.map(row => mapChatbotAnalyticsDaily(toRow(chatbotAnalyticsDaily, row)));
+  }
+
+  async getVariantOutcomes(chatbotId: string, from: string, to: string): Promise<VariantOutcomeRow[]> {
+    const result = await run('get variant outcomes', this.db.execute(
+      sql`select * from chatbot_variant_outcomes(${chatbotId}, ${from}::date, ${to}::date)`
+    ));
+    return result.rows.map(row => mapVariantOutcomeRow(row));
+  }
+
+  // Logo management (files stay in Supabase Storage when it is configured)
+  async uploadChatbotLogo(chatbotId: string, file: Buffer, mimeType: string): Promise<string> {
+    return supabaseService.uploadFile(chatbotId, file, mimeType);
+  }
+
+  async deleteChatbotLogo(chatbotId: string, logoUrl: string): Promise<void> {
+    await supabaseService.deleteFile(logoUrl);
+  }
+
+  // Client portal authentication
+  async getClientByAuthEmail(authEmail: string): Promise<Client | undefined> {
+    const [client] = await this.db.select().from(clients).where(eq(clients.authEmail, authEmail)).limit(1);
+    return client ? toRow(clients, client) as Client : undefined;
+  }
+
+  async setClientCredentials(clientId: string, authEmail: string, passwordHash: string): Promise<Client> {
+    const client = await single('set client credentials', this.db
+      .update(clients)
+      .set({
+        authEmail: authEmail || null,
+        passwordHash: passwordHash || null
+      } as any)
+      .where(eq(clients.id, clientId))
+      .returning());
+
+    return toRow(clients, client) as Client;
+  }
+
+  async createClientWithAuth(clientData: InsertClient, authEmail: string, password: string): Promise<Client> {
+    const passwordHash = await bcrypt.hash(password, 10);
+    const client = await this.createClient(clientData);
+    await this.setClientCredentials(client.id, authEmail, passwordHash);
+    return client;
+  }
+
+  // Appointment management
+  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+    const data = appointment as any;
+    const created = await single('create appointment', this.db
+      .insert(appointments)
+      .values({
+        id: nanoid(),
+        clientId: data.clientId,
+        chatbotId: data.chatbotId,
+        title: data.title,
+        description: data.description || null,
+        startTime: new Date(data.startTime),
+        endTime: new Date(data.endTime),
+        status: data.status || 'scheduled',
+        externalId: data.externalId || null,
+      } as any)
+      .returning());
+
+    return mapAppointment(toRow(appointments, created));
+  }
+
+  async getAppointmentsByClientId(clientId: string): Promise<AppointmentWithClient[]> {
+    const rows = await run('get appointments', this.db
+      .select({ appointment: appointments, chatbotName: chatbots.name, clientName: clients.name })
+      .from(appointments)
+      .leftJoin(chatbots, eq(appointments.chatbotId, chatbots.id))
+      .leftJoin(clients, eq(appointments.clientId, clients.id))
+      .where(eq(appointments.clientId, clientId))
+      .orderBy(desc(appointments.startTime)));
+
+    return rows.map(row => ({
+      ...mapAppointment(toRow(appointments, row.appointment)),
+      chatbot: { id: row.appointment.chatbotId, name: row.chatbotName },
+      client: { id: row.appointment.clientId, name: row.clientName }
+    })) as AppointmentWithClient[];
+  }
+
+  async updateAppointment(id: string, appointmentData: Partial<InsertAppointment>, clientId: string): Promise<Appointment> {
+    const data = appointmentData as any;
+    const updates: Record<string, any> = {};
+    if (data.title !== undefined) updates.title = data.title;
+    if (data.description !== undefined) updates.description = data.description;
+    if (data.startTime !== undefined) updates.startTime = new Date(data.startTime);
+    if (data.endTime !== undefined) updates.endTime = new Date(data.endTime);
+    if (data.status !== undefined) updates.status = data.status;
+    if (data.externalId !== undefined) updates.externalId = data.externalId;
+
+    const appointment = await single('update appointment', this.db
+      .update(appointments)
+      .set(updates)
+      .where(and(eq(appointments.id, id), eq(appointments.clientId, clientId)))
+      .returning());
+
+    return mapAppointment(toRow(appointments, appointment));
+  }
+
+  async deleteAppointment(id: string, clientId: string): Promise<void> {
+    await run('delete appointment', this.db
+      .delete(appointments)
+      .where(and(eq(appointments.id, id), eq(appointments.clientId, clientId))));
+  }
+
+  async getAppointmentsInRange(chatbotId: string, start: Date, end: Date): Promise<Appointment[]> {
+    const rows = await run('get appointments', this.db
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.chatbotId, chatbotId),
+        ne(appointments.status, 'cancelled'),
+        lt(appointments.startTime, end),
+        gt(appointments.endTime, start)
+      ))
+      .orderBy(asc(appointments.startTime)));
+
+    return rows.map(row => mapAppointment(toRow(appointments, row)));
+  }
+
+  // Calendar integrations
+  async getCalendarIntegration(clientId: string, provider: string): Promise<CalendarIntegration | undefined> {
+    const [integration] = await run('get calendar integration', this.db
+      .select()
+      .from(calendarIntegrations)
+      .where(and(eq(calendarIntegrations.clientId, clientId), eq(calendarIntegrations.provider, provider)))
+      .limit(1));
+
+    return integration ? mapCalendarIntegration(toRow(calendarIntegrations, integration)) : undefined;
+  }
+
+  async saveCalendarIntegration(integration: Pick<CalendarIntegration, 'clientId' | 'provider' | 'accessTokenEncrypted' | 'refreshTokenEncrypted' | 'tokenExpiresAt' | 'scope'>): Promise<CalendarIntegration> {
+    const existing = await this.getCalendarIntegration(integration.clientId, integration.provider);
+
+    const values = {
+      accessTokenEncrypted: integration.accessTokenEncrypted,
+      // Google only returns a refresh token on first consent; keep the stored one otherwise
+      refreshTokenEncrypted: integration.refreshTokenEncrypted || existing?.refreshTokenEncrypted || null,
+      tokenExpiresAt: toDate(integration.tokenExpiresAt),
+      scope: integration.scope || existing?.scope || null,
+      updatedAt: new Date(),
+    };
+
+    const saved = await single('save calendar integration', this.db
+      .insert(calendarIntegrations)
+      .values({
+        id: existing?.id || nanoid(),
+        clientId: integration.clientId,
+        provider: integration.provider,
+        ...values,
+      } as any)
+      .onConflictDoUpdate({ target: [calendarIntegrations.clientId, calendarIntegrations.provider], set: values })
+      .returning());
+
+    return mapCalendarIntegration(toRow(calendarIntegrations, saved));
+  }
+
+  async deleteCalendarIntegration(clientId: string, provider: string): Promise<void> {
+    await run('delete calendar integration', this.db
+      .delete(calendarIntegrations)
+      .where(and(eq(calendarIntegrations.clientId, clientId), eq(calendarIntegrations.provider, provider))));
+  }
+
+  // Lead management
+  async createLead(lead: InsertLead): Promise<Lead> {
+    const data = lead as any;
+    const created = await single('create lead', this.db
+      .insert(leads)
+      .values({
+        id: nanoid(),
+        clientId: data.clientId,
+        chatbotId: data.chatbotId,
+        name: data.name || null,
+        email: data.email || null,
+        phone: data.phone || null,
+        message: data.message || null,
+        status: data.status || 'new',
+        source: data.source || 'widget',
+        conversationId: data.conversationId || null,
+        notes: data.notes || null
+      } as any)
+      .returning());
+
+    return toRow(leads, created) as Lead;
+  }
+
+  async getLeadsByClientId(clientId: string): Promise<LeadWithClient[]> {
+    const rows = await run('get leads', this.db
+      .select({ lead: leads, chatbotName: chatbots.name, clientName: clients.name })
+      .from(leads)
+      .leftJoin(chatbots, eq(leads.chatbotId, chatbots.id))
+      .leftJoin(clients, eq(leads.clientId, clients.id))
+      .where(eq(leads.clientId, clientId))
+      .orderBy(desc(leads.capturedAt)));
+
+    return rows.map(row => ({
+      ...toRow(leads, row.lead),
+      chatbot: { id: row.lead.chatbotId, name: row.chatbotName },
+      client: { id: row.lead.clientId, name: row.clientName }
+    })) as LeadWithClient[];
+  }
+
+  async getLeadsByChatbotId(chatbotId: string): Promise<Lead[]> {
+    const rows = await run('get leads', this.db
+      .select()
+      .from(leads)
+      .where(eq(leads.chatbotId, chatbotId))
+      .orderBy(desc(leads.capturedAt)));
+
+    return rows.map(row => toRow(leads, row) as Lead);
+  }
+
+  async updateLead(id: string, leadData: Partial<InsertLead>, clientId: string): Promise<Lead> {
+    const data = leadData as any;
+    const updates: Record<string, any> = {};
+    if (data.name !== undefined) updates.name = data.name;
+    if (data.email !== undefined) updates.email = data.email;
+    if (data.phone !== undefined) updates.phone = data.phone;
+    if (data.status !== undefined) updates.status = data.status;
+    if (data.notes !== undefined) updates.notes = data.notes;
+
+    const lead = await single('update lead', this.db
+      .update(leads)
+      .set(updates)
+      .where(eq(leads.id, id))
+      .returning());
+
+    return toRow(leads, lead) as Lead;
+  }
+
+  async updateLeadStatus(leadId: string, status: string, notes?: string): Promise<Lead> {
+    const updates: Record<string, any> = { status, updatedAt: new Date() };
+    if (notes !== undefined) {
+      updates.notes = notes;
+    }
+
+    const lead = await single('update lead status', this.db
+      .update(leads)
+      .set(updates)
+      .where(eq(leads.id, leadId))
+      .returning());
+
+    return mapLead(toRow(leads, lead));
+  }
+
+  async deleteLead(id: string, clientId: string): Promise<void> {
+    await run('delete lead', this.db.delete(leads).where(eq(leads.id, id)));
+  }
+
+  async checkExistingLead(chatbotId: string, conversationId?: string, email?: string): Promise<Lead | undefined> {
+    if (!conversationId && !email) return undefined;
+
+    const [lead] = await this.db
+      .select()
+      .from(leads)
+      .where(and(
+        eq(leads.chatbotId, chatbotId),
+        conversationId ? eq(leads.conversationId, conversationId) : eq(leads.email, email!)
+      ))
+      .limit(1);
+
+    return lead ? toRow(leads, lead) as Lead : undefined;
+  }
+
+  // Conversation management
+  async createOrUpdateConversation(conversationData: InsertConversation): Promise<Conversation> {
+    const data = conversationData as any;
+    const existing = await this.getConversationBySession(data.chatbotId, data.sessionId);
+
+    if (existing) {
+      const conversation = await single('update conversation', this.db
+        .update(conversations)
+        .set({ lastMessageAt: new Date() } as any)
+        .where(eq(conversations.id, existing.id))
+        .returning());
+
+      return mapConversation(toRow(conversations, conversation));
+    }
+
+    // New conversations take the client of their chatbot
+    const chatbot = await this.getChatbot(data.chatbotId);
+    if (!chatbot) {
+      throw new Error('Chatbot not found');
+    }
+
+    const conversation = await single('create conversation', this.db
+      .insert(conversations)
+      .values({
+        id: nanoid(),
+        clientId: chatbot.clientId || (chatbot as any).client_id,
+        chatbotId: data.chatbotId,
+        sessionId: data.sessionId,
+        variant: data.variant ?? null,
+        lastMessageAt: new Date()
+      } as any)
+      .returning());
+
+    return mapConversation(toRow(conversations, conversation));
+  }
+
+  async getConversationsByClientId(clientId: string): Promise<Conversation[]> {
+    const rows = await run('get conversations', this.db
+      .select({ conversation: conversations, chatbotName: chatbots.name, chatbotClientId: chatbots.clientId })
+      .from(conversations)
+      .innerJoin(chatbots, eq(conversations.chatbotId, chatbots.id))
+      .where(eq(chatbots.clientId, clientId))
+      .orderBy(desc(conversations.lastMessageAt)));
+
+    return rows.map(row => mapConversation({
+      ...toRow(conversations, row.conversation),
+      chatbot: { id: row.conversation.chatbotId, name: row.chatbotName, client_id: row.chatbotClientId }
+    }));
+  }
+
+  async getConversationById(id: string, clientId: string): Promise<ConversationWithMessages | undefined> {
+    const [row] = await this.db
+      .select({ conversation: conversations, chatbotName: chatbots.name })
+      .from(conversations)
+      .leftJoin(chatbots, eq(conversations.chatbotId, chatbots.id))
+      .where(and(eq(conversations.id, id), eq(conversations.clientId, clientId)))
+      .limit(1);
+
+    if (!row) return undefined;
+
+    const messageRows = await this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, id))
+      .orderBy(asc(messages.createdAt));
+
+    const conversationMessages = messageRows.map(message => {
+      const m = toRow(messages, message);
+      return { ...m, conversationId: m.conversation_id, createdAt: m.created_at };
+    });
+
+    return {
+      ...mapConversation({
+        ...toRow(conversations, row.conversation),
+        chatbot: { id: row.conversation.chatbotId, name: row.chatbotName }
+      }),
+      messages: conversationMessages
+    } as ConversationWithMessages;
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id)).limit(1);
+    return conversation ? mapConversation(toRow(conversations, conversation)) : undefined;
+  }
+
+  async getConversationBySession(chatbotId: string, sessionId: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.chatbotId, chatbotId), eq(conversations.sessionId, sessionId)))
+      .limit(1);
+
+    return conversation ? mapConversation(toRow(conversations, conversation)) : undefined;
+  }
+
+  async updateConversationStatus(
+    id: string,
+    updates: Partial<Pick<Conversation, 'status' | 'assignedAgent' | 'handoffReason' | 'handoffRequestedAt'>>
+  ): Promise<Conversation> {
+    const dbUpdates: Record<string, any> = {};
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.assignedAgent !== undefined) dbUpdates.assignedAgent = updates.assignedAgent;
+    if (updates.handoffReason !== undefined) dbUpdates.handoffReason = updates.handoffReason;
+    if (updates.handoffRequestedAt !== undefined) dbUpdates.handoffRequestedAt = toDate(updates.handoffRequestedAt);
+
+    const conversation = await single('update conversation status', this.db
+      .update(conversations)
+      .set(dbUpdates)
+      .where(eq(conversations.id, id))
+      .returning());
+
+    return mapConversation(toRow(conversations, conversation));
+  }
+
+  async updateConversationSummary(id: string, summary: string, summarizedMessageCount: number): Promise<void> {
+    await run('update conversation summary', this.db
+      .update(conversations)
+      .set({ summary, summarizedMessageCount } as any)
+      .where(eq(conversations.id, id)));
+  }
+
+  // Message operations
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const data = message as any;
+    const created = await single('create message', this.db
+      .insert(messages)
+      .values({
+        id: nanoid(),
+        conversationId: data.conversationId,
+        role: data.role,
+        content: data.content,
+        metadata: data.metadata || null
+      } as any)
+      .returning());
+
+    return toRow(messages, created) as Message;
+  }
+
+  async getMessagesByConversationId(conversationId: string, clientId: string): Promise<Message[]> {
+    const rows = await run('get messages', this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt)));
+
+    return rows.map(row => toRow(messages, row) as Message);
+  }
+
+  // Visitor file attachments
+  async createConversationAttachment(attachment: Omit<ConversationAttachment, 'createdAt'>): Promise<ConversationAttachment> {
+    const created = await single('create attachment', this.db
+      .insert(conversationAttachments)
+      .values(attachment as any)
+      .returning());
+
+    return mapConversationAttachment(toRow(conversationAttachments, created));
+  }
+
+  async getConversationAttachment(id: string): Promise<ConversationAttachment | undefined> {
+    const [row] = await run('get attachment', this.db
+      .select()
+      .from(conversationAttachments)
+      .where(eq(conversationAttachments.id, id)));
+
+    return row ? mapConversationAttachment(toRow(conversationAttachments, row)) : undefined;
+  }
+
+  async getConversationAttachments(conversationIds: string[]): Promise<ConversationAttachment[]> {
+    if (conversationIds.length === 0) return [];
+
+    const rows = await run('get attachments', this.db
+      .select()
+      .from(conversationAttachments)
+      .where(inArray(conversationAttachments.conversationId, conversationIds))
+      .orderBy(asc(conversationAttachments.createdAt)));
+
+    return rows.map(row => mapConversationAttachment(toRow(conversationAttachments, row)));
+  }
+
+  // Data retention and data-subject requests
+  async getInactiveConversations(chatbotId: string, lastMessageBefore: Date): Promise<Conversation[]> {
+    const rows = await run('get inactive conversations', this.db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.chatbotId, chatbotId), lt(conversations.lastMessageAt, lastMessageBefore)))
+      .orderBy(asc(conversations.startedAt)));
+
+    return rows.map(row => mapConversation(toRow(conversations, row)));
+  }
+
+  async getVisitorConversations(
+    chatbotId: string,
+    filter: { sessionId?: string; conversationIds?: string[] }
+  ): Promise<(Conversation & { messages: Message[] })[]> {
+    if (!filter.sessionId && !filter.conversationIds?.length) return [];
+
+    const rows = await run('get visitor conversations', this.db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.chatbotId, chatbotId),
+        filter.sessionId
+          ? eq(conversations.sessionId, filter.sessionId)
+          : inArray(conversations.id, filter.conversationIds!)
+      ))
+      .orderBy(asc(conversations.startedAt)));
+    if (rows.length === 0) return [];
+
+    const messageRows = await run('get visitor messages', this.db
+      .select()
+      .from(messages)
+      .where(inArray(messages.conversationId, rows.map(row => row.id)))
+      .orderBy(asc(messages.createdAt)));
+
+    return rows.map(row => ({
+      ...mapConversation(toRow(conversations, row)),
+      messages: messageRows
+        .filter(message => message.conversationId === row.id)
+        .map(message => mapMessage(toRow(messages, message)))
+    }));
+  }
+
+  async getVisitorLeads(chatbotId: string, filter: { email?: string; conversationIds?: string[] }): Promise<Lead[]> {
+    if (!filter.email && !filter.conversationIds?.length) return [];
+
+    const rows = await run('get visitor leads', this.db
+      .select()
+      .from(leads)
+      .where(and(
+        eq(leads.chatbotId, chatbotId),
+        // Emails match case-insensitively
+        filter.email
+          ? sql`lower(${leads.email}) = lower(${filter.email})`
+          : inArray(leads.conversationId, filter.conversationIds!)
+      ))
+      .orderBy(asc(leads.capturedAt)));
+
+    return rows.map(row => mapLead(toRow(leads, row)));
+  }
+
+  async deleteConversations(ids: string[]): Promise<{ conversations: number; messages: number }> {
+    if (ids.length === 0) return { conversations: 0, messages: 0 };
+
+    return run('delete conversations', this.db.transaction(async tx => {
+      // Messages are removed by the cascading foreign key; count them first for the audit log
+      const [messageCount] = await tx
+        .select({ value: count() })
+        .from(messages)
+        .where(inArray(messages.conversationId, ids));
+      const deleted = await tx
+        .delete(conversations)
+        .where(inArray(conversations.id, ids))
+        .returning({ id: conversations.id });
+
+      return { conversations: deleted.length, messages: messageCount?.value ?? 0 };
+    }));
+  }
+
+  async deleteLeads(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const deleted = await run('delete leads', this.db
+      .delete(leads)
+      .where(inArray(leads.id, ids))
+      .returning({ id: leads.id }));
+
+    return deleted.length;
+  }
+
+  async anonymizeLeads(chatbotId: string, capturedBefore: Date): Promise<number> {
+    const now = new Date();
+    const anonymized = await run('anonymize leads', this.db
+      .update(leads)
+      .set({
+        name: null,
+        email: null,
+        phone: null,
+        message: null,
+        notes: null,
+        anonymizedAt: now,
+        updatedAt: now
+      } as any)
+      .where(and(
+        eq(leads.chatbotId, chatbotId),
+        lt(leads.capturedAt, capturedBefore),
+        isNull(leads.anonymizedAt)
+      ))
+      .returning({ id: leads.id }));
+
+    return anonymized.length;
+  }
+
+  async createPrivacyAuditLog(
+    entry: Pick<PrivacyAuditLog, 'action' | 'status' | 'performedBy'> & Partial<Pick<PrivacyAuditLog, 'chatbotId' | 'subjectType' | 'subject' | 'conversationsAffected' | 'messagesAffected' | 'leadsAffected' | 'details' | 'error'>>
+  ): Promise<PrivacyAuditLog> {
+    const created = await single('create privacy audit log', this.db
+      .insert(privacyAuditLogs)
+      .values({
+        id: nanoid(),
+        chatbotId: entry.chatbotId || null,
+        action: entry.action,
+        subjectType: entry.subjectType || null,
+        subject: entry.subject || null,
+        status: entry.status,
+        conversationsAffected: entry.conversationsAffected || 0,
+        messagesAffected: entry.messagesAffected || 0,
+        leadsAffected: entry.leadsAffected || 0,
+        details: entry.details || {},
+        error: entry.error || null,
+        performedBy: entry.performedBy,
+      } as any)
+      .returning());
+
+    return mapPrivacyAuditLog(toRow(privacyAuditLogs, created));
+  }
+
+  async getPrivacyAuditLogs(filters: { chatbotId?: string; action?: PrivacyAction; limit?: number } = {}): Promise<PrivacyAuditLog[]> {
+    const rows = await run('get privacy audit logs', this.db
+      .select()
+      .from(privacyAuditLogs)
+      .where(and(
+        filters.chatbotId ? eq(privacyAuditLogs.chatbotId, filters.chatbotId) : undefined,
+        filters.action ? eq(privacyAuditLogs.action, filters.action) : undefined
+      ))
+      .orderBy(desc(privacyAuditLogs.createdAt))
+      .limit(filters.limit || 100));
+
+    return rows.map(row => mapPrivacyAuditLog(toRow(privacyAuditLogs, row)));
+  }
+
+  // Background jobs
+  async enqueueJob(
+    job: { type: string; payload: Record<string, any>; runAt?: Date; maxAttempts: number; dedupeKey?: string | null }
+  ): Promise<{ id: string; created: boolean }> {
+    const id = nanoid();
+    const result = await run('enqueue job', this.db.execute<{ id: string }>(sql`
+      select enqueue_job(
+        ${id}, ${job.type}, ${JSON.stringify(job.payload)}::jsonb, ${job.runAt ? job.runAt.toISOString() : null}::timestamp,
+        ${job.maxAttempts}::int, ${job.dedupeKey || null}
+      ) as id
+    `));
+
+    const jobId = result.rows[0].id;
+    return { id: jobId, created: jobId === id };
+  }
+
+  async claimJobs(type: string, workerId: string, limit: number, leaseSeconds: number): Promise<Job[]> {
+    const claimed = await run('claim jobs', this.db.execute<{ id: string }>(
+      sql`select id from claim_jobs(${type}, ${workerId}, ${limit}::int, ${leaseSeconds}::int)`
+    ));
+    if (claimed.rows.length === 0) return [];
+
+    // Read back through Drizzle so timestamps are parsed as UTC
+    const rows = await run('claim jobs', this.db
+      .select()
+      .from(jobs)
+      .where(inArray(jobs.id, claimed.rows.map(row => row.id)))
+      .orderBy(asc(jobs.runAt)));
+
+    return rows.map(row => mapJob(toRow(jobs, row)));
+  }
+
+  async completeJob(id: string, workerId: string, result: Record<string, any> | null): Promise<void> {
+    const now = new Date();
+    await run('complete job', this.db
+      .update(jobs)
+      .set({
+        status: 'completed',
+        result,
+        lastError: null,
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: now,
+        updatedAt: now,
+      } as any)
+      .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId))));
+  }
+
+  async failJob(id: string, workerId: string, message: string, retryAt: Date | null): Promise<void> {
+    await run('update failed job', this.db
+      .update(jobs)
+      .set({
+        status: retryAt ? 'queued' : 'failed',
+        ...(retryAt ? { runAt: retryAt } : {}),
+        lastError: message,
+        lockedBy: null,
+        lockedUntil: null,
+        updatedAt: new Date(),
+      } as any)
+      .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId))));
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await run('get job', this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.id, id))
+      .limit(1));
+
+    return job ? mapJob(toRow(jobs, job)) : undefined;
+  }
+
+  async getJobs(filters: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<Job[]> {
+    const rows = await run('get jobs', this.db
+      .select()
+      .from(jobs)
+      .where(and(
+        filters.status ? eq(jobs.status, filters.status) : undefined,
+        filters.type ? eq(jobs.type, filters.type) : undefined
+      ))
+      .orderBy(desc(jobs.createdAt))
+      .limit(filters.limit || 100));
+
+    return rows.map(row => mapJob(toRow(jobs, row)));
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    const deleted = await run('delete finished jobs', this.db
+      .delete(jobs)
+      .where(and(inArray(jobs.status, ['completed', 'failed']), lt(jobs.updatedAt, finishedBefore)))
+      .returning({ id: jobs.id }));
+
+    return deleted.length;
+  }
+
+  // API keys (public REST API)
+  async createApiKey(key: Omit<ApiKey, 'lastUsedAt' | 'revokedAt' | 'createdAt'>): Promise<ApiKey> {
+    const created = await single('create API key', this.db
+      .insert(apiKeys)
+      .values({
+        id: key.id,
+        clientId: key.clientId,
+        name: key.name,
+        prefix: key.prefix,
+        keyHash: key.keyHash,
+        scopes: key.scopes,
+        expiresAt: toDate(key.expiresAt),
+      } as any)
+      .returning());
+
+    return mapApiKey(toRow(apiKeys, created));
+  }
+
+  async getApiKeysByClientId(clientId: string): Promise<ApiKey[]> {
+    const rows = await run('get API keys', this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.clientId, clientId))
+      .orderBy(desc(apiKeys.createdAt)));
+
+    return rows.map(row => mapApiKey(toRow(apiKeys, row)));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await run('get API key', this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.keyHash, keyHash))
+      .limit(1));
+
+    return key ? mapApiKey(toRow(apiKeys, key)) : undefined;
+  }
+
+  async revokeApiKey(id: string, clientId: string): Promise<ApiKey | undefined> {
+    const [revoked] = await run('revoke API key', this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() } as any)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.clientId, clientId), isNull(apiKeys.revokedAt)))
+      .returning());
+
+    return revoked ? mapApiKey(toRow(apiKeys, revoked)) : undefined;
+  }
+
+  async recordApiKeyUsage(usage: Omit<ApiKeyUsage, 'id' | 'createdAt'>): Promise<void> {
+    await run('record API key usage', this.db
+      .insert(apiKeyUsage)
+      .values({
+        id: nanoid(),
+        apiKeyId: usage.apiKeyId,
+        clientId: usage.clientId,
+        method: usage.method,
+        path: usage.path,
+        statusCode: usage.statusCode,
+        durationMs: usage.durationMs,
+        ipAddress: usage.ipAddress,
+      } as any));
+
+    await run('update API key', this.db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date() } as any)
+      .where(eq(apiKeys.id, usage.apiKeyId)));
+  }
+
+  async getApiKeyUsage(apiKeyId: string, limit: number): Promise<ApiKeyUsage[]> {
+    const rows = await run('get API key usage', this.db
+      .select()
+      .from(apiKeyUsage)
+      .where(eq(apiKeyUsage.apiKeyId, apiKeyId))
+      .orderBy(desc(apiKeyUsage.createdAt))
+      .limit(limit));
+
+    return rows.map(row => mapApiKeyUsage(toRow(apiKeyUsage, row)));
+  }
+
+  async deleteApiKeyUsage(before: Date): Promise<number> {
+    const deleted = await run('delete API key usage', this.db
+      .delete(apiKeyUsage)
+      .where(lt(apiKeyUsage.createdAt, before))
+      .returning({ id: apiKeyUsage.id }));
+
+    return deleted.length;
+  }
+
+  // Webhooks
+  async createWebhookEndpoint(endpoint: Omit<WebhookEndpoint, 'createdAt' | 'updatedAt'>): Promise<WebhookEndpoint> {
+    const created = await single('create webhook endpoint', this.db
+      .insert(webhookEndpoints)
+      .values({
+        id: endpoint.id,
+        clientId: endpoint.clientId,
+        url: endpoint.url,
+        description: endpoint.description,
+        events: endpoint.events,
+        secret: endpoint.secret,
+        enabled: endpoint.enabled,
+      } as any)
+      .returning());
+
+    return mapWebhookEndpoint(toRow(webhookEndpoints, created));
+  }
+
+  async getWebhookEndpoints(clientId: string): Promise<WebhookEndpoint[]> {
+    const rows = await run('get webhook endpoints', this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.clientId, clientId))
+      .orderBy(asc(webhookEndpoints.createdAt)));
+
+    return rows.map(row => mapWebhookEndpoint(toRow(webhookEndpoints, row)));
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await run('get webhook endpoint', this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .limit(1));
+
+    return endpoint ? mapWebhookEndpoint(toRow(webhookEndpoints, endpoint)) : undefined;
+  }
+
+  async updateWebhookEndpoint(
+    id: string,
+    updates: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'secret' | 'enabled'>>
+  ): Promise<WebhookEndpoint> {
+    const updated = await single('update webhook endpoint', this.db
+      .update(webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(webhookEndpoints.id, id))
+      .returning());
+
+    return mapWebhookEndpoint(toRow(webhookEndpoints, updated));
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<void> {
+    await run('delete webhook endpoint', this.db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id)));
+  }
+
+  async createWebhookDelivery(
+    delivery: Pick<WebhookDelivery, 'id' | 'endpointId' | 'clientId' | 'eventId' | 'eventType' | 'payload'>
+  ): Promise<WebhookDelivery> {
+    const created = await single('create webhook delivery', this.db
+      .insert(webhookDeliveries)
+      .values({
+        id: delivery.id,
+        endpointId: delivery.endpointId,
+        clientId: delivery.clientId,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        payload: delivery.payload,
+      } as any)
+      .returning());
+
+    return mapWebhookDelivery(toRow(webhookDeliveries, created));
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await run('get webhook delivery', this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id))
+      .limit(1));
+
+    return delivery ? mapWebhookDelivery(toRow(webhookDeliveries, delivery)) : undefined;
+  }
+
+  async getWebhookDeliveries(endpointId: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = await run('get webhook deliveries', this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit));
+
+    return rows.map(row => mapWebhookDelivery(toRow(webhookDeliveries, row)));
+  }
+
+  async updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery> {
+    const updated = await single('update webhook delivery', this.db
+      .update(webhookDeliveries)
+      .set({
+        ...updates,
+        lastAttemptAt: toDate(updates.lastAttemptAt) ?? undefined,
+        deliveredAt: toDate(updates.deliveredAt) ?? undefined,
+      } as any)
+      .where(eq(webhookDeliveries.id, id))
+      .returning());
+
+    return mapWebhookDelivery(toRow(webhookDeliveries, updated));
+  }
+
+  async deleteWebhookDeliveries(before: Date): Promise<number> {
+    const deleted = await run('delete webhook deliveries', this.db
+      .delete(webhookDeliveries)
+      .where(lt(webhookDeliveries.createdAt, before))
+      .returning({ id: webhookDeliveries.id }));
+
+    return deleted.length;
+  }
+
+  // LLM usage metering
+  async recordLLMUsage(usage: Omit<LLMUsage, 'id' | 'createdAt'>): Promise<void> {
+    await run('record LLM usage', this.db
+      .insert(llmUsage)
+      .values({
+        id: nanoid(),
+        clientId: usage.clientId,
+        chatbotId: usage.chatbotId,
+        operation: usage.operation,
+        provider: usage.provider,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        cost: usage.cost,
+      } as any));
+  }
+
+  async getLLMUsageSummary(from: Date, to: Date, clientId?: string): Promise<LLMUsageSummaryRow[]> {
+    const result = await run('summarize LLM usage', this.db.execute(
+      sql`select * from summarize_llm_usage(${from.toISOString()}::timestamp, ${to.toISOString()}::timestamp, ${clientId ?? null})`
+    ));
+    return result.rows.map(row => mapLLMUsageSummaryRow(row));
+  }
+
+  // Widget rate limiting (shared token buckets)
+  async takeRateLimitTokens(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<{ allowed: boolean; tokens: number }> {
+    const result = await run('take rate limit tokens', this.db.execute(
+      sql`select * from take_rate_limit_tokens(${key}, ${capacity}::double precision, ${refillPerSecond}::double precision, ${cost}::double precision)`
+    ));
+    const row = result.rows[0] as any;
+    return { allowed: row.allowed, tokens: Number(row.tokens) };
+  }
+
+  async deleteStaleRateLimitBuckets(updatedBefore: Date): Promise<number> {
+    const deleted = await run('delete rate limit buckets', this.db
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.updatedAt, updatedBefore))
+      .returning({ key: rateLimitBuckets.key }));
+
+    return deleted.length;
+  }
+
+  // Evaluation golden sets and runs
+  async createEvalSet(set: Pick<EvalSet, 'id' | 'chatbotId' | 'name' | 'description'>): Promise<EvalSet> {
+    const created = await single('create evaluation set', this.db
+      .insert(evalSets)
+      .values({
+        id: set.id,
+        chatbotId: set.chatbotId,
+        name: set.name,
+        description: set.description,
+      } as any)
+      .returning());
+
+    return mapEvalSet(toRow(evalSets, created));
+  }
+
+  async getEvalSets(chatbotId: string): Promise<EvalSet[]> {
+    const rows = await run('get evaluation sets', this.db
+      .select()
+      .from(evalSets)
+      .where(eq(evalSets.chatbotId, chatbotId))
+      .orderBy(asc(evalSets.createdAt)));
+
+    return rows.map(row => mapEvalSet(toRow(evalSets, row)));
+  }
+
+  async getEvalSet(id: string): Promise<EvalSet | undefined> {
+    const [set] = await run('get evaluation set', this.db
+      .select()
+      .from(evalSets)
+      .where(eq(evalSets.id, id))
+      .limit(1));
+
+    return set ? mapEvalSet(toRow(evalSets, set)) : undefined;
+  }
+
+  async updateEvalSet(id: string, updates: Partial<Pick<EvalSet, 'name' | 'description'>>): Promise<EvalSet> {
+    const updated = await single('update evaluation set', this.db
+      .update(evalSets)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(evalSets.id, id))
+      .returning());
+
+    return mapEvalSet(toRow(evalSets, updated));
+  }
+
+  async deleteEvalSet(id: string): Promise<void> {
+    await run('delete evaluation set', this.db.delete(evalSets).where(eq(evalSets.id, id)));
+  }
+
+  async createEvalCase(
+    evalCase: Pick<EvalCase, 'id' | 'setId' | 'question' | 'expectedAnswer' | 'expectedDocumentIds'>
+  ): Promise<EvalCase> {
+    const created = await single('create evaluation case', this.db
+      .insert(evalCases)
+      .values({
+        id: evalCase.id,
+        setId: evalCase.setId,
+        question: evalCase.question,
+        expectedAnswer: evalCase.expectedAnswer,
+        expectedDocumentIds: evalCase.expectedDocumentIds,
+      } as any)
+      .returning());
+
+    return mapEvalCase(toRow(evalCases, created));
+  }
+
+  async getEvalCases(setId: string): Promise<EvalCase[]> {
+    const rows = await run('get evaluation cases', this.db
+      .select()
+      .from(evalCases)
+      .where(eq(evalCases.setId, setId))
+      .orderBy(asc(evalCases.createdAt)));
+
+    return rows.map(row => mapEvalCase(toRow(evalCases, row)));
+  }
+
+  async getEvalCase(id: string): Promise<EvalCase | undefined> {
+    const [evalCase] = await run('get evaluation case', this.db
+      .select()
+      .from(evalCases)
+      .where(eq(evalCases.id, id))
+      .limit(1));
+
+    return evalCase ? mapEvalCase(toRow(evalCases, evalCase)) : undefined;
+  }
+
+  async updateEvalCase(
+    id: string,
+    updates: Partial<Pick<EvalCase, 'question' | 'expectedAnswer' | 'expectedDocumentIds'>>
+  ): Promise<EvalCase> {
+    const updated = await single('update evaluation case', this.db
+      .update(evalCases)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(evalCases.id, id))
+      .returning());
+
+    return mapEvalCase(toRow(evalCases, updated));
+  }
+
+  async deleteEvalCase(id: string): Promise<void> {
+    await run('delete evaluation case', this.db.delete(evalCases).where(eq(evalCases.id, id)));
+  }
+
+  async createEvalRun(run: Pick<EvalRun, 'id' | 'setId' | 'chatbotId' | 'label' | 'llm'>): Promise<EvalRun> {
+    const created = await single('create evaluation run', this.db
+      .insert(evalRuns)
+      .values({
+        id: run.id,
+        setId: run.setId,
+        chatbotId: run.chatbotId,
+        label: run.label,
+        llm: run.llm,
+      } as any)
+      .returning());
+
+    return mapEvalRun(toRow(evalRuns, created));
+  }
+
+  async getEvalRuns(setId: string, limit: number): Promise<EvalRun[]> {
+    const rows = await run('get evaluation runs', this.db
+      .select()
+      .from(evalRuns)
+      .where(eq(evalRuns.setId, setId))
+      .orderBy(desc(evalRuns.createdAt))
+      .limit(limit));
+
+    return rows.map(row => mapEvalRun(toRow(evalRuns, row)));
+  }
+
+  async getEvalRun(id: string): Promise<EvalRun | undefined> {
+    const [evalRun] = await run('get evaluation run', this.db
+      .select()
+      .from(evalRuns)
+      .where(eq(evalRuns.id, id))
+      .limit(1));
+
+    return evalRun ? mapEvalRun(toRow(evalRuns, evalRun)) : undefined;
+  }
+
+  async updateEvalRun(id: string, updates: EvalRunUpdate): Promise<EvalRun> {
+    const updated = await single('update evaluation run', this.db
+      .update(evalRuns)
+      .set({
+        ...updates,
+        startedAt: toDate(updates.startedAt) ?? undefined,
+        completedAt: toDate(updates.completedAt) ?? undefined,
+      } as any)
+      .where(eq(evalRuns.id, id))
+      .returning());
+
+    return mapEvalRun(toRow(evalRuns, updated));
+  }
+
+  async createChatbotConfigVersion(version: Pick<ChatbotConfigVersion, 'id' | 'chatbotId' | 'version' | 'config' | 'diff' | 'action' | 'note' | 'author' | 'publishedAt' | 'publishedBy'>): Promise<ChatbotConfigVersion> {
+    const created = await single('create config version', this.db
+      .insert(chatbotConfigVersions)
+      .values({ ...version, publishedAt: toDate(version.publishedAt) } as any)
+      .returning());
+
+    return mapChatbotConfigVersion(toRow(chatbotConfigVersions, created));
+  }
+
+  async getChatbotConfigVersions(chatbotId: string, limit: number): Promise<ChatbotConfigVersion[]> {
+    const rows = await run('get config versions', this.db
+      .select()
+      .from(chatbotConfigVersions)
+      .where(eq(chatbotConfigVersions.chatbotId, chatbotId))
+      .orderBy(desc(chatbotConfigVersions.version))
+      .limit(limit));
+
+    return rows.map(row => mapChatbotConfigVersion(toRow(chatbotConfigVersions, row)));
+  }
+
+  async getChatbotConfigVersion(id: string): Promise<ChatbotConfigVersion | undefined> {
+    const [version] = await run('get config version', this.db
+      .select()
+      .from(chatbotConfigVersions)
+      .where(eq(chatbotConfigVersions.id, id))
+      .limit(1));
+
+    return version ? mapChatbotConfigVersion(toRow(chatbotConfigVersions, version)) : undefined;
+  }
+
+  async getLatestChatbotConfigVersion(chatbotId: string, publishedOnly = false): Promise<ChatbotConfigVersion | undefined> {
+    const [version] = await run('get config version', this.db
+      .select()
+      .from(chatbotConfigVersions)
+      .where(and(
+        eq(chatbotConfigVersions.chatbotId, chatbotId),
+        publishedOnly ? isNotNull(chatbotConfigVersions.publishedAt) : undefined
+      ))
+      .orderBy(desc(chatbotConfigVersions.version))
+      .limit(1));
+
+    return version ? mapChatbotConfigVersion(toRow(chatbotConfigVersions, version)) : undefined;
+  }
+
+  async publishChatbotConfigVersion(id: string, publishedBy: string | null): Promise<ChatbotConfigVersion> {
+    const published = await single('publish config version', this.db
+      .update(chatbotConfigVersions)
+      .set({ publishedAt: new Date(), publishedBy } as any)
+      .where(eq(chatbotConfigVersions.id, id))
+      .returning());
+
+    return mapChatbotConfigVersion(toRow(chatbotConfigVersions, published));
+  }
+
+  // Email notification settings
+  async getEmailSettings(notificationType?: string): Promise<EmailSettings[]> {
+    // Email settings feature - return empty array for now
+    return [];
+  }
+
+  async createEmailSettings(settings: InsertEmailSettings): Promise<EmailSettings> {
+    // Email settings feature - stub implementation
+    return { id: nanoid(), ...settings, createdAt: new Date(), updatedAt: new Date() } as EmailSettings;
+  }
+
+  async updateEmailSettings(id: string, settings: Partial<InsertEmailSettings>): Promise<EmailSettings> {
+    // Email settings feature - stub implementation
+    return { id, ...settings, updatedAt: new Date() } as EmailSettings;
+  }
+
+  async deleteEmailSettings(id: string): Promise<void> {
+    // Email settings feature - stub implementation
+    return;
+  }
+
+  // Email notification tracking
+  async getEmailNotifications(filters?: { clientId?: string; notificationType?: string; deliveryStatus?: string; dateFrom?: Date; dateTo?: Date; limit?: number; }): Promise<EmailNotification[]> {
+    // Email notifications feature - return empty array for now
+    return [];
+  }
+
+  async createEmailNotification(notification: InsertEmailNotification): Promise<EmailNotification> {
+    // Email notifications feature - stub implementation
+    return { id: nanoid(), ...notification, createdAt: new Date() } as EmailNotification;
+  }
+
+  async updateEmailNotificationStatus(id: string, status: string, errorMessage?: string): Promise<EmailNotification> {
+    // Email notifications feature - stub implementation
+    return { id, deliveryStatus: status, errorMessage } as EmailNotification;
+  }
+
+  async checkNotificationSent(clientId: string, notificationType: string, withinHours?: number): Promise<boolean> {
+    // Email notifications feature - return false for now
+    return false;
+  }
+
+  // Email notification statistics
+  async getEmailNotificationStats(dateFrom?: Date, dateTo?: Date): Promise<{ totalSent: number; delivered: number; failed: number; pending: number; byType: Record<string, { sent: number; delivered: number; failed: number; }>; }> {
+    // Email notifications feature - return empty stats
+    return {
+      totalSent: 0,
+      delivered: 0,
+      failed: 0,
+      pending: 0,
+      byType: {}
+    };
+  }
+}
+
+// Export a singleton instance
+export const postgresStorage = new PostgresStorage();
@@ -14,16 +14,26 @@ import type {
   InsertPaymentLog,
   Appointment,
   InsertAppointment,
+  CalendarIntegration,
+  AnalyticsEventType,
+  ChatbotAnalyticsDaily,
   Lead,
   InsertLead,
   Conversation,
   InsertConversation,
+  ConversationAttachment,
   Message,
   InsertMessage,
   KBDocument,
   InsertKBDocument,
   KBChunk,
   InsertKBChunk,
+  KBUnansweredQuestion,
+  UnansweredQuestionReason,
+  KBSource,
+  CreateKBSource,
+  KBSearchResult,
+  KBScoredSearchResult,
   EmailSettings,
   InsertEmailSettings,
   EmailNotification,
@@ -34,8 +44,64 @@ import type {
   ConversationWithMessages,
   LeadWithClient,
   AppointmentWithClient,
-  KBDocumentWithChunks
+  KBDocumentWithChunks,
+  PrivacyAction,
+  PrivacyAuditLog,
+  Job,
+  JobStatus,
+  ApiKey,
+  ApiKeyUsage,
+  WebhookEndpoint,
+  WebhookDelivery,
+  LLMUsage,
+  LLMUsageSummaryRow,
+  EvalSet,
+  EvalCase,
+  EvalRun,
+  ChatbotConfigVersion,
+  VariantOutcomeRow
 } from 'server/shared/schema';
+import {
+  parseConfig,
+  mapClient,
+  mapKBDocument,
+  mapSubscription,
+  mapPaymentLog,
+  mapAppointment,
+  mapCalendarIntegration,
+  mapConversation,
+  mapConversationAttachment,
+  mapKBSource,
+  mapKBSearchResult,
+  mapKBScoredSearchResult,
+  mapUnansweredQuestion,
+  mapChatbotAnalyticsDaily,
+  mapLead,
+  mapMessage,
+  mapPrivacyAuditLog,
+  mapJob,
+  mapApiKey,
+  mapApiKeyUsage,
+  mapWebhookEndpoint,
+  mapWebhookDelivery,
+  mapLLMUsageSummaryRow,
+  mapEvalSet,
+  mapEvalCase,
+  mapEvalRun,
+  mapChatbotConfigVersion,
+  mapVariantOutcomeRow
+} from './database/mappers.js';
+
+// Embeddings are only needed for clustering in the database
+const UNANSWERED_QUESTION_COLUMNS = 'id, chatbot_id, question, examples, occurrences, last_reason, last_confidence, status, answer, answered_via, kb_document_id, first_asked_at, last_asked_at, answered_at';
+
+// Outcome of a webhook delivery attempt
+export type WebhookDeliveryUpdate = Partial<Pick<WebhookDelivery,
+  'status' | 'attempts' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs' | 'lastAttemptAt' | 'deliveredAt'>>;
+
+// Progress and outcome of an evaluation run
+export type EvalRunUpdate = Partial<Pick<EvalRun,
+  'status' | 'settings' | 'summary' | 'results' | 'error' | 'startedAt' | 'completedAt'>>;
 
 export interface IStorage {
   // Admin management
@@ -63,18 +129,32 @@ export interface IStorage {
 
   // Subscription management
   getSubscription(id: string): Promise<Subscription | undefined>;
+  getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined>;
   getSubscriptionsWithClients(statusFilter?: string): Promise<SubscriptionWithClient[]>;
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
+  updateSubscription(id: string, updates: Partial<Subscription>): Promise<Subscription>;
   convertTrialToPaid(id: string, data: { type: string; monthlyAmount: number }): Promise<Subscription>;
   extendTrial(id: string, days: number): Promise<Subscription>;
   suspendSubscription(id: string): Promise<Subscription>;
   reactivateSubscription(id: string): Promise<Subscription>;
+  getSubscriptionByClientId(clientId: string): Promise<Subscription | undefined>;
+  getSubscriptionsDueForExpiry(trialEndBefore: Date, paidUntilBefore: Date): Promise<Subscription[]>;
+
+  // Plan usage
+  countChatbotsByClientId(clientId: string): Promise<number>;
+  countVisitorMessagesByClientId(clientId: string, since: Date): Promise<number>;
+  countUploadedKBDocumentsByClientId(clientId: string): Promise<number>;
 
   // Payment management
   getPaymentLog(id: string): Promise<PaymentLog | undefined>;
+  getPaymentLogByStripeInvoiceId(stripeInvoiceId: string): Promise<PaymentLog | undefined>;
   getPaymentsWithClients(statusFilter?: string, dateFilter?: string): Promise<any[]>;
   createPaymentLog(payment: InsertPaymentLog): Promise<PaymentLog>;
-  updatePaymentStatus(id: string, status: string): Promise<PaymentLog>;
+  updatePaymentStatus(id: string, status: string, failureReason?: string | null): Promise<PaymentLog>;
+
+  // Stripe webhook idempotency
+  isStripeEventProcessed(eventId: string): Promise<boolean>;
+  markStripeEventProcessed(eventId: string, type: string): Promise<void>;
 
   // Analytics and dashboard
   getDashboardStats(): Promise<{
@@ -106,6 +186,12 @@ export interface IStorage {
   trackWidgetView(chatbotId: string): Promise<void>;
   trackWidgetInteraction(chatbotId: string): Promise<void>;
 
+  // Chatbot analytics (days are UTC dates, YYYY-MM-DD)
+  recordAnalyticsEvent(event: { chatbotId: string; conversationId?: string | null; type: AnalyticsEventType; value?: number | null }): Promise<void>;
+  rollupChatbotAnalytics(chatbotId: string, from: string, to: string): Promise<void>;
+  getChatbotAnalyticsDaily(chatbotId: string, from: string, to: string): Promise<ChatbotAnalyticsDaily[]>;
+  getVariantOutcomes(chatbotId: string, from: string, to: string): Promise<VariantOutcomeRow[]>;
+
   // Logo management
   uploadChatbotLogo(chatbotId: string, file: Buffer, mimeType: string): Promise<string>;
   deleteChatbotLogo(chatbotId: string, logoUrl: string): Promise<void>;
@@ -120,6 +206,12 @@ export interface IStorage {
   getAppointmentsByClientId(clientId: string): Promise<AppointmentWithClient[]>;
   updateAppointment(id: string, appointmentData: Partial<InsertAppointment>, clientId: string): Promise<Appointment>;
   deleteAppointment(id: string, clientId: string): Promise<void>;
+  getAppointmentsInRange(chatbotId: string, start: Date, end: Date): Promise<Appointment[]>;
+
+  // Calendar integrations (tokens are stored encrypted)
+  getCalendarIntegration(clientId: string, provider: string): Promise<CalendarIntegration | undefined>;
+  saveCalendarIntegration(integration: Pick<CalendarIntegration, 'clientId' | 'provider' | 'accessTokenEncrypted' | 'refreshTokenEncrypted' | 'tokenExpiresAt' | 'scope'>): Promise<CalendarIntegration>;
+  deleteCalendarIntegration(clientId: string, provider: string): Promise<void>;
 
   // Lead management  
   createLead(lead: InsertLead): Promise<Lead>;
@@ -134,30 +226,127 @@ export interface IStorage {
   createOrUpdateConversation(conversationData: InsertConversation): Promise<Conversation>;
   getConversationsByClientId(clientId: string): Promise<Conversation[]>;
   getConversationById(id: string, clientId: string): Promise<ConversationWithMessages | undefined>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  getConversationBySession(chatbotId: string, sessionId: string): Promise<Conversation | undefined>;
+  updateConversationStatus(id: string, updates: Partial<Pick<Conversation, 'status' | 'assignedAgent' | 'handoffReason' | 'handoffRequestedAt'>>): Promise<Conversation>;
+  updateConversationSummary(id: string, summary: string, summarizedMessageCount: number): Promise<void>;
 
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
   getMessagesByConversationId(conversationId: string, clientId: string): Promise<Message[]>;
 
+  // Visitor file attachments
+  createConversationAttachment(attachment: Omit<ConversationAttachment, 'createdAt'>): Promise<ConversationAttachment>;
+  getConversationAttachment(id: string): Promise<ConversationAttachment | undefined>;
+  getConversationAttachments(conversationIds: string[]): Promise<ConversationAttachment[]>;
+
   // Knowledge Base management
-  createKBDocument(document: InsertKBDocument & { id: string }): Promise<KBDocument>;
+  createKBDocument(document: InsertKBDocument & Partial<KBDocument> & { id: string }): Promise<KBDocument>;
   getKBDocument(id: string): Promise<KBDocument | undefined>;
   getKBDocuments(chatbotId: string): Promise<KBDocument[]>;
   getDocumentByChecksum(chatbotId: string, checksum: string): Promise<KBDocument | undefined>;
   updateKBDocumentStatus(id: string, status: string, errorMessage?: string): Promise<KBDocument>;
+  updateKBDocumentProgress(id: string, processedChunks: number, totalChunks: number): Promise<void>;
+  updateKBDocumentContent(id: string, content: { filename: string; size: number; checksum: string; version: number }): Promise<KBDocument>;
   deleteKBDocument(id: string): Promise<void>;
 
+  // Knowledge Base sources (crawled websites)
+  createKBSource(source: CreateKBSource & { chatbotId: string }): Promise<KBSource>;
+  getKBSource(id: string): Promise<KBSource | undefined>;
+  getKBSources(chatbotId?: string): Promise<KBSource[]>;
+  updateKBSource(id: string, updates: Partial<Pick<KBSource, 'status' | 'lastError' | 'pagesCrawled' | 'lastCrawledAt'>>): Promise<KBSource>;
+  deleteKBSource(id: string): Promise<void>;
+  getKBSourceDocuments(sourceId: string): Promise<KBDocument[]>;
+
   // Knowledge Base chunks
-  createKBChunk(chunk: InsertKBChunk & { id: string }): Promise<KBChunk>;
+  createKBChunk(chunk: InsertKBChunk & Partial<KBChunk> & { id: string }): Promise<KBChunk>;
   getKBChunks(documentId: string): Promise<KBChunk[]>;
-  searchKBChunks(chatbotId: string, queryEmbedding: number[], limit: number, queryText?: string): Promise<Array<{
-    text: string;
-    similarity: number;
-    filename: string;
-    metadata: any;
-  }>>;
+  searchKBChunks(chatbotId: string, queryEmbedding: number[], limit: number, queryText?: string): Promise<KBSearchResult[]>;
+  searchKBChunksScored(
+    chatbotId: string,
+    queryEmbedding: number[],
+    queryText: string,
+    options: { limit: number; threshold: number }
+  ): Promise<KBScoredSearchResult[]>;
   deleteKBChunks(documentId: string): Promise<void>;
 
+  // Unanswered questions (knowledge base misses, clustered by embedding)
+  recordUnansweredQuestion(miss: { chatbotId: string; question: string; embedding: number[] | null; reason: UnansweredQuestionReason; confidence?: number | null }, matchThreshold: number): Promise<string>;
+  getUnansweredQuestions(chatbotId: string, status?: string): Promise<KBUnansweredQuestion[]>;
+  getUnansweredQuestion(id: string): Promise<KBUnansweredQuestion | undefined>;
+  updateUnansweredQuestion(id: string, updates: Partial<Pick<KBUnansweredQuestion, 'status' | 'answer' | 'answeredVia' | 'kbDocumentId' | 'answeredAt'>>): Promise<KBUnansweredQuestion>;
+
+  // Data retention and data-subject requests
+  getInactiveConversations(chatbotId: string, lastMessageBefore: Date): Promise<Conversation[]>;
+  getVisitorConversations(chatbotId: string, filter: { sessionId?: string; conversationIds?: string[] }): Promise<(Conversation & { messages: Message[] })[]>;
+  getVisitorLeads(chatbotId: string, filter: { email?: string; conversationIds?: string[] }): Promise<Lead[]>;
+  deleteConversations(ids: string[]): Promise<{ conversations: number; messages: number }>;
+  deleteLeads(ids: string[]): Promise<number>;
+  anonymizeLeads(chatbotId: string, capturedBefore: Date): Promise<number>;
+  createPrivacyAuditLog(entry: Pick<PrivacyAuditLog, 'action' | 'status' | 'performedBy'> & Partial<Pick<PrivacyAuditLog, 'chatbotId' | 'subjectType' | 'subject' | 'conversationsAffected' | 'messagesAffected' | 'leadsAffected' | 'details' | 'error'>>): Promise<PrivacyAuditLog>;
+  getPrivacyAuditLogs(filters?: { chatbotId?: string; action?: PrivacyAction; limit?: number }): Promise<PrivacyAuditLog[]>;
+
+  // Background jobs
+  enqueueJob(job: { type: string; payload: Record<string, any>; runAt?: Date; maxAttempts: number; dedupeKey?: string | null }): Promise<{ id: string; created: boolean }>;
+  claimJobs(type: string, workerId: string, limit: number, leaseSeconds: number): Promise<Job[]>;
+  completeJob(id: string, workerId: string, result: Record<string, any> | null): Promise<void>;
+  failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<void>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filters?: { status?: JobStatus; type?: string; limit?: number }): Promise<Job[]>;
+  deleteFinishedJobs(finishedBefore: Date): Promise<number>;
+
+  // API keys (public REST API)
+  createApiKey(key: Omit<ApiKey, 'lastUsedAt' | 'revokedAt' | 'createdAt'>): Promise<ApiKey>;
+  getApiKeysByClientId(clientId: string): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  revokeApiKey(id: string, clientId: string): Promise<ApiKey | undefined>;
+  recordApiKeyUsage(usage: Omit<ApiKeyUsage, 'id' | 'createdAt'>): Promise<void>;
+  getApiKeyUsage(apiKeyId: string, limit: number): Promise<ApiKeyUsage[]>;
+  deleteApiKeyUsage(before: Date): Promise<number>;
+
+  // Webhooks
+  createWebhookEndpoint(endpoint: Omit<WebhookEndpoint, 'createdAt' | 'updatedAt'>): Promise<WebhookEndpoint>;
+  getWebhookEndpoints(clientId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  updateWebhookEndpoint(id: string, updates: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'secret' | 'enabled'>>): Promise<WebhookEndpoint>;
+  deleteWebhookEndpoint(id: string): Promise<void>;
+  createWebhookDelivery(delivery: Pick<WebhookDelivery, 'id' | 'endpointId' | 'clientId' | 'eventId' | 'eventType' | 'payload'>): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(endpointId: string, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery>;
+  deleteWebhookDeliveries(before: Date): Promise<number>;
+
+  // LLM usage metering
+  recordLLMUsage(usage: Omit<LLMUsage, 'id' | 'createdAt'>): Promise<void>;
+  getLLMUsageSummary(from: Date, to: Date, clientId?: string): Promise<LLMUsageSummaryRow[]>;
+
+  // Widget rate limiting (shared token buckets)
+  takeRateLimitTokens(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<{ allowed: boolean; tokens: number }>;
+  deleteStaleRateLimitBuckets(updatedBefore: Date): Promise<number>;
+
+  // Evaluation golden sets and runs
+  createEvalSet(set: Pick<EvalSet, 'id' | 'chatbotId' | 'name' | 'description'>): Promise<EvalSet>;
+  getEvalSets(chatbotId: string): Promise<EvalSet[]>;
+  getEvalSet(id: string): Promise<EvalSet | undefined>;
+  updateEvalSet(id: string, updates: Partial<Pick<EvalSet, 'name' | 'description'>>): Promise<EvalSet>;
+  deleteEvalSet(id: string): Promise<void>;
+  createEvalCase(evalCase: Pick<EvalCase, 'id' | 'setId' | 'question' | 'expectedAnswer' | 'expectedDocumentIds'>): Promise<EvalCase>;
+  getEvalCases(setId: string): Promise<EvalCase[]>;
+  getEvalCase(id: string): Promise<EvalCase | undefined>;
+  updateEvalCase(id: string, updates: Partial<Pick<EvalCase, 'question' | 'expectedAnswer' | 'expectedDocumentIds'>>): Promise<EvalCase>;
+  deleteEvalCase(id: string): Promise<void>;
+  createEvalRun(run: Pick<EvalRun, 'id' | 'setId' | 'chatbotId' | 'label' | 'llm'>): Promise<EvalRun>;
+  getEvalRuns(setId: string, limit: number): Promise<EvalRun[]>;
+  getEvalRun(id: string): Promise<EvalRun | undefined>;
+  updateEvalRun(id: string, updates: EvalRunUpdate): Promise<EvalRun>;
+
+  // Chatbot config versions (drafts, publishes and rollbacks)
+  createChatbotConfigVersion(version: Pick<ChatbotConfigVersion, 'id' | 'chatbotId' | 'version' | 'config' | 'diff' | 'action' | 'note' | 'author' | 'publishedAt' | 'publishedBy'>): Promise<ChatbotConfigVersion>;
+  getChatbotConfigVersions(chatbotId: string, limit: number): Promise<ChatbotConfigVersion[]>;
+  getChatbotConfigVersion(id: string): Promise<ChatbotConfigVersion | undefined>;
+  getLatestChatbotConfigVersion(chatbotId: string, publishedOnly?: boolean): Promise<ChatbotConfigVersion | undefined>;
+  publishChatbotConfigVersion(id: string, publishedBy: string | null): Promise<ChatbotConfigVersion>;
+
   // Email notification settings
   getEmailSettings(notificationType?: string): Promise<EmailSettings[]>;
   createEmailSettings(settings: InsertEmailSettings): Promise<EmailSettings>;
@@ -189,28 +378,6 @@ export interface IStorage {
 
 
 export class SupabaseStorage implements IStorage {
-  // Helper function to parse config field
-  private parseConfig(config: any): any {
-    if (!config) return {};
-
-    if (typeof config === 'string') {
-      try {
-        return JSON.parse(config);
-      } catch (e) {
-        console.error('Error parsing config string:', e);
-      }
-    } else if (typeof config === 'object' && Object.keys(config).every(key => !isNaN(Number(key)))) {
-      // Handle character index format
-      const configStr = Object.values(config).join('');
-      try {
-        return JSON.parse(configStr);
-      } catch (e) {
-        console.error('Error parsing config from character indices:', e);
-      }
-    }
-
-    return config;
-  }
   // Admin management
   async getAdmin(id: string): Promise<Admin | undefined> {
     const { data, error } = await supabase
@@ -261,7 +428,7 @@ export class SupabaseStorage implements IStorage {
       .single();
 
     if (error || !data) return undefined;
-    return data as Client;
+    return mapClient(data);
   }
 
   async getClientsWithChatbots(): Promise<ClientWithChatbots[]> {
@@ -362,7 +529,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field
     if (data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     // Map snake_case to camelCase for compatibility
@@ -392,7 +559,7 @@ export class SupabaseStorage implements IStorage {
     for (const chatbot of data || []) {
       // Parse config field
       if (chatbot.config) {
-        chatbot.config = this.parseConfig(chatbot.config);
+        chatbot.config = parseConfig(chatbot.config);
       }
 
       // Get subscription
@@ -473,7 +640,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field
     if (data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     // Get subscription for this chatbot's client
@@ -491,7 +658,7 @@ export class SupabaseStorage implements IStorage {
 
   async createChatbot(insertChatbot: InsertChatbot & { widgetUrl: string }): Promise<Chatbot> {
     // Ensure config is properly formatted
-    const config = this.parseConfig(insertChatbot.config || {});
+    const config = parseConfig(insertChatbot.config || {});
 
     const { data, error } = await supabaseAdmin
       .from('chatbots')
@@ -513,7 +680,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field in the response
     if (data && data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     return data as Chatbot;
@@ -531,7 +698,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field in the response
     if (data && data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     return data as Chatbot;
@@ -539,7 +706,7 @@ export class SupabaseStorage implements IStorage {
 
   async updateChatbotConfig(id: string, config: any): Promise<Chatbot> {
     // Ensure config is properly formatted
-    const parsedConfig = this.parseConfig(config);
+    const parsedConfig = parseConfig(config);
 
     const { data, error } = await supabaseAdmin
       .from('chatbots')
@@ -552,7 +719,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field in the response
     if (data && data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     return data as Chatbot;
@@ -570,7 +737,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field in the response
     if (data && data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     return data as Chatbot;
@@ -592,7 +759,7 @@ export class SupabaseStorage implements IStorage {
 
     // Parse config field in the response
     if (data && data.config) {
-      data.config = this.parseConfig(data.config);
+      data.config = parseConfig(data.config);
     }
 
     return data as Chatbot;
@@ -638,7 +805,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   // Knowledge Base management
-  async createKBDocument(document: InsertKBDocument & { id: string }): Promise<KBDocument> {
+  async createKBDocument(document: InsertKBDocument & Partial<KBDocument> & { id: string }): Promise<KBDocument> {
     const { data, error } = await supabaseAdmin
       .from('kb_documents')
       .insert({
@@ -651,7 +818,9 @@ export class SupabaseStorage implements IStorage {
         status: document.status,
         checksum: document.checksum,
         version: 1,
-        error_message: null
+        error_message: null,
+        source_id: document.sourceId ?? null,
+        source_url: document.sourceUrl ?? null
       })
       .select()
       .single();
@@ -669,16 +838,7 @@ export class SupabaseStorage implements IStorage {
 
     if (error || !data) return undefined;
 
-    // Map snake_case to camelCase
-    return {
-      ...data,
-      chatbotId: data.chatbot_id,
-      contentType: data.content_type,
-      storagePath: data.storage_path,
-      errorMessage: data.error_message,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    } as KBDocument;
+    return mapKBDocument(data);
   }
 
   async getKBDocuments(chatbotId: string): Promise<KBDocument[]> {
@@ -690,16 +850,7 @@ export class SupabaseStorage implements IStorage {
 
     if (error) throw new Error(`Failed to fetch KB documents: ${error.message}`);
 
-    // Map snake_case to camelCase for all documents
-    return (data || []).map(doc => ({
-      ...doc,
-      chatbotId: doc.chatbot_id,
-      contentType: doc.content_type,
-      storagePath: doc.storage_path,
-      errorMessage: doc.error_message,
-      createdAt: doc.created_at,
-      updatedAt: doc.updated_at,
-    })) as KBDocument[];
+    return (data || []).map(doc => mapKBDocument(doc));
   }
 
   async getDocumentByChecksum(chatbotId: string, checksum: string): Promise<KBDocument | undefined> {
@@ -712,16 +863,7 @@ export class SupabaseStorage implements IStorage {
 
     if (error || !data) return undefined;
 
-    // Map snake_case to camelCase
-    return {
-      ...data,
-      chatbotId: data.chatbot_id,
-      contentType: data.content_type,
-      storagePath: data.storage_path,
-      errorMessage: data.error_message,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    } as KBDocument;
+    return mapKBDocument(data);
   }
 
   async updateKBDocumentStatus(id: string, status: string, errorMessage?: string): Promise<KBDocument> {
@@ -764,15 +906,39 @@ export class SupabaseStorage implements IStorage {
     }
   }
 
+  async updateKBDocumentContent(
+    id: string,
+    content: { filename: string; size: number; checksum: string; version: number }
+  ): Promise<KBDocument> {
+    const { data, error } = await supabaseAdmin
+      .from('kb_documents')
+      .update({
+        filename: content.filename,
+        size: content.size,
+        checksum: content.checksum,
+        version: content.version,
+        status: 'processing',
+        error_message: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update KB document content: ${error.message}`);
+    return data as KBDocument;
+  }
+
   async deleteKBDocument(id: string): Promise<void> {
     // First get the document to find its storage path
     const { data: document } = await supabase
       .from('kb_documents')
-      .select('storage_path')
+      .select('storage_path, source_id')
       .eq('id', id)
       .single();
 
-    if (document) {
+    // Crawled pages are not in storage; their storage_path is the page URL
+    if (document && !document.source_id) {
       // Delete from Supabase Storage
       await supabaseAdmin.storage
         .from('knowledge-base-docs')
@@ -789,7 +955,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   // Knowledge Base chunks
-  async createKBChunk(chunk: InsertKBChunk & { id: string }): Promise<KBChunk> {
+  async createKBChunk(chunk: InsertKBChunk & Partial<KBChunk> & { id: string }): Promise<KBChunk> {
     const { data, error } = await supabaseAdmin
       .from('kb_chunks')
       .insert({
@@ -820,12 +986,7 @@ export class SupabaseStorage implements IStorage {
     return data as KBChunk[];
   }
 
-  async searchKBChunks(chatbotId: string, queryEmbedding: number[], limit: number, queryText?: string): Promise<Array<{
-    text: string;
-    similarity: number;
-    filename: string;
-    metadata: any;
-  }>> {
+  async searchKBChunks(chatbotId: string, queryEmbedding: number[], limit: number, queryText?: string): Promise<KBSearchResult[]> {
     try {
       // Use hybrid search if query text is provided, otherwise fallback to vector search
       if (queryText) {
@@ -842,7 +1003,7 @@ export class SupabaseStorage implements IStorage {
           console.error('Error in hybrid search:', error);
           // Fallback to vector search on error
         } else {
-          return data || [];
+          return (data || []).map(row => mapKBSearchResult(row));
         }
       }
 
@@ -859,13 +1020,31 @@ export class SupabaseStorage implements IStorage {
         return [];
       }
 
-      return data || [];
+      return (data || []).map(row => mapKBSearchResult(row));
     } catch (error) {
       console.error('Error in searchKBChunks:', error);
       return [];
     }
   }
 
+  async searchKBChunksScored(
+    chatbotId: string,
+    queryEmbedding: number[],
+    queryText: string,
+    options: { limit: number; threshold: number }
+  ): Promise<KBScoredSearchResult[]> {
+    const { data, error } = await supabase.rpc('hybrid_match_documents_scored', {
+      query_embedding: queryEmbedding,
+      query_text: queryText,
+      match_threshold: options.threshold,
+      match_count: options.limit,
+      p_chatbot_id: chatbotId
+    });
+
+    if (error) throw new Error(`Failed to search knowledge base: ${error.message}`);
+    return (data || []).map(row => mapKBScoredSearchResult(row));
+  }
+
   async deleteKBChunks(documentId: string): Promise<void> {
     const { error } = await supabaseAdmin
       .from('kb_chunks')
@@ -875,21 +1054,187 @@ export class SupabaseStorage implements IStorage {
     if (error) throw new Error(`Failed to delete KB chunks: ${error.message}`);
   }
 
+  // Knowledge Base sources
+  async createKBSource(source: CreateKBSource & { chatbotId: string }): Promise<KBSource> {
+    const { data, error } = await supabaseAdmin
+      .from('kb_sources')
+      .insert({
+        id: nanoid(),
+        chatbot_id: source.chatbotId,
+        type: 'website',
+        url: source.url,
+        include_patterns: source.includePatterns || [],
+        exclude_patterns: source.excludePatterns || [],
+        max_pages: source.maxPages,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create KB source: ${error.message}`);
+    return mapKBSource(data);
+  }
+
+  async getKBSource(id: string): Promise<KBSource | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('kb_sources')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get KB source: ${error.message}`);
+    return data ? mapKBSource(data) : undefined;
+  }
+
+  async getKBSources(chatbotId?: string): Promise<KBSource[]> {
+    let query = supabaseAdmin
+      .from('kb_sources')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (chatbotId) {
+      query = query.eq('chatbot_id', chatbotId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to get KB sources: ${error.message}`);
+    return (data || []).map(row => mapKBSource(row));
+  }
+
+  async updateKBSource(
+    id: string,
+    updates: Partial<Pick<KBSource, 'status' | 'lastError' | 'pagesCrawled' | 'lastCrawledAt'>>
+  ): Promise<KBSource> {
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.lastError !== undefined) updateData.last_error = updates.lastError;
+    if (updates.pagesCrawled !== undefined) updateData.pages_crawled = updates.pagesCrawled;
+    if (updates.lastCrawledAt !== undefined) updateData.last_crawled_at = updates.lastCrawledAt;
+
+    const { data, error } = await supabaseAdmin
+      .from('kb_sources')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update KB source: ${error.message}`);
+    return mapKBSource(data);
+  }
+
+  async deleteKBSource(id: string): Promise<void> {
+    // Cascades to the crawled page documents and their chunks
+    const { error } = await supabaseAdmin
+      .from('kb_sources')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete KB source: ${error.message}`);
+  }
+
+  async getKBSourceDocuments(sourceId: string): Promise<KBDocument[]> {
+    const { data, error } = await supabaseAdmin
+      .from('kb_documents')
+      .select('*')
+      .eq('source_id', sourceId);
+
+    if (error) throw new Error(`Failed to fetch KB source documents: ${error.message}`);
+
+    return (data || []).map(doc => mapKBDocument(doc));
+  }
+  // Unanswered questions
+  async recordUnansweredQuestion(
+    miss: { chatbotId: string; question: string; embedding: number[] | null; reason: UnansweredQuestionReason; confidence?: number | null },
+    matchThreshold: number
+  ): Promise<string> {
+    const { data, error } = await supabaseAdmin.rpc('record_unanswered_question', {
+      p_id: nanoid(),
+      p_chatbot_id: miss.chatbotId,
+      p_question: miss.question,
+      p_embedding: miss.embedding,
+      p_reason: miss.reason,
+      p_confidence: miss.confidence ?? null,
+      match_threshold: matchThreshold,
+    });
+
+    if (error) throw new Error(`Failed to record unanswered question: ${error.message}`);
+    return data as string;
+  }
+
+  async getUnansweredQuestions(chatbotId: string, status = 'open'): Promise<KBUnansweredQuestion[]> {
+    const { data, error } = await supabaseAdmin
+      .from('kb_unanswered_questions')
+      .select(UNANSWERED_QUESTION_COLUMNS)
+      .eq('chatbot_id', chatbotId)
+      .eq('status', status)
+      .order('occurrences', { ascending: false })
+      .order('last_asked_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to get unanswered questions: ${error.message}`);
+    return (data || []).map(row => mapUnansweredQuestion(row));
+  }
+
+  async getUnansweredQuestion(id: string): Promise<KBUnansweredQuestion | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('kb_unanswered_questions')
+      .select(UNANSWERED_QUESTION_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get unanswered question: ${error.message}`);
+    return data ? mapUnansweredQuestion(data) : undefined;
+  }
+
+  async updateUnansweredQuestion(
+    id: string,
+    updates: Partial<Pick<KBUnansweredQuestion, 'status' | 'answer' | 'answeredVia' | 'kbDocumentId' | 'answeredAt'>>
+  ): Promise<KBUnansweredQuestion> {
+    const updateData: any = {};
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.answer !== undefined) updateData.answer = updates.answer;
+    if (updates.answeredVia !== undefined) updateData.answered_via = updates.answeredVia;
+    if (updates.kbDocumentId !== undefined) updateData.kb_document_id = updates.kbDocumentId;
+    if (updates.answeredAt !== undefined) updateData.answered_at = updates.answeredAt;
+
+    const { data, error } = await supabaseAdmin
+      .from('kb_unanswered_questions')
+      .update(updateData)
+      .eq('id', id)
+      .select(UNANSWERED_QUESTION_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to update unanswered question: ${error.message}`);
+    return mapUnansweredQuestion(data);
+  }
+
+
   // Implement other required methods from IStorage interface
   // For brevity, we'll implement the most critical ones and add stubs for the rest
 
   // Subscription management
   async getSubscription(id: string): Promise<Subscription | undefined> {
-    const { data, error } = await supabase
+    const { data, error } = await supabaseAdmin
       .from('subscriptions')
       .select('*')
       .eq('id', id)
       .single();
 
     if (error || !data) return undefined;
-    return data as Subscription;
+    return mapSubscription(data);
   }
 
+  async getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('subscriptions')
+      .select('*')
+      .eq('stripe_subscription_id', stripeSubscriptionId)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return mapSubscription(data);
+  }
+
+
   async getSubscriptionsWithClients(statusFilter?: string): Promise<SubscriptionWithClient[]> {
     let query = supabase
       .from('subscriptions')
@@ -934,6 +1279,127 @@ export class SupabaseStorage implements IStorage {
     if (error) throw new Error(`Failed to create subscription: ${error.message}`);
     return data as Subscription;
   }
+
+  async updateSubscription(id: string, updates: Partial<Subscription>): Promise<Subscription> {
+    const dbUpdates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (updates.type !== undefined) dbUpdates.type = updates.type;
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.trialStart !== undefined) dbUpdates.trial_start = updates.trialStart;
+    if (updates.trialEnd !== undefined) dbUpdates.trial_end = updates.trialEnd;
+    if (updates.paidUntil !== undefined) dbUpdates.paid_until = updates.paidUntil;
+    if (updates.monthlyAmount !== undefined) dbUpdates.monthly_amount = updates.monthlyAmount;
+    if (updates.stripeCustomerId !== undefined) dbUpdates.stripe_customer_id = updates.stripeCustomerId;
+    if (updates.stripeSubscriptionId !== undefined) dbUpdates.stripe_subscription_id = updates.stripeSubscriptionId;
+
+    const { data, error } = await supabaseAdmin
+      .from('subscriptions')
+      .update(dbUpdates as any)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update subscription: ${error.message}`);
+    return mapSubscription(data);
+  }
+
+  async convertTrialToPaid(id: string, data: { type: string; monthlyAmount: number }): Promise<Subscription> {
+    const paidUntil = new Date();
+    paidUntil.setMonth(paidUntil.getMonth() + 1);
+
+    return this.updateSubscription(id, {
+      type: data.type,
+      status: 'active',
+      monthlyAmount: data.monthlyAmount,
+      paidUntil,
+    });
+  }
+
+  async extendTrial(id: string, days: number): Promise<Subscription> {
+    const subscription = await this.getSubscription(id);
+    if (!subscription) throw new Error('Subscription not found');
+
+    // Extend from the current trial end, or from now once the trial has ended
+    const currentEnd = subscription.trialEnd ? new Date(subscription.trialEnd).getTime() : 0;
+    const trialEnd = new Date(Math.max(currentEnd, Date.now()));
+    trialEnd.setDate(trialEnd.getDate() + days);
+
+    return this.updateSubscription(id, { status: 'trial', trialEnd });
+  }
+
+  async suspendSubscription(id: string): Promise<Subscription> {
+    return this.updateSubscription(id, { status: 'cancelled' });
+  }
+
+  async reactivateSubscription(id: string): Promise<Subscription> {
+    return this.updateSubscription(id, { status: 'active' });
+  }
+
+  async getSubscriptionByClientId(clientId: string): Promise<Subscription | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('subscriptions')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get subscription: ${error.message}`);
+    return data ? mapSubscription(data) : undefined;
+  }
+
+  async getSubscriptionsDueForExpiry(trialEndBefore: Date, paidUntilBefore: Date): Promise<Subscription[]> {
+    const [trials, paid] = await Promise.all([
+      supabaseAdmin
+        .from('subscriptions')
+        .select('*')
+        .eq('status', 'trial')
+        .lt('trial_end', trialEndBefore.toISOString()),
+      supabaseAdmin
+        .from('subscriptions')
+        .select('*')
+        .in('status', ['active', 'payment_due'])
+        .lt('paid_until', paidUntilBefore.toISOString()),
+    ]);
+
+    const error = trials.error || paid.error;
+    if (error) throw new Error(`Failed to get subscriptions due for expiry: ${error.message}`);
+    return [...(trials.data || []), ...(paid.data || [])].map(mapSubscription);
+  }
+
+  // Plan usage
+  async countChatbotsByClientId(clientId: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('chatbots')
+      .select('id', { count: 'exact', head: true })
+      .eq('client_id', clientId);
+
+    if (error) throw new Error(`Failed to count chatbots: ${error.message}`);
+    return count || 0;
+  }
+
+  async countVisitorMessagesByClientId(clientId: string, since: Date): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('messages')
+      .select('id, conversation:conversations!inner(client_id)', { count: 'exact', head: true })
+      .eq('conversation.client_id', clientId)
+      .eq('role', 'user')
+      .gte('created_at', since.toISOString());
+
+    if (error) throw new Error(`Failed to count messages: ${error.message}`);
+    return count || 0;
+  }
+
+  async countUploadedKBDocumentsByClientId(clientId: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('kb_documents')
+      .select('id, chatbot:chatbots!inner(client_id)', { count: 'exact', head: true })
+      .eq('chatbot.client_id', clientId)
+      .is('source_id', null);
+
+    if (error) throw new Error(`Failed to count documents: ${error.message}`);
+    return count || 0;
+  }
+
   // Payment management
   async getPaymentLog(id: string): Promise<PaymentLog | undefined> {
     const { data, error } = await supabaseAdmin
@@ -943,9 +1409,21 @@ export class SupabaseStorage implements IStorage {
       .single();
 
     if (error || !data) return undefined;
-    return data as PaymentLog;
+    return mapPaymentLog(data);
   }
 
+  async getPaymentLogByStripeInvoiceId(stripeInvoiceId: string): Promise<PaymentLog | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('payment_logs')
+      .select('*')
+      .eq('stripe_invoice_id', stripeInvoiceId)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return mapPaymentLog(data);
+  }
+
+
   async getPaymentsWithClients(statusFilter?: string, dateFilter?: string): Promise<any[]> {
     let query = supabaseAdmin
       .from('payment_logs')
@@ -975,34 +1453,59 @@ export class SupabaseStorage implements IStorage {
   }
 
   async createPaymentLog(payment: InsertPaymentLog): Promise<PaymentLog> {
+    const log = payment as Partial<PaymentLog>;
     const { data, error } = await supabaseAdmin
       .from('payment_logs')
       .insert({
         id: nanoid(),
-        subscription_id: payment.subscriptionId,
-        amount: payment.amount,
-        status: payment.status || 'pending',
-        payment_method: payment.paymentMethod || null,
-        transaction_id: payment.transactionId || null,
-        notes: payment.notes || null
+        client_id: log.clientId!,
+        subscription_id: log.subscriptionId || null,
+        amount: log.amount || 0,
+        currency: log.currency || 'usd',
+        status: log.status || 'pending',
+        failure_reason: log.failureReason || null,
+        stripe_invoice_id: log.stripeInvoiceId || null
       })
       .select()
       .single();
 
     if (error) throw new Error(`Failed to create payment log: ${error.message}`);
-    return data as PaymentLog;
+    return mapPaymentLog(data);
   }
 
-  async updatePaymentStatus(id: string, status: string): Promise<PaymentLog> {
+  async updatePaymentStatus(id: string, status: string, failureReason?: string | null): Promise<PaymentLog> {
+    const updates: Record<string, unknown> = { status };
+    if (failureReason !== undefined) updates.failure_reason = failureReason;
+
     const { data, error } = await supabaseAdmin
       .from('payment_logs')
-      .update({ status })
+      .update(updates as any)
       .eq('id', id)
       .select()
       .single();
 
     if (error) throw new Error(`Failed to update payment status: ${error.message}`);
-    return data as PaymentLog;
+    return mapPaymentLog(data);
+  }
+
+  // Stripe webhook idempotency
+  async isStripeEventProcessed(eventId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('stripe_events')
+      .select('id')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to check Stripe event: ${error.message}`);
+    return !!data;
+  }
+
+  async markStripeEventProcessed(eventId: string, type: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('stripe_events')
+      .upsert({ id: eventId, type } as any, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw new Error(`Failed to record Stripe event: ${error.message}`);
   }
 
   // Analytics and dashboard
@@ -1051,8 +1554,64 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getRecentActivities(): Promise<{ id: string; message: string; timestamp: string; type: "success" | "info" | "warning" | "error"; }[]> {
-    // Return empty array for now - this would typically aggregate from various tables
-    return [];
+    const limit = 10;
+
+    const [clientsResult, paymentsResult, leadsResult, appointmentsResult] = await Promise.all([
+      supabaseAdmin
+        .from('clients')
+        .select('id, name, created_at')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabaseAdmin
+        .from('payment_logs')
+        .select('id, amount, currency, status, created_at, client:clients(name)')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabaseAdmin
+        .from('leads')
+        .select('id, name, email, captured_at, chatbot:chatbots(name)')
+        .order('captured_at', { ascending: false })
+        .limit(limit),
+      supabaseAdmin
+        .from('appointments')
+        .select('id, title, created_at, chatbot:chatbots(name)')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+    ]);
+
+    const failed = [clientsResult, paymentsResult, leadsResult, appointmentsResult].find(result => result.error);
+    if (failed?.error) throw new Error(`Failed to get recent activities: ${failed.error.message}`);
+
+    const activities: { id: string; message: string; timestamp: string; type: "success" | "info" | "warning" | "error"; }[] = [
+      ...(clientsResult.data || []).map((client: any) => ({
+        id: `client-${client.id}`,
+        message: `New client ${client.name} onboarded`,
+        timestamp: client.created_at,
+        type: 'info' as const,
+      })),
+      ...(paymentsResult.data || []).map((payment: any) => ({
+        id: `payment-${payment.id}`,
+        message: `Payment of ${payment.amount} ${payment.currency.toUpperCase()} ${payment.status} for ${payment.client?.name || 'unknown client'}`,
+        timestamp: payment.created_at,
+        type: payment.status === 'failed' ? 'error' as const : payment.status === 'completed' ? 'success' as const : 'info' as const,
+      })),
+      ...(leadsResult.data || []).map((lead: any) => ({
+        id: `lead-${lead.id}`,
+        message: `Lead ${lead.name || lead.email || 'captured'} via ${lead.chatbot?.name || 'chatbot'}`,
+        timestamp: lead.captured_at,
+        type: 'success' as const,
+      })),
+      ...(appointmentsResult.data || []).map((appointment: any) => ({
+        id: `appointment-${appointment.id}`,
+        message: `Appointment "${appointment.title}" booked via ${appointment.chatbot?.name || 'chatbot'}`,
+        timestamp: appointment.created_at,
+        type: 'success' as const,
+      })),
+    ];
+
+    return activities
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
   }
 
   async getSubscriptionStatus(): Promise<{ activePaid: number; freeTrial: number; paymentDue: number; expired: number; }> {
@@ -1202,6 +1761,55 @@ export class SupabaseStorage implements IStorage {
     }
   }
 
+  // Chatbot analytics
+  async recordAnalyticsEvent(event: { chatbotId: string; conversationId?: string | null; type: AnalyticsEventType; value?: number | null }): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('analytics_events')
+      .insert({
+        id: nanoid(),
+        chatbot_id: event.chatbotId,
+        conversation_id: event.conversationId || null,
+        type: event.type,
+        value: event.value ?? null,
+      });
+
+    if (error) throw new Error(`Failed to record analytics event: ${error.message}`);
+  }
+
+  async rollupChatbotAnalytics(chatbotId: string, from: string, to: string): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('rollup_chatbot_analytics', {
+      p_chatbot_id: chatbotId,
+      p_from: from,
+      p_to: to,
+    });
+
+    if (error) throw new Error(`Failed to roll up chatbot analytics: ${error.message}`);
+  }
+
+  async getChatbotAnalyticsDaily(chatbotId: string, from: string, to: string): Promise<ChatbotAnalyticsDaily[]> {
+    const { data, error } = await supabaseAdmin
+      .from('chatbot_analytics_daily')
+      .select('*')
+      .eq('chatbot_id', chatbotId)
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: true });
+
+    if (error) throw new Error(`Failed to get chatbot analytics: ${error.message}`);
+    return (data || []).map(row => mapChatbotAnalyticsDaily(row));
+  }
+
+  async getVariantOutcomes(chatbotId: string, from: string, to: string): Promise<VariantOutcomeRow[]> {
+    const { data, error } = await supabaseAdmin.rpc('chatbot_variant_outcomes', {
+      p_chatbot_id: chatbotId,
+      p_from: from,
+      p_to: to,
+    });
+
+    if (error) throw new Error(`Failed to get variant outcomes: ${error.message}`);
+    return (data || []).map(mapVariantOutcomeRow);
+  }
+
   // Logo management
   async uploadChatbotLogo(chatbotId: string, file: Buffer, mimeType: string): Promise<string> {
     const filename = `${chatbotId}-logo-${Date.now()}`;
@@ -1273,21 +1881,20 @@ export class SupabaseStorage implements IStorage {
       .from('appointments')
       .insert({
         id: nanoid(),
+        client_id: (appointment as any).clientId,
         chatbot_id: (appointment as any).chatbotId,
-        customer_name: (appointment as any).customerName,
-        customer_email: (appointment as any).customerEmail,
-        customer_phone: (appointment as any).customerPhone || null,
-        appointment_date: (appointment as any).appointmentDate,
-        appointment_time: (appointment as any).appointmentTime,
-        service_type: (appointment as any).serviceType || null,
-        notes: (appointment as any).notes || null,
-        status: (appointment as any).status || 'pending'
+        title: (appointment as any).title,
+        description: (appointment as any).description || null,
+        start_time: new Date((appointment as any).startTime).toISOString(),
+        end_time: new Date((appointment as any).endTime).toISOString(),
+        status: (appointment as any).status || 'scheduled',
+        external_id: (appointment as any).externalId || null,
       } as any)
       .select()
       .single();
 
     if (error) throw new Error(`Failed to create appointment: ${error.message}`);
-    return data as Appointment;
+    return mapAppointment(data);
   }
 
   async getAppointmentsByClientId(clientId: string): Promise<AppointmentWithClient[]> {
@@ -1305,39 +1912,109 @@ export class SupabaseStorage implements IStorage {
         )
       `)
       .eq('client_id', clientId)
-      .order('appointment_date', { ascending: false });
+      .order('start_time', { ascending: false });
 
     if (error) throw new Error(`Failed to get appointments: ${error.message}`);
-    return (data || []) as AppointmentWithClient[];
+    return (data || []).map((row: any) => ({ ...mapAppointment(row), chatbot: row.chatbot, client: row.client })) as AppointmentWithClient[];
   }
 
   async updateAppointment(id: string, appointmentData: Partial<InsertAppointment>, clientId: string): Promise<Appointment> {
     const updateData: any = {};
-    if ((appointmentData as any).appointmentDate !== undefined) updateData.appointment_date = (appointmentData as any).appointmentDate;
-    if ((appointmentData as any).appointmentTime !== undefined) updateData.appointment_time = (appointmentData as any).appointmentTime;
+    if ((appointmentData as any).title !== undefined) updateData.title = (appointmentData as any).title;
+    if ((appointmentData as any).description !== undefined) updateData.description = (appointmentData as any).description;
+    if ((appointmentData as any).startTime !== undefined) updateData.start_time = new Date((appointmentData as any).startTime).toISOString();
+    if ((appointmentData as any).endTime !== undefined) updateData.end_time = new Date((appointmentData as any).endTime).toISOString();
     if ((appointmentData as any).status !== undefined) updateData.status = (appointmentData as any).status;
-    if ((appointmentData as any).notes !== undefined) updateData.notes = (appointmentData as any).notes;
+    if ((appointmentData as any).externalId !== undefined) updateData.external_id = (appointmentData as any).externalId;
 
     const { data, error } = await supabaseAdmin
       .from('appointments')
       .update(updateData as any)
       .eq('id', id)
+      .eq('client_id', clientId)
       .select()
       .single();
 
     if (error) throw new Error(`Failed to update appointment: ${error.message}`);
-    return data as Appointment;
+    return mapAppointment(data);
   }
 
   async deleteAppointment(id: string, clientId: string): Promise<void> {
     const { error } = await supabaseAdmin
       .from('appointments')
       .delete()
-      .eq('id', id);
+      .eq('id', id)
+      .eq('client_id', clientId);
 
     if (error) throw new Error(`Failed to delete appointment: ${error.message}`);
   }
 
+  async getAppointmentsInRange(chatbotId: string, start: Date, end: Date): Promise<Appointment[]> {
+    const { data, error } = await supabaseAdmin
+      .from('appointments')
+      .select('*')
+      .eq('chatbot_id', chatbotId)
+      .neq('status', 'cancelled')
+      .lt('start_time', end.toISOString())
+      .gt('end_time', start.toISOString())
+      .order('start_time', { ascending: true });
+
+    if (error) throw new Error(`Failed to get appointments: ${error.message}`);
+    return (data || []).map(row => mapAppointment(row));
+  }
+
+
+  // Calendar integrations
+  async getCalendarIntegration(clientId: string, provider: string): Promise<CalendarIntegration | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('calendar_integrations')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('provider', provider)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get calendar integration: ${error.message}`);
+    return data ? mapCalendarIntegration(data) : undefined;
+  }
+
+  async saveCalendarIntegration(integration: Pick<CalendarIntegration, 'clientId' | 'provider' | 'accessTokenEncrypted' | 'refreshTokenEncrypted' | 'tokenExpiresAt' | 'scope'>): Promise<CalendarIntegration> {
+    const existing = await this.getCalendarIntegration(integration.clientId, integration.provider);
+
+    const { data, error } = await supabaseAdmin
+      .from('calendar_integrations')
+      .upsert({
+        id: existing?.id || nanoid(),
+        client_id: integration.clientId,
+        provider: integration.provider,
+        access_token_encrypted: integration.accessTokenEncrypted,
+        // Google only returns a refresh token on first consent; keep the stored one otherwise
+        refresh_token_encrypted: integration.refreshTokenEncrypted || existing?.refreshTokenEncrypted || null,
+        token_expires_at: integration.tokenExpiresAt ? new Date(integration.tokenExpiresAt).toISOString() : null,
+        scope: integration.scope || existing?.scope || null,
+        updated_at: new Date().toISOString(),
+      } as any, { onConflict: 'client_id,provider' })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save calendar integration: ${error.message}`);
+    return mapCalendarIntegration(data);
+  }
+
+  async deleteCalendarIntegration(clientId: string, provider: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('calendar_integrations')
+      .delete()
+      .eq('client_id', clientId)
+      .eq('provider', provider);
+
+    if (error) throw new Error(`Failed to delete calendar integration: ${error.message}`);
+  }
+
+
+
+
+
+
   // Lead management
   async createLead(lead: InsertLead): Promise<Lead> {
     const { data, error } = await supabaseAdmin
@@ -1414,7 +2091,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async updateLeadStatus(leadId: string, status: string, notes?: string): Promise<Lead> {
-    const updateData: any = { status };
+    const updateData: any = { status, updated_at: new Date().toISOString() };
     if (notes !== undefined) {
       updateData.notes = notes;
     }
@@ -1427,7 +2104,7 @@ export class SupabaseStorage implements IStorage {
       .single();
 
     if (error) throw new Error(`Failed to update lead status: ${error.message}`);
-    return data as Lead;
+    return mapLead(data);
   }
 
   async deleteLead(id: string, clientId: string): Promise<void> {
@@ -1481,7 +2158,7 @@ export class SupabaseStorage implements IStorage {
         .single();
 
       if (error) throw new Error(`Failed to update conversation: ${error.message}`);
-      return data as Conversation;
+      return mapConversation(data);
     } else {
       // Create new conversation - need to get client_id from chatbot
       const chatbot = await this.getChatbot((conversationData as any).chatbotId);
@@ -1496,13 +2173,14 @@ export class SupabaseStorage implements IStorage {
           client_id: chatbot.clientId || (chatbot as any).client_id,
           chatbot_id: (conversationData as any).chatbotId,
           session_id: (conversationData as any).sessionId,
+          variant: (conversationData as any).variant ?? null,
           last_message_at: new Date().toISOString()
         } as any)
         .select()
         .single();
 
       if (error) throw new Error(`Failed to create conversation: ${error.message}`);
-      return data as Conversation;
+      return mapConversation(data);
     }
   }
 
@@ -1512,6 +2190,8 @@ export class SupabaseStorage implements IStorage {
       .select(`
         *,
         chatbot:chatbots!inner(
+          id,
+          name,
           client_id
         )
       `)
@@ -1519,7 +2199,7 @@ export class SupabaseStorage implements IStorage {
       .order('last_message_at', { ascending: false });
 
     if (error) throw new Error(`Failed to get conversations: ${error.message}`);
-    return (data || []) as Conversation[];
+    return (data || []).map(row => mapConversation(row));
   }
 
   async getConversationById(id: string, clientId: string): Promise<ConversationWithMessages | undefined> {
@@ -1527,31 +2207,98 @@ export class SupabaseStorage implements IStorage {
       .from('conversations')
       .select(`
         *,
+        chatbot:chatbots(id, name),
         messages(*)
       `)
       .eq('id', id)
+      .eq('client_id', clientId)
       .single();
 
     if (error || !data) return undefined;
-    return data as ConversationWithMessages;
+
+    const row = data as any;
+    const messages = (row.messages || [])
+      .map((m: any) => ({ ...m, conversationId: m.conversation_id, createdAt: m.created_at }))
+      .sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    return { ...mapConversation(row), messages } as ConversationWithMessages;
   }
 
-  // Message operations
-  async createMessage(message: InsertMessage): Promise<Message> {
+  async getConversation(id: string): Promise<Conversation | undefined> {
     const { data, error } = await supabaseAdmin
-      .from('messages')
-      .insert({
-        id: nanoid(),
-        conversation_id: (message as any).conversationId,
-        role: (message as any).role,
-        content: (message as any).content,
-        metadata: (message as any).metadata || null
-      } as any)
-      .select()
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
       .single();
 
-    if (error) throw new Error(`Failed to create message: ${error.message}`);
-    return data as Message;
+    if (error || !data) return undefined;
+    return mapConversation(data);
+  }
+
+  async getConversationBySession(chatbotId: string, sessionId: string): Promise<Conversation | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('conversations')
+      .select('*')
+      .eq('chatbot_id', chatbotId)
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return mapConversation(data);
+  }
+
+  async updateConversationStatus(
+    id: string,
+    updates: Partial<Pick<Conversation, 'status' | 'assignedAgent' | 'handoffReason' | 'handoffRequestedAt'>>
+  ): Promise<Conversation> {
+    const dbUpdates: Record<string, unknown> = {};
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.assignedAgent !== undefined) dbUpdates.assigned_agent = updates.assignedAgent;
+    if (updates.handoffReason !== undefined) dbUpdates.handoff_reason = updates.handoffReason;
+    if (updates.handoffRequestedAt !== undefined) {
+      dbUpdates.handoff_requested_at = updates.handoffRequestedAt ? updates.handoffRequestedAt.toISOString() : null;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('conversations')
+      .update(dbUpdates as any)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update conversation status: ${error.message}`);
+    return mapConversation(data);
+  }
+
+
+  async updateConversationSummary(id: string, summary: string, summarizedMessageCount: number): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('conversations')
+      .update({
+        summary,
+        summarized_message_count: summarizedMessageCount
+      } as any)
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update conversation summary: ${error.message}`);
+  }
+
+  // Message operations
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const { data, error } = await supabaseAdmin
+      .from('messages')
+      .insert({
+        id: nanoid(),
+        conversation_id: (message as any).conversationId,
+        role: (message as any).role,
+        content: (message as any).content,
+        metadata: (message as any).metadata || null
+      } as any)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create message: ${error.message}`);
+    return data as Message;
   }
 
   async getMessagesByConversationId(conversationId: string, clientId: string): Promise<Message[]> {
@@ -1565,6 +2312,876 @@ export class SupabaseStorage implements IStorage {
     return (data || []) as Message[];
   }
 
+  // Visitor file attachments
+  async createConversationAttachment(attachment: Omit<ConversationAttachment, 'createdAt'>): Promise<ConversationAttachment> {
+    const { data, error } = await supabaseAdmin
+      .from('conversation_attachments')
+      .insert({
+        id: attachment.id,
+        conversation_id: attachment.conversationId,
+        message_id: attachment.messageId,
+        chatbot_id: attachment.chatbotId,
+        filename: attachment.filename,
+        content_type: attachment.contentType,
+        size: attachment.size,
+        storage_path: attachment.storagePath,
+        extracted_text: attachment.extractedText,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create attachment: ${error.message}`);
+    return mapConversationAttachment(data);
+  }
+
+  async getConversationAttachment(id: string): Promise<ConversationAttachment | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('conversation_attachments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get attachment: ${error.message}`);
+    return data ? mapConversationAttachment(data) : undefined;
+  }
+
+  async getConversationAttachments(conversationIds: string[]): Promise<ConversationAttachment[]> {
+    if (conversationIds.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+      .from('conversation_attachments')
+      .select('*')
+      .in('conversation_id', conversationIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get attachments: ${error.message}`);
+    return (data || []).map(mapConversationAttachment);
+  }
+
+  // Data retention and data-subject requests
+  async getInactiveConversations(chatbotId: string, lastMessageBefore: Date): Promise<Conversation[]> {
+    const { data, error } = await supabaseAdmin
+      .from('conversations')
+      .select('*')
+      .eq('chatbot_id', chatbotId)
+      .lt('last_message_at', lastMessageBefore.toISOString())
+      .order('started_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get inactive conversations: ${error.message}`);
+    return (data || []).map(mapConversation);
+  }
+
+  async getVisitorConversations(
+    chatbotId: string,
+    filter: { sessionId?: string; conversationIds?: string[] }
+  ): Promise<(Conversation & { messages: Message[] })[]> {
+    if (!filter.sessionId && !filter.conversationIds?.length) return [];
+
+    let query = supabaseAdmin
+      .from('conversations')
+      .select('*, messages(*)')
+      .eq('chatbot_id', chatbotId);
+    query = filter.sessionId
+      ? query.eq('session_id', filter.sessionId)
+      : query.in('id', filter.conversationIds!);
+
+    const { data, error } = await query.order('started_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get visitor conversations: ${error.message}`);
+    return (data || []).map((row: any) => ({
+      ...mapConversation({ ...row, messages: undefined }),
+      messages: (row.messages || [])
+        .map(mapMessage)
+        .sort((a: Message, b: Message) => String(a.createdAt).localeCompare(String(b.createdAt)))
+    }));
+  }
+
+  async getVisitorLeads(chatbotId: string, filter: { email?: string; conversationIds?: string[] }): Promise<Lead[]> {
+    if (!filter.email && !filter.conversationIds?.length) return [];
+
+    let query = supabaseAdmin
+      .from('leads')
+      .select('*')
+      .eq('chatbot_id', chatbotId);
+    // Emails match case-insensitively; escape LIKE wildcards so only the exact address matches
+    query = filter.email
+      ? query.ilike('email', filter.email.replace(/[\\%_]/g, '\\$&'))
+      : query.in('conversation_id', filter.conversationIds!);
+
+    const { data, error } = await query.order('captured_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get visitor leads: ${error.message}`);
+    return (data || []).map(mapLead);
+  }
+
+  async deleteConversations(ids: string[]): Promise<{ conversations: number; messages: number }> {
+    if (ids.length === 0) return { conversations: 0, messages: 0 };
+
+    // Messages are removed by the cascading foreign key; count them first for the audit log
+    const { count: messages, error: countError } = await supabaseAdmin
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .in('conversation_id', ids);
+
+    if (countError) throw new Error(`Failed to count messages: ${countError.message}`);
+
+    const { count: conversations, error } = await supabaseAdmin
+      .from('conversations')
+      .delete({ count: 'exact' })
+      .in('id', ids);
+
+    if (error) throw new Error(`Failed to delete conversations: ${error.message}`);
+    return { conversations: conversations || 0, messages: messages || 0 };
+  }
+
+  async deleteLeads(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const { count, error } = await supabaseAdmin
+      .from('leads')
+      .delete({ count: 'exact' })
+      .in('id', ids);
+
+    if (error) throw new Error(`Failed to delete leads: ${error.message}`);
+    return count || 0;
+  }
+
+  async anonymizeLeads(chatbotId: string, capturedBefore: Date): Promise<number> {
+    const now = new Date().toISOString();
+    const { count, error } = await supabaseAdmin
+      .from('leads')
+      .update({
+        name: null,
+        email: null,
+        phone: null,
+        message: null,
+        notes: null,
+        anonymized_at: now,
+        updated_at: now
+      }, { count: 'exact' })
+      .eq('chatbot_id', chatbotId)
+      .lt('captured_at', capturedBefore.toISOString())
+      .is('anonymized_at', null);
+
+    if (error) throw new Error(`Failed to anonymize leads: ${error.message}`);
+    return count || 0;
+  }
+
+  async createPrivacyAuditLog(
+    entry: Pick<PrivacyAuditLog, 'action' | 'status' | 'performedBy'> & Partial<Pick<PrivacyAuditLog, 'chatbotId' | 'subjectType' | 'subject' | 'conversationsAffected' | 'messagesAffected' | 'leadsAffected' | 'details' | 'error'>>
+  ): Promise<PrivacyAuditLog> {
+    const { data, error } = await supabaseAdmin
+      .from('privacy_audit_logs')
+      .insert({
+        id: nanoid(),
+        chatbot_id: entry.chatbotId || null,
+        action: entry.action,
+        subject_type: entry.subjectType || null,
+        subject: entry.subject || null,
+        status: entry.status,
+        conversations_affected: entry.conversationsAffected || 0,
+        messages_affected: entry.messagesAffected || 0,
+        leads_affected: entry.leadsAffected || 0,
+        details: entry.details || {},
+        error: entry.error || null,
+        performed_by: entry.performedBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create privacy audit log: ${error.message}`);
+    return mapPrivacyAuditLog(data);
+  }
+
+  async getPrivacyAuditLogs(filters: { chatbotId?: string; action?: PrivacyAction; limit?: number } = {}): Promise<PrivacyAuditLog[]> {
+    let query = supabaseAdmin
+      .from('privacy_audit_logs')
+      .select('*');
+
+    if (filters.chatbotId) {
+      query = query.eq('chatbot_id', filters.chatbotId);
+    }
+    if (filters.action) {
+      query = query.eq('action', filters.action);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    if (error) throw new Error(`Failed to get privacy audit logs: ${error.message}`);
+    return (data || []).map(mapPrivacyAuditLog);
+  }
+
+  // Background jobs
+  async enqueueJob(
+    job: { type: string; payload: Record<string, any>; runAt?: Date; maxAttempts: number; dedupeKey?: string | null }
+  ): Promise<{ id: string; created: boolean }> {
+    const id = nanoid();
+    const { data, error } = await supabaseAdmin.rpc('enqueue_job', {
+      p_id: id,
+      p_type: job.type,
+      p_payload: job.payload,
+      p_run_at: job.runAt ? job.runAt.toISOString() : null,
+      p_max_attempts: job.maxAttempts,
+      p_dedupe_key: job.dedupeKey || null,
+    });
+
+    if (error) throw new Error(`Failed to enqueue job: ${error.message}`);
+    return { id: data as string, created: data === id };
+  }
+
+  async claimJobs(type: string, workerId: string, limit: number, leaseSeconds: number): Promise<Job[]> {
+    const { data, error } = await supabaseAdmin.rpc('claim_jobs', {
+      p_type: type,
+      p_worker: workerId,
+      p_limit: limit,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) throw new Error(`Failed to claim jobs: ${error.message}`);
+    return ((data as any[]) || []).map(mapJob);
+  }
+
+  async completeJob(id: string, workerId: string, result: Record<string, any> | null): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: 'completed',
+        result,
+        last_error: null,
+        locked_by: null,
+        locked_until: null,
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq('id', id)
+      .eq('locked_by', workerId);
+
+    if (error) throw new Error(`Failed to complete job: ${error.message}`);
+  }
+
+  async failJob(id: string, workerId: string, message: string, retryAt: Date | null): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: retryAt ? 'queued' : 'failed',
+        run_at: retryAt ? retryAt.toISOString() : undefined,
+        last_error: message,
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('locked_by', workerId);
+
+    if (error) throw new Error(`Failed to update failed job: ${error.message}`);
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get job: ${error.message}`);
+    return data ? mapJob(data) : undefined;
+  }
+
+  async getJobs(filters: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<Job[]> {
+    let query = supabaseAdmin
+      .from('jobs')
+      .select('*');
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.type) {
+      query = query.eq('type', filters.type);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    if (error) throw new Error(`Failed to get jobs: ${error.message}`);
+    return (data || []).map(mapJob);
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    const { error, count } = await supabaseAdmin
+      .from('jobs')
+      .delete({ count: 'exact' })
+      .in('status', ['completed', 'failed'])
+      .lt('updated_at', finishedBefore.toISOString());
+
+    if (error) throw new Error(`Failed to delete finished jobs: ${error.message}`);
+    return count || 0;
+  }
+
+  // API keys (public REST API)
+  async createApiKey(key: Omit<ApiKey, 'lastUsedAt' | 'revokedAt' | 'createdAt'>): Promise<ApiKey> {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .insert({
+        id: key.id,
+        client_id: key.clientId,
+        name: key.name,
+        prefix: key.prefix,
+        key_hash: key.keyHash,
+        scopes: key.scopes,
+        expires_at: key.expiresAt ? key.expiresAt.toISOString() : null,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create API key: ${error.message}`);
+    return mapApiKey(data);
+  }
+
+  async getApiKeysByClientId(clientId: string): Promise<ApiKey[]> {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to get API keys: ${error.message}`);
+    return (data || []).map(mapApiKey);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('key_hash', keyHash)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get API key: ${error.message}`);
+    return data ? mapApiKey(data) : undefined;
+  }
+
+  async revokeApiKey(id: string, clientId: string): Promise<ApiKey | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('client_id', clientId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to revoke API key: ${error.message}`);
+    return data ? mapApiKey(data) : undefined;
+  }
+
+  async recordApiKeyUsage(usage: Omit<ApiKeyUsage, 'id' | 'createdAt'>): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('api_key_usage')
+      .insert({
+        id: nanoid(),
+        api_key_id: usage.apiKeyId,
+        client_id: usage.clientId,
+        method: usage.method,
+        path: usage.path,
+        status_code: usage.statusCode,
+        duration_ms: usage.durationMs,
+        ip_address: usage.ipAddress,
+      });
+
+    if (error) throw new Error(`Failed to record API key usage: ${error.message}`);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', usage.apiKeyId);
+
+    if (updateError) throw new Error(`Failed to update API key: ${updateError.message}`);
+  }
+
+  async getApiKeyUsage(apiKeyId: string, limit: number): Promise<ApiKeyUsage[]> {
+    const { data, error } = await supabaseAdmin
+      .from('api_key_usage')
+      .select('*')
+      .eq('api_key_id', apiKeyId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get API key usage: ${error.message}`);
+    return (data || []).map(mapApiKeyUsage);
+  }
+
+  async deleteApiKeyUsage(before: Date): Promise<number> {
+    const { error, count } = await supabaseAdmin
+      .from('api_key_usage')
+      .delete({ count: 'exact' })
+      .lt('created_at', before.toISOString());
+
+    if (error) throw new Error(`Failed to delete API key usage: ${error.message}`);
+    return count || 0;
+  }
+
+  // Webhooks
+  async createWebhookEndpoint(endpoint: Omit<WebhookEndpoint, 'createdAt' | 'updatedAt'>): Promise<WebhookEndpoint> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .insert({
+        id: endpoint.id,
+        client_id: endpoint.clientId,
+        url: endpoint.url,
+        description: endpoint.description,
+        events: endpoint.events,
+        secret: endpoint.secret,
+        enabled: endpoint.enabled,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create webhook endpoint: ${error.message}`);
+    return mapWebhookEndpoint(data);
+  }
+
+  async getWebhookEndpoints(clientId: string): Promise<WebhookEndpoint[]> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get webhook endpoints: ${error.message}`);
+    return (data || []).map(mapWebhookEndpoint);
+  }
+
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get webhook endpoint: ${error.message}`);
+    return data ? mapWebhookEndpoint(data) : undefined;
+  }
+
+  async updateWebhookEndpoint(
+    id: string,
+    updates: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'secret' | 'enabled'>>
+  ): Promise<WebhookEndpoint> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+    return mapWebhookEndpoint(data);
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+  }
+
+  async createWebhookDelivery(
+    delivery: Pick<WebhookDelivery, 'id' | 'endpointId' | 'clientId' | 'eventId' | 'eventType' | 'payload'>
+  ): Promise<WebhookDelivery> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .insert({
+        id: delivery.id,
+        endpoint_id: delivery.endpointId,
+        client_id: delivery.clientId,
+        event_id: delivery.eventId,
+        event_type: delivery.eventType,
+        payload: delivery.payload,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create webhook delivery: ${error.message}`);
+    return mapWebhookDelivery(data);
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get webhook delivery: ${error.message}`);
+    return data ? mapWebhookDelivery(data) : undefined;
+  }
+
+  async getWebhookDeliveries(endpointId: string, limit: number): Promise<WebhookDelivery[]> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get webhook deliveries: ${error.message}`);
+    return (data || []).map(mapWebhookDelivery);
+  }
+
+  async updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .update({
+        status: updates.status,
+        attempts: updates.attempts,
+        response_status: updates.responseStatus,
+        response_body: updates.responseBody,
+        error: updates.error,
+        duration_ms: updates.durationMs,
+        last_attempt_at: updates.lastAttemptAt ? new Date(updates.lastAttemptAt).toISOString() : undefined,
+        delivered_at: updates.deliveredAt ? new Date(updates.deliveredAt).toISOString() : undefined,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update webhook delivery: ${error.message}`);
+    return mapWebhookDelivery(data);
+  }
+
+  async deleteWebhookDeliveries(before: Date): Promise<number> {
+    const { error, count } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .delete({ count: 'exact' })
+      .lt('created_at', before.toISOString());
+
+    if (error) throw new Error(`Failed to delete webhook deliveries: ${error.message}`);
+    return count || 0;
+  }
+
+  // LLM usage metering
+  async recordLLMUsage(usage: Omit<LLMUsage, 'id' | 'createdAt'>): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('llm_usage')
+      .insert({
+        id: nanoid(),
+        client_id: usage.clientId,
+        chatbot_id: usage.chatbotId,
+        operation: usage.operation,
+        provider: usage.provider,
+        model: usage.model,
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        cost: usage.cost,
+      });
+
+    if (error) throw new Error(`Failed to record LLM usage: ${error.message}`);
+  }
+
+  async getLLMUsageSummary(from: Date, to: Date, clientId?: string): Promise<LLMUsageSummaryRow[]> {
+    const { data, error } = await supabaseAdmin.rpc('summarize_llm_usage', {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_client_id: clientId ?? null,
+    });
+
+    if (error) throw new Error(`Failed to summarize LLM usage: ${error.message}`);
+    return (data || []).map(mapLLMUsageSummaryRow);
+  }
+
+  // Widget rate limiting (shared token buckets)
+  async takeRateLimitTokens(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<{ allowed: boolean; tokens: number }> {
+    const { data, error } = await supabaseAdmin.rpc('take_rate_limit_tokens', {
+      p_key: key,
+      p_capacity: capacity,
+      p_refill_per_second: refillPerSecond,
+      p_cost: cost,
+    });
+
+    if (error) throw new Error(`Failed to take rate limit tokens: ${error.message}`);
+    const row = (data as any[])[0];
+    return { allowed: row.allowed, tokens: Number(row.tokens) };
+  }
+
+  async deleteStaleRateLimitBuckets(updatedBefore: Date): Promise<number> {
+    const { error, count } = await supabaseAdmin
+      .from('rate_limit_buckets')
+      .delete({ count: 'exact' })
+      .lt('updated_at', updatedBefore.toISOString());
+
+    if (error) throw new Error(`Failed to delete rate limit buckets: ${error.message}`);
+    return count || 0;
+  }
+
+  // Evaluation golden sets and runs
+  async createEvalSet(set: Pick<EvalSet, 'id' | 'chatbotId' | 'name' | 'description'>): Promise<EvalSet> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_sets')
+      .insert({
+        id: set.id,
+        chatbot_id: set.chatbotId,
+        name: set.name,
+        description: set.description,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create evaluation set: ${error.message}`);
+    return mapEvalSet(data);
+  }
+
+  async getEvalSets(chatbotId: string): Promise<EvalSet[]> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_sets')
+      .select('*')
+      .eq('chatbot_id', chatbotId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get evaluation sets: ${error.message}`);
+    return (data || []).map(mapEvalSet);
+  }
+
+  async getEvalSet(id: string): Promise<EvalSet | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_sets')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get evaluation set: ${error.message}`);
+    return data ? mapEvalSet(data) : undefined;
+  }
+
+  async updateEvalSet(id: string, updates: Partial<Pick<EvalSet, 'name' | 'description'>>): Promise<EvalSet> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_sets')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update evaluation set: ${error.message}`);
+    return mapEvalSet(data);
+  }
+
+  async deleteEvalSet(id: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('eval_sets')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete evaluation set: ${error.message}`);
+  }
+
+  async createEvalCase(
+    evalCase: Pick<EvalCase, 'id' | 'setId' | 'question' | 'expectedAnswer' | 'expectedDocumentIds'>
+  ): Promise<EvalCase> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_cases')
+      .insert({
+        id: evalCase.id,
+        set_id: evalCase.setId,
+        question: evalCase.question,
+        expected_answer: evalCase.expectedAnswer,
+        expected_document_ids: evalCase.expectedDocumentIds,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create evaluation case: ${error.message}`);
+    return mapEvalCase(data);
+  }
+
+  async getEvalCases(setId: string): Promise<EvalCase[]> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_cases')
+      .select('*')
+      .eq('set_id', setId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get evaluation cases: ${error.message}`);
+    return (data || []).map(mapEvalCase);
+  }
+
+  async getEvalCase(id: string): Promise<EvalCase | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_cases')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get evaluation case: ${error.message}`);
+    return data ? mapEvalCase(data) : undefined;
+  }
+
+  async updateEvalCase(
+    id: string,
+    updates: Partial<Pick<EvalCase, 'question' | 'expectedAnswer' | 'expectedDocumentIds'>>
+  ): Promise<EvalCase> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_cases')
+      .update({
+        question: updates.question,
+        expected_answer: updates.expectedAnswer,
+        expected_document_ids: updates.expectedDocumentIds,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update evaluation case: ${error.message}`);
+    return mapEvalCase(data);
+  }
+
+  async deleteEvalCase(id: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('eval_cases')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete evaluation case: ${error.message}`);
+  }
+
+  async createEvalRun(run: Pick<EvalRun, 'id' | 'setId' | 'chatbotId' | 'label' | 'llm'>): Promise<EvalRun> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_runs')
+      .insert({
+        id: run.id,
+        set_id: run.setId,
+        chatbot_id: run.chatbotId,
+        label: run.label,
+        llm: run.llm,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create evaluation run: ${error.message}`);
+    return mapEvalRun(data);
+  }
+
+  async getEvalRuns(setId: string, limit: number): Promise<EvalRun[]> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_runs')
+      .select('*')
+      .eq('set_id', setId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get evaluation runs: ${error.message}`);
+    return (data || []).map(mapEvalRun);
+  }
+
+  async getEvalRun(id: string): Promise<EvalRun | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_runs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get evaluation run: ${error.message}`);
+    return data ? mapEvalRun(data) : undefined;
+  }
+
+  async updateEvalRun(id: string, updates: EvalRunUpdate): Promise<EvalRun> {
+    const { data, error } = await supabaseAdmin
+      .from('eval_runs')
+      .update({
+        status: updates.status,
+        settings: updates.settings as any,
+        summary: updates.summary as any,
+        results: updates.results as any,
+        error: updates.error,
+        started_at: updates.startedAt ? new Date(updates.startedAt).toISOString() : undefined,
+        completed_at: updates.completedAt ? new Date(updates.completedAt).toISOString() : undefined,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update evaluation run: ${error.message}`);
+    return mapEvalRun(data);
+  }
+
+  async createChatbotConfigVersion(version: Pick<ChatbotConfigVersion, 'id' | 'chatbotId' | 'version' | 'config' | 'diff' | 'action' | 'note' | 'author' | 'publishedAt' | 'publishedBy'>): Promise<ChatbotConfigVersion> {
+    const { data, error } = await supabaseAdmin
+      .from('chatbot_config_versions')
+      .insert({
+        id: version.id,
+        chatbot_id: version.chatbotId,
+        version: version.version,
+        config: version.config,
+        diff: version.diff as any,
+        action: version.action,
+        note: version.note,
+        author: version.author,
+        published_at: version.publishedAt ? new Date(version.publishedAt).toISOString() : null,
+        published_by: version.publishedBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create config version: ${error.message}`);
+    return mapChatbotConfigVersion(data);
+  }
+
+  async getChatbotConfigVersions(chatbotId: string, limit: number): Promise<ChatbotConfigVersion[]> {
+    const { data, error } = await supabaseAdmin
+      .from('chatbot_config_versions')
+      .select('*')
+      .eq('chatbot_id', chatbotId)
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get config versions: ${error.message}`);
+    return (data || []).map(mapChatbotConfigVersion);
+  }
+
+  async getChatbotConfigVersion(id: string): Promise<ChatbotConfigVersion | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('chatbot_config_versions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get config version: ${error.message}`);
+    return data ? mapChatbotConfigVersion(data) : undefined;
+  }
+
+  async getLatestChatbotConfigVersion(chatbotId: string, publishedOnly = false): Promise<ChatbotConfigVersion | undefined> {
+    let query = supabaseAdmin
+      .from('chatbot_config_versions')
+      .select('*')
+      .eq('chatbot_id', chatbotId);
+    if (publishedOnly) {
+      query = query.not('published_at', 'is', null);
+    }
+
+    const { data, error } = await query
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get config version: ${error.message}`);
+    return data ? mapChatbotConfigVersion(data) : undefined;
+  }
+
+  async publishChatbotConfigVersion(id: string, publishedBy: string | null): Promise<ChatbotConfigVersion> {
+    const { data, error } = await supabaseAdmin
+      .from('chatbot_config_versions')
+      .update({ published_at: new Date().toISOString(), published_by: publishedBy })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to publish config version: ${error.message}`);
+    return mapChatbotConfigVersion(data);
+  }
+
   // Email notification settings
   async getEmailSettings(notificationType?: string): Promise<EmailSettings[]> {
     // Email settings feature - return empty array for now
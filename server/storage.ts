@@ -0,0 +1,9 @@
+import config from './config.js';
+import { supabaseStorage } from './storage-supabase.js';
+import { postgresStorage } from './storage-postgres.js';
+import type { IStorage } from './storage-supabase.js';
+
+export type { IStorage };
+
+// Storage backend selected by STORAGE_BACKEND: Supabase (default) or plain Postgres
+export const storage: IStorage = config.storageBackend === 'postgres' ? postgresStorage : supabaseStorage;
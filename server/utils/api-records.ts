@@ -0,0 +1,18 @@
+import { ZodDate, ZodNullable, ZodOptional, type AnyZodObject, type ZodTypeAny } from "zod";
+import { parseUtc } from "./time.js";
+
+function isDateField(field: ZodTypeAny): boolean {
+  const inner = field instanceof ZodNullable || field instanceof ZodOptional ? field.unwrap() : field;
+  return inner instanceof ZodDate;
+}
+
+/**
+ * The documented fields of a record, with timestamps in ISO 8601 UTC; storage records can carry
+ * extra fields (snake_case columns, joined rows). Used for REST API responses and webhook payloads.
+ */
+export function present(schema: AnyZodObject, record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(schema.shape).map(([key, field]) => {
+    const value = record[key] ?? null;
+    return [key, value !== null && isDateField(field as ZodTypeAny) ? new Date(parseUtc(value)).toISOString() : value];
+  }));
+}
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+
+// AES-256-GCM encryption for third-party credentials stored in the database
+// Output format: base64url(iv).base64url(authTag).base64url(ciphertext)
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+function getKey(): Buffer {
+  const secret = process.env.INTEGRATION_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('Missing required encryption key: INTEGRATION_ENCRYPTION_KEY');
+  }
+  // Derive a fixed-length key so any sufficiently random string can be used
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const parts = encrypted.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid encrypted value');
+  }
+
+  const [iv, authTag, ciphertext] = parts.map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,136 @@
+// Lightweight HTML and sitemap parsing for the website crawler.
+// Regex based on purpose: crawled pages only need readable text and links, not a DOM.
+
+export interface ExtractedPage {
+  title: string;
+  text: string;
+  links: string[];
+  noindex: boolean;
+  nofollow: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', bull: '•',
+  middot: '·', copy: '©', reg: '®', trade: '™', euro: '€', deg: '°',
+};
+
+// Never part of the readable content
+const REMOVED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'canvas', 'form', 'button', 'select'];
+// Page chrome around the content
+const CHROME_ELEMENTS = ['nav', 'header', 'footer', 'aside'];
+
+const BLOCK_TAGS = 'p|div|section|article|main|table|tr|ul|ol|dl|dt|dd|blockquote|pre|figure|figcaption|address|details|summary';
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : '';
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function removeElements(html: string, tags: string[]): string {
+  let result = html;
+  for (const tag of tags) {
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), ' ');
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*\\/>`, 'gi'), ' ');
+  }
+  return result;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function innerOf(html: string, tag: string): string | undefined {
+  const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)<\\/${tag}\\s*>`, 'i'));
+  return match?.[1];
+}
+
+// Convert markup to plain text, keeping headings, paragraphs and list items on their own lines
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      // Source line breaks are not significant in HTML; tags decide where lines break
+      .replace(/\s+/g, ' ')
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_m, level: string, inner: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, ' ').trim()}\n\n`)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+      .replace(new RegExp(`<\\/?(${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract the readable content of a page: <main> or <article> when present, else <body> without
+ * navigation, header, footer and sidebars. Links are collected from the whole page, resolved and
+ * stripped of fragments, so navigation menus still drive the crawl. Without a page URL only absolute
+ * links are returned.
+ */
+export function extractMainContent(html: string, pageUrl?: string): ExtractedPage {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, ' ');
+
+  const robots = (withoutComments.match(/<meta\b[^>]*name\s*=\s*["']?robots["']?[^>]*>/i) || [])[0];
+  const robotsContent = (robots && getAttribute(robots, 'content') || '').toLowerCase();
+
+  const baseTag = (withoutComments.match(/<base\b[^>]*>/i) || [])[0];
+  const baseUrl = (baseTag && getAttribute(baseTag, 'href')) || pageUrl;
+
+  const links = new Set<string>();
+  for (const anchor of withoutComments.match(/<a\b[^>]*>/gi) || []) {
+    const href = getAttribute(anchor, 'href')?.trim();
+    if (!href || /^(mailto|tel|javascript|data):/i.test(href)) continue;
+    if (/\brel\s*=\s*["'][^"']*\bnofollow\b/i.test(anchor)) continue;
+    try {
+      const url = baseUrl ? new URL(href, new URL(baseUrl, pageUrl)) : new URL(href);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      links.add(url.href);
+    } catch {
+      // Malformed href
+    }
+  }
+
+  const cleaned = removeElements(withoutComments, REMOVED_ELEMENTS);
+  const titleTag = innerOf(cleaned, 'title');
+  const body = innerOf(cleaned, 'body') ?? cleaned;
+  const main = innerOf(body, 'main') ?? innerOf(body, 'article') ?? body;
+  const text = htmlToText(removeElements(main, CHROME_ELEMENTS));
+
+  const heading = text.match(/^# (.+)$/m)?.[1];
+  const title = (titleTag ? htmlToText(titleTag) : '') || heading || (pageUrl ? new URL(pageUrl).pathname : '');
+
+  return {
+    title: title.replace(/\s+/g, ' ').trim(),
+    text,
+    links: Array.from(links),
+    noindex: /\b(noindex|none)\b/.test(robotsContent),
+    nofollow: /\b(nofollow|none)\b/.test(robotsContent),
+  };
+}
+
+/**
+ * Page URLs and nested sitemaps listed in a sitemap.xml or sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locsIn = (element: string) =>
+    (xml.match(new RegExp(`<${element}\\b[^>]*>[\\s\\S]*?<\\/${element}>`, 'gi')) || [])
+      .map(entry => entry.match(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/i)?.[1])
+      .filter((loc): loc is string => !!loc)
+      .map(loc => decodeEntities(loc.trim()));
+
+  return { urls: locsIn('url'), sitemaps: locsIn('sitemap') };
+}
@@ -1,8 +1,9 @@
+import crypto from "crypto";
 import config from "../config.js";
 
 // Simple JWT creation without external library
 // Uses base64 encoding for simplicity
-export function createToken(payload: any): string {
+export function createToken(payload: any, expiresInSeconds: number = 7 * 24 * 60 * 60): string {
   const header = {
     alg: "HS256",
     typ: "JWT"
@@ -12,7 +13,7 @@ export function createToken(payload: any): string {
   const tokenPayload = {
     ...payload,
     iat: now,
-    exp: now + (7 * 24 * 60 * 60), // 7 days
+    exp: now + expiresInSeconds, // 7 days unless given
   };
   
   const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
@@ -34,7 +35,10 @@ export function verifyToken(token: string): any {
     
     // Verify signature
     const expectedSignature = createSignature(`${encodedHeader}.${encodedPayload}`);
-    if (signature !== expectedSignature) {
+    if (
+      signature.length !== expectedSignature.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
+    ) {
       return null;
     }
     
@@ -53,7 +57,6 @@ export function verifyToken(token: string): any {
 }
 
 function createSignature(data: string): string {
-  const crypto = require('crypto');
   const secret = config.sessionSecret || 'default-secret';
   return crypto
     .createHmac('sha256', secret)
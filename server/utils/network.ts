@@ -0,0 +1,111 @@
+// Outbound requests to URLs that clients configure (webhook endpoints), kept off the internal network.
+// The address check runs in the socket's DNS lookup, so the address that was checked is the one
+// connected to: a host cannot resolve to a public address when checked and a private one when called.
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+const INTERNAL_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isInternalAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return INTERNAL_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export class InternalAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} resolves to a private or internal address`);
+    this.name = 'InternalAddressError';
+  }
+}
+
+/**
+ * dns.lookup for http.request that fails when the host resolves to an internal address
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+      return callback(new InternalAddressError(hostname), '', 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Throw InternalAddressError when a URL's host is, or resolves to, an internal address
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) {
+    if (isInternalAddress(hostname)) throw new InternalAddressError(hostname);
+    return;
+  }
+
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new InternalAddressError(hostname);
+  }
+}
+
+export interface PostResult {
+  status: number;
+  body: string;
+}
+
+/**
+ * POST a body to a URL without following redirects. Unless allowInternal is set, hosts resolving to
+ * internal addresses are refused. Reads at most maxBodyLength characters of the response.
+ */
+export function postToUrl(
+  url: string,
+  options: { headers: Record<string, string>; body: string; signal: AbortSignal; maxBodyLength: number; allowInternal?: boolean }
+): Promise<PostResult> {
+  const target = new URL(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  if (!options.allowInternal && net.isIP(hostname) && isInternalAddress(hostname)) {
+    return Promise.reject(new InternalAddressError(hostname));
+  }
+
+  const client = target.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body) },
+      signal: options.signal,
+      lookup: options.allowInternal ? undefined : publicLookup,
+    }, (response) => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length >= options.maxBodyLength) {
+          response.destroy();
+          resolve({ status: response.statusCode || 0, body: body.slice(0, options.maxBodyLength) });
+        }
+      });
+      response.on('end', () => resolve({ status: response.statusCode || 0, body }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
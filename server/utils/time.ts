@@ -0,0 +1,6 @@
+// TIMESTAMP columns hold UTC but come back without a zone designator
+export function parseUtc(value: Date | string): number {
+  return typeof value === 'string' && !/(Z|[+-]\d{2}:?\d{2})$/.test(value)
+    ? Date.parse(`${value}Z`)
+    : new Date(value).getTime();
+}
@@ -0,0 +1,19 @@
+// Job worker process: runs background jobs (document processing, crawls, scheduled sweeps)
+// for API servers started with JOB_WORKER=external
+import { validateEnv } from "./config.js";
+import { registerJobs } from "./application/jobs.js";
+import { jobQueue } from "./services/job-queue.js";
+
+validateEnv();
+registerJobs();
+jobQueue.start();
+
+// Let running jobs finish before exiting; unfinished ones are picked up again after their lease
+async function shutdown(signal: string) {
+  console.log(`[Jobs] ${signal} received, stopping worker...`);
+  await jobQueue.stop();
+  process.exit(0);
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));